@@ -1,4 +1,9 @@
-const CACHE_NAME = 'session-maps-v3';
+const CACHE_NAME = 'session-maps-v4';
+// Written by client/src/lib/offlineTiles.ts when a pack is downloaded
+const OFFLINE_TILE_CACHE = 'session-maps-offline-tiles';
+// Style JSON, TileJSON, sprites and glyphs, kept so the map can start offline
+const OFFLINE_ASSET_CACHE = 'session-maps-offline-assets';
+const PERSISTENT_CACHES = [CACHE_NAME, OFFLINE_TILE_CACHE, OFFLINE_ASSET_CACHE];
 const APP_SHELL = [
   '/',
   '/manifest.json',
@@ -19,13 +24,68 @@ self.addEventListener('activate', (event) => {
     caches.keys().then((cacheNames) => {
       return Promise.all(
         cacheNames
-          .filter((name) => name.startsWith('session-maps-') && name !== CACHE_NAME)
+          .filter((name) => name.startsWith('session-maps-') && !PERSISTENT_CACHES.includes(name))
           .map((name) => caches.delete(name))
       );
     }).then(() => self.clients.claim())
   );
 });
 
+// Must stay in sync with offlineTileKey() in client/src/lib/offlineTiles.ts
+function offlineTileKey(url) {
+  if (url.hostname.endsWith('mapbox.com')) {
+    const match = url.pathname.match(/\/(?:v4|raster\/v1)\/([^/]+)\/(\d+)\/(\d+)\/(\d+)(?:@2x)?\.([a-z0-9.]+)$/i);
+    if (!match) return null;
+    const [, tileset, z, x, y, ext] = match;
+    const type = /vector|mvt|pbf/.test(ext) ? 'pbf' : 'img';
+    return `https://offline-tiles.local/mapbox/${tileset}/${z}/${x}/${y}.${type}`;
+  }
+  if (url.hostname === 'server.arcgisonline.com' && /\/tile\/\d+\/\d+\/\d+$/.test(url.pathname)) {
+    return `${url.origin}${url.pathname}`;
+  }
+  if (url.hostname.endsWith('waymarkedtrails.org')) {
+    return `${url.origin}${url.pathname}`;
+  }
+  if (url.origin === location.origin && /^\/api\/drone-images\/\d+\/tiles\/\d+\/\d+\/\d+\.(png|webp|jpg)$/.test(url.pathname)) {
+    return `${url.origin}${url.pathname}`;
+  }
+  return null;
+}
+
+function isMapboxAsset(url) {
+  if (!url.hostname.endsWith('mapbox.com') || url.hostname === 'events.mapbox.com') return false;
+  return url.pathname.startsWith('/styles/v1/') ||
+         url.pathname.startsWith('/fonts/v1/') ||
+         /^\/v4\/[^/]+\.json$/.test(url.pathname);
+}
+
+// Offline pack tiles are served cache-first; anything not in a pack goes to
+// the network as before
+async function offlineTileResponse(request, key) {
+  const cache = await caches.open(OFFLINE_TILE_CACHE);
+  const cached = await cache.match(key);
+  if (cached) return cached;
+  return fetch(request);
+}
+
+// Network-first, remembering the last good copy (keyed without the token)
+async function offlineAssetResponse(request, url) {
+  const params = new URLSearchParams(url.search);
+  params.delete('access_token');
+  params.delete('sku');
+  const key = `${url.origin}${url.pathname}?${params.toString()}`;
+  const cache = await caches.open(OFFLINE_ASSET_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(key, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(key);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
 function shouldBypassCache(url) {
   const bypassPatterns = [
     'mapbox.com',
@@ -63,6 +123,17 @@ self.addEventListener('fetch', (event) => {
     return;
   }
 
+  const tileKey = offlineTileKey(url);
+  if (tileKey) {
+    event.respondWith(offlineTileResponse(request, tileKey));
+    return;
+  }
+
+  if (isMapboxAsset(url)) {
+    event.respondWith(offlineAssetResponse(request, url));
+    return;
+  }
+
   if (shouldBypassCache(url)) {
     return;
   }
@@ -130,15 +201,18 @@ self.addEventListener('push', (event) => {
   if (!event.data) return;
 
   const data = event.data.json();
+  // SOS and overdue check-in alerts stay on screen until the user dismisses them
+  const isSafetyAlert = data.data?.type === 'sos' || data.data?.type === 'check_in_overdue';
   const options = {
     body: data.body || '',
     icon: '/icons/icon-192.png',
     badge: '/icons/icon-72.png',
-    vibrate: [200, 100, 200],
+    vibrate: isSafetyAlert ? [500, 200, 500, 200, 500] : [200, 100, 200],
     data: data.data || {},
     actions: data.actions || [],
-    tag: data.data?.type === 'voice_message' ? 'voice-message' : undefined,
-    renotify: data.data?.type === 'voice_message' ? true : false,
+    tag: data.data?.type === 'voice_message' ? 'voice-message' : isSafetyAlert ? `incident-${data.data.incidentId}` : undefined,
+    renotify: data.data?.type === 'voice_message' || isSafetyAlert,
+    requireInteraction: isSafetyAlert,
   };
 
   event.waitUntil(
@@ -12,6 +12,7 @@ import Auth from "@/pages/Auth";
 import Profile from "@/pages/Profile";
 import AdminPanel from "@/pages/AdminPanel";
 import LiveSharedMap from "@/pages/LiveSharedMap";
+import SessionDebrief from "@/pages/SessionDebrief";
 import Explore from "@/pages/Explore";
 import ForgotPassword from "@/pages/ForgotPassword";
 import ResetPassword from "@/pages/ResetPassword";
@@ -50,6 +51,7 @@ function Router() {
       <Route path="/upload">{() => <ProtectedRoute component={UploadManagement} />}</Route>
       <Route path="/cesium/:id">{(params) => <ProtectedRoute component={CesiumViewer} {...params} />}</Route>
       <Route path="/enterprise/:id">{(params) => <ProtectedRoute component={EnterprisePortal} {...params} />}</Route>
+      <Route path="/live-map/:id/debrief">{(params) => <ProtectedRoute component={SessionDebrief} {...params} />}</Route>
       <Route path="/live-map/:id">{(params) => <ProtectedRoute component={LiveSharedMap} {...params} />}</Route>
       {isLoading || !isAuthenticated ? (
         <Route path="/" component={Auth} />
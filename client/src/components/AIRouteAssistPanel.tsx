@@ -1,5 +1,5 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { X, Send, Sparkles, Loader2, ChevronDown, ChevronUp, MapPin } from 'lucide-react';
+import { X, Send, Sparkles, Loader2, ChevronDown, ChevronUp, MapPin, AlertTriangle, SquarePen } from 'lucide-react';
 
 type ActivityType = 'hiking' | 'trail_running' | 'downhill_ski' | 'xc_ski' | 'mtb';
 
@@ -11,6 +11,19 @@ interface RouteOption {
   waypoints: Array<{ lat: number; lng: number; name?: string; description?: string }>;
   communityRouteId?: number;
   communityAuthor?: string;
+  // Trail-network path and how far it strayed from the suggested waypoints
+  path?: [number, number][];
+  distance?: number;
+  elevationGain?: number;
+  elevationLoss?: number;
+  snap?: {
+    status: 'snapped' | 'flagged' | 'unverified';
+    maxDeviationMeters?: number;
+    warnings: string[];
+  };
+  // Terrain-model duration and splits computed by the server
+  estimatedTime?: number;
+  legs?: Array<{ from: string; to: string; distance: number; gain: number; seconds: number; cumulativeSeconds: number }>;
 }
 
 interface ChatMessage {
@@ -36,6 +49,9 @@ const ACTIVITY_OPTIONS: { value: ActivityType; label: string }[] = [
   { value: 'mtb', label: 'Mountain Bike' },
 ];
 
+// The open conversation, so a reload picks up where the user left off
+const CONVERSATION_STORAGE_KEY = 'sessionmaps_ai_conversation';
+
 const STARTER_SUGGESTIONS = [
   "Find me a moderate loop hike nearby",
   "What trails are in this area?",
@@ -49,13 +65,22 @@ const COLOR_MAP: Record<string, { border: string; badge: string; dot: string }>
   green: { border: 'border-green-500/50', badge: 'bg-green-500/20 text-green-300', dot: 'bg-green-500' },
 };
 
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
 export default function AIRouteAssistPanel({ isOpen, onClose, mapCenter, mapZoom, onAddWaypoints, existingRoute }: AIRouteAssistPanelProps) {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [activityType, setActivityType] = useState<ActivityType>('hiking');
   const [expandedOptions, setExpandedOptions] = useState<Set<number>>(new Set());
-  const [conversationHistory, setConversationHistory] = useState<Array<{ role: 'user' | 'assistant'; content: string }>>([]);
+  const [conversationId, setConversationId] = useState<number | null>(() => {
+    const stored = Number(localStorage.getItem(CONVERSATION_STORAGE_KEY));
+    return Number.isInteger(stored) && stored > 0 ? stored : null;
+  });
+  const [isRestoring, setIsRestoring] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
 
@@ -69,6 +94,45 @@ export default function AIRouteAssistPanel({ isOpen, onClose, mapCenter, mapZoom
     }
   }, [isOpen]);
 
+  useEffect(() => {
+    if (conversationId) localStorage.setItem(CONVERSATION_STORAGE_KEY, String(conversationId));
+    else localStorage.removeItem(CONVERSATION_STORAGE_KEY);
+  }, [conversationId]);
+
+  // Reload the stored conversation the first time the panel opens
+  useEffect(() => {
+    if (!isOpen || !conversationId || messages.length > 0) return;
+    let cancelled = false;
+    setIsRestoring(true);
+    fetch(`/api/ai/conversations/${conversationId}`, { credentials: 'include' })
+      .then(async response => {
+        if (cancelled) return;
+        if (!response.ok) {
+          setConversationId(null);
+          return;
+        }
+        const conversation = await response.json();
+        setMessages(conversation.messages.map((msg: ChatMessage) => ({
+          role: msg.role,
+          content: msg.content,
+          routeOptions: msg.routeOptions,
+        })));
+        if (ACTIVITY_OPTIONS.some(opt => opt.value === conversation.activityType)) {
+          setActivityType(conversation.activityType);
+        }
+      })
+      .catch(() => {})
+      .finally(() => { if (!cancelled) setIsRestoring(false); });
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  const startNewConversation = () => {
+    setConversationId(null);
+    setMessages([]);
+    setExpandedOptions(new Set());
+  };
+
   const sendMessage = useCallback(async (messageText: string) => {
     if (!messageText.trim() || isLoading || !mapCenter) return;
 
@@ -77,8 +141,6 @@ export default function AIRouteAssistPanel({ isOpen, onClose, mapCenter, mapZoom
     setInput('');
     setIsLoading(true);
 
-    const newHistory = [...conversationHistory, { role: 'user' as const, content: messageText.trim() }];
-
     try {
       const response = await fetch('/api/ai/route-assist', {
         method: 'POST',
@@ -89,12 +151,18 @@ export default function AIRouteAssistPanel({ isOpen, onClose, mapCenter, mapZoom
           mapCenter: { lat: mapCenter.lat, lng: mapCenter.lng },
           mapZoom: mapZoom,
           activityType,
-          conversationHistory,
+          conversationId,
           existingRoute: existingRoute?.map(p => ({ lat: p.lat, lng: p.lng })),
         }),
       });
 
       const data = await response.json();
+      if (response.status === 404) {
+        // The stored conversation was deleted; the next message starts a new one
+        setConversationId(null);
+      } else if (data.conversationId) {
+        setConversationId(data.conversationId);
+      }
 
       const responseText = data.message || 'No response received.';
       const routeOptions = data.routeOptions || [];
@@ -105,7 +173,6 @@ export default function AIRouteAssistPanel({ isOpen, onClose, mapCenter, mapZoom
         routeOptions: routeOptions.length > 0 ? routeOptions : undefined,
       };
       setMessages(prev => [...prev, assistantMessage]);
-      setConversationHistory([...newHistory, { role: 'assistant', content: responseText }]);
     } catch (err) {
       const errorMessage: ChatMessage = {
         role: 'assistant',
@@ -115,7 +182,7 @@ export default function AIRouteAssistPanel({ isOpen, onClose, mapCenter, mapZoom
     } finally {
       setIsLoading(false);
     }
-  }, [isLoading, mapCenter, mapZoom, activityType, conversationHistory, existingRoute]);
+  }, [isLoading, mapCenter, mapZoom, activityType, conversationId, existingRoute]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -147,9 +214,21 @@ export default function AIRouteAssistPanel({ isOpen, onClose, mapCenter, mapZoom
           <Sparkles className="w-5 h-5 text-yellow-400" />
           <h3 className="text-white font-semibold text-sm">AI Route Assistant</h3>
         </div>
-        <button onClick={onClose} className="text-white/60 hover:text-white p-1 rounded transition-colors">
-          <X className="w-4 h-4" />
-        </button>
+        <div className="flex items-center gap-1">
+          {messages.length > 0 && (
+            <button
+              onClick={startNewConversation}
+              disabled={isLoading}
+              title="New conversation"
+              className="text-white/60 hover:text-white p-1 rounded transition-colors disabled:opacity-40"
+            >
+              <SquarePen className="w-4 h-4" />
+            </button>
+          )}
+          <button onClick={onClose} className="text-white/60 hover:text-white p-1 rounded transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
       </div>
 
       <div className="px-3 py-2 border-b border-white/10 flex gap-1.5 flex-wrap">
@@ -169,7 +248,13 @@ export default function AIRouteAssistPanel({ isOpen, onClose, mapCenter, mapZoom
       </div>
 
       <div className="flex-1 overflow-y-auto px-3 py-3 space-y-3 min-h-[200px]">
-        {messages.length === 0 && (
+        {isRestoring && messages.length === 0 && (
+          <div className="flex justify-center pt-4">
+            <Loader2 className="w-4 h-4 text-yellow-400 animate-spin" />
+          </div>
+        )}
+
+        {messages.length === 0 && !isRestoring && (
           <div className="space-y-3">
             <p className="text-white/50 text-xs text-center pt-2">Ask me about routes and trails in this area</p>
             <div className="grid grid-cols-1 gap-1.5">
@@ -215,9 +300,36 @@ export default function AIRouteAssistPanel({ isOpen, onClose, mapCenter, mapZoom
                               <span className={`text-[9px] px-1.5 py-0.5 rounded-full ${colorStyle.badge}`}>
                                 {isCommunity ? 'Community' : 'Trail Data'}
                               </span>
+                              {option.snap?.status === 'flagged' && (
+                                <span className="text-[9px] px-1.5 py-0.5 rounded-full bg-amber-500/20 text-amber-300">
+                                  Check route
+                                </span>
+                              )}
                             </div>
                             <p className="text-white font-medium text-xs truncate">{option.label}</p>
                             <p className="text-white/50 text-[10px] mt-0.5">{option.description}</p>
+                            {option.distance !== undefined && (
+                              <p className="text-white/70 text-[10px] mt-0.5">
+                                {(option.distance / 1609.34).toFixed(1)} mi on trails
+                                {option.elevationGain !== undefined && ` · +${Math.round(option.elevationGain * 3.28084).toLocaleString()} ft`}
+                                {option.elevationLoss !== undefined && ` / -${Math.round(option.elevationLoss * 3.28084).toLocaleString()} ft`}
+                              </p>
+                            )}
+                            {option.estimatedTime !== undefined && (
+                              <p className="text-yellow-300/80 text-[10px] mt-0.5">
+                                ~{formatMinutes(option.estimatedTime)} on this terrain
+                              </p>
+                            )}
+                            {option.snap && option.snap.warnings.length > 0 && (
+                              <div className="mt-1 space-y-0.5">
+                                {option.snap.warnings.map((warning, w) => (
+                                  <p key={w} className="flex items-start gap-1 text-amber-300/80 text-[10px]">
+                                    <AlertTriangle className="w-2.5 h-2.5 flex-shrink-0 mt-0.5" />
+                                    {warning}
+                                  </p>
+                                ))}
+                              </div>
+                            )}
                             {isCommunity && option.communityAuthor && (
                               <p className="text-purple-400/60 text-[10px] mt-0.5">
                                 Route by @{option.communityAuthor}
@@ -236,12 +348,21 @@ export default function AIRouteAssistPanel({ isOpen, onClose, mapCenter, mapZoom
 
                         {isExpanded && (
                           <div className="mt-1 max-h-24 overflow-y-auto space-y-0.5">
-                            {option.waypoints.map((wp, k) => (
-                              <div key={k} className="flex items-center gap-1 text-[9px] text-white/40">
-                                <MapPin className="w-2.5 h-2.5 flex-shrink-0" />
-                                <span className="truncate">{wp.name || `${wp.lat.toFixed(5)}, ${wp.lng.toFixed(5)}`}</span>
-                              </div>
-                            ))}
+                            {option.waypoints.map((wp, k) => {
+                              // Leg k-1 ends at waypoint k
+                              const leg = k > 0 ? option.legs?.[k - 1] : undefined;
+                              return (
+                                <div key={k} className="flex items-center gap-1 text-[9px] text-white/40">
+                                  <MapPin className="w-2.5 h-2.5 flex-shrink-0" />
+                                  <span className="truncate flex-1">{wp.name || `${wp.lat.toFixed(5)}, ${wp.lng.toFixed(5)}`}</span>
+                                  {leg && (
+                                    <span className="flex-shrink-0 tabular-nums">
+                                      +{formatMinutes(Math.round(leg.seconds / 60))} · {formatMinutes(Math.round(leg.cumulativeSeconds / 60))}
+                                    </span>
+                                  )}
+                                </div>
+                              );
+                            })}
                           </div>
                         )}
 
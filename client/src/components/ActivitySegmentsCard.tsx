@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ChevronRight, Loader2, Spline, Trophy } from 'lucide-react';
+import { formatDistance, formatDuration } from '@/hooks/useActivityRecording';
+import { SegmentLeaderboardModal } from '@/components/modals/SegmentLeaderboardModal';
+import { ordinal, segmentLngLats, type ActivitySegmentEffort } from '@/lib/segments';
+import { cn } from '@/lib/utils';
+
+interface ActivitySegmentsCardProps {
+  activityId: number;
+  // Highlight a segment's path on the map ([lng, lat]), or clear it
+  onHighlight: (coordinates: [number, number][] | null) => void;
+}
+
+export default function ActivitySegmentsCard({ activityId, onHighlight }: ActivitySegmentsCardProps) {
+  const [selectedEffort, setSelectedEffort] = useState<number | null>(null);
+  const [leaderboardSegment, setLeaderboardSegment] = useState<number | null>(null);
+
+  const { data, isLoading } = useQuery<ActivitySegmentEffort[]>({
+    queryKey: ['/api/activities', String(activityId), 'segments'],
+    queryFn: async () => {
+      const res = await fetch(`/api/activities/${activityId}/segments`, { credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to fetch segments');
+      return res.json();
+    },
+  });
+
+  const toggleEffort = (item: ActivitySegmentEffort) => {
+    if (selectedEffort === item.effort.id) {
+      setSelectedEffort(null);
+      onHighlight(null);
+      return;
+    }
+    setSelectedEffort(item.effort.id);
+    onHighlight(segmentLngLats(item.segment));
+  };
+
+  // Nothing to show until the activity covers a segment
+  if (!isLoading && !data?.length) return null;
+
+  return (
+    <div className="bg-slate-800 rounded-lg p-4 mt-6" data-testid="card-activity-segments">
+      <h3 className="text-white font-semibold mb-4 flex items-center gap-2">
+        <Spline className="w-4 h-4" /> Segments
+      </h3>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-slate-400" />
+        </div>
+      ) : (
+        <div className="space-y-1">
+          {data!.map(item => (
+            <div
+              key={item.effort.id}
+              className={cn(
+                'flex items-center gap-3 rounded px-2 py-2 text-sm',
+                selectedEffort === item.effort.id ? 'bg-slate-600' : 'hover:bg-slate-700'
+              )}
+            >
+              <button
+                type="button"
+                className="flex-1 min-w-0 flex items-center gap-3 text-left"
+                onClick={() => toggleEffort(item)}
+                data-testid={`button-segment-effort-${item.effort.id}`}
+              >
+                {item.isPersonalRecord ? (
+                  <Trophy className="w-4 h-4 text-amber-400 shrink-0" />
+                ) : (
+                  <Spline className="w-4 h-4 text-slate-400 shrink-0" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <div className="text-white truncate">{item.segment.name}</div>
+                  <div className="text-xs text-slate-400">
+                    {formatDistance(parseFloat(item.segment.distanceMeters))}
+                    {item.isPersonalRecord
+                      ? item.personalEffortCount > 1 ? ' · PR' : ' · First effort'
+                      : ` · ${ordinal(item.personalRank)} best of ${item.personalEffortCount}`}
+                    {item.leaderboardRank !== null && item.leaderboardSize > 1 && ` · ${ordinal(item.leaderboardRank)} of ${item.leaderboardSize} friends`}
+                  </div>
+                </div>
+                <span className="text-white font-mono">{formatDuration(item.effort.elapsedSeconds)}</span>
+              </button>
+              <button
+                type="button"
+                className="text-slate-400 hover:text-white"
+                onClick={() => setLeaderboardSegment(item.segment.id)}
+                aria-label="Segment leaderboard"
+                data-testid={`button-segment-leaderboard-${item.segment.id}`}
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <SegmentLeaderboardModal segmentId={leaderboardSegment} onClose={() => setLeaderboardSegment(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Flag, Loader2, Timer } from 'lucide-react';
+import { ChartContainer, ChartTooltip, type ChartConfig } from '@/components/ui/chart';
+import { formatDuration, formatElevation } from '@/hooks/useActivityRecording';
+import { cn } from '@/lib/utils';
+
+type SplitUnit = 'mi' | 'km';
+
+// Mirrors GET /api/activities/:id/splits (server/activitySplits.ts)
+interface ActivitySplit {
+  index: number;
+  startDistanceMeters: number;
+  distanceMeters: number;
+  elapsedSeconds: number;
+  movingSeconds: number;
+  avgSpeedMps: number | null;
+  paceSecondsPerUnit: number | null;
+  elevationGainMeters: number | null;
+  elevationLossMeters: number | null;
+}
+
+interface PaceZone {
+  name: string;
+  minSpeedMps: number;
+  maxSpeedMps: number | null;
+  seconds: number;
+}
+
+interface ActivitySplits {
+  unit: SplitUnit;
+  splits: ActivitySplit[];
+  laps: ActivitySplit[];
+  zones: PaceZone[];
+  series: { distanceMeters: number; speedMps: number | null }[];
+}
+
+const UNIT_METERS: Record<SplitUnit, number> = { mi: 1609.34, km: 1000 };
+// m/s to mph or km/h
+const SPEED_FACTOR: Record<SplitUnit, number> = { mi: 2.23694, km: 3.6 };
+const SPEED_LABEL: Record<SplitUnit, string> = { mi: 'mph', km: 'km/h' };
+
+// Runners and hikers read pace; riders and skiers read speed
+const PACE_ACTIVITIES = ['run', 'hike'];
+
+const ZONE_COLORS = ['#64748b', '#22c55e', '#eab308', '#f97316', '#ef4444'];
+
+const chartConfig = {
+  value: { label: 'Pace', color: '#38bdf8' },
+} satisfies ChartConfig;
+
+function formatPaceSeconds(seconds: number | null): string {
+  if (seconds === null || !isFinite(seconds)) return '--:--';
+  const m = Math.floor(seconds / 60);
+  const s = Math.round(seconds % 60);
+  return s === 60 ? `${m + 1}:00` : `${m}:${s.toString().padStart(2, '0')}`;
+}
+
+interface ActivitySplitsCardProps {
+  activityId: number;
+  activityType: string;
+}
+
+export default function ActivitySplitsCard({ activityId, activityType }: ActivitySplitsCardProps) {
+  const [unit, setUnit] = useState<SplitUnit>('mi');
+  const showPace = PACE_ACTIVITIES.includes(activityType);
+
+  const { data, isLoading, error } = useQuery<ActivitySplits>({
+    queryKey: ['/api/activities', String(activityId), 'splits', unit],
+    queryFn: async () => {
+      const res = await fetch(`/api/activities/${activityId}/splits?unit=${unit}`, { credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to fetch splits');
+      return res.json();
+    },
+  });
+
+  const rate = (split: ActivitySplit) => showPace
+    ? `${formatPaceSeconds(split.paceSecondsPerUnit)} /${unit}`
+    : split.avgSpeedMps !== null ? `${(split.avgSpeedMps * SPEED_FACTOR[unit]).toFixed(1)} ${SPEED_LABEL[unit]}` : '--';
+
+  const chartData = useMemo(() => (data?.series ?? []).map(sample => ({
+    distance: sample.distanceMeters / UNIT_METERS[unit],
+    value: sample.speedMps === null
+      ? null
+      : showPace ? UNIT_METERS[unit] / sample.speedMps / 60 : sample.speedMps * SPEED_FACTOR[unit],
+  })), [data, unit, showPace]);
+
+  const zoneTotal = data?.zones.reduce((sum, z) => sum + z.seconds, 0) ?? 0;
+  const fastestSplit = useMemo(() => {
+    const full = (data?.splits ?? []).filter(s => s.avgSpeedMps !== null && s.distanceMeters >= UNIT_METERS[unit] * 0.99);
+    return full.length > 1 ? full.reduce((a, b) => (b.avgSpeedMps! > a.avgSpeedMps! ? b : a)).index : null;
+  }, [data, unit]);
+
+  const renderTable = (rows: ActivitySplit[], kind: 'split' | 'lap') => (
+    <table className="w-full text-sm" data-testid={`table-${kind}s`}>
+      <thead>
+        <tr className="text-slate-400 text-xs">
+          <th className="text-left font-normal pb-1">{kind === 'split' ? unit : 'Lap'}</th>
+          <th className="text-right font-normal pb-1">Time</th>
+          <th className="text-right font-normal pb-1">{showPace ? 'Pace' : 'Speed'}</th>
+          <th className="text-right font-normal pb-1">Elev</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(split => (
+          <tr key={split.index} className={cn('text-white', kind === 'split' && split.index === fastestSplit && 'text-green-400')}>
+            <td className="py-0.5">
+              {kind === 'lap'
+                ? `${split.index} · ${(split.distanceMeters / UNIT_METERS[unit]).toFixed(2)} ${unit}`
+                : split.distanceMeters < UNIT_METERS[unit] * 0.99
+                  ? (split.distanceMeters / UNIT_METERS[unit]).toFixed(2)
+                  : split.index}
+            </td>
+            <td className="text-right font-mono">{formatDuration(split.movingSeconds)}</td>
+            <td className="text-right font-mono">{rate(split)}</td>
+            <td className="text-right text-xs text-slate-400">
+              {split.elevationGainMeters !== null
+                ? `+${formatElevation(split.elevationGainMeters)} / -${formatElevation(split.elevationLossMeters ?? 0)}`
+                : '--'}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  return (
+    <div className="bg-slate-800 rounded-lg p-4 mt-6" data-testid="card-activity-splits">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-white font-semibold flex items-center gap-2">
+          <Timer className="w-4 h-4" /> Splits
+        </h3>
+        <div className="flex rounded-md bg-slate-700 p-0.5 text-xs">
+          {(['mi', 'km'] as const).map(u => (
+            <button
+              key={u}
+              type="button"
+              className={cn('px-2 py-0.5 rounded', unit === u ? 'bg-slate-500 text-white' : 'text-slate-400')}
+              onClick={() => setUnit(u)}
+              data-testid={`button-split-unit-${u}`}
+            >
+              {u}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-slate-400" />
+        </div>
+      ) : error || !data ? (
+        <p className="text-sm text-slate-400">Splits are not available for this activity.</p>
+      ) : (
+        <>
+          {chartData.length >= 2 && (
+            <ChartContainer config={chartConfig} className="aspect-auto h-28 w-full mb-4">
+              <LineChart data={chartData} margin={{ top: 4, right: 4, bottom: 0, left: 0 }}>
+                <CartesianGrid vertical={false} strokeOpacity={0.15} />
+                <XAxis
+                  dataKey="distance"
+                  type="number"
+                  domain={[0, 'dataMax']}
+                  tickFormatter={(v: number) => v.toFixed(1)}
+                  tickLine={false}
+                  axisLine={false}
+                  fontSize={10}
+                />
+                <YAxis
+                  dataKey="value"
+                  reversed={showPace}
+                  domain={['dataMin', 'dataMax']}
+                  tickFormatter={(v: number) => showPace ? formatPaceSeconds(v * 60) : v.toFixed(0)}
+                  tickLine={false}
+                  axisLine={false}
+                  width={40}
+                  fontSize={10}
+                />
+                <ChartTooltip
+                  cursor={{ stroke: 'rgba(255,255,255,0.6)', strokeWidth: 1 }}
+                  content={({ active, payload }: any) => {
+                    const point = active && payload?.[0]?.payload;
+                    if (!point || point.value === null) return null;
+                    return (
+                      <div className="rounded border border-white/20 bg-gray-900/95 px-2 py-1 text-[10px] text-white shadow-lg">
+                        {point.distance.toFixed(2)} {unit} · {showPace
+                          ? `${formatPaceSeconds(point.value * 60)} /${unit}`
+                          : `${point.value.toFixed(1)} ${SPEED_LABEL[unit]}`}
+                      </div>
+                    );
+                  }}
+                />
+                <Line
+                  dataKey="value"
+                  type="monotone"
+                  stroke="var(--color-value)"
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls={false}
+                  isAnimationActive={false}
+                />
+              </LineChart>
+            </ChartContainer>
+          )}
+
+          {renderTable(data.splits, 'split')}
+
+          {data.laps.length > 0 && (
+            <div className="mt-4">
+              <h4 className="text-slate-300 text-xs font-semibold mb-1 flex items-center gap-1">
+                <Flag className="w-3 h-3" /> Laps
+              </h4>
+              {renderTable(data.laps, 'lap')}
+            </div>
+          )}
+
+          {zoneTotal > 0 && (
+            <div className="mt-4">
+              <h4 className="text-slate-300 text-xs font-semibold mb-2">
+                {showPace ? 'Pace' : 'Speed'} zones <span className="font-normal text-slate-500">(around your average)</span>
+              </h4>
+              <div className="space-y-1" data-testid="list-pace-zones">
+                {data.zones.map((zone, i) => {
+                  const edge = (speed: number) => showPace
+                    ? formatPaceSeconds(UNIT_METERS[unit] / speed)
+                    : (speed * SPEED_FACTOR[unit]).toFixed(1);
+                  const range = zone.maxSpeedMps === null
+                    ? (showPace ? `< ${edge(zone.minSpeedMps)}` : `> ${edge(zone.minSpeedMps)}`)
+                    : zone.minSpeedMps === 0
+                      ? (showPace ? `> ${edge(zone.maxSpeedMps)}` : `< ${edge(zone.maxSpeedMps)}`)
+                      : showPace ? `${edge(zone.maxSpeedMps)}–${edge(zone.minSpeedMps)}` : `${edge(zone.minSpeedMps)}–${edge(zone.maxSpeedMps)}`;
+                  const share = zone.seconds / zoneTotal;
+                  return (
+                    <div key={zone.name} className="flex items-center gap-2 text-xs">
+                      <span className="w-16 text-slate-300">{zone.name}</span>
+                      <span className="w-20 text-slate-500 font-mono">{range}</span>
+                      <div className="flex-1 h-2 rounded bg-slate-700 overflow-hidden">
+                        <div className="h-full" style={{ width: `${share * 100}%`, backgroundColor: ZONE_COLORS[i] }} />
+                      </div>
+                      <span className="w-12 text-right text-slate-400">{formatDuration(zone.seconds)}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
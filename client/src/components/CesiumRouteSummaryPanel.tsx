@@ -1,7 +1,9 @@
-import { useEffect, useRef, useCallback } from 'react';
+import { useEffect, useRef, useCallback, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { X, Pencil, MapPin, Mountain, Ruler, Clock, Route as RouteIcon } from 'lucide-react';
 import type { Route } from '@shared/schema';
+import ElevationProfileChart from '@/components/ElevationProfileChart';
+import { parsePathCoordinates, type ProfilePoint } from '@/lib/elevationProfile';
 
 interface CesiumRouteSummaryPanelProps {
   route: Route;
@@ -86,6 +88,7 @@ export default function CesiumRouteSummaryPanel({
 }: CesiumRouteSummaryPanelProps) {
   const entitiesRef = useRef<any[]>([]);
   const polylineEntityRef = useRef<any>(null);
+  const hoverEntityRef = useRef<any>(null);
 
   const removeAllEntities = useCallback(() => {
     if (!viewer || viewer.isDestroyed()) return;
@@ -97,6 +100,10 @@ export default function CesiumRouteSummaryPanel({
       try { viewer.entities.remove(polylineEntityRef.current); } catch {}
       polylineEntityRef.current = null;
     }
+    if (hoverEntityRef.current) {
+      try { viewer.entities.remove(hoverEntityRef.current); } catch {}
+      hoverEntityRef.current = null;
+    }
     try { viewer.scene.requestRender(); } catch {}
   }, [viewer]);
 
@@ -184,6 +191,40 @@ export default function CesiumRouteSummaryPanel({
     };
   }, [removeAllEntities]);
 
+  // Follow the elevation profile cursor with a point on the route
+  const handleProfileHover = useCallback((point: ProfilePoint | null) => {
+    if (!viewer || viewer.isDestroyed()) return;
+    const Cesium = (window as any).Cesium;
+    if (!Cesium) return;
+
+    if (!point) {
+      if (hoverEntityRef.current) hoverEntityRef.current.show = false;
+      viewer.scene.requestRender();
+      return;
+    }
+
+    const position = Cesium.Cartesian3.fromDegrees(point.lng, point.lat, point.elevation);
+    if (hoverEntityRef.current) {
+      hoverEntityRef.current.position = position;
+      hoverEntityRef.current.show = true;
+    } else {
+      hoverEntityRef.current = viewer.entities.add({
+        position,
+        point: {
+          pixelSize: 14,
+          color: Cesium.Color.WHITE,
+          outlineColor: Cesium.Color.fromCssColorString('#111827'),
+          outlineWidth: 3,
+          heightReference: Cesium.HeightReference.NONE,
+          disableDepthTestDistance: Number.POSITIVE_INFINITY,
+        },
+      });
+    }
+    viewer.scene.requestRender();
+  }, [viewer]);
+
+  const profilePath = useMemo(() => parsePathCoordinates(route.pathCoordinates), [route.pathCoordinates]);
+
   const handleClose = useCallback(() => {
     removeAllEntities();
     onClose();
@@ -260,6 +301,10 @@ export default function CesiumRouteSummaryPanel({
           </div>
         </div>
 
+        {profilePath.length >= 2 && (
+          <ElevationProfileChart path={profilePath} onHoverPoint={handleProfileHover} />
+        )}
+
         <div>
           <label className="text-white/70 text-xs font-medium flex items-center gap-1 mb-2">
             <MapPin className="w-3 h-3" />
@@ -0,0 +1,245 @@
+import { useEffect, useId, useMemo, useState } from 'react';
+import { Area, AreaChart, CartesianGrid, ReferenceArea, XAxis, YAxis } from 'recharts';
+import { Loader2, X } from 'lucide-react';
+import { ChartContainer, ChartTooltip, type ChartConfig } from '@/components/ui/chart';
+import { useElevationProfile } from '@/hooks/useElevationProfile';
+import { cn } from '@/lib/utils';
+import {
+  GRADE_BANDS,
+  gradeColor,
+  gradeToDegrees,
+  profileStats,
+  type PathPoint,
+  type ProfilePoint,
+} from '@/lib/elevationProfile';
+
+const METERS_TO_FEET = 3.28084;
+const METERS_PER_MILE = 1609.34;
+
+const chartConfig = {
+  elevation: { label: 'Elevation', color: '#22c55e' },
+} satisfies ChartConfig;
+
+interface ElevationProfileChartProps {
+  path: PathPoint[];
+  // Point under the cursor, to mirror as a marker on the map
+  onHoverPoint?: (point: ProfilePoint | null) => void;
+  // Profile points of the dragged selection, or null when cleared
+  onSelectionChange?: (points: ProfilePoint[] | null) => void;
+  className?: string;
+}
+
+function formatDistance(meters: number): string {
+  const miles = meters / METERS_PER_MILE;
+  return miles < 0.1 ? `${Math.round(meters * METERS_TO_FEET)} ft` : `${miles.toFixed(2)} mi`;
+}
+
+function formatFeet(meters: number): string {
+  return `${Math.round(meters * METERS_TO_FEET).toLocaleString()} ft`;
+}
+
+function formatGrade(grade: number): string {
+  return `${grade >= 0 ? '+' : ''}${grade.toFixed(1)}% (${Math.round(gradeToDegrees(grade))}°)`;
+}
+
+export default function ElevationProfileChart({ path, onHoverPoint, onSelectionChange, className }: ElevationProfileChartProps) {
+  const gradientId = `grade-${useId().replace(/:/g, '')}`;
+  const { profile, isLoading } = useElevationProfile(path);
+  const [dragStart, setDragStart] = useState<number | null>(null);
+  const [dragEnd, setDragEnd] = useState<number | null>(null);
+  const [selection, setSelection] = useState<[number, number] | null>(null);
+
+  // A new path invalidates any selection made on the old one
+  useEffect(() => {
+    setSelection(null);
+    setDragStart(null);
+    setDragEnd(null);
+  }, [profile]);
+
+  useEffect(() => {
+    onSelectionChange?.(selection ? profile.slice(selection[0], selection[1] + 1) : null);
+  }, [selection, profile]);
+
+  const data = useMemo(() => profile.map(p => ({
+    miles: p.distance / METERS_PER_MILE,
+    elevation: p.elevation * METERS_TO_FEET,
+    grade: p.grade,
+  })), [profile]);
+
+  // Hard color bands along x: two stops at every change of grade band
+  const gradientStops = useMemo(() => {
+    if (profile.length < 2) return [];
+    const total = profile[profile.length - 1].distance;
+    const stops: { offset: number; color: string }[] = [];
+    let current = gradeColor(profile[0].grade);
+    stops.push({ offset: 0, color: current });
+    for (let i = 1; i < profile.length; i++) {
+      const color = gradeColor(profile[i].grade);
+      if (color !== current) {
+        const offset = ((profile[i - 1].distance + profile[i].distance) / 2) / total;
+        stops.push({ offset, color: current }, { offset, color });
+        current = color;
+      }
+    }
+    stops.push({ offset: 1, color: current });
+    return stops;
+  }, [profile]);
+
+  const stats = useMemo(() => {
+    if (profile.length < 2) return null;
+    return selection ? profileStats(profile, selection[0], selection[1]) : profileStats(profile);
+  }, [profile, selection]);
+
+  if (isLoading) {
+    return (
+      <div className={cn('flex items-center justify-center h-24 text-white/50 text-xs', className)}>
+        <Loader2 className="h-4 w-4 animate-spin mr-2" />
+        Loading elevation profile...
+      </div>
+    );
+  }
+
+  if (profile.length < 2 || !stats) {
+    return null;
+  }
+
+  const indexFromState = (state: any): number | null => {
+    const index = state?.activeTooltipIndex;
+    return typeof index === 'number' && index >= 0 && index < profile.length ? index : null;
+  };
+
+  const finishDrag = () => {
+    if (dragStart !== null && dragEnd !== null && Math.abs(dragEnd - dragStart) >= 1) {
+      setSelection([Math.min(dragStart, dragEnd), Math.max(dragStart, dragEnd)]);
+    }
+    setDragStart(null);
+    setDragEnd(null);
+  };
+
+  const highlight = dragStart !== null && dragEnd !== null
+    ? [Math.min(dragStart, dragEnd), Math.max(dragStart, dragEnd)]
+    : selection;
+
+  return (
+    <div className={cn('select-none', className)} data-testid="elevation-profile">
+      <ChartContainer config={chartConfig} className="aspect-auto h-28 w-full">
+        <AreaChart
+          data={data}
+          margin={{ top: 4, right: 4, bottom: 0, left: 0 }}
+          onMouseDown={(state: any) => {
+            const index = indexFromState(state);
+            if (index !== null) {
+              setDragStart(index);
+              setDragEnd(index);
+            }
+          }}
+          onMouseMove={(state: any) => {
+            const index = indexFromState(state);
+            if (index === null) return;
+            onHoverPoint?.(profile[index]);
+            if (dragStart !== null) setDragEnd(index);
+          }}
+          onMouseUp={finishDrag}
+          onMouseLeave={() => {
+            onHoverPoint?.(null);
+            finishDrag();
+          }}
+        >
+          <defs>
+            <linearGradient id={gradientId} x1="0" y1="0" x2="1" y2="0">
+              {gradientStops.map((stop, i) => (
+                <stop key={i} offset={stop.offset} stopColor={stop.color} />
+              ))}
+            </linearGradient>
+          </defs>
+          <CartesianGrid vertical={false} strokeOpacity={0.15} />
+          <XAxis
+            dataKey="miles"
+            type="number"
+            domain={[0, 'dataMax']}
+            tickFormatter={(v: number) => v.toFixed(1)}
+            tickLine={false}
+            axisLine={false}
+            fontSize={10}
+          />
+          <YAxis
+            dataKey="elevation"
+            domain={['dataMin - 50', 'dataMax + 50']}
+            tickFormatter={(v: number) => Math.round(v).toLocaleString()}
+            tickLine={false}
+            axisLine={false}
+            width={40}
+            fontSize={10}
+          />
+          <ChartTooltip
+            cursor={{ stroke: 'rgba(255,255,255,0.6)', strokeWidth: 1 }}
+            content={({ active, payload }: any) => {
+              const point = active && payload?.[0]?.payload;
+              if (!point) return null;
+              return (
+                <div className="rounded border border-white/20 bg-gray-900/95 px-2 py-1 text-[10px] text-white shadow-lg">
+                  <div>{point.miles.toFixed(2)} mi · {Math.round(point.elevation).toLocaleString()} ft</div>
+                  <div style={{ color: gradeColor(point.grade) }}>{formatGrade(point.grade)}</div>
+                </div>
+              );
+            }}
+          />
+          <Area
+            dataKey="elevation"
+            type="monotone"
+            stroke={`url(#${gradientId})`}
+            strokeWidth={2}
+            fill={`url(#${gradientId})`}
+            fillOpacity={0.35}
+            isAnimationActive={false}
+            activeDot={{ r: 3, fill: '#fff' }}
+          />
+          {highlight && (
+            <ReferenceArea
+              x1={data[highlight[0]].miles}
+              x2={data[highlight[1]].miles}
+              fill="#ffffff"
+              fillOpacity={0.12}
+              stroke="#ffffff"
+              strokeOpacity={0.4}
+            />
+          )}
+        </AreaChart>
+      </ChartContainer>
+
+      <div className="flex flex-wrap gap-x-2 gap-y-0.5 mt-1">
+        {GRADE_BANDS.map(band => (
+          <span key={band.label} className="flex items-center gap-1 text-[9px] text-white/50">
+            <span className="inline-block w-2 h-2 rounded-sm" style={{ background: band.color }} />
+            {band.label}
+          </span>
+        ))}
+      </div>
+
+      <div className="mt-2 rounded-md bg-white/5 px-2 py-1.5 text-[11px] text-white/80" data-testid="elevation-profile-stats">
+        <div className="flex items-center justify-between mb-0.5">
+          <span className="text-white/50 uppercase tracking-wide text-[9px]">
+            {selection ? 'Selection' : 'Whole route · drag across the chart to measure a section'}
+          </span>
+          {selection && (
+            <button
+              onClick={() => setSelection(null)}
+              className="text-white/50 hover:text-white"
+              aria-label="Clear selection"
+              data-testid="button-clear-profile-selection"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </div>
+        <div className="grid grid-cols-2 gap-x-3">
+          <span>Distance <b className="text-white">{formatDistance(stats.distance)}</b></span>
+          <span>Avg grade <b className="text-white">{formatGrade(stats.avgGrade)}</b></span>
+          <span>Gain <b className="text-green-400">+{formatFeet(stats.gain)}</b></span>
+          <span>Loss <b className="text-red-400">-{formatFeet(stats.loss)}</b></span>
+          <span className="col-span-2">Steepest <b className="text-white">{formatGrade(stats.maxGrade)}</b></span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,400 @@
+import { useEffect, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import mapboxgl from 'mapbox-gl';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, ShieldAlert, Trash2, Hexagon } from 'lucide-react';
+import DrawingTools from '@/components/DrawingTools';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { setGeofenceDraft } from '@/lib/mapUtils';
+import { useToast } from '@/hooks/use-toast';
+import type { GeofenceRuleType, LiveMapGeofence } from '@shared/schema';
+
+type GeofenceRow = Omit<LiveMapGeofence, 'createdAt'> & { createdAt: string };
+
+interface GeofencePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  map: mapboxgl.Map | null;
+  sessionId: number;
+  isOwner: boolean;
+  isSessionEnded: boolean;
+  geofences: GeofenceRow[];
+  members: { userId: number; user: { username: string; fullName: string | null } }[];
+  pois: { id: number; name: string }[];
+  checkInMinutes: number | null;
+}
+
+const RULE_LABELS: Record<GeofenceRuleType, string> = {
+  leave_area: 'Leaves an area',
+  enter_area: 'Enters an area',
+  member_distance: 'Strays from the group',
+  reach_poi: 'Reaches a waypoint',
+};
+
+const FEET_PER_METER = 3.28084;
+
+const CHECK_IN_OPTIONS = [15, 30, 60, 120, 240];
+
+function formatFeet(meters: string | null): string {
+  const feet = meters ? parseFloat(meters) * FEET_PER_METER : 0;
+  return feet < 1000 ? `${Math.round(feet)} ft` : `${(feet / 5280).toFixed(1)} mi`;
+}
+
+export default function GeofencePanel({
+  isOpen,
+  onClose,
+  map,
+  sessionId,
+  isOwner,
+  isSessionEnded,
+  geofences,
+  members,
+  pois,
+  checkInMinutes,
+}: GeofencePanelProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [ruleType, setRuleType] = useState<GeofenceRuleType>('leave_area');
+  const [target, setTarget] = useState('anyone');
+  const [distanceFeet, setDistanceFeet] = useState('1000');
+  const [poiId, setPoiId] = useState('');
+  const [area, setArea] = useState<[number, number][]>([]);
+  const [isDrawing, setIsDrawing] = useState(false);
+
+  const isAreaRule = ruleType === 'leave_area' || ruleType === 'enter_area';
+
+  const memberName = (userId: number | null) => {
+    if (userId === null) return 'Anyone';
+    const member = members.find(m => m.userId === userId);
+    return member ? member.user.fullName || member.user.username : 'A former member';
+  };
+
+  const describe = (fence: GeofenceRow) => {
+    const who = memberName(fence.targetUserId);
+    switch (fence.ruleType as GeofenceRuleType) {
+      case 'leave_area':
+        return `${who} leaves the area`;
+      case 'enter_area':
+        return `${who} enters the area`;
+      case 'member_distance':
+        return `${who} is more than ${formatFeet(fence.distanceMeters)} from the group`;
+      case 'reach_poi':
+        return `${who} reaches ${pois.find(p => p.id === fence.poiId)?.name ?? 'a waypoint'}`;
+      default:
+        return fence.ruleType;
+    }
+  };
+
+  // Map clicks add corners to the area while drawing
+  useEffect(() => {
+    if (!map || !isDrawing) return;
+
+    const handleClick = (e: mapboxgl.MapMouseEvent) => {
+      setArea(prev => [...prev, [e.lngLat.lng, e.lngLat.lat]]);
+    };
+    map.on('click', handleClick);
+    map.getCanvas().style.cursor = 'crosshair';
+
+    return () => {
+      map.off('click', handleClick);
+      map.getCanvas().style.cursor = '';
+    };
+  }, [map, isDrawing]);
+
+  useEffect(() => {
+    if (map) setGeofenceDraft(map, isOpen || isDrawing ? area : []);
+  }, [map, area, isOpen, isDrawing]);
+
+  useEffect(() => {
+    return () => {
+      if (map) setGeofenceDraft(map, []);
+    };
+  }, [map]);
+
+  const resetForm = () => {
+    setName('');
+    setTarget('anyone');
+    setArea([]);
+    setPoiId('');
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Geofence not saved", description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const feet = parseFloat(distanceFeet);
+      return apiRequest('POST', `/api/live-maps/${sessionId}/geofences`, {
+        name: name.trim(),
+        ruleType,
+        targetUserId: target === 'anyone' ? null : parseInt(target),
+        polygon: isAreaRule ? area : null,
+        poiId: ruleType === 'reach_poi' && poiId ? parseInt(poiId) : null,
+        distanceMeters: ruleType === 'member_distance' && feet > 0 ? feet / FEET_PER_METER : null,
+      });
+    },
+    onSuccess: () => {
+      resetForm();
+      queryClient.invalidateQueries({ queryKey: ['/api/live-maps', sessionId] });
+      toast({ title: "Geofence added", description: "Members will be alerted when it triggers" });
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) => {
+      return apiRequest('PATCH', `/api/live-maps/${sessionId}/geofences/${id}`, { isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/live-maps', sessionId] });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest('DELETE', `/api/live-maps/${sessionId}/geofences/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/live-maps', sessionId] });
+      toast({ title: "Geofence deleted" });
+    },
+    onError,
+  });
+
+  const checkInMutation = useMutation({
+    mutationFn: async (minutes: number | null) => {
+      return apiRequest('PATCH', `/api/live-maps/${sessionId}/check-in`, { checkInMinutes: minutes });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/live-maps', sessionId] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Check-in alerts not saved", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const canSave = name.trim().length > 0 && (
+    isAreaRule ? area.length >= 3 :
+    ruleType === 'reach_poi' ? !!poiId :
+    parseFloat(distanceFeet) > 0
+  );
+
+  if (isDrawing) {
+    return (
+      <DrawingTools
+        isDrawing
+        drawingMode="polygon"
+        onStartDrawingMode={() => {}}
+        onCancelDrawing={() => {
+          setArea([]);
+          setIsDrawing(false);
+        }}
+        onFinishDrawing={() => {
+          if (area.length < 3) {
+            toast({ title: "Area too small", description: "Tap at least 3 points on the map", variant: "destructive" });
+            return;
+          }
+          setIsDrawing(false);
+        }}
+        currentDrawing={{ points: area, type: 'polygon', name: name || 'Geofence area' }}
+      />
+    );
+  }
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="absolute inset-0 bg-gray-900 z-30 flex flex-col">
+      {/* Header */}
+      <div className="p-4 border-b border-gray-700 flex items-center justify-between">
+        <h3 className="text-xl font-semibold text-white flex items-center gap-2">
+          <ShieldAlert className="w-5 h-5 text-amber-400" />
+          Alerts
+        </h3>
+        <Button
+          variant="outline"
+          className="h-10 px-4 rounded-full hover:bg-gray-700 text-white border-white/30"
+          onClick={onClose}
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Team Map
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1 p-4">
+        <div className="bg-gray-800 rounded-lg p-3 mb-6 flex items-center gap-3">
+          <div className="flex-1">
+            <p className="text-white font-medium">Check-in alerts</p>
+            <p className="text-xs text-gray-400">Alert the team when a member stops sending their location</p>
+          </div>
+          {isOwner && !isSessionEnded ? (
+            <Select
+              value={checkInMinutes ? String(checkInMinutes) : 'off'}
+              onValueChange={value => checkInMutation.mutate(value === 'off' ? null : parseInt(value))}
+            >
+              <SelectTrigger className="w-32 bg-gray-900 border-gray-700 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="off">Off</SelectItem>
+                {CHECK_IN_OPTIONS.map(minutes => (
+                  <SelectItem key={minutes} value={String(minutes)}>
+                    After {minutes < 60 ? `${minutes} min` : `${minutes / 60} h`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <span className="text-sm text-gray-300">{checkInMinutes ? `After ${checkInMinutes} min` : 'Off'}</span>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          {geofences.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">
+              No alerts set up for this map yet.
+            </p>
+          ) : (
+            geofences.map(fence => (
+              <div key={fence.id} className="bg-gray-800 rounded-lg p-3 flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-white font-medium truncate">{fence.name}</p>
+                  <p className="text-xs text-gray-400">{describe(fence)}</p>
+                </div>
+                {isOwner && !isSessionEnded && (
+                  <>
+                    <Switch
+                      checked={fence.isActive !== false}
+                      onCheckedChange={checked => toggleMutation.mutate({ id: fence.id, isActive: checked })}
+                      aria-label={fence.isActive !== false ? 'Pause alert' : 'Resume alert'}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-red-400 hover:text-red-300 hover:bg-gray-700"
+                      onClick={() => deleteMutation.mutate(fence.id)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        {isOwner && !isSessionEnded && (
+          <div className="mt-6 space-y-4 border-t border-gray-700 pt-4">
+            <h4 className="text-white font-semibold">Add an alert</h4>
+
+            <div className="space-y-1.5">
+              <Label className="text-gray-300">Name</Label>
+              <Input
+                value={name}
+                onChange={e => setName(e.target.value)}
+                placeholder="e.g. Stay above the cliffs"
+                className="bg-gray-800 border-gray-700 text-white"
+                maxLength={100}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label className="text-gray-300">Alert when</Label>
+                <Select value={target} onValueChange={setTarget}>
+                  <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="anyone">Anyone</SelectItem>
+                    {members.map(m => (
+                      <SelectItem key={m.userId} value={String(m.userId)}>
+                        {m.user.fullName || m.user.username}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-gray-300">&nbsp;</Label>
+                <Select value={ruleType} onValueChange={value => setRuleType(value as GeofenceRuleType)}>
+                  <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(RULE_LABELS) as GeofenceRuleType[]).map(type => (
+                      <SelectItem key={type} value={type}>{RULE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {isAreaRule && (
+              <Button
+                variant="outline"
+                className="w-full border-gray-700 text-white hover:bg-gray-700"
+                onClick={() => {
+                  setArea([]);
+                  setIsDrawing(true);
+                }}
+              >
+                <Hexagon className="w-4 h-4 mr-2" />
+                {area.length >= 3 ? `Redraw area (${area.length} points)` : 'Draw area on map'}
+              </Button>
+            )}
+
+            {ruleType === 'member_distance' && (
+              <div className="space-y-1.5">
+                <Label className="text-gray-300">Distance from the group (ft)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={distanceFeet}
+                  onChange={e => setDistanceFeet(e.target.value)}
+                  className="bg-gray-800 border-gray-700 text-white"
+                />
+              </div>
+            )}
+
+            {ruleType === 'reach_poi' && (
+              <div className="space-y-1.5">
+                <Label className="text-gray-300">Waypoint</Label>
+                {pois.length === 0 ? (
+                  <p className="text-sm text-gray-500">Add a waypoint to the map first.</p>
+                ) : (
+                  <Select value={poiId} onValueChange={setPoiId}>
+                    <SelectTrigger className="bg-gray-800 border-gray-700 text-white">
+                      <SelectValue placeholder="Choose a waypoint" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {pois.map(poi => (
+                        <SelectItem key={poi.id} value={String(poi.id)}>{poi.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            )}
+
+            <Button
+              className="w-full"
+              onClick={() => createMutation.mutate()}
+              disabled={!canSave || createMutation.isPending}
+            >
+              {createMutation.isPending ? 'Saving...' : 'Add Alert'}
+            </Button>
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Siren, Clock, Crosshair } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { queryClient, apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { LiveMapIncident } from '@shared/schema';
+
+type IncidentRow = Omit<LiveMapIncident, 'createdAt' | 'lastFixAt' | 'acknowledgedAt' | 'resolvedAt'> & {
+  createdAt: string | null;
+  lastFixAt: string | null;
+  acknowledgedAt: string | null;
+  resolvedAt: string | null;
+};
+
+interface IncidentBannerProps {
+  sessionId: number;
+  incidents: IncidentRow[];
+  members: { userId: number; user: { username: string; fullName: string | null } }[];
+  currentUserId: number;
+  onLocate: (lng: number, lat: number) => void;
+}
+
+function formatAgo(date: string | null): string {
+  if (!date) return 'unknown';
+  const minutes = Math.round((Date.now() - new Date(date).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m ago`;
+}
+
+// Unresolved SOS calls and overdue check-ins, pinned above the team map
+export default function IncidentBanner({ sessionId, incidents, members, currentUserId, onLocate }: IncidentBannerProps) {
+  const { toast } = useToast();
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: number; action: 'acknowledge' | 'resolve' }) => {
+      return apiRequest('POST', `/api/live-maps/${sessionId}/incidents/${id}/${action}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/live-maps', sessionId] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not update alert", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const open = incidents.filter(incident => incident.status !== 'resolved');
+  if (open.length === 0) return null;
+
+  const memberName = (userId: number) => {
+    if (userId === currentUserId) return 'You';
+    const member = members.find(m => m.userId === userId);
+    return member ? member.user.fullName || member.user.username : 'A member';
+  };
+
+  return (
+    <div
+      className="absolute top-20 left-1/2 -translate-x-1/2 z-20 w-[min(92vw,420px)] space-y-2"
+      style={{ marginTop: 'env(safe-area-inset-top, 0px)' }}
+    >
+      {open.map(incident => {
+        const isSos = incident.type === 'sos';
+        const hasFix = incident.latitude !== null && incident.longitude !== null;
+        const isAcknowledged = incident.status === 'acknowledged';
+
+        return (
+          <div
+            key={incident.id}
+            className={cn(
+              'rounded-lg shadow-lg p-3 text-white border',
+              isSos ? 'bg-red-700/95 border-red-400' : 'bg-amber-700/95 border-amber-400',
+              isSos && !isAcknowledged && 'animate-pulse'
+            )}
+          >
+            <div className="flex items-start gap-2">
+              {isSos ? <Siren className="w-5 h-5 flex-shrink-0 mt-0.5" /> : <Clock className="w-5 h-5 flex-shrink-0 mt-0.5" />}
+              <div className="flex-1 min-w-0">
+                <p className="font-semibold">
+                  {memberName(incident.userId)} {isSos ? 'sent an SOS' : 'is overdue to check in'}
+                </p>
+                {incident.note && <p className="text-sm">{incident.note}</p>}
+                <p className="text-xs text-white/80">
+                  Last fix {formatAgo(incident.lastFixAt)}
+                  {isAcknowledged && ` · acknowledged by ${memberName(incident.acknowledgedBy!)}`}
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-2 mt-2">
+              {hasFix && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="bg-transparent border-white/40 text-white hover:bg-white/10"
+                  onClick={() => onLocate(parseFloat(incident.longitude!), parseFloat(incident.latitude!))}
+                >
+                  <Crosshair className="w-4 h-4 mr-1" />
+                  Show
+                </Button>
+              )}
+              {!isAcknowledged && incident.userId !== currentUserId && (
+                <Button
+                  size="sm"
+                  className="bg-white text-gray-900 hover:bg-white/90"
+                  onClick={() => updateMutation.mutate({ id: incident.id, action: 'acknowledge' })}
+                  disabled={updateMutation.isPending}
+                >
+                  I'm on it
+                </Button>
+              )}
+              <Button
+                size="sm"
+                variant="outline"
+                className="bg-transparent border-white/40 text-white hover:bg-white/10"
+                onClick={() => updateMutation.mutate({ id: incident.id, action: 'resolve' })}
+                disabled={updateMutation.isPending}
+              >
+                {incident.userId === currentUserId ? "I'm OK" : 'Resolve'}
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -16,6 +16,7 @@ import LiveMapSessionModal from './modals/LiveMapSessionModal';
 import AIRouteAssistPanel from './AIRouteAssistPanel';
 
 import { useMapbox } from '@/hooks/useMapbox';
+import { useOfflinePacks } from '@/hooks/useOfflinePacks';
 import { useOutdoorPOIs } from '@/hooks/useOutdoorPOIs';
 import { useLocation } from '@/hooks/useLocation';
 import { useAuth } from '@/hooks/useAuth';
@@ -27,7 +28,7 @@ import { Label } from '@/components/ui/label';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 
 import { useQuery } from '@tanstack/react-query';
-import { addTetonCountyImagery, removeTetonCountyImagery, switchToTetonCountyView, addDroneImageryBoundaries } from '@/lib/mapUtils';
+import { addTetonCountyImagery, removeTetonCountyImagery, switchToTetonCountyView, addDroneImageryBoundaries, addDroneElevationLayer, removeDroneElevationLayer, type DroneElevationLayer, setElevationProfileHover, setElevationProfileSelection, setSlopeWarningSegments } from '@/lib/mapUtils';
 import { useMutation } from '@tanstack/react-query';
 import { queryClient } from '@/lib/queryClient';
 import { apiRequest } from '@/lib/queryClient';
@@ -42,6 +43,10 @@ interface MapViewProps {
   onAllRoutesDisplayed?: () => void;
   activatedDroneImage?: DroneImage | null;
   onDroneImageActivated?: () => void;
+  // Layer toggles requested from outside the map (the layer manager sheet)
+  requestedLayerToggle?: string | null;
+  onLayerToggleHandled?: () => void;
+  onActiveLayersChange?: (layers: string[]) => void;
 }
 
 const MapView: React.FC<MapViewProps> = ({
@@ -52,12 +57,17 @@ const MapView: React.FC<MapViewProps> = ({
   routesToDisplayAll,
   onAllRoutesDisplayed,
   activatedDroneImage,
-  onDroneImageActivated
+  onDroneImageActivated,
+  requestedLayerToggle,
+  onLayerToggleHandled,
+  onActiveLayersChange
 }) => {
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [locationPermissionDenied, setLocationPermissionDenied] = useState(false);
   const [activeDroneLayers, setActiveDroneLayers] = useState<Set<number>>(new Set());
+  // Hillshade/contour overlays of elevation-model uploads, keyed "<imageId>:<layer>"
+  const [activeElevationLayers, setActiveElevationLayers] = useState<Set<string>>(new Set());
   const [showLocationSharingModal, setShowLocationSharingModal] = useState(false);
   const [showRouteBuilderModal, setShowRouteBuilderModal] = useState(false);
   const [isAIAssistOpen, setIsAIAssistOpen] = useState(false);
@@ -119,6 +129,7 @@ const MapView: React.FC<MapViewProps> = ({
     removeDroneImageryById,
     isDroneImageryLoading,
     isMapReady,
+    isOffline,
     map,
     // Location tracking
     startLocationTracking,
@@ -1030,6 +1041,16 @@ const MapView: React.FC<MapViewProps> = ({
     }, 2000);
   }, [activatedDroneImage, isMapReady, addDroneImagery, onDroneImageActivated]);
 
+  useEffect(() => {
+    if (!isMapReady || !requestedLayerToggle) return;
+    toggleLayer(requestedLayerToggle);
+    onLayerToggleHandled?.();
+  }, [requestedLayerToggle, isMapReady]);
+
+  useEffect(() => {
+    onActiveLayersChange?.(activeLayers);
+  }, [activeLayers]);
+
   // Auto-load active drone imagery on initial page load ONLY (not when user clicks View)
   const hasAutoLoadedRef = useRef(false);
   useEffect(() => {
@@ -1181,11 +1202,34 @@ const MapView: React.FC<MapViewProps> = ({
       if (removeDroneImageryById) {
         removeDroneImageryById(droneImageId);
       }
+      if (map) {
+        removeDroneElevationLayer(map, droneImageId, 'hillshade');
+        removeDroneElevationLayer(map, droneImageId, 'contours');
+      }
+      setActiveElevationLayers(prev => new Set(Array.from(prev).filter(key => !key.startsWith(`${droneImageId}:`))));
     }
     
     setActiveDroneLayers(newActiveLayers);
   };
 
+  const handleToggleElevationLayer = (droneImageId: number, layer: DroneElevationLayer) => {
+    if (!map) return;
+    const key = `${droneImageId}:${layer}`;
+    const newActiveLayers = new Set(activeElevationLayers);
+
+    if (newActiveLayers.has(key)) {
+      newActiveLayers.delete(key);
+      removeDroneElevationLayer(map, droneImageId, layer);
+    } else {
+      const droneImage = droneImages?.find(img => img.id === droneImageId);
+      if (!droneImage) return;
+      addDroneElevationLayer(map, droneImage, layer);
+      newActiveLayers.add(key);
+    }
+
+    setActiveElevationLayers(newActiveLayers);
+  };
+
   // GPS Activity Recording handlers
   const startRecording = () => {
     if (!navigator.geolocation) {
@@ -1599,6 +1643,8 @@ const MapView: React.FC<MapViewProps> = ({
     };
   }, [map, isAddingWaypointToRoute, displayedRoute]);
 
+  const { activePack: activeOfflinePack } = useOfflinePacks();
+
   // Start offline area selection
   const handleStartOfflineSelection = () => {
     startOfflineAreaSelection();
@@ -1715,6 +1761,11 @@ const MapView: React.FC<MapViewProps> = ({
           onClose={() => {
             clearDisplayedRoute();
             displayedRouteIdRef.current = null;
+            if (map) {
+              setElevationProfileHover(map, null);
+              setElevationProfileSelection(map, null);
+              setSlopeWarningSegments(map, null);
+            }
             setIsAddingPOIMode(false);
             setPendingPOILocation(null);
             setIsAddingWaypointToRoute(false);
@@ -1741,6 +1792,9 @@ const MapView: React.FC<MapViewProps> = ({
           }}
           pendingPOILocation={pendingPOILocation}
           onClearPendingPOI={() => setPendingPOILocation(null)}
+          onProfileHover={(point) => map && setElevationProfileHover(map, point)}
+          onProfileSelection={(coordinates) => map && setElevationProfileSelection(map, coordinates)}
+          onSlopeWarnings={(segments) => map && setSlopeWarningSegments(map, segments)}
           onPOIsChanged={() => setPoiRefreshTrigger(prev => prev + 1)}
           onOpenPOIEdit={(poi) => {
             setSelectedViewPOI({
@@ -1972,7 +2026,24 @@ const MapView: React.FC<MapViewProps> = ({
           completeOfflineAreaSelection();
         }}
         bounds={selectedOfflineBounds}
+        map={map}
+        droneImages={droneImages}
       />
+
+      {/* Offline status - connection lost or a pack downloading in the background */}
+      {(isOffline || activeOfflinePack) && !showOfflineModal && (
+        <button
+          className="absolute bottom-28 left-1/2 transform -translate-x-1/2 z-10 bg-black/75 text-white text-xs px-3 py-2 rounded-full shadow-lg"
+          onClick={() => setShowOfflineModal(true)}
+          data-testid="button-offline-status"
+        >
+          {isOffline
+            ? 'Offline · showing downloaded areas'
+            : `Downloading offline area ${activeOfflinePack!.totalTiles > 0
+                ? Math.round(((activeOfflinePack!.downloadedTiles + activeOfflinePack!.failedTiles) / activeOfflinePack!.totalTiles) * 100)
+                : 0}%`}
+        </button>
+      )}
       
       {/* Waypoint Edit Modal for POI viewing/editing */}
       {selectedViewPOI && displayedRoute && (
@@ -2029,6 +2100,8 @@ const MapView: React.FC<MapViewProps> = ({
         onStartOfflineSelection={handleStartOfflineSelection}
         onToggleDroneLayer={handleToggleDroneLayer}
         activeDroneLayers={activeDroneLayers}
+        activeElevationLayers={activeElevationLayers}
+        onToggleElevationLayer={handleToggleElevationLayer}
         onOpenRouteBuilder={() => setShowRouteBuilderModal(true)}
         isMeasurementMode={isMeasurementMode}
         onToggleMeasurement={() => setIsMeasurementMode(!isMeasurementMode)}
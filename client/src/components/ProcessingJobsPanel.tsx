@@ -0,0 +1,175 @@
+import { useEffect, useRef, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Loader2, Clock, AlertCircle, X, RotateCcw, ChevronDown, ChevronRight, ListChecks } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { ProcessingJob } from '@shared/schema';
+
+type ProcessingJobView = Omit<ProcessingJob, 'logs' | 'payload'> & {
+  payload: Record<string, any>;
+  logs: { at: string; message: string }[];
+};
+
+const JOBS_QUERY_KEY = '/api/admin/jobs?status=queued,running,failed&limit=50';
+
+const JOB_TYPE_LABELS: Record<string, string> = {
+  drone_tiles: '2D map tiles',
+  cesium_sync: '3D tileset sync',
+  trail_region_seed: 'Trail region seeding',
+};
+
+function formatTime(value: string | Date | null | undefined): string {
+  if (!value) return '';
+  return new Date(value).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+export default function ProcessingJobsPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [expandedJobId, setExpandedJobId] = useState<number | null>(null);
+  const previousActiveIds = useRef<Set<number>>(new Set());
+
+  const { data: jobs = [], isLoading } = useQuery<ProcessingJobView[]>({
+    queryKey: [JOBS_QUERY_KEY],
+    refetchInterval: (query) => {
+      const data = query.state.data as ProcessingJobView[] | undefined;
+      return data?.some(j => j.status === 'running' || j.status === 'queued') ? 3000 : 30000;
+    },
+  });
+
+  // Refresh the map lists once a job leaves the queue so new tiles show up
+  useEffect(() => {
+    const activeIds = new Set(jobs.filter(j => j.status === 'running' || j.status === 'queued').map(j => j.id));
+    const finished = Array.from(previousActiveIds.current).some(id => !activeIds.has(id));
+    previousActiveIds.current = activeIds;
+    if (finished) {
+      queryClient.invalidateQueries({ queryKey: ['/api/drone-images'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/drone-images'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/cesium-tilesets'] });
+    }
+  }, [jobs, queryClient]);
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest('POST', `/api/admin/jobs/${id}/cancel`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [JOBS_QUERY_KEY] });
+      toast({ title: 'Cancellation requested' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Cancel failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest('POST', `/api/admin/jobs/${id}/retry`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [JOBS_QUERY_KEY] });
+      toast({ title: 'Job re-queued' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Retry failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-6 text-muted-foreground">
+        <Loader2 className="w-5 h-5 animate-spin mx-auto" />
+      </div>
+    );
+  }
+
+  if (jobs.length === 0) {
+    return (
+      <div className="text-center py-6 rounded-lg border border-dashed text-sm text-muted-foreground">
+        <ListChecks className="w-6 h-6 mx-auto mb-2 opacity-50" />
+        No running or failed jobs
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {jobs.map(job => {
+        const isExpanded = expandedJobId === job.id;
+        const isActive = job.status === 'running' || job.status === 'queued';
+        return (
+          <div key={job.id} className="rounded-lg border p-3" data-testid={`job-${job.id}`}>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => setExpandedJobId(isExpanded ? null : job.id)}
+                className="text-muted-foreground hover:text-foreground"
+                aria-label={isExpanded ? 'Hide log' : 'Show log'}
+              >
+                {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+              </button>
+              {job.status === 'running' && <Loader2 className="w-4 h-4 animate-spin text-yellow-400 flex-shrink-0" />}
+              {job.status === 'queued' && <Clock className="w-4 h-4 text-muted-foreground flex-shrink-0" />}
+              {job.status === 'failed' && <AlertCircle className="w-4 h-4 text-red-400 flex-shrink-0" />}
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium truncate">
+                  {JOB_TYPE_LABELS[job.type] || job.type} #{job.targetId}
+                </div>
+                <div className="text-xs text-muted-foreground truncate">
+                  {job.status === 'failed'
+                    ? job.error
+                    : job.step || (job.status === 'queued' ? 'Waiting for a worker' : 'Starting')}
+                  {' · '}attempt {job.attempts}/{job.maxAttempts}
+                  {job.status === 'queued' && job.runAfter && new Date(job.runAfter) > new Date() && ` · retry at ${formatTime(job.runAfter)}`}
+                </div>
+              </div>
+              {isActive ? (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={job.cancelRequested === true || cancelMutation.isPending}
+                  onClick={() => cancelMutation.mutate(job.id)}
+                  data-testid={`button-cancel-job-${job.id}`}
+                >
+                  <X className="w-4 h-4 mr-1" />
+                  {job.cancelRequested ? 'Cancelling' : 'Cancel'}
+                </Button>
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={retryMutation.isPending}
+                  onClick={() => retryMutation.mutate(job.id)}
+                  data-testid={`button-retry-job-${job.id}`}
+                >
+                  <RotateCcw className="w-4 h-4 mr-1" />
+                  Retry
+                </Button>
+              )}
+            </div>
+
+            {job.status === 'running' && (
+              <div className="mt-2 w-full bg-muted rounded-full h-1.5">
+                <div className="bg-primary h-1.5 rounded-full transition-all duration-300" style={{ width: `${job.progress}%` }} />
+              </div>
+            )}
+
+            {isExpanded && (
+              <div className="mt-3 max-h-48 overflow-y-auto rounded bg-muted/50 p-2 font-mono text-xs space-y-0.5">
+                {job.logs.length === 0 ? (
+                  <div className="text-muted-foreground">No log entries</div>
+                ) : job.logs.map((entry, i) => (
+                  <div key={i}>
+                    <span className="text-muted-foreground">{formatTime(entry.at)}</span> {entry.message}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { ArrowLeft, Mic, MicOff, Play, Volume2, Check } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import type { RealtimeClient } from '@/lib/realtime';
 
 export interface VoiceMessage {
   id: number | string;
@@ -20,7 +21,7 @@ export interface VoiceMessage {
 interface RadioPanelProps {
   isOpen: boolean;
   onClose: () => void;
-  wsRef: React.RefObject<WebSocket | null>;
+  realtimeRef: React.RefObject<RealtimeClient | null>;
   sessionId: number;
   currentUserId: number;
   currentUsername: string;
@@ -112,7 +113,7 @@ const MAX_RECORDING_SECONDS = 30;
 export default function RadioPanel({
   isOpen,
   onClose,
-  wsRef,
+  realtimeRef,
   sessionId,
   currentUserId,
   currentUsername,
@@ -221,9 +222,7 @@ export default function RadioPanel({
       setRecordingDuration(0);
 
       // Send talking indicator
-      if (wsRef.current?.readyState === WebSocket.OPEN) {
-        wsRef.current.send(JSON.stringify({ type: 'voice:talking', isTalking: true }));
-      }
+      realtimeRef.current?.send({ type: 'voice:talking', isTalking: true });
 
       // Update duration timer
       timerRef.current = setInterval(() => {
@@ -242,7 +241,7 @@ export default function RadioPanel({
         setMicError('Could not access microphone');
       }
     }
-  }, [wsRef, currentUsername, currentUserId, onNewVoiceMessage]);
+  }, [realtimeRef, currentUsername, currentUserId, onNewVoiceMessage]);
 
   const stopRecording = useCallback(() => {
     if (recorderRef.current && recorderRef.current.state === 'recording') {
@@ -254,10 +253,8 @@ export default function RadioPanel({
       timerRef.current = null;
     }
     // Send talking indicator off
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify({ type: 'voice:talking', isTalking: false }));
-    }
-  }, [wsRef]);
+    realtimeRef.current?.send({ type: 'voice:talking', isTalking: false });
+  }, [realtimeRef]);
 
   // Cleanup on unmount
   useEffect(() => {
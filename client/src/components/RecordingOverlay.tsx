@@ -38,13 +38,16 @@ import {
   Save,
   Trash2,
   MapPin,
+  Flag,
   MapPinned,
   ChevronDown,
   Search,
   X,
+  Settings2,
 } from "lucide-react";
 import mapboxgl from "mapbox-gl";
 import type { Route } from "@shared/schema";
+import { RecordingSettingsModal } from "@/components/modals/RecordingSettingsModal";
 
 const activityTypes: { type: ActivityType; label: string; icon: React.ReactNode }[] = [
   { type: "run", label: "Run", icon: <Footprints className="w-6 h-6" /> },
@@ -69,11 +72,13 @@ export default function RecordingOverlay({ map, isVisible, onClose, onDisplayRou
   const {
     isRecording,
     isPaused,
+    isAutoPaused,
     activityType,
     stats,
     trackPoints,
     currentPosition,
     waypoints,
+    laps,
     startRecording,
     pauseRecording,
     resumeRecording,
@@ -81,6 +86,7 @@ export default function RecordingOverlay({ map, isVisible, onClose, onDisplayRou
     discardRecording,
     saveRecording,
     addWaypoint,
+    addLap,
     isSaving,
     hasPersistedSession,
     resumeRecordingFromPersisted,
@@ -90,6 +96,7 @@ export default function RecordingOverlay({ map, isVisible, onClose, onDisplayRou
   const [selectedType, setSelectedType] = useState<ActivityType>("hike");
   const [preRecordName, setPreRecordName] = useState("");
   const [hasStarted, setHasStarted] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
 
   const [showRouteSelector, setShowRouteSelector] = useState(false);
   const [selectedRoute, setSelectedRoute] = useState<Route | null>(null);
@@ -391,12 +398,22 @@ export default function RecordingOverlay({ map, isVisible, onClose, onDisplayRou
           <div className="mx-3 bg-slate-800/95 backdrop-blur-md border border-slate-700 rounded-2xl p-5 space-y-5 shadow-2xl">
             <div className="flex items-center justify-between">
               <h2 className="text-white text-lg font-semibold">Record Activity</h2>
-              <button
-                onClick={handleCancel}
-                className="text-slate-400 hover:text-white p-1"
-              >
-                <X className="w-5 h-5" />
-              </button>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => setShowSettings(true)}
+                  className="text-slate-400 hover:text-white p-1"
+                  aria-label="Recording settings"
+                  data-testid="button-recording-settings"
+                >
+                  <Settings2 className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={handleCancel}
+                  className="text-slate-400 hover:text-white p-1"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
             </div>
 
             <div className="space-y-2">
@@ -526,6 +543,12 @@ export default function RecordingOverlay({ map, isVisible, onClose, onDisplayRou
             </Button>
           </div>
         </div>
+
+        <RecordingSettingsModal
+          isOpen={showSettings}
+          onClose={() => setShowSettings(false)}
+          initialActivityType={selectedType}
+        />
       </div>
     );
   }
@@ -593,10 +616,12 @@ export default function RecordingOverlay({ map, isVisible, onClose, onDisplayRou
   return (
     <div className="absolute top-0 left-0 right-0 z-30 pointer-events-auto" style={{ paddingTop: 'env(safe-area-inset-top, 0px)' }}>
       <div className="bg-slate-800/95 backdrop-blur-md border-b border-slate-700 shadow-2xl">
-        <div className="flex items-center justify-center gap-1.5 py-1 bg-red-600">
-          <div className="w-2 h-2 bg-white rounded-full animate-pulse" />
-          <span className="text-white text-xs font-semibold">
-            Recording {activityType.charAt(0).toUpperCase() + activityType.slice(1)}
+        <div className={`flex items-center justify-center gap-1.5 py-1 ${isAutoPaused ? 'bg-amber-600' : 'bg-red-600'}`}>
+          <div className={`w-2 h-2 bg-white rounded-full ${isAutoPaused ? '' : 'animate-pulse'}`} />
+          <span className="text-white text-xs font-semibold" data-testid="text-recording-status">
+            {isAutoPaused
+              ? 'Auto-paused · resumes when you move'
+              : `Recording ${activityType.charAt(0).toUpperCase() + activityType.slice(1)}`}
           </span>
         </div>
 
@@ -657,6 +682,17 @@ export default function RecordingOverlay({ map, isVisible, onClose, onDisplayRou
             <span className="text-[8px] leading-tight font-medium">Pin</span>
           </Button>
 
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-10 px-2.5 rounded-full border-sky-500 text-sky-400 hover:bg-sky-500/20 flex flex-col items-center gap-0"
+            onClick={addLap}
+            data-testid="button-add-lap"
+          >
+            <Flag className="w-4 h-4" />
+            <span className="text-[8px] leading-tight font-medium">{laps.length > 0 ? `Lap ${laps.length + 1}` : "Lap"}</span>
+          </Button>
+
           <Button
             size="sm"
             variant="destructive"
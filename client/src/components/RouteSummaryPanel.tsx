@@ -1,5 +1,5 @@
-import { useState, useEffect, useRef, useCallback, ChangeEvent } from 'react';
-import { X, ChevronDown, ChevronUp, ChevronRight, MapPin, Mountain, Ruler, FileText, Plus, Trash2, Star, Check, Loader2, Route as RouteIcon, Camera, Upload, Pencil, GripVertical } from 'lucide-react';
+import { useState, useEffect, useRef, useCallback, useMemo, ChangeEvent } from 'react';
+import { X, ChevronDown, ChevronUp, ChevronRight, MapPin, Mountain, Ruler, Clock, FileText, Plus, Trash2, Star, Check, Loader2, Route as RouteIcon, Camera, Upload, Pencil, GripVertical, AlertTriangle, Spline } from 'lucide-react';
 import { Route, RoutePointOfInterest, RouteNote } from '@shared/schema';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,9 +7,44 @@ import { Textarea } from '@/components/ui/textarea';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import ElevationProfileChart from '@/components/ElevationProfileChart';
+import { parsePathCoordinates, type ProfilePoint } from '@/lib/elevationProfile';
+import { CreateSegmentModal } from '@/components/modals/CreateSegmentModal';
 
 type RoutingMode = 'direct' | 'trail' | 'road' | 'draw';
 
+type TravelMode = 'hiking' | 'trail_running' | 'mtb' | 'skinning' | 'downhill_ski' | 'nordic';
+
+const TRAVEL_MODE_OPTIONS: { value: TravelMode; label: string }[] = [
+  { value: 'hiking', label: 'Hike' },
+  { value: 'trail_running', label: 'Run' },
+  { value: 'mtb', label: 'MTB' },
+  { value: 'skinning', label: 'Skin' },
+  { value: 'downhill_ski', label: 'Ski' },
+  { value: 'nordic', label: 'Nordic' },
+];
+
+// Response of GET /api/routes/:id/travel-time
+interface TravelEstimate {
+  totalSeconds: number;
+  legs: Array<{ from: string; to: string; distance: number; gain: number; loss: number; seconds: number; cumulativeSeconds: number }>;
+  calibration: { factor: number; activityCount: number } | null;
+}
+
+// Response of GET /api/routes/:id/slope-check
+interface SlopeCheck {
+  thresholdDegrees: number;
+  maxSlope: number;
+  steepDistance: number;
+  segments: Array<{ startDistance: number; endDistance: number; length: number; maxSlope: number; band: string; coordinates: [number, number][] }>;
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
 interface RouteSummaryPanelProps {
   route: Route;
   onClose: () => void;
@@ -24,6 +59,11 @@ interface RouteSummaryPanelProps {
   onPOIsChanged?: () => void;
   onOpenPOIEdit?: (poi: RoutePointOfInterest) => void;
   onRouteUpdated?: (route: Route) => void;
+  // Mirror the elevation profile cursor / selection on the map ([lng, lat])
+  onProfileHover?: (point: [number, number] | null) => void;
+  onProfileSelection?: (coordinates: [number, number][] | null) => void;
+  // Highlight the stretches flagged by the avalanche terrain check, or clear them
+  onSlopeWarnings?: (segments: [number, number][][] | null) => void;
 }
 
 export function RouteSummaryPanel({
@@ -39,7 +79,10 @@ export function RouteSummaryPanel({
   onClearPendingPOI,
   onPOIsChanged,
   onOpenPOIEdit,
-  onRouteUpdated
+  onRouteUpdated,
+  onProfileHover,
+  onProfileSelection,
+  onSlopeWarnings
 }: RouteSummaryPanelProps) {
   const [isNotesExpanded, setIsNotesExpanded] = useState(false);
   const [isPOIsExpanded, setIsPOIsExpanded] = useState(false);
@@ -67,10 +110,15 @@ export function RouteSummaryPanel({
   const [uploadingPOIPhotoId, setUploadingPOIPhotoId] = useState<number | null>(null);
   const [fullScreenMedia, setFullScreenMedia] = useState<string | null>(null);
   const [isWaypointsExpanded, setIsWaypointsExpanded] = useState(false);
+  const [isTravelTimeExpanded, setIsTravelTimeExpanded] = useState(false);
+  const [travelMode, setTravelMode] = useState<TravelMode>('hiking');
+  const [isSlopeCheckExpanded, setIsSlopeCheckExpanded] = useState(false);
   const [editingWaypointIndex, setEditingWaypointIndex] = useState<number | null>(null);
   const [editingWaypointName, setEditingWaypointName] = useState('');
   const [draggedWaypointIndex, setDraggedWaypointIndex] = useState<number | null>(null);
   const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
+  const [profileSelection, setProfileSelection] = useState<ProfilePoint[] | null>(null);
+  const [showCreateSegment, setShowCreateSegment] = useState(false);
   
   const queryClient = useQueryClient();
   const photoInputRef = useRef<HTMLInputElement>(null);
@@ -97,6 +145,8 @@ export function RouteSummaryPanel({
     }
   })();
   
+  const profilePath = useMemo(() => parsePathCoordinates(route.pathCoordinates), [route.pathCoordinates]);
+
   const waypointCoordinates = route.waypointCoordinates 
     ? JSON.parse(route.waypointCoordinates) 
     : [];
@@ -111,6 +161,25 @@ export function RouteSummaryPanel({
     },
   });
 
+  // updatedAt in the key refetches after the path or waypoints are edited
+  const { data: travelEstimate, isLoading: travelEstimateLoading, isError: travelEstimateError } = useQuery<TravelEstimate>({
+    queryKey: [`/api/routes/${route.id}/travel-time?mode=${travelMode}`, route.updatedAt],
+    staleTime: 5 * 60 * 1000,
+  });
+
+  // Only checked on demand: it walks the whole route over DEM tiles
+  const { data: slopeCheck, isLoading: slopeCheckLoading, isError: slopeCheckError } = useQuery<SlopeCheck>({
+    queryKey: [`/api/routes/${route.id}/slope-check`, route.updatedAt],
+    enabled: isSlopeCheckExpanded,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  useEffect(() => {
+    onSlopeWarnings?.(isSlopeCheckExpanded && slopeCheck ? slopeCheck.segments.map(s => s.coordinates) : null);
+  }, [isSlopeCheckExpanded, slopeCheck]);
+
+  useEffect(() => () => onSlopeWarnings?.(null), []);
+
   // Auto-save mutation
   const updateRouteMutation = useMutation({
     mutationFn: async (updates: Partial<Route>) => {
@@ -722,7 +791,161 @@ export function RouteSummaryPanel({
                 {elevationChange()}
               </p>
             </div>
+
+            {profilePath.length >= 2 && (
+              <div className="bg-white/5 rounded-lg p-2.5">
+                <ElevationProfileChart
+                  path={profilePath}
+                  onHoverPoint={(point) => onProfileHover?.(point ? [point.lng, point.lat] : null)}
+                  onSelectionChange={(points) => {
+                    setProfileSelection(points);
+                    onProfileSelection?.(points ? points.map(p => [p.lng, p.lat] as [number, number]) : null);
+                  }}
+                />
+                {profileSelection && profileSelection.length >= 2 && (
+                  <button
+                    onClick={() => setShowCreateSegment(true)}
+                    className="mt-2 w-full flex items-center justify-center gap-2 bg-white/5 hover:bg-white/10 rounded-lg py-1.5 text-xs text-white/80 transition-colors"
+                    data-testid="button-route-create-segment"
+                  >
+                    <Spline className="h-3.5 w-3.5" />
+                    Create segment from selection
+                  </button>
+                )}
+              </div>
+            )}
             
+            <div>
+              <button
+                onClick={() => setIsTravelTimeExpanded(!isTravelTimeExpanded)}
+                className="w-full flex items-center justify-between bg-white/5 hover:bg-white/10 rounded-lg p-2.5 transition-colors"
+                data-testid="route-travel-time"
+              >
+                <div className="flex items-center gap-2">
+                  <Clock className="h-4 w-4 text-sky-400" />
+                  <span className="text-sm text-white/60">Travel time</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-semibold text-white">
+                    {travelEstimateLoading ? (
+                      <Loader2 className="h-3.5 w-3.5 animate-spin text-white/60" />
+                    ) : travelEstimate ? formatDuration(travelEstimate.totalSeconds) : 'N/A'}
+                  </span>
+                  {isTravelTimeExpanded ? (
+                    <ChevronUp className="h-4 w-4 text-white/60" />
+                  ) : (
+                    <ChevronDown className="h-4 w-4 text-white/60" />
+                  )}
+                </div>
+              </button>
+              {isTravelTimeExpanded && (
+                <div className="mt-1.5 space-y-1.5">
+                  <div className="flex flex-wrap gap-1">
+                    {TRAVEL_MODE_OPTIONS.map(option => (
+                      <button
+                        key={option.value}
+                        onClick={() => setTravelMode(option.value)}
+                        className={`px-2 py-1 rounded-md text-[11px] font-medium transition-colors ${
+                          travelMode === option.value ? 'bg-sky-500 text-white' : 'bg-white/5 hover:bg-white/10 text-white/70'
+                        }`}
+                        data-testid={`button-travel-mode-${option.value}`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                  {travelEstimateError && (
+                    <p className="text-xs text-red-400 ml-1">Couldn't estimate travel time for this route.</p>
+                  )}
+                  {travelEstimate && (
+                    <>
+                      <p className="text-[11px] text-white/50 ml-1">
+                        {travelEstimate.calibration
+                          ? `Calibrated to your pace from ${travelEstimate.calibration.activityCount} recorded ${travelEstimate.calibration.activityCount === 1 ? 'activity' : 'activities'} (×${travelEstimate.calibration.factor.toFixed(2)})`
+                          : 'Standard pace. Record activities of this type to calibrate it to you.'}
+                      </p>
+                      <div className="space-y-1" data-testid="travel-time-splits">
+                        {travelEstimate.legs.map((leg, i) => (
+                          <div key={i} className="bg-white/5 rounded-md px-2 py-1.5 text-xs">
+                            <div className="flex items-center justify-between gap-2">
+                              <span className="text-white/80 truncate">{leg.from} → {leg.to}</span>
+                              <span className="text-white font-semibold flex-shrink-0">{formatDuration(leg.seconds)}</span>
+                            </div>
+                            <div className="flex items-center justify-between gap-2 text-[10px] text-white/50">
+                              <span>
+                                {formatDistance(leg.distance)} · +{Math.round(leg.gain * 3.28084).toLocaleString()} ft / -{Math.round(leg.loss * 3.28084).toLocaleString()} ft
+                              </span>
+                              <span className="flex-shrink-0">at {formatDuration(leg.cumulativeSeconds)}</span>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <button
+                onClick={() => setIsSlopeCheckExpanded(!isSlopeCheckExpanded)}
+                className="w-full flex items-center justify-between bg-white/5 hover:bg-white/10 rounded-lg p-2.5 transition-colors"
+                data-testid="route-slope-check"
+              >
+                <div className="flex items-center gap-2">
+                  <AlertTriangle className="h-4 w-4 text-orange-400" />
+                  <span className="text-sm text-white/60">Avalanche terrain</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  {isSlopeCheckExpanded && (
+                    <span className="text-sm font-semibold text-white">
+                      {slopeCheckLoading ? (
+                        <Loader2 className="h-3.5 w-3.5 animate-spin text-white/60" />
+                      ) : slopeCheck ? (
+                        slopeCheck.segments.length === 0 ? 'Clear' : `${slopeCheck.segments.length} flagged`
+                      ) : null}
+                    </span>
+                  )}
+                  {isSlopeCheckExpanded ? (
+                    <ChevronUp className="h-4 w-4 text-white/60" />
+                  ) : (
+                    <ChevronDown className="h-4 w-4 text-white/60" />
+                  )}
+                </div>
+              </button>
+              {isSlopeCheckExpanded && (
+                <div className="mt-1.5 space-y-1.5">
+                  {slopeCheckError && (
+                    <p className="text-xs text-red-400 ml-1">Couldn't check slopes along this route.</p>
+                  )}
+                  {slopeCheck && (
+                    <>
+                      <p className="text-[11px] text-white/50 ml-1">
+                        {slopeCheck.segments.length === 0
+                          ? `No slopes of ${slopeCheck.thresholdDegrees}° or more under the route (steepest ${Math.round(slopeCheck.maxSlope)}°).`
+                          : `${formatDistance(slopeCheck.steepDistance)} crosses slopes of ${slopeCheck.thresholdDegrees}° or more, highlighted in red on the map.`}
+                      </p>
+                      <div className="space-y-1" data-testid="slope-check-segments">
+                        {slopeCheck.segments.map((segment, i) => (
+                          <div key={i} className="bg-white/5 rounded-md px-2 py-1.5 text-xs flex items-center justify-between gap-2">
+                            <span className="text-white/80">
+                              {(segment.startDistance / 1609.34).toFixed(2)}–{(segment.endDistance / 1609.34).toFixed(2)} mi
+                            </span>
+                            <span className="text-orange-300 font-semibold flex-shrink-0">
+                              {Math.round(segment.maxSlope)}° max · {segment.band}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                      <p className="text-[10px] text-white/40 ml-1">
+                        From a ~10 m terrain model. Not a substitute for an avalanche forecast or judgement in the field.
+                      </p>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+
             <div>
               <div className="flex items-center gap-2">
                 <button
@@ -1552,6 +1775,13 @@ export function RouteSummaryPanel({
           )}
         </div>
       )}
+
+      <CreateSegmentModal
+        isOpen={showCreateSegment}
+        onClose={() => setShowCreateSegment(false)}
+        points={profileSelection ?? []}
+        sourceRouteId={route.id}
+      />
     </div>
   );
 }
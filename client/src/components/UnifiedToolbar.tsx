@@ -5,7 +5,7 @@ import { cn } from '@/lib/utils';
 import { useQuery } from '@tanstack/react-query';
 import { useLocation } from 'wouter';
 import { DroneImage } from '@shared/schema';
-import { TrailOverlayType, TrailGroupType, TRAIL_GROUP_CONFIG } from '@/lib/mapUtils';
+import { TrailOverlayType, TrailGroupType, TRAIL_GROUP_CONFIG, SLOPE_ANGLE_LEGEND, SLOPE_ASPECT_LEGEND, type DroneElevationLayer, type TerrainAnalysisLayer } from '@/lib/mapUtils';
 
 interface LiveMapInvite {
   id: number;
@@ -20,6 +20,8 @@ interface UnifiedToolbarProps {
   onStartOfflineSelection: () => void;
   onToggleDroneLayer: (droneImageId: number, isActive: boolean) => void;
   activeDroneLayers: Set<number>;
+  activeElevationLayers?: Set<string>;
+  onToggleElevationLayer?: (droneImageId: number, layer: DroneElevationLayer) => void;
   onOpenRouteBuilder: () => void;
   isMeasurementMode: boolean;
   onToggleMeasurement: () => void;
@@ -43,6 +45,8 @@ const UnifiedToolbar: React.FC<UnifiedToolbarProps> = ({
   onStartOfflineSelection, 
   onToggleDroneLayer, 
   activeDroneLayers,
+  activeElevationLayers = new Set(),
+  onToggleElevationLayer,
   onOpenRouteBuilder,
   isMeasurementMode,
   onToggleMeasurement,
@@ -105,8 +109,9 @@ const UnifiedToolbar: React.FC<UnifiedToolbarProps> = ({
   });
   
   const isTopoActive = activeLayers.includes('topo');
+  const isSlopeActive = activeLayers.includes('slope-angle') || activeLayers.includes('slope-aspect');
   const activeBaseLayer = activeLayers.find(layer => ['esri-hd', 'esri-2d'].includes(layer)) || 'esri-hd';
-  const isLayersActive = isTopoActive || activeTrailOverlays.size > 0 || showOutdoorPOIs || !esriImageryEnabled;
+  const isLayersActive = isTopoActive || isSlopeActive || activeTrailOverlays.size > 0 || showOutdoorPOIs || !esriImageryEnabled;
   
   const handleToggleLayer = (layerType: string) => {
     onToggleLayer(layerType);
@@ -227,6 +232,49 @@ const UnifiedToolbar: React.FC<UnifiedToolbarProps> = ({
                         <span className="text-sm text-white">Topo Contours</span>
                       </div>
 
+                      <div className="px-3 pt-3 pb-1">
+                        <span className="text-xs text-white/50 font-medium uppercase tracking-wider">Avalanche Terrain</span>
+                      </div>
+                      {([
+                        { layer: 'slope-angle', label: 'Slope Angle', legend: SLOPE_ANGLE_LEGEND, color: 'bg-red-600' },
+                        { layer: 'slope-aspect', label: 'Slope Aspect', legend: SLOPE_ASPECT_LEGEND, color: 'bg-blue-600' },
+                      ] as { layer: TerrainAnalysisLayer; label: string; legend: { label: string; color: string }[]; color: string }[]).map(({ layer, label, legend, color }) => {
+                        const isActive = activeLayers.includes(layer);
+                        return (
+                          <div
+                            key={layer}
+                            className="px-3 py-2.5 cursor-pointer hover:bg-white/5 transition-colors border-b border-white/10"
+                            onClick={() => handleToggleLayer(layer)}
+                            data-testid={`button-layer-${layer}`}
+                          >
+                            <div className="flex items-center gap-3">
+                              <div className={cn(
+                                "w-5 h-5 rounded border-2 flex items-center justify-center transition-all",
+                                isActive ? `border-transparent ${color}` : "border-white/30"
+                              )}>
+                                {isActive && (
+                                  <svg className="w-3 h-3 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={3}>
+                                    <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
+                                  </svg>
+                                )}
+                              </div>
+                              <Mountain className="h-4 w-4 text-red-400" />
+                              <span className="text-sm text-white">{label}</span>
+                            </div>
+                            {isActive && (
+                              <div className="flex flex-wrap gap-x-2 gap-y-0.5 mt-1.5 ml-8">
+                                {legend.map(item => (
+                                  <span key={item.label} className="flex items-center gap-1 text-[10px] text-white/60">
+                                    <span className="inline-block w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: item.color }} />
+                                    {item.label}
+                                  </span>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        );
+                      })}
+
                       <div className="px-3 pt-3 pb-1">
                         <span className="text-xs text-white/50 font-medium uppercase tracking-wider">Trail Overlays</span>
                       </div>
@@ -356,6 +404,22 @@ const UnifiedToolbar: React.FC<UnifiedToolbarProps> = ({
                                     Hide
                                   </button>
                                 )}
+                                {onToggleElevationLayer && activeDroneLayers.has(droneImage.id) && (droneImage.rasterType === 'dem' || droneImage.rasterType === 'dsm') && (
+                                  (['hillshade', 'contours'] as const).map(layer => {
+                                    const isOn = activeElevationLayers.has(`${droneImage.id}:${layer}`);
+                                    return (
+                                      <button
+                                        key={layer}
+                                        onClick={() => onToggleElevationLayer(droneImage.id, layer)}
+                                        className={`px-3 py-1.5 rounded text-sm font-medium transition-colors ${isOn ? 'bg-amber-600 text-white hover:bg-amber-700' : 'bg-white/10 text-white hover:bg-white/20'}`}
+                                        title={layer === 'hillshade' ? 'Toggle hillshade from this elevation model' : 'Toggle contour lines from this elevation model'}
+                                        data-testid={`button-${layer}-${droneImage.id}`}
+                                      >
+                                        {layer === 'hillshade' ? 'Shade' : 'Contours'}
+                                      </button>
+                                    );
+                                  })
+                                )}
                                 {cesiumTilesetsByDroneImage[droneImage.id] && (
                                   <button
                                     onClick={() => navigate(`/cesium/${cesiumTilesetsByDroneImage[droneImage.id].id}`)}
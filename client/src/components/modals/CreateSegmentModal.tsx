@@ -0,0 +1,149 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Spline } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatDistance } from "@/hooks/useActivityRecording";
+import type { ProfilePoint } from "@/lib/elevationProfile";
+
+interface CreateSegmentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Elevation profile selection the segment is cut from
+  points: ProfilePoint[];
+  sourceActivityId?: number;
+  sourceRouteId?: number;
+  defaultActivityType?: string | null;
+}
+
+const ACTIVITY_TYPE_OPTIONS: { value: string | null; label: string }[] = [
+  { value: null, label: 'Any' },
+  { value: 'hike', label: 'Hike' },
+  { value: 'run', label: 'Run' },
+  { value: 'bike', label: 'Bike' },
+  { value: 'ski', label: 'Ski' },
+];
+
+export function CreateSegmentModal({
+  isOpen,
+  onClose,
+  points,
+  sourceActivityId,
+  sourceRouteId,
+  defaultActivityType = null,
+}: CreateSegmentModalProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [activityType, setActivityType] = useState<string | null>(defaultActivityType);
+
+  useEffect(() => {
+    if (isOpen) {
+      setName('');
+      setActivityType(defaultActivityType);
+    }
+  }, [isOpen, defaultActivityType]);
+
+  const length = points.length >= 2 ? points[points.length - 1].distance - points[0].distance : 0;
+  const climb = useMemo(() => points.reduce(
+    (gain, p, i) => i > 0 && p.elevation > points[i - 1].elevation ? gain + p.elevation - points[i - 1].elevation : gain,
+    0
+  ), [points]);
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/segments", {
+        name: name.trim(),
+        activityType,
+        coordinates: points.map(p => [p.lng, p.lat, p.elevation]),
+        sourceActivityId: sourceActivityId ?? null,
+        sourceRouteId: sourceRouteId ?? null,
+      });
+      return response.json();
+    },
+    onSuccess: (segment: { name: string; effortCount: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/profiles"] });
+      toast({
+        title: "Segment created",
+        description: segment.effortCount > 0
+          ? `${segment.name} matched ${segment.effortCount} effort${segment.effortCount === 1 ? '' : 's'} from past activities`
+          : `New activities over ${segment.name} will be timed on it`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not create segment",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Spline className="h-5 w-5" />
+            Create Segment
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {formatDistance(length)} · +{Math.round(climb * 3.28084)} ft. Your activities and your friends' will be timed
+            whenever they cover this stretch.
+          </p>
+
+          <div className="space-y-1">
+            <Label htmlFor="segment-name">Name</Label>
+            <Input
+              id="segment-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Ridge trail climb"
+              maxLength={100}
+              data-testid="input-segment-name"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label>Activity type</Label>
+            <div className="flex rounded-lg bg-muted p-1 gap-1">
+              {ACTIVITY_TYPE_OPTIONS.map(option => (
+                <button
+                  key={option.label}
+                  type="button"
+                  onClick={() => setActivityType(option.value)}
+                  className={`flex-1 py-1.5 px-1 rounded-md text-sm font-medium transition-colors ${
+                    activityType === option.value
+                      ? 'bg-background text-foreground shadow-sm'
+                      : 'text-muted-foreground hover:text-foreground'
+                  }`}
+                  data-testid={`button-segment-type-${option.value ?? 'any'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <Button
+            className="w-full"
+            onClick={() => createMutation.mutate()}
+            disabled={!name.trim() || points.length < 2 || createMutation.isPending}
+            data-testid="button-save-segment"
+          >
+            {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Create Segment
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
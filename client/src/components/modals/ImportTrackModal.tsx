@@ -0,0 +1,196 @@
+import { useState, type ChangeEvent } from "react";
+import { useLocation } from "wouter";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Upload, FileUp, Loader2 } from "lucide-react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Route, Activity } from "@shared/schema";
+
+interface ImportTrackModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onRouteImported?: (route: Route) => void;
+}
+
+type ImportTarget = 'route' | 'activity';
+
+type ImportResult =
+  | { type: 'route'; route: Route }
+  | { type: 'activity'; activity: Activity };
+
+const ACCEPTED_EXTENSIONS = '.gpx,.kml,.kmz,.geojson,.json,.fit';
+
+const ACTIVITY_TYPE_OPTIONS = [
+  { value: 'auto', label: 'From file' },
+  { value: 'hike', label: 'Hike' },
+  { value: 'run', label: 'Run' },
+  { value: 'bike', label: 'Bike' },
+  { value: 'ski', label: 'Ski' },
+];
+
+export function ImportTrackModal({ isOpen, onClose, onRouteImported }: ImportTrackModalProps) {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [file, setFile] = useState<File | null>(null);
+  const [name, setName] = useState('');
+  const [target, setTarget] = useState<ImportTarget>('route');
+  const [activityType, setActivityType] = useState('auto');
+  const [isPublic, setIsPublic] = useState(false);
+
+  const reset = () => {
+    setFile(null);
+    setName('');
+    setTarget('route');
+    setActivityType('auto');
+    setIsPublic(false);
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async (): Promise<ImportResult> => {
+      const formData = new FormData();
+      formData.append('file', file!);
+      formData.append('target', target);
+      formData.append('isPublic', String(isPublic));
+      if (name.trim()) formData.append('name', name.trim());
+      if (target === 'activity' && activityType !== 'auto') formData.append('activityType', activityType);
+
+      const res = await fetch('/api/import', {
+        method: 'POST',
+        credentials: 'include',
+        body: formData
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || 'Failed to import file');
+      return data;
+    },
+    onSuccess: (result) => {
+      if (result.type === 'route') {
+        queryClient.invalidateQueries({ queryKey: ['/api/routes'] });
+        toast({ title: 'Route imported', description: `"${result.route.name}" was added to your maps.` });
+        onRouteImported?.(result.route);
+      } else {
+        queryClient.invalidateQueries({ queryKey: ['/api/activities'] });
+        toast({ title: 'Activity imported', description: `"${result.activity.name}" was added to your activities.` });
+        navigate(`/activities/${result.activity.id}`);
+      }
+      reset();
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Import failed', description: error.message, variant: 'destructive' });
+    }
+  });
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    // Name is left empty so the server uses the track name in the file
+    setFile(e.target.files?.[0] ?? null);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => {
+      if (!open) {
+        reset();
+        onClose();
+      }
+    }}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileUp className="h-5 w-5" />
+            Import GPS File
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="import-file">File</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept={ACCEPTED_EXTENSIONS}
+              onChange={handleFileChange}
+              data-testid="input-import-file"
+            />
+            <p className="text-xs text-muted-foreground">GPX, KML, KMZ, GeoJSON or FIT</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="import-name">Name</Label>
+            <Input
+              id="import-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Use name from file"
+              data-testid="input-import-name"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Import as</Label>
+            <div className="flex rounded-lg bg-muted p-1 gap-1">
+              {(['route', 'activity'] as const).map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setTarget(option)}
+                  className={`flex-1 py-2 px-3 rounded-md text-sm font-medium transition-colors ${
+                    target === option
+                      ? 'bg-background text-foreground shadow-sm'
+                      : 'text-muted-foreground hover:text-foreground'
+                  }`}
+                  data-testid={`button-import-target-${option}`}
+                >
+                  {option === 'route' ? 'Route' : 'Activity'}
+                </button>
+              ))}
+            </div>
+            {target === 'activity' && (
+              <p className="text-xs text-muted-foreground">Activities need a recorded track with timestamps.</p>
+            )}
+          </div>
+
+          {target === 'activity' && (
+            <div className="space-y-2">
+              <Label htmlFor="import-activity-type">Activity type</Label>
+              <select
+                id="import-activity-type"
+                value={activityType}
+                onChange={(e) => setActivityType(e.target.value)}
+                className="w-full h-10 rounded-md border border-input bg-background px-3 text-sm"
+                data-testid="select-import-activity-type"
+              >
+                {ACTIVITY_TYPE_OPTIONS.map(opt => (
+                  <option key={opt.value} value={opt.value}>{opt.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="import-public">Public</Label>
+            <Switch id="import-public" checked={isPublic} onCheckedChange={setIsPublic} />
+          </div>
+
+          <Button
+            className="w-full"
+            disabled={!file || importMutation.isPending}
+            onClick={() => importMutation.mutate()}
+            data-testid="button-import-submit"
+          >
+            {importMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Upload className="h-4 w-4 mr-2" />
+            )}
+            Import
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,13 +4,22 @@ import { Switch } from '@/components/ui/switch';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { useToast } from '@/hooks/use-toast';
+import { SLOPE_ANGLE_LEGEND, SLOPE_ASPECT_LEGEND } from '@/lib/mapUtils';
 
 interface LayerManagerModalProps {
   isOpen: boolean;
   onClose: () => void;
+  // Live map layers; toggles here go straight to the map rather than waiting for Apply
+  activeLayers?: string[];
+  onToggleLayer?: (layer: string) => void;
 }
 
-const LayerManagerModal: React.FC<LayerManagerModalProps> = ({ isOpen, onClose }) => {
+const TERRAIN_ANALYSIS_OPTIONS = [
+  { layer: 'slope-angle', name: 'Slope Angle', description: 'Shades 27°+ slopes where avalanches start', legend: SLOPE_ANGLE_LEGEND },
+  { layer: 'slope-aspect', name: 'Slope Aspect', description: 'Direction steep slopes face', legend: SLOPE_ASPECT_LEGEND },
+];
+
+const LayerManagerModal: React.FC<LayerManagerModalProps> = ({ isOpen, onClose, activeLayers = [], onToggleLayer }) => {
   const { toast } = useToast();
   
   // Layer visibility states
@@ -166,6 +175,40 @@ const LayerManagerModal: React.FC<LayerManagerModalProps> = ({ isOpen, onClose }
             </div>
           </div>
           
+          {/* Avalanche Terrain */}
+          {onToggleLayer && (
+            <>
+              <h3 className="text-md font-medium mb-3">Avalanche Terrain</h3>
+              <div className="space-y-2 mb-6">
+                {TERRAIN_ANALYSIS_OPTIONS.map(option => (
+                  <div key={option.layer} className="bg-dark-gray/50 p-3 rounded-lg">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <div className="font-medium">{option.name}</div>
+                        <div className="text-xs text-white/60">{option.description}</div>
+                      </div>
+                      <Switch
+                        checked={activeLayers.includes(option.layer)}
+                        onCheckedChange={() => onToggleLayer(option.layer)}
+                        data-testid={`switch-layer-${option.layer}`}
+                      />
+                    </div>
+                    {activeLayers.includes(option.layer) && (
+                      <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2">
+                        {option.legend.map(item => (
+                          <span key={item.label} className="flex items-center gap-1 text-[10px] text-white/60">
+                            <span className="inline-block w-2.5 h-2.5 rounded-sm" style={{ background: item.color }} />
+                            {item.label}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+          
           {/* Additional Settings */}
           <h3 className="text-md font-medium mb-3">Display Settings</h3>
           <div className="bg-dark-gray/50 p-4 rounded-lg mb-6">
@@ -220,7 +220,7 @@ export default function LiveMapSessionModal({ isOpen, onClose }: LiveMapSessionM
                       className="cursor-pointer hover:bg-accent transition-colors"
                       onClick={() => {
                         onClose();
-                        setLocation(`/live-map/${session.id}`);
+                        setLocation(session.isActive ? `/live-map/${session.id}` : `/live-map/${session.id}/debrief`);
                       }}
                       data-testid={`session-${session.id}`}
                     >
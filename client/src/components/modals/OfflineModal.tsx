@@ -1,10 +1,23 @@
-import React, { useState } from 'react';
-import { X, MapPin, Check, Download } from 'lucide-react';
+import React, { useEffect, useMemo, useState } from 'react';
+import mapboxgl from 'mapbox-gl';
+import { X, MapPin, Download, Pause, Play, Trash2, CheckCircle2, AlertTriangle } from 'lucide-react';
 import { Switch } from '@/components/ui/switch';
 import { Button } from '@/components/ui/button';
-import { useMutation } from '@tanstack/react-query';
-import { apiRequest } from '@/lib/queryClient';
+import { Slider } from '@/components/ui/slider';
+import { Progress } from '@/components/ui/progress';
 import { useToast } from '@/hooks/use-toast';
+import { useOfflinePacks } from '@/hooks/useOfflinePacks';
+import {
+  collectOfflineSources,
+  estimateOfflinePack,
+  isOfflineStorageSupported,
+  MAX_TILES_PER_PACK,
+  OFFLINE_CATEGORY_LABELS,
+  type OfflineBounds,
+  type OfflinePack,
+  type OfflineTileCategory,
+} from '@/lib/offlineTiles';
+import type { DroneImage } from '@shared/schema';
 
 interface OfflineModalProps {
   isOpen: boolean;
@@ -13,116 +26,180 @@ interface OfflineModalProps {
     northEast: { lat: number; lng: number };
     southWest: { lat: number; lng: number };
   } | null;
+  map?: mapboxgl.Map | null;
+  droneImages?: DroneImage[];
 }
 
-const OfflineModal: React.FC<OfflineModalProps> = ({ isOpen, onClose, bounds }) => {
-  const [includeDroneData, setIncludeDroneData] = useState(true);
+const CATEGORIES: OfflineTileCategory[] = ['basemap', 'terrain', 'trails', 'drone'];
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+}
+
+const PackRow: React.FC<{
+  pack: OfflinePack;
+  onPause: () => void;
+  onResume: () => void;
+  onDelete: () => void;
+}> = ({ pack, onPause, onResume, onDelete }) => {
+  const done = pack.downloadedTiles + pack.failedTiles;
+  const percent = pack.totalTiles > 0 ? Math.round((done / pack.totalTiles) * 100) : 0;
+
+  return (
+    <div className="bg-dark-gray/50 rounded-xl p-3" data-testid={`offline-pack-${pack.id}`}>
+      <div className="flex items-center justify-between mb-2">
+        <div className="min-w-0">
+          <div className="font-medium text-sm truncate">{pack.name}</div>
+          <div className="text-xs text-white/60">
+            Zoom {pack.minZoom}–{pack.maxZoom} · {formatBytes(pack.bytes)}
+            {pack.status !== 'complete' && ` · ${done.toLocaleString()}/${pack.totalTiles.toLocaleString()} tiles`}
+          </div>
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          {pack.status === 'complete' && <CheckCircle2 className="h-4 w-4 text-green-400 mr-1" />}
+          {pack.status === 'error' && <AlertTriangle className="h-4 w-4 text-amber-400 mr-1" />}
+          {(pack.status === 'downloading' || pack.status === 'queued') && (
+            <button className="p-1.5 text-white/70 hover:text-white" onClick={onPause} title="Pause">
+              <Pause className="h-4 w-4" />
+            </button>
+          )}
+          {(pack.status === 'paused' || pack.status === 'error') && (
+            <button className="p-1.5 text-white/70 hover:text-white" onClick={onResume} title="Resume">
+              <Play className="h-4 w-4" />
+            </button>
+          )}
+          <button className="p-1.5 text-white/70 hover:text-red-400" onClick={onDelete} title="Delete">
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+      {pack.status !== 'complete' && (
+        <>
+          <Progress value={percent} className="h-1.5" />
+          <div className="text-xs text-white/60 mt-1">
+            {pack.status === 'downloading' && `Downloading… ${percent}%`}
+            {pack.status === 'queued' && 'Waiting…'}
+            {pack.status === 'paused' && `Paused at ${percent}%`}
+            {pack.status === 'error' && (pack.error || 'Some tiles failed')}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+const OfflineModal: React.FC<OfflineModalProps> = ({ isOpen, onClose, bounds, map, droneImages = [] }) => {
   const { toast } = useToast();
-  
-  // Calculate area in square miles if bounds are provided
-  const calculateArea = () => {
-    if (!bounds) return 4.5; // Default for demo
-    
-    const latDiff = bounds.northEast.lat - bounds.southWest.lat;
-    const lngDiff = bounds.northEast.lng - bounds.southWest.lng;
-    
-    // Approximate conversion to square miles (rough calculation)
+  const { packs, storage, createPack, pausePack, resumePack, deletePack } = useOfflinePacks();
+  const [name, setName] = useState('');
+  const [minZoom, setMinZoom] = useState(10);
+  const [maxZoom, setMaxZoom] = useState(15);
+  const [enabled, setEnabled] = useState<Record<OfflineTileCategory, boolean>>({
+    basemap: true,
+    terrain: true,
+    trails: true,
+    drone: true,
+  });
+  const [isStarting, setIsStarting] = useState(false);
+
+  const packBounds: OfflineBounds | null = bounds ? {
+    north: bounds.northEast.lat,
+    east: bounds.northEast.lng,
+    south: bounds.southWest.lat,
+    west: bounds.southWest.lng,
+  } : null;
+
+  useEffect(() => {
+    if (isOpen && map && bounds) {
+      // Start from the zoom the user is looking at so the pack covers what they see
+      const current = Math.round(map.getZoom());
+      setMinZoom(Math.max(0, current - 4));
+      setMaxZoom(Math.min(18, Math.max(current + 2, 14)));
+    }
+  }, [isOpen, bounds]);
+
+  const sources = useMemo(() => {
+    if (!isOpen || !map || !packBounds) return [];
+    return collectOfflineSources(map, packBounds, droneImages);
+  }, [isOpen, map, bounds, droneImages]);
+
+  const selectedSources = sources.filter(s => enabled[s.category]);
+  const estimate = packBounds ? estimateOfflinePack(selectedSources, packBounds, minZoom, maxZoom) : null;
+  const fullEstimate = packBounds ? estimateOfflinePack(sources, packBounds, minZoom, maxZoom) : null;
+  const tooLarge = !!estimate && estimate.totalTiles > MAX_TILES_PER_PACK;
+
+  const areaSquareMiles = (() => {
+    if (!bounds) return 0;
     const avgLat = (bounds.northEast.lat + bounds.southWest.lat) / 2;
-    const milePerDegreeLat = 69;
-    const milePerDegreeLng = 69 * Math.cos(avgLat * Math.PI / 180);
-    
-    const areaInSquareMiles = (latDiff * milePerDegreeLat) * (lngDiff * milePerDegreeLng);
-    return Math.max(0.1, areaInSquareMiles); // Minimum 0.1 sq mi
-  };
-  
-  const area = calculateArea();
-  
-  // Calculate sizes based on area and the toggle
-  // Rough estimate: ~55 MB per square mile for satellite imagery
-  const satelliteSize = Math.round(area * 55);
-  const topoSize = Math.round(area * 15);
-  const droneSize = includeDroneData ? Math.round(area * 40) : 0;
-  const totalSize = satelliteSize + topoSize + droneSize;
-  
-  // Download map mutation
-  const downloadMapMutation = useMutation({
-    mutationFn: async () => {
-      if (!bounds) {
-        throw new Error('No area selected');
-      }
-      return await apiRequest('POST', '/api/offline-maps', {
-        name: 'Selected Area',
-        northEastLat: bounds.northEast.lat,
-        northEastLng: bounds.northEast.lng,
-        southWestLat: bounds.southWest.lat,
-        southWestLng: bounds.southWest.lng,
-        includesDroneData: includeDroneData,
-        sizeInMB: totalSize
+    const latMiles = (bounds.northEast.lat - bounds.southWest.lat) * 69;
+    const lngMiles = (bounds.northEast.lng - bounds.southWest.lng) * 69 * Math.cos(avgLat * Math.PI / 180);
+    return Math.max(0.1, latMiles * lngMiles);
+  })();
+
+  const handleDownload = async () => {
+    if (!packBounds) {
+      toast({
+        title: "No area selected",
+        description: "Please select an area on the map first.",
+        variant: "destructive"
+      });
+      return;
+    }
+    setIsStarting(true);
+    try {
+      await createPack({
+        name: name.trim() || `Area ${new Date().toLocaleDateString()}`,
+        bounds: packBounds,
+        minZoom,
+        maxZoom,
+        sources: selectedSources,
+        includesDroneData: enabled.drone && selectedSources.some(s => s.category === 'drone'),
       });
-    },
-    onSuccess: () => {
       toast({
-        title: "Map Downloaded",
-        description: "This area is now available offline.",
+        title: "Download started",
+        description: "You can close this panel; the download continues in the background.",
       });
+      setName('');
       onClose();
-    },
-    onError: (error) => {
+    } catch (error) {
       toast({
         title: "Download Failed",
-        description: error.message || "Failed to download map for offline use.",
-        variant: "destructive"
-      });
-    }
-  });
-  
-  const handleDownload = () => {
-    if (!bounds) {
-      toast({
-        title: "No area selected",
-        description: "Please select an area on the map first.",
+        description: error instanceof Error ? error.message : "Failed to download map for offline use.",
         variant: "destructive"
       });
-      return;
+    } finally {
+      setIsStarting(false);
     }
-    downloadMapMutation.mutate();
   };
 
   if (!isOpen) return null;
-  
-  // Show error state if no bounds provided
-  if (!bounds) {
-    return (
-      <div className="absolute inset-0 bg-black/70 z-20 flex items-end">
-        <div className="w-full bg-dark rounded-t-2xl">
-          <div className="flex justify-center pt-4 pb-2">
-            <div className="w-12 h-1 bg-white/20 rounded-full"></div>
-          </div>
-          <div className="p-5">
-            <div className="flex justify-between items-center mb-4">
-              <h2 className="text-lg font-semibold">Download for Offline Use</h2>
-              <button className="text-white/60" onClick={onClose}>
-                <X className="h-6 w-6" />
-              </button>
-            </div>
-            <div className="bg-red-500/20 border border-red-500/50 rounded-lg p-4 mb-4">
-              <p className="text-white">No area selected. Please select an area on the map first.</p>
-            </div>
-            <button
-              onClick={onClose}
-              className="w-full bg-gray-600 hover:bg-gray-700 text-white font-medium py-3 rounded-xl"
-            >
-              Close
-            </button>
-          </div>
-        </div>
-      </div>
-    );
-  }
+
+  const packList = packs.length > 0 && (
+    <div className="space-y-2 mb-4 max-h-56 overflow-y-auto">
+      <div className="text-sm font-medium text-white/80">Downloaded Areas</div>
+      {packs.map(pack => (
+        <PackRow
+          key={pack.id}
+          pack={pack}
+          onPause={() => pausePack(pack.id)}
+          onResume={() => resumePack(pack.id)}
+          onDelete={() => deletePack(pack.id)}
+        />
+      ))}
+    </div>
+  );
+
+  const storageLine = storage && (
+    <div className="text-sm text-white/60">
+      Storage used: {formatBytes(storage.usage)} of {formatBytes(storage.quota)}
+    </div>
+  );
 
   return (
     <div className="absolute inset-0 bg-black/70 z-20 flex items-end">
-      <div className="w-full bg-dark rounded-t-2xl">
+      <div className="w-full bg-dark rounded-t-2xl max-h-[90vh] overflow-y-auto">
         <div className="flex justify-center pt-4 pb-2">
           <div className="w-12 h-1 bg-white/20 rounded-full"></div>
         </div>
@@ -133,77 +210,135 @@ const OfflineModal: React.FC<OfflineModalProps> = ({ isOpen, onClose, bounds })
               <X className="h-6 w-6" />
             </button>
           </div>
-          
-          <div className="bg-dark-gray/50 rounded-xl p-4 mb-4">
-            <div className="flex items-center justify-between mb-3">
-              <div className="flex items-center">
-                <MapPin className="h-5 w-5 text-accent mr-2" />
-                <span className="font-medium">Selected Area</span>
-              </div>
-              <span className="text-sm text-white/60">~{area.toFixed(1)} mi²</span>
+
+          {!isOfflineStorageSupported() && (
+            <div className="bg-red-500/20 border border-red-500/50 rounded-lg p-4 mb-4">
+              <p className="text-white">This browser does not support offline map storage.</p>
             </div>
-            
-            {/* A satellite view of a forested area with a selection box highlighted */}
-            <div className="h-36 bg-gray-800 rounded-lg mb-3 overflow-hidden flex items-center justify-center" style={{backgroundImage: "url('https://images.unsplash.com/photo-1508923567004-3a6b8004f3d7?ixlib=rb-4.0.3&ixid=MnwxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8&auto=format&fit=crop&w=800&h=300')", backgroundSize: 'cover', backgroundPosition: 'center'}}>
-              <div className="h-full w-full flex items-center justify-center">
-                <div className="border-2 border-dashed border-secondary w-3/4 h-3/4 rounded flex items-center justify-center">
-                  <span className="bg-secondary/20 text-white text-xs px-2 py-1 rounded">
-                    {bounds ? `${area.toFixed(1)} mi² area` : 'Selected Area'}
-                  </span>
+          )}
+
+          {!bounds ? (
+            <>
+              {packList || (
+                <div className="bg-dark-gray/50 rounded-lg p-4 mb-4">
+                  <p className="text-white/80">No offline areas yet. Select an area on the map to download it.</p>
+                </div>
+              )}
+              {storageLine}
+              <button
+                onClick={onClose}
+                className="w-full mt-4 bg-gray-600 hover:bg-gray-700 text-white font-medium py-3 rounded-xl"
+              >
+                Close
+              </button>
+            </>
+          ) : (
+            <>
+              <div className="bg-dark-gray/50 rounded-xl p-4 mb-4">
+                <div className="flex items-center justify-between mb-3">
+                  <div className="flex items-center">
+                    <MapPin className="h-5 w-5 text-accent mr-2" />
+                    <span className="font-medium">Selected Area</span>
+                  </div>
+                  <span className="text-sm text-white/60">~{areaSquareMiles.toFixed(1)} mi²</span>
+                </div>
+
+                <input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Area name (optional)"
+                  className="w-full mb-4 rounded-lg bg-black/30 border border-white/10 px-3 py-2 text-sm text-white placeholder:text-white/40"
+                  data-testid="input-offline-area-name"
+                />
+
+                <div className="space-y-3 mb-4">
+                  <div>
+                    <div className="flex justify-between text-sm mb-2">
+                      <span>Min zoom</span>
+                      <span className="text-white/60">{minZoom}</span>
+                    </div>
+                    <Slider
+                      min={0}
+                      max={18}
+                      step={1}
+                      value={[minZoom]}
+                      onValueChange={([v]) => {
+                        setMinZoom(v);
+                        if (v > maxZoom) setMaxZoom(v);
+                      }}
+                    />
+                  </div>
+                  <div>
+                    <div className="flex justify-between text-sm mb-2">
+                      <span>Max zoom</span>
+                      <span className="text-white/60">{maxZoom}</span>
+                    </div>
+                    <Slider
+                      min={0}
+                      max={18}
+                      step={1}
+                      value={[maxZoom]}
+                      onValueChange={([v]) => {
+                        setMaxZoom(v);
+                        if (v < minZoom) setMinZoom(v);
+                      }}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-3">
+                  {CATEGORIES.map(category => {
+                    const available = fullEstimate?.byCategory[category].tiles ?? 0;
+                    const selected = estimate?.byCategory[category];
+                    return (
+                      <div key={category} className="flex justify-between items-center text-sm">
+                        <div className="flex items-center gap-3">
+                          <Switch
+                            checked={enabled[category] && available > 0}
+                            disabled={available === 0}
+                            onCheckedChange={(checked) => setEnabled(prev => ({ ...prev, [category]: checked }))}
+                          />
+                          <span className={available === 0 ? 'text-white/40' : ''}>{OFFLINE_CATEGORY_LABELS[category]}</span>
+                        </div>
+                        <span className="text-white/60">
+                          {available === 0
+                            ? 'None in area'
+                            : enabled[category] && selected
+                              ? `${selected.tiles.toLocaleString()} tiles · ~${formatBytes(selected.bytes)}`
+                              : 'Skipped'}
+                        </span>
+                      </div>
+                    );
+                  })}
                 </div>
               </div>
-            </div>
-            
-            <div className="space-y-3">
-              <div className="flex justify-between text-sm">
-                <span>Satellite Imagery</span>
-                <span className="text-white/60">{satelliteSize} MB</span>
-              </div>
-              <div className="flex justify-between text-sm">
-                <span>Topographic Data</span>
-                <span className="text-white/60">{topoSize} MB</span>
-              </div>
-              <div className="flex justify-between text-sm">
-                <span>Drone Imagery (3 Areas)</span>
-                <span className="text-white/60">{droneSize} MB</span>
+
+              <div className="mb-4">
+                <div className="text-lg font-medium">
+                  Estimated Size: ~{formatBytes(estimate?.estimatedBytes ?? 0)}
+                  <span className="text-sm text-white/60 font-normal"> ({(estimate?.totalTiles ?? 0).toLocaleString()} tiles)</span>
+                </div>
+                {storageLine}
+                {tooLarge && (
+                  <div className="text-sm text-amber-400 mt-1">
+                    Too many tiles (limit {MAX_TILES_PER_PACK.toLocaleString()}). Lower the max zoom or select a smaller area.
+                  </div>
+                )}
               </div>
-            </div>
-          </div>
-          
-          <div className="flex justify-between items-center mb-6">
-            <div>
-              <div className="text-lg font-medium">Total Size: {totalSize} MB</div>
-              <div className="text-sm text-white/60">Storage Available: 14.2 GB</div>
-            </div>
-            <div className="flex items-center">
-              <span className="text-sm mr-3">Include Drone Data</span>
-              <Switch
-                checked={includeDroneData}
-                onCheckedChange={setIncludeDroneData}
-              />
-            </div>
-          </div>
-          
-          <Button
-            className="w-full bg-primary hover:bg-primary/90 text-white font-medium py-3 rounded-xl flex items-center justify-center"
-            onClick={handleDownload}
-            disabled={downloadMapMutation.isPending}
-          >
-            {downloadMapMutation.isPending ? (
-              <span className="flex items-center">
-                <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                </svg>
-                Downloading...
-              </span>
-            ) : (
-              <>
+
+              {packList}
+
+              <Button
+                className="w-full bg-primary hover:bg-primary/90 text-white font-medium py-3 rounded-xl flex items-center justify-center"
+                onClick={handleDownload}
+                disabled={isStarting || tooLarge || !estimate?.totalTiles || !isOfflineStorageSupported()}
+                data-testid="button-download-offline-area"
+              >
                 <Download className="h-5 w-5 mr-2" />
                 Download Area
-              </>
-            )}
-          </Button>
+              </Button>
+            </>
+          )}
         </div>
       </div>
     </div>
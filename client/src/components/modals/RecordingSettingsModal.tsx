@@ -0,0 +1,180 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Settings2, RotateCcw, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { recordingProfileSchema, type RecordingProfile } from "@shared/schema";
+import type { ActivityType } from "@/hooks/useActivityRecording";
+import { loadRecordingProfile, resetRecordingProfile, saveRecordingProfile } from "@/lib/recordingProfiles";
+
+interface RecordingSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  initialActivityType?: ActivityType;
+}
+
+const ACTIVITY_TYPE_OPTIONS: { value: ActivityType; label: string }[] = [
+  { value: 'hike', label: 'Hike' },
+  { value: 'run', label: 'Run' },
+  { value: 'bike', label: 'Bike' },
+  { value: 'ski', label: 'Ski' },
+];
+
+const MPS_TO_MPH = 2.23694;
+
+export function RecordingSettingsModal({ isOpen, onClose, initialActivityType = 'hike' }: RecordingSettingsModalProps) {
+  const { toast } = useToast();
+  const [activityType, setActivityType] = useState<ActivityType>(initialActivityType);
+  const [profile, setProfile] = useState<RecordingProfile>(() => loadRecordingProfile(initialActivityType));
+
+  useEffect(() => {
+    if (isOpen) setActivityType(initialActivityType);
+  }, [isOpen, initialActivityType]);
+
+  useEffect(() => {
+    setProfile(loadRecordingProfile(activityType));
+  }, [activityType]);
+
+  const update = <K extends keyof RecordingProfile>(key: K, value: RecordingProfile[K]) => {
+    setProfile(prev => ({ ...prev, [key]: value }));
+  };
+
+  const numberField = (
+    id: string,
+    label: string,
+    value: number,
+    onChange: (value: number) => void,
+    unit: string,
+    step = 1
+  ) => (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs">{label}</Label>
+      <div className="flex items-center gap-2">
+        <Input
+          id={id}
+          type="number"
+          inputMode="decimal"
+          step={step}
+          value={Number.isFinite(value) ? value : ''}
+          onChange={(e) => onChange(parseFloat(e.target.value))}
+          className="h-9"
+          data-testid={`input-${id}`}
+        />
+        <span className="text-xs text-muted-foreground w-8">{unit}</span>
+      </div>
+    </div>
+  );
+
+  const handleSave = () => {
+    const parsed = recordingProfileSchema.safeParse(profile);
+    if (!parsed.success) {
+      toast({
+        title: 'Check the settings',
+        description: parsed.error.errors[0]?.message || 'Some values are out of range',
+        variant: 'destructive',
+      });
+      return;
+    }
+    saveRecordingProfile(activityType, parsed.data);
+    toast({
+      title: 'Recording settings saved',
+      description: `Used the next time you record a ${activityType}`,
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Settings2 className="h-5 w-5" />
+            Recording Settings
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex rounded-lg bg-muted p-1 gap-1">
+            {ACTIVITY_TYPE_OPTIONS.map(option => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => setActivityType(option.value)}
+                className={`flex-1 py-1.5 px-2 rounded-md text-sm font-medium transition-colors ${
+                  activityType === option.value
+                    ? 'bg-background text-foreground shadow-sm'
+                    : 'text-muted-foreground hover:text-foreground'
+                }`}
+                data-testid={`button-recording-profile-${option.value}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {numberField('sample-interval', 'GPS interval', profile.sampleIntervalSeconds, v => update('sampleIntervalSeconds', v), 's')}
+            {numberField('accuracy-threshold', 'Ignore fixes worse than', profile.accuracyThresholdMeters, v => update('accuracyThresholdMeters', v), 'm')}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="auto-pause">Auto-pause</Label>
+              <p className="text-xs text-muted-foreground">Stop the clock when you stop moving</p>
+            </div>
+            <Switch id="auto-pause" checked={profile.autoPause} onCheckedChange={v => update('autoPause', v)} />
+          </div>
+
+          {profile.autoPause && (
+            <div className="grid grid-cols-2 gap-3">
+              {numberField(
+                'auto-pause-speed',
+                'Below speed',
+                Math.round(profile.autoPauseSpeedMps * MPS_TO_MPH * 10) / 10,
+                v => update('autoPauseSpeedMps', v / MPS_TO_MPH),
+                'mph',
+                0.1
+              )}
+              {numberField('auto-pause-delay', 'For at least', profile.autoPauseDelaySeconds, v => update('autoPauseDelaySeconds', v), 's')}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="audio-cues">Audio cues</Label>
+              <p className="text-xs text-muted-foreground">Tones when auto-pause stops or resumes</p>
+            </div>
+            <Switch id="audio-cues" checked={profile.audioCues} onCheckedChange={v => update('audioCues', v)} />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="battery-saver">Battery saver</Label>
+              <p className="text-xs text-muted-foreground">Coarser GPS, at most one fix every 5 s</p>
+            </div>
+            <Switch id="battery-saver" checked={profile.batterySaver} onCheckedChange={v => update('batterySaver', v)} />
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              className="flex-1"
+              onClick={() => setProfile(resetRecordingProfile(activityType))}
+              data-testid="button-reset-recording-profile"
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Defaults
+            </Button>
+            <Button className="flex-1" onClick={handleSave} data-testid="button-save-recording-profile">
+              <Save className="h-4 w-4 mr-2" />
+              Save
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
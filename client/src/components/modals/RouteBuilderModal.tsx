@@ -5,7 +5,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
-import { X, Plus, Route as RouteIcon, Mountain, Pencil, Sparkles, Wand2, Loader2 } from 'lucide-react';
+import { X, Plus, Route as RouteIcon, Mountain, Pencil, Sparkles, Wand2, Loader2, Repeat } from 'lucide-react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
@@ -37,6 +37,25 @@ const ROUTE_COLORS: Record<string, string> = {
   green: '#22C55E',
 };
 
+// Preview colors for generated loops, best first
+const LOOP_COLORS = ['blue', 'orange', 'green'];
+
+interface LoopOption {
+  label: string;
+  description: string;
+  color: string;
+  waypoints: Array<{ name: string; lat: number; lng: number }>;
+  path: [number, number][];
+  distance: number;
+  elevationGain?: number;
+  elevationLoss?: number;
+}
+
+function formatEstimatedTime(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
 export default function RouteBuilderModal({
   isOpen,
   onClose,
@@ -68,8 +87,15 @@ export default function RouteBuilderModal({
     waypoints: Array<{ name: string; lat: number; lng: number; description?: string }>;
     communityRouteId?: number;
     communityAuthor?: string;
+    estimatedTime?: number;
+    path?: [number, number][];
+    distance?: number;
+    elevationGain?: number;
+    elevationLoss?: number;
+    snap?: { status: 'snapped' | 'flagged' | 'unverified'; warnings: string[] };
   }> | null>(null);
-  const [aiConversationHistory, setAiConversationHistory] = useState<Array<{ role: 'user' | 'assistant'; content: string }>>([]);
+  // Server-side conversation the follow-ups continue
+  const [aiConversationId, setAiConversationId] = useState<number | null>(null);
   const [aiPreviewRoutes, setAiPreviewRoutes] = useState<Array<{
     label: string;
     source: 'trail_data' | 'community';
@@ -78,6 +104,12 @@ export default function RouteBuilderModal({
     waypoints: Array<{ name: string; lat: number; lng: number; description?: string }>;
     communityRouteId?: number;
     communityAuthor?: string;
+    estimatedTime?: number;
+    path?: [number, number][];
+    distance?: number;
+    elevationGain?: number;
+    elevationLoss?: number;
+    snap?: { status: 'snapped' | 'flagged' | 'unverified'; warnings: string[] };
   }> | null>(null);
 
   // Waypoints from AI (to include in creation if AI route is applied)
@@ -86,6 +118,22 @@ export default function RouteBuilderModal({
     lngLat: [number, number];
     elevation: number | null;
   }>>([]);
+  // Terrain-model duration of the applied AI option, saved with the route
+  const [aiEstimatedTime, setAiEstimatedTime] = useState<number | null>(null);
+  // Trail-network path of the applied AI option (meters), saved instead of straight lines between its waypoints
+  const [aiTrailRoute, setAiTrailRoute] = useState<{
+    path: [number, number][];
+    distance: number;
+    elevationGain?: number;
+    elevationLoss?: number;
+  } | null>(null);
+
+  // Loop generator state (trail mode): targets in miles and feet, from the map center
+  const [loopDistance, setLoopDistance] = useState('');
+  const [loopClimb, setLoopClimb] = useState('');
+  const [isGeneratingLoops, setIsGeneratingLoops] = useState(false);
+  const [loopError, setLoopError] = useState<string | null>(null);
+  const [loopOptions, setLoopOptions] = useState<LoopOption[] | null>(null);
 
   const previewClickHandlersRef = useRef<Map<string, (e: any) => void>>(new Map());
   const previewEnterHandlersRef = useRef<Map<string, () => void>>(new Map());
@@ -150,6 +198,7 @@ export default function RouteBuilderModal({
   const drawPreviewRoutes = useCallback((options: Array<{
     color: string;
     waypoints: Array<{ name: string; lat: number; lng: number; description?: string }>;
+    path?: [number, number][];
     label: string;
     description?: string;
   }>) => {
@@ -164,7 +213,10 @@ export default function RouteBuilderModal({
       const sourceId = `ai-preview-source-${color}`;
       const outlineId = `ai-preview-outline-${color}`;
 
-      const coordinates = option.waypoints.map(wp => [wp.lng, wp.lat]);
+      // Follow the trail path the server snapped the option to, when it could
+      const coordinates = option.path && option.path.length >= 2
+        ? option.path
+        : option.waypoints.map(wp => [wp.lng, wp.lat]);
 
       const geojson: GeoJSON.Feature = {
         type: 'Feature',
@@ -280,7 +332,7 @@ export default function RouteBuilderModal({
             lng: mapCenter?.lng || -110.76,
           },
           mapZoom: map?.getZoom() || 12,
-          conversationHistory: aiConversationHistory,
+          conversationId: aiConversationId,
         }),
         credentials: 'include',
       });
@@ -319,11 +371,7 @@ export default function RouteBuilderModal({
         }
       }
 
-      setAiConversationHistory(prev => [
-        ...prev,
-        { role: 'user' as const, content: aiPrompt.trim() },
-        { role: 'assistant' as const, content: data.message },
-      ]);
+      setAiConversationId(data.conversationId ?? null);
 
       setAiPrompt("");
 
@@ -333,13 +381,91 @@ export default function RouteBuilderModal({
     } finally {
       setIsGeneratingAiRoute(false);
     }
-  }, [aiPrompt, routingMode, map, aiConversationHistory, clearPreviewRoutes, drawPreviewRoutes]);
+  }, [aiPrompt, routingMode, map, aiConversationId, clearPreviewRoutes, drawPreviewRoutes]);
+
+  // Propose loops and out-and-backs from the map center for the distance/climb targets
+  const generateLoops = useCallback(async () => {
+    const targetDistance = parseFloat(loopDistance) > 0 ? parseFloat(loopDistance) * 1609.34 : undefined;
+    const targetClimb = parseFloat(loopClimb) > 0 ? parseFloat(loopClimb) * 0.3048 : undefined;
+    if (!map || (!targetDistance && !targetClimb)) return;
+
+    setIsGeneratingLoops(true);
+    setLoopError(null);
+    setLoopOptions(null);
+    setAiPreviewRoutes(null);
+    clearPreviewRoutes();
+
+    try {
+      const center = map.getCenter();
+      const response = await fetch('/api/trails/loops', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          start: [center.lng, center.lat],
+          profile: trailProfile,
+          targetDistance,
+          targetClimb,
+          count: LOOP_COLORS.length,
+        }),
+        credentials: 'include',
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        setLoopError(data.message || "Couldn't find loops from here");
+        return;
+      }
+
+      const options: LoopOption[] = data.routes.map((route: any, i: number) => {
+        const shape = route.shape === 'loop' ? 'loop' : 'out-and-back';
+        const last = route.waypoints.length - 1;
+        return {
+          label: `${(route.distance / 1609.34).toFixed(1)} mi ${shape}`,
+          description: [
+            `+${Math.round(route.elevationGain * 3.28084).toLocaleString()} ft`,
+            route.repeatedDistance > 0 ? `${(route.repeatedDistance / 1609.34).toFixed(1)} mi repeated` : 'no repeated trail',
+          ].join(' · '),
+          color: LOOP_COLORS[i],
+          waypoints: route.waypoints.map(([lng, lat]: [number, number], w: number) => ({
+            name: w === 0 ? 'Start' : w === last ? 'Finish' : shape === 'loop' ? `Via ${w}` : 'Turnaround',
+            lat,
+            lng,
+          })),
+          path: route.coordinates,
+          distance: route.distance,
+          elevationGain: route.elevationGain,
+          elevationLoss: route.elevationLoss,
+        };
+      });
+
+      setLoopOptions(options);
+      drawPreviewRoutes(options);
+
+      const coords = options.flatMap(option => option.path);
+      const lngs = coords.map(c => c[0]);
+      const lats = coords.map(c => c[1]);
+      map.fitBounds(
+        new mapboxgl.LngLatBounds([Math.min(...lngs), Math.min(...lats)], [Math.max(...lngs), Math.max(...lats)]),
+        { padding: 80, duration: 2000 }
+      );
+    } catch (error: any) {
+      console.error('Loop generation error:', error);
+      setLoopError(error.message || "Failed to generate loops. Please try again.");
+    } finally {
+      setIsGeneratingLoops(false);
+    }
+  }, [loopDistance, loopClimb, map, trailProfile, clearPreviewRoutes, drawPreviewRoutes]);
 
   // Apply an AI-generated route option
   const applyAiRouteOption = useCallback((option: {
     label: string;
     description?: string;
     waypoints: Array<{ name: string; lat: number; lng: number; description?: string }>;
+    estimatedTime?: number;
+    path?: [number, number][];
+    distance?: number;
+    elevationGain?: number;
+    elevationLoss?: number;
   }) => {
     if (!option.waypoints || option.waypoints.length < 2) {
       setAiError("This route option doesn't have enough waypoints.");
@@ -357,6 +483,10 @@ export default function RouteBuilderModal({
 
     // Store AI waypoints to include in creation
     setAiWaypoints(waypointCoordinates);
+    setAiEstimatedTime(option.estimatedTime ?? null);
+    setAiTrailRoute(option.path && option.path.length >= 2 && option.distance !== undefined
+      ? { path: option.path, distance: option.distance, elevationGain: option.elevationGain, elevationLoss: option.elevationLoss }
+      : null);
 
     // Auto-fill name and description if empty
     if (!name.trim()) setName(option.label || "AI Generated Route");
@@ -366,7 +496,7 @@ export default function RouteBuilderModal({
     setAiPrompt("");
     setAiResponse(null);
     setAiRouteOptions(null);
-    setAiConversationHistory([]);
+    setAiConversationId(null);
 
     toast({
       title: "Route applied!",
@@ -387,9 +517,12 @@ export default function RouteBuilderModal({
 
     // Build route data — empty waypoints if no AI route, or AI waypoints if applied
     const waypointCoordinates = aiWaypoints.length > 0 ? aiWaypoints : [];
-    const pathCoordinates = waypointCoordinates.length >= 2
-      ? waypointCoordinates.map(wp => wp.lngLat)
-      : [];
+    const trailRoute = waypointCoordinates.length >= 2 ? aiTrailRoute : null;
+    const pathCoordinates = trailRoute
+      ? trailRoute.path
+      : waypointCoordinates.length >= 2
+        ? waypointCoordinates.map(wp => wp.lngLat)
+        : [];
 
     createRouteMutation.mutate({
       name: name.trim(),
@@ -400,7 +533,10 @@ export default function RouteBuilderModal({
       waypointIds: JSON.stringify([]),
       pathCoordinates: JSON.stringify(pathCoordinates),
       waypointCoordinates: JSON.stringify(waypointCoordinates),
-      totalDistance: "0",
+      totalDistance: trailRoute ? String(trailRoute.distance) : "0",
+      elevationGain: trailRoute?.elevationGain !== undefined ? String(trailRoute.elevationGain) : undefined,
+      elevationLoss: trailRoute?.elevationLoss !== undefined ? String(trailRoute.elevationLoss) : undefined,
+      estimatedTime: aiWaypoints.length > 0 && aiEstimatedTime !== null ? aiEstimatedTime : undefined,
     });
   };
 
@@ -412,14 +548,21 @@ export default function RouteBuilderModal({
     setTrailProfile('foot-hiking');
     setIsPublic(false);
     setAiWaypoints([]);
+    setAiEstimatedTime(null);
+    setAiTrailRoute(null);
     setShowAiPrompt(false);
     setAiPrompt("");
     setAiError(null);
     setIsGeneratingAiRoute(false);
     setAiResponse(null);
     setAiRouteOptions(null);
-    setAiConversationHistory([]);
+    setAiConversationId(null);
     setAiPreviewRoutes(null);
+    setLoopDistance('');
+    setLoopClimb('');
+    setIsGeneratingLoops(false);
+    setLoopError(null);
+    setLoopOptions(null);
     clearPreviewRoutes();
     onClose();
   };
@@ -541,6 +684,95 @@ export default function RouteBuilderModal({
                     </button>
                   ))}
                 </div>
+
+                {/* Loop generator */}
+                <div className="mt-2 space-y-2 rounded-lg border border-emerald-500/20 bg-emerald-500/5 p-2.5">
+                  <div className="flex items-center gap-1.5">
+                    <Repeat className="w-3.5 h-3.5 text-emerald-400" />
+                    <span className="text-xs font-medium text-emerald-300">Loop from map center</span>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <Label htmlFor="loopDistance" className="text-[10px] text-muted-foreground">Distance (mi)</Label>
+                      <Input
+                        id="loopDistance"
+                        type="number"
+                        min="0.5"
+                        max="30"
+                        step="0.5"
+                        value={loopDistance}
+                        onChange={(e) => setLoopDistance(e.target.value)}
+                        placeholder="e.g. 6"
+                        className="h-7 text-xs"
+                        data-testid="input-loop-distance"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="loopClimb" className="text-[10px] text-muted-foreground">Climb (ft)</Label>
+                      <Input
+                        id="loopClimb"
+                        type="number"
+                        min="50"
+                        max="10000"
+                        step="50"
+                        value={loopClimb}
+                        onChange={(e) => setLoopClimb(e.target.value)}
+                        placeholder="optional"
+                        className="h-7 text-xs"
+                        data-testid="input-loop-climb"
+                      />
+                    </div>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="w-full h-7 text-xs gap-1.5"
+                    disabled={isGeneratingLoops || !(parseFloat(loopDistance) > 0 || parseFloat(loopClimb) > 0)}
+                    onClick={generateLoops}
+                    data-testid="button-generate-loops"
+                  >
+                    {isGeneratingLoops ? (
+                      <>
+                        <Loader2 className="w-3 h-3 animate-spin" />
+                        Searching the trail network...
+                      </>
+                    ) : (
+                      <>
+                        <Repeat className="w-3 h-3" />
+                        Find Loops
+                      </>
+                    )}
+                  </Button>
+
+                  {loopError && (
+                    <p className="text-xs text-red-400 bg-red-500/10 rounded px-2 py-1">{loopError}</p>
+                  )}
+
+                  {loopOptions && loopOptions.map((option, i) => {
+                    const colorHex = ROUTE_COLORS[option.color] || ROUTE_COLORS.blue;
+                    return (
+                      <div key={i} className="flex items-center gap-2 rounded-md border border-white/20 bg-white/5 p-2">
+                        <div className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: colorHex }} />
+                        <div className="min-w-0 flex-1">
+                          <p className="text-xs font-semibold text-foreground">{option.label}</p>
+                          <p className="text-[10px] text-muted-foreground">{option.description}</p>
+                        </div>
+                        <Button
+                          size="sm"
+                          className="h-6 px-2 text-[10px]"
+                          style={{ backgroundColor: colorHex }}
+                          onClick={() => {
+                            applyAiRouteOption(option);
+                            setLoopOptions(null);
+                          }}
+                          data-testid={`button-use-loop-${i}`}
+                        >
+                          Use
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </div>
               </div>
             )}
           </div>
@@ -571,7 +803,7 @@ export default function RouteBuilderModal({
                       setAiPrompt("");
                       setAiResponse(null);
                       setAiRouteOptions(null);
-                      setAiConversationHistory([]);
+                      setAiConversationId(null);
                     }}
                     className="text-muted-foreground hover:text-foreground"
                   >
@@ -621,7 +853,19 @@ export default function RouteBuilderModal({
                                   )}
                                   <p className="text-[10px] text-muted-foreground/60 mt-1">
                                     {option.waypoints.length} waypoints
+                                    {option.distance !== undefined && ` · ${(option.distance / 1609.34).toFixed(1)} mi on trails`}
+                                    {option.elevationGain !== undefined && ` · +${Math.round(option.elevationGain * 3.28084).toLocaleString()} ft`}
+                                    {option.estimatedTime !== undefined && ` · ~${formatEstimatedTime(option.estimatedTime)} on this terrain`}
                                   </p>
+                                  {option.snap && option.snap.warnings.length > 0 && (
+                                    <div className="mt-1 space-y-0.5">
+                                      {option.snap.warnings.map((warning, w) => (
+                                        <p key={w} className="text-[10px] text-amber-400/80 leading-snug">
+                                          ⚠ {warning}
+                                        </p>
+                                      ))}
+                                    </div>
+                                  )}
                                 </div>
                               </div>
                               <Button
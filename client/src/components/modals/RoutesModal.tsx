@@ -4,11 +4,12 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
-import { Route as RouteIcon, Map, Clock, Ruler, Mountain, X, UserPlus, Trash2, Share2, Box, Search, Check } from 'lucide-react';
+import { Route as RouteIcon, Map, Clock, Ruler, Mountain, X, UserPlus, Trash2, Share2, Box, Search, Check, Download, FileUp } from 'lucide-react';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { Route } from '@shared/schema';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import { ImportTrackModal } from './ImportTrackModal';
 
 interface RoutesModalProps {
   isOpen: boolean;
@@ -38,6 +39,7 @@ const RoutesModal: React.FC<RoutesModalProps> = ({ isOpen, onClose, onSelectRout
   const [friendSearchQuery, setFriendSearchQuery] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
   const [activeTab, setActiveTab] = useState<'my-maps' | 'shared'>('my-maps');
+  const [importModalOpen, setImportModalOpen] = useState(false);
 
   // Fetch saved routes
   const { data: routes = [], isLoading } = useQuery<RouteWithSharing[]>({
@@ -371,6 +373,25 @@ const RoutesModal: React.FC<RoutesModalProps> = ({ isOpen, onClose, onSelectRout
             </>
           )}
         </div>
+
+        <div
+          className="mt-2 flex items-center gap-2"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <Download className="h-4 w-4 text-muted-foreground" />
+          <span className="text-xs text-muted-foreground">Export</span>
+          {(['gpx', 'kml', 'geojson'] as const).map((format) => (
+            <a
+              key={format}
+              href={`/api/routes/${route.id}/export?format=${format}`}
+              download
+              className="text-xs font-medium px-2 py-1 rounded border hover:bg-accent uppercase"
+              data-testid={`link-export-route-${format}-${route.id}`}
+            >
+              {format}
+            </a>
+          ))}
+        </div>
       </div>
     );
   };
@@ -417,6 +438,16 @@ const RoutesModal: React.FC<RoutesModalProps> = ({ isOpen, onClose, onSelectRout
             </div>
           )}
 
+          <Button
+            variant="outline"
+            onClick={() => setImportModalOpen(true)}
+            className="w-full"
+            data-testid="button-import-gps-file"
+          >
+            <FileUp className="h-4 w-4 mr-2" />
+            Import GPX / KML / FIT
+          </Button>
+
           {/* Display All Routes Button — only on My Maps tab */}
           {activeTab === 'my-maps' && myRoutes.length > 0 && onDisplayAllRoutes && (
             <Button
@@ -552,6 +583,15 @@ const RoutesModal: React.FC<RoutesModalProps> = ({ isOpen, onClose, onSelectRout
         </DialogContent>
       </Dialog>
 
+      <ImportTrackModal
+        isOpen={importModalOpen}
+        onClose={() => setImportModalOpen(false)}
+        onRouteImported={(route) => {
+          onSelectRoute(route);
+          onClose();
+        }}
+      />
+
       {/* Share Route Modal */}
       <Dialog open={shareModalOpen} onOpenChange={(open) => {
         setShareModalOpen(open);
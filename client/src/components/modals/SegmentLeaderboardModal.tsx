@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Loader2, Lock, Spline, Trash2, Trophy } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatDistance, formatDuration, formatElevation } from "@/hooks/useActivityRecording";
+import { cn } from "@/lib/utils";
+import type { SegmentDetail } from "@/lib/segments";
+
+interface SegmentLeaderboardModalProps {
+  segmentId: number | null;
+  onClose: () => void;
+}
+
+const MEDAL_COLORS = ['text-amber-400', 'text-slate-300', 'text-orange-400'];
+
+function formatDate(value: string | Date): string {
+  return new Date(value).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+export function SegmentLeaderboardModal({ segmentId, onClose }: SegmentLeaderboardModalProps) {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [tab, setTab] = useState<'leaderboard' | 'history'>('leaderboard');
+
+  const { data, isLoading, error } = useQuery<SegmentDetail>({
+    queryKey: ['/api/segments', segmentId],
+    queryFn: async () => {
+      const res = await fetch(`/api/segments/${segmentId}`, { credentials: 'include' });
+      if (!res.ok) throw new Error('Failed to fetch segment');
+      return res.json();
+    },
+    enabled: segmentId !== null,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/segments/${segmentId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/profiles"] });
+      toast({ title: "Segment deleted" });
+      onClose();
+    },
+    onError: () => {
+      toast({ title: "Delete failed", description: "Could not delete segment", variant: "destructive" });
+    },
+  });
+
+  const openActivity = (activityId: number) => {
+    onClose();
+    setLocation(`/activities/${activityId}`);
+  };
+
+  const segment = data?.segment;
+
+  return (
+    <Dialog open={segmentId !== null} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Spline className="h-5 w-5" />
+            {segment?.name ?? 'Segment'}
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error || !data || !segment ? (
+          <p className="text-sm text-muted-foreground py-4">This segment is not available.</p>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {formatDistance(parseFloat(segment.distanceMeters))}
+              {segment.elevationGainMeters !== null && ` · +${formatElevation(parseFloat(segment.elevationGainMeters))}`}
+              {segment.activityType && <span className="capitalize"> · {segment.activityType} only</span>}
+            </p>
+
+            <div className="flex rounded-lg bg-muted p-1 gap-1">
+              {([['leaderboard', 'Friends'], ['history', 'My Efforts']] as const).map(([value, label]) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setTab(value)}
+                  className={cn(
+                    'flex-1 py-1.5 rounded-md text-sm font-medium transition-colors',
+                    tab === value ? 'bg-background text-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground'
+                  )}
+                  data-testid={`button-segment-tab-${value}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            <ScrollArea className="max-h-80">
+              {tab === 'leaderboard' ? (
+                data.leaderboard.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-6">No efforts yet from you or your friends.</p>
+                ) : (
+                  <div className="divide-y divide-border">
+                    {data.leaderboard.map(entry => (
+                      <button
+                        key={entry.userId}
+                        type="button"
+                        className="w-full flex items-center gap-3 py-2 text-left hover:bg-muted/50"
+                        onClick={() => openActivity(entry.activityId)}
+                        data-testid={`row-segment-leader-${entry.userId}`}
+                      >
+                        <span className={cn('w-6 text-center font-semibold', MEDAL_COLORS[entry.rank - 1] ?? 'text-muted-foreground')}>
+                          {entry.rank}
+                        </span>
+                        <div className="flex-1 min-w-0">
+                          <div className="text-sm font-medium truncate">{entry.fullName || entry.username}</div>
+                          <div className="text-xs text-muted-foreground truncate">
+                            {formatDate(entry.startTime)} · {entry.effortCount} effort{entry.effortCount === 1 ? '' : 's'}
+                          </div>
+                        </div>
+                        <span className="font-mono text-sm">{formatDuration(entry.elapsedSeconds)}</span>
+                      </button>
+                    ))}
+                  </div>
+                )
+              ) : data.efforts.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">You have not covered this segment yet.</p>
+              ) : (
+                <div className="divide-y divide-border">
+                  {data.efforts.map(effort => (
+                    <button
+                      key={effort.id}
+                      type="button"
+                      className="w-full flex items-center gap-3 py-2 text-left hover:bg-muted/50"
+                      onClick={() => openActivity(effort.activityId)}
+                      data-testid={`row-segment-effort-${effort.id}`}
+                    >
+                      <span className="w-6 flex justify-center">
+                        {effort.personalRank === 1 ? (
+                          <Trophy className="h-4 w-4 text-amber-400" />
+                        ) : (
+                          <span className="text-xs text-muted-foreground">{effort.personalRank}</span>
+                        )}
+                      </span>
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm font-medium truncate flex items-center gap-1">
+                          {effort.activityName}
+                          {!effort.activityIsPublic && <Lock className="h-3 w-3 text-muted-foreground shrink-0" />}
+                        </div>
+                        <div className="text-xs text-muted-foreground">{formatDate(effort.startTime)}</div>
+                      </div>
+                      <span className="font-mono text-sm">{formatDuration(effort.elapsedSeconds)}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+
+            <p className="text-xs text-muted-foreground">
+              Friends' efforts show when their activity is public. Private activities count only for you.
+            </p>
+
+            {segment.isOwner && (
+              <Button
+                variant="outline"
+                className="w-full text-destructive border-destructive hover:bg-destructive/10"
+                onClick={() => {
+                  if (confirm(`Delete "${segment.name}" and everyone's efforts on it? This cannot be undone.`)) {
+                    deleteMutation.mutate();
+                  }
+                }}
+                disabled={deleteMutation.isPending}
+                data-testid="button-delete-segment"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete Segment
+              </Button>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,11 +2,13 @@ import { useState, useEffect, useRef, useCallback } from 'react';
 import { useToast } from '@/hooks/use-toast';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest, queryClient } from '@/lib/queryClient';
-import type { Activity, InsertActivity } from '@shared/schema';
+import type { Activity, InsertActivity, RecordingProfile } from '@shared/schema';
 import { useWakeLock } from '@/hooks/useWakeLock';
 import { useBackgroundResilience } from '@/hooks/useBackgroundResilience';
 import { startKeepAlive, stopKeepAlive } from '@/lib/silentAudioKeepAlive';
 import { isNative } from '@/lib/capacitor';
+import { DEFAULT_RECORDING_PROFILES, geolocationOptions, loadRecordingProfile, sampleIntervalMs } from '@/lib/recordingProfiles';
+import { playRecordingCue } from '@/lib/audioCues';
 
 export type ActivityType = 'run' | 'ski' | 'hike' | 'bike';
 
@@ -29,6 +31,13 @@ interface RecordingWaypoint {
   distanceFromStart: number;
 }
 
+// A manual lap marker; the lap runs from the previous marker (or the start) to here
+interface RecordingLap {
+  timestamp: number;
+  distanceFromStart: number;
+  elapsedTime: number;
+}
+
 interface ActivityStats {
   distance: number;
   elapsedTime: number;
@@ -52,6 +61,10 @@ interface RecordingState {
   stats: ActivityStats;
   currentPosition: { latitude: number; longitude: number } | null;
   waypoints: RecordingWaypoint[];
+  laps: RecordingLap[];
+  // Paused by the auto-pause rule rather than the pause button
+  isAutoPaused: boolean;
+  profile: RecordingProfile;
 }
 
 const initialStats: ActivityStats = {
@@ -68,9 +81,11 @@ const initialStats: ActivityStats = {
   currentAltitude: null,
 };
 
-const MIN_ACCURACY_THRESHOLD = 30;
 const MIN_DISTANCE_THRESHOLD = 3;
+// Moving-time threshold when auto-pause is off (matches server processing)
 const STATIONARY_SPEED_THRESHOLD = 0.3;
+// Without a reported speed, speed is measured over at least this long
+const AUTO_PAUSE_SPEED_WINDOW_MS = 15 * 1000;
 
 const RECORDING_STORAGE_KEY = 'sessionmaps_recording_state';
 
@@ -81,6 +96,9 @@ interface PersistedRecordingState {
   startTime: string;
   trackPoints: TrackPoint[];
   waypoints: RecordingWaypoint[];
+  laps?: RecordingLap[];
+  isAutoPaused?: boolean;
+  profile?: RecordingProfile;
   lastSaveTime: number;
 }
 
@@ -98,6 +116,9 @@ function persistRecordingState(state: RecordingState): void {
       startTime: state.startTime.toISOString(),
       trackPoints: state.trackPoints,
       waypoints: state.waypoints,
+      laps: state.laps,
+      isAutoPaused: state.isAutoPaused,
+      profile: state.profile,
       lastSaveTime: Date.now()
     };
     localStorage.setItem(RECORDING_STORAGE_KEY, JSON.stringify(persisted));
@@ -120,6 +141,9 @@ function persistRecordingState(state: RecordingState): void {
           startTime: state.startTime!.toISOString(),
           trackPoints: reducedPoints as any,
           waypoints: state.waypoints,
+          laps: state.laps,
+          isAutoPaused: state.isAutoPaused,
+          profile: state.profile,
           lastSaveTime: Date.now()
         };
         localStorage.setItem(RECORDING_STORAGE_KEY, JSON.stringify(reduced));
@@ -134,6 +158,9 @@ function persistRecordingState(state: RecordingState): void {
             startTime: state.startTime!.toISOString(),
             trackPoints: lastPoints,
             waypoints: state.waypoints,
+            laps: state.laps,
+            isAutoPaused: state.isAutoPaused,
+            profile: state.profile,
             lastSaveTime: Date.now()
           };
           localStorage.setItem(RECORDING_STORAGE_KEY, JSON.stringify(minimal));
@@ -184,6 +211,33 @@ function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: numbe
   return R * c;
 }
 
+// Steps slower than the threshold are stopped; with auto-pause, only stops
+// lasting the profile's delay come off the clock. Server processing applies
+// the same rule to the saved profile.
+function movingTimeSeconds(trackPoints: TrackPoint[], profile: RecordingProfile): number {
+  const threshold = profile.autoPause ? profile.autoPauseSpeedMps : STATIONARY_SPEED_THRESHOLD;
+  const delayMs = profile.autoPause ? profile.autoPauseDelaySeconds * 1000 : 0;
+  let movingMs = 0;
+  let stoppedMs = 0;
+
+  for (let i = 1; i < trackPoints.length; i++) {
+    const prev = trackPoints[i - 1];
+    const curr = trackPoints[i];
+    const ms = curr.timestamp - prev.timestamp;
+    if (ms <= 0) continue;
+    const dist = calculateDistance(prev.latitude, prev.longitude, curr.latitude, curr.longitude);
+    if (dist / (ms / 1000) >= threshold) {
+      if (stoppedMs < delayMs) movingMs += stoppedMs;
+      stoppedMs = 0;
+      movingMs += ms;
+    } else {
+      stoppedMs += ms;
+    }
+  }
+  if (stoppedMs < delayMs) movingMs += stoppedMs;
+  return movingMs / 1000;
+}
+
 export function useActivityRecording() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -198,6 +252,9 @@ export function useActivityRecording() {
     stats: initialStats,
     currentPosition: null,
     waypoints: [],
+    laps: [],
+    isAutoPaused: false,
+    profile: DEFAULT_RECORDING_PROFILES.hike,
   });
 
   const [hasPersistedSession, setHasPersistedSession] = useState<boolean>(false);
@@ -205,6 +262,10 @@ export function useActivityRecording() {
   const watchIdRef = useRef<number | null>(null);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
   const lastValidPointRef = useRef<TrackPoint | null>(null);
+  // Recent fixes for measuring speed when the device reports none
+  const recentFixesRef = useRef<{ latitude: number; longitude: number; timestamp: number }[]>([]);
+  // When speed first dropped below the auto-pause threshold
+  const slowSinceRef = useRef<number | null>(null);
   const stateRef = useRef(state);
   stateRef.current = state;
 
@@ -219,7 +280,7 @@ export function useActivityRecording() {
     if (state.isRecording && (state.trackPoints.length > 0 || state.waypoints.length > 0)) {
       persistRecordingState(state);
     }
-  }, [state.isRecording, state.trackPoints.length, state.waypoints.length, state.isPaused]);
+  }, [state.isRecording, state.trackPoints.length, state.waypoints.length, state.laps.length, state.isPaused]);
 
   const saveActivityMutation = useMutation({
     mutationFn: async (activity: Omit<InsertActivity, 'userId'>) => {
@@ -243,13 +304,12 @@ export function useActivityRecording() {
     },
   });
 
-  const updateStats = useCallback((trackPoints: TrackPoint[], startTime: Date | null) => {
+  const updateStats = useCallback((trackPoints: TrackPoint[], startTime: Date | null, profile: RecordingProfile) => {
     if (trackPoints.length === 0 || !startTime) {
       return initialStats;
     }
 
     let totalDistance = 0;
-    let movingTime = 0;
     let elevationGain = 0;
     let elevationLoss = 0;
     let maxSpeed = 0;
@@ -259,15 +319,7 @@ export function useActivityRecording() {
       const prev = trackPoints[i - 1];
       const curr = trackPoints[i];
 
-      const dist = calculateDistance(prev.latitude, prev.longitude, curr.latitude, curr.longitude);
-      totalDistance += dist;
-
-      const timeDiff = (curr.timestamp - prev.timestamp) / 1000;
-      const speed = dist / timeDiff;
-
-      if (speed > STATIONARY_SPEED_THRESHOLD) {
-        movingTime += timeDiff;
-      }
+      totalDistance += calculateDistance(prev.latitude, prev.longitude, curr.latitude, curr.longitude);
 
       if (curr.speed !== null && curr.speed > maxSpeed) {
         maxSpeed = curr.speed;
@@ -288,6 +340,7 @@ export function useActivityRecording() {
     }
 
     const elapsedTime = (Date.now() - startTime.getTime()) / 1000;
+    const movingTime = movingTimeSeconds(trackPoints, profile);
     const averageSpeed = movingTime > 0 ? totalDistance / movingTime : 0;
     const lastPoint = trackPoints[trackPoints.length - 1];
     const currentSpeed = lastPoint?.speed ?? 0;
@@ -312,11 +365,43 @@ export function useActivityRecording() {
   const handlePositionUpdate = useCallback(
     (position: GeolocationPosition) => {
       const { coords, timestamp } = position;
+      const current = stateRef.current;
+      const { profile } = current;
 
-      if (coords.accuracy > MIN_ACCURACY_THRESHOLD) {
+      if (coords.accuracy > profile.accuracyThresholdMeters) {
         return;
       }
 
+      // Reported (Doppler) speed when there is one, else distance over recent fixes
+      const recent = [...recentFixesRef.current, { latitude: coords.latitude, longitude: coords.longitude, timestamp }]
+        .filter(f => timestamp - f.timestamp <= AUTO_PAUSE_SPEED_WINDOW_MS * 2);
+      recentFixesRef.current = recent;
+      let speed: number | null = coords.speed !== null && Number.isFinite(coords.speed) ? coords.speed : null;
+      if (speed === null) {
+        const reference = [...recent].reverse().find(f => timestamp - f.timestamp >= AUTO_PAUSE_SPEED_WINDOW_MS);
+        if (reference) {
+          speed = calculateDistance(reference.latitude, reference.longitude, coords.latitude, coords.longitude)
+            / ((timestamp - reference.timestamp) / 1000);
+        }
+      }
+
+      let isAutoPaused = current.isAutoPaused;
+      if (current.isRecording && !current.isPaused && profile.autoPause && speed !== null) {
+        if (speed < profile.autoPauseSpeedMps) {
+          slowSinceRef.current ??= timestamp;
+          if (!isAutoPaused && timestamp - slowSinceRef.current >= profile.autoPauseDelaySeconds * 1000) {
+            isAutoPaused = true;
+            if (profile.audioCues) playRecordingCue('pause');
+          }
+        } else {
+          slowSinceRef.current = null;
+          if (isAutoPaused) {
+            isAutoPaused = false;
+            if (profile.audioCues) playRecordingCue('resume');
+          }
+        }
+      }
+
       const newPoint: TrackPoint = {
         latitude: coords.latitude,
         longitude: coords.longitude,
@@ -327,15 +412,24 @@ export function useActivityRecording() {
       };
 
       setState((prev) => {
-        if (!prev.isRecording || prev.isPaused) {
+        if (!prev.isRecording || prev.isPaused || isAutoPaused) {
           return {
             ...prev,
+            isAutoPaused: prev.isRecording && !prev.isPaused && isAutoPaused,
             currentPosition: { latitude: coords.latitude, longitude: coords.longitude },
           };
         }
 
         const lastPoint = lastValidPointRef.current;
         
+        if (lastPoint && timestamp - lastPoint.timestamp < sampleIntervalMs(prev.profile)) {
+          return {
+            ...prev,
+            isAutoPaused: false,
+            currentPosition: { latitude: coords.latitude, longitude: coords.longitude },
+          };
+        }
+
         if (lastPoint) {
           const dist = calculateDistance(
             lastPoint.latitude,
@@ -347,6 +441,7 @@ export function useActivityRecording() {
           if (dist < MIN_DISTANCE_THRESHOLD) {
             return {
               ...prev,
+              isAutoPaused: false,
               currentPosition: { latitude: coords.latitude, longitude: coords.longitude },
             };
           }
@@ -354,10 +449,11 @@ export function useActivityRecording() {
 
         lastValidPointRef.current = newPoint;
         const newTrackPoints = [...prev.trackPoints, newPoint];
-        const newStats = updateStats(newTrackPoints, prev.startTime);
+        const newStats = updateStats(newTrackPoints, prev.startTime, prev.profile);
 
         return {
           ...prev,
+          isAutoPaused: false,
           trackPoints: newTrackPoints,
           stats: newStats,
           currentPosition: { latitude: coords.latitude, longitude: coords.longitude },
@@ -391,7 +487,7 @@ export function useActivityRecording() {
     watchIdRef.current = navigator.geolocation.watchPosition(
       handlePositionUpdate,
       handlePositionError,
-      { enableHighAccuracy: true, timeout: 15000, maximumAge: 3000 }
+      geolocationOptions(stateRef.current.profile)
     );
 
     setState(prev => {
@@ -432,6 +528,7 @@ export function useActivityRecording() {
     }
 
     const startTime = new Date();
+    const profile = loadRecordingProfile(activityType);
 
     setState({
       isRecording: true,
@@ -442,20 +539,22 @@ export function useActivityRecording() {
       stats: initialStats,
       currentPosition: null,
       waypoints: [],
+      laps: [],
+      isAutoPaused: false,
+      profile,
     });
+    stateRef.current = { ...stateRef.current, profile };
 
     lastValidPointRef.current = null;
+    recentFixesRef.current = [];
+    slowSinceRef.current = null;
 
     wakeLock.request();
 
     watchIdRef.current = navigator.geolocation.watchPosition(
       handlePositionUpdate,
       handlePositionError,
-      {
-        enableHighAccuracy: true,
-        timeout: 15000,
-        maximumAge: 3000,
-      }
+      geolocationOptions(profile)
     );
 
     timerRef.current = setInterval(() => {
@@ -474,7 +573,7 @@ export function useActivityRecording() {
   }, [handlePositionUpdate, handlePositionError, toast, wakeLock]);
 
   const pauseRecording = useCallback(() => {
-    setState((prev) => ({ ...prev, isPaused: true }));
+    setState((prev) => ({ ...prev, isPaused: true, isAutoPaused: false }));
     toast({
       title: 'Recording paused',
       description: 'Tap resume to continue',
@@ -482,7 +581,8 @@ export function useActivityRecording() {
   }, [toast]);
 
   const resumeRecording = useCallback(() => {
-    setState((prev) => ({ ...prev, isPaused: false }));
+    slowSinceRef.current = null;
+    setState((prev) => ({ ...prev, isPaused: false, isAutoPaused: false }));
     toast({
       title: 'Recording resumed',
       description: 'Activity recording continued',
@@ -504,7 +604,8 @@ export function useActivityRecording() {
 
     const startTime = new Date(persisted.startTime);
     const trackPoints = persisted.trackPoints;
-    const stats = updateStats(trackPoints, startTime);
+    const profile = persisted.profile ?? loadRecordingProfile(persisted.activityType);
+    const stats = updateStats(trackPoints, startTime, profile);
 
     setState({
       isRecording: true,
@@ -517,7 +618,13 @@ export function useActivityRecording() {
         ? { latitude: trackPoints[trackPoints.length - 1].latitude, longitude: trackPoints[trackPoints.length - 1].longitude }
         : null,
       waypoints: persisted.waypoints || [],
+      laps: persisted.laps || [],
+      isAutoPaused: persisted.isAutoPaused || false,
+      profile,
     });
+    stateRef.current = { ...stateRef.current, profile };
+    recentFixesRef.current = [];
+    slowSinceRef.current = null;
 
     if (trackPoints.length > 0) {
       lastValidPointRef.current = trackPoints[trackPoints.length - 1];
@@ -531,7 +638,7 @@ export function useActivityRecording() {
       watchIdRef.current = navigator.geolocation.watchPosition(
         handlePositionUpdate,
         handlePositionError,
-        { enableHighAccuracy: true, timeout: 15000, maximumAge: 3000 }
+        geolocationOptions(profile)
       );
     }
 
@@ -583,6 +690,26 @@ export function useActivityRecording() {
     });
   }, [toast]);
 
+  const addLap = useCallback(() => {
+    const current = stateRef.current;
+    if (!current.isRecording || !current.startTime) return;
+    const previous = current.laps[current.laps.length - 1];
+    const lapTime = current.stats.elapsedTime - (previous?.elapsedTime ?? 0);
+    const lapDistance = current.stats.distance - (previous?.distanceFromStart ?? 0);
+    setState((prev) => ({
+      ...prev,
+      laps: [...prev.laps, {
+        timestamp: Date.now(),
+        distanceFromStart: prev.stats.distance,
+        elapsedTime: prev.stats.elapsedTime,
+      }],
+    }));
+    toast({
+      title: `Lap ${current.laps.length + 1}`,
+      description: `${formatDuration(lapTime)} for ${formatDistance(lapDistance)}`,
+    });
+  }, [toast]);
+
   const stopRecording = useCallback(() => {
     if (watchIdRef.current !== null) {
       navigator.geolocation.clearWatch(watchIdRef.current);
@@ -617,6 +744,9 @@ export function useActivityRecording() {
       stats: initialStats,
       currentPosition: null,
       waypoints: [],
+      laps: [],
+      isAutoPaused: false,
+      profile: DEFAULT_RECORDING_PROFILES.hike,
     });
     lastValidPointRef.current = null;
     toast({
@@ -654,6 +784,8 @@ export function useActivityRecording() {
         elevationLossMeters: currentState.stats.elevationLoss.toFixed(2),
         pathCoordinates: JSON.stringify(pathCoordinates),
         trackPoints: JSON.stringify(currentState.trackPoints),
+        lapMarkers: currentState.laps.length > 0 ? JSON.stringify(currentState.laps.map(l => l.timestamp)) : null,
+        recordingProfile: JSON.stringify(currentState.profile),
         isPublic,
       };
 
@@ -776,6 +908,9 @@ export function useActivityRecording() {
             stats: initialStats,
             currentPosition: null,
             waypoints: [],
+            laps: [],
+            isAutoPaused: false,
+            profile: DEFAULT_RECORDING_PROFILES.hike,
           });
           lastValidPointRef.current = null;
           return result as Activity;
@@ -828,6 +963,7 @@ export function useActivityRecording() {
     discardRecording,
     saveRecording,
     addWaypoint,
+    addLap,
     isSaving: saveActivityMutation.isPending,
     hasPersistedSession,
     resumeRecordingFromPersisted,
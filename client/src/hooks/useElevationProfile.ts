@@ -0,0 +1,47 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { getBatchElevations } from '@/lib/mapUtils';
+import { resamplePath, buildProfile, type PathPoint, type ProfilePoint } from '@/lib/elevationProfile';
+
+// Short, stable cache key for a sampled path (djb2)
+function hashSamples(samples: { point: PathPoint }[]): string {
+  let hash = 5381;
+  for (const { point } of samples) {
+    const text = `${point.lng.toFixed(5)},${point.lat.toFixed(5)};`;
+    for (let i = 0; i < text.length; i++) {
+      hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+    }
+  }
+  return `${samples.length}:${hash >>> 0}`;
+}
+
+/**
+ * Profile for a path. Recorded elevations are used when every sample has
+ * one; otherwise the samples go through the batch elevation proxy, which
+ * prefers uploaded drone DEMs over the global dataset.
+ */
+export function useElevationProfile(path: PathPoint[]): { profile: ProfilePoint[]; isLoading: boolean } {
+  const samples = useMemo(() => resamplePath(path), [path]);
+  const needsLookup = samples.some(s => s.point.elevation === null);
+  const key = useMemo(() => hashSamples(samples), [samples]);
+
+  const { data: lookedUp, isLoading } = useQuery<number[]>({
+    queryKey: ['elevation-profile', key],
+    queryFn: () => getBatchElevations(samples.map(s => [s.point.lng, s.point.lat] as [number, number])),
+    enabled: needsLookup && samples.length > 0,
+    staleTime: Infinity,
+  });
+
+  const profile = useMemo(() => {
+    if (samples.length === 0 || (needsLookup && !lookedUp)) return [];
+    return buildProfile(samples.map((s, i) => ({
+      distance: s.distance,
+      lng: s.point.lng,
+      lat: s.point.lat,
+      // Don't mix sources: GPS altitude and DEM heights can sit tens of metres apart
+      elevation: needsLookup ? (lookedUp?.[i] ?? 0) : s.point.elevation!,
+    })));
+  }, [samples, needsLookup, lookedUp]);
+
+  return { profile, isLoading: needsLookup && isLoading };
+}
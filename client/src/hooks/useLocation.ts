@@ -21,7 +21,7 @@ interface SharedLocation {
   location: {
     latitude: number;
     longitude: number;
-    altitude?: number;
+    altitude?: number | null;
   };
 }
 
@@ -37,31 +37,24 @@ export const useLocation = () => {
   // Connect to location sharing websocket
   useEffect(() => {
     if (user?.id) {
-      const { socket, disconnect } = setupWebsocket(user.id);
+      const { client, disconnect } = setupWebsocket(user.id);
       
-      socket.onmessage = (event) => {
-        try {
-          const data = JSON.parse(event.data);
-          
-          if (data.type === 'location') {
-            // Add shared location to the list
-            setSharedLocations(prev => {
-              const filtered = prev.filter(loc => loc.userId !== data.userId);
-              return [...filtered, { userId: data.userId, location: data.location }];
-            });
-            
-            toast({
-              title: 'Location Shared',
-              description: `User ${data.userId} shared their location`,
-              variant: 'default',
-            });
-          }
-        } catch (error) {
-          console.error('Error parsing websocket message:', error);
-        }
-      };
+      const unsubscribe = client.on('location', (data) => {
+        // Add shared location to the list
+        setSharedLocations(prev => {
+          const filtered = prev.filter(loc => loc.userId !== data.userId);
+          return [...filtered, { userId: data.userId, location: data.location }];
+        });
+        
+        toast({
+          title: 'Location Shared',
+          description: `User ${data.userId} shared their location`,
+          variant: 'default',
+        });
+      });
       
       return () => {
+        unsubscribe();
         disconnect();
       };
     }
@@ -4,7 +4,8 @@ import 'mapbox-gl/dist/mapbox-gl.css';
 import { DroneImage, MapDrawing } from '@shared/schema';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { escapeHtml } from '@/lib/escapeHtml';
-import { addUserLocationToMap, UserLocation, DEFAULT_MAP_SETTINGS, addTetonCountyImagery, removeTetonCountyImagery, addTetonCountyParcels, removeTetonCountyParcels, switchToTetonCountyView, MAP_STYLES, switchToEnhancedMapboxSatellite, switchToEsriImagery, addEsriWorldImagery, removeEsriWorldImagery, addTopoContourLines, removeTopoContourLines, addTrailOverlay, removeTrailOverlay, addBaseTrailLinesAndLabels, addTrailGroup, removeTrailGroup, TrailOverlayType, TrailGroupType, TRAIL_OVERLAY_CONFIG, TRAIL_GROUP_CONFIG, getElevation, findFirstSymbolOrCircleLayerId } from '@/lib/mapUtils';
+import { registerOfflineServiceWorker } from '@/lib/offlineTiles';
+import { addUserLocationToMap, UserLocation, DEFAULT_MAP_SETTINGS, addTetonCountyImagery, removeTetonCountyImagery, addTetonCountyParcels, removeTetonCountyParcels, switchToTetonCountyView, MAP_STYLES, switchToEnhancedMapboxSatellite, switchToEsriImagery, addEsriWorldImagery, removeEsriWorldImagery, addTopoContourLines, removeTopoContourLines, addTrailOverlay, removeTrailOverlay, addBaseTrailLinesAndLabels, addTrailGroup, removeTrailGroup, TrailOverlayType, TrailGroupType, TRAIL_OVERLAY_CONFIG, TRAIL_GROUP_CONFIG, getElevation, findFirstSymbolOrCircleLayerId, droneTileUrlTemplate, addTerrainAnalysisLayer, removeTerrainAnalysisLayer, TERRAIN_ANALYSIS_LAYERS, TerrainAnalysisLayer } from '@/lib/mapUtils';
 
 // Set mapbox access token
 const mapboxToken = import.meta.env.VITE_MAPBOX_ACCESS_TOKEN;
@@ -12,7 +13,7 @@ mapboxgl.accessToken = mapboxToken || '';
 
 if (!mapboxgl.accessToken) {
   console.error('Mapbox access token is missing. Please check VITE_MAPBOX_ACCESS_TOKEN environment variable.');
-} else {
+} else if (navigator.onLine) {
   // Test token validity
   fetch(`https://api.mapbox.com/styles/v1/mapbox/streets-v11?access_token=${mapboxgl.accessToken}`)
     .then(response => {
@@ -39,6 +40,7 @@ export const useMapbox = (mapContainerRef: RefObject<HTMLDivElement>) => {
   const [isDroneImageryLoading, setIsDroneImageryLoading] = useState(false);
   const [userLocation, setUserLocation] = useState<UserLocation | null>(null);
   const watchPositionId = useRef<number | null>(null);
+  const [isOffline, setIsOffline] = useState(!navigator.onLine);
   
   // Drone imagery adjustment state
   const [isDroneAdjustmentMode, setIsDroneAdjustmentMode] = useState(false);
@@ -1494,6 +1496,20 @@ export const useMapbox = (mapContainerRef: RefObject<HTMLDivElement>) => {
     };
   }, [isOfflineSelectionMode, isDrawingOfflineArea]);
 
+  // Tiles from downloaded offline packs are answered by the service worker,
+  // so it has to be controlling the page before the map starts requesting them
+  useEffect(() => {
+    registerOfflineServiceWorker();
+    const handleOnline = () => setIsOffline(false);
+    const handleOffline = () => setIsOffline(true);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
   // Initialize map
   const initializeMap = () => {
     if (mapRef.current || !mapContainerRef.current) return;
@@ -1625,11 +1641,13 @@ export const useMapbox = (mapContainerRef: RefObject<HTMLDivElement>) => {
     
     // Update active layers
     let newActiveLayers = [...activeLayers];
+    // Slope overlays sit on top of whichever base imagery is active
+    const terrainLayers = activeLayers.filter(layer => TERRAIN_ANALYSIS_LAYERS.includes(layer as TerrainAnalysisLayer));
     
     if (layerType === 'esri-hd') {
       // High-resolution Esri World Imagery 3D
       removeTetonCountyImagery(map);
-      newActiveLayers = ['esri-hd'];
+      newActiveLayers = ['esri-hd', ...terrainLayers];
       
       // Disable marker mode when switching to 3D
       if (isMarkerMode) {
@@ -1661,7 +1679,7 @@ export const useMapbox = (mapContainerRef: RefObject<HTMLDivElement>) => {
     } else if (layerType === 'esri-2d') {
       // 2D Esri World Imagery (flat, no terrain)
       removeTetonCountyImagery(map);
-      newActiveLayers = ['esri-2d'];
+      newActiveLayers = ['esri-2d', ...terrainLayers];
       
       // Disable marker mode when switching to 2D
       if (isMarkerMode) {
@@ -1698,9 +1716,18 @@ export const useMapbox = (mapContainerRef: RefObject<HTMLDivElement>) => {
         }
         newActiveLayers.push('topo');
       }
+    } else if (TERRAIN_ANALYSIS_LAYERS.includes(layerType as TerrainAnalysisLayer)) {
+      // Slope-angle / aspect shading for avalanche terrain
+      if (newActiveLayers.includes(layerType)) {
+        removeTerrainAnalysisLayer(map, layerType as TerrainAnalysisLayer);
+        newActiveLayers = newActiveLayers.filter(layer => layer !== layerType);
+      } else {
+        addTerrainAnalysisLayer(map, layerType as TerrainAnalysisLayer);
+        newActiveLayers.push(layerType);
+      }
     } else if (layerType === 'drone') {
       // Handle drone imagery layer
-      newActiveLayers = ['drone'];
+      newActiveLayers = ['drone', ...terrainLayers];
       
       // Disable marker mode when switching to drone
       if (isMarkerMode) {
@@ -1818,6 +1845,9 @@ export const useMapbox = (mapContainerRef: RefObject<HTMLDivElement>) => {
         addTrailOverlay(map, trailType);
       });
       addBaseTrailLinesAndLabels(map);
+      newActiveLayers
+        .filter((layer): layer is TerrainAnalysisLayer => TERRAIN_ANALYSIS_LAYERS.includes(layer as TerrainAnalysisLayer))
+        .forEach(layer => addTerrainAnalysisLayer(map, layer));
       
       if (userLocation) {
         if (map.hasImage('pulsing-dot')) {
@@ -2270,7 +2300,7 @@ export const useMapbox = (mapContainerRef: RefObject<HTMLDivElement>) => {
 
       map.addSource(layerId, {
         'type': 'raster',
-        'tiles': [`/api/drone-images/${droneImage.id}/tiles/{z}/{x}/{y}.png`],
+        'tiles': [droneTileUrlTemplate(droneImage)],
         'tileSize': 512,
         'bounds': [swLng, swLat, neLng, neLat],
         'minzoom': tileMinZoom,
@@ -4039,6 +4069,7 @@ export const useMapbox = (mapContainerRef: RefObject<HTMLDivElement>) => {
   return {
     initializeMap,
     isMapReady,
+    isOffline,
     map: mapRef.current,
     toggleLayer,
     activeLayers,
@@ -0,0 +1,40 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  OfflinePack,
+  subscribeToOfflinePacks,
+  getOfflineStorageEstimate,
+  createOfflinePack,
+  pauseOfflinePack,
+  resumeOfflinePack,
+  deleteOfflinePack,
+} from '@/lib/offlineTiles';
+
+export function useOfflinePacks() {
+  const [packs, setPacks] = useState<OfflinePack[]>([]);
+  const [storage, setStorage] = useState<{ usage: number; quota: number } | null>(null);
+
+  const refreshStorage = useCallback(() => {
+    getOfflineStorageEstimate().then(setStorage).catch(() => setStorage(null));
+  }, []);
+
+  useEffect(() => {
+    refreshStorage();
+    return subscribeToOfflinePacks((next) => {
+      setPacks(next);
+      // Usage only changes meaningfully when a download stops or a pack is removed
+      if (!next.some(p => p.status === 'downloading')) refreshStorage();
+    });
+  }, [refreshStorage]);
+
+  const activePack = packs.find(p => p.status === 'downloading') ?? null;
+
+  return {
+    packs,
+    activePack,
+    storage,
+    createPack: createOfflinePack,
+    pausePack: pauseOfflinePack,
+    resumePack: resumeOfflinePack,
+    deletePack: deleteOfflinePack,
+  };
+}
@@ -0,0 +1,42 @@
+let audioContext: AudioContext | null = null;
+
+// Falling tones for a pause, rising for a resume
+const CUE_TONES: Record<'pause' | 'resume', number[]> = {
+  pause: [880, 587],
+  resume: [587, 880],
+};
+
+const TONE_SECONDS = 0.15;
+
+/**
+ * Play a short two-tone cue and buzz the phone, so a runner can tell the
+ * recording paused or resumed without looking at the screen.
+ */
+export function playRecordingCue(kind: 'pause' | 'resume'): void {
+  try {
+    if (!audioContext) {
+      audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    }
+    if (audioContext.state === 'suspended') {
+      // Browsers refuse until the page has had a user gesture; the cue is just skipped
+      audioContext.resume().catch(() => {});
+    }
+
+    CUE_TONES[kind].forEach((frequency, i) => {
+      const start = audioContext!.currentTime + i * TONE_SECONDS;
+      const oscillator = audioContext!.createOscillator();
+      const gain = audioContext!.createGain();
+      oscillator.frequency.setValueAtTime(frequency, start);
+      gain.gain.setValueAtTime(0.2, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + TONE_SECONDS);
+      oscillator.connect(gain);
+      gain.connect(audioContext!.destination);
+      oscillator.start(start);
+      oscillator.stop(start + TONE_SECONDS);
+    });
+  } catch (error) {
+    console.warn('[AudioCues] Failed to play cue:', error);
+  }
+
+  navigator.vibrate?.(kind === 'pause' ? [100, 50, 100] : 200);
+}
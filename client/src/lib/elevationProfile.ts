@@ -0,0 +1,159 @@
+import { calculateDistance } from '@/lib/mapUtils';
+
+// Elevation-vs-distance profiles for routes, activities and live GPS tracks.
+// Paths are resampled at an even spacing so grades are comparable along the
+// whole line and a long recording doesn't turn into thousands of lookups.
+
+export interface PathPoint {
+  lng: number;
+  lat: number;
+  elevation: number | null;
+}
+
+export interface ProfilePoint {
+  distance: number; // meters from the start
+  elevation: number; // meters
+  grade: number; // percent, positive uphill
+  lng: number;
+  lat: number;
+}
+
+export interface ProfileStats {
+  distance: number;
+  gain: number;
+  loss: number;
+  avgGrade: number;
+  maxGrade: number;
+}
+
+const MAX_SAMPLES = 400;
+const MIN_SPACING_METERS = 5;
+// Grades are measured over at least this much distance to keep GPS and DEM noise out
+const GRADE_WINDOW_METERS = 40;
+
+// Upper bound (percent, absolute) -> color. 58% is a 30 degree slope.
+export const GRADE_BANDS: { max: number; color: string; label: string }[] = [
+  { max: 5, color: '#22c55e', label: '< 5%' },
+  { max: 10, color: '#eab308', label: '5–10%' },
+  { max: 15, color: '#f97316', label: '10–15%' },
+  { max: 25, color: '#ef4444', label: '15–25%' },
+  { max: 58, color: '#b91c1c', label: '25–58%' },
+  { max: Infinity, color: '#a855f7', label: '30°+' },
+];
+
+export function gradeColor(grade: number): string {
+  const abs = Math.abs(grade);
+  return (GRADE_BANDS.find(band => abs < band.max) ?? GRADE_BANDS[GRADE_BANDS.length - 1]).color;
+}
+
+function toPathPoint(coord: any): PathPoint | null {
+  if (Array.isArray(coord)) {
+    const [lng, lat, elevation] = coord;
+    if (typeof lng !== 'number' || typeof lat !== 'number') return null;
+    // Live tracks store [lng, lat, timestamp]; only small third values are elevations
+    const hasElevation = typeof elevation === 'number' && Math.abs(elevation) < 10000;
+    return { lng, lat, elevation: hasElevation ? elevation : null };
+  }
+  if (coord && typeof coord === 'object') {
+    const lng = coord.lng ?? coord.longitude;
+    const lat = coord.lat ?? coord.latitude;
+    if (typeof lng !== 'number' || typeof lat !== 'number') return null;
+    const elevation = coord.elevation ?? coord.altitude ?? coord.ele ?? null;
+    return { lng, lat, elevation: typeof elevation === 'number' ? elevation : null };
+  }
+  return null;
+}
+
+// Accepts the stored path formats: [lng, lat(, ele)] arrays, {lat, lng} objects
+// and activity track points ({latitude, longitude, altitude})
+export function parsePathCoordinates(raw: string | null | undefined): PathPoint[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.map(toPathPoint).filter((p): p is PathPoint => p !== null);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Evenly spaced points along the path. Elevation is interpolated where the
+ * source has it and left null otherwise, for the caller to look up.
+ */
+export function resamplePath(points: PathPoint[], maxSamples = MAX_SAMPLES): { distance: number; point: PathPoint }[] {
+  if (points.length < 2) return [];
+
+  const cumulative = [0];
+  for (let i = 1; i < points.length; i++) {
+    cumulative.push(cumulative[i - 1] + calculateDistance(points[i - 1].lat, points[i - 1].lng, points[i].lat, points[i].lng));
+  }
+  const total = cumulative[cumulative.length - 1];
+  if (total === 0) return [];
+
+  const spacing = Math.max(total / (maxSamples - 1), MIN_SPACING_METERS);
+  const samples: { distance: number; point: PathPoint }[] = [];
+  let segment = 1;
+
+  for (let d = 0; d <= total + 1e-6; d += spacing) {
+    while (segment < points.length - 1 && cumulative[segment] < d) segment++;
+    const a = points[segment - 1];
+    const b = points[segment];
+    const span = cumulative[segment] - cumulative[segment - 1];
+    const t = span > 0 ? Math.min(Math.max((d - cumulative[segment - 1]) / span, 0), 1) : 0;
+    const elevation = a.elevation !== null && b.elevation !== null
+      ? a.elevation + (b.elevation - a.elevation) * t
+      : (t < 0.5 ? a.elevation : b.elevation);
+    samples.push({
+      distance: d,
+      point: { lng: a.lng + (b.lng - a.lng) * t, lat: a.lat + (b.lat - a.lat) * t, elevation },
+    });
+  }
+
+  const last = points[points.length - 1];
+  if (total - samples[samples.length - 1].distance > spacing / 2) {
+    samples.push({ distance: total, point: last });
+  }
+  return samples;
+}
+
+// Turn resampled points with elevations into profile points with smoothed grades
+export function buildProfile(samples: { distance: number; lng: number; lat: number; elevation: number }[]): ProfilePoint[] {
+  if (samples.length < 2) return [];
+  const spacing = samples[samples.length - 1].distance / (samples.length - 1);
+  const halfWindow = Math.max(1, Math.round(GRADE_WINDOW_METERS / 2 / spacing));
+
+  return samples.map((s, i) => {
+    const from = samples[Math.max(0, i - halfWindow)];
+    const to = samples[Math.min(samples.length - 1, i + halfWindow)];
+    const run = to.distance - from.distance;
+    const grade = run > 0 ? ((to.elevation - from.elevation) / run) * 100 : 0;
+    return { distance: s.distance, elevation: s.elevation, grade, lng: s.lng, lat: s.lat };
+  });
+}
+
+export function profileStats(profile: ProfilePoint[], startIndex = 0, endIndex = profile.length - 1): ProfileStats {
+  const start = Math.max(0, Math.min(startIndex, endIndex));
+  const end = Math.min(profile.length - 1, Math.max(startIndex, endIndex));
+  let gain = 0;
+  let loss = 0;
+  let maxGrade = 0;
+
+  for (let i = start + 1; i <= end; i++) {
+    const diff = profile[i].elevation - profile[i - 1].elevation;
+    if (diff > 0) gain += diff;
+    else loss -= diff;
+  }
+  for (let i = start; i <= end; i++) {
+    if (Math.abs(profile[i].grade) > Math.abs(maxGrade)) maxGrade = profile[i].grade;
+  }
+
+  const distance = end > start ? profile[end].distance - profile[start].distance : 0;
+  const avgGrade = distance > 0 ? ((profile[end].elevation - profile[start].elevation) / distance) * 100 : 0;
+  return { distance, gain, loss, avgGrade, maxGrade };
+}
+
+// Degrees of slope for a grade in percent, for ski-touring readouts
+export function gradeToDegrees(grade: number): number {
+  return Math.atan(Math.abs(grade) / 100) * 180 / Math.PI;
+}
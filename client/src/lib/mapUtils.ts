@@ -189,6 +189,14 @@ export function calculateDroneImageryBounds(droneImage: DroneImage): LngLatBound
   );
 }
 
+// Tile URL template for tiled drone imagery. COG-backed images are rendered
+// on request, so ask for WebP to keep the payload small; pyramid tiles are
+// stored as PNG and served as-is.
+export function droneTileUrlTemplate(droneImage: Pick<DroneImage, 'id' | 'tileMode'>, origin = ''): string {
+  const ext = droneImage.tileMode === 'cog' ? 'webp' : 'png';
+  return `${origin}/api/drone-images/${droneImage.id}/tiles/{z}/{x}/{y}.${ext}`;
+}
+
 // Find the first symbol or circle layer in the map style.
 // Used to insert raster layers (like drone imagery) below all text labels,
 // POI markers, and the GPS location dot.
@@ -1366,3 +1374,398 @@ export function removeTopoContourLines(map: mapboxgl.Map): void {
     console.error('Error removing topographic layers:', error);
   }
 }
+
+// Slope-angle and aspect shading rendered server-side from global DEM tiles
+export type TerrainAnalysisLayer = 'slope-angle' | 'slope-aspect';
+
+export const TERRAIN_ANALYSIS_LAYERS: TerrainAnalysisLayer[] = ['slope-angle', 'slope-aspect'];
+
+export const SLOPE_ANGLE_LEGEND: { label: string; color: string }[] = [
+  { label: '27–30°', color: '#FACC15' },
+  { label: '30–35°', color: '#F97316' },
+  { label: '35–45°', color: '#DC2626' },
+  { label: '45°+', color: '#7C3AED' },
+];
+
+export const SLOPE_ASPECT_LEGEND: { label: string; color: string }[] = [
+  { label: 'N', color: '#2563EB' },
+  { label: 'NE', color: '#0EA5E9' },
+  { label: 'E', color: '#10B981' },
+  { label: 'SE', color: '#84CC16' },
+  { label: 'S', color: '#FACC15' },
+  { label: 'SW', color: '#F97316' },
+  { label: 'W', color: '#EF4444' },
+  { label: 'NW', color: '#A855F7' },
+];
+
+export function addTerrainAnalysisLayer(map: mapboxgl.Map, layer: TerrainAnalysisLayer): void {
+  const layerId = `terrain-${layer}`;
+
+  const addLayers = () => {
+    if (map.getLayer(layerId)) {
+      return;
+    }
+
+    try {
+      map.addSource(layerId, {
+        type: 'raster',
+        tiles: [`/api/terrain/${layer === 'slope-angle' ? 'slope' : 'aspect'}/{z}/{x}/{y}.png`],
+        tileSize: 256,
+        // Below z10 a pixel spans too much ground for slopes to mean anything; past z15 Mapbox overzooms
+        minzoom: 10,
+        maxzoom: 15
+      });
+      map.addLayer({
+        id: layerId,
+        type: 'raster',
+        source: layerId,
+        minzoom: 10,
+        paint: {
+          'raster-opacity': layer === 'slope-angle' ? 0.55 : 0.45,
+          'raster-resampling': 'nearest'
+        }
+      }, findFirstSymbolOrCircleLayerId(map));
+    } catch (error) {
+      console.error(`Failed to add ${layer} layer:`, error);
+    }
+  };
+
+  if (map.isStyleLoaded()) {
+    addLayers();
+  } else {
+    map.once('idle', addLayers);
+  }
+}
+
+export function removeTerrainAnalysisLayer(map: mapboxgl.Map, layer: TerrainAnalysisLayer): void {
+  const layerId = `terrain-${layer}`;
+  try {
+    if (map.getLayer(layerId)) {
+      map.removeLayer(layerId);
+    }
+    if (map.getSource(layerId)) {
+      map.removeSource(layerId);
+    }
+  } catch (error) {
+    console.error(`Error removing ${layer} layer:`, error);
+  }
+}
+
+// Route stretches flagged by the avalanche terrain check
+const SLOPE_WARNING_ID = 'route-slope-warnings';
+
+export function setSlopeWarningSegments(map: mapboxgl.Map, segments: [number, number][][] | null): void {
+  try {
+    const source = map.getSource(SLOPE_WARNING_ID) as mapboxgl.GeoJSONSource | undefined;
+    const data: GeoJSON.FeatureCollection = {
+      type: 'FeatureCollection',
+      features: (segments || []).map(coordinates => coordinates.length >= 2
+        ? { type: 'Feature', properties: {}, geometry: { type: 'LineString', coordinates } }
+        : { type: 'Feature', properties: {}, geometry: { type: 'Point', coordinates: coordinates[0] } })
+    };
+    if (source) {
+      source.setData(data);
+      return;
+    }
+    if (!segments || segments.length === 0 || !map.isStyleLoaded()) return;
+    map.addSource(SLOPE_WARNING_ID, { type: 'geojson', data });
+    map.addLayer({
+      id: SLOPE_WARNING_ID,
+      type: 'line',
+      source: SLOPE_WARNING_ID,
+      filter: ['==', ['geometry-type'], 'LineString'],
+      layout: { 'line-join': 'round', 'line-cap': 'round' },
+      paint: {
+        'line-color': '#DC2626',
+        'line-width': 7,
+        'line-opacity': 0.85,
+        'line-dasharray': [1, 1]
+      }
+    });
+    map.addLayer({
+      id: `${SLOPE_WARNING_ID}-points`,
+      type: 'circle',
+      source: SLOPE_WARNING_ID,
+      filter: ['==', ['geometry-type'], 'Point'],
+      paint: {
+        'circle-radius': 5,
+        'circle-color': '#DC2626',
+        'circle-stroke-color': '#ffffff',
+        'circle-stroke-width': 1.5
+      }
+    });
+  } catch (error) {
+    console.error('Error updating slope warnings:', error);
+  }
+}
+
+// Live map geofence areas; "leave" areas are outlined amber and "enter" areas red
+const GEOFENCE_AREAS_ID = 'geofence-areas';
+const GEOFENCE_DRAFT_ID = 'geofence-draft';
+
+export interface GeofenceArea {
+  id: number;
+  name: string;
+  ruleType: string;
+  isActive: boolean;
+  ring: [number, number][];
+}
+
+export function setGeofenceAreas(map: mapboxgl.Map, areas: GeofenceArea[]): void {
+  try {
+    const source = map.getSource(GEOFENCE_AREAS_ID) as mapboxgl.GeoJSONSource | undefined;
+    const data: GeoJSON.FeatureCollection = {
+      type: 'FeatureCollection',
+      features: areas.filter(area => area.ring.length >= 3).map(area => ({
+        type: 'Feature',
+        properties: { id: area.id, name: area.name, ruleType: area.ruleType, isActive: area.isActive },
+        geometry: { type: 'Polygon', coordinates: [[...area.ring, area.ring[0]]] }
+      }))
+    };
+    if (source) {
+      source.setData(data);
+      return;
+    }
+    if (data.features.length === 0 || !map.isStyleLoaded()) return;
+    const color: mapboxgl.Expression = ['match', ['get', 'ruleType'], 'enter_area', '#DC2626', '#F59E0B'];
+    map.addSource(GEOFENCE_AREAS_ID, { type: 'geojson', data });
+    map.addLayer({
+      id: `${GEOFENCE_AREAS_ID}-fill`,
+      type: 'fill',
+      source: GEOFENCE_AREAS_ID,
+      paint: {
+        'fill-color': color,
+        'fill-opacity': ['case', ['get', 'isActive'], 0.12, 0.04]
+      }
+    });
+    map.addLayer({
+      id: `${GEOFENCE_AREAS_ID}-line`,
+      type: 'line',
+      source: GEOFENCE_AREAS_ID,
+      layout: { 'line-join': 'round' },
+      paint: {
+        'line-color': color,
+        'line-width': 2.5,
+        'line-opacity': ['case', ['get', 'isActive'], 0.9, 0.4],
+        'line-dasharray': [2, 1.5]
+      }
+    });
+  } catch (error) {
+    console.error('Error updating geofence areas:', error);
+  }
+}
+
+// Outline of an area while it is being drawn; pass an empty list to clear it
+export function setGeofenceDraft(map: mapboxgl.Map, points: [number, number][]): void {
+  try {
+    const source = map.getSource(GEOFENCE_DRAFT_ID) as mapboxgl.GeoJSONSource | undefined;
+    const features: GeoJSON.Feature[] = points.map(coordinates => ({
+      type: 'Feature', properties: {}, geometry: { type: 'Point', coordinates }
+    }));
+    if (points.length >= 2) {
+      features.push({
+        type: 'Feature',
+        properties: {},
+        geometry: { type: 'LineString', coordinates: points.length >= 3 ? [...points, points[0]] : points }
+      });
+    }
+    const data: GeoJSON.FeatureCollection = { type: 'FeatureCollection', features };
+    if (source) {
+      source.setData(data);
+      return;
+    }
+    if (points.length === 0 || !map.isStyleLoaded()) return;
+    map.addSource(GEOFENCE_DRAFT_ID, { type: 'geojson', data });
+    map.addLayer({
+      id: `${GEOFENCE_DRAFT_ID}-line`,
+      type: 'line',
+      source: GEOFENCE_DRAFT_ID,
+      filter: ['==', ['geometry-type'], 'LineString'],
+      paint: { 'line-color': '#F59E0B', 'line-width': 3 }
+    });
+    map.addLayer({
+      id: `${GEOFENCE_DRAFT_ID}-points`,
+      type: 'circle',
+      source: GEOFENCE_DRAFT_ID,
+      filter: ['==', ['geometry-type'], 'Point'],
+      paint: {
+        'circle-radius': 5,
+        'circle-color': '#F59E0B',
+        'circle-stroke-color': '#ffffff',
+        'circle-stroke-width': 1.5
+      }
+    });
+  } catch (error) {
+    console.error('Error updating geofence outline:', error);
+  }
+}
+
+// Marker and highlight mirroring the cursor and selection on an elevation profile chart
+const PROFILE_HOVER_ID = 'elevation-profile-hover';
+const PROFILE_SELECTION_ID = 'elevation-profile-selection';
+
+export function setElevationProfileHover(map: mapboxgl.Map, point: [number, number] | null): void {
+  try {
+    const source = map.getSource(PROFILE_HOVER_ID) as mapboxgl.GeoJSONSource | undefined;
+    const data: GeoJSON.FeatureCollection = {
+      type: 'FeatureCollection',
+      features: point ? [{ type: 'Feature', properties: {}, geometry: { type: 'Point', coordinates: point } }] : []
+    };
+    if (source) {
+      source.setData(data);
+      return;
+    }
+    if (!point || !map.isStyleLoaded()) return;
+    map.addSource(PROFILE_HOVER_ID, { type: 'geojson', data });
+    map.addLayer({
+      id: PROFILE_HOVER_ID,
+      type: 'circle',
+      source: PROFILE_HOVER_ID,
+      paint: {
+        'circle-radius': 7,
+        'circle-color': '#ffffff',
+        'circle-stroke-color': '#111827',
+        'circle-stroke-width': 3
+      }
+    });
+  } catch (error) {
+    console.error('Error updating elevation profile marker:', error);
+  }
+}
+
+export function setElevationProfileSelection(map: mapboxgl.Map, coordinates: [number, number][] | null): void {
+  try {
+    const source = map.getSource(PROFILE_SELECTION_ID) as mapboxgl.GeoJSONSource | undefined;
+    const data: GeoJSON.FeatureCollection = {
+      type: 'FeatureCollection',
+      features: coordinates && coordinates.length >= 2
+        ? [{ type: 'Feature', properties: {}, geometry: { type: 'LineString', coordinates } }]
+        : []
+    };
+    if (source) {
+      source.setData(data);
+      return;
+    }
+    if (!coordinates || !map.isStyleLoaded()) return;
+    map.addSource(PROFILE_SELECTION_ID, { type: 'geojson', data });
+    map.addLayer({
+      id: PROFILE_SELECTION_ID,
+      type: 'line',
+      source: PROFILE_SELECTION_ID,
+      layout: { 'line-join': 'round', 'line-cap': 'round' },
+      paint: {
+        'line-color': '#ffffff',
+        'line-width': 8,
+        'line-opacity': 0.6
+      }
+    }, map.getLayer(PROFILE_HOVER_ID) ? PROFILE_HOVER_ID : undefined);
+  } catch (error) {
+    console.error('Error updating elevation profile selection:', error);
+  }
+}
+
+export type DroneElevationLayer = 'hillshade' | 'contours';
+
+type DroneElevationImage = Pick<DroneImage, 'id' | 'southWestLng' | 'southWestLat' | 'northEastLng' | 'northEastLat' | 'tileMinZoom' | 'tileMaxZoom' | 'contourInterval'>;
+
+// Hillshade and contour overlays generated from drone DEM/DSM uploads. The
+// color relief itself is served as the image's regular drone tile layer.
+export function addDroneElevationLayer(map: mapboxgl.Map, droneImage: DroneElevationImage, layer: DroneElevationLayer): void {
+  const layerId = `drone-${layer}-${droneImage.id}`;
+
+  const addLayers = () => {
+    if (map.getLayer(layerId)) {
+      return;
+    }
+
+    try {
+      const beforeId = findFirstSymbolOrCircleLayerId(map);
+
+      if (layer === 'hillshade') {
+        map.addSource(layerId, {
+          type: 'raster',
+          tiles: [`/api/drone-images/${droneImage.id}/hillshade/{z}/{x}/{y}.webp`],
+          tileSize: 512,
+          bounds: [
+            parseFloat(droneImage.southWestLng), parseFloat(droneImage.southWestLat),
+            parseFloat(droneImage.northEastLng), parseFloat(droneImage.northEastLat)
+          ],
+          minzoom: droneImage.tileMinZoom || 8,
+          maxzoom: droneImage.tileMaxZoom || 24
+        });
+        map.addLayer({
+          id: layerId,
+          type: 'raster',
+          source: layerId,
+          paint: { 'raster-opacity': 0.55 }
+        }, beforeId);
+        return;
+      }
+
+      const interval = parseFloat(droneImage.contourInterval || '') || 1;
+      map.addSource(layerId, {
+        type: 'geojson',
+        data: `/api/drone-images/${droneImage.id}/contours`
+      });
+      map.addLayer({
+        id: layerId,
+        type: 'line',
+        source: layerId,
+        paint: {
+          'line-color': '#F5C46B',
+          'line-width': [
+            'case',
+            ['==', ['%', ['round', ['/', ['get', 'elevation'], interval]], 5], 0], 1.6,
+            0.8
+          ],
+          'line-opacity': 0.9
+        }
+      });
+      // Label every fifth (index) contour, in feet like the Mapbox topo layer
+      map.addLayer({
+        id: `${layerId}-labels`,
+        type: 'symbol',
+        source: layerId,
+        minzoom: 14,
+        filter: ['==', ['%', ['round', ['/', ['get', 'elevation'], interval]], 5], 0],
+        layout: {
+          'text-field': ['concat', ['round', ['*', ['get', 'elevation'], 3.28084]], ' ft'],
+          'text-font': ['Open Sans Semibold', 'Arial Unicode MS Bold'],
+          'text-size': ['interpolate', ['linear'], ['zoom'], 14, 10, 18, 13],
+          'symbol-placement': 'line',
+          'text-rotation-alignment': 'map'
+        },
+        paint: {
+          'text-color': '#F5C46B',
+          'text-halo-color': 'rgba(0, 0, 0, 0.7)',
+          'text-halo-width': 1.5
+        }
+      });
+    } catch (error) {
+      console.error(`Failed to add drone ${layer} layer:`, error);
+    }
+  };
+
+  if (map.isStyleLoaded()) {
+    addLayers();
+  } else {
+    map.once('idle', addLayers);
+  }
+}
+
+export function removeDroneElevationLayer(map: mapboxgl.Map, imageId: number, layer: DroneElevationLayer): void {
+  const layerId = `drone-${layer}-${imageId}`;
+  try {
+    if (map.getLayer(`${layerId}-labels`)) {
+      map.removeLayer(`${layerId}-labels`);
+    }
+    if (map.getLayer(layerId)) {
+      map.removeLayer(layerId);
+    }
+    if (map.getSource(layerId)) {
+      map.removeSource(layerId);
+    }
+  } catch (error) {
+    console.error(`Error removing drone ${layer} layer:`, error);
+  }
+}
@@ -0,0 +1,660 @@
+import mapboxgl from 'mapbox-gl';
+import type { DroneImage } from '@shared/schema';
+import { apiRequest } from '@/lib/queryClient';
+import { droneTileUrlTemplate } from '@/lib/mapUtils';
+
+// Offline map packs.
+//
+// Tiles are fetched here (in the page) and written to Cache Storage under a
+// normalized key; public/sw.js answers map tile requests from the same cache.
+// Pack metadata and the per-tile index (which packs reference which tile, and
+// its size) live in IndexedDB so downloads can be resumed and deleted without
+// orphaning shared tiles.
+//
+// offlineTileKey() MUST stay in sync with the copy in client/public/sw.js.
+
+export const OFFLINE_TILE_CACHE = 'session-maps-offline-tiles';
+const DB_NAME = 'session-maps-offline';
+const DB_VERSION = 1;
+const PACK_STORE = 'packs';
+const TILE_STORE = 'tiles';
+
+const DOWNLOAD_CONCURRENCY = 6;
+export const MAX_TILES_PER_PACK = 25000;
+const PERSIST_INTERVAL_MS = 2000;
+const PROGRESS_INTERVAL_MS = 250;
+
+export type OfflineTileCategory = 'basemap' | 'terrain' | 'trails' | 'drone';
+
+export const OFFLINE_CATEGORY_LABELS: Record<OfflineTileCategory, string> = {
+  basemap: 'Base Map',
+  terrain: 'Terrain',
+  trails: 'Trail Overlays',
+  drone: 'Drone Imagery',
+};
+
+// Rough per-tile sizes used only for the pre-download estimate
+const ESTIMATED_TILE_BYTES = {
+  raster256: 18 * 1024,
+  raster512: 55 * 1024,
+  vector: 35 * 1024,
+  dem: 80 * 1024,
+  drone: 150 * 1024,
+  trails: 4 * 1024,
+};
+
+export interface OfflineBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface OfflineTileSource {
+  id: string;
+  category: OfflineTileCategory;
+  label: string;
+  urlTemplate: string;
+  tileSize: number;
+  minzoom: number;
+  maxzoom: number;
+  kind: keyof typeof ESTIMATED_TILE_BYTES;
+  bounds?: [number, number, number, number]; // [west, south, east, north]
+  scheme?: 'xyz' | 'tms';
+}
+
+export type OfflinePackStatus = 'queued' | 'downloading' | 'paused' | 'complete' | 'error';
+
+export interface OfflinePack {
+  id: string;
+  name: string;
+  bounds: OfflineBounds;
+  minZoom: number;
+  maxZoom: number;
+  sources: OfflineTileSource[];
+  includesDroneData: boolean;
+  status: OfflinePackStatus;
+  totalTiles: number;
+  downloadedTiles: number;
+  failedTiles: number;
+  bytes: number;
+  error: string | null;
+  serverAreaId: number | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface TileRecord {
+  key: string;
+  bytes: number;
+  packIds: string[];
+}
+
+export interface OfflineEstimate {
+  totalTiles: number;
+  estimatedBytes: number;
+  byCategory: Record<OfflineTileCategory, { tiles: number; bytes: number }>;
+}
+
+// ========================================
+// Tile keys
+// ========================================
+
+// Collapse the URL variants a tile can be requested under (token, sku,
+// subdomain, @2x, webp/jpg) into one cache key. Returns null for anything
+// that is not a cacheable map tile.
+export function offlineTileKey(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url, window.location.origin);
+  } catch {
+    return null;
+  }
+
+  if (parsed.hostname.endsWith('mapbox.com')) {
+    const match = parsed.pathname.match(/\/(?:v4|raster\/v1)\/([^/]+)\/(\d+)\/(\d+)\/(\d+)(?:@2x)?\.([a-z0-9.]+)$/i);
+    if (!match) return null;
+    const [, tileset, z, x, y, ext] = match;
+    const type = /vector|mvt|pbf/.test(ext) ? 'pbf' : 'img';
+    return `https://offline-tiles.local/mapbox/${tileset}/${z}/${x}/${y}.${type}`;
+  }
+  if (parsed.hostname === 'server.arcgisonline.com' && /\/tile\/\d+\/\d+\/\d+$/.test(parsed.pathname)) {
+    return `${parsed.origin}${parsed.pathname}`;
+  }
+  if (parsed.hostname.endsWith('waymarkedtrails.org')) {
+    return `${parsed.origin}${parsed.pathname}`;
+  }
+  if (parsed.origin === window.location.origin && /^\/api\/drone-images\/\d+\/tiles\/\d+\/\d+\/\d+\.(png|webp|jpg)$/.test(parsed.pathname)) {
+    return `${parsed.origin}${parsed.pathname}`;
+  }
+  return null;
+}
+
+// ========================================
+// Tile math
+// ========================================
+
+function lngToTileX(lng: number, z: number): number {
+  return Math.floor(((lng + 180) / 360) * Math.pow(2, z));
+}
+
+function latToTileY(lat: number, z: number): number {
+  const clamped = Math.max(-85.0511, Math.min(85.0511, lat));
+  const rad = (clamped * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * Math.pow(2, z));
+}
+
+// Mapbox zoom levels are defined on 512px tiles, so 256px sources are
+// requested one level deeper than the map zoom
+function sourceZoomRange(source: OfflineTileSource, minZoom: number, maxZoom: number): [number, number] {
+  const offset = source.tileSize === 256 ? 1 : 0;
+  const from = Math.max(source.minzoom, Math.floor(minZoom) + offset);
+  const to = Math.min(source.maxzoom, Math.floor(maxZoom) + offset);
+  return [from, to];
+}
+
+function intersectBounds(bounds: OfflineBounds, sourceBounds?: [number, number, number, number]): OfflineBounds | null {
+  if (!sourceBounds) return bounds;
+  const [west, south, east, north] = sourceBounds;
+  const result = {
+    west: Math.max(bounds.west, west),
+    south: Math.max(bounds.south, south),
+    east: Math.min(bounds.east, east),
+    north: Math.min(bounds.north, north),
+  };
+  return result.west < result.east && result.south < result.north ? result : null;
+}
+
+function countSourceTiles(source: OfflineTileSource, bounds: OfflineBounds, minZoom: number, maxZoom: number): number {
+  const area = intersectBounds(bounds, source.bounds);
+  if (!area) return 0;
+  const [from, to] = sourceZoomRange(source, minZoom, maxZoom);
+  let count = 0;
+  for (let z = from; z <= to; z++) {
+    const xs = lngToTileX(area.east, z) - lngToTileX(area.west, z) + 1;
+    const ys = latToTileY(area.south, z) - latToTileY(area.north, z) + 1;
+    count += xs * ys;
+  }
+  return count;
+}
+
+function* enumerateSourceTiles(source: OfflineTileSource, bounds: OfflineBounds, minZoom: number, maxZoom: number): Generator<string> {
+  const area = intersectBounds(bounds, source.bounds);
+  if (!area) return;
+  const [from, to] = sourceZoomRange(source, minZoom, maxZoom);
+  for (let z = from; z <= to; z++) {
+    const minX = lngToTileX(area.west, z);
+    const maxX = lngToTileX(area.east, z);
+    const minY = latToTileY(area.north, z);
+    const maxY = latToTileY(area.south, z);
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        const tileY = source.scheme === 'tms' ? Math.pow(2, z) - 1 - y : y;
+        yield source.urlTemplate
+          .replace('{z}', String(z))
+          .replace('{x}', String(x))
+          .replace('{y}', String(tileY));
+      }
+    }
+  }
+}
+
+export function estimateOfflinePack(sources: OfflineTileSource[], bounds: OfflineBounds, minZoom: number, maxZoom: number): OfflineEstimate {
+  const byCategory = {
+    basemap: { tiles: 0, bytes: 0 },
+    terrain: { tiles: 0, bytes: 0 },
+    trails: { tiles: 0, bytes: 0 },
+    drone: { tiles: 0, bytes: 0 },
+  };
+  for (const source of sources) {
+    const tiles = countSourceTiles(source, bounds, minZoom, maxZoom);
+    byCategory[source.category].tiles += tiles;
+    byCategory[source.category].bytes += tiles * ESTIMATED_TILE_BYTES[source.kind];
+  }
+  const values = Object.values(byCategory);
+  return {
+    totalTiles: values.reduce((sum, c) => sum + c.tiles, 0),
+    estimatedBytes: values.reduce((sum, c) => sum + c.bytes, 0),
+    byCategory,
+  };
+}
+
+// ========================================
+// Source discovery
+// ========================================
+
+function mapboxTileTemplate(tilesetUrl: string, type: string): string {
+  const tileset = tilesetUrl.replace('mapbox://', '');
+  const token = mapboxgl.accessToken;
+  if (type === 'vector') {
+    return `https://api.mapbox.com/v4/${tileset}/{z}/{x}/{y}.vector.pbf?access_token=${token}`;
+  }
+  const ratio = window.devicePixelRatio > 1 && type === 'raster' ? '@2x' : '';
+  return `https://api.mapbox.com/v4/${tileset}/{z}/{x}/{y}${ratio}.webp?access_token=${token}`;
+}
+
+function classifySource(id: string, type: string, url: string): OfflineTileCategory {
+  if (type === 'raster-dem' || url.includes('terrain')) return 'terrain';
+  if (id.startsWith('waymarked-trails-') || url.includes('waymarkedtrails.org')) return 'trails';
+  if (id.startsWith('drone-imagery-') || url.includes('/api/drone-images/')) return 'drone';
+  return 'basemap';
+}
+
+function droneTileSource(image: DroneImage): OfflineTileSource {
+  return {
+    id: `drone-imagery-${image.id}`,
+    category: 'drone',
+    label: image.name,
+    urlTemplate: droneTileUrlTemplate(image, window.location.origin),
+    tileSize: 512,
+    minzoom: image.tileMinZoom || 8,
+    maxzoom: image.tileMaxZoom || 22,
+    kind: 'drone',
+    bounds: [
+      parseFloat(image.southWestLng),
+      parseFloat(image.southWestLat),
+      parseFloat(image.northEastLng),
+      parseFloat(image.northEastLat),
+    ],
+  };
+}
+
+// Collect every tiled source the current map style renders (base map,
+// terrain DEM, contours, trail overlays, visible drone layers), plus tiled
+// drone imagery inside the bounds that is not currently on the map.
+export function collectOfflineSources(map: mapboxgl.Map, bounds: OfflineBounds, droneImages: DroneImage[] = []): OfflineTileSource[] {
+  const style = map.getStyle();
+  const sources: OfflineTileSource[] = [];
+
+  for (const [id, spec] of Object.entries(style?.sources || {})) {
+    const def = spec as any;
+    if (def.type !== 'raster' && def.type !== 'vector' && def.type !== 'raster-dem') continue;
+    const live = map.getSource(id) as any;
+    const category = classifySource(id, def.type, def.url || (def.tiles || [])[0] || '');
+
+    let urlTemplate: string | null = null;
+    if (Array.isArray(def.tiles) && def.tiles.length > 0) {
+      urlTemplate = new URL(def.tiles[0], window.location.origin).href;
+    } else if (typeof def.url === 'string' && def.url.startsWith('mapbox://')) {
+      urlTemplate = mapboxTileTemplate(def.url, def.type);
+    }
+    if (!urlTemplate || !offlineTileKey(urlTemplate.replace('{z}', '0').replace('{x}', '0').replace('{y}', '0'))) continue;
+
+    const tileSize = live?.tileSize ?? def.tileSize ?? (def.type === 'vector' ? 512 : 256);
+    sources.push({
+      id,
+      category,
+      label: id,
+      urlTemplate,
+      tileSize,
+      minzoom: live?.minzoom ?? def.minzoom ?? 0,
+      maxzoom: live?.maxzoom ?? def.maxzoom ?? (def.type === 'vector' ? 16 : 22),
+      kind: def.type === 'vector' ? 'vector'
+        : def.type === 'raster-dem' ? 'dem'
+        : category === 'drone' ? 'drone'
+        : category === 'trails' ? 'trails'
+        : tileSize >= 512 || urlTemplate.includes('@2x') ? 'raster512' : 'raster256',
+      bounds: def.bounds,
+      scheme: def.scheme,
+    });
+  }
+
+  for (const image of droneImages) {
+    if (!image.hasTiles || sources.some(s => s.id === `drone-imagery-${image.id}`)) continue;
+    const source = droneTileSource(image);
+    if (intersectBounds(bounds, source.bounds)) sources.push(source);
+  }
+
+  return sources;
+}
+
+// ========================================
+// IndexedDB
+// ========================================
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PACK_STORE)) db.createObjectStore(PACK_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(TILE_STORE)) db.createObjectStore(TILE_STORE, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(storeName: string, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = fn(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+const getTileRecord = (key: string) => withStore<TileRecord | undefined>(TILE_STORE, 'readonly', s => s.get(key));
+const putTileRecord = (record: TileRecord) => withStore(TILE_STORE, 'readwrite', s => s.put(record));
+const putPackRecord = (pack: OfflinePack) => withStore(PACK_STORE, 'readwrite', s => s.put(pack));
+
+async function getAllTileRecords(): Promise<TileRecord[]> {
+  return withStore<TileRecord[]>(TILE_STORE, 'readonly', s => s.getAll());
+}
+
+// ========================================
+// Pack state + listeners
+// ========================================
+
+const packs = new Map<string, OfflinePack>();
+let packsLoaded: Promise<void> | null = null;
+const listeners = new Set<(packs: OfflinePack[]) => void>();
+const queue: string[] = [];
+let active: { packId: string; controller: AbortController } | null = null;
+let lastEmit = 0;
+
+function emit(force = false) {
+  const now = Date.now();
+  if (!force && now - lastEmit < PROGRESS_INTERVAL_MS) return;
+  lastEmit = now;
+  const snapshot = getOfflinePacks();
+  listeners.forEach(listener => listener(snapshot));
+}
+
+function loadPacks(): Promise<void> {
+  if (!packsLoaded) {
+    packsLoaded = withStore<OfflinePack[]>(PACK_STORE, 'readonly', s => s.getAll())
+      .then(records => {
+        for (const pack of records) {
+          // A download that was running when the page closed can be resumed
+          if (pack.status === 'downloading' || pack.status === 'queued') pack.status = 'paused';
+          packs.set(pack.id, pack);
+        }
+        emit(true);
+      })
+      .catch(error => {
+        console.error('Failed to load offline packs:', error);
+      });
+  }
+  return packsLoaded;
+}
+
+export function getOfflinePacks(): OfflinePack[] {
+  return Array.from(packs.values())
+    .map(pack => ({ ...pack }))
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export function subscribeToOfflinePacks(listener: (packs: OfflinePack[]) => void): () => void {
+  listeners.add(listener);
+  loadPacks().then(() => listener(getOfflinePacks()));
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function isOfflineStorageSupported(): boolean {
+  return typeof indexedDB !== 'undefined' && typeof caches !== 'undefined' && 'serviceWorker' in navigator;
+}
+
+export async function getOfflineStorageEstimate(): Promise<{ usage: number; quota: number } | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
+
+// ========================================
+// Download
+// ========================================
+
+function* enumeratePackTiles(pack: OfflinePack): Generator<string> {
+  for (const source of pack.sources) {
+    const tiles = enumerateSourceTiles(source, pack.bounds, pack.minZoom, pack.maxZoom);
+    for (let next = tiles.next(); !next.done; next = tiles.next()) {
+      yield next.value;
+    }
+  }
+}
+
+async function persistPack(pack: OfflinePack) {
+  pack.updatedAt = Date.now();
+  await putPackRecord(pack);
+}
+
+async function registerServerArea(pack: OfflinePack) {
+  if (pack.serverAreaId) return;
+  try {
+    const res = await apiRequest('POST', '/api/offline-maps', {
+      name: pack.name,
+      northEastLat: String(pack.bounds.north),
+      northEastLng: String(pack.bounds.east),
+      southWestLat: String(pack.bounds.south),
+      southWestLng: String(pack.bounds.west),
+      includesDroneData: pack.includesDroneData,
+      sizeInMB: Math.max(1, Math.ceil(pack.bytes / (1024 * 1024))),
+      minZoom: pack.minZoom,
+      maxZoom: pack.maxZoom,
+      tileCount: pack.downloadedTiles,
+    });
+    const area = await res.json();
+    pack.serverAreaId = area.id ?? null;
+  } catch (error) {
+    // The local pack is usable without the server record
+    console.warn('Failed to record offline area on server:', error);
+  }
+}
+
+async function downloadTile(url: string, pack: OfflinePack, cache: Cache, signal: AbortSignal) {
+  const key = offlineTileKey(url);
+  if (!key) return;
+
+  const existing = await getTileRecord(key);
+  if (existing) {
+    if (!existing.packIds.includes(pack.id)) {
+      existing.packIds.push(pack.id);
+      await putTileRecord(existing);
+    }
+    pack.downloadedTiles++;
+    pack.bytes += existing.bytes;
+    return;
+  }
+
+  try {
+    const response = await fetch(url, { signal, credentials: url.startsWith(window.location.origin) ? 'include' : 'omit' });
+    if (response.status === 404 || response.status === 204) {
+      // No data at this tile (e.g. trail overlays outside coverage), nothing to store
+      pack.downloadedTiles++;
+      return;
+    }
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+    const blob = await response.blob();
+    if (signal.aborted) return;
+    await cache.put(key, new Response(blob, {
+      headers: { 'Content-Type': response.headers.get('Content-Type') || 'application/octet-stream' },
+    }));
+    await putTileRecord({ key, bytes: blob.size, packIds: [pack.id] });
+    pack.downloadedTiles++;
+    pack.bytes += blob.size;
+  } catch (error) {
+    if (signal.aborted) throw error;
+    pack.failedTiles++;
+  }
+}
+
+async function runPackDownload(pack: OfflinePack, signal: AbortSignal) {
+  const cache = await caches.open(OFFLINE_TILE_CACHE);
+
+  // Counts are rebuilt on every run; tiles already stored for this pack are
+  // found in the tile index and skipped without refetching
+  pack.downloadedTiles = 0;
+  pack.failedTiles = 0;
+  pack.bytes = 0;
+  pack.error = null;
+  pack.status = 'downloading';
+  await persistPack(pack);
+  emit(true);
+
+  const tiles = enumeratePackTiles(pack);
+  let lastPersist = Date.now();
+
+  const worker = async () => {
+    while (!signal.aborted) {
+      const next = tiles.next();
+      if (next.done) return;
+      await downloadTile(next.value, pack, cache, signal);
+      emit();
+      if (Date.now() - lastPersist > PERSIST_INTERVAL_MS) {
+        lastPersist = Date.now();
+        await persistPack(pack);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: DOWNLOAD_CONCURRENCY }, worker));
+}
+
+async function processQueue() {
+  if (active) return;
+  const packId = queue.shift();
+  if (!packId) return;
+  const pack = packs.get(packId);
+  if (!pack) return processQueue();
+
+  const controller = new AbortController();
+  active = { packId, controller };
+
+  try {
+    await runPackDownload(pack, controller.signal);
+    if (controller.signal.aborted) {
+      pack.status = 'paused';
+    } else {
+      pack.status = pack.failedTiles > 0 ? 'error' : 'complete';
+      pack.error = pack.failedTiles > 0 ? `${pack.failedTiles} tiles failed to download` : null;
+      if (pack.status === 'complete') await registerServerArea(pack);
+    }
+  } catch (error) {
+    if (controller.signal.aborted) {
+      pack.status = 'paused';
+    } else {
+      console.error('Offline pack download failed:', error);
+      pack.status = 'error';
+      pack.error = error instanceof Error ? error.message : 'Download failed';
+    }
+  } finally {
+    active = null;
+    if (packs.has(pack.id)) await persistPack(pack);
+    emit(true);
+    processQueue();
+  }
+}
+
+export async function createOfflinePack(options: {
+  name: string;
+  bounds: OfflineBounds;
+  minZoom: number;
+  maxZoom: number;
+  sources: OfflineTileSource[];
+  includesDroneData: boolean;
+}): Promise<OfflinePack> {
+  await loadPacks();
+  const estimate = estimateOfflinePack(options.sources, options.bounds, options.minZoom, options.maxZoom);
+  if (estimate.totalTiles === 0) {
+    throw new Error('No tiles to download for this area');
+  }
+  if (estimate.totalTiles > MAX_TILES_PER_PACK) {
+    throw new Error(`Area is too large (${estimate.totalTiles.toLocaleString()} tiles). Lower the max zoom or select a smaller area.`);
+  }
+
+  const now = Date.now();
+  const pack: OfflinePack = {
+    id: crypto.randomUUID(),
+    ...options,
+    status: 'queued',
+    totalTiles: estimate.totalTiles,
+    downloadedTiles: 0,
+    failedTiles: 0,
+    bytes: 0,
+    error: null,
+    serverAreaId: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  packs.set(pack.id, pack);
+  await persistPack(pack);
+  queue.push(pack.id);
+  emit(true);
+  processQueue();
+  return pack;
+}
+
+export async function resumeOfflinePack(packId: string) {
+  await loadPacks();
+  const pack = packs.get(packId);
+  if (!pack || pack.status === 'downloading' || queue.includes(packId)) return;
+  pack.status = 'queued';
+  queue.push(packId);
+  emit(true);
+  processQueue();
+}
+
+export function pauseOfflinePack(packId: string) {
+  const queued = queue.indexOf(packId);
+  if (queued !== -1) {
+    queue.splice(queued, 1);
+    const pack = packs.get(packId);
+    if (pack) pack.status = 'paused';
+    emit(true);
+  }
+  if (active?.packId === packId) active.controller.abort();
+}
+
+export async function deleteOfflinePack(packId: string) {
+  await loadPacks();
+  pauseOfflinePack(packId);
+  const pack = packs.get(packId);
+  packs.delete(packId);
+
+  // Drop this pack's claim on each tile; tiles no other pack uses are evicted
+  const cache = await caches.open(OFFLINE_TILE_CACHE);
+  for (const record of await getAllTileRecords()) {
+    if (!record.packIds.includes(packId)) continue;
+    record.packIds = record.packIds.filter(id => id !== packId);
+    if (record.packIds.length === 0) {
+      await cache.delete(record.key);
+      await withStore(TILE_STORE, 'readwrite', s => s.delete(record.key));
+    } else {
+      await putTileRecord(record);
+    }
+  }
+  await withStore(PACK_STORE, 'readwrite', s => s.delete(packId));
+
+  if (pack?.serverAreaId) {
+    apiRequest('DELETE', `/api/offline-maps/${pack.serverAreaId}`).catch(error => {
+      console.warn('Failed to delete offline area on server:', error);
+    });
+  }
+  emit(true);
+}
+
+// ========================================
+// Service worker
+// ========================================
+
+// The same worker also handles push; registering it twice is a no-op
+export async function registerOfflineServiceWorker(): Promise<void> {
+  if (!('serviceWorker' in navigator)) return;
+  try {
+    await navigator.serviceWorker.register('/sw.js');
+  } catch (error) {
+    console.warn('Service worker registration failed:', error);
+  }
+}
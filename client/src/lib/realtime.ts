@@ -0,0 +1,266 @@
+import {
+  PROTOCOL_VERSION,
+  UNSUPPORTED_VERSION_CLOSE_CODE,
+  clientMessageSchema,
+  serverMessageSchema,
+  type ClientMessage,
+  type ServerMessage,
+  type ServerMessageOf,
+  type ServerMessageType,
+} from '@shared/realtime';
+
+/**
+ * Typed client for the /ws endpoint. Every frame is checked against the
+ * shared protocol in both directions, handlers subscribe per event type, and
+ * the connection re-authenticates and rejoins its live session after each
+ * reconnect.
+ */
+
+export type RealtimeStatus = 'connecting' | 'open' | 'closed' | 'unsupported';
+
+export interface RealtimeClientOptions {
+  // Stop reconnecting while the tab is hidden and reconnect as soon as it is visible again
+  pauseWhenHidden?: boolean;
+}
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+export type OutgoingMessage = DistributiveOmit<ClientMessage, 'id'>;
+
+export interface RealtimeClient {
+  readonly status: RealtimeStatus;
+  connect(): void;
+  /** Reconnect now if the socket is not open, skipping any pending backoff. */
+  reconnect(): void;
+  disconnect(): void;
+  /** Send without confirmation. Returns false when the socket is not open or the message is invalid. */
+  send(message: OutgoingMessage): boolean;
+  /** Send and wait for the server's ack; rejects with the server's error message. */
+  request(message: OutgoingMessage, timeoutMs?: number): Promise<void>;
+  on<T extends ServerMessageType>(type: T, handler: (message: ServerMessageOf<T>) => void): () => void;
+  onStatusChange(handler: (status: RealtimeStatus, retryInMs?: number) => void): () => void;
+  /** Join a live session now and again after every reconnect. */
+  joinSession(sessionId: number): Promise<void>;
+  leaveSession(): void;
+}
+
+const REQUEST_TIMEOUT_MS = 10000;
+const PING_INTERVAL_MS = 30000;
+const MAX_RETRY_MS = 30000;
+
+export function createRealtimeClient(options: RealtimeClientOptions = {}): RealtimeClient {
+  const listeners = new Map<ServerMessageType, Set<(message: any) => void>>();
+  const statusListeners = new Set<(status: RealtimeStatus, retryInMs?: number) => void>();
+  const pending = new Map<string, { resolve: () => void; reject: (err: Error) => void; timer: ReturnType<typeof setTimeout> }>();
+
+  let socket: WebSocket | null = null;
+  let status: RealtimeStatus = 'closed';
+  let stopped = true;
+  let sessionId: number | null = null;
+  let attempts = 0;
+  let nextRequestId = 1;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let pingTimer: ReturnType<typeof setInterval> | null = null;
+
+  const setStatus = (next: RealtimeStatus, retryInMs?: number) => {
+    status = next;
+    statusListeners.forEach(handler => handler(next, retryInMs));
+  };
+
+  const failPending = (reason: string) => {
+    pending.forEach(({ reject, timer }) => {
+      clearTimeout(timer);
+      reject(new Error(reason));
+    });
+    pending.clear();
+  };
+
+  const clearTimers = () => {
+    if (retryTimer) clearTimeout(retryTimer);
+    if (pingTimer) clearInterval(pingTimer);
+    retryTimer = null;
+    pingTimer = null;
+  };
+
+  const write = (message: ClientMessage): boolean => {
+    if (!socket || socket.readyState !== WebSocket.OPEN) return false;
+    const result = clientMessageSchema.safeParse(message);
+    if (!result.success) {
+      console.error(`[Realtime] Not sending invalid '${message.type}' message:`, result.error.issues[0]?.message);
+      return false;
+    }
+    socket.send(JSON.stringify(message));
+    return true;
+  };
+
+  const request = (message: OutgoingMessage, timeoutMs = REQUEST_TIMEOUT_MS): Promise<void> => {
+    const id = String(nextRequestId++);
+    return new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        pending.delete(id);
+        reject(new Error(`No reply to '${message.type}' within ${timeoutMs / 1000}s`));
+      }, timeoutMs);
+      pending.set(id, { resolve, reject, timer });
+      if (!write({ ...message, id } as ClientMessage)) {
+        clearTimeout(timer);
+        pending.delete(id);
+        reject(new Error('Not connected'));
+      }
+    });
+  };
+
+  const dispatch = (raw: string) => {
+    let json: unknown;
+    try {
+      json = JSON.parse(raw);
+    } catch {
+      console.warn('[Realtime] Ignoring non-JSON frame');
+      return;
+    }
+    const result = serverMessageSchema.safeParse(json);
+    if (!result.success) {
+      console.warn(`[Realtime] Ignoring invalid '${(json as any)?.type}' message:`, result.error.issues[0]?.message);
+      return;
+    }
+
+    const message: ServerMessage = result.data;
+    if ((message.type === 'ack' || message.type === 'error') && message.id) {
+      const waiting = pending.get(message.id);
+      if (waiting) {
+        pending.delete(message.id);
+        clearTimeout(waiting.timer);
+        if (message.type === 'ack') waiting.resolve();
+        else waiting.reject(new Error(message.message));
+      }
+    }
+    listeners.get(message.type)?.forEach(handler => handler(message));
+  };
+
+  const scheduleRetry = () => {
+    if (stopped || retryTimer) return;
+    if (options.pauseWhenHidden && document.visibilityState === 'hidden') {
+      setStatus('closed');
+      return;
+    }
+    const delay = Math.min(1000 * Math.pow(2, attempts), MAX_RETRY_MS);
+    attempts++;
+    setStatus('closed', delay);
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      open();
+    }, delay);
+  };
+
+  const open = () => {
+    if (stopped) return;
+    if (socket && (socket.readyState === WebSocket.OPEN || socket.readyState === WebSocket.CONNECTING)) return;
+
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    const ws = new WebSocket(`${protocol}//${window.location.host}/ws`);
+    socket = ws;
+    setStatus('connecting');
+
+    ws.onopen = () => {
+      attempts = 0;
+      request({ type: 'auth', version: PROTOCOL_VERSION }).catch(err => console.error('[Realtime] Handshake failed:', err.message));
+      if (sessionId !== null) {
+        request({ type: 'session:join', sessionId }).catch(err => console.error('[Realtime] Rejoin failed:', err.message));
+      }
+      pingTimer = setInterval(() => write({ type: 'ping' }), PING_INTERVAL_MS);
+      setStatus('open');
+    };
+
+    ws.onmessage = (event) => dispatch(event.data);
+
+    ws.onerror = () => {
+      console.error('[Realtime] WebSocket error');
+    };
+
+    ws.onclose = (event) => {
+      if (socket !== ws) return;
+      socket = null;
+      if (pingTimer) clearInterval(pingTimer);
+      pingTimer = null;
+      failPending('Connection closed');
+
+      if (event.code === UNSUPPORTED_VERSION_CLOSE_CODE) {
+        // A newer server that no longer speaks our version; reloading picks up the matching client
+        stopped = true;
+        setStatus('unsupported');
+        return;
+      }
+      scheduleRetry();
+    };
+  };
+
+  const onVisibilityChange = () => {
+    if (document.visibilityState === 'visible' && !stopped) {
+      attempts = 0;
+      reconnect();
+    }
+  };
+
+  const reconnect = () => {
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    open();
+  };
+
+  return {
+    get status() {
+      return status;
+    },
+
+    connect() {
+      if (!stopped) return;
+      stopped = false;
+      document.addEventListener('visibilitychange', onVisibilityChange);
+      open();
+    },
+
+    reconnect,
+
+    disconnect() {
+      stopped = true;
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      clearTimers();
+      failPending('Disconnected');
+      const ws = socket;
+      socket = null;
+      if (ws && (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING)) {
+        ws.close();
+      }
+      setStatus('closed');
+    },
+
+    send: (message: OutgoingMessage) => write(message as ClientMessage),
+
+    request,
+
+    on(type, handler) {
+      if (!listeners.has(type)) listeners.set(type, new Set());
+      listeners.get(type)!.add(handler);
+      return () => {
+        listeners.get(type)?.delete(handler);
+      };
+    },
+
+    onStatusChange(handler) {
+      statusListeners.add(handler);
+      return () => {
+        statusListeners.delete(handler);
+      };
+    },
+
+    joinSession(nextSessionId: number) {
+      sessionId = nextSessionId;
+      if (status !== 'open') return Promise.resolve();
+      return request({ type: 'session:join', sessionId: nextSessionId });
+    },
+
+    leaveSession() {
+      if (sessionId === null) return;
+      sessionId = null;
+      write({ type: 'session:leave' });
+    },
+  };
+}
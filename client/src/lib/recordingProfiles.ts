@@ -0,0 +1,69 @@
+import { recordingProfileSchema, type RecordingProfile } from '@shared/schema';
+import type { ActivityType } from '@/hooks/useActivityRecording';
+
+/**
+ * Recording settings per activity type, kept on this device: GPS sampling
+ * and accuracy, auto-pause, battery saver and audio cues. A copy of the
+ * profile in use is saved with each activity so the server computes moving
+ * time with the same auto-pause rule.
+ */
+
+const PROFILES_STORAGE_KEY = 'sessionmaps_recording_profiles';
+
+// Battery saver never samples faster than this
+const BATTERY_SAVER_MIN_INTERVAL_SECONDS = 5;
+
+export const DEFAULT_RECORDING_PROFILES: Record<ActivityType, RecordingProfile> = {
+  // Runners stop at crossings; a few seconds standing still is a stop
+  run: { sampleIntervalSeconds: 1, accuracyThresholdMeters: 30, autoPause: true, autoPauseSpeedMps: 0.5, autoPauseDelaySeconds: 5, batterySaver: false, audioCues: true },
+  // Hikers amble on steep ground and stop often for a moment
+  hike: { sampleIntervalSeconds: 2, accuracyThresholdMeters: 30, autoPause: true, autoPauseSpeedMps: 0.3, autoPauseDelaySeconds: 30, batterySaver: false, audioCues: false },
+  // Rolling slower than walking pace is waiting at a light
+  bike: { sampleIntervalSeconds: 1, accuracyThresholdMeters: 30, autoPause: true, autoPauseSpeedMps: 1.5, autoPauseDelaySeconds: 3, batterySaver: false, audioCues: true },
+  // Skin transitions and lift queues shuffle around without going anywhere
+  ski: { sampleIntervalSeconds: 2, accuracyThresholdMeters: 40, autoPause: true, autoPauseSpeedMps: 0.4, autoPauseDelaySeconds: 20, batterySaver: false, audioCues: true },
+};
+
+function loadStoredProfiles(): Partial<Record<ActivityType, unknown>> {
+  try {
+    const raw = localStorage.getItem(PROFILES_STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function loadRecordingProfile(activityType: ActivityType): RecordingProfile {
+  const stored = recordingProfileSchema.safeParse(loadStoredProfiles()[activityType]);
+  return stored.success ? stored.data : DEFAULT_RECORDING_PROFILES[activityType];
+}
+
+export function saveRecordingProfile(activityType: ActivityType, profile: RecordingProfile): void {
+  const profiles = loadStoredProfiles();
+  profiles[activityType] = profile;
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+}
+
+export function resetRecordingProfile(activityType: ActivityType): RecordingProfile {
+  const profiles = loadStoredProfiles();
+  delete profiles[activityType];
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+  return DEFAULT_RECORDING_PROFILES[activityType];
+}
+
+/** Minimum time between stored fixes, in ms. */
+export function sampleIntervalMs(profile: RecordingProfile): number {
+  const seconds = profile.batterySaver
+    ? Math.max(profile.sampleIntervalSeconds, BATTERY_SAVER_MIN_INTERVAL_SECONDS)
+    : profile.sampleIntervalSeconds;
+  return seconds * 1000;
+}
+
+/** watchPosition options for a profile; battery saver drops to coarse fixes. */
+export function geolocationOptions(profile: RecordingProfile): PositionOptions {
+  return {
+    enableHighAccuracy: !profile.batterySaver,
+    timeout: 15000,
+    maximumAge: profile.batterySaver ? sampleIntervalMs(profile) : 3000,
+  };
+}
@@ -0,0 +1,67 @@
+import type { Segment, SegmentEffort } from '@shared/schema';
+
+// Response shapes of the segment endpoints (server/routes/segments.ts)
+
+export type SegmentEffortDetail = SegmentEffort & {
+  username: string;
+  fullName: string | null;
+  activityName: string;
+  activityIsPublic: boolean;
+};
+
+// GET /api/activities/:id/segments
+export interface ActivitySegmentEffort {
+  effort: SegmentEffortDetail;
+  segment: Segment;
+  personalRank: number;
+  personalEffortCount: number;
+  isPersonalRecord: boolean;
+  leaderboardRank: number | null;
+  leaderboardSize: number;
+}
+
+export interface SegmentLeaderboardEntry {
+  rank: number;
+  userId: number;
+  username: string;
+  fullName: string | null;
+  effortId: number;
+  activityId: number;
+  activityName: string;
+  elapsedSeconds: number;
+  startTime: string;
+  effortCount: number;
+}
+
+// GET /api/segments/:id
+export interface SegmentDetail {
+  segment: Segment & { isOwner: boolean };
+  leaderboard: SegmentLeaderboardEntry[];
+  efforts: (SegmentEffortDetail & { personalRank: number })[];
+}
+
+// GET /api/profiles/:username/segment-records
+export interface SegmentRecord {
+  segment: Segment;
+  best: SegmentEffortDetail | null;
+  effortCount: number;
+  leaderboardRank: number | null;
+  leaderboardSize: number;
+  isCreator: boolean;
+}
+
+/** [lng, lat] pairs of a segment's path, for highlighting it on a map. */
+export function segmentLngLats(segment: Pick<Segment, 'pathCoordinates'>): [number, number][] {
+  try {
+    const coords: number[][] = JSON.parse(segment.pathCoordinates);
+    return coords.map(c => [c[0], c[1]]);
+  } catch {
+    return [];
+  }
+}
+
+export function ordinal(n: number): string {
+  const tens = n % 100;
+  if (tens >= 11 && tens <= 13) return `${n}th`;
+  return `${n}${({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[n % 10] ?? 'th'}`;
+}
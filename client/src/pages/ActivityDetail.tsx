@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useMemo } from "react";
 import { useLocation, useParams } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
@@ -42,10 +42,21 @@ import {
   Bike,
   Snowflake,
   PersonStanding,
+  Download,
+  RefreshCw,
+  CableCar,
+  ArrowUpRight,
+  Spline,
 } from "lucide-react";
 import mapboxgl from "mapbox-gl";
 import "mapbox-gl/dist/mapbox-gl.css";
 import type { Activity, User } from "@shared/schema";
+import ElevationProfileChart from "@/components/ElevationProfileChart";
+import ActivitySplitsCard from "@/components/ActivitySplitsCard";
+import ActivitySegmentsCard from "@/components/ActivitySegmentsCard";
+import { CreateSegmentModal } from "@/components/modals/CreateSegmentModal";
+import { parsePathCoordinates, type ProfilePoint } from "@/lib/elevationProfile";
+import { setElevationProfileHover, setElevationProfileSelection } from "@/lib/mapUtils";
 
 mapboxgl.accessToken = import.meta.env.VITE_MAPBOX_ACCESS_TOKEN;
 
@@ -56,6 +67,64 @@ const activityIcons: Record<string, React.ReactNode> = {
   ski: <Snowflake className="w-5 h-5" />,
 };
 
+const ELEVATION_SOURCE_LABELS: Record<string, string> = {
+  "drone-dem": "drone survey DEM",
+  "open-meteo": "map elevation data",
+  mixed: "drone survey and map elevation data",
+  gps: "smoothed GPS altitude",
+};
+
+// Device totals saved by the server before it recalculated the activity
+interface RecordedTotals {
+  distanceMeters: number;
+  movingTimeSeconds: number | null;
+  elevationGainMeters: number | null;
+  elevationLossMeters: number | null;
+}
+
+function parseRecordedTotals(raw: string | null | undefined): RecordedTotals | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+// Lift/run segmentation the server stores for ski activities
+interface SkiSegment {
+  type: "lift" | "skin" | "descent";
+  name: string | null;
+  startIndex: number;
+  endIndex: number;
+  durationSeconds: number;
+  verticalMeters: number;
+  avgSpeedMps: number;
+  maxSpeedMps: number;
+}
+
+interface SkiDay {
+  segments: SkiSegment[];
+  summary: {
+    runs: number;
+    liftRides: number;
+    skinClimbs: number;
+    skiVerticalMeters: number;
+    liftVerticalMeters: number;
+    skinVerticalMeters: number;
+    maxSpeedMps: number;
+  };
+}
+
+function parseSkiDay(raw: string | null | undefined): SkiDay | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
 export default function ActivityDetail() {
   const [, setLocation] = useLocation();
   const params = useParams<{ id: string }>();
@@ -66,6 +135,9 @@ export default function ActivityDetail() {
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [editName, setEditName] = useState("");
   const [editIsPublic, setEditIsPublic] = useState(false);
+  const [selectedSegment, setSelectedSegment] = useState<number | null>(null);
+  const [profileSelection, setProfileSelection] = useState<ProfilePoint[] | null>(null);
+  const [showCreateSegment, setShowCreateSegment] = useState(false);
 
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<mapboxgl.Map | null>(null);
@@ -105,6 +177,30 @@ export default function ActivityDetail() {
     },
   });
 
+  const recalculateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/activities/${params.id}/recalculate`);
+      return response.json();
+    },
+    onSuccess: (updated: Activity) => {
+      queryClient.setQueryData(["/api/activities", params.id], updated);
+      setSelectedSegment(null);
+      if (map.current) setElevationProfileSelection(map.current, null);
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      toast({
+        title: "Activity recalculated",
+        description: "Distance, time and elevation were recomputed from the cleaned track",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Recalculation failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const deleteMutation = useMutation({
     mutationFn: async () => {
       await apiRequest("DELETE", `/api/activities/${params.id}`);
@@ -126,6 +222,17 @@ export default function ActivityDetail() {
     },
   });
 
+  // A processed path carries DEM-corrected elevation; otherwise track points
+  // carry the recorded altitude, with the bare path as the fallback
+  const profilePath = useMemo(() => {
+    if (activity?.processedAt) {
+      const cleanedPath = parsePathCoordinates(activity.pathCoordinates);
+      if (cleanedPath.length >= 2) return cleanedPath;
+    }
+    const trackPath = parsePathCoordinates(activity?.trackPoints);
+    return trackPath.length >= 2 ? trackPath : parsePathCoordinates(activity?.pathCoordinates);
+  }, [activity?.processedAt, activity?.trackPoints, activity?.pathCoordinates]);
+
   useEffect(() => {
     if (!mapContainer.current || !activity?.pathCoordinates) return;
 
@@ -256,6 +363,30 @@ export default function ActivityDetail() {
   const avgPace = (activity.paceSecondsPerMile || 0) / 1.60934;
   const elevGain = parseFloat(activity.elevationGainMeters || "0");
   const elevLoss = parseFloat(activity.elevationLossMeters || "0");
+  const recorded = parseRecordedTotals(activity.rawStats);
+  const skiDay = parseSkiDay(activity.skiSegments);
+
+  // Segment indexes point into the processed path
+  const toggleSegment = (index: number) => {
+    if (!map.current) return;
+    const segment = skiDay?.segments[index];
+    if (!segment || selectedSegment === index) {
+      setSelectedSegment(null);
+      setElevationProfileSelection(map.current, null);
+      return;
+    }
+    let coordinates: number[][] = [];
+    try {
+      coordinates = JSON.parse(activity.pathCoordinates || "[]");
+    } catch {
+      return;
+    }
+    setSelectedSegment(index);
+    setElevationProfileSelection(
+      map.current,
+      coordinates.slice(segment.startIndex, segment.endIndex + 1).map(c => [c[0], c[1]] as [number, number])
+    );
+  };
 
   return (
     <div className="flex flex-col h-screen bg-slate-900">
@@ -385,6 +516,180 @@ export default function ActivityDetail() {
               </div>
             </div>
           </div>
+          {profilePath.length >= 2 && (
+            <ElevationProfileChart
+              className="mt-4"
+              path={profilePath}
+              onHoverPoint={(point) => map.current && setElevationProfileHover(map.current, point ? [point.lng, point.lat] : null)}
+              onSelectionChange={(points) => {
+                setProfileSelection(points);
+                if (map.current) setElevationProfileSelection(map.current, points ? points.map(p => [p.lng, p.lat] as [number, number]) : null);
+              }}
+            />
+          )}
+          {profileSelection && profileSelection.length >= 2 && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-3 w-full border-slate-600 text-slate-200"
+              onClick={() => setShowCreateSegment(true)}
+              data-testid="button-create-segment"
+            >
+              <Spline className="w-4 h-4 mr-2" />
+              Create segment from selection
+            </Button>
+          )}
+        </div>
+
+        {activity.trackPoints && (
+          <ActivitySplitsCard activityId={activity.id} activityType={activity.activityType} />
+        )}
+
+        <ActivitySegmentsCard
+          activityId={activity.id}
+          onHighlight={(coordinates) => {
+            setSelectedSegment(null);
+            if (map.current) setElevationProfileSelection(map.current, coordinates);
+          }}
+        />
+
+        {skiDay && (
+          <div className="bg-slate-800 rounded-lg p-4 mt-6" data-testid="card-ski-day">
+            <h3 className="text-white font-semibold mb-4 flex items-center gap-2">
+              <Snowflake className="w-4 h-4" /> Ski Day
+            </h3>
+            <div className="grid grid-cols-3 gap-4 mb-4 text-center">
+              <div>
+                <div className="text-slate-400 text-xs mb-1">Runs</div>
+                <div className="text-white font-semibold">{skiDay.summary.runs}</div>
+              </div>
+              <div>
+                <div className="text-slate-400 text-xs mb-1">Skiing Vertical</div>
+                <div className="text-white font-semibold">{formatElevation(skiDay.summary.skiVerticalMeters)}</div>
+              </div>
+              <div>
+                <div className="text-slate-400 text-xs mb-1">
+                  {skiDay.summary.skinClimbs > 0 && skiDay.summary.liftRides === 0 ? "Skinning Vertical" : "Lift Vertical"}
+                </div>
+                <div className="text-white font-semibold">
+                  {formatElevation(skiDay.summary.skinClimbs > 0 && skiDay.summary.liftRides === 0
+                    ? skiDay.summary.skinVerticalMeters
+                    : skiDay.summary.liftVerticalMeters)}
+                </div>
+              </div>
+            </div>
+            {skiDay.summary.liftRides > 0 && skiDay.summary.skinClimbs > 0 && (
+              <p className="text-sm text-slate-400 mb-3">
+                Also skinned {formatElevation(skiDay.summary.skinVerticalMeters)} in {skiDay.summary.skinClimbs} climb{skiDay.summary.skinClimbs === 1 ? "" : "s"}.
+              </p>
+            )}
+            <div className="space-y-1">
+              {(() => {
+                let run = 0;
+                return skiDay.segments.map((segment, index) => {
+                  if (segment.type === "descent") run++;
+                  const label = segment.type === "descent"
+                    ? `Run ${run}`
+                    : segment.type === "lift"
+                      ? segment.name || "Lift"
+                      : "Skin";
+                  return (
+                    <button
+                      key={index}
+                      type="button"
+                      className={`w-full flex items-center justify-between gap-2 rounded px-2 py-1.5 text-left text-sm ${
+                        selectedSegment === index ? "bg-slate-600" : "hover:bg-slate-700"
+                      }`}
+                      onClick={() => toggleSegment(index)}
+                      data-testid={`button-ski-segment-${index}`}
+                    >
+                      <span className={`flex items-center gap-2 ${segment.type === "descent" ? "text-white font-medium" : "text-slate-400"}`}>
+                        {segment.type === "descent" ? (
+                          <Mountain className="w-3 h-3 rotate-180" />
+                        ) : segment.type === "lift" ? (
+                          <CableCar className="w-3 h-3" />
+                        ) : (
+                          <ArrowUpRight className="w-3 h-3" />
+                        )}
+                        {label}
+                      </span>
+                      <span className="text-slate-400 text-xs text-right">
+                        {formatDuration(segment.durationSeconds)} · {segment.type === "descent" ? "-" : "+"}{formatElevation(segment.verticalMeters)}
+                        {segment.type === "descent" && <> · {formatSpeed(segment.avgSpeedMps)} avg · {formatSpeed(segment.maxSpeedMps)} max</>}
+                      </span>
+                    </button>
+                  );
+                });
+              })()}
+            </div>
+          </div>
+        )}
+
+        {(activity.processedAt || isOwner) && (
+          <div className="bg-slate-800 rounded-lg p-4 mt-6">
+            <h3 className="text-white font-semibold mb-2 flex items-center gap-2">
+              <RefreshCw className="w-4 h-4" /> Track Correction
+            </h3>
+            {activity.processedAt ? (
+              <div className="space-y-1 text-sm text-slate-400">
+                <p>
+                  Totals are from the cleaned GPS track
+                  {activity.elevationSource && <>, with elevation from {ELEVATION_SOURCE_LABELS[activity.elevationSource] || activity.elevationSource}</>}.
+                  {!!activity.droppedPoints && ` ${activity.droppedPoints} bad GPS point${activity.droppedPoints === 1 ? "" : "s"} removed.`}
+                </p>
+                {recorded && (
+                  <p data-testid="text-recorded-totals">
+                    Recorded on device: {formatDistance(recorded.distanceMeters)}
+                    {recorded.elevationGainMeters !== null && <>, +{formatElevation(recorded.elevationGainMeters)} / -{formatElevation(recorded.elevationLossMeters ?? 0)}</>}
+                  </p>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-slate-400">
+                These totals are as recorded on the device. Recalculate to clean the GPS track and correct elevation against map data.
+              </p>
+            )}
+            {isOwner && (
+              <Button
+                variant="outline"
+                className="mt-3 w-full border-slate-600 text-white bg-slate-700 hover:bg-slate-600"
+                onClick={() => recalculateMutation.mutate()}
+                disabled={recalculateMutation.isPending}
+                data-testid="button-recalculate-activity"
+              >
+                {recalculateMutation.isPending ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                )}
+                Recalculate
+              </Button>
+            )}
+          </div>
+        )}
+
+        <div className="bg-slate-800 rounded-lg p-4 mt-6">
+          <h3 className="text-white font-semibold mb-4 flex items-center gap-2">
+            <Download className="w-4 h-4" /> Export
+          </h3>
+          <div className="grid grid-cols-3 gap-2">
+            {(["gpx", "kml", "geojson"] as const).map((format) => (
+              <Button
+                key={format}
+                asChild
+                variant="outline"
+                className="border-slate-600 text-white bg-slate-700 hover:bg-slate-600 uppercase"
+              >
+                <a
+                  href={`/api/activities/${activity.id}/export?format=${format}`}
+                  download
+                  data-testid={`link-export-activity-${format}`}
+                >
+                  {format}
+                </a>
+              </Button>
+            ))}
+          </div>
         </div>
       </div>
 
@@ -460,6 +765,14 @@ export default function ActivityDetail() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <CreateSegmentModal
+        isOpen={showCreateSegment}
+        onClose={() => setShowCreateSegment(false)}
+        points={profileSelection ?? []}
+        sourceActivityId={activity.id}
+        defaultActivityType={activity.activityType}
+      />
     </div>
   );
 }
@@ -5,7 +5,8 @@ import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
-import { Upload, Building2, Plus, Trash2, Copy, ChevronDown, ChevronRight, Users, Image, Box } from 'lucide-react';
+import { Upload, Building2, Plus, Trash2, Copy, ChevronDown, ChevronRight, Users, Image, Box, ListChecks } from 'lucide-react';
+import ProcessingJobsPanel from '@/components/ProcessingJobsPanel';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import {
@@ -159,14 +160,14 @@ export default function AdminPanel() {
         formData.append('imagery', files[i]);
       }
 
-      // Auto-extract GPS from first GeoTIFF
-      let bounds = { neLat: '43.5', neLng: '-110.7', swLat: '43.4', swLng: '-110.9' };
+      // Only lat/lng bounds are passed along; the server places projected files itself
+      let bounds: { neLat: string; neLng: string; swLat: string; swLng: string } | null = null;
       try {
         const { fromBlob } = await import('geotiff');
         const tiff = await fromBlob(files[0]);
         const image = await tiff.getImage();
         const bbox = image.getBoundingBox();
-        if (bbox && bbox.length >= 4) {
+        if (bbox && bbox.length >= 4 && bbox.every(v => Math.abs(v) <= 180) && Math.abs(bbox[1]) <= 90 && Math.abs(bbox[3]) <= 90) {
           bounds = { swLng: String(bbox[0]), swLat: String(bbox[1]), neLng: String(bbox[2]), neLat: String(bbox[3]) };
         }
       } catch {}
@@ -176,10 +177,12 @@ export default function AdminPanel() {
       formData.append('description', '');
       formData.append('capturedAt', now.toISOString());
       formData.append('isPublic', 'false');
-      formData.append('northEastLat', bounds.neLat);
-      formData.append('northEastLng', bounds.neLng);
-      formData.append('southWestLat', bounds.swLat);
-      formData.append('southWestLng', bounds.swLng);
+      if (bounds) {
+        formData.append('northEastLat', bounds.neLat);
+        formData.append('northEastLng', bounds.neLng);
+        formData.append('southWestLat', bounds.swLat);
+        formData.append('southWestLng', bounds.swLng);
+      }
 
       setEnterpriseUpload2D({ uploading: true, fileName: files[0].name, progress: 0, enterpriseId });
 
@@ -205,7 +208,9 @@ export default function AdminPanel() {
           queryClient.invalidateQueries({ queryKey: ['/api/admin/drone-images'] });
           toast({ title: '2D map uploaded and assigned to enterprise' });
         } else {
-          toast({ title: 'Upload failed', variant: 'destructive' });
+          let message: string | undefined;
+          try { message = JSON.parse(xhr.responseText)?.message; } catch {}
+          toast({ title: 'Upload failed', description: message, variant: 'destructive' });
         }
         setEnterpriseUpload2D({ uploading: false, fileName: '', progress: 0, enterpriseId: null });
         xhr2DRef.current = null;
@@ -639,6 +644,22 @@ export default function AdminPanel() {
           </CardContent>
         </Card>
 
+        {/* Processing Jobs */}
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ListChecks className="h-5 w-5" />
+              Processing Jobs
+            </CardTitle>
+            <CardDescription>
+              Tile generation and 3D tileset sync jobs that are running, queued or failed
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ProcessingJobsPanel />
+          </CardContent>
+        </Card>
+
         {/* 3D Upload Name Dialog */}
         <Dialog open={!!pending3DFile} onOpenChange={(open) => { if (!open) { setPending3DFile(null); setUpload3DEnterpriseId(null); } }}>
           <DialogContent>
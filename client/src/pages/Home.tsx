@@ -33,6 +33,10 @@ const Home: React.FC = () => {
   // Activated drone image (for flying to the correct location)
   const [activatedDroneImage, setActivatedDroneImage] = useState<DroneImage | null>(null);
 
+  // Map layers as the layer manager sees them, and a toggle it has asked the map for
+  const [mapActiveLayers, setMapActiveLayers] = useState<string[]>([]);
+  const [pendingLayerToggle, setPendingLayerToggle] = useState<string | null>(null);
+
   const searchString = useSearch();
 
   useEffect(() => {
@@ -100,6 +104,9 @@ const Home: React.FC = () => {
         onAllRoutesDisplayed={() => setRoutesToDisplayAll(null)}
         activatedDroneImage={activatedDroneImage}
         onDroneImageActivated={() => setActivatedDroneImage(null)}
+        requestedLayerToggle={pendingLayerToggle}
+        onLayerToggleHandled={() => setPendingLayerToggle(null)}
+        onActiveLayersChange={setMapActiveLayers}
       />
       
       {/* Bottom navigation */}
@@ -115,6 +122,8 @@ const Home: React.FC = () => {
       <LayerManagerModal 
         isOpen={isLayerModalOpen} 
         onClose={() => setIsLayerModalOpen(false)} 
+        activeLayers={mapActiveLayers}
+        onToggleLayer={setPendingLayerToggle}
       />
       
       <RoutesModal 
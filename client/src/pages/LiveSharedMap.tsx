@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { useRoute, useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
@@ -35,17 +35,26 @@ import {
   Satellite,
   ChevronDown,
   ChevronUp,
-  Mic
+  Mic,
+  Mountain,
+  ShieldAlert,
+  Siren
 } from "lucide-react";
 import { PiBirdFill } from "react-icons/pi";
 import { cn } from "@/lib/utils";
 import mapboxgl from "mapbox-gl";
-import { addUserLocationToMap, getElevation, findFirstSymbolOrCircleLayerId } from "@/lib/mapUtils";
+import { addUserLocationToMap, getElevation, findFirstSymbolOrCircleLayerId, setElevationProfileHover, setElevationProfileSelection, setGeofenceAreas } from "@/lib/mapUtils";
+import ElevationProfileChart from "@/components/ElevationProfileChart";
+import { parsePathCoordinates, type PathPoint, type ProfilePoint } from "@/lib/elevationProfile";
 import { isNative } from "@/lib/capacitor";
 import { startBackgroundTracking, stopBackgroundTracking } from "@/lib/backgroundLocation";
 import { startKeepAlive, stopKeepAlive } from "@/lib/silentAudioKeepAlive";
 import RadioPanel, { type VoiceMessage, playVoiceMessage } from "@/components/RadioPanel";
+import GeofencePanel from "@/components/GeofencePanel";
+import IncidentBanner from "@/components/IncidentBanner";
 import { registerPushSubscription } from "@/lib/pushNotifications";
+import { createRealtimeClient, type RealtimeClient } from "@/lib/realtime";
+import type { MemberPosition } from "@shared/realtime";
 mapboxgl.accessToken = import.meta.env.VITE_MAPBOX_ACCESS_TOKEN;
 
 // Color palette for different users in live map sessions
@@ -70,6 +79,14 @@ const getMemberColor = (userId: number, members: LiveMapMember[], currentUserId?
   return MEMBER_COLORS[(index % (MEMBER_COLORS.length - 1)) + 1];
 };
 
+// Browsers report heading as NaN when standing still, which the protocol rejects
+const toMemberPosition = (coords: GeolocationCoordinates): MemberPosition => ({
+  latitude: coords.latitude,
+  longitude: coords.longitude,
+  accuracy: Number.isFinite(coords.accuracy) ? coords.accuracy : null,
+  heading: coords.heading !== null && Number.isFinite(coords.heading) ? coords.heading : null,
+});
+
 interface AuthUser {
   id: number;
   username: string;
@@ -86,6 +103,7 @@ interface LiveMapSession {
   centerLatitude: string | null;
   centerLongitude: string | null;
   zoomLevel: string | null;
+  checkInMinutes: number | null;
   createdAt: string;
 }
 
@@ -149,11 +167,45 @@ interface LiveMapMessage {
   };
 }
 
+interface LiveMapGeofence {
+  id: number;
+  sessionId: number;
+  createdBy: number;
+  name: string;
+  ruleType: string;
+  polygon: string | null;
+  targetUserId: number | null;
+  poiId: number | null;
+  distanceMeters: string | null;
+  isActive: boolean | null;
+  createdAt: string;
+}
+
+interface LiveMapIncident {
+  id: number;
+  sessionId: number;
+  userId: number;
+  type: string;
+  status: string;
+  note: string | null;
+  latitude: string | null;
+  longitude: string | null;
+  accuracy: string | null;
+  lastFixAt: string | null;
+  acknowledgedBy: number | null;
+  acknowledgedAt: string | null;
+  resolvedBy: number | null;
+  resolvedAt: string | null;
+  createdAt: string | null;
+}
+
 interface SessionData extends LiveMapSession {
   members: LiveMapMember[];
   pois: LiveMapPoi[];
   routes: LiveMapRoute[];
   messages: LiveMapMessage[];
+  geofences: LiveMapGeofence[];
+  incidents: LiveMapIncident[];
 }
 
 interface FriendData {
@@ -219,6 +271,10 @@ export default function LiveSharedMap() {
   const [unheardVoiceCount, setUnheardVoiceCount] = useState(0);
   const showRadioRef = useRef(false);
 
+  const [showGeofences, setShowGeofences] = useState(false);
+  const [showSosDialog, setShowSosDialog] = useState(false);
+  const [sosNote, setSosNote] = useState("");
+
   // Quick-record state (floating mic button on map)
   const [quickRecording, setQuickRecording] = useState(false);
   const [quickRecordingTime, setQuickRecordingTime] = useState(0);
@@ -232,16 +288,13 @@ export default function LiveSharedMap() {
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<mapboxgl.Map | null>(null);
   const mapInitialized = useRef(false);
-  const wsRef = useRef<WebSocket | null>(null);
+  const realtimeRef = useRef<RealtimeClient | null>(null);
   const memberMarkersRef = useRef<Map<number, mapboxgl.Marker>>(new Map());
   const memberLastUpdateRef = useRef<Map<number, number>>(new Map());
   const signalLostCheckRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const poiMarkersRef = useRef<Map<number, mapboxgl.Marker>>(new Map());
   const watchIdRef = useRef<number | null>(null);
   const userLocationRef = useRef<{ lng: number; lat: number } | null>(null);
-  const reconnectTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const reconnectAttemptRef = useRef(0);
-  const intentionalCloseRef = useRef(false);
   const updateMemberMarkerRef = useRef<((userId: number, lat: number, lng: number) => void) | null>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
 
@@ -266,6 +319,8 @@ export default function LiveSharedMap() {
 
   // Track path history for each member during the session
   const [memberPaths, setMemberPaths] = useState<Map<number, [number, number][]>>(new Map());
+  // Member whose track is shown in the elevation profile panel
+  const [profileMemberId, setProfileMemberId] = useState<number | null>(null);
   
   const sessionId = params?.id ? parseInt(params.id) : null;
   
@@ -286,6 +341,29 @@ export default function LiveSharedMap() {
   });
   
   const isOwner = session && user && session.ownerId === user.id;
+
+  const profileMemberPath = useMemo<PathPoint[]>(() => {
+    if (profileMemberId === null) return [];
+    return (memberPaths.get(profileMemberId) || []).map(([lng, lat]) => ({ lng, lat, elevation: null }));
+  }, [profileMemberId, memberPaths]);
+
+  const selectedRouteProfilePath = useMemo(
+    () => parsePathCoordinates(selectedSharedRoute?.pathCoordinates),
+    [selectedSharedRoute?.pathCoordinates]
+  );
+
+  const handleProfileHover = useCallback((point: ProfilePoint | null) => {
+    if (map.current) setElevationProfileHover(map.current, point ? [point.lng, point.lat] : null);
+  }, []);
+
+  const handleProfileSelection = useCallback((points: ProfilePoint[] | null) => {
+    if (map.current) setElevationProfileSelection(map.current, points ? points.map(p => [p.lng, p.lat] as [number, number]) : null);
+  }, []);
+
+  const clearProfileOverlays = useCallback(() => {
+    handleProfileHover(null);
+    handleProfileSelection(null);
+  }, [handleProfileHover, handleProfileSelection]);
   const isSessionEnded = session && !session.isActive;
   
   // Fetch friends list for inviting
@@ -382,6 +460,33 @@ export default function LiveSharedMap() {
     }
   });
   
+  // Raise an SOS with a fresh fix when one comes quickly, otherwise the last reported position
+  const sosMutation = useMutation({
+    mutationFn: async (note: string) => {
+      const fix = await new Promise<GeolocationCoordinates | null>(resolve => {
+        if (!navigator.geolocation) return resolve(null);
+        navigator.geolocation.getCurrentPosition(
+          position => resolve(position.coords),
+          () => resolve(null),
+          { enableHighAccuracy: true, timeout: 5000, maximumAge: 30000 }
+        );
+      });
+      return apiRequest('POST', `/api/live-maps/${sessionId}/sos`, {
+        ...(fix && { latitude: fix.latitude, longitude: fix.longitude, accuracy: Number.isFinite(fix.accuracy) ? fix.accuracy : null }),
+        note: note.trim() || null,
+      });
+    },
+    onSuccess: () => {
+      setShowSosDialog(false);
+      setSosNote("");
+      queryClient.invalidateQueries({ queryKey: ['/api/live-maps', sessionId] });
+      toast({ title: "SOS sent", description: "Your team has been alerted with your location" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "SOS failed to send", description: error.message, variant: "destructive" });
+    }
+  });
+
   // Save route mutation
   const saveRouteMutation = useMutation({
     mutationFn: async (data: { name: string; pathCoordinates: string }) => {
@@ -564,8 +669,8 @@ export default function LiveSharedMap() {
       return apiRequest('DELETE', `/api/live-maps/${sessionId}`);
     },
     onSuccess: () => {
-      toast({ title: "Session ended", description: "All paths have been saved as routes" });
-      setLocation("/");
+      toast({ title: "Session ended", description: "The session was archived and its debrief is ready" });
+      setLocation(`/live-map/${sessionId}/debrief`);
     }
   });
   
@@ -1011,6 +1116,20 @@ export default function LiveSharedMap() {
     });
   }, [drawRoutePoints]);
   
+  // Outline the session's geofence areas
+  useEffect(() => {
+    if (!map.current || !mapReady) return;
+    const areas = (session?.geofences || []).flatMap(fence => {
+      if (!fence.polygon) return [];
+      try {
+        return [{ id: fence.id, name: fence.name, ruleType: fence.ruleType, isActive: fence.isActive !== false, ring: JSON.parse(fence.polygon) }];
+      } catch {
+        return [];
+      }
+    });
+    setGeofenceAreas(map.current, areas);
+  }, [session?.geofences, mapReady]);
+
   // Render shared routes on map — incremental approach
   useEffect(() => {
     if (!session?.routes || !map.current || !mapReady) return;
@@ -1230,21 +1349,30 @@ export default function LiveSharedMap() {
     });
   }, [editingRoutePoints, isEditingSharedRoute]);
   
-  // Connect to WebSocket with reconnection
+  // Connect to the realtime service; the client reconnects and rejoins on its own
   useEffect(() => {
     if (!sessionId || !user) return;
     
-    intentionalCloseRef.current = false;
+    const client = createRealtimeClient();
+    realtimeRef.current = client;
+    const refreshSession = () => queryClient.invalidateQueries({ queryKey: ['/api/live-maps', sessionId] });
     
-    const connect = () => {
-      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-      const ws = new WebSocket(`${protocol}//${window.location.host}/ws`);
-      wsRef.current = ws;
-      
-      ws.onopen = () => {
-        reconnectAttemptRef.current = 0;
-        ws.send(JSON.stringify({ type: 'auth', userId: user.id }));
-        ws.send(JSON.stringify({ type: 'session:join', sessionId }));
+    const unsubscribers = [
+      client.onStatusChange((status, retryInMs) => {
+        if (status === 'closed' && retryInMs !== undefined) {
+          toast({
+            title: "Reconnecting...",
+            description: `Connection lost. Retrying in ${Math.round(retryInMs / 1000)}s...`,
+          });
+        }
+        if (status === 'unsupported') {
+          toast({
+            title: "Update required",
+            description: "Reload the page to reconnect to the live map",
+            variant: "destructive",
+          });
+        }
+        if (status !== 'open') return;
 
         // Fetch any missed voice messages from the last hour
         fetchMissedVoiceMessages();
@@ -1274,103 +1402,83 @@ export default function LiveSharedMap() {
             })
             .catch(err => console.error('Failed to start background tracking:', err));
         }
-      };
-      
-      ws.onmessage = (event) => {
-        const data = JSON.parse(event.data);
-        
-        switch (data.type) {
-          case 'member:locationUpdate':
-            if (updateMemberMarkerRef.current) {
-              updateMemberMarkerRef.current(data.data.userId, data.data.latitude, data.data.longitude);
-            }
-            break;
-          case 'member:joined':
-          case 'member:left':
-          case 'member:disconnected':
-            queryClient.invalidateQueries({ queryKey: ['/api/live-maps', sessionId] });
-            break;
-          case 'message:new':
-            queryClient.invalidateQueries({ queryKey: ['/api/live-maps', sessionId] });
-            break;
-          case 'poi:created':
-          case 'poi:deleted':
-            queryClient.invalidateQueries({ queryKey: ['/api/live-maps', sessionId] });
-            break;
-          case 'route:created':
-          case 'route:deleted':
-          case 'route:updated':
-            queryClient.invalidateQueries({ queryKey: ['/api/live-maps', sessionId] });
-            break;
-          case 'voice:message': {
-            const vm = data.data;
-            const newMsg: VoiceMessage = {
-              id: vm.id,
-              userId: vm.userId,
-              username: vm.username,
-              audioUrl: `/api/voice-messages/${vm.id}/audio`,
-              mimeType: vm.mimeType,
-              duration: vm.duration,
-              timestamp: vm.timestamp,
-              hasPlayed: false,
-            };
-            setVoiceMessages(prev => [...prev.slice(-49), newMsg]);
-            playVoiceMessage(newMsg);
-            if (!showRadioRef.current) {
-              setUnheardVoiceCount(prev => prev + 1);
-            }
-            break;
-          }
-          case 'voice:talking': {
-            const { userId: talkerId, isTalking } = data.data;
-            setTalkingUsers(prev => {
-              const next = new Set(prev);
-              if (isTalking) next.add(talkerId);
-              else next.delete(talkerId);
-              return next;
-            });
-            break;
-          }
-          case 'session:ended':
-            toast({
-              title: "Session ended",
-              description: "The session owner has ended this live team map"
-            });
-            setLocation("/");
-            break;
-        }
-      };
-      
-      ws.onerror = () => {
-        console.error('WebSocket error');
-      };
-      
-      ws.onclose = () => {
-        if (!intentionalCloseRef.current) {
-          const attempt = reconnectAttemptRef.current;
-          const delay = Math.min(1000 * Math.pow(2, attempt), 30000);
-          reconnectAttemptRef.current = attempt + 1;
+      }),
+      client.on('member:locationUpdate', ({ data }) => {
+        updateMemberMarkerRef.current?.(data.userId, data.latitude, data.longitude);
+      }),
+      client.on('member:joined', refreshSession),
+      client.on('member:left', refreshSession),
+      client.on('member:disconnected', refreshSession),
+      client.on('message:new', refreshSession),
+      client.on('poi:created', refreshSession),
+      client.on('poi:deleted', refreshSession),
+      client.on('route:created', refreshSession),
+      client.on('route:deleted', refreshSession),
+      client.on('route:updated', refreshSession),
+      client.on('geofence:created', refreshSession),
+      client.on('geofence:updated', refreshSession),
+      client.on('geofence:deleted', refreshSession),
+      client.on('incident:raised', ({ data }) => {
+        if (data.userId !== user.id) {
           toast({
-            title: "Reconnecting...",
-            description: `Connection lost. Retrying in ${Math.round(delay / 1000)}s...`,
+            title: data.type === 'sos' ? `🆘 ${data.username} sent an SOS` : `⏰ ${data.username} is overdue to check in`,
+            description: "See the alert at the top of the map",
+            variant: "destructive",
           });
-          reconnectTimeoutRef.current = setTimeout(connect, delay);
+          navigator.vibrate?.([500, 200, 500, 200, 500]);
         }
-      };
-    };
+        refreshSession();
+      }),
+      client.on('incident:updated', refreshSession),
+      client.on('geofence:alert', ({ data }) => {
+        toast({
+          title: `⚠️ ${data.name}`,
+          description: data.message,
+          variant: "destructive",
+        });
+        refreshSession();
+      }),
+      client.on('voice:message',({ data: vm }) => {
+        const newMsg: VoiceMessage = {
+          id: vm.id,
+          userId: vm.userId,
+          username: vm.username,
+          audioUrl: `/api/voice-messages/${vm.id}/audio`,
+          mimeType: vm.mimeType,
+          duration: vm.duration,
+          timestamp: vm.timestamp,
+          hasPlayed: false,
+        };
+        setVoiceMessages(prev => [...prev.slice(-49), newMsg]);
+        playVoiceMessage(newMsg);
+        if (!showRadioRef.current) {
+          setUnheardVoiceCount(prev => prev + 1);
+        }
+      }),
+      client.on('voice:talking', ({ data }) => {
+        setTalkingUsers(prev => {
+          const next = new Set(prev);
+          if (data.isTalking) next.add(data.userId);
+          else next.delete(data.userId);
+          return next;
+        });
+      }),
+      client.on('session:ended', () => {
+        toast({
+          title: "Session ended",
+          description: "The session owner has ended this live team map"
+        });
+        setLocation(`/live-map/${sessionId}/debrief`);
+      }),
+    ];
     
-    connect();
+    client.joinSession(sessionId);
+    client.connect();
     
     return () => {
-      intentionalCloseRef.current = true;
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
-        reconnectTimeoutRef.current = null;
-      }
-      if (wsRef.current) {
-        wsRef.current.close();
-        wsRef.current = null;
-      }
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      client.disconnect();
+      realtimeRef.current = null;
       stopBackgroundTracking();
       stopKeepAlive();
       stopPwaBackgroundPolling();
@@ -1421,10 +1529,8 @@ export default function LiveSharedMap() {
       clearInterval(quickTimerRef.current);
       quickTimerRef.current = null;
     }
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify({ type: 'voice:talking', isTalking: false }));
-    }
-  }, [wsRef]);
+    realtimeRef.current?.send({ type: 'voice:talking', isTalking: false });
+  }, [realtimeRef]);
 
   // Quick-record: start recording from floating mic button
   const handleQuickRecordStart = useCallback(async () => {
@@ -1498,9 +1604,7 @@ export default function LiveSharedMap() {
       setQuickRecordingTime(0);
 
       // Send talking indicator
-      if (wsRef.current?.readyState === WebSocket.OPEN) {
-        wsRef.current.send(JSON.stringify({ type: 'voice:talking', isTalking: true }));
-      }
+      realtimeRef.current?.send({ type: 'voice:talking', isTalking: true });
 
       // Timer
       quickTimerRef.current = setInterval(() => {
@@ -1514,7 +1618,7 @@ export default function LiveSharedMap() {
       console.error('Quick record mic error:', err);
       toast({ title: 'Microphone access required', description: 'Enable microphone in browser settings', variant: 'destructive' });
     }
-  }, [sessionId, user, wsRef, toast, handleQuickRecordStop]);
+  }, [sessionId, user, realtimeRef, toast, handleQuickRecordStop]);
 
   // Check for openRadio URL param (from push notification deep link)
   useEffect(() => {
@@ -1539,22 +1643,14 @@ export default function LiveSharedMap() {
   
   // Start location tracking
   useEffect(() => {
-    if (!wsRef.current || !user) return;
+    if (!realtimeRef.current || !user) return;
     
     if (navigator.geolocation) {
       watchIdRef.current = navigator.geolocation.watchPosition(
         (position) => {
-          const { latitude, longitude, accuracy, heading } = position.coords;
+          const { latitude, longitude, accuracy } = position.coords;
           
-          if (wsRef.current?.readyState === WebSocket.OPEN) {
-            wsRef.current.send(JSON.stringify({
-              type: 'session:location',
-              latitude,
-              longitude,
-              accuracy,
-              heading
-            }));
-          }
+          realtimeRef.current?.send({ type: 'session:location', ...toMemberPosition(position.coords) });
 
           if (map.current) {
             addUserLocationToMap(map.current, {
@@ -1906,84 +2002,9 @@ export default function LiveSharedMap() {
     stopKeepAlive();
     stopPwaBackgroundPolling();
 
-    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
+    if (realtimeRef.current && realtimeRef.current.status !== 'open') {
       console.log('Live Map: Reconnecting WebSocket after background...');
-      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-      const ws = new WebSocket(`${protocol}//${window.location.host}/ws`);
-      wsRef.current = ws;
-
-      ws.onopen = () => {
-        if (user) {
-          ws.send(JSON.stringify({ type: 'auth', userId: user.id }));
-          ws.send(JSON.stringify({ type: 'session:join', sessionId }));
-        }
-      };
-
-      ws.onmessage = (event) => {
-        try {
-          const data = JSON.parse(event.data);
-          switch (data.type) {
-            case 'member:locationUpdate':
-              if (updateMemberMarkerRef.current) {
-                updateMemberMarkerRef.current(data.data.userId, data.data.latitude, data.data.longitude);
-              }
-              break;
-            case 'member:joined':
-            case 'member:left':
-            case 'member:disconnected':
-            case 'message:new':
-            case 'poi:created':
-            case 'poi:deleted':
-            case 'route:created':
-            case 'route:deleted':
-            case 'route:updated':
-              queryClient.invalidateQueries({ queryKey: ['/api/live-maps', sessionId] });
-              break;
-            case 'voice:message': {
-              const vm = data.data;
-              const newMsg: VoiceMessage = {
-                id: vm.id,
-                userId: vm.userId,
-                username: vm.username,
-                audioUrl: `/api/voice-messages/${vm.id}/audio`,
-                mimeType: vm.mimeType,
-                duration: vm.duration,
-                timestamp: vm.timestamp,
-                hasPlayed: false,
-              };
-              setVoiceMessages(prev => [...prev.slice(-49), newMsg]);
-              playVoiceMessage(newMsg);
-              if (!showRadioRef.current) {
-                setUnheardVoiceCount(prev => prev + 1);
-              }
-              break;
-            }
-            case 'voice:talking': {
-              const { userId: talkerId, isTalking } = data.data;
-              setTalkingUsers(prev => {
-                const next = new Set(prev);
-                if (isTalking) next.add(talkerId);
-                else next.delete(talkerId);
-                return next;
-              });
-              break;
-            }
-            case 'session:ended':
-              toast({
-                title: "Session ended",
-                description: "The session owner has ended this live team map"
-              });
-              setLocation("/");
-              break;
-          }
-        } catch (e) {
-          console.error('WS message parse error:', e);
-        }
-      };
-
-      ws.onerror = () => {
-        console.error('Live Map: WebSocket reconnection failed');
-      };
+      realtimeRef.current.reconnect();
     }
 
     if (watchIdRef.current !== null) {
@@ -1993,16 +2014,8 @@ export default function LiveSharedMap() {
     if (navigator.geolocation) {
       watchIdRef.current = navigator.geolocation.watchPosition(
         (position) => {
-          const { latitude, longitude, accuracy, heading } = position.coords;
-          if (wsRef.current?.readyState === WebSocket.OPEN) {
-            wsRef.current.send(JSON.stringify({
-              type: 'session:location',
-              latitude,
-              longitude,
-              accuracy,
-              heading
-            }));
-          }
+          const { latitude, longitude, accuracy } = position.coords;
+          realtimeRef.current?.send({ type: 'session:location', ...toMemberPosition(position.coords) });
 
           if (map.current) {
             addUserLocationToMap(map.current, {
@@ -2292,7 +2305,7 @@ export default function LiveSharedMap() {
           </div>
 
           {/* Quick-Record Floating Mic Button (upper-left) */}
-          {!showRadio && !quickRecording && !showChat && !showMembers && (
+          {!showRadio && !showGeofences && !quickRecording && !showChat && !showMembers && (
             <div className="absolute top-4 left-4 z-30" style={{ marginTop: 'env(safe-area-inset-top, 0px)' }}>
               <button
                 onClick={handleQuickRecordStart}
@@ -2536,6 +2549,31 @@ export default function LiveSharedMap() {
                     )}
                   </button>
 
+                  {/* Geofences */}
+                  <button
+                    onClick={() => setShowGeofences(!showGeofences)}
+                    className={cn(
+                      "layer-toggle-btn bg-dark-gray/50 rounded-full p-1.5 sm:p-2 min-w-[38px] sm:min-w-[44px] min-h-[38px] sm:min-h-[44px] flex flex-col items-center border-2 border-transparent transition-all active:scale-95",
+                      showGeofences && "active ring-2 ring-amber-500"
+                    )}
+                    data-testid="toolbar-geofences"
+                  >
+                    <ShieldAlert className="h-5 w-5 text-amber-400" />
+                    <span className="text-[10px] mt-0.5">Alerts</span>
+                  </button>
+
+                  {/* SOS */}
+                  {!isSessionEnded && (
+                    <button
+                      onClick={() => setShowSosDialog(true)}
+                      className="layer-toggle-btn bg-red-700/80 rounded-full p-1.5 sm:p-2 min-w-[38px] sm:min-w-[44px] min-h-[38px] sm:min-h-[44px] flex flex-col items-center border-2 border-red-400 transition-all active:scale-95"
+                      data-testid="toolbar-sos"
+                    >
+                      <Siren className="h-5 w-5 text-white" />
+                      <span className="text-[10px] mt-0.5 font-bold">SOS</span>
+                    </button>
+                  )}
+
                   {/* Measure */}
                   <button
                     onClick={() => {
@@ -2726,7 +2764,10 @@ export default function LiveSharedMap() {
                     variant="ghost"
                     size="icon"
                     className="h-7 w-7 shrink-0"
-                    onClick={() => setSelectedSharedRoute(null)}
+                    onClick={() => {
+                      setSelectedSharedRoute(null);
+                      clearProfileOverlays();
+                    }}
                   >
                     <X className="w-4 h-4 text-gray-400" />
                   </Button>
@@ -2756,6 +2797,15 @@ export default function LiveSharedMap() {
                   </div>
                 </div>
                 
+                {selectedRouteProfilePath.length >= 2 && (
+                  <ElevationProfileChart
+                    path={selectedRouteProfilePath}
+                    onHoverPoint={handleProfileHover}
+                    onSelectionChange={handleProfileSelection}
+                    className="mb-3"
+                  />
+                )}
+
                 <div className="flex gap-2">
                   {(selectedSharedRoute.createdBy === user?.id || isOwner) && (
                     <>
@@ -2794,6 +2844,46 @@ export default function LiveSharedMap() {
             </div>
           )}
           
+          {/* Member Track Elevation Profile */}
+          {profileMemberId !== null && !selectedSharedRoute && (() => {
+            const member = session.members.find(m => m.userId === profileMemberId);
+            return (
+              <div className="absolute bottom-32 left-1/2 transform -translate-x-1/2 z-20 w-80 max-w-[90vw]">
+                <div className="bg-gray-900/95 backdrop-blur-sm rounded-xl px-4 py-4 shadow-lg border border-gray-700">
+                  <div className="flex items-start justify-between mb-2">
+                    <div className="flex-1 min-w-0">
+                      <h3 className="text-white font-semibold text-base truncate">
+                        {member ? (member.user.fullName || member.user.username) : 'Member'}'s track
+                      </h3>
+                      <p className="text-xs text-gray-400 mt-1">Elevation since joining this session</p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 shrink-0"
+                      onClick={() => {
+                        setProfileMemberId(null);
+                        clearProfileOverlays();
+                      }}
+                      data-testid="button-close-member-profile"
+                    >
+                      <X className="w-4 h-4 text-gray-400" />
+                    </Button>
+                  </div>
+                  {profileMemberPath.length >= 2 ? (
+                    <ElevationProfileChart
+                      path={profileMemberPath}
+                      onHoverPoint={handleProfileHover}
+                      onSelectionChange={handleProfileSelection}
+                    />
+                  ) : (
+                    <p className="text-gray-500 text-sm">Not enough track recorded yet</p>
+                  )}
+                </div>
+              </div>
+            );
+          })()}
+
           {/* Add Waypoint Mode Banner */}
           {isAddingPoi && (
             <div className="absolute top-4 left-1/2 transform -translate-x-1/2 bg-orange-500 text-white px-4 py-2 rounded-lg shadow-lg flex items-center gap-3 z-20" style={{ marginTop: 'env(safe-area-inset-top, 0px)' }}>
@@ -2870,6 +2960,22 @@ export default function LiveSharedMap() {
                         {member.role === 'owner' ? 'Host' : 'Participant'}
                       </p>
                     </div>
+                    {(memberPaths.get(member.userId)?.length || 0) >= 2 && (
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        className="h-10 w-10"
+                        onClick={() => {
+                          setShowMembers(false);
+                          setSelectedSharedRoute(null);
+                          clearProfileOverlays();
+                          setProfileMemberId(member.userId);
+                        }}
+                        data-testid={`button-member-profile-${member.userId}`}
+                      >
+                        <Mountain className="w-5 h-5" />
+                      </Button>
+                    )}
                     {member.latitude && (
                       <Button 
                         variant="outline" 
@@ -3197,7 +3303,7 @@ export default function LiveSharedMap() {
           <RadioPanel
             isOpen={showRadio}
             onClose={() => setShowRadio(false)}
-            wsRef={wsRef}
+            realtimeRef={realtimeRef}
             sessionId={sessionId!}
             currentUserId={user.id}
             currentUsername={user.fullName || user.username}
@@ -3205,6 +3311,33 @@ export default function LiveSharedMap() {
             onNewVoiceMessage={(msg) => setVoiceMessages(prev => [...prev.slice(-49), msg])}
           />
         )}
+
+        {/* Geofence Rules Full-Screen Overlay */}
+        {showGeofences && session && (
+          <GeofencePanel
+            isOpen={showGeofences}
+            onClose={() => setShowGeofences(false)}
+            map={mapReady ? map.current : null}
+            sessionId={session.id}
+            isOwner={!!isOwner}
+            isSessionEnded={!!isSessionEnded}
+            geofences={session.geofences || []}
+            members={session.members}
+            pois={session.pois || []}
+            checkInMinutes={session.checkInMinutes}
+          />
+        )}
+
+        {/* Unresolved SOS and overdue check-in alerts */}
+        {session && user && !showGeofences && (
+          <IncidentBanner
+            sessionId={session.id}
+            incidents={session.incidents || []}
+            members={session.members}
+            currentUserId={user.id}
+            onLocate={(lng, lat) => map.current?.flyTo({ center: [lng, lat], zoom: Math.max(map.current.getZoom(), 15) })}
+          />
+        )}
       </div>
       
       {/* Waypoint Naming Dialog - appears after clicking on map */}
@@ -3325,6 +3458,47 @@ export default function LiveSharedMap() {
       </Dialog>
       
       {/* Invite Friends Dialog */}
+      {/* SOS confirmation */}
+      <Dialog open={showSosDialog} onOpenChange={(open) => {
+        setShowSosDialog(open);
+        if (!open) setSosNote("");
+      }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2 text-red-600">
+              <Siren className="w-5 h-5" />
+              Send SOS?
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-gray-500">
+              Everyone in this session is alerted with your location, including members who do not have the map open.
+            </p>
+            <Input
+              value={sosNote}
+              onChange={(e) => setSosNote(e.target.value)}
+              placeholder="What's wrong? (optional)"
+              maxLength={280}
+              data-testid="input-sos-note"
+            />
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={() => setShowSosDialog(false)}>
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                className="flex-1"
+                onClick={() => sosMutation.mutate(sosNote)}
+                disabled={sosMutation.isPending}
+                data-testid="button-send-sos"
+              >
+                {sosMutation.isPending ? "Sending..." : "Send SOS"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={showInviteDialog} onOpenChange={setShowInviteDialog}>
         <DialogContent>
           <DialogHeader>
@@ -9,6 +9,10 @@ import { Switch } from '@/components/ui/switch';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import BottomNavigation from '@/components/BottomNavigation';
+import { RecordingSettingsModal } from '@/components/modals/RecordingSettingsModal';
+import { SegmentLeaderboardModal } from '@/components/modals/SegmentLeaderboardModal';
+import { formatDuration as formatEffortTime } from '@/hooks/useActivityRecording';
+import { ordinal, type SegmentRecord } from '@/lib/segments';
 import { 
   ChevronLeft, 
   ChevronDown, 
@@ -20,7 +24,11 @@ import {
   Activity, 
   Globe, 
   Lock,
-  Eye
+  Eye,
+  Settings2,
+  ChevronRight,
+  Spline,
+  Trophy
 } from 'lucide-react';
 import type { Route, Activity as ActivityType } from '@shared/schema';
 
@@ -48,6 +56,9 @@ const Profile: React.FC = () => {
   const [isLoggingOut, setIsLoggingOut] = useState(false);
   const [routesExpanded, setRoutesExpanded] = useState(false);
   const [activitiesExpanded, setActivitiesExpanded] = useState(false);
+  const [showRecordingSettings, setShowRecordingSettings] = useState(false);
+  const [segmentsExpanded, setSegmentsExpanded] = useState(false);
+  const [leaderboardSegment, setLeaderboardSegment] = useState<number | null>(null);
 
   useEffect(() => {
     if (!user && !isLoggingOut) {
@@ -65,6 +76,16 @@ const Profile: React.FC = () => {
     enabled: !!user,
   });
 
+  const { data: segmentRecords, isLoading: isSegmentsLoading } = useQuery<SegmentRecord[]>({
+    queryKey: ['/api/profiles', user?.username, 'segment-records'],
+    queryFn: async () => {
+      const response = await fetch(`/api/profiles/${user!.username}/segment-records`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch segment records');
+      return response.json();
+    },
+    enabled: !!user,
+  });
+
   const locationToggle = useMutation({
     mutationFn: async (enabled: boolean) => {
       await apiRequest("PATCH", "/api/user/location-sharing", { enabled });
@@ -162,6 +183,21 @@ const Profile: React.FC = () => {
           </div>
         </div>
 
+        <button
+          className="w-full bg-gray-900 border border-gray-700 rounded-xl p-4 flex items-center justify-between text-left"
+          onClick={() => setShowRecordingSettings(true)}
+          data-testid="button-recording-settings"
+        >
+          <div className="flex items-center gap-3">
+            <Settings2 className="h-5 w-5 text-sky-400" />
+            <div>
+              <div className="font-medium text-white">Recording Settings</div>
+              <div className="text-xs text-gray-400">GPS interval, auto-pause and battery saver per activity</div>
+            </div>
+          </div>
+          <ChevronRight className="h-5 w-5 text-gray-400" />
+        </button>
+
         <div className="bg-gray-900 border border-gray-700 rounded-xl overflow-hidden">
           <button
             className="w-full flex items-center justify-between p-4 text-left"
@@ -276,6 +312,74 @@ const Profile: React.FC = () => {
           )}
         </div>
 
+        <div className="bg-gray-900 border border-gray-700 rounded-xl overflow-hidden">
+          <button
+            className="w-full flex items-center justify-between p-4 text-left"
+            onClick={() => setSegmentsExpanded(!segmentsExpanded)}
+            data-testid="button-toggle-segments"
+          >
+            <div className="flex items-center gap-3">
+              <Trophy className="h-5 w-5 text-amber-400" />
+              <div>
+                <div className="font-medium text-white">Segments & Records</div>
+                <div className="text-xs text-gray-400">
+                  {segmentRecords
+                    ? `${segmentRecords.filter(r => r.best).length} PRs · ${segmentRecords.filter(r => r.isCreator).length} created`
+                    : '—'}
+                </div>
+              </div>
+            </div>
+            {segmentsExpanded ? <ChevronUp className="h-5 w-5 text-gray-400" /> : <ChevronDown className="h-5 w-5 text-gray-400" />}
+          </button>
+          {segmentsExpanded && (
+            <div className="border-t border-gray-700">
+              {isSegmentsLoading ? (
+                <div className="flex justify-center py-6">
+                  <div className="animate-spin h-6 w-6 border-2 border-primary border-t-transparent rounded-full" />
+                </div>
+              ) : !segmentRecords?.length ? (
+                <div className="text-center py-6 text-gray-500">
+                  <Spline className="h-8 w-8 mx-auto mb-2 opacity-40" />
+                  <p className="text-sm">No segments yet</p>
+                  <p className="text-xs mt-1">Select part of an activity or route's elevation profile to create one</p>
+                </div>
+              ) : (
+                <ScrollArea className="max-h-80">
+                  <div className="divide-y divide-gray-800">
+                    {segmentRecords.map((record) => (
+                      <button
+                        key={record.segment.id}
+                        className="w-full flex items-center gap-3 p-3 px-4 text-left"
+                        onClick={() => setLeaderboardSegment(record.segment.id)}
+                        data-testid={`button-segment-record-${record.segment.id}`}
+                      >
+                        {record.best ? (
+                          <Trophy className="h-4 w-4 text-amber-400 shrink-0" />
+                        ) : (
+                          <Spline className="h-4 w-4 text-gray-500 shrink-0" />
+                        )}
+                        <div className="flex-1 min-w-0">
+                          <div className="text-sm font-medium text-white truncate">{record.segment.name}</div>
+                          <div className="text-xs text-gray-500">
+                            {formatDistance(record.segment.distanceMeters)}
+                            {record.best
+                              ? ` · ${record.effortCount} effort${record.effortCount === 1 ? '' : 's'}`
+                              : ' · No efforts yet'}
+                            {record.leaderboardRank !== null && record.leaderboardSize > 1 && ` · ${ordinal(record.leaderboardRank)} of ${record.leaderboardSize}`}
+                          </div>
+                        </div>
+                        {record.best && (
+                          <span className="text-sm font-mono text-white shrink-0">{formatEffortTime(record.best.elapsedSeconds)}</span>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                </ScrollArea>
+              )}
+            </div>
+          )}
+        </div>
+
         <Button 
           variant="outline" 
           className="w-full h-12 text-destructive border-destructive hover:bg-destructive/10 active:scale-95 transition-transform"
@@ -292,6 +396,9 @@ const Profile: React.FC = () => {
       <BottomNavigation onTabChange={(tab) => {
         if (tab === 'map') navigate('/');
       }} />
+
+      <RecordingSettingsModal isOpen={showRecordingSettings} onClose={() => setShowRecordingSettings(false)} />
+      <SegmentLeaderboardModal segmentId={leaderboardSegment} onClose={() => setLeaderboardSegment(null)} />
     </div>
   );
 };
@@ -32,9 +32,12 @@ import {
   Save,
   Trash2,
   MapPin,
+  Flag,
+  Settings2,
 } from "lucide-react";
 import mapboxgl from "mapbox-gl";
 import "mapbox-gl/dist/mapbox-gl.css";
+import { RecordingSettingsModal } from "@/components/modals/RecordingSettingsModal";
 
 mapboxgl.accessToken = import.meta.env.VITE_MAPBOX_ACCESS_TOKEN;
 
@@ -53,6 +56,7 @@ export default function RecordActivity() {
   const {
     isRecording,
     isPaused,
+    isAutoPaused,
     activityType,
     stats,
     trackPoints,
@@ -65,6 +69,7 @@ export default function RecordActivity() {
     discardRecording,
     saveRecording,
     addWaypoint,
+    addLap,
     isSaving,
   } = useActivityRecording();
 
@@ -72,6 +77,7 @@ export default function RecordActivity() {
   const [activityName, setActivityName] = useState("");
   const [isPublic, setIsPublic] = useState(false);
   const [selectedType, setSelectedType] = useState<ActivityType>("hike");
+  const [showSettings, setShowSettings] = useState(false);
   const [preRecordName, setPreRecordName] = useState("");
   const [hasStarted, setHasStarted] = useState(false);
 
@@ -418,18 +424,39 @@ export default function RecordActivity() {
               START RECORDING
             </Button>
 
-            <button
-              onClick={() => setLocation("/")}
-              className="w-full text-center text-slate-400 text-sm py-2 hover:text-white transition-colors"
-            >
-              Cancel
-            </button>
+            <div className="flex">
+              <button
+                onClick={() => setShowSettings(true)}
+                className="flex-1 flex items-center justify-center gap-1 text-slate-400 text-sm py-2 hover:text-white transition-colors"
+                data-testid="button-recording-settings"
+              >
+                <Settings2 className="w-4 h-4" /> Settings
+              </button>
+              <button
+                onClick={() => setLocation("/")}
+                className="flex-1 text-center text-slate-400 text-sm py-2 hover:text-white transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
           </div>
+
+          <RecordingSettingsModal
+            isOpen={showSettings}
+            onClose={() => setShowSettings(false)}
+            initialActivityType={selectedType}
+          />
         </div>
       ) : !isRecording && hasStarted ? (
         null
       ) : (
         <>
+          {isAutoPaused && (
+            <div className="py-1 bg-amber-600 text-center text-white text-xs font-semibold" data-testid="text-auto-paused">
+              Auto-paused · resumes when you move
+            </div>
+          )}
+
           {/* Primary Stats - Large */}
           <div className="grid grid-cols-3 gap-2 p-4 bg-slate-800">
             <div className="text-center">
@@ -495,6 +522,15 @@ export default function RecordActivity() {
             >
               <MapPin className="w-6 h-6" />
             </Button>
+            <Button
+              size="lg"
+              variant="outline"
+              className="w-16 h-16 rounded-full border-sky-500 text-sky-400 hover:bg-sky-500/20"
+              onClick={addLap}
+              data-testid="button-add-lap"
+            >
+              <Flag className="w-6 h-6" />
+            </Button>
             <Button
               size="lg"
               variant="destructive"
@@ -0,0 +1,508 @@
+import { useState, useEffect, useRef, useMemo } from "react";
+import { useLocation, useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { formatDuration, formatDistance, formatElevation } from "@/hooks/useActivityRecording";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { playVoiceMessage } from "@/components/RadioPanel";
+import { cn } from "@/lib/utils";
+import {
+  ArrowLeft,
+  Loader2,
+  Play,
+  Pause,
+  MapPin,
+  MessageSquare,
+  Radio,
+  Route as RouteIcon,
+  Timer,
+  Mountain,
+} from "lucide-react";
+import mapboxgl from "mapbox-gl";
+import "mapbox-gl/dist/mapbox-gl.css";
+
+mapboxgl.accessToken = import.meta.env.VITE_MAPBOX_ACCESS_TOKEN;
+
+type TrackPoint = [number, number, number]; // lng, lat, unix ms
+
+// Response of GET /api/live-maps/:id/debrief
+interface SessionDebriefData {
+  session: { id: number; name: string; ownerId: number; isActive: boolean; createdAt: number; endedAt: number | null };
+  startTime: number;
+  endTime: number;
+  members: Array<{
+    userId: number;
+    username: string;
+    fullName: string | null;
+    role: string;
+    track: TrackPoint[];
+    stats: { distance: number; movingSeconds: number; elapsedSeconds: number; elevationGain: number | null; elevationLoss: number | null };
+  }>;
+  pois: Array<{ id: number; name: string; note: string | null; lng: number; lat: number; userId: number; username: string; timestamp: number }>;
+  routes: Array<{ id: number; name: string; coordinates: [number, number][]; userId: number; username: string; timestamp: number }>;
+  messages: Array<{ id: number; userId: number; username: string; body: string; messageType: string; timestamp: number }>;
+  voiceMessages: Array<{ id: number; userId: number; username: string; durationSeconds: number; mimeType: string; audioUrl: string; timestamp: number }>;
+}
+
+type TimelineEvent =
+  | { kind: 'poi'; timestamp: number; key: string; item: SessionDebriefData['pois'][number] }
+  | { kind: 'route'; timestamp: number; key: string; item: SessionDebriefData['routes'][number] }
+  | { kind: 'message'; timestamp: number; key: string; item: SessionDebriefData['messages'][number] }
+  | { kind: 'voice'; timestamp: number; key: string; item: SessionDebriefData['voiceMessages'][number] };
+
+// Same palette as the live map
+const MEMBER_COLORS = [
+  '#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6',
+  '#ec4899', '#06b6d4', '#84cc16', '#f97316', '#6366f1',
+];
+
+// Replay speeds as multiples of real time
+const SPEEDS = [1, 10, 60, 300];
+
+function formatClock(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit", second: "2-digit" });
+}
+
+// Where a member was at `time`: the interpolated position and the track walked so far
+function positionAt(track: TrackPoint[], time: number): { position: [number, number] | null; walked: [number, number][] } {
+  if (track.length === 0 || time < track[0][2]) return { position: null, walked: [] };
+  let lo = 0;
+  let hi = track.length - 1;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (track[mid][2] <= time) lo = mid;
+    else hi = mid - 1;
+  }
+  const walked = track.slice(0, lo + 1).map(p => [p[0], p[1]] as [number, number]);
+  const next = track[lo + 1];
+  if (!next) return { position: walked[walked.length - 1], walked };
+
+  const t = (time - track[lo][2]) / Math.max(1, next[2] - track[lo][2]);
+  const position: [number, number] = [track[lo][0] + (next[0] - track[lo][0]) * t, track[lo][1] + (next[1] - track[lo][1]) * t];
+  walked.push(position);
+  return { position, walked };
+}
+
+export default function SessionDebrief() {
+  const [, setLocation] = useLocation();
+  const params = useParams<{ id: string }>();
+
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(60);
+  const [isMapLoaded, setIsMapLoaded] = useState(false);
+
+  const mapContainer = useRef<HTMLDivElement>(null);
+  const map = useRef<mapboxgl.Map | null>(null);
+  const feedRef = useRef<HTMLDivElement>(null);
+
+  const { data: debrief, isLoading, error } = useQuery<SessionDebriefData>({
+    queryKey: [`/api/live-maps/${params.id}/debrief`],
+    enabled: !!params.id,
+  });
+
+  const memberColors = useMemo(() => {
+    const colors = new Map<number, string>();
+    [...(debrief?.members ?? [])]
+      .sort((a, b) => a.userId - b.userId)
+      .forEach((member, i) => colors.set(member.userId, MEMBER_COLORS[i % MEMBER_COLORS.length]));
+    return colors;
+  }, [debrief]);
+
+  const events = useMemo<TimelineEvent[]>(() => {
+    if (!debrief) return [];
+    return [
+      ...debrief.pois.map(item => ({ kind: 'poi' as const, timestamp: item.timestamp, key: `poi-${item.id}`, item })),
+      ...debrief.routes.map(item => ({ kind: 'route' as const, timestamp: item.timestamp, key: `route-${item.id}`, item })),
+      ...debrief.messages.map(item => ({ kind: 'message' as const, timestamp: item.timestamp, key: `message-${item.id}`, item })),
+      ...debrief.voiceMessages.map(item => ({ kind: 'voice' as const, timestamp: item.timestamp, key: `voice-${item.id}`, item })),
+    ].sort((a, b) => a.timestamp - b.timestamp);
+  }, [debrief]);
+
+  useEffect(() => {
+    if (debrief) setCurrentTime(debrief.startTime);
+  }, [debrief]);
+
+  // Playback clock
+  useEffect(() => {
+    if (!isPlaying || !debrief) return;
+    let frame: number;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const elapsed = now - last;
+      last = now;
+      setCurrentTime(prev => Math.min(prev + elapsed * speed, debrief.endTime));
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, speed, debrief]);
+
+  useEffect(() => {
+    if (debrief && currentTime >= debrief.endTime) setIsPlaying(false);
+  }, [currentTime, debrief]);
+
+  // Map setup: faded full tracks underneath, replayed state on top
+  useEffect(() => {
+    if (!mapContainer.current || !debrief) return;
+
+    const bounds = new mapboxgl.LngLatBounds();
+    debrief.members.forEach(m => m.track.forEach(p => bounds.extend([p[0], p[1]])));
+    debrief.pois.forEach(poi => bounds.extend([poi.lng, poi.lat]));
+    debrief.routes.forEach(route => route.coordinates.forEach(c => bounds.extend(c)));
+
+    map.current = new mapboxgl.Map({
+      container: mapContainer.current,
+      style: "mapbox://styles/mapbox/satellite-streets-v12",
+      center: bounds.isEmpty() ? [-110.76, 43.48] : bounds.getCenter(),
+      zoom: 13,
+    });
+    map.current.addControl(new mapboxgl.NavigationControl(), "top-right");
+
+    map.current.on("load", () => {
+      const m = map.current!;
+      const empty = { type: "FeatureCollection" as const, features: [] };
+
+      m.addSource("debrief-full-tracks", {
+        type: "geojson",
+        data: {
+          type: "FeatureCollection",
+          features: debrief.members.map(member => ({
+            type: "Feature" as const,
+            properties: { color: memberColors.get(member.userId) },
+            geometry: { type: "LineString" as const, coordinates: member.track.map(p => [p[0], p[1]]) },
+          })),
+        },
+      });
+      m.addLayer({
+        id: "debrief-full-tracks",
+        type: "line",
+        source: "debrief-full-tracks",
+        layout: { "line-join": "round", "line-cap": "round" },
+        paint: { "line-color": ["get", "color"], "line-width": 3, "line-opacity": 0.3 },
+      });
+
+      m.addSource("debrief-routes", { type: "geojson", data: empty });
+      m.addLayer({
+        id: "debrief-routes",
+        type: "line",
+        source: "debrief-routes",
+        paint: { "line-color": "#ffffff", "line-width": 2, "line-dasharray": [2, 2] },
+      });
+
+      m.addSource("debrief-walked", { type: "geojson", data: empty });
+      m.addLayer({
+        id: "debrief-walked",
+        type: "line",
+        source: "debrief-walked",
+        layout: { "line-join": "round", "line-cap": "round" },
+        paint: { "line-color": ["get", "color"], "line-width": 4 },
+      });
+
+      m.addSource("debrief-pois", { type: "geojson", data: empty });
+      m.addLayer({
+        id: "debrief-pois",
+        type: "circle",
+        source: "debrief-pois",
+        paint: { "circle-radius": 6, "circle-color": "#facc15", "circle-stroke-color": "#000000", "circle-stroke-width": 1.5 },
+      });
+
+      m.addSource("debrief-positions", { type: "geojson", data: empty });
+      m.addLayer({
+        id: "debrief-positions",
+        type: "circle",
+        source: "debrief-positions",
+        paint: { "circle-radius": 8, "circle-color": ["get", "color"], "circle-stroke-color": "#ffffff", "circle-stroke-width": 2 },
+      });
+      m.addLayer({
+        id: "debrief-position-labels",
+        type: "symbol",
+        source: "debrief-positions",
+        layout: { "text-field": ["get", "name"], "text-size": 12, "text-offset": [0, 1.4], "text-anchor": "top" },
+        paint: { "text-color": "#ffffff", "text-halo-color": "#000000", "text-halo-width": 1.5 },
+      });
+
+      if (!bounds.isEmpty()) {
+        m.fitBounds(bounds, { padding: 50, maxZoom: 16, duration: 0 });
+      }
+      setIsMapLoaded(true);
+    });
+
+    return () => {
+      setIsMapLoaded(false);
+      map.current?.remove();
+      map.current = null;
+    };
+  }, [debrief, memberColors]);
+
+  // Replayed state at the current time
+  useEffect(() => {
+    const m = map.current;
+    if (!m || !isMapLoaded || !debrief) return;
+
+    const walkedFeatures: GeoJSON.Feature[] = [];
+    const positionFeatures: GeoJSON.Feature[] = [];
+    debrief.members.forEach(member => {
+      const { position, walked } = positionAt(member.track, currentTime);
+      const color = memberColors.get(member.userId);
+      if (walked.length >= 2) {
+        walkedFeatures.push({ type: "Feature", properties: { color }, geometry: { type: "LineString", coordinates: walked } });
+      }
+      if (position) {
+        positionFeatures.push({ type: "Feature", properties: { color, name: member.username }, geometry: { type: "Point", coordinates: position } });
+      }
+    });
+
+    (m.getSource("debrief-walked") as mapboxgl.GeoJSONSource | undefined)?.setData({ type: "FeatureCollection", features: walkedFeatures });
+    (m.getSource("debrief-positions") as mapboxgl.GeoJSONSource | undefined)?.setData({ type: "FeatureCollection", features: positionFeatures });
+    (m.getSource("debrief-pois") as mapboxgl.GeoJSONSource | undefined)?.setData({
+      type: "FeatureCollection",
+      features: debrief.pois
+        .filter(poi => poi.timestamp <= currentTime)
+        .map(poi => ({ type: "Feature" as const, properties: { name: poi.name }, geometry: { type: "Point" as const, coordinates: [poi.lng, poi.lat] } })),
+    });
+    (m.getSource("debrief-routes") as mapboxgl.GeoJSONSource | undefined)?.setData({
+      type: "FeatureCollection",
+      features: debrief.routes
+        .filter(route => route.timestamp <= currentTime && route.coordinates.length >= 2)
+        .map(route => ({ type: "Feature" as const, properties: { name: route.name }, geometry: { type: "LineString" as const, coordinates: route.coordinates } })),
+    });
+  }, [currentTime, isMapLoaded, debrief, memberColors]);
+
+  // Keep the latest event that has happened in view
+  const latestEventIndex = useMemo(() => {
+    let index = -1;
+    events.forEach((event, i) => {
+      if (event.timestamp <= currentTime) index = i;
+    });
+    return index;
+  }, [events, currentTime]);
+
+  useEffect(() => {
+    if (latestEventIndex < 0 || !feedRef.current) return;
+    const el = feedRef.current.querySelector(`[data-event-index="${latestEventIndex}"]`);
+    el?.scrollIntoView({ block: "nearest" });
+  }, [latestEventIndex]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-screen bg-slate-900">
+        <Loader2 className="w-8 h-8 text-white animate-spin" />
+      </div>
+    );
+  }
+
+  if (error || !debrief) {
+    return (
+      <div className="flex flex-col items-center justify-center h-screen bg-slate-900 text-white">
+        <p className="mb-4">Session not found</p>
+        <Button onClick={() => setLocation("/")}>Go Home</Button>
+      </div>
+    );
+  }
+
+  const duration = Math.max(1, debrief.endTime - debrief.startTime);
+
+  const seekTo = (timestamp: number) => {
+    setCurrentTime(Math.min(Math.max(timestamp, debrief.startTime), debrief.endTime));
+  };
+
+  return (
+    <div className="flex flex-col h-screen bg-slate-900">
+      <div className="flex items-center gap-3 p-4 bg-slate-800">
+        <Button variant="ghost" size="icon" className="text-white" onClick={() => setLocation("/")}>
+          <ArrowLeft className="w-5 h-5" />
+        </Button>
+        <div className="min-w-0">
+          <h1 className="text-lg font-semibold text-white truncate">{debrief.session.name}</h1>
+          <p className="text-xs text-slate-400">
+            {new Date(debrief.startTime).toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric", year: "numeric" })}
+            {" · "}
+            {formatClock(debrief.startTime)} – {formatClock(debrief.endTime)}
+            {debrief.session.isActive && " · still live"}
+          </p>
+        </div>
+      </div>
+
+      <div ref={mapContainer} className="h-[45vh] flex-shrink-0" data-testid="debrief-map" />
+
+      <div className="bg-slate-800 px-4 py-3 space-y-2" data-testid="debrief-timeline">
+        <div className="flex items-center gap-3">
+          <Button
+            size="icon"
+            className="h-9 w-9 shrink-0 bg-blue-600 hover:bg-blue-700"
+            onClick={() => {
+              if (!isPlaying && currentTime >= debrief.endTime) seekTo(debrief.startTime);
+              setIsPlaying(!isPlaying);
+            }}
+            data-testid="button-debrief-play"
+          >
+            {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </Button>
+          <Slider
+            value={[currentTime]}
+            min={debrief.startTime}
+            max={debrief.endTime}
+            step={1000}
+            onValueChange={([value]) => seekTo(value)}
+            className="flex-1"
+            data-testid="slider-debrief-time"
+          />
+        </div>
+        <div className="flex items-center justify-between text-xs">
+          <span className="text-white font-mono">
+            {formatClock(currentTime)}
+            <span className="text-slate-400"> · +{formatDuration((currentTime - debrief.startTime) / 1000)} of {formatDuration(duration / 1000)}</span>
+          </span>
+          <div className="flex gap-1">
+            {SPEEDS.map(s => (
+              <button
+                key={s}
+                onClick={() => setSpeed(s)}
+                className={cn(
+                  "px-2 py-0.5 rounded text-[11px] font-medium",
+                  speed === s ? "bg-blue-600 text-white" : "bg-slate-700 text-slate-300 hover:bg-slate-600"
+                )}
+                data-testid={`button-debrief-speed-${s}`}
+              >
+                {s}×
+              </button>
+            ))}
+          </div>
+        </div>
+        {/* Event ticks along the timeline */}
+        <div className="relative h-2">
+          {events.map(event => (
+            <button
+              key={event.key}
+              onClick={() => seekTo(event.timestamp)}
+              className={cn(
+                "absolute top-0 h-2 w-1 rounded-sm -translate-x-1/2",
+                event.kind === 'voice' ? "bg-green-400" : event.kind === 'message' ? "bg-slate-400" : "bg-yellow-400"
+              )}
+              style={{ left: `${((event.timestamp - debrief.startTime) / duration) * 100}%` }}
+              aria-label={`Jump to ${formatClock(event.timestamp)}`}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-4 space-y-4">
+        <div className="bg-slate-800 rounded-lg p-4">
+          <h3 className="text-white font-semibold mb-3">Members</h3>
+          {debrief.members.length === 0 ? (
+            <p className="text-sm text-slate-400">No GPS tracks were recorded in this session.</p>
+          ) : (
+            <div className="space-y-2">
+              {debrief.members.map(member => (
+                <div key={member.userId} className="bg-slate-700/50 rounded-md p-3" data-testid={`debrief-member-${member.userId}`}>
+                  <div className="flex items-center gap-2 mb-2">
+                    <span className="w-3 h-3 rounded-full" style={{ background: memberColors.get(member.userId) }} />
+                    <span className="text-white font-medium">{member.fullName || member.username}</span>
+                    {member.role === 'owner' && <span className="text-[10px] text-slate-400 uppercase">Owner</span>}
+                  </div>
+                  <div className="grid grid-cols-3 gap-2 text-xs">
+                    <div>
+                      <div className="flex items-center gap-1 text-slate-400"><RouteIcon className="w-3 h-3" /> Distance</div>
+                      <div className="text-white font-semibold">{formatDistance(member.stats.distance)}</div>
+                    </div>
+                    <div>
+                      <div className="flex items-center gap-1 text-slate-400"><Timer className="w-3 h-3" /> Moving</div>
+                      <div className="text-white font-semibold">{formatDuration(member.stats.movingSeconds)}</div>
+                      <div className="text-[10px] text-slate-400">of {formatDuration(member.stats.elapsedSeconds)}</div>
+                    </div>
+                    <div>
+                      <div className="flex items-center gap-1 text-slate-400"><Mountain className="w-3 h-3" /> Elevation</div>
+                      {member.stats.elevationGain !== null && member.stats.elevationLoss !== null ? (
+                        <div className="font-semibold">
+                          <span className="text-green-400">+{formatElevation(member.stats.elevationGain)}</span>
+                          <span className="text-red-400 ml-1">-{formatElevation(member.stats.elevationLoss)}</span>
+                        </div>
+                      ) : (
+                        <div className="text-slate-400">N/A</div>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="bg-slate-800 rounded-lg p-4">
+          <h3 className="text-white font-semibold mb-3">Timeline</h3>
+          {events.length === 0 ? (
+            <p className="text-sm text-slate-400">No markers, routes, chat or radio messages in this session.</p>
+          ) : (
+            <div ref={feedRef} className="space-y-1 max-h-80 overflow-y-auto" data-testid="debrief-events">
+              {events.map((event, index) => {
+                const happened = event.timestamp <= currentTime;
+                return (
+                  <div
+                    key={event.key}
+                    data-event-index={index}
+                    onClick={() => seekTo(event.timestamp)}
+                    className={cn(
+                      "flex items-start gap-2 rounded-md px-2 py-1.5 text-xs cursor-pointer transition-opacity",
+                      index === latestEventIndex ? "bg-blue-600/20" : "hover:bg-slate-700/50",
+                      !happened && "opacity-40"
+                    )}
+                  >
+                    <span className="text-slate-400 font-mono w-20 shrink-0">{formatClock(event.timestamp)}</span>
+                    {event.kind === 'poi' && (
+                      <span className="text-white">
+                        <MapPin className="w-3 h-3 inline mr-1 text-yellow-400" />
+                        <b>{event.item.username}</b> marked <b>{event.item.name}</b>
+                        {event.item.note && <span className="text-slate-400"> · {event.item.note}</span>}
+                      </span>
+                    )}
+                    {event.kind === 'route' && (
+                      <span className="text-white">
+                        <RouteIcon className="w-3 h-3 inline mr-1 text-yellow-400" />
+                        <b>{event.item.username}</b> drew route <b>{event.item.name}</b>
+                      </span>
+                    )}
+                    {event.kind === 'message' && (
+                      <span className={event.item.messageType === 'system' ? "text-slate-400 italic" : "text-white"}>
+                        <MessageSquare className="w-3 h-3 inline mr-1 text-slate-400" />
+                        {event.item.messageType !== 'system' && <b>{event.item.username}: </b>}
+                        {event.item.body}
+                      </span>
+                    )}
+                    {event.kind === 'voice' && (
+                      <span className="text-white flex items-center gap-2">
+                        <span>
+                          <Radio className="w-3 h-3 inline mr-1 text-green-400" />
+                          <b>{event.item.username}</b> radio · {event.item.durationSeconds}s
+                        </span>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            playVoiceMessage({
+                              id: event.item.id,
+                              userId: event.item.userId,
+                              username: event.item.username,
+                              audioUrl: event.item.audioUrl,
+                              mimeType: event.item.mimeType,
+                              duration: event.item.durationSeconds,
+                              timestamp: event.item.timestamp,
+                            });
+                          }}
+                          className="text-green-400 hover:text-green-300"
+                          aria-label="Play radio message"
+                          data-testid={`button-debrief-voice-${event.item.id}`}
+                        >
+                          <Play className="w-3.5 h-3.5" />
+                        </button>
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState, useRef } from 'react';
-import { ArrowLeft, Upload, Trash2, Pencil, Eye, MapPin, Cloud, HardDrive, CheckCircle, Clock, AlertCircle, Loader2, X, Building2 } from 'lucide-react';
+import { ArrowLeft, Upload, Trash2, Pencil, Eye, MapPin, Cloud, HardDrive, CheckCircle, Clock, AlertCircle, Loader2, X, Building2, ListChecks, Ban } from 'lucide-react';
+import ProcessingJobsPanel from '@/components/ProcessingJobsPanel';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
@@ -51,6 +52,8 @@ export default function UploadManagement() {
     uploading: false, fileName: '', progress: 0
   });
   const xhr2DRef = useRef<XMLHttpRequest | null>(null);
+  const [tileMode2D, setTileMode2D] = useState<'cog' | 'pyramid'>('cog');
+  const [rasterType2D, setRasterType2D] = useState<'auto' | 'orthomosaic' | 'dem' | 'dsm'>('auto');
 
   // Upload state for 3D
   const [upload3D, setUpload3D] = useState<{ uploading: boolean; fileName: string; progress: string }>({
@@ -141,14 +144,15 @@ export default function UploadManagement() {
         totalSize += files[i].size;
       }
 
-      // Auto-extract GPS from first GeoTIFF
-      let bounds = { neLat: '43.5', neLng: '-110.7', swLat: '43.4', swLng: '-110.9' };
+      // Pass along the GeoTIFF bounds only when they are already lat/lng;
+      // projected files are placed by the server once it resolves their CRS
+      let bounds: { neLat: string; neLng: string; swLat: string; swLng: string } | null = null;
       try {
         const { fromBlob } = await import('geotiff');
         const tiff = await fromBlob(files[0]);
         const image = await tiff.getImage();
         const bbox = image.getBoundingBox();
-        if (bbox && bbox.length >= 4) {
+        if (bbox && bbox.length >= 4 && bbox.every(v => Math.abs(v) <= 180) && Math.abs(bbox[1]) <= 90 && Math.abs(bbox[3]) <= 90) {
           bounds = {
             swLng: String(bbox[0]),
             swLat: String(bbox[1]),
@@ -157,7 +161,7 @@ export default function UploadManagement() {
           };
         }
       } catch (err) {
-        console.warn('Could not extract GPS from GeoTIFF, using defaults');
+        console.warn('Could not read GeoTIFF bounds in the browser');
       }
 
       const now = new Date();
@@ -166,10 +170,14 @@ export default function UploadManagement() {
       formData.append('description', 'Uploaded from upload manager');
       formData.append('capturedAt', now.toISOString());
       formData.append('isPublic', 'true');
-      formData.append('northEastLat', bounds.neLat);
-      formData.append('northEastLng', bounds.neLng);
-      formData.append('southWestLat', bounds.swLat);
-      formData.append('southWestLng', bounds.swLng);
+      formData.append('tileMode', tileMode2D);
+      if (rasterType2D !== 'auto') formData.append('rasterType', rasterType2D);
+      if (bounds) {
+        formData.append('northEastLat', bounds.neLat);
+        formData.append('northEastLng', bounds.neLng);
+        formData.append('southWestLat', bounds.swLat);
+        formData.append('southWestLng', bounds.swLng);
+      }
 
       setUpload2D({ uploading: true, fileName: files[0].name, progress: 0 });
 
@@ -185,11 +193,17 @@ export default function UploadManagement() {
       };
 
       xhr.onload = () => {
+        let result: any = null;
+        try { result = JSON.parse(xhr.responseText); } catch {}
         if (xhr.status >= 200 && xhr.status < 300) {
           queryClient.invalidateQueries({ queryKey: ['/api/drone-images'] });
-          toast({ title: "2D map uploaded successfully" });
+          if (result?.crsStatus && result.crsStatus !== 'resolved') {
+            toast({ title: "2D map uploaded - check its placement", description: "The coordinate system could not be fully verified." });
+          } else {
+            toast({ title: "2D map uploaded successfully" });
+          }
         } else {
-          toast({ title: "Upload failed", description: `Server error (${xhr.status})`, variant: "destructive" });
+          toast({ title: "Upload failed", description: result?.message || `Server error (${xhr.status})`, variant: "destructive" });
         }
         setUpload2D({ uploading: false, fileName: '', progress: 0 });
         xhr2DRef.current = null;
@@ -318,7 +332,9 @@ export default function UploadManagement() {
       'complete': { icon: CheckCircle, label: 'Complete', cls: 'text-green-400 bg-green-400/10' },
       'generating_tiles': { icon: Loader2, label: 'Processing', cls: 'text-yellow-400 bg-yellow-400/10' },
       'pending': { icon: Clock, label: 'Pending', cls: 'text-gray-400 bg-gray-400/10' },
+      'queued': { icon: Clock, label: 'Queued', cls: 'text-gray-400 bg-gray-400/10' },
       'failed': { icon: AlertCircle, label: 'Failed', cls: 'text-red-400 bg-red-400/10' },
+      'cancelled': { icon: Ban, label: 'Cancelled', cls: 'text-gray-400 bg-gray-400/10' },
     };
     const c = config[s] || config['pending'];
     const Icon = c.icon;
@@ -393,14 +409,40 @@ export default function UploadManagement() {
               </h2>
               <p className="text-white/50 text-sm mt-1">Drone imagery overlays (.tiff)</p>
             </div>
-            <Button
-              onClick={handle2DUpload}
-              disabled={upload2D.uploading}
-              className="bg-blue-600 hover:bg-blue-700 text-white"
-            >
-              <Upload className="w-4 h-4 mr-2" />
-              Upload .tiff
-            </Button>
+            <div className="flex items-center gap-2">
+              <select
+                value={rasterType2D}
+                onChange={(e) => setRasterType2D(e.target.value as 'auto' | 'orthomosaic' | 'dem' | 'dsm')}
+                disabled={upload2D.uploading}
+                className="h-9 rounded-md border border-white/20 bg-gray-900 px-2 text-sm text-white"
+                title="Imagery or a single-band elevation model"
+                data-testid="select-raster-type"
+              >
+                <option value="auto">Detect type</option>
+                <option value="orthomosaic">Orthomosaic</option>
+                <option value="dem">Elevation (DEM / DTM)</option>
+                <option value="dsm">Surface (DSM)</option>
+              </select>
+              <select
+                value={tileMode2D}
+                onChange={(e) => setTileMode2D(e.target.value as 'cog' | 'pyramid')}
+                disabled={upload2D.uploading}
+                className="h-9 rounded-md border border-white/20 bg-gray-900 px-2 text-sm text-white"
+                title="How map tiles are produced for the upload"
+                data-testid="select-tile-mode"
+              >
+                <option value="cog">Tiles on demand (COG)</option>
+                <option value="pyramid">Pre-rendered tiles</option>
+              </select>
+              <Button
+                onClick={handle2DUpload}
+                disabled={upload2D.uploading}
+                className="bg-blue-600 hover:bg-blue-700 text-white"
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                Upload .tiff
+              </Button>
+            </div>
           </div>
 
           {/* 2D Upload Progress */}
@@ -444,6 +486,12 @@ export default function UploadManagement() {
                     <div className="flex items-center gap-2 mb-1">
                       <h3 className="text-sm font-medium truncate">{image.name}</h3>
                       <StatusBadge status={image.processingStatus} />
+                      {image.tileMode === 'cog' && (
+                        <span className="px-2 py-0.5 rounded-full text-xs font-medium text-purple-400 bg-purple-400/10">COG</span>
+                      )}
+                      {(image.rasterType === 'dem' || image.rasterType === 'dsm') && (
+                        <span className="px-2 py-0.5 rounded-full text-xs font-medium text-amber-400 bg-amber-400/10">{image.rasterType.toUpperCase()}</span>
+                      )}
                       {image.isActive && (
                         <span className="px-2 py-0.5 rounded-full text-xs font-medium text-blue-400 bg-blue-400/10">Active</span>
                       )}
@@ -451,6 +499,9 @@ export default function UploadManagement() {
                     <div className="flex items-center gap-3 text-xs text-white/40">
                       <span>{formatFileSize(image.sizeInMB || 0)}</span>
                       <span>{formatDate(image.uploadedAt as any)}</span>
+                      {image.minElevation != null && image.maxElevation != null && (
+                        <span>{Math.round(parseFloat(image.minElevation))}–{Math.round(parseFloat(image.maxElevation))} m</span>
+                      )}
                     </div>
                   </div>
                   <div className="flex items-center gap-2 flex-shrink-0">
@@ -574,6 +625,20 @@ export default function UploadManagement() {
             </div>
           )}
         </section>
+
+        {/* =================== PROCESSING JOBS SECTION =================== */}
+        {isAdmin && (
+          <section>
+            <div className="mb-4">
+              <h2 className="text-xl font-bold flex items-center gap-2">
+                <ListChecks className="w-5 h-5 text-yellow-400" />
+                Processing Jobs
+              </h2>
+              <p className="text-white/50 text-sm mt-1">Tile generation and 3D sync that is running, queued or failed</p>
+            </div>
+            <ProcessingJobsPanel />
+          </section>
+        )}
       </div>
 
       {/* =================== DIALOGS =================== */}
@@ -0,0 +1,473 @@
+import { lookupElevations } from './demElevation';
+import { haversineMeters } from './geo';
+import { segmentSkiDay, type SkiDay } from './skiSegmentation';
+import { storage as dbStorage } from './storage';
+import { recordingProfileSchema, type Activity, type RecordingProfile } from '@shared/schema';
+
+/**
+ * Server-side clean-up of recorded activities. Phone GPS wanders while
+ * standing still and throws the odd spike, and its altitude is noisy enough
+ * that summing every delta overstates climbing by a third or more. A saved
+ * track is filtered for outliers and spikes, smoothed with a Kalman filter
+ * and smoother, given elevations from the elevation proxy (uploaded drone
+ * DEMs, then Open-Meteo), and its totals are recomputed. The recorded
+ * `trackPoints` are never changed, and the device's own totals are kept in
+ * `rawStats` so the two can be compared. Ski days are also split into lift
+ * rides, skin climbs and runs (see skiSegmentation).
+ */
+
+export interface ActivityTotals {
+  distanceMeters: number;
+  movingTimeSeconds: number | null;
+  avgSpeedMps: number | null;
+  maxSpeedMps: number | null;
+  paceSecondsPerMile: number | null;
+  elevationGainMeters: number | null;
+  elevationLossMeters: number | null;
+  minElevationMeters: number | null;
+  maxElevationMeters: number | null;
+}
+
+export type ElevationSource = 'drone-dem' | 'open-meteo' | 'mixed' | 'gps';
+
+export interface ProcessedTrack {
+  totals: ActivityTotals;
+  pathCoordinates: number[][]; // [lng, lat] or [lng, lat, elevation]
+  elevationSource: ElevationSource | null;
+  droppedPoints: number;
+  skiDay: SkiDay | null; // lift/run segmentation, ski activities only
+}
+
+export class ActivityProcessingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ActivityProcessingError";
+    Object.setPrototypeOf(this, ActivityProcessingError.prototype);
+  }
+}
+
+export interface TrackFix {
+  lat: number;
+  lng: number;
+  altitude: number | null;
+  accuracy: number;
+  time: number; // unix ms
+}
+
+// Fastest believable speed per activity type; quicker jumps are GPS errors
+const MAX_SPEED_MPS: Record<string, number> = { hike: 6, run: 10, bike: 25, ski: 40 };
+const DEFAULT_MAX_SPEED_MPS = 40;
+// How far the true position may wander between fixes, for the Kalman filter
+const PROCESS_NOISE_MPS: Record<string, number> = { hike: 1.5, run: 3, bike: 6, ski: 8 };
+const DEFAULT_PROCESS_NOISE_MPS = 4;
+
+// Fixes reporting worse accuracy than this are dropped
+const MAX_ACCURACY_METERS = 50;
+// Imported tracks carry no accuracy; assume a typical phone fix
+const DEFAULT_ACCURACY_METERS = 10;
+// A fix this far from both neighbours while they sit close together is a spike
+const SPIKE_MIN_METERS = 25;
+// After this many fixes in a row fail the speed check, the receiver has most
+// likely re-acquired and the last kept fix was the bad one
+const MAX_CONSECUTIVE_DROPS = 5;
+
+// Slower than this between two points counts as stopped
+const MIN_MOVING_SPEED = 0.3; // m/s
+// Longer silences are signal loss; the time is not counted as moving
+const MAX_MOVING_GAP_MS = 10 * 60 * 1000;
+// Max speed is taken over at least this long so one jittery fix cannot set it
+const MAX_SPEED_WINDOW_MS = 10 * 1000;
+
+const ELEVATION_SPACING_METERS = 25;
+const ELEVATION_MAX_SAMPLES = 500;
+// Rises and dips smaller than this are noise, not climbing
+const DEM_HYSTERESIS_METERS = 2;
+const GPS_HYSTERESIS_METERS = 5;
+const GPS_SMOOTHING_WINDOW = 5;
+
+function finiteOrNull(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+// Track points as recorded by useActivityRecording or built by the track importer
+function parseTrackFixes(raw: string | null): TrackFix[] {
+  if (!raw) return [];
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(parsed)) return [];
+
+  return parsed
+    .map((p: any): TrackFix | null => {
+      const lat = finiteOrNull(p?.latitude);
+      const lng = finiteOrNull(p?.longitude);
+      const time = finiteOrNull(p?.timestamp);
+      if (lat === null || lng === null || time === null) return null;
+      return {
+        lat,
+        lng,
+        altitude: finiteOrNull(p.altitude),
+        accuracy: finiteOrNull(p.accuracy) ?? DEFAULT_ACCURACY_METERS,
+        time,
+      };
+    })
+    .filter((p): p is TrackFix => p !== null)
+    .sort((a, b) => a.time - b.time);
+}
+
+// ========================================
+// Cleaning
+// ========================================
+
+function removeOutliers(fixes: TrackFix[], maxSpeed: number): TrackFix[] {
+  const accurate = fixes.filter(fix => fix.accuracy <= MAX_ACCURACY_METERS);
+
+  // Out-and-straight-back jumps
+  const unspiked = accurate.filter((fix, i) => {
+    if (i === 0 || i === accurate.length - 1) return true;
+    const out = haversineMeters(accurate[i - 1], fix);
+    const back = haversineMeters(fix, accurate[i + 1]);
+    const across = haversineMeters(accurate[i - 1], accurate[i + 1]);
+    return !(out > SPIKE_MIN_METERS && back > SPIKE_MIN_METERS && across < Math.min(out, back) / 2);
+  });
+
+  // Impossible speeds from the last fix kept, allowing for both fixes' error
+  const kept: TrackFix[] = [];
+  let dropsInRow = 0;
+  for (const fix of unspiked) {
+    const last = kept[kept.length - 1];
+    if (last) {
+      const seconds = (fix.time - last.time) / 1000;
+      if (seconds <= 0) continue;
+      const excess = haversineMeters(last, fix) - last.accuracy - fix.accuracy;
+      if (excess > maxSpeed * seconds && dropsInRow < MAX_CONSECUTIVE_DROPS) {
+        dropsInRow++;
+        continue;
+      }
+    }
+    dropsInRow = 0;
+    kept.push(fix);
+  }
+  return kept;
+}
+
+/**
+ * Kalman filter on position with each fix's reported accuracy as measurement
+ * noise, followed by a Rauch-Tung-Striebel pass so the smoothed track does
+ * not lag behind corners.
+ */
+function smoothTrack(fixes: TrackFix[], processNoise: number): { lat: number; lng: number }[] {
+  const n = fixes.length;
+  const lat = fixes.map(f => f.lat);
+  const lng = fixes.map(f => f.lng);
+  const variance = new Array<number>(n);
+  const predicted = new Array<number>(n);
+  variance[0] = predicted[0] = fixes[0].accuracy ** 2;
+
+  for (let i = 1; i < n; i++) {
+    const seconds = (fixes[i].time - fixes[i - 1].time) / 1000;
+    predicted[i] = variance[i - 1] + seconds * processNoise ** 2;
+    const gain = predicted[i] / (predicted[i] + fixes[i].accuracy ** 2);
+    lat[i] = lat[i - 1] + gain * (fixes[i].lat - lat[i - 1]);
+    lng[i] = lng[i - 1] + gain * (fixes[i].lng - lng[i - 1]);
+    variance[i] = (1 - gain) * predicted[i];
+  }
+
+  for (let i = n - 2; i >= 0; i--) {
+    const c = variance[i] / predicted[i + 1];
+    lat[i] += c * (lat[i + 1] - lat[i]);
+    lng[i] += c * (lng[i + 1] - lng[i]);
+  }
+
+  return lat.map((value, i) => ({ lat: value, lng: lng[i] }));
+}
+
+/**
+ * Filter and smooth recorded track points. Positions are smoothed; times,
+ * accuracy and altitudes are as recorded.
+ */
+export function cleanTrack(trackPoints: string | null, activityType: string): { points: TrackFix[]; droppedPoints: number } {
+  const fixes = parseTrackFixes(trackPoints);
+  const cleaned = removeOutliers(fixes, MAX_SPEED_MPS[activityType] ?? DEFAULT_MAX_SPEED_MPS);
+  if (cleaned.length < 2) return { points: [], droppedPoints: fixes.length - cleaned.length };
+
+  const path = smoothTrack(cleaned, PROCESS_NOISE_MPS[activityType] ?? DEFAULT_PROCESS_NOISE_MPS);
+  return {
+    points: cleaned.map((fix, i) => ({ ...fix, lat: path[i].lat, lng: path[i].lng })),
+    droppedPoints: fixes.length - cleaned.length,
+  };
+}
+
+/** The recording profile saved with an activity, or null if absent or malformed. */
+export function parseRecordingProfile(raw: string | null): RecordingProfile | null {
+  if (!raw) return null;
+  try {
+    const parsed = recordingProfileSchema.safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Which steps between consecutive points count towards moving time. With
+ * auto-pause on, the profile's speed is the threshold and only stops lasting
+ * its delay are taken out, matching when the recorder paused the clock.
+ */
+export function movingSteps(points: { time: number }[], cumulative: number[], profile: RecordingProfile | null): boolean[] {
+  const autoPause = profile?.autoPause ? profile : null;
+  const threshold = autoPause ? autoPause.autoPauseSpeedMps : MIN_MOVING_SPEED;
+  const stepMs = (k: number) => points[k + 1].time - points[k].time;
+
+  const moving: boolean[] = [];
+  for (let k = 0; k < points.length - 1; k++) {
+    const ms = stepMs(k);
+    moving.push(ms > 0 && ms <= MAX_MOVING_GAP_MS && (cumulative[k + 1] - cumulative[k]) / (ms / 1000) >= threshold);
+  }
+
+  if (autoPause && autoPause.autoPauseDelaySeconds > 0) {
+    for (let k = 0; k < moving.length;) {
+      if (moving[k]) {
+        k++;
+        continue;
+      }
+      let end = k;
+      let stoppedMs = 0;
+      while (end < moving.length && !moving[end]) stoppedMs += stepMs(end++);
+      // Shorter stops never paused the clock
+      if (stoppedMs < autoPause.autoPauseDelaySeconds * 1000) {
+        for (let j = k; j < end; j++) moving[j] = stepMs(j) > 0;
+      }
+      k = end;
+    }
+  }
+  return moving;
+}
+
+// ========================================
+// Elevation
+// ========================================
+
+function movingAverage(values: number[], window: number): number[] {
+  const half = Math.floor(window / 2);
+  return values.map((_, i) => {
+    const slice = values.slice(Math.max(0, i - half), i + half + 1);
+    return slice.reduce((sum, v) => sum + v, 0) / slice.length;
+  });
+}
+
+function climbTotals(values: number[], hysteresis: number): { gain: number; loss: number } {
+  let gain = 0;
+  let loss = 0;
+  let reference = values[0];
+  for (const value of values) {
+    if (value - reference >= hysteresis) {
+      gain += value - reference;
+      reference = value;
+    } else if (reference - value >= hysteresis) {
+      loss += reference - value;
+      reference = value;
+    }
+  }
+  return { gain, loss };
+}
+
+/** Gain and loss along an elevation series, ignoring noise for its source. */
+export function elevationChange(values: number[], source: ElevationSource): { gain: number; loss: number } {
+  return climbTotals(values, source === 'gps' ? GPS_HYSTERESIS_METERS : DEM_HYSTERESIS_METERS);
+}
+
+/**
+ * Elevation at every point of the smoothed path. DEM samples every ~25 m are
+ * interpolated along the track; if the lookup fails or finds nothing, the
+ * recorded GPS altitudes are smoothed instead.
+ */
+async function trackElevations(
+  path: TrackFix[],
+  cumulative: number[],
+  userId: number
+): Promise<{ elevations: (number | null)[]; series: number[]; source: ElevationSource | null }> {
+  const total = cumulative[cumulative.length - 1];
+  const spacing = Math.max(ELEVATION_SPACING_METERS, total / ELEVATION_MAX_SAMPLES);
+  const sampleIndexes = [0];
+  for (let i = 1; i < path.length; i++) {
+    if (cumulative[i] - cumulative[sampleIndexes[sampleIndexes.length - 1]] >= spacing || i === path.length - 1) {
+      sampleIndexes.push(i);
+    }
+  }
+
+  try {
+    const { elevations, source } = await lookupElevations(sampleIndexes.map(i => [path[i].lng, path[i].lat] as [number, number]), userId);
+    const known = sampleIndexes
+      .map((index, s) => ({ index, elevation: elevations[s] }))
+      .filter((s): s is { index: number; elevation: number } => s.elevation !== null);
+
+    if (known.length >= 2) {
+      const smoothed = movingAverage(known.map(s => s.elevation), 3);
+      let next = 0;
+      const perPoint = path.map((_, i) => {
+        while (next < known.length && known[next].index < i) next++;
+        if (next === known.length) return smoothed[smoothed.length - 1];
+        if (next === 0 || known[next].index === i) return smoothed[next];
+        const a = known[next - 1];
+        const b = known[next];
+        const t = (cumulative[i] - cumulative[a.index]) / Math.max(cumulative[b.index] - cumulative[a.index], 1e-9);
+        return smoothed[next - 1] + (smoothed[next] - smoothed[next - 1]) * t;
+      });
+      return { elevations: perPoint, series: smoothed, source };
+    }
+  } catch (err) {
+    console.error('[ActivityProcessing] Elevation lookup failed, using GPS altitude:', err);
+  }
+
+  const altitudes = path.map(f => f.altitude);
+  const recorded = altitudes.filter((a): a is number => a !== null);
+  if (recorded.length < 2) {
+    return { elevations: path.map(() => null), series: [], source: null };
+  }
+  const smoothed = movingAverage(recorded, GPS_SMOOTHING_WINDOW);
+  let k = 0;
+  const perPoint = altitudes.map(a => a === null ? null : smoothed[k++]);
+  return { elevations: perPoint, series: smoothed, source: 'gps' };
+}
+
+// ========================================
+// Processing
+// ========================================
+
+/**
+ * Clean a recorded track and compute its totals. Returns null when fewer
+ * than two usable fixes remain.
+ */
+export async function processTrack(
+  trackPoints: string | null,
+  activityType: string,
+  userId: number,
+  profile: RecordingProfile | null = null
+): Promise<ProcessedTrack | null> {
+  const maxSpeed = MAX_SPEED_MPS[activityType] ?? DEFAULT_MAX_SPEED_MPS;
+  const { points: path, droppedPoints } = cleanTrack(trackPoints, activityType);
+  if (path.length < 2) return null;
+
+  const cumulative = [0];
+  for (let i = 1; i < path.length; i++) {
+    cumulative.push(cumulative[i - 1] + haversineMeters(path[i - 1], path[i]));
+  }
+  const moving = movingSteps(path, cumulative, profile);
+  let movingMs = 0;
+  for (let k = 0; k < moving.length; k++) {
+    if (moving[k]) movingMs += path[k + 1].time - path[k].time;
+  }
+  const distance = cumulative[cumulative.length - 1];
+
+  let fastest = 0;
+  for (let i = 0, j = 0; i < path.length; i++) {
+    while (j < path.length - 1 && path[j].time - path[i].time < MAX_SPEED_WINDOW_MS) j++;
+    const dt = path[j].time - path[i].time;
+    if (dt < MAX_SPEED_WINDOW_MS) break;
+    if (dt <= MAX_MOVING_GAP_MS) fastest = Math.max(fastest, (cumulative[j] - cumulative[i]) / (dt / 1000));
+  }
+
+  const { elevations, series, source } = await trackElevations(path, cumulative, userId);
+  const climb = series.length >= 2 && source ? elevationChange(series, source) : null;
+
+  const skiDay = activityType === 'ski'
+    ? await segmentSkiDay(path.map((p, i) => ({ lat: p.lat, lng: p.lng, time: p.time, elevation: elevations[i] })))
+    : null;
+
+  const movingSeconds = Math.round(movingMs / 1000);
+  const avgSpeed = movingSeconds > 0 ? distance / movingSeconds : null;
+
+  return {
+    totals: {
+      distanceMeters: distance,
+      movingTimeSeconds: movingSeconds,
+      avgSpeedMps: avgSpeed,
+      maxSpeedMps: Math.min(fastest, maxSpeed),
+      paceSecondsPerMile: avgSpeed ? Math.round(1609.34 / avgSpeed) : null,
+      elevationGainMeters: climb ? climb.gain : null,
+      elevationLossMeters: climb ? climb.loss : null,
+      minElevationMeters: series.length ? Math.min(...series) : null,
+      maxElevationMeters: series.length ? Math.max(...series) : null,
+    },
+    pathCoordinates: path.map((p, i) => {
+      const coord = [Math.round(p.lng * 1e6) / 1e6, Math.round(p.lat * 1e6) / 1e6];
+      const elevation = elevations[i];
+      return elevation !== null ? [...coord, Math.round(elevation * 10) / 10] : coord;
+    }),
+    elevationSource: source,
+    droppedPoints,
+    skiDay,
+  };
+}
+
+function parseDecimal(value: string | null): number | null {
+  if (value === null) return null;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+// The totals an activity row currently holds, as recorded on the device
+function recordedTotals(activity: Activity): ActivityTotals {
+  return {
+    distanceMeters: parseDecimal(activity.distanceMeters) ?? 0,
+    movingTimeSeconds: activity.movingTimeSeconds,
+    avgSpeedMps: parseDecimal(activity.avgSpeedMps),
+    maxSpeedMps: parseDecimal(activity.maxSpeedMps),
+    paceSecondsPerMile: activity.paceSecondsPerMile,
+    elevationGainMeters: parseDecimal(activity.elevationGainMeters),
+    elevationLossMeters: parseDecimal(activity.elevationLossMeters),
+    minElevationMeters: parseDecimal(activity.minElevationMeters),
+    maxElevationMeters: parseDecimal(activity.maxElevationMeters),
+  };
+}
+
+function decimalOrNull(value: number | null, digits: number): string | null {
+  return value !== null ? value.toFixed(digits) : null;
+}
+
+/**
+ * Recompute an activity's path and totals from its recorded track points and
+ * store them. The first run saves the device totals to `rawStats`; later runs
+ * (the "recalculate" action) leave them alone.
+ */
+export async function processActivity(activity: Activity): Promise<Activity> {
+  const processed = await processTrack(
+    activity.trackPoints,
+    activity.activityType,
+    activity.userId,
+    parseRecordingProfile(activity.recordingProfile)
+  );
+  if (!processed) {
+    throw new ActivityProcessingError('This activity has too few usable track points to recalculate');
+  }
+
+  const { totals } = processed;
+  const updated = await dbStorage.updateActivity(activity.id, {
+    distanceMeters: totals.distanceMeters.toFixed(2),
+    movingTimeSeconds: totals.movingTimeSeconds,
+    avgSpeedMps: decimalOrNull(totals.avgSpeedMps, 4),
+    maxSpeedMps: decimalOrNull(totals.maxSpeedMps, 4),
+    paceSecondsPerMile: totals.paceSecondsPerMile,
+    // Without any elevation source the recorded values are the best there is
+    ...(processed.elevationSource !== null && {
+      elevationGainMeters: decimalOrNull(totals.elevationGainMeters, 2),
+      elevationLossMeters: decimalOrNull(totals.elevationLossMeters, 2),
+      minElevationMeters: decimalOrNull(totals.minElevationMeters, 2),
+      maxElevationMeters: decimalOrNull(totals.maxElevationMeters, 2),
+    }),
+    pathCoordinates: JSON.stringify(processed.pathCoordinates),
+    rawStats: activity.rawStats ?? JSON.stringify(recordedTotals(activity)),
+    elevationSource: processed.elevationSource,
+    droppedPoints: processed.droppedPoints,
+    skiSegments: processed.skiDay ? JSON.stringify(processed.skiDay) : null,
+    processedAt: new Date(),
+  });
+  if (!updated) {
+    throw new ActivityProcessingError('Activity not found');
+  }
+  return updated;
+}
@@ -0,0 +1,306 @@
+import { cleanTrack, elevationChange, movingSteps, parseRecordingProfile, type ElevationSource, type TrackFix } from './activityProcessing';
+import { haversineMeters } from './geo';
+import type { Activity } from '@shared/schema';
+
+/**
+ * Per-kilometre or per-mile splits, manual laps and pace zones for a saved
+ * activity, computed from its recorded track points after the same cleaning
+ * the totals go through. Split and lap boundaries are interpolated between
+ * fixes, so a split ends exactly at its kilometre or mile and a lap exactly
+ * when it was marked. The app stores no threshold pace, so zones are bands
+ * around the activity's own average moving speed.
+ */
+
+export type SplitUnit = 'km' | 'mi';
+
+export const SPLIT_UNITS: SplitUnit[] = ['km', 'mi'];
+
+export interface ActivitySplit {
+  index: number; // 1-based
+  startDistanceMeters: number;
+  distanceMeters: number;
+  elapsedSeconds: number;
+  movingSeconds: number;
+  avgSpeedMps: number | null; // over moving time
+  paceSecondsPerUnit: number | null; // moving time per km or mile
+  elevationGainMeters: number | null;
+  elevationLossMeters: number | null;
+}
+
+export interface PaceZone {
+  name: string;
+  minSpeedMps: number;
+  maxSpeedMps: number | null;
+  seconds: number;
+}
+
+export interface SpeedSample {
+  distanceMeters: number;
+  speedMps: number | null; // null while stopped
+}
+
+export interface ActivitySplits {
+  unit: SplitUnit;
+  splits: ActivitySplit[];
+  laps: ActivitySplit[];
+  zones: PaceZone[];
+  series: SpeedSample[];
+}
+
+const UNIT_METERS: Record<SplitUnit, number> = { km: 1000, mi: 1609.34 };
+
+// Speeds are averaged over this window so single noisy steps do not jump zones
+const SPEED_WINDOW_MS = 30 * 1000;
+// Slower than this is shown as stopped on the pace chart
+const MIN_CHART_SPEED = 0.3; // m/s
+const MAX_SERIES_SAMPLES = 200;
+// A trailing split shorter than this is folded into the one before it
+const MIN_LAST_SPLIT_METERS = 10;
+
+// Zone bands as fractions of the activity's average moving speed
+const PACE_ZONES: { name: string; from: number }[] = [
+  { name: 'Recovery', from: 0 },
+  { name: 'Easy', from: 0.8 },
+  { name: 'Steady', from: 0.92 },
+  { name: 'Tempo', from: 1.05 },
+  { name: 'Fast', from: 1.15 },
+];
+
+// ========================================
+// Track
+// ========================================
+
+interface SplitTrack {
+  cumulative: number[];
+  times: number[];
+  elevations: (number | null)[];
+  elevationSource: ElevationSource;
+  moving: boolean[]; // per step, by the activity's recording profile
+}
+
+/**
+ * Elevations come from the processed path when it lines up point for point
+ * with the cleaned track (it was built from the same points), otherwise from
+ * the recorded altitudes.
+ */
+function trackElevations(activity: Activity, points: TrackFix[]): { elevations: (number | null)[]; source: ElevationSource } {
+  if (activity.processedAt && activity.elevationSource) {
+    try {
+      const path: number[][] = JSON.parse(activity.pathCoordinates);
+      if (path.length === points.length && path.every(c => typeof c[2] === 'number')) {
+        return { elevations: path.map(c => c[2]), source: activity.elevationSource as ElevationSource };
+      }
+    } catch {
+      // Fall through to the recorded altitudes
+    }
+  }
+  return { elevations: points.map(p => p.altitude), source: 'gps' };
+}
+
+function buildTrack(activity: Activity, points: TrackFix[]): SplitTrack {
+  const cumulative = [0];
+  for (let i = 1; i < points.length; i++) {
+    cumulative.push(cumulative[i - 1] + haversineMeters(points[i - 1], points[i]));
+  }
+  const { elevations, source } = trackElevations(activity, points);
+  return {
+    cumulative,
+    times: points.map(p => p.time),
+    elevations,
+    elevationSource: source,
+    moving: movingSteps(points, cumulative, parseRecordingProfile(activity.recordingProfile)),
+  };
+}
+
+// Fractional point index where `values` (ascending) first reaches `target`
+function positionOf(values: number[], target: number): number {
+  if (target <= values[0]) return 0;
+  if (target >= values[values.length - 1]) return values.length - 1;
+  let lo = 0;
+  let hi = values.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (values[mid] < target) lo = mid;
+    else hi = mid;
+  }
+  const span = values[hi] - values[lo];
+  return lo + (span > 0 ? (target - values[lo]) / span : 0);
+}
+
+function valueAt(values: number[], position: number): number {
+  const i = Math.floor(position);
+  if (i >= values.length - 1) return values[values.length - 1];
+  return values[i] + (values[i + 1] - values[i]) * (position - i);
+}
+
+function elevationAt(elevations: (number | null)[], position: number): number | null {
+  const i = Math.floor(position);
+  const a = elevations[i];
+  const b = elevations[Math.min(i + 1, elevations.length - 1)];
+  if (a === null || b === null) return a ?? b;
+  return a + (b - a) * (position - i);
+}
+
+// Stats between two fractional positions on the track
+function intervalStats(track: SplitTrack, index: number, from: number, to: number, unitMeters: number): ActivitySplit {
+  const { cumulative, times, elevations } = track;
+  const startDistance = valueAt(cumulative, from);
+  const distance = valueAt(cumulative, to) - startDistance;
+
+  let movingMs = 0;
+  for (let k = Math.floor(from); k < Math.ceil(to) && k < times.length - 1; k++) {
+    if (!track.moving[k]) continue;
+    const stepMs = times[k + 1] - times[k];
+    const overlap = Math.min(to, k + 1) - Math.max(from, k);
+    if (overlap > 0) movingMs += stepMs * overlap;
+  }
+
+  const series = [elevationAt(elevations, from)];
+  for (let k = Math.floor(from) + 1; k < to; k++) series.push(elevations[k]);
+  series.push(elevationAt(elevations, to));
+  const known = series.filter((e): e is number => e !== null);
+  const climb = known.length >= 2 ? elevationChange(known, track.elevationSource) : null;
+
+  const movingSeconds = Math.round(movingMs / 1000);
+  const avgSpeed = movingMs > 0 ? distance / (movingMs / 1000) : null;
+  return {
+    index,
+    startDistanceMeters: Math.round(startDistance),
+    distanceMeters: Math.round(distance),
+    elapsedSeconds: Math.round((valueAt(times, to) - valueAt(times, from)) / 1000),
+    movingSeconds,
+    avgSpeedMps: avgSpeed !== null ? Math.round(avgSpeed * 1000) / 1000 : null,
+    paceSecondsPerUnit: avgSpeed ? Math.round(unitMeters / avgSpeed) : null,
+    elevationGainMeters: climb ? Math.round(climb.gain * 10) / 10 : null,
+    elevationLossMeters: climb ? Math.round(climb.loss * 10) / 10 : null,
+  };
+}
+
+// ========================================
+// Splits, laps and zones
+// ========================================
+
+function distanceSplits(track: SplitTrack, unitMeters: number): ActivitySplit[] {
+  const total = track.cumulative[track.cumulative.length - 1];
+  const boundaries = [0];
+  for (let d = unitMeters; d < total; d += unitMeters) boundaries.push(d);
+  if (boundaries.length > 1 && total - boundaries[boundaries.length - 1] < MIN_LAST_SPLIT_METERS) boundaries.pop();
+  boundaries.push(total);
+
+  const splits: ActivitySplit[] = [];
+  for (let i = 1; i < boundaries.length; i++) {
+    const from = positionOf(track.cumulative, boundaries[i - 1]);
+    const to = positionOf(track.cumulative, boundaries[i]);
+    splits.push(intervalStats(track, i, from, to, unitMeters));
+  }
+  return splits;
+}
+
+function parseLapMarkers(raw: string | null): number[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed)
+      ? parsed.filter((t): t is number => typeof t === 'number' && Number.isFinite(t)).sort((a, b) => a - b)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+// Laps run between the start, each marker and the end; no markers, no laps
+function lapSplits(track: SplitTrack, markers: number[], unitMeters: number): ActivitySplit[] {
+  const start = track.times[0];
+  const end = track.times[track.times.length - 1];
+  const inside = markers.filter(t => t > start && t < end);
+  if (inside.length === 0) return [];
+
+  const boundaries = [start, ...inside, end];
+  const laps: ActivitySplit[] = [];
+  for (let i = 1; i < boundaries.length; i++) {
+    const from = positionOf(track.times, boundaries[i - 1]);
+    const to = positionOf(track.times, boundaries[i]);
+    laps.push(intervalStats(track, i, from, to, unitMeters));
+  }
+  return laps;
+}
+
+// Speed at each point, averaged over SPEED_WINDOW_MS around it
+function windowedSpeeds(track: SplitTrack): number[] {
+  const { cumulative, times } = track;
+  const speeds: number[] = [];
+  let lo = 0;
+  let hi = 0;
+  for (let i = 0; i < times.length; i++) {
+    while (times[i] - times[lo] > SPEED_WINDOW_MS / 2) lo++;
+    while (hi < times.length - 1 && times[hi + 1] - times[i] <= SPEED_WINDOW_MS / 2) hi++;
+    const seconds = (times[hi] - times[lo]) / 1000;
+    speeds.push(seconds > 0 ? (cumulative[hi] - cumulative[lo]) / seconds : 0);
+  }
+  return speeds;
+}
+
+function paceZones(track: SplitTrack, speeds: number[]): PaceZone[] {
+  const { cumulative, times } = track;
+  let movingMs = 0;
+  let movingMeters = 0;
+  const steps: { ms: number; speed: number }[] = [];
+  for (let k = 0; k < times.length - 1; k++) {
+    if (!track.moving[k]) continue;
+    const ms = times[k + 1] - times[k];
+    movingMs += ms;
+    movingMeters += cumulative[k + 1] - cumulative[k];
+    steps.push({ ms, speed: speeds[k] });
+  }
+  const average = movingMs > 0 ? movingMeters / (movingMs / 1000) : 0;
+
+  const zones = PACE_ZONES.map((zone, i) => ({
+    name: zone.name,
+    minSpeedMps: Math.round(zone.from * average * 1000) / 1000,
+    maxSpeedMps: i < PACE_ZONES.length - 1 ? Math.round(PACE_ZONES[i + 1].from * average * 1000) / 1000 : null,
+    ms: 0,
+  }));
+  if (average > 0) {
+    for (const step of steps) {
+      let z = zones.length - 1;
+      while (z > 0 && step.speed < PACE_ZONES[z].from * average) z--;
+      zones[z].ms += step.ms;
+    }
+  }
+  return zones.map(({ ms, ...zone }) => ({ ...zone, seconds: Math.round(ms / 1000) }));
+}
+
+function speedSeries(track: SplitTrack, speeds: number[]): SpeedSample[] {
+  const total = track.cumulative[track.cumulative.length - 1];
+  const count = Math.min(MAX_SERIES_SAMPLES, track.cumulative.length);
+  const samples: SpeedSample[] = [];
+  for (let s = 0; s < count; s++) {
+    const distance = count > 1 ? total * s / (count - 1) : 0;
+    const speed = speeds[Math.round(positionOf(track.cumulative, distance))];
+    samples.push({
+      distanceMeters: Math.round(distance),
+      speedMps: speed >= MIN_CHART_SPEED ? Math.round(speed * 1000) / 1000 : null,
+    });
+  }
+  return samples;
+}
+
+/**
+ * Splits, laps, pace zones and a speed-over-distance series for an activity.
+ * Returns null when the track has fewer than two usable points.
+ */
+export function computeActivitySplits(activity: Activity, unit: SplitUnit): ActivitySplits | null {
+  const { points } = cleanTrack(activity.trackPoints, activity.activityType);
+  if (points.length < 2) return null;
+
+  const track = buildTrack(activity, points);
+  const unitMeters = UNIT_METERS[unit];
+  const speeds = windowedSpeeds(track);
+  return {
+    unit,
+    splits: distanceSplits(track, unitMeters),
+    laps: lapSplits(track, parseLapMarkers(activity.lapMarkers), unitMeters),
+    zones: paceZones(track, speeds),
+    series: speedSeries(track, speeds),
+  };
+}
@@ -17,6 +17,11 @@ async function addIndexes() {
 
       'CREATE INDEX IF NOT EXISTS idx_activities_user_start ON activities(user_id, start_time DESC)',
 
+      'CREATE INDEX IF NOT EXISTS idx_segments_user_id ON segments(user_id)',
+      'CREATE INDEX IF NOT EXISTS idx_segment_efforts_segment ON segment_efforts(segment_id, elapsed_seconds)',
+      'CREATE INDEX IF NOT EXISTS idx_segment_efforts_activity ON segment_efforts(activity_id)',
+      'CREATE INDEX IF NOT EXISTS idx_segment_efforts_user ON segment_efforts(user_id)',
+
       'CREATE INDEX IF NOT EXISTS idx_routes_is_public ON routes(is_public) WHERE is_public = true',
 
       'CREATE INDEX IF NOT EXISTS idx_route_shares_route_id ON route_shares(route_id)',
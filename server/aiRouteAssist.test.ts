@@ -0,0 +1,162 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AiConversation, Route } from '@shared/schema';
+import type { ModelRequest, ModelResponse, RouteAssistModel } from './aiRouteModel';
+
+/**
+ * The assistant's tool loop, round cap and conversation storage, driven by a
+ * scripted mock model. Storage is stubbed in memory, so no database or API
+ * key is needed. db.ts insists on a DATABASE_URL at import time; it is never
+ * connected to.
+ */
+
+process.env.DATABASE_URL ??= 'postgres://test@localhost/test';
+
+const { storage } = await import('./storage');
+const { createMockModel } = await import('./aiRouteModel');
+const { processRouteAssistRequest, ConversationNotFoundError } = await import('./aiRouteAssist');
+
+const USER_ID = 7;
+
+const conversations = new Map<number, AiConversation>();
+let nextConversationId = 1;
+
+storage.getActivitiesByUser = async () => [];
+storage.getRoutesByUser = async () => [{
+  id: 42,
+  name: 'Ridge Loop',
+  description: null,
+  notes: null,
+  pathCoordinates: JSON.stringify([[-105.5, 40.0], [-105.49, 40.01]]),
+  totalDistance: '3218.69',
+  elevationGain: '304.80',
+  elevationLoss: '304.80',
+  routingMode: 'trail',
+} as unknown as Route];
+storage.getAiConversation = async (id) => conversations.get(id);
+storage.createAiConversation = async (data) => {
+  const conversation = {
+    id: nextConversationId++,
+    activityType: 'hiking',
+    messages: '[]',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...data,
+  } as AiConversation;
+  conversations.set(conversation.id, conversation);
+  return conversation;
+};
+storage.updateAiConversation = async (id, data) => {
+  const conversation = conversations.get(id);
+  if (!conversation) return undefined;
+  Object.assign(conversation, data);
+  return conversation;
+};
+
+// Records what the model was asked on each call; the loop keeps appending to the same messages array
+function recordingModel(script: ModelResponse[]): { model: RouteAssistModel; requests: ModelRequest[] } {
+  const mock = createMockModel(script);
+  const requests: ModelRequest[] = [];
+  return {
+    requests,
+    model: {
+      name: mock.name,
+      createMessage: (request) => {
+        requests.push({ ...request, messages: structuredClone(request.messages) });
+        return mock.createMessage(request);
+      },
+    },
+  };
+}
+
+const toolCall = (id: string, name: string, input: Record<string, unknown> = {}): ModelResponse => ({
+  content: [{ type: 'tool_use', id, name, input }],
+  stopReason: 'tool_use',
+});
+const reply = (text: string): ModelResponse => ({ content: [{ type: 'text', text }], stopReason: 'end_turn' });
+
+function request(message: string, conversationId?: number) {
+  return {
+    message,
+    activityType: 'hiking' as const,
+    mapCenter: { lat: 40, lng: -105.5 },
+    mapZoom: 12,
+    conversationId,
+    conversationHistory: [],
+    userId: USER_ID,
+  };
+}
+
+beforeEach(() => {
+  conversations.clear();
+  nextConversationId = 1;
+});
+
+test('runs tool calls and feeds their results back to the model', async () => {
+  const { model, requests } = recordingModel([
+    toolCall('call_1', 'search_my_routes', { query: 'ridge' }),
+    reply('You have a saved route called Ridge Loop.'),
+  ]);
+
+  const response = await processRouteAssistRequest(request('Find my ridge route'), storage, model);
+
+  assert.equal(response.message, 'You have a saved route called Ridge Loop.');
+  assert.equal(requests.length, 2);
+  assert.equal(requests[0].toolChoice, 'auto');
+
+  const [, assistant, toolResults] = requests[1].messages;
+  assert.equal(assistant.role, 'assistant');
+  assert.equal(toolResults.role, 'user');
+  assert.ok(Array.isArray(toolResults.content));
+  const [result] = toolResults.content as { type: string; tool_use_id: string; content: string }[];
+  assert.equal(result.type, 'tool_result');
+  assert.equal(result.tool_use_id, 'call_1');
+  assert.match(result.content, /"Ridge Loop" \[ID: 42\]/);
+});
+
+test('stops after the round cap and makes the last round answer without tools', async () => {
+  const script = Array.from({ length: 10 }, (_, i) => toolCall(`call_${i}`, 'search_my_routes'));
+  const { model, requests } = recordingModel(script);
+
+  const response = await processRouteAssistRequest(request('Keep searching'), storage, model);
+
+  assert.equal(requests.length, 8);
+  assert.ok(requests.slice(0, -1).every(r => r.toolChoice === 'auto'));
+  assert.equal(requests[requests.length - 1].toolChoice, 'none');
+  assert.match(response.message, /couldn't finish planning/);
+});
+
+test('stores the conversation and replays it on a follow-up', async () => {
+  const first = recordingModel([reply('Where would you like to hike?')]);
+  const started = await processRouteAssistRequest(request('Plan a hike'), storage, first.model);
+
+  assert.equal(started.conversationId, 1);
+  const stored = conversations.get(1)!;
+  assert.equal(stored.userId, USER_ID);
+  assert.equal(stored.title, 'Plan a hike');
+  assert.deepEqual(JSON.parse(stored.messages).map((m: { role: string; content: string }) => [m.role, m.content]), [
+    ['user', 'Plan a hike'],
+    ['assistant', 'Where would you like to hike?'],
+  ]);
+
+  const followUp = recordingModel([reply('Ridge Loop is a good one.')]);
+  const continued = await processRouteAssistRequest(request('Near Boulder', 1), storage, followUp.model);
+
+  assert.equal(continued.conversationId, 1);
+  assert.deepEqual(followUp.requests[0].messages.map(m => [m.role, m.content]), [
+    ['user', 'Plan a hike'],
+    ['assistant', 'Where would you like to hike?'],
+    ['user', 'Near Boulder'],
+  ]);
+  assert.equal(JSON.parse(conversations.get(1)!.messages).length, 4);
+  assert.equal(conversations.size, 1);
+});
+
+test("refuses to continue another user's conversation", async () => {
+  await processRouteAssistRequest(request('Plan a hike'), storage, recordingModel([reply('Sure.')]).model);
+
+  await assert.rejects(
+    processRouteAssistRequest({ ...request('Near Boulder', 1), userId: USER_ID + 1 }, storage, recordingModel([]).model),
+    ConversationNotFoundError
+  );
+});
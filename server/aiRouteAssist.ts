@@ -1,22 +1,24 @@
-import Anthropic from '@anthropic-ai/sdk';
-
-function getAnthropicClient(): Anthropic {
-  const rawApiKey = (process.env.ANTHROPIC_API_KEY || '').trim();
-  let apiKey = rawApiKey;
-  const match = rawApiKey.match(/sk-ant-[A-Za-z0-9_-]{20,}/);
-  if (match) {
-    apiKey = match[0];
-  }
-  if (apiKey.length > 300 || !apiKey.startsWith('sk-ant-')) {
-    console.error(`[AI Route Assist] ANTHROPIC_API_KEY is invalid (length=${rawApiKey.length}, starts="${rawApiKey.substring(0, 15)}"). Please set it to your actual Anthropic API key (starts with sk-ant-).`);
-  }
-  return new Anthropic({ apiKey });
-}
-
-const OVERPASS_ENDPOINTS = [
-  'https://overpass-api.de/api/interpreter',
-  'https://overpass.kumi.systems/api/interpreter',
-];
+import type Anthropic from '@anthropic-ai/sdk';
+import { estimateTravelTime, getTravelCalibration, segmentSeconds, type TravelLeg, type TravelMode } from './travelTime';
+import { calculatePreferredRoute, type ActivityProfile, type RouteSource } from './trailRouting';
+import { ROUTE_LOOKUP_TOOLS, runRouteLookupTool, type RouteToolContext } from './aiRouteTools';
+import { getRouteAssistModel, type ModelContentBlock, type RouteAssistModel } from './aiRouteModel';
+import { lngLatMeters } from './geo';
+import type { IStorage } from './storage';
+
+/**
+ * The AI route assistant. The model plans with tools (geocoding, OSM trails
+ * and POIs, trail routing, elevation, community routes and the user's own
+ * routes and activities) and hands its suggestions back through the
+ * `suggest_routes` tool, where they are snapped to the trail network and timed
+ * before the user sees them. Conversations are stored per user so follow-ups
+ * survive a page reload.
+ */
+
+// Model calls per request before the assistant has to answer with what it has
+const MAX_TOOL_ROUNDS = 8;
+// Stored messages replayed to the model on a follow-up
+const HISTORY_MESSAGES = 10;
 
 function sanitizeForApi(text: string): string {
   return text
@@ -38,49 +40,26 @@ function sanitizeForApi(text: string): string {
     .replace(/[^\x00-\x7F]/g, ' ');
 }
 
-async function geocodeLocation(query: string): Promise<Array<{
-  name: string;
-  lat: number;
-  lng: number;
-  fullName: string;
-  relevance: number;
-}>> {
-  const token = process.env.MAPBOX_ACCESS_TOKEN || process.env.VITE_MAPBOX_ACCESS_TOKEN;
-  if (!token) return [];
-
-  try {
-    const encoded = encodeURIComponent(query);
-    const url = `https://api.mapbox.com/geocoding/v5/mapbox.places/${encoded}.json?access_token=${token}&limit=5&types=poi,place,locality,neighborhood,region`;
-    const response = await fetch(url, { signal: AbortSignal.timeout(10000) });
-    if (!response.ok) return [];
-
-    const data = await response.json();
-    if (!data.features || data.features.length === 0) return [];
-
-    return data.features.map((f: any) => ({
-      name: f.text,
-      lat: f.center[1],
-      lng: f.center[0],
-      fullName: f.place_name,
-      relevance: f.relevance,
-    }));
-  } catch (e) {
-    console.error('[AI Route Assist] Geocoding error:', e);
-    return [];
-  }
-}
-
 interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
 }
 
+// A message as stored in ai_conversations.messages
+export interface StoredChatMessage extends ChatMessage {
+  routeOptions?: RouteOption[];
+  createdAt: string;
+}
+
 interface RouteAssistRequest {
   message: string;
   activityType: 'hiking' | 'downhill_skiing' | 'xc_skiing' | 'mountain_biking' | 'trail_running' | 'general';
   mapCenter: { lat: number; lng: number };
   mapZoom: number;
+  // Continue a stored conversation; without one, conversationHistory is used and a new conversation is started
+  conversationId?: number;
   conversationHistory: ChatMessage[];
+  userId?: number;
   existingRoute?: {
     name: string;
     waypoints: Array<{ name: string; lat: number; lng: number; elevation?: number }>;
@@ -98,7 +77,7 @@ interface SuggestedWaypoint {
   description?: string;
 }
 
-interface RouteOption {
+export interface RouteOption {
   label: string;
   source: 'trail_data' | 'community';
   description: string;
@@ -106,359 +85,366 @@ interface RouteOption {
   waypoints: SuggestedWaypoint[];
   communityRouteId?: number;
   communityAuthor?: string;
+  // Filled in by the trail router, not by Claude: the option's waypoints
+  // routed along mapped ways, in [lng, lat] pairs, with distances in meters
+  path?: [number, number][];
+  distance?: number;
+  elevationGain?: number;
+  elevationLoss?: number;
+  snap?: RouteSnapReport;
+  // Filled in by the travel time model, not by Claude
+  estimatedTime?: number;
+  legs?: TravelLeg[];
+}
+
+// How far the snapped path strayed from Claude's sketch. 'flagged' options
+// routed but look suspect; 'unverified' ones could not be checked (skiing has
+// no routable network in OSM) and still follow the sketch.
+interface RouteSnapReport {
+  status: 'snapped' | 'flagged' | 'unverified';
+  source?: RouteSource;
+  maxDeviationMeters?: number;
+  meanDeviationMeters?: number;
+  waypointOffsetsMeters?: number[];
+  warnings: string[];
 }
 
 interface RouteAssistResponse {
   message: string;
   routeOptions?: RouteOption[];
   flyToCenter?: { lat: number; lng: number; name: string };
+  conversationId?: number;
 }
 
-async function fetchTrailDataForArea(
-  center: { lat: number; lng: number },
-  zoom: number,
-  activityType: string,
-  overrideRadiusDeg?: number
-): Promise<string> {
-  const radiusDeg = overrideRadiusDeg || Math.max(0.02, 0.5 / Math.pow(2, Math.max(0, zoom - 10)));
-  const south = center.lat - radiusDeg;
-  const north = center.lat + radiusDeg;
-  const west = center.lng - radiusDeg;
-  const east = center.lng + radiusDeg;
-
-  let wayFilters = '';
-  switch (activityType) {
-    case 'downhill_skiing':
-      wayFilters = `
-        way["piste:type"="downhill"](${south},${west},${north},${east});
-        way["aerialway"](${south},${west},${north},${east});
-        node["aerialway"="station"](${south},${west},${north},${east});
-      `;
-      break;
-    case 'xc_skiing':
-      wayFilters = `
-        way["piste:type"="nordic"](${south},${west},${north},${east});
-        way["piste:type"="skitour"](${south},${west},${north},${east});
-        way["highway"="path"]["piste:type"](${south},${west},${north},${east});
-        way["landuse"="winter_sports"](${south},${west},${north},${east});
-      `;
-      break;
-    case 'mountain_biking':
-      wayFilters = `
-        way["highway"="path"]["mtb:scale"](${south},${west},${north},${east});
-        way["highway"="track"](${south},${west},${north},${east});
-        way["highway"="path"]["bicycle"!="no"](${south},${west},${north},${east});
-        way["route"="mtb"](${south},${west},${north},${east});
-      `;
-      break;
-    case 'trail_running':
-    case 'hiking':
-    default:
-      wayFilters = `
-        way["highway"="path"](${south},${west},${north},${east});
-        way["highway"="footway"](${south},${west},${north},${east});
-        way["highway"="track"](${south},${west},${north},${east});
-        way["highway"="bridleway"](${south},${west},${north},${east});
-        way["route"="hiking"](${south},${west},${north},${east});
-        way["sac_scale"](${south},${west},${north},${east});
-      `;
-      break;
-  }
-
-  const query = `
-    [out:json][timeout:60];
-    (
-      ${wayFilters}
-      node["natural"="peak"](${south},${west},${north},${east});
-      node["natural"="saddle"](${south},${west},${north},${east});
-      node["tourism"~"viewpoint|alpine_hut"](${south},${west},${north},${east});
-      node["amenity"="parking"]["access"!="private"](${south},${west},${north},${east});
-    );
-    out body;
-    >;
-    out skel qt;
-  `;
-
-  for (const endpoint of OVERPASS_ENDPOINTS) {
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 20000);
-      const response = await fetch(endpoint, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-        body: `data=${encodeURIComponent(query)}`,
-        signal: controller.signal,
-      });
-      clearTimeout(timeoutId);
-      if (!response.ok) continue;
-      const data = await response.json();
-      if (!data.elements || data.elements.length === 0) {
-        return 'No trail data found in this area from OpenStreetMap.';
-      }
-      return summarizeTrailData(data, activityType);
-    } catch (e) {
-      console.error(`Overpass fetch failed (${endpoint}):`, e);
-      continue;
-    }
+export class ConversationNotFoundError extends Error {
+  constructor() {
+    super('Conversation not found');
+    this.name = 'ConversationNotFoundError';
   }
-  return 'Unable to fetch trail data. Overpass API may be temporarily unavailable.';
 }
 
-function summarizeTrailData(osmData: any, activityType: string): string {
-  const nodes = new Map<number, { lat: number; lon: number; tags?: any }>();
-  const ways: Array<{ name: string; type: string; tags: any; nodeIds: number[] }> = [];
-  const pois: Array<{ name: string; type: string; lat: number; lon: number; ele?: string }> = [];
-
-  for (const el of osmData.elements) {
-    if (el.type === 'node') {
-      nodes.set(el.id, { lat: el.lat, lon: el.lon, tags: el.tags });
-      if (el.tags?.name) {
-        const poiType = el.tags.natural || el.tags.tourism || el.tags.amenity || el.tags.aerialway || 'point';
-        pois.push({ name: el.tags.name, type: poiType, lat: el.lat, lon: el.lon, ele: el.tags.ele });
-      }
-    }
+// The panel sends short activity names; the prompt and trail queries use the long ones
+const ACTIVITY_NAMES: Record<string, RouteAssistRequest['activityType']> = {
+  downhill_ski: 'downhill_skiing',
+  xc_ski: 'xc_skiing',
+  mtb: 'mountain_biking',
+};
+
+// The panel and the route builder send short names; the request type uses long ones
+const ACTIVITY_TRAVEL_MODES: Record<string, TravelMode> = {
+  hiking: 'hiking',
+  general: 'hiking',
+  trail_running: 'trail_running',
+  mountain_biking: 'mtb',
+  mtb: 'mtb',
+  downhill_skiing: 'downhill_ski',
+  downhill_ski: 'downhill_ski',
+  xc_skiing: 'nordic',
+  xc_ski: 'nordic',
+};
+
+// Pace rules of thumb for the prompt, so the durations Claude writes match the ones the app computes
+async function buildPaceContext(mode: TravelMode, userId?: number): Promise<string> {
+  const calibration = userId ? await getTravelCalibration(userId, mode) : null;
+  const factor = calibration?.factor ?? 1;
+  const mile = 1609.34;
+  const flat = segmentSeconds(mode, mile, 0) * factor / 60;
+  const climb = segmentSeconds(mode, mile, 304.8) * factor / 60;
+  const descent = segmentSeconds(mode, mile, -304.8) * factor / 60;
+
+  const lines = [
+    `- Flat ground: about ${Math.round(flat)} min per mile`,
+    `- A mile that climbs 1,000 ft: about ${Math.round(climb)} min`,
+    `- A mile that descends 1,000 ft: about ${Math.round(descent)} min`,
+  ];
+  if (calibration) {
+    const percent = Math.round(Math.abs(factor - 1) * 100);
+    lines.push(`- Calibrated from ${calibration.activityCount} of the user's recorded activities (${percent === 0 ? 'right on' : `${percent}% ${factor > 1 ? 'slower than' : 'faster than'}`} the standard model)`);
+  } else {
+    lines.push('- No recorded activities to calibrate against yet; these are standard paces');
   }
+  return lines.join('\n');
+}
 
-  for (const el of osmData.elements) {
-    if (el.type === 'way' && el.tags) {
-      const name = el.tags.name || el.tags.ref || 'Unnamed trail';
-      const type = el.tags['piste:type'] || el.tags.highway || el.tags.aerialway || el.tags.route || 'way';
-      ways.push({ name, type, tags: el.tags, nodeIds: el.nodes || [] });
-    }
+// ========================================
+// Snapping route options to the trail network
+// ========================================
+
+// Activities the trail router can follow; skiing is left as Claude sketched it
+const ACTIVITY_ROUTING_PROFILES: Record<string, ActivityProfile> = {
+  hiking: 'foot-hiking',
+  general: 'foot-hiking',
+  trail_running: 'foot-hiking',
+  mountain_biking: 'cycling-mountain',
+  mtb: 'cycling-mountain',
+};
+
+// A waypoint this far from the routed path was probably not on a trail
+const WAYPOINT_OFFSET_LIMIT_M = 150;
+// The routed path wandering this far from the sketch means it took another way
+const PATH_DEVIATION_LIMIT_M = 300;
+// A routed path this much longer than the sketch is detouring around a gap
+const DETOUR_RATIO_LIMIT = 1.8;
+// Spacing of the points sampled along the sketch when measuring deviation
+const SKETCH_SAMPLE_SPACING_M = 50;
+
+function lineLength(coords: [number, number][]): number {
+  let total = 0;
+  for (let i = 1; i < coords.length; i++) {
+    total += lngLatMeters(coords[i - 1], coords[i]);
   }
+  return total;
+}
 
-  const lines: string[] = [];
-  lines.push(`=== OPENSTREETMAP TRAIL DATA (${activityType}) ===`);
-  lines.push(`Trails/ways: ${ways.length} | Points of interest: ${pois.length}`);
-  lines.push('');
+// Distance in meters from a point to a segment, on a flat projection around the point
+function distanceToSegment(point: [number, number], a: [number, number], b: [number, number]): number {
+  const metersPerDegLat = 111320;
+  const metersPerDegLng = 111320 * Math.cos(point[1] * Math.PI / 180);
+  const ax = (a[0] - point[0]) * metersPerDegLng, ay = (a[1] - point[1]) * metersPerDegLat;
+  const bx = (b[0] - point[0]) * metersPerDegLng, by = (b[1] - point[1]) * metersPerDegLat;
+  const dx = bx - ax, dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq)) : 0;
+  return Math.hypot(ax + t * dx, ay + t * dy);
+}
 
-  const trailsByName = new Map<string, typeof ways[0][]>();
-  for (const way of ways) {
-    if (!trailsByName.has(way.name)) trailsByName.set(way.name, []);
-    trailsByName.get(way.name)!.push(way);
+function distanceToPath(point: [number, number], path: [number, number][]): number {
+  if (path.length === 1) return distanceToSegment(point, path[0], path[0]);
+  let best = Infinity;
+  for (let i = 1; i < path.length; i++) {
+    best = Math.min(best, distanceToSegment(point, path[i - 1], path[i]));
   }
+  return best;
+}
 
-  lines.push('--- NAMED TRAILS ---');
-  for (const [name, segments] of Array.from(trailsByName.entries())) {
-    if (name === 'Unnamed trail') continue;
-    const types = Array.from(new Set(segments.map(s => s.type))).join(', ');
-    const tags = segments[0].tags;
-    let detail = `- ${name} (${types})`;
-    if (tags.sac_scale) detail += ` [difficulty: ${tags.sac_scale}]`;
-    if (tags['piste:difficulty']) detail += ` [difficulty: ${tags['piste:difficulty']}]`;
-    if (tags['piste:grooming']) detail += ` [grooming: ${tags['piste:grooming']}]`;
-    if (tags.surface) detail += ` [surface: ${tags.surface}]`;
-    if (tags.trail_visibility) detail += ` [visibility: ${tags.trail_visibility}]`;
-    if (tags.mtb_scale) detail += ` [MTB scale: ${tags.mtb_scale}]`;
-
-    let totalLength = 0;
-    for (const seg of segments) {
-      for (let i = 0; i < seg.nodeIds.length - 1; i++) {
-        const a = nodes.get(seg.nodeIds[i]);
-        const b = nodes.get(seg.nodeIds[i + 1]);
-        if (a && b) {
-          const R = 6371000;
-          const dLat = (b.lat - a.lat) * Math.PI / 180;
-          const dLon = (b.lon - a.lon) * Math.PI / 180;
-          const sin2 = Math.sin(dLat / 2) ** 2 +
-            Math.cos(a.lat * Math.PI / 180) * Math.cos(b.lat * Math.PI / 180) *
-            Math.sin(dLon / 2) ** 2;
-          totalLength += R * 2 * Math.atan2(Math.sqrt(sin2), Math.sqrt(1 - sin2));
-        }
-      }
-    }
-    if (totalLength > 0) detail += ` [~${(totalLength / 1609.34).toFixed(1)} mi]`;
-
-    if (segments[0].nodeIds.length > 0) {
-      const startNode = nodes.get(segments[0].nodeIds[0]);
-      const lastSeg = segments[segments.length - 1];
-      const endNode = nodes.get(lastSeg.nodeIds[lastSeg.nodeIds.length - 1]);
-      if (startNode) detail += ` [starts: ${startNode.lat.toFixed(5)}, ${startNode.lon.toFixed(5)}]`;
-      if (endNode) detail += ` [ends: ${endNode.lat.toFixed(5)}, ${endNode.lon.toFixed(5)}]`;
+// Points every SKETCH_SAMPLE_SPACING_M along the straight lines between waypoints
+function sampleSketch(sketch: [number, number][]): [number, number][] {
+  const samples: [number, number][] = [sketch[0]];
+  for (let i = 1; i < sketch.length; i++) {
+    const [lng1, lat1] = sketch[i - 1];
+    const [lng2, lat2] = sketch[i];
+    const steps = Math.max(1, Math.ceil(lngLatMeters(sketch[i - 1], sketch[i]) / SKETCH_SAMPLE_SPACING_M));
+    for (let step = 1; step <= steps; step++) {
+      samples.push([lng1 + (lng2 - lng1) * step / steps, lat1 + (lat2 - lat1) * step / steps]);
     }
-    lines.push(detail);
   }
+  return samples;
+}
 
-  const unnamed = trailsByName.get('Unnamed trail');
-  if (unnamed) lines.push(`- Plus ${unnamed.length} unnamed trail segments`);
-
-  lines.push('');
-  lines.push('--- POINTS OF INTEREST ---');
-  for (const poi of pois) {
-    let detail = `- ${poi.name} (${poi.type})`;
-    if (poi.ele) detail += ` [elevation: ${Math.round(parseFloat(poi.ele) * 3.28084).toLocaleString()} ft / ${poi.ele}m]`;
-    detail += ` [location: ${poi.lat.toFixed(5)}, ${poi.lon.toFixed(5)}]`;
-    lines.push(detail);
+/**
+ * Route one option's waypoints along mapped ways and compare the result with
+ * the sketch. Returns a reason when the option cannot be routed at all.
+ */
+async function snapRouteOption(option: RouteOption, profile: ActivityProfile): Promise<string | null> {
+  const sketch = option.waypoints.map(wp => [wp.lng, wp.lat] as [number, number]);
+  const route = await calculatePreferredRoute(sketch, profile);
+  if (!route.success || route.coordinates.length < 2) {
+    return route.message || 'no route found along mapped trails';
   }
 
-  return lines.join('\n');
-}
+  // The trail router pins the sketch's first and last points onto the path, so
+  // leave them out when measuring how far the waypoints are from the trail
+  const measured = route.source === 'trail_router' && route.coordinates.length > 3
+    ? route.coordinates.slice(1, -1)
+    : route.coordinates;
+
+  const deviations = sampleSketch(sketch).map(point => distanceToPath(point, measured));
+  const maxDeviation = Math.max(...deviations);
+  const meanDeviation = deviations.reduce((sum, d) => sum + d, 0) / deviations.length;
+  const waypointOffsets = sketch.map(point => Math.round(distanceToPath(point, measured)));
+  const sketchLength = lineLength(sketch);
+
+  const warnings: string[] = [];
+  waypointOffsets.forEach((offset, i) => {
+    if (offset > WAYPOINT_OFFSET_LIMIT_M) {
+      warnings.push(`"${option.waypoints[i].name || `Waypoint ${i + 1}`}" is ${Math.round(offset * 3.28084)} ft from the nearest trail`);
+    }
+  });
+  if (maxDeviation > PATH_DEVIATION_LIMIT_M) {
+    warnings.push(`The trail route strays up to ${(maxDeviation / 1609.34).toFixed(1)} mi from the suggested line`);
+  }
+  if (sketchLength > 0 && route.distance > sketchLength * DETOUR_RATIO_LIMIT) {
+    warnings.push(`Following the trails is ${(route.distance / sketchLength).toFixed(1)}x longer than the suggested line`);
+  }
 
-interface CommunityRoute {
-  id: number;
-  name: string;
-  description: string | null;
-  notes: string | null;
-  totalDistance: string | null;
-  elevationGain: string | null;
-  elevationLoss: string | null;
-  estimatedTime: number | null;
-  routingMode: string;
-  waypoints: Array<{ name: string; lngLat: [number, number]; elevation?: number }>;
-  ownerUsername: string;
-  ownerFullName: string | null;
-  routeNotes: Array<{ category: string; content: string }>;
-  pointsOfInterest: Array<{ name: string; lat: number; lng: number; note?: string; elevation?: number }>;
+  option.path = route.coordinates;
+  option.distance = Math.round(route.distance);
+  option.elevationGain = route.elevationGain;
+  option.elevationLoss = route.elevationLoss;
+  option.snap = {
+    status: warnings.length > 0 ? 'flagged' : 'snapped',
+    source: route.source,
+    maxDeviationMeters: Math.round(maxDeviation),
+    meanDeviationMeters: Math.round(meanDeviation),
+    waypointOffsetsMeters: waypointOffsets,
+    warnings,
+  };
+  return null;
 }
 
-export async function fetchCommunityRoutes(
-  center: { lat: number; lng: number },
-  radiusDeg: number,
-  dbStorage: any
-): Promise<CommunityRoute[]> {
-  try {
-    const publicRoutes = await dbStorage.getPublicRoutesWithOwners();
-    if (!publicRoutes || publicRoutes.length === 0) return [];
-
-    const south = center.lat - radiusDeg;
-    const north = center.lat + radiusDeg;
-    const west = center.lng - radiusDeg;
-    const east = center.lng + radiusDeg;
+/**
+ * Run every option through the trail router so its path, distance and climb
+ * come from mapped ways instead of the coordinates Claude wrote. Options that
+ * cannot be routed are dropped and named in the returned list.
+ */
+async function snapRouteOptions(
+  options: RouteOption[],
+  activityType: string
+): Promise<{ kept: RouteOption[]; dropped: Array<{ label: string; reason: string }> }> {
+  const kept: RouteOption[] = [];
+  const dropped: Array<{ label: string; reason: string }> = [];
+  const profile = ACTIVITY_ROUTING_PROFILES[activityType];
+
+  // One at a time: each option may query Overpass, which throttles parallel requests
+  for (const option of options) {
+    const label = option.label || 'Unnamed route';
+    const valid = Array.isArray(option.waypoints) &&
+      option.waypoints.filter(wp => Number.isFinite(wp?.lat) && Number.isFinite(wp?.lng)).length === option.waypoints.length;
+    if (!valid || option.waypoints.length < 2) {
+      dropped.push({ label, reason: 'it did not include at least two valid waypoints' });
+      continue;
+    }
 
-    const nearbyRoutes: CommunityRoute[] = [];
+    if (!profile) {
+      option.snap = { status: 'unverified', warnings: ['Not checked against the trail network for this activity'] };
+      kept.push(option);
+      continue;
+    }
 
-    for (const route of publicRoutes) {
-      let waypoints: Array<{ name: string; lngLat: [number, number]; elevation?: number }> = [];
-      try {
-        if (route.waypointCoordinates) {
-          waypoints = JSON.parse(route.waypointCoordinates);
-        }
-      } catch { continue; }
-
-      if (waypoints.length === 0) {
-        try {
-          const path = JSON.parse(route.pathCoordinates);
-          if (path.length > 0) {
-            const mid = path[Math.floor(path.length / 2)];
-            const [lng, lat] = Array.isArray(mid) ? mid : [mid.lng || mid[0], mid.lat || mid[1]];
-            if (lat < south || lat > north || lng < west || lng > east) continue;
-          }
-        } catch { continue; }
+    try {
+      const reason = await snapRouteOption(option, profile);
+      if (reason) {
+        dropped.push({ label, reason });
       } else {
-        const isNearby = waypoints.some(wp => {
-          const [lng, lat] = wp.lngLat;
-          return lat >= south && lat <= north && lng >= west && lng <= east;
-        });
-        if (!isNearby) continue;
+        kept.push(option);
       }
-
-      let routeNotes: Array<{ category: string; content: string }> = [];
-      let pointsOfInterest: Array<{ name: string; lat: number; lng: number; note?: string; elevation?: number }> = [];
-
-      try {
-        const notes = await dbStorage.getRouteNotes(route.id);
-        routeNotes = notes.map((n: any) => ({ category: n.category, content: n.content || '' }));
-      } catch {}
-
-      try {
-        const pois = await dbStorage.getRoutePointsOfInterest(route.id);
-        pointsOfInterest = pois.map((p: any) => ({
-          name: p.name,
-          lat: parseFloat(p.latitude),
-          lng: parseFloat(p.longitude),
-          note: p.note || undefined,
-          elevation: p.elevation ? parseFloat(p.elevation) : undefined,
-        }));
-      } catch {}
-
-      nearbyRoutes.push({
-        id: route.id,
-        name: route.name,
-        description: route.description,
-        notes: route.notes,
-        totalDistance: route.totalDistance,
-        elevationGain: route.elevationGain,
-        elevationLoss: route.elevationLoss,
-        estimatedTime: route.estimatedTime,
-        routingMode: route.routingMode,
-        waypoints,
-        ownerUsername: route.owner.username,
-        ownerFullName: route.owner.fullName,
-        routeNotes,
-        pointsOfInterest,
-      });
+    } catch (e) {
+      console.error(`[AI Route Assist] Snapping failed for "${label}":`, e);
+      option.snap = { status: 'unverified', warnings: ['The trail router was unavailable, so this follows the suggested waypoints'] };
+      kept.push(option);
     }
-
-    console.log(`[AI Route Assist] Found ${nearbyRoutes.length} community routes nearby (out of ${publicRoutes.length} total public)`);
-    return nearbyRoutes;
-  } catch (error) {
-    console.error('[AI Route Assist] Error fetching community routes:', error);
-    return [];
   }
-}
 
-function summarizeCommunityRoutes(routes: CommunityRoute[]): string {
-  if (routes.length === 0) {
-    return '=== SESSION MAPS COMMUNITY ROUTES ===\nNo public routes from other Session Maps users found in this area.\n';
-  }
+  return { kept, dropped };
+}
 
-  const lines: string[] = [];
-  lines.push(`=== SESSION MAPS COMMUNITY ROUTES (${routes.length} found) ===`);
-  lines.push('These are routes created and shared by real Session Maps users who have actually done these routes.');
-  lines.push('Community routes have GPS-verified waypoints and often include personal notes about conditions, difficulty, and tips.');
-  lines.push('');
-
-  for (const route of routes) {
-    const distMiles = route.totalDistance ? (parseFloat(route.totalDistance) / 1609.34).toFixed(1) : '?';
-    const gainFeet = route.elevationGain ? Math.round(parseFloat(route.elevationGain) * 3.28084) : null;
-    const lossFeet = route.elevationLoss ? Math.round(parseFloat(route.elevationLoss) * 3.28084) : null;
-
-    lines.push(`--- Route: "${route.name}" (by @${route.ownerUsername}) [ID: ${route.id}] ---`);
-    if (route.description) lines.push(`  Description: ${route.description}`);
-    lines.push(`  Distance: ${distMiles} mi | Mode: ${route.routingMode}`);
-    if (gainFeet !== null) lines.push(`  Elevation: +${gainFeet.toLocaleString()} ft / -${(lossFeet || 0).toLocaleString()} ft`);
-    if (route.estimatedTime) lines.push(`  Estimated time: ${route.estimatedTime} min`);
-
-    if (route.waypoints.length > 0) {
-      lines.push(`  Waypoints (${route.waypoints.length}):`);
-      for (const wp of route.waypoints) {
-        const [lng, lat] = wp.lngLat;
-        const eleFeet = wp.elevation ? Math.round(wp.elevation * 3.28084) : null;
-        lines.push(`    - ${wp.name} (${lat.toFixed(5)}, ${lng.toFixed(5)})${eleFeet ? ` [${eleFeet.toLocaleString()} ft]` : ''}`);
+// Attach modelled durations and per-leg splits to each option, following its snapped path when there is one
+async function addTravelTimes(options: RouteOption[], mode: TravelMode, userId?: number): Promise<void> {
+  await Promise.all(options.map(async option => {
+    const waypoints = (option.waypoints || []).filter(wp => typeof wp.lat === 'number' && typeof wp.lng === 'number');
+    if (waypoints.length < 2) return;
+    try {
+      const estimate = await estimateTravelTime({
+        path: option.path
+          ? option.path.map(([lng, lat]) => ({ lng, lat, elevation: null }))
+          : waypoints.map(wp => ({ lng: wp.lng, lat: wp.lat, elevation: null })),
+        waypoints: waypoints.map((wp, i) => ({ name: wp.name || `Waypoint ${i + 1}`, lng: wp.lng, lat: wp.lat })),
+        mode,
+        userId,
+      });
+      if (estimate) {
+        option.estimatedTime = estimate.estimatedTime;
+        option.legs = estimate.legs;
       }
+    } catch (e) {
+      console.error(`[AI Route Assist] Travel time failed for "${option.label}":`, e);
     }
+  }));
+}
 
-    if (route.notes) {
-      lines.push(`  Creator's notes: ${route.notes.substring(0, 300)}${route.notes.length > 300 ? '...' : ''}`);
-    }
-
-    if (route.routeNotes.length > 0) {
-      lines.push(`  Detailed notes:`);
-      for (const note of route.routeNotes) {
-        if (note.content) {
-          lines.push(`    [${note.category}]: ${note.content.substring(0, 200)}${note.content.length > 200 ? '...' : ''}`);
-        }
-      }
-    }
+// ========================================
+// Suggesting routes
+// ========================================
+
+const SUGGEST_ROUTES_TOOL: Anthropic.Tool = {
+  name: 'suggest_routes',
+  description: 'Show 1 to 3 route options to the user on the map. Each option is routed along the trail network; the result reports the real distance, climb and time of each, flags waypoints that are off-trail, and lists options that could not be routed. Describe the options to the user using these figures.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      options: {
+        type: 'array',
+        minItems: 1,
+        maxItems: 3,
+        items: {
+          type: 'object',
+          properties: {
+            label: { type: 'string' },
+            source: { type: 'string', enum: ['trail_data', 'community'] },
+            description: { type: 'string', description: 'One line: distance, climb, time, difficulty' },
+            color: { type: 'string', enum: ['blue', 'orange', 'green'] },
+            communityRouteId: { type: 'integer' },
+            communityAuthor: { type: 'string' },
+            waypoints: {
+              type: 'array',
+              minItems: 2,
+              items: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string' },
+                  lat: { type: 'number' },
+                  lng: { type: 'number' },
+                  description: { type: 'string' },
+                },
+                required: ['name', 'lat', 'lng'],
+              },
+            },
+          },
+          required: ['label', 'source', 'description', 'color', 'waypoints'],
+        },
+      },
+    },
+    required: ['options'],
+  },
+};
+
+function formatMinutes(minutes: number): string {
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
 
-    if (route.pointsOfInterest.length > 0) {
-      lines.push(`  Points of Interest marked by creator:`);
-      for (const poi of route.pointsOfInterest) {
-        lines.push(`    * ${poi.name} (${poi.lat.toFixed(5)}, ${poi.lng.toFixed(5)})${poi.note ? ` -- ${poi.note}` : ''}`);
-      }
-    }
+// What the model is told about its suggestions after snapping and timing
+function describeSnappedOptions(kept: RouteOption[], dropped: Array<{ label: string; reason: string }>): string {
+  const lines = kept.map(option => {
+    let line = `- "${option.label}"`;
+    if (option.distance !== undefined) line += `: ${(option.distance / 1609.34).toFixed(1)} mi on trails`;
+    if (option.elevationGain !== undefined) line += `, +${Math.round(option.elevationGain * 3.28084).toLocaleString()} ft`;
+    if (option.estimatedTime !== undefined) line += `, about ${formatMinutes(option.estimatedTime)}`;
+    line += ` [${option.snap?.status ?? 'unverified'}]`;
+    option.snap?.warnings.forEach(warning => { line += `\n  Warning: ${warning}`; });
+    return line;
+  });
+  dropped.forEach(d => lines.push(`- "${d.label}" was NOT shown: ${d.reason}`));
+  return lines.join('\n');
+}
 
-    lines.push('');
+async function runSuggestRoutes(
+  input: any,
+  activityType: string,
+  travelMode: TravelMode,
+  userId?: number
+): Promise<{ kept: RouteOption[]; summary: string; isError: boolean }> {
+  const options: RouteOption[] = Array.isArray(input?.options) ? input.options.slice(0, 3) : [];
+  if (options.length === 0) {
+    return { kept: [], summary: 'options must be a list of 1 to 3 route options', isError: true };
   }
 
-  return lines.join('\n');
+  const { kept, dropped } = await snapRouteOptions(options, activityType);
+  await addTravelTimes(kept, travelMode, userId);
+  if (dropped.length > 0) {
+    console.log(`[AI Route Assist] Dropped ${dropped.length} option(s) that could not be routed on trails`);
+  }
+  return { kept, summary: describeSnappedOptions(kept, dropped), isError: kept.length === 0 };
 }
 
+// ========================================
+// Prompt and history
+// ========================================
+
 function buildSystemPrompt(
   activityType: string,
-  trailData: string,
-  communityData: string,
-  geocodeResults: string,
+  paceContext: string,
+  mapCenter: { lat: number; lng: number },
+  mapZoom: number,
   existingRoute?: RouteAssistRequest['existingRoute']
 ): string {
   let activityContext = '';
@@ -482,7 +468,7 @@ function buildSystemPrompt(
   }
 
   let existingRouteContext = '';
-  if (existingRoute) {
+  if (existingRoute && Array.isArray(existingRoute.waypoints)) {
     const distMiles = (existingRoute.totalDistance / 1609.34).toFixed(1);
     const gainFeet = Math.round(existingRoute.elevationGain * 3.28084);
     const lossFeet = Math.round(existingRoute.elevationLoss * 3.28084);
@@ -501,10 +487,18 @@ You can suggest modifications or alternatives.
 
 ${activityContext}
 
-YOU HAVE ACCESS TO THESE DATA SOURCES:
-1. **OpenStreetMap trail data** -- real trail network data with names, types, difficulty, and coordinates
-2. **Session Maps community routes** -- routes shared by other users with GPS-verified waypoints and personal notes
-3. **Geocoding results** -- location matches for places the user mentioned
+The user's map is centered on ${mapCenter.lat.toFixed(5)}, ${mapCenter.lng.toFixed(5)} at zoom ${mapZoom}.
+
+YOU HAVE TOOLS. Call them as you need them instead of guessing:
+- geocode_location: where a place the user mentions is
+- query_trails: real OpenStreetMap trails, peaks, huts and parking in a bounding box
+- compute_trail_route: the real distance and climb of a route through points along trails
+- generate_loop_routes: loops and out-and-backs from a start point for a target distance or climb ("10 km loop from this trailhead")
+- get_elevation_profile: how a line climbs and descends
+- find_outdoor_pois: campsites, shelters, water and trailheads
+- search_community_routes: routes shared by other Session Maps users
+- search_my_routes / search_my_activities: the user's own saved routes and recorded activities
+- suggest_routes: show your route options to the user (the only way to put routes on their map)
 
 YOUR BEHAVIOR RULES:
 
@@ -512,192 +506,193 @@ YOUR BEHAVIOR RULES:
 - If the user's request is vague, ASK CLARIFYING QUESTIONS before building a route.
 - Good questions: "How long of a hike are you looking for?", "Do you want a loop or out-and-back?", "What difficulty level?"
 - If a location is ambiguous (e.g. multiple places with same name), present the options and ask which one.
-- When asking questions, do NOT include any route_option blocks. Just ask your questions.
+- When asking questions, do NOT call suggest_routes. Just ask your questions.
 
 **RULE 2: SEARCH GLOBALLY**
-- You are NOT limited to what's on the user's screen. The trail data provided covers the area around whatever location the user is asking about.
-- Use the geocoding results to understand where the user wants to go.
+- You are NOT limited to what's on the user's screen. Geocode the place the user is asking about and query trails around it.
+- Keep bounding boxes small (a few miles across) and widen them only if you find nothing.
 
 **RULE 3: DENSE WAYPOINTS EVERY MILE**
 - When you suggest a route, place waypoints approximately every 1 mile (1.6 km) along the trail.
 - This means a 5-mile hike should have roughly 6 waypoints (start + one per mile).
-- A 10-mile hike should have roughly 11 waypoints.
 - A 2-mile hike should have at least 3-4 waypoints.
-- Waypoints should follow the actual trail path closely, curving with the trail.
+- Take waypoint coordinates from trail data or routed paths, never from memory.
 - Name waypoints using real trail names and landmarks: "Jenny Lake Trail - Mile 1", "Cascade Canyon Junction", "Hidden Falls Viewpoint", etc.
 - For the start and end points, use actual trailhead or parking area names.
 - For loops, the last waypoint should be at or very near the first waypoint.
 
 **RULE 4: SUGGEST 1-3 ROUTE OPTIONS**
-When you have enough information to suggest routes, present 1 to 3 options. For each option:
-- Explain the route: distance, elevation, estimated time, difficulty, highlights
+When you have enough information, call suggest_routes once with 1 to 3 options, each with a different label and a different color ("blue", "orange", "green" in that order). Then, in your reply:
+- Explain each route: distance, elevation, estimated time, difficulty, highlights
 - Compare the options: why someone would choose one over another
-- Use a different label for each so the user can distinguish them
+- Use the distances, climbs and times suggest_routes reports, not your own estimates
+- If it reports an option was not shown or has warnings, say so plainly
+
+**RULE 5: CREDIBLE DURATIONS**
+Estimate time from distance AND climbing using the user's pace below, not a flat walking speed.
 
-**RULE 5: USE REAL DATA**
-- Only suggest routes on real trails from the data. Never invent trail names or coordinates.
-- Community routes from other Session Maps users are GPS-verified and trustworthy.
-- When a community route matches, credit the creator with @username.
+USER'S PACE FOR THIS ACTIVITY:
+${paceContext}
+
+**RULE 6: USE REAL DATA**
+- Only suggest routes on real trails you found with your tools. Never invent trail names or coordinates.
+- Community routes from other Session Maps users are GPS-verified and trustworthy. Credit the creator with @username and set communityRouteId and communityAuthor.
 - Use imperial units (miles, feet) as primary.
+${existingRouteContext}`;
+}
 
-GEOCODING RESULTS FOR THE USER'S QUERY:
-${geocodeResults}
-
-OPENSTREETMAP TRAIL DATA:
-${trailData}
-
-SESSION MAPS COMMUNITY ROUTES:
-${communityData}
-
-${existingRouteContext}
-
-WHEN SUGGESTING ROUTES, include waypoint data in route_option JSON blocks at the END of your message. Format exactly like this:
-
-\`\`\`route_option
-{
-  "label": "Jenny Lake Loop (Clockwise)",
-  "source": "trail_data",
-  "description": "7.1 mile loop, +800ft elevation, 3-4 hours, moderate difficulty",
-  "color": "blue",
-  "waypoints": [
-    {"name": "Jenny Lake Trailhead", "lat": 43.7530, "lng": -110.7210, "description": "Start at the parking area"},
-    {"name": "Jenny Lake Trail - Mile 1", "lat": 43.7580, "lng": -110.7260, "description": "Trail follows the lakeshore"},
-    {"name": "Hidden Falls Junction", "lat": 43.7620, "lng": -110.7350, "description": "Side trail to Hidden Falls"},
-    {"name": "Inspiration Point", "lat": 43.7640, "lng": -110.7380, "description": "Scenic overlook, 200ft above lake"},
-    {"name": "Cascade Canyon Mouth", "lat": 43.7660, "lng": -110.7420, "description": "Trail continues along west shore"},
-    {"name": "West Shore - Mile 5", "lat": 43.7590, "lng": -110.7350, "description": "Quieter west side of lake"},
-    {"name": "South End", "lat": 43.7500, "lng": -110.7280, "description": "South end of lake"},
-    {"name": "Jenny Lake Trailhead", "lat": 43.7530, "lng": -110.7210, "description": "Back at start - loop complete"}
-  ]
+// How a past assistant turn is replayed to the model, so "make option 2 shorter" still makes sense
+function historyContent(message: StoredChatMessage | ChatMessage): string {
+  const options = 'routeOptions' in message ? message.routeOptions : undefined;
+  if (!options || options.length === 0) return message.content;
+
+  const summaries = options.map((option, i) => {
+    const waypoints = option.waypoints.map(wp => `${wp.name} (${wp.lat.toFixed(5)}, ${wp.lng.toFixed(5)})`).join(' -> ');
+    return `Option ${i + 1} "${option.label}" [${option.color}]: ${waypoints}`;
+  });
+  return `${message.content}\n\n[Route options shown on the map]\n${summaries.join('\n')}`;
 }
-\`\`\`
-
-For community-sourced routes:
-\`\`\`route_option
-{
-  "label": "@trailrunner42's Jenny Lake Loop",
-  "source": "community",
-  "description": "6.8 mile loop shared by @trailrunner42 - well-marked, family friendly",
-  "color": "orange",
-  "communityRouteId": 42,
-  "communityAuthor": "trailrunner42",
-  "waypoints": [...]
+
+function toModelHistory(history: Array<StoredChatMessage | ChatMessage>): Anthropic.MessageParam[] {
+  const messages = history
+    .slice(-HISTORY_MESSAGES)
+    .filter(msg => (msg.role === 'user' || msg.role === 'assistant') && typeof msg.content === 'string' && msg.content.trim())
+    .map(msg => ({ role: msg.role, content: sanitizeForApi(historyContent(msg)) }));
+  // The API wants the conversation to open with the user
+  while (messages.length > 0 && messages[0].role !== 'user') messages.shift();
+  return messages;
 }
-\`\`\`
 
-IMPORTANT: Each route option MUST have a different "color" value. Use these colors in order: "blue", "orange", "green". This tells the app which color to draw each route on the map.
+function parseStoredMessages(json: string): StoredChatMessage[] {
+  try {
+    const messages = JSON.parse(json);
+    return Array.isArray(messages) ? messages : [];
+  } catch {
+    return [];
+  }
+}
 
-Only include route_option blocks when you are actually suggesting specific routes. Do NOT include them when asking clarifying questions.`;
+/** A user's conversation with its messages parsed, or undefined if it is not theirs. */
+export async function getRouteAssistConversation(dbStorage: IStorage, id: number, userId: number) {
+  const conversation = await dbStorage.getAiConversation(id);
+  if (!conversation || conversation.userId !== userId) return undefined;
+  return { ...conversation, messages: parseStoredMessages(conversation.messages) };
 }
 
+// ========================================
+// Request handling
+// ========================================
+
 export async function processRouteAssistRequest(
   request: RouteAssistRequest,
-  dbStorage: any
+  dbStorage: IStorage,
+  model: RouteAssistModel | null = getRouteAssistModel()
 ): Promise<RouteAssistResponse> {
-  if (!process.env.ANTHROPIC_API_KEY) {
+  if (!model) {
     return {
       message: 'AI Route Assistant is not configured. Please add your ANTHROPIC_API_KEY to the environment variables.',
     };
   }
 
-  const { mapCenter, mapZoom, activityType, message } = request;
-
-  console.log(`[AI Route Assist] Processing: "${message.substring(0, 80)}..." for ${activityType}`);
-
-  const geocodeResults = await geocodeLocation(message);
-  let geocodeContext = '';
-
-  let searchCenter = mapCenter;
-  let searchRadius = Math.max(0.02, 0.5 / Math.pow(2, Math.max(0, mapZoom - 10)));
-
-  if (geocodeResults.length > 0) {
-    searchCenter = { lat: geocodeResults[0].lat, lng: geocodeResults[0].lng };
-    searchRadius = 0.1;
+  const { mapCenter, mapZoom, message, userId } = request;
+  const activityType = ACTIVITY_NAMES[request.activityType] || request.activityType;
 
-    geocodeContext = 'GEOCODING RESULTS (locations matching the user query):\n';
-    for (const result of geocodeResults) {
-      geocodeContext += `- "${result.fullName}" (${result.lat.toFixed(5)}, ${result.lng.toFixed(5)}) [relevance: ${result.relevance}]\n`;
-    }
-    geocodeContext += `\nUsing "${geocodeResults[0].fullName}" as the primary search area.\n`;
-
-    console.log(`[AI Route Assist] Geocoded to: ${geocodeResults[0].fullName} (${searchCenter.lat.toFixed(4)}, ${searchCenter.lng.toFixed(4)})`);
-  } else {
-    geocodeContext = 'No specific location was identified from the user query. Using the current map view area.\n';
-    console.log(`[AI Route Assist] No geocode match, using map center: ${mapCenter.lat.toFixed(4)}, ${mapCenter.lng.toFixed(4)}`);
+  let storedMessages: StoredChatMessage[] | null = null;
+  if (request.conversationId) {
+    const conversation = userId ? await getRouteAssistConversation(dbStorage, request.conversationId, userId) : undefined;
+    if (!conversation) throw new ConversationNotFoundError();
+    storedMessages = conversation.messages;
   }
 
-  const [trailDataRaw, communityRoutes] = await Promise.all([
-    fetchTrailDataForArea(searchCenter, mapZoom, activityType, searchRadius),
-    fetchCommunityRoutes(searchCenter, searchRadius, dbStorage),
-  ]);
-
-  const trailData = sanitizeForApi(trailDataRaw);
-  const communityData = sanitizeForApi(summarizeCommunityRoutes(communityRoutes));
+  console.log(`[AI Route Assist] Processing: "${message.substring(0, 80)}..." for ${activityType} with ${model.name}`);
 
-  console.log(`[AI Route Assist] Trail data: ${trailData.length} chars`);
-  console.log(`[AI Route Assist] Community routes: ${communityRoutes.length} found`);
+  const travelMode = ACTIVITY_TRAVEL_MODES[activityType] || 'hiking';
+  const paceContext = await buildPaceContext(travelMode, userId).catch(() => '- Standard paces');
+  const system = sanitizeForApi(buildSystemPrompt(activityType, paceContext, mapCenter, mapZoom, request.existingRoute));
+  const tools = [...ROUTE_LOOKUP_TOOLS, SUGGEST_ROUTES_TOOL];
 
-  const systemPrompt = buildSystemPrompt(activityType, trailData, communityData, sanitizeForApi(geocodeContext), request.existingRoute);
-
-  const messages: Array<{ role: 'user' | 'assistant'; content: string }> = [];
-  const recentHistory = request.conversationHistory.slice(-10);
-  for (const msg of recentHistory) {
-    messages.push({ role: msg.role, content: sanitizeForApi(msg.content) });
-  }
+  const messages = toModelHistory(storedMessages ?? request.conversationHistory);
   messages.push({ role: 'user', content: sanitizeForApi(message) });
 
+  const ctx: RouteToolContext = { userId, activityType, dbStorage };
+  let routeOptions: RouteOption[] | undefined;
+  let replyText = '';
+
   try {
-    console.log(`[AI Route Assist] Sending to Claude (${messages.length} messages, system: ${systemPrompt.length} chars)`);
-
-    const response = await getAnthropicClient().messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 4000,
-      system: sanitizeForApi(systemPrompt),
-      messages: messages.map(m => ({ role: m.role, content: sanitizeForApi(m.content) })),
-    });
-
-    const assistantMessage = response.content
-      .filter((block: any) => block.type === 'text')
-      .map((block: any) => block.text)
-      .join('\n');
-
-    let routeOptions: RouteOption[] | undefined;
-    let cleanMessage = assistantMessage;
-
-    const optionRegex = /```route_option\n([\s\S]*?)```/g;
-    let match;
-    const parsedOptions: RouteOption[] = [];
-
-    while ((match = optionRegex.exec(assistantMessage)) !== null) {
-      try {
-        const option = JSON.parse(match[1]);
-        parsedOptions.push(option);
-      } catch (e) {
-        console.error('[AI Route Assist] Failed to parse route option:', e);
+    for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+      const isLastRound = round === MAX_TOOL_ROUNDS - 1;
+      // On the last round the model has to answer with what it has
+      const response = await model.createMessage({ system, messages, tools, toolChoice: isLastRound ? 'none' : 'auto' });
+
+      const text = response.content
+        .filter((block): block is Anthropic.TextBlockParam => block.type === 'text')
+        .map(block => block.text)
+        .join('\n')
+        .trim();
+      const toolCalls = response.content.filter((block): block is Anthropic.ToolUseBlockParam => block.type === 'tool_use');
+
+      if (response.stopReason !== 'tool_use' || toolCalls.length === 0) {
+        replyText = text;
+        break;
       }
-    }
 
-    if (parsedOptions.length > 0) {
-      routeOptions = parsedOptions;
-      cleanMessage = assistantMessage.replace(/```route_option\n[\s\S]*?```/g, '').trim();
+      messages.push({ role: 'assistant', content: response.content as ModelContentBlock[] });
+
+      // One at a time: several of the lookups share rate-limited upstream APIs
+      const results: Anthropic.ToolResultBlockParam[] = [];
+      for (const call of toolCalls) {
+        console.log(`[AI Route Assist] Tool call: ${call.name}`);
+        if (call.name === 'suggest_routes') {
+          const { kept, summary, isError } = await runSuggestRoutes(call.input, activityType, travelMode, userId);
+          if (kept.length > 0) routeOptions = kept;
+          results.push({ type: 'tool_result', tool_use_id: call.id, content: sanitizeForApi(summary), is_error: isError });
+        } else {
+          const result = await runRouteLookupTool(call.name, call.input, ctx);
+          results.push({ type: 'tool_result', tool_use_id: call.id, content: sanitizeForApi(result.content), is_error: result.isError });
+        }
+      }
+      messages.push({ role: 'user', content: results });
     }
-
-    const flyToCenter = geocodeResults.length > 0
-      ? { lat: geocodeResults[0].lat, lng: geocodeResults[0].lng, name: geocodeResults[0].fullName }
-      : undefined;
-
-    console.log(`[AI Route Assist] Response: ${cleanMessage.length} chars, ${routeOptions?.length || 0} options`);
-
-    return {
-      message: cleanMessage,
-      routeOptions,
-      flyToCenter,
-    };
-
   } catch (error: any) {
-    console.error('[AI Route Assist] Claude API error:', error);
+    console.error('[AI Route Assist] Model error:', error);
     if (error.status === 401) return { message: 'Invalid API key. Please check your ANTHROPIC_API_KEY.' };
     if (error.status === 429) return { message: 'Rate limit reached. Please wait a moment and try again.' };
     return { message: `AI assistant error: ${error.message || 'Unknown error'}. Please try again.` };
   }
+
+  if (!replyText) {
+    replyText = routeOptions
+      ? 'Here are the routes I found. Tap one to see it on the map.'
+      : "Sorry, I couldn't finish planning that. Could you try rephrasing or narrowing the area?";
+  }
+
+  console.log(`[AI Route Assist] Response: ${replyText.length} chars, ${routeOptions?.length || 0} options`);
+
+  let conversationId = request.conversationId;
+  if (userId) {
+    const now = new Date().toISOString();
+    const updated: StoredChatMessage[] = [
+      ...(storedMessages ?? request.conversationHistory.map(msg => ({ ...msg, createdAt: now }))),
+      { role: 'user', content: message, createdAt: now },
+      { role: 'assistant', content: replyText, routeOptions, createdAt: now },
+    ];
+    if (conversationId) {
+      await dbStorage.updateAiConversation(conversationId, { messages: JSON.stringify(updated), activityType });
+    } else {
+      const created = await dbStorage.createAiConversation({
+        userId,
+        title: message.length > 60 ? `${message.substring(0, 57)}...` : message,
+        activityType,
+        messages: JSON.stringify(updated),
+      });
+      conversationId = created.id;
+    }
+  }
+
+  return {
+    message: replyText,
+    routeOptions,
+    flyToCenter: ctx.geocoded,
+    conversationId,
+  };
 }
@@ -0,0 +1,172 @@
+import Anthropic from '@anthropic-ai/sdk';
+
+/**
+ * The language model behind the AI route assistant. The assistant only needs
+ * one call, "given this conversation and these tools, what next?", so models
+ * are swappable: Claude in production and a local mock for tests and offline
+ * development (set AI_ROUTE_ASSIST_MODEL=mock).
+ */
+
+const CLAUDE_MODEL = 'claude-sonnet-4-20250514';
+const MAX_OUTPUT_TOKENS = 4000;
+
+export type ModelContentBlock = Anthropic.TextBlockParam | Anthropic.ToolUseBlockParam;
+
+export interface ModelRequest {
+  system: string;
+  messages: Anthropic.MessageParam[];
+  tools: Anthropic.Tool[];
+  // 'none' makes the model answer in text even though tools are defined
+  toolChoice?: 'auto' | 'none';
+}
+
+export interface ModelResponse {
+  content: ModelContentBlock[];
+  stopReason: Anthropic.StopReason | null;
+}
+
+export interface RouteAssistModel {
+  name: string;
+  createMessage(request: ModelRequest): Promise<ModelResponse>;
+}
+
+// ========================================
+// Claude
+// ========================================
+
+function getAnthropicClient(): Anthropic {
+  const rawApiKey = (process.env.ANTHROPIC_API_KEY || '').trim();
+  let apiKey = rawApiKey;
+  const match = rawApiKey.match(/sk-ant-[A-Za-z0-9_-]{20,}/);
+  if (match) {
+    apiKey = match[0];
+  }
+  if (apiKey.length > 300 || !apiKey.startsWith('sk-ant-')) {
+    console.error(`[AI Route Assist] ANTHROPIC_API_KEY is invalid (length=${rawApiKey.length}, starts="${rawApiKey.substring(0, 15)}"). Please set it to your actual Anthropic API key (starts with sk-ant-).`);
+  }
+  return new Anthropic({ apiKey });
+}
+
+export function createAnthropicModel(): RouteAssistModel {
+  const client = getAnthropicClient();
+  return {
+    name: CLAUDE_MODEL,
+    async createMessage({ system, messages, tools, toolChoice = 'auto' }) {
+      const response = await client.messages.create({
+        model: CLAUDE_MODEL,
+        max_tokens: MAX_OUTPUT_TOKENS,
+        system,
+        messages,
+        tools,
+        tool_choice: { type: toolChoice },
+      });
+
+      const content: ModelContentBlock[] = [];
+      for (const block of response.content) {
+        if (block.type === 'text') {
+          content.push({ type: 'text', text: block.text });
+        } else if (block.type === 'tool_use') {
+          content.push({ type: 'tool_use', id: block.id, name: block.name, input: block.input });
+        }
+      }
+      return { content, stopReason: response.stop_reason };
+    },
+  };
+}
+
+// ========================================
+// Mock
+// ========================================
+
+function lastToolCall(messages: Anthropic.MessageParam[]): { name: string; result: string } | null {
+  const last = messages[messages.length - 1];
+  const previous = messages[messages.length - 2];
+  if (!last || typeof last.content === 'string' || !previous || typeof previous.content === 'string') return null;
+
+  const result = last.content.find((block): block is Anthropic.ToolResultBlockParam => block.type === 'tool_result');
+  if (!result) return null;
+  const call = previous.content.find((block): block is Anthropic.ToolUseBlockParam =>
+    block.type === 'tool_use' && block.id === result.tool_use_id);
+  if (!call) return null;
+
+  const text = typeof result.content === 'string'
+    ? result.content
+    : (result.content || []).map(block => block.type === 'text' ? block.text : '').join('\n');
+  return { name: call.name, result: text };
+}
+
+/**
+ * A model that needs no network or API key. Given a script it replays those
+ * responses in order, which is what tests want. Without one it plays a short
+ * fixed conversation: geocode the message, look up trails there, suggest the
+ * first named trail that has both ends mapped, then summarise the result.
+ */
+export function createMockModel(script?: ModelResponse[]): RouteAssistModel {
+  let turn = 0;
+  let toolCallId = 0;
+
+  const callTool = (name: string, input: Record<string, unknown>): ModelResponse => ({
+    content: [{ type: 'tool_use', id: `mock_tool_${++toolCallId}`, name, input }],
+    stopReason: 'tool_use',
+  });
+  const reply = (text: string): ModelResponse => ({ content: [{ type: 'text', text }], stopReason: 'end_turn' });
+
+  return {
+    name: 'mock',
+    async createMessage({ messages, toolChoice }) {
+      if (script) {
+        const response = script[turn++];
+        if (!response) throw new Error(`Mock model script ran out after ${script.length} responses`);
+        return response;
+      }
+
+      const call = lastToolCall(messages);
+      if (toolChoice === 'none') {
+        return reply(call ? call.result : 'Sorry, I ran out of steps planning that.');
+      }
+      if (!call) {
+        const last = messages[messages.length - 1];
+        const query = typeof last?.content === 'string' ? last.content : '';
+        return callTool('geocode_location', { query });
+      }
+
+      switch (call.name) {
+        case 'geocode_location': {
+          const place = call.result.startsWith('{') ? (JSON.parse(call.result).results || [])[0] : undefined;
+          if (!place) return reply('Where would you like to go? Give me a trailhead, park or town to search around.');
+          return callTool('query_trails', {
+            south: place.lat - 0.05, west: place.lng - 0.05, north: place.lat + 0.05, east: place.lng + 0.05,
+          });
+        }
+        case 'query_trails': {
+          const trail = call.result.match(/^- (.+?) \(.*\[starts: (-?[\d.]+), (-?[\d.]+)\] \[ends: (-?[\d.]+), (-?[\d.]+)\]/m);
+          if (!trail) return reply("I couldn't find any named trails with mapped ends there. Try another area?");
+          const [, name, startLat, startLng, endLat, endLng] = trail;
+          return callTool('suggest_routes', {
+            options: [{
+              label: name,
+              source: 'trail_data',
+              description: `${name} from end to end`,
+              color: 'blue',
+              waypoints: [
+                { name: `${name} - Start`, lat: parseFloat(startLat), lng: parseFloat(startLng) },
+                { name: `${name} - End`, lat: parseFloat(endLat), lng: parseFloat(endLng) },
+              ],
+            }],
+          });
+        }
+        case 'suggest_routes':
+          return reply(`Here is what I found:\n${call.result}`);
+        default:
+          return reply(call.result);
+      }
+    },
+  };
+}
+
+/** The configured model, or null when the assistant is not set up. */
+export function getRouteAssistModel(): RouteAssistModel | null {
+  if (process.env.AI_ROUTE_ASSIST_MODEL === 'mock') return createMockModel();
+  if (!process.env.ANTHROPIC_API_KEY) return null;
+  return createAnthropicModel();
+}
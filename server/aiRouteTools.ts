@@ -0,0 +1,889 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import type { IStorage } from './storage';
+import { calculatePreferredRoute, generateLoopRoutes, type ActivityProfile, type LoopShape } from './trailRouting';
+import { lookupElevations } from './demElevation';
+import { fetchOutdoorPois } from './outdoorPois';
+import { haversineMeters, lngLatMeters } from './geo';
+
+/**
+ * Lookups the AI route assistant can call while planning: geocoding, trails
+ * and outdoor POIs from OpenStreetMap, trail routing, elevation profiles,
+ * community routes, and the user's own saved routes and activities. Each tool
+ * returns compact text for the model; the assistant decides which to call, so
+ * nothing is fetched up front.
+ */
+
+const OVERPASS_ENDPOINTS = [
+  'https://overpass-api.de/api/interpreter',
+  'https://overpass.kumi.systems/api/interpreter',
+];
+
+// Largest bbox side the trail query accepts; Overpass times out on bigger areas
+const MAX_TRAIL_BBOX_DEG = 0.3;
+// Largest bbox side the POI lookup accepts, matching /api/outdoor-pois
+const MAX_POI_BBOX_DEG = 0.5;
+// Tool results longer than this are cut so one lookup cannot fill the context
+const MAX_RESULT_CHARS = 15000;
+
+interface BoundingBox {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export interface RouteToolContext {
+  userId?: number;
+  activityType: string;
+  dbStorage: IStorage;
+  // First place geocoded this turn, so the client can fly there
+  geocoded?: { lat: number; lng: number; name: string };
+}
+
+export interface RouteToolResult {
+  content: string;
+  isError?: boolean;
+}
+
+// ========================================
+// OpenStreetMap and geocoding
+// ========================================
+
+async function geocodeLocation(query: string): Promise<Array<{
+  name: string;
+  lat: number;
+  lng: number;
+  fullName: string;
+  relevance: number;
+}>> {
+  const token = process.env.MAPBOX_ACCESS_TOKEN || process.env.VITE_MAPBOX_ACCESS_TOKEN;
+  if (!token) return [];
+
+  try {
+    const encoded = encodeURIComponent(query);
+    const url = `https://api.mapbox.com/geocoding/v5/mapbox.places/${encoded}.json?access_token=${token}&limit=5&types=poi,place,locality,neighborhood,region`;
+    const response = await fetch(url, { signal: AbortSignal.timeout(10000) });
+    if (!response.ok) return [];
+
+    const data = await response.json();
+    if (!data.features || data.features.length === 0) return [];
+
+    return data.features.map((f: any) => ({
+      name: f.text,
+      lat: f.center[1],
+      lng: f.center[0],
+      fullName: f.place_name,
+      relevance: f.relevance,
+    }));
+  } catch (e) {
+    console.error('[AI Route Assist] Geocoding error:', e);
+    return [];
+  }
+}
+
+async function fetchTrailDataForArea(bbox: BoundingBox, activityType: string): Promise<string> {
+  const { south, west, north, east } = bbox;
+
+  let wayFilters = '';
+  switch (activityType) {
+    case 'downhill_skiing':
+      wayFilters = `
+        way["piste:type"="downhill"](${south},${west},${north},${east});
+        way["aerialway"](${south},${west},${north},${east});
+        node["aerialway"="station"](${south},${west},${north},${east});
+      `;
+      break;
+    case 'xc_skiing':
+      wayFilters = `
+        way["piste:type"="nordic"](${south},${west},${north},${east});
+        way["piste:type"="skitour"](${south},${west},${north},${east});
+        way["highway"="path"]["piste:type"](${south},${west},${north},${east});
+        way["landuse"="winter_sports"](${south},${west},${north},${east});
+      `;
+      break;
+    case 'mountain_biking':
+      wayFilters = `
+        way["highway"="path"]["mtb:scale"](${south},${west},${north},${east});
+        way["highway"="track"](${south},${west},${north},${east});
+        way["highway"="path"]["bicycle"!="no"](${south},${west},${north},${east});
+        way["route"="mtb"](${south},${west},${north},${east});
+      `;
+      break;
+    case 'trail_running':
+    case 'hiking':
+    default:
+      wayFilters = `
+        way["highway"="path"](${south},${west},${north},${east});
+        way["highway"="footway"](${south},${west},${north},${east});
+        way["highway"="track"](${south},${west},${north},${east});
+        way["highway"="bridleway"](${south},${west},${north},${east});
+        way["route"="hiking"](${south},${west},${north},${east});
+        way["sac_scale"](${south},${west},${north},${east});
+      `;
+      break;
+  }
+
+  const query = `
+    [out:json][timeout:60];
+    (
+      ${wayFilters}
+      node["natural"="peak"](${south},${west},${north},${east});
+      node["natural"="saddle"](${south},${west},${north},${east});
+      node["tourism"~"viewpoint|alpine_hut"](${south},${west},${north},${east});
+      node["amenity"="parking"]["access"!="private"](${south},${west},${north},${east});
+    );
+    out body;
+    >;
+    out skel qt;
+  `;
+
+  for (const endpoint of OVERPASS_ENDPOINTS) {
+    try {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), 20000);
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: `data=${encodeURIComponent(query)}`,
+        signal: controller.signal,
+      });
+      clearTimeout(timeoutId);
+      if (!response.ok) continue;
+      const data = await response.json();
+      if (!data.elements || data.elements.length === 0) {
+        return 'No trail data found in this area from OpenStreetMap.';
+      }
+      return summarizeTrailData(data, activityType);
+    } catch (e) {
+      console.error(`Overpass fetch failed (${endpoint}):`, e);
+      continue;
+    }
+  }
+  return 'Unable to fetch trail data. Overpass API may be temporarily unavailable.';
+}
+
+function summarizeTrailData(osmData: any, activityType: string): string {
+  const nodes = new Map<number, { lat: number; lon: number; tags?: any }>();
+  const ways: Array<{ name: string; type: string; tags: any; nodeIds: number[] }> = [];
+  const pois: Array<{ name: string; type: string; lat: number; lon: number; ele?: string }> = [];
+
+  for (const el of osmData.elements) {
+    if (el.type === 'node') {
+      nodes.set(el.id, { lat: el.lat, lon: el.lon, tags: el.tags });
+      if (el.tags?.name) {
+        const poiType = el.tags.natural || el.tags.tourism || el.tags.amenity || el.tags.aerialway || 'point';
+        pois.push({ name: el.tags.name, type: poiType, lat: el.lat, lon: el.lon, ele: el.tags.ele });
+      }
+    }
+  }
+
+  for (const el of osmData.elements) {
+    if (el.type === 'way' && el.tags) {
+      const name = el.tags.name || el.tags.ref || 'Unnamed trail';
+      const type = el.tags['piste:type'] || el.tags.highway || el.tags.aerialway || el.tags.route || 'way';
+      ways.push({ name, type, tags: el.tags, nodeIds: el.nodes || [] });
+    }
+  }
+
+  const lines: string[] = [];
+  lines.push(`=== OPENSTREETMAP TRAIL DATA (${activityType}) ===`);
+  lines.push(`Trails/ways: ${ways.length} | Points of interest: ${pois.length}`);
+  lines.push('');
+
+  const trailsByName = new Map<string, typeof ways[0][]>();
+  for (const way of ways) {
+    if (!trailsByName.has(way.name)) trailsByName.set(way.name, []);
+    trailsByName.get(way.name)!.push(way);
+  }
+
+  lines.push('--- NAMED TRAILS ---');
+  for (const [name, segments] of Array.from(trailsByName.entries())) {
+    if (name === 'Unnamed trail') continue;
+    const types = Array.from(new Set(segments.map(s => s.type))).join(', ');
+    const tags = segments[0].tags;
+    let detail = `- ${name} (${types})`;
+    if (tags.sac_scale) detail += ` [difficulty: ${tags.sac_scale}]`;
+    if (tags['piste:difficulty']) detail += ` [difficulty: ${tags['piste:difficulty']}]`;
+    if (tags['piste:grooming']) detail += ` [grooming: ${tags['piste:grooming']}]`;
+    if (tags.surface) detail += ` [surface: ${tags.surface}]`;
+    if (tags.trail_visibility) detail += ` [visibility: ${tags.trail_visibility}]`;
+    if (tags.mtb_scale) detail += ` [MTB scale: ${tags.mtb_scale}]`;
+
+    let totalLength = 0;
+    for (const seg of segments) {
+      for (let i = 0; i < seg.nodeIds.length - 1; i++) {
+        const a = nodes.get(seg.nodeIds[i]);
+        const b = nodes.get(seg.nodeIds[i + 1]);
+        if (a && b) {
+          totalLength += haversineMeters({ lat: a.lat, lng: a.lon }, { lat: b.lat, lng: b.lon });
+        }
+      }
+    }
+    if (totalLength > 0) detail += ` [~${(totalLength / 1609.34).toFixed(1)} mi]`;
+
+    if (segments[0].nodeIds.length > 0) {
+      const startNode = nodes.get(segments[0].nodeIds[0]);
+      const lastSeg = segments[segments.length - 1];
+      const endNode = nodes.get(lastSeg.nodeIds[lastSeg.nodeIds.length - 1]);
+      if (startNode) detail += ` [starts: ${startNode.lat.toFixed(5)}, ${startNode.lon.toFixed(5)}]`;
+      if (endNode) detail += ` [ends: ${endNode.lat.toFixed(5)}, ${endNode.lon.toFixed(5)}]`;
+    }
+    lines.push(detail);
+  }
+
+  const unnamed = trailsByName.get('Unnamed trail');
+  if (unnamed) lines.push(`- Plus ${unnamed.length} unnamed trail segments`);
+
+  lines.push('');
+  lines.push('--- POINTS OF INTEREST ---');
+  for (const poi of pois) {
+    let detail = `- ${poi.name} (${poi.type})`;
+    if (poi.ele) detail += ` [elevation: ${Math.round(parseFloat(poi.ele) * 3.28084).toLocaleString()} ft / ${poi.ele}m]`;
+    detail += ` [location: ${poi.lat.toFixed(5)}, ${poi.lon.toFixed(5)}]`;
+    lines.push(detail);
+  }
+
+  return lines.join('\n');
+}
+
+// ========================================
+// Community routes
+// ========================================
+
+interface CommunityRoute {
+  id: number;
+  name: string;
+  description: string | null;
+  notes: string | null;
+  totalDistance: string | null;
+  elevationGain: string | null;
+  elevationLoss: string | null;
+  estimatedTime: number | null;
+  routingMode: string;
+  waypoints: Array<{ name: string; lngLat: [number, number]; elevation?: number }>;
+  ownerUsername: string;
+  ownerFullName: string | null;
+  routeNotes: Array<{ category: string; content: string }>;
+  pointsOfInterest: Array<{ name: string; lat: number; lng: number; note?: string; elevation?: number }>;
+}
+
+async function fetchCommunityRoutes(
+  center: { lat: number; lng: number },
+  radiusDeg: number,
+  dbStorage: any
+): Promise<CommunityRoute[]> {
+  try {
+    const publicRoutes = await dbStorage.getPublicRoutesWithOwners();
+    if (!publicRoutes || publicRoutes.length === 0) return [];
+
+    const south = center.lat - radiusDeg;
+    const north = center.lat + radiusDeg;
+    const west = center.lng - radiusDeg;
+    const east = center.lng + radiusDeg;
+
+    const nearbyRoutes: CommunityRoute[] = [];
+
+    for (const route of publicRoutes) {
+      let waypoints: Array<{ name: string; lngLat: [number, number]; elevation?: number }> = [];
+      try {
+        if (route.waypointCoordinates) {
+          waypoints = JSON.parse(route.waypointCoordinates);
+        }
+      } catch { continue; }
+
+      if (waypoints.length === 0) {
+        try {
+          const path = JSON.parse(route.pathCoordinates);
+          if (path.length > 0) {
+            const mid = path[Math.floor(path.length / 2)];
+            const [lng, lat] = Array.isArray(mid) ? mid : [mid.lng || mid[0], mid.lat || mid[1]];
+            if (lat < south || lat > north || lng < west || lng > east) continue;
+          }
+        } catch { continue; }
+      } else {
+        const isNearby = waypoints.some(wp => {
+          const [lng, lat] = wp.lngLat;
+          return lat >= south && lat <= north && lng >= west && lng <= east;
+        });
+        if (!isNearby) continue;
+      }
+
+      let routeNotes: Array<{ category: string; content: string }> = [];
+      let pointsOfInterest: Array<{ name: string; lat: number; lng: number; note?: string; elevation?: number }> = [];
+
+      try {
+        const notes = await dbStorage.getRouteNotes(route.id);
+        routeNotes = notes.map((n: any) => ({ category: n.category, content: n.content || '' }));
+      } catch {}
+
+      try {
+        const pois = await dbStorage.getRoutePointsOfInterest(route.id);
+        pointsOfInterest = pois.map((p: any) => ({
+          name: p.name,
+          lat: parseFloat(p.latitude),
+          lng: parseFloat(p.longitude),
+          note: p.note || undefined,
+          elevation: p.elevation ? parseFloat(p.elevation) : undefined,
+        }));
+      } catch {}
+
+      nearbyRoutes.push({
+        id: route.id,
+        name: route.name,
+        description: route.description,
+        notes: route.notes,
+        totalDistance: route.totalDistance,
+        elevationGain: route.elevationGain,
+        elevationLoss: route.elevationLoss,
+        estimatedTime: route.estimatedTime,
+        routingMode: route.routingMode,
+        waypoints,
+        ownerUsername: route.owner.username,
+        ownerFullName: route.owner.fullName,
+        routeNotes,
+        pointsOfInterest,
+      });
+    }
+
+    console.log(`[AI Route Assist] Found ${nearbyRoutes.length} community routes nearby (out of ${publicRoutes.length} total public)`);
+    return nearbyRoutes;
+  } catch (error) {
+    console.error('[AI Route Assist] Error fetching community routes:', error);
+    return [];
+  }
+}
+
+function summarizeCommunityRoutes(routes: CommunityRoute[]): string {
+  if (routes.length === 0) {
+    return '=== SESSION MAPS COMMUNITY ROUTES ===\nNo public routes from other Session Maps users found in this area.\n';
+  }
+
+  const lines: string[] = [];
+  lines.push(`=== SESSION MAPS COMMUNITY ROUTES (${routes.length} found) ===`);
+  lines.push('These are routes created and shared by real Session Maps users who have actually done these routes.');
+  lines.push('Community routes have GPS-verified waypoints and often include personal notes about conditions, difficulty, and tips.');
+  lines.push('');
+
+  for (const route of routes) {
+    const distMiles = route.totalDistance ? (parseFloat(route.totalDistance) / 1609.34).toFixed(1) : '?';
+    const gainFeet = route.elevationGain ? Math.round(parseFloat(route.elevationGain) * 3.28084) : null;
+    const lossFeet = route.elevationLoss ? Math.round(parseFloat(route.elevationLoss) * 3.28084) : null;
+
+    lines.push(`--- Route: "${route.name}" (by @${route.ownerUsername}) [ID: ${route.id}] ---`);
+    if (route.description) lines.push(`  Description: ${route.description}`);
+    lines.push(`  Distance: ${distMiles} mi | Mode: ${route.routingMode}`);
+    if (gainFeet !== null) lines.push(`  Elevation: +${gainFeet.toLocaleString()} ft / -${(lossFeet || 0).toLocaleString()} ft`);
+    if (route.estimatedTime) lines.push(`  Estimated time: ${route.estimatedTime} min`);
+
+    if (route.waypoints.length > 0) {
+      lines.push(`  Waypoints (${route.waypoints.length}):`);
+      for (const wp of route.waypoints) {
+        const [lng, lat] = wp.lngLat;
+        const eleFeet = wp.elevation ? Math.round(wp.elevation * 3.28084) : null;
+        lines.push(`    - ${wp.name} (${lat.toFixed(5)}, ${lng.toFixed(5)})${eleFeet ? ` [${eleFeet.toLocaleString()} ft]` : ''}`);
+      }
+    }
+
+    if (route.notes) {
+      lines.push(`  Creator's notes: ${route.notes.substring(0, 300)}${route.notes.length > 300 ? '...' : ''}`);
+    }
+
+    if (route.routeNotes.length > 0) {
+      lines.push(`  Detailed notes:`);
+      for (const note of route.routeNotes) {
+        if (note.content) {
+          lines.push(`    [${note.category}]: ${note.content.substring(0, 200)}${note.content.length > 200 ? '...' : ''}`);
+        }
+      }
+    }
+
+    if (route.pointsOfInterest.length > 0) {
+      lines.push(`  Points of Interest marked by creator:`);
+      for (const poi of route.pointsOfInterest) {
+        lines.push(`    * ${poi.name} (${poi.lat.toFixed(5)}, ${poi.lng.toFixed(5)})${poi.note ? ` -- ${poi.note}` : ''}`);
+      }
+    }
+
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+// ========================================
+// The user's own routes and activities
+// ========================================
+
+function parsePath(json: string | null): [number, number][] {
+  if (!json) return [];
+  try {
+    const path = JSON.parse(json);
+    return Array.isArray(path)
+      ? path.filter((c: any) => Array.isArray(c) && Number.isFinite(c[0]) && Number.isFinite(c[1])).map((c: any) => [c[0], c[1]])
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+// Closest approach of a path to a point, in meters
+function pathDistanceFrom(path: [number, number][], near: { lat: number; lng: number }): number {
+  return path.reduce((best, [lng, lat]) => Math.min(best, haversineMeters(near, { lat, lng })), Infinity);
+}
+
+function miles(meters: string | number | null | undefined): string {
+  const value = typeof meters === 'string' ? parseFloat(meters) : meters;
+  return value != null && Number.isFinite(value) ? `${(value / 1609.34).toFixed(1)} mi` : '? mi';
+}
+
+function feet(meters: string | number | null | undefined): string {
+  const value = typeof meters === 'string' ? parseFloat(meters) : meters;
+  return value != null && Number.isFinite(value) ? `${Math.round(value * 3.28084).toLocaleString()} ft` : '? ft';
+}
+
+function matchesQuery(query: string | undefined, ...fields: Array<string | null | undefined>): boolean {
+  if (!query) return true;
+  const needle = query.toLowerCase();
+  return fields.some(field => field?.toLowerCase().includes(needle));
+}
+
+async function searchMyRoutes(
+  ctx: RouteToolContext,
+  query: string | undefined,
+  near: { lat: number; lng: number } | undefined,
+  radiusMiles: number
+): Promise<string> {
+  if (!ctx.userId) return 'No signed-in user.';
+  const routes = (await ctx.dbStorage.getRoutesByUser(ctx.userId))
+    .filter(route => matchesQuery(query, route.name, route.description, route.notes))
+    .map(route => ({ route, path: parsePath(route.pathCoordinates) }))
+    .filter(({ path }) => !near || (path.length > 0 && pathDistanceFrom(path, near) <= radiusMiles * 1609.34))
+    .slice(0, 10);
+
+  if (routes.length === 0) return 'No saved routes match.';
+  return routes.map(({ route, path }) => {
+    const start = path[0];
+    const lines = [`- "${route.name}" [ID: ${route.id}] ${miles(route.totalDistance)}, +${feet(route.elevationGain)} / -${feet(route.elevationLoss)}, mode: ${route.routingMode}`];
+    if (route.description) lines.push(`  ${route.description.substring(0, 200)}`);
+    if (start) lines.push(`  Starts at ${start[1].toFixed(5)}, ${start[0].toFixed(5)}`);
+    return lines.join('\n');
+  }).join('\n');
+}
+
+async function searchMyActivities(
+  ctx: RouteToolContext,
+  query: string | undefined,
+  activityType: string | undefined,
+  near: { lat: number; lng: number } | undefined,
+  radiusMiles: number
+): Promise<string> {
+  if (!ctx.userId) return 'No signed-in user.';
+  const activities = (await ctx.dbStorage.getActivitiesByUser(ctx.userId))
+    .filter(activity => !activityType || activity.activityType === activityType)
+    .filter(activity => matchesQuery(query, activity.name, activity.notes))
+    .map(activity => ({ activity, path: parsePath(activity.pathCoordinates) }))
+    .filter(({ path }) => !near || (path.length > 0 && pathDistanceFrom(path, near) <= radiusMiles * 1609.34))
+    .slice(0, 10);
+
+  if (activities.length === 0) return 'No recorded activities match.';
+  return activities.map(({ activity, path }) => {
+    const moving = activity.movingTimeSeconds ?? activity.elapsedTimeSeconds;
+    const start = path[0];
+    const lines = [`- "${activity.name}" (${activity.activityType}) on ${new Date(activity.startTime).toISOString().slice(0, 10)}: ${miles(activity.distanceMeters)}, +${feet(activity.elevationGainMeters)}, ${Math.round(moving / 60)} min moving`];
+    if (start) lines.push(`  Started at ${start[1].toFixed(5)}, ${start[0].toFixed(5)}`);
+    if (activity.notes) lines.push(`  Notes: ${activity.notes.substring(0, 200)}`);
+    return lines.join('\n');
+  }).join('\n');
+}
+
+// ========================================
+// Routing and elevation
+// ========================================
+
+// Every nth point, always keeping the last, so long paths stay readable
+function thinPath(path: [number, number][], maxPoints: number): [number, number][] {
+  if (path.length <= maxPoints) return path;
+  const step = (path.length - 1) / (maxPoints - 1);
+  return Array.from({ length: maxPoints }, (_, i) => path[Math.round(i * step)]);
+}
+
+// Evenly spaced samples along a polyline
+function samplePath(path: [number, number][], count: number): Array<{ point: [number, number]; distance: number }> {
+  const cumulative = [0];
+  for (let i = 1; i < path.length; i++) {
+    cumulative.push(cumulative[i - 1] + lngLatMeters(path[i - 1], path[i]));
+  }
+  const total = cumulative[cumulative.length - 1];
+  const samples: Array<{ point: [number, number]; distance: number }> = [];
+  let segment = 1;
+  for (let i = 0; i < count; i++) {
+    const target = count === 1 ? 0 : total * i / (count - 1);
+    while (segment < path.length - 1 && cumulative[segment] < target) segment++;
+    const segmentLength = cumulative[segment] - cumulative[segment - 1];
+    const t = segmentLength > 0 ? Math.min(1, Math.max(0, (target - cumulative[segment - 1]) / segmentLength)) : 0;
+    const [lng1, lat1] = path[segment - 1];
+    const [lng2, lat2] = path[segment];
+    samples.push({ point: [lng1 + (lng2 - lng1) * t, lat1 + (lat2 - lat1) * t], distance: target });
+  }
+  return samples;
+}
+
+async function computeTrailRoute(points: [number, number][], profile: ActivityProfile): Promise<RouteToolResult> {
+  const route = await calculatePreferredRoute(points, profile);
+  if (!route.success) {
+    return { content: route.message || 'No route found along mapped trails.', isError: true };
+  }
+  const path = thinPath(route.coordinates, 25)
+    .map(([lng, lat]) => `${lat.toFixed(5)}, ${lng.toFixed(5)}`)
+    .join('; ');
+  return {
+    content: [
+      `Distance: ${miles(route.distance)}`,
+      `Elevation: +${feet(route.elevationGain)} / -${feet(route.elevationLoss)}`,
+      `Routed by: ${route.source}`,
+      `Path (lat, lng, thinned): ${path}`,
+    ].join('\n'),
+  };
+}
+
+async function generateLoops(
+  start: [number, number],
+  profile: ActivityProfile,
+  targetDistance: number | undefined,
+  targetClimb: number | undefined,
+  shape: LoopShape | undefined
+): Promise<RouteToolResult> {
+  const result = await generateLoopRoutes({ start, profile, targetDistance, targetClimb, shapes: shape ? [shape] : undefined, count: 4 });
+  if (!result.success) {
+    return { content: result.message || 'No loops found from this start point.', isError: true };
+  }
+  return {
+    content: result.routes.map((route, i) => {
+      const path = thinPath(route.coordinates, 20)
+        .map(([lng, lat]) => `${lat.toFixed(5)}, ${lng.toFixed(5)}`)
+        .join('; ');
+      return [
+        `Option ${i + 1} (${route.shape === 'loop' ? 'loop' : 'out-and-back'})`,
+        `Distance: ${miles(route.distance)}`,
+        `Elevation: +${feet(route.elevationGain)} / -${feet(route.elevationLoss)}`,
+        `Repeated trail: ${miles(route.repeatedDistance)}`,
+        `Path (lat, lng, thinned): ${path}`,
+      ].join('\n');
+    }).join('\n\n'),
+  };
+}
+
+async function elevationProfile(points: [number, number][], sampleCount: number, userId?: number): Promise<RouteToolResult> {
+  const samples = samplePath(points, Math.min(100, Math.max(2, sampleCount)));
+  const { elevations, source } = await lookupElevations(samples.map(s => s.point), userId);
+  const known = elevations.filter((e): e is number => e !== null);
+  if (known.length === 0) return { content: 'No elevation data for these points.', isError: true };
+
+  let gain = 0;
+  let loss = 0;
+  let previous: number | null = null;
+  for (const elevation of elevations) {
+    if (elevation === null) continue;
+    if (previous !== null) {
+      if (elevation > previous) gain += elevation - previous;
+      else loss += previous - elevation;
+    }
+    previous = elevation;
+  }
+
+  const profile = samples
+    .map((s, i) => elevations[i] !== null ? `${(s.distance / 1609.34).toFixed(2)} mi: ${feet(elevations[i])}` : null)
+    .filter(Boolean)
+    .join('; ');
+  return {
+    content: [
+      `Low: ${feet(Math.min(...known))}, high: ${feet(Math.max(...known))}`,
+      `Climb: +${feet(gain)} / -${feet(loss)} (source: ${source})`,
+      `Profile: ${profile}`,
+    ].join('\n'),
+  };
+}
+
+async function findOutdoorPois(bbox: BoundingBox, category: string | undefined): Promise<string> {
+  const { pois } = await fetchOutdoorPois(bbox.south, bbox.west, bbox.north, bbox.east);
+  const matching = pois.filter(poi => !category || poi.category === category).slice(0, 40);
+  if (matching.length === 0) return 'No matching outdoor POIs in this area.';
+  return matching.map(poi => {
+    let line = `- ${poi.name || 'Unnamed'} (${poi.category}/${poi.type}) [location: ${poi.lat.toFixed(5)}, ${poi.lon.toFixed(5)}]`;
+    if (poi.elevation !== null) line += ` [elevation: ${feet(poi.elevation)}]`;
+    if (poi.amenities.length > 0) line += ` [amenities: ${poi.amenities.join(', ')}]`;
+    if (poi.fee !== null) line += poi.fee ? ' [fee]' : ' [free]';
+    return line;
+  }).join('\n');
+}
+
+// ========================================
+// Tool definitions
+// ========================================
+
+const latLngSchema = {
+  type: 'object',
+  properties: { lat: { type: 'number' }, lng: { type: 'number' } },
+  required: ['lat', 'lng'],
+};
+
+const bboxProperties = {
+  south: { type: 'number', description: 'Southern latitude' },
+  west: { type: 'number', description: 'Western longitude' },
+  north: { type: 'number', description: 'Northern latitude' },
+  east: { type: 'number', description: 'Eastern longitude' },
+};
+
+export const ROUTE_LOOKUP_TOOLS: Anthropic.Tool[] = [
+  {
+    name: 'geocode_location',
+    description: 'Find coordinates for a place name, trailhead, park or town. Returns up to 5 matches with relevance scores.',
+    input_schema: {
+      type: 'object',
+      properties: { query: { type: 'string', description: 'Place to look up' } },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'query_trails',
+    description: `List named trails (with difficulty, length and end coordinates), peaks, viewpoints, huts and parking from OpenStreetMap inside a bounding box. Sides up to ${MAX_TRAIL_BBOX_DEG} degrees. Trails are filtered for the current activity unless activity_type is given.`,
+    input_schema: {
+      type: 'object',
+      properties: {
+        ...bboxProperties,
+        activity_type: { type: 'string', enum: ['hiking', 'trail_running', 'mountain_biking', 'downhill_skiing', 'xc_skiing'] },
+      },
+      required: ['south', 'west', 'north', 'east'],
+    },
+  },
+  {
+    name: 'compute_trail_route',
+    description: 'Route through points in order along mapped trails. Returns the real distance, elevation gain/loss and a thinned path. Fails if a point is far from any trail or the trails do not connect.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        points: { type: 'array', items: latLngSchema, minItems: 2, maxItems: 25 },
+        profile: { type: 'string', enum: ['foot-hiking', 'cycling-mountain'], description: 'Defaults to foot-hiking' },
+      },
+      required: ['points'],
+    },
+  },
+  {
+    name: 'generate_loop_routes',
+    description: 'Propose loops and out-and-backs along mapped trails that start and end at a point and come close to a target distance and/or climb. Options are ranked best first by how well they hit the targets and how little trail they repeat, each with distance, elevation and a thinned path.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        start: latLngSchema,
+        distance_miles: { type: 'number', description: 'Target distance, 0.5 to 30 miles' },
+        climb_feet: { type: 'number', description: 'Target elevation gain, 50 to 10000 feet' },
+        shape: { type: 'string', enum: ['loop', 'out_and_back'], description: 'Only this shape; both by default' },
+        profile: { type: 'string', enum: ['foot-hiking', 'cycling-mountain'], description: 'Defaults to foot-hiking' },
+      },
+      required: ['start'],
+    },
+  },
+  {
+    name: 'get_elevation_profile',
+    description: 'Elevation along a line through the given points: low and high points, total climb and descent, and a sampled profile.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        points: { type: 'array', items: latLngSchema, minItems: 2, maxItems: 200 },
+        samples: { type: 'integer', minimum: 2, maximum: 100, description: 'Number of samples, default 30' },
+      },
+      required: ['points'],
+    },
+  },
+  {
+    name: 'find_outdoor_pois',
+    description: `Campsites, huts and shelters, water sources, trailheads and guideposts from OpenStreetMap inside a bounding box (sides up to ${MAX_POI_BBOX_DEG} degrees).`,
+    input_schema: {
+      type: 'object',
+      properties: {
+        ...bboxProperties,
+        category: { type: 'string', enum: ['campsite', 'shelter', 'water', 'trailhead', 'guidepost'] },
+      },
+      required: ['south', 'west', 'north', 'east'],
+    },
+  },
+  {
+    name: 'search_community_routes',
+    description: 'Public routes shared by other Session Maps users near a point, with their waypoints, notes and points of interest.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        lat: { type: 'number' },
+        lng: { type: 'number' },
+        radius_miles: { type: 'number', description: 'Default 7' },
+      },
+      required: ['lat', 'lng'],
+    },
+  },
+  {
+    name: 'search_my_routes',
+    description: "The user's own saved routes, optionally filtered by text and by distance from a point.",
+    input_schema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string' },
+        near: latLngSchema,
+        radius_miles: { type: 'number', description: 'Default 10' },
+      },
+    },
+  },
+  {
+    name: 'search_my_activities',
+    description: "The user's own recorded activities (hikes, runs, rides, ski days), optionally filtered by text, type and distance from a point. Useful for gauging what distances and climbs they are comfortable with.",
+    input_schema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string' },
+        activity_type: { type: 'string', enum: ['hike', 'run', 'bike', 'ski'] },
+        near: latLngSchema,
+        radius_miles: { type: 'number', description: 'Default 10' },
+      },
+    },
+  },
+];
+
+// ========================================
+// Running tools
+// ========================================
+
+function readNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function readLatLng(value: any): { lat: number; lng: number } | undefined {
+  const lat = readNumber(value?.lat);
+  const lng = readNumber(value?.lng);
+  return lat !== undefined && lng !== undefined && Math.abs(lat) <= 90 && Math.abs(lng) <= 180 ? { lat, lng } : undefined;
+}
+
+function readPoints(value: unknown): [number, number][] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const points = value.map(readLatLng);
+  return points.every(Boolean) ? points.map(p => [p!.lng, p!.lat] as [number, number]) : undefined;
+}
+
+function readBbox(input: any, maxSide: number): BoundingBox | string {
+  const [south, west, north, east] = [input?.south, input?.west, input?.north, input?.east].map(readNumber);
+  if (south === undefined || west === undefined || north === undefined || east === undefined) {
+    return 'south, west, north and east are required numbers';
+  }
+  if (south >= north || west >= east) return 'south must be below north and west must be left of east';
+  if (north - south > maxSide || east - west > maxSide) return `The box is too large; keep each side under ${maxSide} degrees`;
+  return { south, west, north, east };
+}
+
+function readString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+async function runLookup(name: string, input: any, ctx: RouteToolContext): Promise<RouteToolResult> {
+  switch (name) {
+    case 'geocode_location': {
+      const query = readString(input?.query);
+      if (!query) return { content: 'query is required', isError: true };
+      const results = await geocodeLocation(query);
+      if (results.length > 0 && !ctx.geocoded) {
+        ctx.geocoded = { lat: results[0].lat, lng: results[0].lng, name: results[0].fullName };
+      }
+      return { content: JSON.stringify({ results }) };
+    }
+
+    case 'query_trails': {
+      const bbox = readBbox(input, MAX_TRAIL_BBOX_DEG);
+      if (typeof bbox === 'string') return { content: bbox, isError: true };
+      const activity = readString(input?.activity_type) || ctx.activityType;
+      return { content: await fetchTrailDataForArea(bbox, activity) };
+    }
+
+    case 'compute_trail_route': {
+      const points = readPoints(input?.points);
+      if (!points || points.length < 2 || points.length > 25) return { content: 'points must be 2 to 25 { lat, lng } objects', isError: true };
+      const profile: ActivityProfile = input?.profile === 'cycling-mountain' ? 'cycling-mountain' : 'foot-hiking';
+      return computeTrailRoute(points, profile);
+    }
+
+    case 'generate_loop_routes': {
+      const start = readLatLng(input?.start);
+      if (!start) return { content: 'start must be a { lat, lng } object', isError: true };
+      const distanceMiles = readNumber(input?.distance_miles);
+      const climbFeet = readNumber(input?.climb_feet);
+      if (distanceMiles === undefined && climbFeet === undefined) {
+        return { content: 'Give distance_miles, climb_feet, or both', isError: true };
+      }
+      if (distanceMiles !== undefined && (distanceMiles < 0.5 || distanceMiles > 30)) {
+        return { content: 'distance_miles must be from 0.5 to 30', isError: true };
+      }
+      if (climbFeet !== undefined && (climbFeet < 50 || climbFeet > 10000)) {
+        return { content: 'climb_feet must be from 50 to 10000', isError: true };
+      }
+      const profile: ActivityProfile = input?.profile === 'cycling-mountain' ? 'cycling-mountain' : 'foot-hiking';
+      const shape = input?.shape === 'loop' || input?.shape === 'out_and_back' ? input.shape as LoopShape : undefined;
+      return generateLoops(
+        [start.lng, start.lat],
+        profile,
+        distanceMiles !== undefined ? distanceMiles * 1609.34 : undefined,
+        climbFeet !== undefined ? climbFeet * 0.3048 : undefined,
+        shape
+      );
+    }
+
+    case 'get_elevation_profile': {
+      const points = readPoints(input?.points);
+      if (!points || points.length < 2 || points.length > 200) return { content: 'points must be 2 to 200 { lat, lng } objects', isError: true };
+      return elevationProfile(points, Math.round(readNumber(input?.samples) ?? 30), ctx.userId);
+    }
+
+    case 'find_outdoor_pois': {
+      const bbox = readBbox(input, MAX_POI_BBOX_DEG);
+      if (typeof bbox === 'string') return { content: bbox, isError: true };
+      return { content: await findOutdoorPois(bbox, readString(input?.category)) };
+    }
+
+    case 'search_community_routes': {
+      const center = readLatLng(input);
+      if (!center) return { content: 'lat and lng are required', isError: true };
+      const radiusDeg = (readNumber(input?.radius_miles) ?? 7) / 69;
+      return { content: summarizeCommunityRoutes(await fetchCommunityRoutes(center, radiusDeg, ctx.dbStorage)) };
+    }
+
+    case 'search_my_routes':
+      return {
+        content: await searchMyRoutes(ctx, readString(input?.query), readLatLng(input?.near), readNumber(input?.radius_miles) ?? 10),
+      };
+
+    case 'search_my_activities':
+      return {
+        content: await searchMyActivities(
+          ctx,
+          readString(input?.query),
+          readString(input?.activity_type),
+          readLatLng(input?.near),
+          readNumber(input?.radius_miles) ?? 10
+        ),
+      };
+
+    default:
+      return { content: `Unknown tool: ${name}`, isError: true };
+  }
+}
+
+/**
+ * Run one of ROUTE_LOOKUP_TOOLS. Bad input and failed lookups come back as
+ * error results for the model to read and recover from; this never throws.
+ */
+export async function runRouteLookupTool(name: string, input: unknown, ctx: RouteToolContext): Promise<RouteToolResult> {
+  try {
+    const result = await runLookup(name, input, ctx);
+    return result.content.length > MAX_RESULT_CHARS
+      ? { ...result, content: `${result.content.substring(0, MAX_RESULT_CHARS)}\n... (truncated; query a smaller area for more)` }
+      : result;
+  } catch (error) {
+    console.error(`[AI Route Assist] Tool ${name} failed:`, error);
+    return { content: `${name} failed: ${error instanceof Error ? error.message : 'unknown error'}`, isError: true };
+  }
+}
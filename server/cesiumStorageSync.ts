@@ -28,21 +28,32 @@ function delay(ms: number) {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
+export interface TilesetSyncOptions {
+  onProgress?: (percent: number, message: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface TilesetSyncResult {
+  uploaded: number;
+  skipped: number;
+  failed: number;
+}
+
 export async function syncTilesetToObjectStorage(
   tilesetId: number,
-  localDir: string
-): Promise<void> {
+  localDir: string,
+  options: TilesetSyncOptions = {}
+): Promise<TilesetSyncResult> {
+  const { onProgress, signal } = options;
   if (activeSyncs.has(tilesetId)) {
-    console.log(`[CesiumSync] Sync already running for tileset ${tilesetId}, skipping`);
-    return;
+    throw new Error(`Sync already running for tileset ${tilesetId}`);
   }
   activeSyncs.add(tilesetId);
 
   try {
     const bucketId = process.env.DEFAULT_OBJECT_STORAGE_BUCKET_ID;
     if (!bucketId) {
-      console.error(`[CesiumSync] No bucket ID configured, skipping sync for tileset ${tilesetId}`);
-      return;
+      throw new Error('DEFAULT_OBJECT_STORAGE_BUCKET_ID not set');
     }
 
     const { objectStorageClient } = await import('./replit_integrations/object_storage');
@@ -51,8 +62,7 @@ export async function syncTilesetToObjectStorage(
 
     const allFiles = getAllFiles(localDir);
     if (allFiles.length === 0) {
-      console.error(`[CesiumSync] No files found in ${localDir} for tileset ${tilesetId}`);
-      return;
+      throw new Error(`No files found in ${localDir}`);
     }
     console.log(`[CesiumSync] Starting upload of ${allFiles.length} files for tileset ${tilesetId}`);
 
@@ -61,6 +71,7 @@ export async function syncTilesetToObjectStorage(
     let failed = 0;
 
     for (let i = 0; i < allFiles.length; i += CONCURRENCY) {
+      signal?.throwIfAborted();
       const batch = allFiles.slice(i, i + CONCURRENCY);
       const promises = batch.map(async (filePath) => {
         const relativePath = path.relative(localDir, filePath);
@@ -104,6 +115,7 @@ export async function syncTilesetToObjectStorage(
       });
       await Promise.all(promises);
       const total = uploaded + skipped + failed;
+      onProgress?.(Math.round((total / allFiles.length) * 100), `Uploaded ${total}/${allFiles.length} files`);
       if (total % 100 < CONCURRENCY || total >= allFiles.length) {
         console.log(`[CesiumSync] Tileset ${tilesetId}: ${uploaded} new, ${skipped} existing, ${failed} failed, ${allFiles.length - total} remaining`);
       }
@@ -122,6 +134,8 @@ export async function syncTilesetToObjectStorage(
     } else {
       console.error(`[CesiumSync] Tileset ${tilesetId}: ${failed} files failed. Keeping local: path.`);
     }
+
+    return { uploaded, skipped, failed };
   } finally {
     activeSyncs.delete(tilesetId);
   }
@@ -0,0 +1,233 @@
+import fs from 'fs';
+import path from 'path';
+import { spawn } from 'child_process';
+import sharp from 'sharp';
+import * as GeoTIFF from 'geotiff';
+
+/**
+ * Cloud-Optimized GeoTIFF path for drone imagery: the upload is converted
+ * once into a web-mercator COG whose internal tiles and overviews line up
+ * with the XYZ grid, and map tiles are cut from it on request instead of
+ * pre-rendering a PNG pyramid.
+ */
+
+export type TileFormat = 'png' | 'webp' | 'jpeg';
+
+// URL extension -> output format
+export const TILE_FORMATS: Record<string, TileFormat> = {
+  png: 'png',
+  webp: 'webp',
+  jpg: 'jpeg',
+  jpeg: 'jpeg',
+};
+
+export const TILE_CONTENT_TYPES: Record<TileFormat, string> = {
+  png: 'image/png',
+  webp: 'image/webp',
+  jpeg: 'image/jpeg',
+};
+
+export const COG_DIR = process.env.DRONE_COG_DIR || path.join(process.cwd(), 'uploads', 'drone-cogs');
+
+const TILE_SIZE = 512;
+const WEB_MERCATOR_EXTENT = 20037508.342789244;
+const MAX_OPEN_READERS = 8;
+
+export interface CogResult {
+  cogPath: string;
+  minZoom: number;
+  maxZoom: number;
+}
+
+export interface CogOptions {
+  // Extra COGs derived from the same upload, e.g. the hillshade of a DEM
+  variant?: string;
+  sourceSrs?: string | null;
+  signal?: AbortSignal;
+  onProgress?: (percent: number, message: string) => void;
+}
+
+// GDAL prints "0...10...20...30" to stdout while it works
+function runGdalWithProgress(
+  command: string,
+  args: string[],
+  timeout: number,
+  signal?: AbortSignal,
+  onPercent?: (percent: number) => void
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { signal, timeout });
+    let stderr = '';
+    child.stdout.on('data', (chunk: Buffer) => {
+      const matches = chunk.toString().match(/\d+(?=\.)/g);
+      if (matches && onPercent) onPercent(parseInt(matches[matches.length - 1], 10));
+    });
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-2000);
+    });
+    child.on('error', reject);
+    child.on('close', (code) => {
+      if (code === 0) resolve();
+      else reject(new Error(`${command} exited with code ${code}: ${stderr.trim().substring(0, 300)}`));
+    });
+  });
+}
+
+export function cogPathFor(imageId: number, variant?: string): string {
+  return path.join(COG_DIR, variant ? `drone_${imageId}.${variant}.cog.tif` : `drone_${imageId}.cog.tif`);
+}
+
+export async function createCogFromImage(imagePath: string, imageId: number, options: CogOptions = {}): Promise<CogResult> {
+  const { variant, sourceSrs, signal, onProgress } = options;
+  fs.mkdirSync(COG_DIR, { recursive: true });
+  const cogPath = cogPathFor(imageId, variant);
+  const partialPath = `${cogPath}.partial`;
+
+  onProgress?.(5, 'Converting to Cloud-Optimized GeoTIFF...');
+
+  try {
+    await runGdalWithProgress('gdal_translate', [
+      ...(sourceSrs ? ['-a_srs', sourceSrs] : []),
+      '-of', 'COG',
+      '-co', 'TILING_SCHEME=GoogleMapsCompatible',
+      '-co', `BLOCKSIZE=${TILE_SIZE}`,
+      '-co', 'COMPRESS=DEFLATE',
+      '-co', 'PREDICTOR=YES',
+      '-co', 'ADD_ALPHA=YES',
+      '-co', 'OVERVIEWS=IGNORE_EXISTING',
+      '-co', 'RESAMPLING=BILINEAR',
+      '-co', 'BIGTIFF=IF_SAFER',
+      '-co', 'NUM_THREADS=ALL_CPUS',
+      imagePath, partialPath
+    ], 2 * 60 * 60 * 1000, signal, (percent) => {
+      onProgress?.(5 + Math.round(percent * 0.9), `Converting to Cloud-Optimized GeoTIFF (${percent}%)`);
+    });
+  } catch (err) {
+    fs.rmSync(partialPath, { force: true });
+    throw err;
+  }
+
+  closeCogReader(cogPath);
+  fs.renameSync(partialPath, cogPath);
+
+  const tiff = await GeoTIFF.fromFile(cogPath);
+  try {
+    const image = await tiff.getImage();
+    const [resX] = image.getResolution();
+    const maxZoom = Math.min(24, Math.round(Math.log2((2 * WEB_MERCATOR_EXTENT) / (TILE_SIZE * Math.abs(resX)))));
+    onProgress?.(100, 'Cloud-Optimized GeoTIFF ready');
+    // Overviews make low zooms cheap, so open the layer further out than the PNG pyramid does
+    return { cogPath, minZoom: Math.max(6, maxZoom - 12), maxZoom };
+  } finally {
+    tiff.close();
+  }
+}
+
+// Open readers keep the COG header and tile offsets in memory between requests
+const readers = new Map<string, Promise<GeoTIFF.GeoTIFF>>();
+
+export function getCogReader(cogPath: string): Promise<GeoTIFF.GeoTIFF> {
+  let reader = readers.get(cogPath);
+  if (reader) {
+    readers.delete(cogPath);
+    readers.set(cogPath, reader);
+    return reader;
+  }
+
+  reader = GeoTIFF.fromFile(cogPath);
+  reader.catch(() => readers.delete(cogPath));
+  readers.set(cogPath, reader);
+
+  if (readers.size > MAX_OPEN_READERS) {
+    const oldest = readers.keys().next().value as string;
+    closeCogReader(oldest);
+  }
+  return reader;
+}
+
+export function closeCogReader(cogPath: string): void {
+  const reader = readers.get(cogPath);
+  if (!reader) return;
+  readers.delete(cogPath);
+  reader.then(tiff => tiff.close()).catch(() => {});
+}
+
+export function deleteCog(cogPath: string): void {
+  closeCogReader(cogPath);
+  fs.rmSync(cogPath, { force: true });
+}
+
+function tileBounds(z: number, x: number, y: number): [number, number, number, number] {
+  const span = (2 * WEB_MERCATOR_EXTENT) / Math.pow(2, z);
+  const minX = -WEB_MERCATOR_EXTENT + x * span;
+  const maxY = WEB_MERCATOR_EXTENT - y * span;
+  return [minX, maxY - span, minX + span, maxY];
+}
+
+function encodeAs(image: sharp.Sharp, format: TileFormat): Promise<Buffer> {
+  switch (format) {
+    case 'webp':
+      return image.webp({ quality: 85, alphaQuality: 90 }).toBuffer();
+    case 'jpeg':
+      // No alpha in JPEG; areas outside the image come out black like the raw imagery edges
+      return image.flatten({ background: '#000000' }).jpeg({ quality: 85, mozjpeg: true }).toBuffer();
+    default:
+      return image.png({ compressionLevel: 6 }).toBuffer();
+  }
+}
+
+function encodeTile(raw: Buffer, channels: 1 | 2 | 3 | 4, format: TileFormat): Promise<Buffer> {
+  return encodeAs(sharp(raw, { raw: { width: TILE_SIZE, height: TILE_SIZE, channels } }), format);
+}
+
+const emptyTiles = new Map<TileFormat, Promise<Buffer>>();
+
+export function emptyTile(format: TileFormat): Promise<Buffer> {
+  let tile = emptyTiles.get(format);
+  if (!tile) {
+    tile = encodeTile(Buffer.alloc(TILE_SIZE * TILE_SIZE * 4, 0), 4, format);
+    emptyTiles.set(format, tile);
+  }
+  return tile;
+}
+
+// Pre-rendered pyramid tiles are stored as PNG
+export async function transcodeTile(png: Buffer, format: TileFormat): Promise<Buffer> {
+  if (format === 'png') return png;
+  return encodeAs(sharp(png), format);
+}
+
+/**
+ * Cut one XYZ tile out of a web-mercator COG. Returns null when the tile
+ * does not touch the image so the caller can answer with an empty tile.
+ */
+export async function renderCogTile(cogPath: string, z: number, x: number, y: number, format: TileFormat): Promise<Buffer | null> {
+  const tiff = await getCogReader(cogPath);
+  const firstImage = await tiff.getImage();
+  const [imgMinX, imgMinY, imgMaxX, imgMaxY] = firstImage.getBoundingBox();
+  const bbox = tileBounds(z, x, y);
+
+  if (bbox[0] >= imgMaxX || bbox[2] <= imgMinX || bbox[1] >= imgMaxY || bbox[3] <= imgMinY) {
+    return null;
+  }
+
+  const raster = await tiff.readRasters({
+    bbox,
+    width: TILE_SIZE,
+    height: TILE_SIZE,
+    interleave: true,
+    resampleMethod: 'bilinear',
+    fillValue: 0,
+  }) as unknown as ArrayLike<number>;
+
+  const samples = firstImage.getSamplesPerPixel();
+  const channels = Math.min(4, Math.max(1, samples)) as 1 | 2 | 3 | 4;
+  const raw = Buffer.alloc(TILE_SIZE * TILE_SIZE * channels);
+  for (let p = 0, i = 0; p < TILE_SIZE * TILE_SIZE; p++) {
+    for (let c = 0; c < channels; c++) {
+      raw[i++] = raster[p * samples + c];
+    }
+  }
+
+  return encodeTile(raw, channels, format);
+}
@@ -0,0 +1,374 @@
+import fs from 'fs';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { createRequire } from 'module';
+import proj4 from 'proj4';
+import * as GeoTIFF from 'geotiff';
+
+const execFileAsync = promisify(execFile);
+const require = createRequire(import.meta.url);
+
+// ========================================
+// Types
+// ========================================
+
+export type CrsSource = 'manual' | 'gdal' | 'geotiff' | 'local' | 'epsg-index';
+
+export interface CrsResolution {
+  source: CrsSource;
+  code: string | null;          // e.g. "EPSG:2773"
+  name: string | null;
+  // Anything proj4 accepts: a proj string, WKT (1 or 2) or a PROJJSON object
+  definition: string | object;
+  isGeographic: boolean;
+  // EPSG area of use as [west, south, east, north] in degrees, when known
+  areaOfUse: [number, number, number, number] | null;
+}
+
+export interface CrsContext {
+  filePath: string;
+  geoKeys: Record<string, any> | null;
+  epsgOverride: number | null;
+}
+
+// Resolvers are tried in order until one returns a resolution. Add more with
+// registerCrsResolver (e.g. a customer-specific local grid).
+export interface CrsResolver {
+  name: string;
+  resolve(ctx: CrsContext): Promise<CrsResolution | null>;
+}
+
+export type CrsStatus = 'resolved' | 'flagged' | 'unresolved';
+
+export interface GeoTiffPlacement {
+  status: CrsStatus;
+  crs: CrsResolution | null;
+  bounds: { north: number; south: number; east: number; west: number } | null;
+  // [lng, lat] corners in NW, NE, SE, SW order
+  corners: [number, number][] | null;
+  warnings: string[];
+}
+
+export class CrsResolutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CrsResolutionError";
+    Object.setPrototypeOf(this, CrsResolutionError.prototype);
+  }
+}
+
+// ========================================
+// EPSG lookup
+// ========================================
+
+// Hand-tuned definitions that take precedence over the bundled database.
+// These are the codes customers have flown with historically: Idaho East
+// (US feet), Wyoming State Plane and UTM zones 12N/13N.
+export const LOCAL_EPSG_DEFINITIONS: Record<number, string> = {
+  6451: '+proj=tmerc +lat_0=41.66666666666666 +lon_0=-112.1666666666667 +k=0.9999473679999999 +x_0=200000.0001016002 +y_0=0 +ellps=GRS80 +units=us-ft +no_defs',
+  2241: '+proj=tmerc +lat_0=41.66666666666666 +lon_0=-112.1666666666667 +k=0.9999473679999999 +x_0=200000.0001016002 +y_0=0 +datum=NAD83 +units=us-ft +no_defs',
+  32612: '+proj=utm +zone=12 +datum=WGS84 +units=m +no_defs',
+  32613: '+proj=utm +zone=13 +datum=WGS84 +units=m +no_defs',
+  32155: '+proj=tmerc +lat_0=40.5 +lon_0=-105.1666666666667 +k=0.9999375 +x_0=200000 +y_0=0 +datum=NAD83 +units=m +no_defs',
+  6616: '+proj=tmerc +lat_0=40.5 +lon_0=-110.083333333333 +k=0.9999375 +x_0=800000.00001016 +y_0=100000.00001016 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=us-ft +no_defs',
+  6615: '+proj=tmerc +lat_0=40.5 +lon_0=-110.083333333333 +k=0.9999375 +x_0=800000 +y_0=100000 +ellps=GRS80 +units=m +no_defs',
+};
+
+interface EpsgIndexEntry {
+  code: string;
+  kind: string;
+  name: string;
+  wkt: string | null;
+  proj4: string | null;
+  bbox: [number, number, number, number] | null; // [north, west, south, east]
+}
+
+const epsgCache = new Map<number, EpsgIndexEntry | null>();
+
+function readEpsgIndex(code: number): EpsgIndexEntry | null {
+  if (epsgCache.has(code)) return epsgCache.get(code)!;
+  let entry: EpsgIndexEntry | null = null;
+  try {
+    // One small JSON file per code, so we never load the whole 8 MB index
+    const file = require.resolve(`epsg-index/s/${code}.json`);
+    entry = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch {
+    entry = null;
+  }
+  epsgCache.set(code, entry);
+  return entry;
+}
+
+export function lookupEpsg(code: number, source: CrsSource = 'epsg-index'): CrsResolution | null {
+  const entry = readEpsgIndex(code);
+  const areaOfUse = entry?.bbox
+    ? [entry.bbox[1], entry.bbox[2], entry.bbox[3], entry.bbox[0]] as [number, number, number, number]
+    : null;
+
+  if (LOCAL_EPSG_DEFINITIONS[code]) {
+    return {
+      source: source === 'epsg-index' ? 'local' : source,
+      code: `EPSG:${code}`,
+      name: entry?.name ?? null,
+      definition: LOCAL_EPSG_DEFINITIONS[code],
+      isGeographic: false,
+      areaOfUse,
+    };
+  }
+
+  const definition = entry?.proj4 || entry?.wkt;
+  if (!entry || !definition) return null;
+  return {
+    source,
+    code: `EPSG:${code}`,
+    name: entry.name,
+    definition,
+    isGeographic: entry.kind === 'CRS-GEOGCRS' || definition.includes('+proj=longlat'),
+    areaOfUse,
+  };
+}
+
+// ========================================
+// Resolvers
+// ========================================
+
+// Explicit EPSG code supplied with the upload. An unknown code is an error
+// rather than a miss, so the file's own CRS never silently replaces it.
+const manualResolver: CrsResolver = {
+  name: 'manual',
+  async resolve(ctx) {
+    if (!ctx.epsgOverride) return null;
+    const crs = lookupEpsg(ctx.epsgOverride, 'manual');
+    if (!crs) throw new CrsResolutionError(`Unknown coordinate reference system EPSG:${ctx.epsgOverride}`);
+    return crs;
+  },
+};
+
+function projJsonCode(projJson: any): number | null {
+  const id = projJson?.id || (Array.isArray(projJson?.ids) ? projJson.ids[0] : null);
+  if (id?.authority === 'EPSG' && Number.isFinite(Number(id.code))) return Number(id.code);
+  return null;
+}
+
+// The CRS embedded in the file as GDAL reads it. Handles custom/compound
+// definitions and ESRI WKT that carry no EPSG code at all.
+const gdalResolver: CrsResolver = {
+  name: 'gdal',
+  async resolve(ctx) {
+    let projJson: any;
+    try {
+      const { stdout } = await execFileAsync('gdalsrsinfo', ['-o', 'projjson', ctx.filePath], { timeout: 15000 });
+      projJson = JSON.parse(stdout);
+    } catch {
+      return null;
+    }
+    if (!projJson || typeof projJson !== 'object') return null;
+
+    // Compound CRS (horizontal + vertical): only the horizontal part matters
+    const horizontal = projJson.type === 'CompoundCRS' && Array.isArray(projJson.components)
+      ? projJson.components[0]
+      : projJson;
+
+    const code = projJsonCode(horizontal);
+    const fromIndex = code ? lookupEpsg(code, 'gdal') : null;
+
+    let definition: string | object = horizontal;
+    try {
+      const { stdout } = await execFileAsync('gdalsrsinfo', ['-o', 'proj4', ctx.filePath], { timeout: 15000 });
+      const projString = stdout.trim().replace(/^'|'$/g, '');
+      if (projString.startsWith('+proj')) definition = projString;
+    } catch {
+      // PROJJSON alone is enough for proj4
+    }
+
+    return {
+      source: 'gdal',
+      code: code ? `EPSG:${code}` : null,
+      name: horizontal.name ?? fromIndex?.name ?? null,
+      definition,
+      isGeographic: horizontal.type === 'GeographicCRS' || (typeof definition === 'string' && definition.includes('+proj=longlat')),
+      areaOfUse: fromIndex?.areaOfUse ?? null,
+    };
+  },
+};
+
+// GeoTIFF geokeys read in-process; covers machines without GDAL installed
+const USER_DEFINED_GEOKEY = 32767;
+const geoKeyResolver: CrsResolver = {
+  name: 'geotiff',
+  async resolve(ctx) {
+    const projected = ctx.geoKeys?.ProjectedCSTypeGeoKey;
+    const geographic = ctx.geoKeys?.GeographicTypeGeoKey;
+    const code = projected && projected !== USER_DEFINED_GEOKEY
+      ? projected
+      : !projected && geographic && geographic !== USER_DEFINED_GEOKEY ? geographic : null;
+    if (!code) return null;
+    return lookupEpsg(code, 'geotiff');
+  },
+};
+
+const resolvers: CrsResolver[] = [manualResolver, gdalResolver, geoKeyResolver];
+
+export function registerCrsResolver(resolver: CrsResolver, options: { before?: string } = {}) {
+  const index = options.before ? resolvers.findIndex(r => r.name === options.before) : -1;
+  if (index === -1) resolvers.push(resolver);
+  else resolvers.splice(index, 0, resolver);
+}
+
+export async function resolveCrs(ctx: CrsContext): Promise<CrsResolution | null> {
+  for (const resolver of resolvers) {
+    try {
+      const resolution = await resolver.resolve(ctx);
+      if (resolution) return resolution;
+    } catch (error) {
+      if (error instanceof CrsResolutionError) throw error;
+      console.warn(`CRS resolver "${resolver.name}" failed:`, error);
+    }
+  }
+  return null;
+}
+
+// ========================================
+// GeoTIFF placement
+// ========================================
+
+function looksGeographic(bbox: number[]): boolean {
+  const [west, south, east, north] = bbox;
+  return Math.abs(north) <= 90 && Math.abs(south) <= 90 && Math.abs(east) <= 180 && Math.abs(west) <= 180;
+}
+
+// Transform the image footprint to WGS84. Edges are densified because a
+// projected rectangle is not a lat/lng rectangle, so corners alone can
+// under-report the extent.
+function footprintToWgs84(bbox: number[], definition: string | object) {
+  const [west, south, east, north] = bbox;
+  const transform = (x: number, y: number) => proj4(definition as any, 'EPSG:4326', [x, y]) as [number, number];
+
+  const steps = 8;
+  const edge: [number, number][] = [];
+  for (let i = 0; i <= steps; i++) {
+    const t = i / steps;
+    edge.push(transform(west + (east - west) * t, north));
+    edge.push(transform(west + (east - west) * t, south));
+    edge.push(transform(west, south + (north - south) * t));
+    edge.push(transform(east, south + (north - south) * t));
+  }
+
+  const lngs = edge.map(p => p[0]);
+  const lats = edge.map(p => p[1]);
+  return {
+    bounds: {
+      west: Math.min(...lngs),
+      east: Math.max(...lngs),
+      south: Math.min(...lats),
+      north: Math.max(...lats),
+    },
+    corners: [transform(west, north), transform(east, north), transform(east, south), transform(west, south)],
+  };
+}
+
+function isValidWgs84(bounds: { north: number; south: number; east: number; west: number }): boolean {
+  const values = [bounds.north, bounds.south, bounds.east, bounds.west];
+  return values.every(Number.isFinite) &&
+    Math.abs(bounds.north) <= 90 && Math.abs(bounds.south) <= 90 &&
+    Math.abs(bounds.east) <= 180 && Math.abs(bounds.west) <= 180 &&
+    bounds.north > bounds.south && bounds.east > bounds.west;
+}
+
+// Area-of-use check, with a degree of slack because EPSG extents are drawn
+// tightly around jurisdiction borders
+const AREA_OF_USE_TOLERANCE_DEG = 1;
+
+function outsideAreaOfUse(bounds: { north: number; south: number; east: number; west: number }, area: [number, number, number, number]): boolean {
+  const [west, south, east, north] = area;
+  const lng = (bounds.east + bounds.west) / 2;
+  const lat = (bounds.north + bounds.south) / 2;
+  return lng < west - AREA_OF_USE_TOLERANCE_DEG || lng > east + AREA_OF_USE_TOLERANCE_DEG ||
+    lat < south - AREA_OF_USE_TOLERANCE_DEG || lat > north + AREA_OF_USE_TOLERANCE_DEG;
+}
+
+// Work out where a GeoTIFF sits on the globe. Never guesses: if the CRS cannot
+// be resolved the status is 'unresolved' and bounds are null, and if the
+// result looks implausible it is returned as 'flagged' with a warning.
+export async function placeGeoTiff(filePath: string, options: { epsgOverride?: number | null } = {}): Promise<GeoTiffPlacement> {
+  const tiff = await GeoTIFF.fromFile(filePath);
+  const image = await tiff.getImage();
+  const geoKeys = image.getGeoKeys() as Record<string, any> | null;
+
+  let bbox: number[];
+  try {
+    bbox = image.getBoundingBox();
+  } catch {
+    return { status: 'unresolved', crs: null, bounds: null, corners: null, warnings: ['GeoTIFF has no georeferencing (no tie points or transform)'] };
+  }
+
+  let crs: CrsResolution | null;
+  try {
+    crs = await resolveCrs({ filePath, geoKeys, epsgOverride: options.epsgOverride ?? null });
+  } catch (error) {
+    if (!(error instanceof CrsResolutionError)) throw error;
+    return { status: 'unresolved', crs: null, bounds: null, corners: null, warnings: [error.message] };
+  }
+  const warnings: string[] = [];
+
+  if (!crs) {
+    // Files with no CRS at all but lat/lng-looking numbers were historically
+    // treated as WGS84; keep that, but make it visible
+    if (looksGeographic(bbox)) {
+      const [west, south, east, north] = bbox;
+      return {
+        status: 'flagged',
+        crs: null,
+        bounds: { west, south, east, north },
+        corners: [[west, north], [east, north], [east, south], [west, south]],
+        warnings: ['No CRS in file; coordinates assumed to be WGS84 longitude/latitude'],
+      };
+    }
+    const code = geoKeys?.ProjectedCSTypeGeoKey || geoKeys?.GeographicTypeGeoKey;
+    return {
+      status: 'unresolved',
+      crs: null,
+      bounds: null,
+      corners: null,
+      warnings: [code ? `Unknown coordinate reference system EPSG:${code}` : 'Coordinate reference system could not be determined'],
+    };
+  }
+
+  let placement: { bounds: { north: number; south: number; east: number; west: number }; corners: [number, number][] };
+  try {
+    if (crs.isGeographic) {
+      const [west, south, east, north] = bbox;
+      placement = { bounds: { west, south, east, north }, corners: [[west, north], [east, north], [east, south], [west, south]] };
+    } else {
+      placement = footprintToWgs84(bbox, crs.definition);
+    }
+  } catch (error) {
+    return {
+      status: 'unresolved',
+      crs,
+      bounds: null,
+      corners: null,
+      warnings: [`Reprojection from ${crs.code || crs.name || 'file CRS'} failed: ${error instanceof Error ? error.message : 'unknown error'}`],
+    };
+  }
+
+  if (!isValidWgs84(placement.bounds)) {
+    return { status: 'unresolved', crs, bounds: null, corners: null, warnings: [`Reprojected bounds from ${crs.code || crs.name} are not valid coordinates`] };
+  }
+
+  if (crs.areaOfUse && outsideAreaOfUse(placement.bounds, crs.areaOfUse)) {
+    warnings.push(`Image falls outside the area of use of ${crs.code}${crs.name ? ` (${crs.name})` : ''}; check the CRS`);
+  }
+
+  return { status: warnings.length > 0 ? 'flagged' : 'resolved', crs, ...placement, warnings };
+}
+
+// Source SRS argument for gdalwarp when the file itself does not carry a
+// usable definition (manual override or geokey-only resolution). Passes the
+// same definition the footprint was computed with, so a hand-tuned local
+// definition is not swapped for GDAL's own idea of the code.
+export function gdalSourceSrs(crs: CrsResolution | null): string | null {
+  if (!crs || crs.source === 'gdal') return null;
+  if (typeof crs.definition === 'string') return crs.definition;
+  return crs.code;
+}
@@ -1,4 +1,4 @@
-import { eq, and, or, like, sql, desc, inArray, isNull } from "drizzle-orm";
+import { eq, ne, and, or, like, sql, desc, inArray, isNull, isNotNull, type SQL } from "drizzle-orm";
 import { db } from "./db";
 import {
   users,
@@ -16,6 +16,7 @@ import {
   routeShares,
   routePointsOfInterest,
   routeNotes,
+  aiConversations,
   trips,
   calendarEvents,
   friendRequests,
@@ -24,6 +25,8 @@ import {
   liveMapMembers,
   liveMapPois,
   liveMapRoutes,
+  liveMapGeofences,
+  liveMapIncidents,
   liveMapMessages,
   voiceMessages,
   liveMapInvites,
@@ -32,6 +35,8 @@ import {
   passwordResetTokens,
   backgroundLocationTokens,
   activities,
+  segments,
+  segmentEfforts,
   directMessages,
   type User,
   type InsertUser,
@@ -61,6 +66,8 @@ import {
   type InsertRoutePointOfInterest,
   type RouteNote,
   type InsertRouteNote,
+  type AiConversation,
+  type InsertAiConversation,
   type Trip,
   type InsertTrip,
   type CalendarEvent,
@@ -77,6 +84,11 @@ import {
   type InsertLiveMapPoi,
   type LiveMapRoute,
   type InsertLiveMapRoute,
+  type LiveMapGeofence,
+  type InsertLiveMapGeofence,
+  type LiveMapIncident,
+  type InsertLiveMapIncident,
+  type IncidentType,
   type LiveMapMessage,
   type InsertLiveMapMessage,
   type VoiceMessage,
@@ -91,6 +103,10 @@ import {
   type BackgroundLocationToken,
   type Activity,
   type InsertActivity,
+  type Segment,
+  type InsertSegment,
+  type SegmentEffort,
+  type InsertSegmentEffort,
   type DirectMessage,
   type InsertDirectMessage,
   type Cesium3dTileset,
@@ -111,7 +127,7 @@ import {
   type EnterpriseInvite,
   type InsertEnterpriseInvite,
 } from "@shared/schema";
-import { IStorage } from "./storage";
+import { IStorage, type SegmentEffortDetail } from "./storage";
 
 export class DatabaseStorage implements IStorage {
   // User operations
@@ -772,6 +788,40 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount ?? 0) > 0;
   }
 
+  // AI route assistant conversation operations
+  async createAiConversation(conversation: InsertAiConversation): Promise<AiConversation> {
+    const [created] = await db
+      .insert(aiConversations)
+      .values(conversation)
+      .returning();
+    return created;
+  }
+
+  async getAiConversation(id: number): Promise<AiConversation | undefined> {
+    const [conversation] = await db.select().from(aiConversations).where(eq(aiConversations.id, id));
+    return conversation;
+  }
+
+  async getAiConversationsByUser(userId: number): Promise<AiConversation[]> {
+    return await db.select().from(aiConversations)
+      .where(eq(aiConversations.userId, userId))
+      .orderBy(desc(aiConversations.updatedAt));
+  }
+
+  async updateAiConversation(id: number, updateData: Partial<Pick<AiConversation, 'title' | 'activityType' | 'messages'>>): Promise<AiConversation | undefined> {
+    const [conversation] = await db
+      .update(aiConversations)
+      .set({ ...updateData, updatedAt: new Date() })
+      .where(eq(aiConversations.id, id))
+      .returning();
+    return conversation;
+  }
+
+  async deleteAiConversation(id: number): Promise<boolean> {
+    const result = await db.delete(aiConversations).where(eq(aiConversations.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
   // Trip operations
   async createTrip(trip: InsertTrip): Promise<Trip> {
     const [newTrip] = await db
@@ -1372,6 +1422,143 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount ?? 0) > 0;
   }
 
+  // Live Map Geofence operations
+  async createLiveMapGeofence(geofence: InsertLiveMapGeofence): Promise<LiveMapGeofence> {
+    const [newGeofence] = await db.insert(liveMapGeofences).values(geofence).returning();
+    return newGeofence;
+  }
+
+  async getLiveMapGeofences(sessionId: number): Promise<LiveMapGeofence[]> {
+    return db
+      .select()
+      .from(liveMapGeofences)
+      .where(eq(liveMapGeofences.sessionId, sessionId))
+      .orderBy(liveMapGeofences.createdAt);
+  }
+
+  async getLiveMapGeofence(id: number): Promise<LiveMapGeofence | undefined> {
+    const [geofence] = await db.select().from(liveMapGeofences).where(eq(liveMapGeofences.id, id));
+    return geofence;
+  }
+
+  async updateLiveMapGeofence(id: number, data: Partial<Pick<LiveMapGeofence, 'name' | 'isActive' | 'distanceMeters'>>): Promise<LiveMapGeofence | undefined> {
+    const [updated] = await db.update(liveMapGeofences).set(data).where(eq(liveMapGeofences.id, id)).returning();
+    return updated;
+  }
+
+  async deleteLiveMapGeofence(id: number): Promise<boolean> {
+    const result = await db.delete(liveMapGeofences).where(eq(liveMapGeofences.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Live Map Incident operations
+  async createLiveMapIncident(incident: InsertLiveMapIncident): Promise<LiveMapIncident> {
+    const [newIncident] = await db.insert(liveMapIncidents).values(incident).returning();
+    return newIncident;
+  }
+
+  async getLiveMapIncidents(sessionId: number, unresolvedOnly = false): Promise<LiveMapIncident[]> {
+    return await db
+      .select()
+      .from(liveMapIncidents)
+      .where(and(
+        eq(liveMapIncidents.sessionId, sessionId),
+        unresolvedOnly ? ne(liveMapIncidents.status, 'resolved') : undefined
+      ))
+      .orderBy(desc(liveMapIncidents.createdAt));
+  }
+
+  async getLiveMapIncident(id: number): Promise<LiveMapIncident | undefined> {
+    const [incident] = await db.select().from(liveMapIncidents).where(eq(liveMapIncidents.id, id));
+    return incident;
+  }
+
+  async getUnresolvedLiveMapIncident(sessionId: number, userId: number, type: IncidentType): Promise<LiveMapIncident | undefined> {
+    const [incident] = await db
+      .select()
+      .from(liveMapIncidents)
+      .where(and(
+        eq(liveMapIncidents.sessionId, sessionId),
+        eq(liveMapIncidents.userId, userId),
+        eq(liveMapIncidents.type, type),
+        ne(liveMapIncidents.status, 'resolved')
+      ))
+      .orderBy(desc(liveMapIncidents.createdAt))
+      .limit(1);
+    return incident;
+  }
+
+  async getUnresolvedOverdueLiveMapIncidents(): Promise<LiveMapIncident[]> {
+    return await db
+      .select()
+      .from(liveMapIncidents)
+      .where(and(eq(liveMapIncidents.type, 'overdue'), ne(liveMapIncidents.status, 'resolved')));
+  }
+
+  async updateLiveMapIncident(id: number, data: Partial<Omit<LiveMapIncident, 'id' | 'sessionId' | 'userId' | 'type' | 'createdAt'>>): Promise<LiveMapIncident | undefined> {
+    const [updated] = await db.update(liveMapIncidents).set(data).where(eq(liveMapIncidents.id, id)).returning();
+    return updated;
+  }
+
+  // Open an overdue incident for every member of an active session whose last
+  // location update is older than the session's check-in threshold. A member
+  // whose incident was resolved without a new fix is only flagged again after
+  // another full check-in window. The advisory lock keeps two servers from
+  // opening the same incident twice.
+  async createOverdueLiveMapIncidents(): Promise<LiveMapIncident[]> {
+    return await db.transaction(async (tx) => {
+      const { rows } = await tx.execute(sql`SELECT pg_try_advisory_xact_lock(hashtext('live_map_overdue_scan')) AS locked`);
+      if (!rows[0]?.locked) return [];
+
+      const overdue = await tx
+        .select({
+          sessionId: liveMapMembers.sessionId,
+          userId: liveMapMembers.userId,
+          latitude: liveMapMembers.latitude,
+          longitude: liveMapMembers.longitude,
+          accuracy: liveMapMembers.accuracy,
+          lastFixAt: liveMapMembers.lastActive,
+        })
+        .from(liveMapMembers)
+        .innerJoin(liveMapSessions, eq(liveMapMembers.sessionId, liveMapSessions.id))
+        .where(and(
+          eq(liveMapSessions.isActive, true),
+          isNotNull(liveMapSessions.checkInMinutes),
+          isNull(liveMapMembers.leftAt),
+          sql`${liveMapMembers.lastActive} < now() - ${liveMapSessions.checkInMinutes} * interval '1 minute'`,
+          sql`NOT EXISTS (
+            SELECT 1 FROM live_map_incidents i
+            WHERE i.session_id = ${liveMapMembers.sessionId}
+              AND i.user_id = ${liveMapMembers.userId}
+              AND i.type = 'overdue'
+              AND (
+                i.status <> 'resolved'
+                OR i.resolved_at > now() - ${liveMapSessions.checkInMinutes} * interval '1 minute'
+              )
+          )`
+        ));
+      if (overdue.length === 0) return [];
+
+      return await tx
+        .insert(liveMapIncidents)
+        .values(overdue.map(member => ({ ...member, type: 'overdue' })))
+        .returning();
+    });
+  }
+
+  async resolveOverdueLiveMapIncidents(sessionId: number, userId: number): Promise<LiveMapIncident[]> {
+    return await db
+      .update(liveMapIncidents)
+      .set({ status: 'resolved', resolvedBy: userId, resolvedAt: new Date() })
+      .where(and(
+        eq(liveMapIncidents.sessionId, sessionId),
+        eq(liveMapIncidents.userId, userId),
+        eq(liveMapIncidents.type, 'overdue'),
+        ne(liveMapIncidents.status, 'resolved')
+      ))
+      .returning();
+  }
+
   // Live Map Message operations
   async createLiveMapMessage(message: InsertLiveMapMessage): Promise<LiveMapMessage> {
     const [newMessage] = await db.insert(liveMapMessages).values(message).returning();
@@ -1434,7 +1621,20 @@ export class DatabaseStorage implements IStorage {
 
   async deleteExpiredVoiceMessages(): Promise<number> {
     const now = new Date();
-    const result = await db.delete(voiceMessages).where(sql`${voiceMessages.expiresAt} <= ${now}`).returning();
+    // Messages of running sessions are kept for the session archive; ending it sets their final expiry
+    const result = await db.delete(voiceMessages).where(and(
+      sql`${voiceMessages.expiresAt} <= ${now}`,
+      sql`${voiceMessages.sessionId} NOT IN (SELECT ${liveMapSessions.id} FROM ${liveMapSessions} WHERE ${liveMapSessions.isActive} = true)`
+    )).returning();
+    return result.length;
+  }
+
+  async retainVoiceMessages(sessionId: number, until: Date): Promise<number> {
+    const result = await db
+      .update(voiceMessages)
+      .set({ expiresAt: until })
+      .where(eq(voiceMessages.sessionId, sessionId))
+      .returning({ id: voiceMessages.id });
     return result.length;
   }
 
@@ -1517,7 +1717,7 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
-  async endLiveMapSession(sessionId: number, savedRouteId: number): Promise<LiveMapSession | undefined> {
+  async endLiveMapSession(sessionId: number, savedRouteId?: number): Promise<LiveMapSession | undefined> {
     const [updated] = await db
       .update(liveMapSessions)
       .set({ 
@@ -1669,7 +1869,7 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(activities.startTime));
   }
 
-  async updateActivity(id: number, updates: Partial<InsertActivity>): Promise<Activity | undefined> {
+  async updateActivity(id: number, updates: Partial<Omit<Activity, 'id' | 'userId' | 'createdAt' | 'updatedAt'>>): Promise<Activity | undefined> {
     const [updatedActivity] = await db
       .update(activities)
       .set({ ...updates, updatedAt: new Date() })
@@ -1691,6 +1891,89 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(activities.startTime));
   }
 
+  async getActivitiesByUsers(userIds: number[]): Promise<Activity[]> {
+    if (userIds.length === 0) return [];
+    return await db
+      .select()
+      .from(activities)
+      .where(inArray(activities.userId, userIds))
+      .orderBy(desc(activities.startTime));
+  }
+
+  // Segment operations
+  async createSegment(segment: InsertSegment): Promise<Segment> {
+    const [newSegment] = await db.insert(segments).values(segment).returning();
+    return newSegment;
+  }
+
+  async getSegment(id: number): Promise<Segment | undefined> {
+    const [segment] = await db.select().from(segments).where(eq(segments.id, id));
+    return segment;
+  }
+
+  async getSegmentsByIds(ids: number[]): Promise<Segment[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(segments).where(inArray(segments.id, ids));
+  }
+
+  async getSegmentsByUsers(userIds: number[]): Promise<Segment[]> {
+    if (userIds.length === 0) return [];
+    return await db.select().from(segments).where(inArray(segments.userId, userIds));
+  }
+
+  async deleteSegment(id: number): Promise<boolean> {
+    const result = await db.delete(segments).where(eq(segments.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async createSegmentEfforts(efforts: InsertSegmentEffort[]): Promise<SegmentEffort[]> {
+    if (efforts.length === 0) return [];
+    return await db.insert(segmentEfforts).values(efforts).returning();
+  }
+
+  async replaceActivitySegmentEfforts(activityId: number, efforts: InsertSegmentEffort[]): Promise<SegmentEffort[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(segmentEfforts).where(eq(segmentEfforts.activityId, activityId));
+      if (efforts.length === 0) return [];
+      return await tx.insert(segmentEfforts).values(efforts).returning();
+    });
+  }
+
+  private async segmentEffortDetails(where: SQL): Promise<SegmentEffortDetail[]> {
+    const rows = await db
+      .select({
+        effort: segmentEfforts,
+        username: users.username,
+        fullName: users.fullName,
+        activityName: activities.name,
+        activityIsPublic: activities.isPublic,
+      })
+      .from(segmentEfforts)
+      .innerJoin(users, eq(segmentEfforts.userId, users.id))
+      .innerJoin(activities, eq(segmentEfforts.activityId, activities.id))
+      .where(where)
+      .orderBy(segmentEfforts.elapsedSeconds);
+    return rows.map(row => ({
+      ...row.effort,
+      username: row.username,
+      fullName: row.fullName,
+      activityName: row.activityName,
+      activityIsPublic: row.activityIsPublic ?? false,
+    }));
+  }
+
+  async getSegmentEffortsBySegment(segmentId: number): Promise<SegmentEffortDetail[]> {
+    return this.segmentEffortDetails(eq(segmentEfforts.segmentId, segmentId));
+  }
+
+  async getSegmentEffortsByActivity(activityId: number): Promise<SegmentEffortDetail[]> {
+    return this.segmentEffortDetails(eq(segmentEfforts.activityId, activityId));
+  }
+
+  async getSegmentEffortsByUser(userId: number): Promise<SegmentEffortDetail[]> {
+    return this.segmentEffortDetails(eq(segmentEfforts.userId, userId));
+  }
+
   async sendDirectMessage(data: InsertDirectMessage): Promise<DirectMessage> {
     const [message] = await db.insert(directMessages).values(data).returning();
     return message;
@@ -0,0 +1,184 @@
+import fs from 'fs';
+import { and, desc, eq, isNotNull } from 'drizzle-orm';
+import { db } from './db';
+import { droneImages, type DroneImage } from '@shared/schema';
+import { getCogReader, closeCogReader, deleteCog } from './cogTiles';
+
+/**
+ * Point elevations from uploaded bare-earth DEMs. Coordinates inside a
+ * surveyed area are answered from the drone model instead of the ~90 m
+ * global dataset behind Open-Meteo. DSMs are left out on purpose: they
+ * include tree canopy and roofs, which is not what a route profile wants.
+ */
+
+interface DemEntry {
+  id: number;
+  userId: number;
+  isPublic: boolean;
+  elevationPath: string;
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+const INDEX_TTL_MS = 60 * 1000;
+
+let demIndex: Promise<DemEntry[]> | null = null;
+let demIndexLoadedAt = 0;
+
+function loadDemIndex(): Promise<DemEntry[]> {
+  if (demIndex && Date.now() - demIndexLoadedAt < INDEX_TTL_MS) return demIndex;
+
+  demIndexLoadedAt = Date.now();
+  // Newest first: a fresh survey wins where it overlaps an older one
+  const loading = db.select().from(droneImages)
+    .where(and(
+      eq(droneImages.rasterType, 'dem'),
+      eq(droneImages.processingStatus, 'complete'),
+      isNotNull(droneImages.elevationPath)
+    ))
+    .orderBy(desc(droneImages.id))
+    .then(rows => rows
+      .filter(row => fs.existsSync(row.elevationPath!))
+      .map(row => ({
+        id: row.id,
+        userId: row.userId,
+        isPublic: row.isPublic !== false,
+        elevationPath: row.elevationPath!,
+        north: parseFloat(row.northEastLat),
+        south: parseFloat(row.southWestLat),
+        east: parseFloat(row.northEastLng),
+        west: parseFloat(row.southWestLng),
+      })));
+  loading.catch(() => {
+    if (demIndex === loading) demIndex = null;
+  });
+  demIndex = loading;
+  return loading;
+}
+
+// Call after an elevation model is (re)processed or deleted
+export function invalidateDemIndex(): void {
+  demIndex = null;
+}
+
+async function sampleDem(entry: DemEntry, lng: number, lat: number): Promise<number | null> {
+  const tiff = await getCogReader(entry.elevationPath);
+  const image = await tiff.getImage();
+  const width = image.getWidth();
+  const height = image.getHeight();
+  if (width < 2 || height < 2) return null;
+
+  const [originX, originY] = image.getOrigin();
+  const [resX, resY] = image.getResolution();
+  // Pixel values describe pixel centres, half a pixel in from the corner
+  const px = (lng - originX) / resX - 0.5;
+  const py = (lat - originY) / resY - 0.5;
+  if (px < -0.5 || py < -0.5 || px > width - 0.5 || py > height - 0.5) return null;
+
+  const x0 = Math.min(Math.max(Math.floor(px), 0), width - 2);
+  const y0 = Math.min(Math.max(Math.floor(py), 0), height - 2);
+  const fx = Math.min(Math.max(px - x0, 0), 1);
+  const fy = Math.min(Math.max(py - y0, 0), 1);
+
+  const rasters = await image.readRasters({ window: [x0, y0, x0 + 2, y0 + 2], samples: [0] });
+  const values = rasters[0] as unknown as ArrayLike<number>;
+  const noData = image.getGDALNoData();
+  const isValid = (v: number) => Number.isFinite(v) && v !== noData && v > -10000;
+
+  const [v00, v10, v01, v11] = [values[0], values[1], values[2], values[3]];
+  if ([v00, v10, v01, v11].every(isValid)) {
+    const top = v00 * (1 - fx) + v10 * fx;
+    const bottom = v01 * (1 - fx) + v11 * fx;
+    return top * (1 - fy) + bottom * fy;
+  }
+
+  // Next to a nodata hole, fall back to the nearest pixel rather than blending in the fill value
+  const nearest = values[(fy < 0.5 ? 0 : 2) + (fx < 0.5 ? 0 : 1)];
+  return isValid(nearest) ? nearest : null;
+}
+
+/**
+ * Elevation in metres for each [lng, lat] from the newest uploaded DEM the
+ * user can see that covers it, or null where no DEM has data.
+ */
+export async function getDemElevations(coordinates: [number, number][], userId?: number): Promise<(number | null)[]> {
+  const results: (number | null)[] = coordinates.map(() => null);
+  const dems = (await loadDemIndex()).filter(dem => dem.isPublic || dem.userId === userId);
+  if (dems.length === 0) return results;
+
+  for (let i = 0; i < coordinates.length; i++) {
+    const [lng, lat] = coordinates[i];
+    for (const dem of dems) {
+      if (lat < dem.south || lat > dem.north || lng < dem.west || lng > dem.east) continue;
+      try {
+        const value = await sampleDem(dem, lng, lat);
+        if (value !== null) {
+          results[i] = Math.round(value * 100) / 100;
+          break;
+        }
+      } catch (err: any) {
+        console.error(`[DEM] Failed to sample drone image ${dem.id}: ${err?.message}`);
+      }
+    }
+  }
+  return results;
+}
+
+export class ElevationServiceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ElevationServiceError";
+    Object.setPrototypeOf(this, ElevationServiceError.prototype);
+  }
+}
+
+// Open-Meteo supports up to 100 points per request
+const OPEN_METEO_MAX_POINTS = 100;
+
+/**
+ * Elevations for [lng, lat] points: uploaded DEMs where they have coverage,
+ * Open-Meteo for the rest. Throws ElevationServiceError if Open-Meteo fails.
+ */
+export async function lookupElevations(
+  coordinates: [number, number][],
+  userId?: number
+): Promise<{ elevations: (number | null)[]; source: 'open-meteo' | 'drone-dem' | 'mixed' }> {
+  const elevations = await getDemElevations(coordinates, userId);
+  const remaining = elevations.flatMap((elevation, index) => elevation === null ? [index] : []);
+  const demPoints = coordinates.length - remaining.length;
+
+  for (let i = 0; i < remaining.length; i += OPEN_METEO_MAX_POINTS) {
+    const batchIndexes = remaining.slice(i, i + OPEN_METEO_MAX_POINTS);
+    const batch = batchIndexes.map(index => coordinates[index]);
+    const latitudes = batch.map(c => c[1].toFixed(6)).join(',');
+    const longitudes = batch.map(c => c[0].toFixed(6)).join(',');
+
+    const response = await fetch(
+      `https://api.open-meteo.com/v1/elevation?latitude=${latitudes}&longitude=${longitudes}`,
+      { signal: AbortSignal.timeout(15000) }
+    );
+    if (!response.ok) {
+      throw new ElevationServiceError(`Open-Meteo API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    batchIndexes.forEach((index, j) => {
+      elevations[index] = data.elevation?.[j] ?? null;
+    });
+  }
+
+  const source = demPoints === 0 ? 'open-meteo' : remaining.length === 0 ? 'drone-dem' : 'mixed';
+  return { elevations, source };
+}
+
+export function deleteElevationProducts(image: Pick<DroneImage, 'elevationPath' | 'hillshadePath' | 'contoursPath'>): void {
+  if (image.elevationPath) {
+    closeCogReader(image.elevationPath);
+    fs.rmSync(image.elevationPath, { force: true });
+  }
+  if (image.hillshadePath) deleteCog(image.hillshadePath);
+  if (image.contoursPath) fs.rmSync(image.contoursPath, { force: true });
+  invalidateDemIndex();
+}
@@ -0,0 +1,26 @@
+/**
+ * Geodesic helpers shared across the server.
+ */
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+// [lng, lat], as in GeoJSON and stored path coordinates
+export type LngLat = [number, number];
+
+// Great-circle distance in meters between two points
+export function haversineMeters(a: LatLng, b: LatLng): number {
+  const R = 6371000;
+  const dLat = (b.lat - a.lat) * Math.PI / 180;
+  const dLng = (b.lng - a.lng) * Math.PI / 180;
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(a.lat * Math.PI / 180) * Math.cos(b.lat * Math.PI / 180) * Math.sin(dLng / 2) ** 2;
+  return 2 * R * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+// The same distance for [lng, lat] pairs
+export function lngLatMeters(a: LngLat, b: LngLat): number {
+  return haversineMeters({ lat: a[1], lng: a[0] }, { lat: b[1], lng: b[0] });
+}
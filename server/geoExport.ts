@@ -0,0 +1,336 @@
+import type { Route, Activity, RoutePointOfInterest } from '@shared/schema';
+
+export type ExportFormat = 'gpx' | 'kml' | 'geojson';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['gpx', 'kml', 'geojson'];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  gpx: 'application/gpx+xml',
+  kml: 'application/vnd.google-earth.kml+xml',
+  geojson: 'application/geo+json',
+};
+
+export interface ExportTrackPoint {
+  lng: number;
+  lat: number;
+  elevation?: number | null;
+  time?: Date | null;
+}
+
+export interface ExportWaypoint {
+  name: string;
+  lng: number;
+  lat: number;
+  elevation?: number | null;
+  description?: string | null;
+  time?: Date | null;
+}
+
+export interface ExportDocument {
+  name: string;
+  description?: string | null;
+  type?: string;
+  time?: Date | null;
+  track: ExportTrackPoint[];
+  waypoints: ExportWaypoint[];
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const num = typeof value === 'number' ? value : parseFloat(String(value));
+  return isFinite(num) ? num : null;
+}
+
+function isValidCoordinate(lng: number | null, lat: number | null): boolean {
+  return lng !== null && lat !== null && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+}
+
+// Parse a pathCoordinates JSON string ([[lng, lat], [lng, lat, ele], ...]) into track points
+export function parsePathCoordinates(json: string | null | undefined): ExportTrackPoint[] {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json);
+    if (!Array.isArray(parsed)) return [];
+    const points: ExportTrackPoint[] = [];
+    for (const coord of parsed) {
+      if (!Array.isArray(coord)) continue;
+      const lng = toNumber(coord[0]);
+      const lat = toNumber(coord[1]);
+      if (!isValidCoordinate(lng, lat)) continue;
+      points.push({ lng: lng!, lat: lat!, elevation: toNumber(coord[2]) });
+    }
+    return points;
+  } catch {
+    return [];
+  }
+}
+
+// Parse recorded activity trackPoints ({latitude, longitude, altitude, timestamp, ...})
+export function parseTrackPoints(json: string | null | undefined): ExportTrackPoint[] {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json);
+    if (!Array.isArray(parsed)) return [];
+    const points: ExportTrackPoint[] = [];
+    for (const p of parsed) {
+      if (!p || typeof p !== 'object') continue;
+      const lng = toNumber(p.longitude);
+      const lat = toNumber(p.latitude);
+      if (!isValidCoordinate(lng, lat)) continue;
+      const timestamp = toNumber(p.timestamp);
+      points.push({
+        lng: lng!,
+        lat: lat!,
+        elevation: toNumber(p.altitude),
+        time: timestamp !== null ? new Date(timestamp) : null,
+      });
+    }
+    return points;
+  } catch {
+    return [];
+  }
+}
+
+// Parse route waypointCoordinates in any of the formats the route builder and
+// save-as-route have written: [{name, lngLat, elevation}], [{name, lat, lng}] or [[lng, lat]]
+export function parseWaypointCoordinates(json: string | null | undefined): ExportWaypoint[] {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json);
+    if (!Array.isArray(parsed)) return [];
+    const waypoints: ExportWaypoint[] = [];
+    parsed.forEach((wp: any, index: number) => {
+      let lng: number | null = null;
+      let lat: number | null = null;
+      let name = `Waypoint ${index + 1}`;
+      let elevation: number | null = null;
+
+      if (Array.isArray(wp)) {
+        lng = toNumber(wp[0]);
+        lat = toNumber(wp[1]);
+        elevation = toNumber(wp[2]);
+      } else if (wp && typeof wp === 'object') {
+        if (Array.isArray(wp.lngLat)) {
+          lng = toNumber(wp.lngLat[0]);
+          lat = toNumber(wp.lngLat[1]);
+        } else {
+          lng = toNumber(wp.lng ?? wp.longitude);
+          lat = toNumber(wp.lat ?? wp.latitude);
+        }
+        if (typeof wp.name === 'string' && wp.name.trim()) name = wp.name.trim();
+        elevation = toNumber(wp.elevation);
+      }
+
+      if (isValidCoordinate(lng, lat)) {
+        waypoints.push({ name, lng: lng!, lat: lat!, elevation });
+      }
+    });
+    return waypoints;
+  } catch {
+    return [];
+  }
+}
+
+export function routeToExportDocument(route: Route, pois: RoutePointOfInterest[] = []): ExportDocument {
+  const waypoints = parseWaypointCoordinates(route.waypointCoordinates);
+
+  for (const poi of pois) {
+    const lng = toNumber(poi.longitude);
+    const lat = toNumber(poi.latitude);
+    if (!isValidCoordinate(lng, lat)) continue;
+    waypoints.push({
+      name: poi.name,
+      lng: lng!,
+      lat: lat!,
+      elevation: toNumber(poi.elevation),
+      description: poi.note,
+    });
+  }
+
+  return {
+    name: route.name,
+    description: route.description,
+    type: route.routingMode,
+    time: route.createdAt,
+    track: parsePathCoordinates(route.pathCoordinates),
+    waypoints,
+  };
+}
+
+export function activityToExportDocument(activity: Activity): ExportDocument {
+  // Prefer the detailed track points (elevation + timestamps); fall back to the plain path
+  let track = parseTrackPoints(activity.trackPoints);
+  if (track.length < 2) {
+    track = parsePathCoordinates(activity.pathCoordinates);
+  }
+
+  return {
+    name: activity.name,
+    description: activity.notes,
+    type: activity.activityType,
+    time: activity.startTime,
+    track,
+    waypoints: [],
+  };
+}
+
+function formatElevation(elevation: number | null | undefined): string | null {
+  return elevation !== null && elevation !== undefined ? elevation.toFixed(1) : null;
+}
+
+export function buildGpx(doc: ExportDocument): string {
+  const lines: string[] = [];
+  lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+  lines.push('<gpx version="1.1" creator="Session Maps" xmlns="http://www.topografix.com/GPX/1/1" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">');
+  lines.push('  <metadata>');
+  lines.push(`    <name>${escapeXml(doc.name)}</name>`);
+  if (doc.description) lines.push(`    <desc>${escapeXml(doc.description)}</desc>`);
+  if (doc.time) lines.push(`    <time>${doc.time.toISOString()}</time>`);
+  lines.push('  </metadata>');
+
+  for (const wp of doc.waypoints) {
+    lines.push(`  <wpt lat="${wp.lat.toFixed(7)}" lon="${wp.lng.toFixed(7)}">`);
+    const ele = formatElevation(wp.elevation);
+    if (ele !== null) lines.push(`    <ele>${ele}</ele>`);
+    if (wp.time) lines.push(`    <time>${wp.time.toISOString()}</time>`);
+    lines.push(`    <name>${escapeXml(wp.name)}</name>`);
+    if (wp.description) lines.push(`    <desc>${escapeXml(wp.description)}</desc>`);
+    lines.push('  </wpt>');
+  }
+
+  lines.push('  <trk>');
+  lines.push(`    <name>${escapeXml(doc.name)}</name>`);
+  if (doc.type) lines.push(`    <type>${escapeXml(doc.type)}</type>`);
+  lines.push('    <trkseg>');
+  for (const pt of doc.track) {
+    const ele = formatElevation(pt.elevation);
+    const children: string[] = [];
+    if (ele !== null) children.push(`<ele>${ele}</ele>`);
+    if (pt.time) children.push(`<time>${pt.time.toISOString()}</time>`);
+    const open = `      <trkpt lat="${pt.lat.toFixed(7)}" lon="${pt.lng.toFixed(7)}"`;
+    lines.push(children.length > 0 ? `${open}>${children.join('')}</trkpt>` : `${open}/>`);
+  }
+  lines.push('    </trkseg>');
+  lines.push('  </trk>');
+  lines.push('</gpx>');
+  return lines.join('\n');
+}
+
+function kmlCoordinate(lng: number, lat: number, elevation?: number | null): string {
+  const ele = elevation !== null && elevation !== undefined ? elevation.toFixed(1) : '0';
+  return `${lng.toFixed(7)},${lat.toFixed(7)},${ele}`;
+}
+
+export function buildKml(doc: ExportDocument): string {
+  const hasElevation = doc.track.some(p => p.elevation !== null && p.elevation !== undefined);
+  const hasTimes = doc.track.length > 0 && doc.track.every(p => p.time);
+
+  const lines: string[] = [];
+  lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+  lines.push('<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">');
+  lines.push('  <Document>');
+  lines.push(`    <name>${escapeXml(doc.name)}</name>`);
+  if (doc.description) lines.push(`    <description>${escapeXml(doc.description)}</description>`);
+  lines.push('    <Style id="track"><LineStyle><color>ffeb9c3b</color><width>4</width></LineStyle></Style>');
+
+  lines.push('    <Placemark>');
+  lines.push(`      <name>${escapeXml(doc.name)}</name>`);
+  lines.push('      <styleUrl>#track</styleUrl>');
+  if (hasTimes) {
+    // gx:Track keeps per-point timestamps for time-aware viewers
+    lines.push('      <gx:Track>');
+    lines.push(`        <altitudeMode>${hasElevation ? 'absolute' : 'clampToGround'}</altitudeMode>`);
+    for (const pt of doc.track) {
+      lines.push(`        <when>${pt.time!.toISOString()}</when>`);
+    }
+    for (const pt of doc.track) {
+      const ele = pt.elevation !== null && pt.elevation !== undefined ? pt.elevation.toFixed(1) : '0';
+      lines.push(`        <gx:coord>${pt.lng.toFixed(7)} ${pt.lat.toFixed(7)} ${ele}</gx:coord>`);
+    }
+    lines.push('      </gx:Track>');
+  } else {
+    lines.push('      <LineString>');
+    lines.push('        <tessellate>1</tessellate>');
+    lines.push(`        <altitudeMode>${hasElevation ? 'absolute' : 'clampToGround'}</altitudeMode>`);
+    lines.push(`        <coordinates>${doc.track.map(p => kmlCoordinate(p.lng, p.lat, p.elevation)).join(' ')}</coordinates>`);
+    lines.push('      </LineString>');
+  }
+  lines.push('    </Placemark>');
+
+  for (const wp of doc.waypoints) {
+    lines.push('    <Placemark>');
+    lines.push(`      <name>${escapeXml(wp.name)}</name>`);
+    if (wp.description) lines.push(`      <description>${escapeXml(wp.description)}</description>`);
+    lines.push(`      <Point><coordinates>${kmlCoordinate(wp.lng, wp.lat, wp.elevation)}</coordinates></Point>`);
+    lines.push('    </Placemark>');
+  }
+
+  lines.push('  </Document>');
+  lines.push('</kml>');
+  return lines.join('\n');
+}
+
+export function buildGeoJson(doc: ExportDocument): string {
+  const lineCoordinates = doc.track.map(p =>
+    p.elevation !== null && p.elevation !== undefined ? [p.lng, p.lat, p.elevation] : [p.lng, p.lat]
+  );
+  const times = doc.track.every(p => p.time) ? doc.track.map(p => p.time!.toISOString()) : undefined;
+
+  const features: any[] = [
+    {
+      type: 'Feature',
+      properties: {
+        name: doc.name,
+        description: doc.description || null,
+        type: doc.type || null,
+        time: doc.time ? doc.time.toISOString() : null,
+        ...(times && times.length > 0 ? { coordTimes: times } : {}),
+      },
+      geometry: { type: 'LineString', coordinates: lineCoordinates },
+    },
+    ...doc.waypoints.map(wp => ({
+      type: 'Feature',
+      properties: {
+        name: wp.name,
+        description: wp.description || null,
+        elevation: wp.elevation ?? null,
+      },
+      geometry: {
+        type: 'Point',
+        coordinates: wp.elevation !== null && wp.elevation !== undefined ? [wp.lng, wp.lat, wp.elevation] : [wp.lng, wp.lat],
+      },
+    })),
+  ];
+
+  return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+}
+
+export function buildExport(doc: ExportDocument, format: ExportFormat): string {
+  switch (format) {
+    case 'gpx':
+      return buildGpx(doc);
+    case 'kml':
+      return buildKml(doc);
+    case 'geojson':
+      return buildGeoJson(doc);
+  }
+}
+
+// Build a filesystem-safe download name from a route/activity name
+export function exportFilename(name: string, format: ExportFormat): string {
+  const base = name
+    .replace(/[^A-Za-z0-9 _-]/g, '')
+    .trim()
+    .replace(/\s+/g, '_')
+    .slice(0, 80) || 'export';
+  return `${base}.${format}`;
+}
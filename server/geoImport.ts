@@ -0,0 +1,642 @@
+import path from 'path';
+import AdmZip from 'adm-zip';
+import { XMLParser } from 'fast-xml-parser';
+import { haversineMeters } from './geo';
+
+export type ImportFormat = 'gpx' | 'kml' | 'kmz' | 'geojson' | 'fit';
+
+export const IMPORT_EXTENSIONS: Record<string, ImportFormat> = {
+  '.gpx': 'gpx',
+  '.kml': 'kml',
+  '.kmz': 'kmz',
+  '.geojson': 'geojson',
+  '.json': 'geojson',
+  '.fit': 'fit',
+};
+
+export interface ImportedPoint {
+  lng: number;
+  lat: number;
+  elevation: number | null;
+  time: Date | null;
+}
+
+export interface ImportedWaypoint {
+  name: string;
+  lng: number;
+  lat: number;
+  elevation: number | null;
+}
+
+export interface ImportedTrack {
+  format: ImportFormat;
+  name: string | null;
+  sport: string | null; // activity hint from the file (FIT sport, GPX track type)
+  points: ImportedPoint[];
+  waypoints: ImportedWaypoint[];
+}
+
+export interface TrackStats {
+  distanceMeters: number;
+  elapsedTimeSeconds: number;
+  movingTimeSeconds: number;
+  avgSpeedMps: number;
+  maxSpeedMps: number;
+  elevationGainMeters: number | null;
+  elevationLossMeters: number | null;
+  minElevationMeters: number | null;
+  maxElevationMeters: number | null;
+  hasTimestamps: boolean;
+  hasElevation: boolean;
+}
+
+export class TrackImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TrackImportError";
+    Object.setPrototypeOf(this, TrackImportError.prototype);
+  }
+}
+
+// Matches STATIONARY_SPEED_THRESHOLD in useActivityRecording so imported
+// moving time is comparable to recorded moving time
+const STATIONARY_SPEED_THRESHOLD = 0.3;
+
+export function detectImportFormat(filename: string): ImportFormat | null {
+  return IMPORT_EXTENSIONS[path.extname(filename).toLowerCase()] ?? null;
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const num = typeof value === 'number' ? value : parseFloat(String(value));
+  return isFinite(num) ? num : null;
+}
+
+function toDate(value: unknown): Date | null {
+  if (value === null || value === undefined || value === '') return null;
+  const date = new Date(typeof value === 'number' ? value : String(value));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function isValidCoordinate(lng: number | null, lat: number | null): boolean {
+  return lng !== null && lat !== null && Math.abs(lat) <= 90 && Math.abs(lng) <= 180 && !(lat === 0 && lng === 0);
+}
+
+// ========================================
+// XML helpers (GPX / KML)
+// ========================================
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  trimValues: true,
+});
+
+function asArray<T = any>(value: T | T[] | undefined | null): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function textOf(node: any): string | null {
+  if (node === undefined || node === null) return null;
+  if (typeof node === 'string' || typeof node === 'number') return String(node);
+  if (typeof node === 'object' && '#text' in node) return String(node['#text']);
+  return null;
+}
+
+// Collect every descendant node stored under `key`, at any depth
+function collectNodes(node: any, key: string, out: any[] = []): any[] {
+  if (!node || typeof node !== 'object') return out;
+  if (Array.isArray(node)) {
+    for (const child of node) collectNodes(child, key, out);
+    return out;
+  }
+  for (const [childKey, child] of Object.entries(node)) {
+    if (childKey === key) {
+      // One push per node: spreading a huge track would overflow the call stack
+      for (const item of asArray(child)) out.push(item);
+    } else if (!childKey.startsWith('@_')) {
+      collectNodes(child, key, out);
+    }
+  }
+  return out;
+}
+
+function parseXml(text: string): any {
+  try {
+    return xmlParser.parse(text);
+  } catch (error) {
+    throw new TrackImportError(`Could not read XML: ${error instanceof Error ? error.message : 'parse error'}`);
+  }
+}
+
+// ========================================
+// GPX
+// ========================================
+
+function gpxPoint(pt: any): ImportedPoint | null {
+  const lat = toNumber(pt?.['@_lat']);
+  const lng = toNumber(pt?.['@_lon']);
+  if (!isValidCoordinate(lng, lat)) return null;
+  return {
+    lng: lng!,
+    lat: lat!,
+    elevation: toNumber(textOf(pt.ele)),
+    time: toDate(textOf(pt.time)),
+  };
+}
+
+export function parseGpx(text: string): ImportedTrack {
+  const doc = parseXml(text);
+  const gpx = doc.gpx;
+  if (!gpx) throw new TrackImportError('Not a GPX file');
+
+  const points: ImportedPoint[] = [];
+  const waypoints: ImportedWaypoint[] = [];
+  const tracks = asArray(gpx.trk);
+  const routes = asArray(gpx.rte);
+
+  for (const trk of tracks) {
+    for (const seg of asArray(trk.trkseg)) {
+      for (const pt of asArray(seg.trkpt)) {
+        const point = gpxPoint(pt);
+        if (point) points.push(point);
+      }
+    }
+  }
+
+  // Routes are only used for the line when there is no recorded track;
+  // named route points always become waypoints
+  for (const rte of routes) {
+    for (const pt of asArray(rte.rtept)) {
+      const point = gpxPoint(pt);
+      if (!point) continue;
+      if (tracks.length === 0) points.push(point);
+      const name = textOf(pt.name);
+      if (name) waypoints.push({ name, lng: point.lng, lat: point.lat, elevation: point.elevation });
+    }
+  }
+
+  asArray(gpx.wpt).forEach((pt: any, index: number) => {
+    const point = gpxPoint(pt);
+    if (!point) return;
+    waypoints.push({
+      name: textOf(pt.name) || `Waypoint ${index + 1}`,
+      lng: point.lng,
+      lat: point.lat,
+      elevation: point.elevation,
+    });
+  });
+
+  const name = textOf(tracks[0]?.name) || textOf(routes[0]?.name) || textOf(gpx.metadata?.name);
+  const sport = textOf(tracks[0]?.type) || textOf(routes[0]?.type);
+
+  return { format: 'gpx', name, sport, points, waypoints };
+}
+
+// ========================================
+// KML / KMZ
+// ========================================
+
+function parseKmlCoordinateString(text: string | null): ImportedPoint[] {
+  if (!text) return [];
+  const points: ImportedPoint[] = [];
+  for (const tuple of text.trim().split(/\s+/)) {
+    const [lngStr, latStr, eleStr] = tuple.split(',');
+    const lng = toNumber(lngStr);
+    const lat = toNumber(latStr);
+    if (!isValidCoordinate(lng, lat)) continue;
+    const elevation = toNumber(eleStr);
+    points.push({ lng: lng!, lat: lat!, elevation: elevation !== 0 ? elevation : null, time: null });
+  }
+  return points;
+}
+
+// gx:Track stores parallel <when> and <gx:coord> lists ("lng lat ele")
+function parseKmlTrack(track: any): ImportedPoint[] {
+  const whens = asArray(track.when).map(textOf);
+  const coords = asArray(track.coord).map(textOf);
+  const points: ImportedPoint[] = [];
+  coords.forEach((coord, index) => {
+    if (!coord) return;
+    const [lngStr, latStr, eleStr] = coord.trim().split(/\s+/);
+    const lng = toNumber(lngStr);
+    const lat = toNumber(latStr);
+    if (!isValidCoordinate(lng, lat)) return;
+    points.push({ lng: lng!, lat: lat!, elevation: toNumber(eleStr), time: toDate(whens[index]) });
+  });
+  return points;
+}
+
+export function parseKml(text: string, format: ImportFormat = 'kml'): ImportedTrack {
+  const doc = parseXml(text);
+  if (!doc.kml) throw new TrackImportError('Not a KML file');
+
+  const points: ImportedPoint[] = [];
+  const waypoints: ImportedWaypoint[] = [];
+  let name: string | null = null;
+
+  const placemarks = collectNodes(doc.kml, 'Placemark');
+  placemarks.forEach((placemark: any, index: number) => {
+    const placemarkName = textOf(placemark.name);
+
+    const tracks = collectNodes(placemark, 'Track');
+    const lines = collectNodes(placemark, 'LineString');
+    let linePoints: ImportedPoint[] = [];
+    for (const track of tracks) linePoints.push(...parseKmlTrack(track));
+    if (linePoints.length === 0) {
+      for (const line of lines) linePoints.push(...parseKmlCoordinateString(textOf(line.coordinates)));
+    }
+    if (linePoints.length > 0) {
+      if (!name && placemarkName) name = placemarkName;
+      points.push(...linePoints);
+      return;
+    }
+
+    for (const point of collectNodes(placemark, 'Point')) {
+      const [coord] = parseKmlCoordinateString(textOf(point.coordinates));
+      if (!coord) continue;
+      waypoints.push({
+        name: placemarkName || `Waypoint ${index + 1}`,
+        lng: coord.lng,
+        lat: coord.lat,
+        elevation: coord.elevation,
+      });
+    }
+  });
+
+  if (!name) {
+    const documentNode = collectNodes(doc.kml, 'Document')[0];
+    name = textOf(documentNode?.name);
+  }
+
+  return { format, name, sport: null, points, waypoints };
+}
+
+export function parseKmz(buffer: Buffer): ImportedTrack {
+  let zip: AdmZip;
+  try {
+    zip = new AdmZip(buffer);
+  } catch {
+    throw new TrackImportError('Could not open KMZ archive');
+  }
+  const entries = zip.getEntries().filter(e => !e.isDirectory && e.entryName.toLowerCase().endsWith('.kml'));
+  // doc.kml is the conventional root document; otherwise take the first KML in the archive
+  const entry = entries.find(e => path.basename(e.entryName).toLowerCase() === 'doc.kml') || entries[0];
+  if (!entry) throw new TrackImportError('KMZ archive does not contain a KML document');
+  return parseKml(entry.getData().toString('utf8'), 'kmz');
+}
+
+// ========================================
+// GeoJSON
+// ========================================
+
+export function parseGeoJson(text: string): ImportedTrack {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new TrackImportError('Invalid GeoJSON');
+  }
+
+  const features: any[] =
+    data?.type === 'FeatureCollection' ? asArray(data.features) :
+    data?.type === 'Feature' ? [data] :
+    data?.type ? [{ type: 'Feature', properties: {}, geometry: data }] : [];
+
+  if (features.length === 0) throw new TrackImportError('GeoJSON contains no features');
+
+  const points: ImportedPoint[] = [];
+  const waypoints: ImportedWaypoint[] = [];
+  let name: string | null = null;
+  let sport: string | null = null;
+
+  const toPoint = (coord: any, time: unknown): ImportedPoint | null => {
+    if (!Array.isArray(coord)) return null;
+    const lng = toNumber(coord[0]);
+    const lat = toNumber(coord[1]);
+    if (!isValidCoordinate(lng, lat)) return null;
+    return { lng: lng!, lat: lat!, elevation: toNumber(coord[2]), time: toDate(time) };
+  };
+
+  features.forEach((feature: any, index: number) => {
+    const geometry = feature?.geometry;
+    const props = feature?.properties || {};
+    if (!geometry) return;
+
+    if (geometry.type === 'LineString' || geometry.type === 'MultiLineString') {
+      const lines: any[] = geometry.type === 'LineString' ? [geometry.coordinates] : asArray(geometry.coordinates);
+      // coordTimes is written by togeojson and by our own export
+      const times: any[] = geometry.type === 'LineString' ? [props.coordTimes] : asArray(props.coordTimes);
+      lines.forEach((line: any, lineIndex: number) => {
+        asArray(line).forEach((coord: any, coordIndex: number) => {
+          const point = toPoint(coord, asArray(times[lineIndex])[coordIndex]);
+          if (point) points.push(point);
+        });
+      });
+      if (!name && typeof props.name === 'string') name = props.name;
+      if (!sport && typeof props.type === 'string') sport = props.type;
+    } else if (geometry.type === 'Point') {
+      const point = toPoint(geometry.coordinates, null);
+      if (point) {
+        waypoints.push({
+          name: typeof props.name === 'string' && props.name ? props.name : `Waypoint ${index + 1}`,
+          lng: point.lng,
+          lat: point.lat,
+          elevation: point.elevation ?? toNumber(props.elevation),
+        });
+      }
+    }
+  });
+
+  return { format: 'geojson', name, sport, points, waypoints };
+}
+
+// ========================================
+// Garmin FIT
+// ========================================
+
+const FIT_EPOCH_OFFSET = 631065600; // seconds between 1970-01-01 and 1989-12-31
+const FIT_MESG_SESSION = 18;
+const FIT_MESG_RECORD = 20;
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31;
+
+const FIT_SPORTS: Record<number, string> = {
+  1: 'running',
+  2: 'cycling',
+  11: 'walking',
+  12: 'cross_country_skiing',
+  13: 'alpine_skiing',
+  17: 'hiking',
+  37: 'backcountry_skiing',
+};
+
+interface FitFieldDef {
+  num: number;
+  size: number;
+  baseType: number;
+}
+
+interface FitDefinition {
+  globalNum: number;
+  littleEndian: boolean;
+  fields: FitFieldDef[];
+  devSize: number;
+}
+
+function readFitValue(buf: Buffer, offset: number, field: FitFieldDef, littleEndian: boolean): number | null {
+  const baseNum = field.baseType & 0x1f;
+  try {
+    switch (baseNum) {
+      case 0x00: // enum
+      case 0x02: // uint8
+      case 0x0a: { // uint8z
+        const v = buf.readUInt8(offset);
+        return v === 0xff || (baseNum === 0x0a && v === 0) ? null : v;
+      }
+      case 0x01: { // sint8
+        const v = buf.readInt8(offset);
+        return v === 0x7f ? null : v;
+      }
+      case 0x03: { // sint16
+        if (field.size < 2) return null;
+        const v = littleEndian ? buf.readInt16LE(offset) : buf.readInt16BE(offset);
+        return v === 0x7fff ? null : v;
+      }
+      case 0x04: // uint16
+      case 0x0b: { // uint16z
+        if (field.size < 2) return null;
+        const v = littleEndian ? buf.readUInt16LE(offset) : buf.readUInt16BE(offset);
+        return v === 0xffff || (baseNum === 0x0b && v === 0) ? null : v;
+      }
+      case 0x05: { // sint32
+        if (field.size < 4) return null;
+        const v = littleEndian ? buf.readInt32LE(offset) : buf.readInt32BE(offset);
+        return v === 0x7fffffff ? null : v;
+      }
+      case 0x06: // uint32
+      case 0x0c: { // uint32z
+        if (field.size < 4) return null;
+        const v = littleEndian ? buf.readUInt32LE(offset) : buf.readUInt32BE(offset);
+        return v === 0xffffffff || (baseNum === 0x0c && v === 0) ? null : v;
+      }
+      default:
+        return null;
+    }
+  } catch {
+    return null;
+  }
+}
+
+// Every record must fit inside the data section; a cut-off file would
+// otherwise fail with a RangeError from the Buffer reads
+function requireFitBytes(offset: number, count: number, end: number): void {
+  if (offset + count > end) throw new TrackImportError('Corrupt FIT file (truncated)');
+}
+
+export function parseFit(buffer: Buffer): ImportedTrack {
+  if (buffer.length < 12) throw new TrackImportError('FIT file is too short');
+  const headerSize = buffer.readUInt8(0);
+  const dataSize = buffer.readUInt32LE(4);
+  if (buffer.toString('ascii', 8, 12) !== '.FIT') throw new TrackImportError('Not a FIT file');
+
+  const end = Math.min(buffer.length, headerSize + dataSize);
+  const definitions = new Map<number, FitDefinition>();
+  const points: ImportedPoint[] = [];
+  let sport: string | null = null;
+  let lastTimestamp: number | null = null;
+  let offset = headerSize;
+
+  while (offset < end) {
+    const header = buffer.readUInt8(offset++);
+
+    let localType: number;
+    let compressedTimestamp: number | null = null;
+
+    if (header & 0x80) {
+      // Compressed timestamp header: 5-bit offset from the last full timestamp
+      localType = (header >> 5) & 0x03;
+      const timeOffset = header & 0x1f;
+      if (lastTimestamp !== null) {
+        compressedTimestamp = lastTimestamp + ((timeOffset - (lastTimestamp & 0x1f)) & 0x1f);
+        lastTimestamp = compressedTimestamp;
+      }
+    } else if (header & 0x40) {
+      localType = header & 0x0f;
+      const hasDevFields = (header & 0x20) !== 0;
+      requireFitBytes(offset, 5, end);
+      const littleEndian = buffer.readUInt8(offset + 1) === 0;
+      const globalNum = littleEndian ? buffer.readUInt16LE(offset + 2) : buffer.readUInt16BE(offset + 2);
+      const numFields = buffer.readUInt8(offset + 4);
+      offset += 5;
+      requireFitBytes(offset, numFields * 3, end);
+      const fields: FitFieldDef[] = [];
+      for (let i = 0; i < numFields; i++) {
+        fields.push({
+          num: buffer.readUInt8(offset),
+          size: buffer.readUInt8(offset + 1),
+          baseType: buffer.readUInt8(offset + 2),
+        });
+        offset += 3;
+      }
+      let devSize = 0;
+      if (hasDevFields) {
+        requireFitBytes(offset, 1, end);
+        const numDevFields = buffer.readUInt8(offset++);
+        requireFitBytes(offset, numDevFields * 3, end);
+        for (let i = 0; i < numDevFields; i++) {
+          devSize += buffer.readUInt8(offset + 1);
+          offset += 3;
+        }
+      }
+      definitions.set(localType, { globalNum, littleEndian, fields, devSize });
+      continue;
+    } else {
+      localType = header & 0x0f;
+    }
+
+    const def = definitions.get(localType);
+    if (!def) throw new TrackImportError('Corrupt FIT file (data message without definition)');
+    requireFitBytes(offset, def.fields.reduce((size, field) => size + field.size, 0) + def.devSize, end);
+
+    const values = new Map<number, number | null>();
+    for (const field of def.fields) {
+      values.set(field.num, readFitValue(buffer, offset, field, def.littleEndian));
+      offset += field.size;
+    }
+    offset += def.devSize;
+
+    const timestamp = values.get(253);
+    if (timestamp !== undefined && timestamp !== null) lastTimestamp = timestamp;
+
+    if (def.globalNum === FIT_MESG_RECORD) {
+      const latRaw = values.get(0);
+      const lngRaw = values.get(1);
+      if (latRaw === null || latRaw === undefined || lngRaw === null || lngRaw === undefined) continue;
+      const lat = latRaw * SEMICIRCLES_TO_DEGREES;
+      const lng = lngRaw * SEMICIRCLES_TO_DEGREES;
+      if (!isValidCoordinate(lng, lat)) continue;
+
+      const altRaw = values.get(78) ?? values.get(2) ?? null; // enhanced_altitude, altitude
+      const ts = timestamp ?? compressedTimestamp;
+      points.push({
+        lng,
+        lat,
+        elevation: altRaw !== null ? altRaw / 5 - 500 : null,
+        time: ts !== null && ts !== undefined ? new Date((ts + FIT_EPOCH_OFFSET) * 1000) : null,
+      });
+    } else if (def.globalNum === FIT_MESG_SESSION && !sport) {
+      const sportValue = values.get(5);
+      if (sportValue !== null && sportValue !== undefined) sport = FIT_SPORTS[sportValue] ?? null;
+    }
+  }
+
+  return { format: 'fit', name: null, sport, points, waypoints: [] };
+}
+
+// ========================================
+// Entry point + stats
+// ========================================
+
+export function parseTrackFile(buffer: Buffer, filename: string): ImportedTrack {
+  const format = detectImportFormat(filename);
+  if (!format) {
+    throw new TrackImportError('Unsupported file type. Supported: GPX, KML, KMZ, GeoJSON, FIT');
+  }
+
+  let track: ImportedTrack;
+  switch (format) {
+    case 'gpx':
+      track = parseGpx(buffer.toString('utf8'));
+      break;
+    case 'kml':
+      track = parseKml(buffer.toString('utf8'));
+      break;
+    case 'kmz':
+      track = parseKmz(buffer);
+      break;
+    case 'geojson':
+      track = parseGeoJson(buffer.toString('utf8'));
+      break;
+    case 'fit':
+      track = parseFit(buffer);
+      break;
+  }
+
+  if (track.points.length < 2) {
+    throw new TrackImportError('File does not contain a track or route with at least 2 points');
+  }
+  return track;
+}
+
+export function computeTrackStats(points: ImportedPoint[]): TrackStats {
+  let distance = 0;
+  let movingTime = 0;
+  let maxSpeed = 0;
+  let gain = 0;
+  let loss = 0;
+  let minEle: number | null = null;
+  let maxEle: number | null = null;
+  const hasTimestamps = points.length > 1 && points.every(p => p.time);
+  const hasElevation = points.some(p => p.elevation !== null);
+
+  for (let i = 0; i < points.length; i++) {
+    const curr = points[i];
+    if (curr.elevation !== null) {
+      minEle = minEle === null ? curr.elevation : Math.min(minEle, curr.elevation);
+      maxEle = maxEle === null ? curr.elevation : Math.max(maxEle, curr.elevation);
+    }
+    if (i === 0) continue;
+
+    const prev = points[i - 1];
+    const dist = haversineMeters(prev, curr);
+    distance += dist;
+
+    if (prev.elevation !== null && curr.elevation !== null) {
+      const diff = curr.elevation - prev.elevation;
+      if (diff > 0) gain += diff;
+      else loss += Math.abs(diff);
+    }
+
+    if (hasTimestamps) {
+      const dt = (curr.time!.getTime() - prev.time!.getTime()) / 1000;
+      if (dt > 0) {
+        const speed = dist / dt;
+        if (speed > STATIONARY_SPEED_THRESHOLD) movingTime += dt;
+        // Ignore sub-second gaps, they produce absurd speeds from GPS jitter
+        if (dt >= 1 && speed > maxSpeed) maxSpeed = speed;
+      }
+    }
+  }
+
+  const elapsed = hasTimestamps
+    ? Math.max(0, (points[points.length - 1].time!.getTime() - points[0].time!.getTime()) / 1000)
+    : 0;
+
+  return {
+    distanceMeters: distance,
+    elapsedTimeSeconds: Math.round(elapsed),
+    movingTimeSeconds: Math.round(movingTime),
+    avgSpeedMps: movingTime > 0 ? distance / movingTime : 0,
+    maxSpeedMps: maxSpeed,
+    elevationGainMeters: hasElevation ? gain : null,
+    elevationLossMeters: hasElevation ? loss : null,
+    minElevationMeters: minEle,
+    maxElevationMeters: maxEle,
+    hasTimestamps,
+    hasElevation,
+  };
+}
+
+// Map a file's sport hint to one of our recorded activity types
+export function inferActivityType(sport: string | null): 'run' | 'ski' | 'hike' | 'bike' | null {
+  if (!sport) return null;
+  const s = sport.toLowerCase();
+  if (/run/.test(s)) return 'run';
+  if (/ski|snowboard/.test(s)) return 'ski';
+  if (/cycl|bik|ride/.test(s)) return 'bike';
+  if (/hik|walk|trek/.test(s)) return 'hike';
+  return null;
+}
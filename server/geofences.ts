@@ -0,0 +1,338 @@
+import { lngLatMeters } from './geo';
+import { storage as dbStorage } from './storage';
+import type { GeofenceRuleType, LiveMapGeofence } from '@shared/schema';
+import type { WebSocketState } from './routes/utils';
+
+/**
+ * Geofence and proximity alerts for live team maps. Owners attach rules to a
+ * session ("anyone leaves this area", "member X is more than N m from the
+ * group", "someone reaches this POI") and every member location update is
+ * checked against them. An alert goes out as a `geofence:alert` event, a
+ * system chat message and a push notification to members who are offline.
+ *
+ * Rule state (inside/outside, already alerted) is kept in memory on the
+ * instance that receives the update. A member's first update only records
+ * where they are, so nobody is alerted for where they started.
+ */
+
+type Point = [number, number]; // lng, lat
+
+interface RuleState {
+  inside: boolean;
+  lastAlertAt: number;
+}
+
+interface SessionState {
+  sessionName: string;
+  fences: LiveMapGeofence[];
+  polygons: Map<number, Point[]>;
+  pois: Map<number, { name: string; point: Point }>;
+  names: Map<number, string>;
+  positions: Map<number, { point: Point; at: number }>;
+  // `${geofenceId}:${userId}`
+  rules: Map<string, RuleState>;
+  loadedAt: number;
+  lastUpdateAt: number;
+}
+
+// Rules, POIs and names are re-read this often so edits from other instances show up
+const RELOAD_MS = 60 * 1000;
+// The same rule does not fire again for the same member within this window
+const ALERT_COOLDOWN_MS = 5 * 60 * 1000;
+// Positions older than this are left out of "the group"
+const POSITION_FRESH_MS = 5 * 60 * 1000;
+// Sessions without updates for this long are dropped from memory
+const SESSION_IDLE_MS = 30 * 60 * 1000;
+export const DEFAULT_POI_RADIUS_METERS = 30;
+// A member must get back within this fraction of the limit before the distance rule re-arms
+const DISTANCE_REARM_FACTOR = 0.8;
+// ...and this many radii away from a POI before reaching it counts again
+const POI_REARM_FACTOR = 2;
+
+const sessions = new Map<number, SessionState>();
+const loading = new Map<number, Promise<SessionState | null>>();
+
+/** Ray-casting test; the ring may be open or closed. */
+export function pointInPolygon(point: Point, ring: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > point[1]) !== (yj > point[1]) && point[0] < (xj - xi) * (point[1] - yi) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function formatDistance(meters: number): string {
+  const feet = meters * 3.28084;
+  return feet < 1000 ? `${Math.round(feet)} ft` : `${(meters / 1609.344).toFixed(1)} mi`;
+}
+
+// ========================================
+// Session state
+// ========================================
+
+async function loadSession(sessionId: number, previous?: SessionState): Promise<SessionState | null> {
+  const session = await dbStorage.getLiveMapSession(sessionId);
+  if (!session || !session.isActive) return null;
+
+  const [fences, pois, members] = await Promise.all([
+    dbStorage.getLiveMapGeofences(sessionId),
+    dbStorage.getLiveMapPois(sessionId),
+    dbStorage.getLiveMapMembers(sessionId),
+  ]);
+
+  const polygons = new Map<number, Point[]>();
+  for (const fence of fences) {
+    if (!fence.polygon) continue;
+    try {
+      polygons.set(fence.id, JSON.parse(fence.polygon));
+    } catch {
+      console.error(`[Geofence] Geofence ${fence.id} has an unreadable polygon`);
+    }
+  }
+
+  const positions = previous?.positions ?? new Map<number, { point: Point; at: number }>();
+  const now = Date.now();
+  for (const member of members) {
+    if (positions.has(member.userId) || member.latitude === null || member.longitude === null) continue;
+    const at = member.lastActive ? new Date(member.lastActive).getTime() : 0;
+    if (now - at < POSITION_FRESH_MS) {
+      positions.set(member.userId, { point: [parseFloat(member.longitude), parseFloat(member.latitude)], at });
+    }
+  }
+
+  return {
+    sessionName: session.name,
+    fences: fences.filter(f => f.isActive !== false),
+    polygons,
+    pois: new Map(pois.map(p => [p.id, { name: p.name, point: [parseFloat(p.longitude), parseFloat(p.latitude)] as Point }])),
+    names: new Map(members.map(m => [m.userId, m.user.fullName || m.user.username])),
+    positions,
+    rules: previous?.rules ?? new Map(),
+    loadedAt: now,
+    lastUpdateAt: previous?.lastUpdateAt ?? now,
+  };
+}
+
+function getSession(sessionId: number): Promise<SessionState | null> {
+  const cached = sessions.get(sessionId);
+  if (cached && Date.now() - cached.loadedAt < RELOAD_MS) return Promise.resolve(cached);
+
+  const inFlight = loading.get(sessionId);
+  if (inFlight) return inFlight;
+
+  const next = loadSession(sessionId, cached)
+    .then(state => {
+      if (state) sessions.set(sessionId, state);
+      else sessions.delete(sessionId);
+      return state;
+    })
+    .finally(() => loading.delete(sessionId));
+  loading.set(sessionId, next);
+  return next;
+}
+
+function sweepIdleSessions(now: number) {
+  Array.from(sessions.entries())
+    .filter(([, state]) => now - state.lastUpdateAt > SESSION_IDLE_MS)
+    .forEach(([sessionId]) => sessions.delete(sessionId));
+}
+
+/** Re-read a session's rules on the next update, after they were created, edited or deleted. */
+export function invalidateGeofences(sessionId: number) {
+  const state = sessions.get(sessionId);
+  if (state) state.loadedAt = 0;
+}
+
+export function forgetGeofenceSession(sessionId: number) {
+  sessions.delete(sessionId);
+}
+
+// ========================================
+// Rules
+// ========================================
+
+interface Alert {
+  fence: LiveMapGeofence;
+  userId: number;
+  point: Point;
+  message: string;
+  distanceMeters?: number;
+}
+
+function groupCentroid(state: SessionState, userId: number, now: number): Point | null {
+  const others = Array.from(state.positions.entries())
+    .filter(([id, pos]) => id !== userId && now - pos.at < POSITION_FRESH_MS)
+    .map(([, pos]) => pos.point);
+  if (others.length === 0) return null;
+  return [
+    others.reduce((sum, p) => sum + p[0], 0) / others.length,
+    others.reduce((sum, p) => sum + p[1], 0) / others.length,
+  ];
+}
+
+function evaluate(state: SessionState, fence: LiveMapGeofence, userId: number, point: Point, now: number): Alert | null {
+  if (fence.targetUserId !== null && fence.targetUserId !== userId) return null;
+
+  const name = state.names.get(userId) ?? 'A member';
+  const key = `${fence.id}:${userId}`;
+  const previous = state.rules.get(key);
+  const limit = fence.distanceMeters ? parseFloat(fence.distanceMeters) : null;
+
+  // `inside` means "in the area", "away from the group" or "at the POI" depending on the rule
+  let inside: boolean;
+  let distance: number | undefined;
+
+  switch (fence.ruleType as GeofenceRuleType) {
+    case 'leave_area':
+    case 'enter_area': {
+      const ring = state.polygons.get(fence.id);
+      if (!ring || ring.length < 3) return null;
+      inside = pointInPolygon(point, ring);
+      break;
+    }
+    case 'member_distance': {
+      const centroid = groupCentroid(state, userId, now);
+      if (!centroid || !limit) return null;
+      distance = lngLatMeters(point, centroid);
+      inside = previous?.inside ? distance > limit * DISTANCE_REARM_FACTOR : distance > limit;
+      break;
+    }
+    case 'reach_poi': {
+      const poi = fence.poiId !== null ? state.pois.get(fence.poiId) : undefined;
+      if (!poi) return null;
+      const radius = limit ?? DEFAULT_POI_RADIUS_METERS;
+      distance = lngLatMeters(point, poi.point);
+      inside = previous?.inside ? distance <= radius * POI_REARM_FACTOR : distance <= radius;
+      break;
+    }
+    default:
+      return null;
+  }
+
+  const rule: RuleState = previous ?? { inside, lastAlertAt: 0 };
+  state.rules.set(key, rule);
+  if (!previous || rule.inside === inside) {
+    rule.inside = inside;
+    return null;
+  }
+  rule.inside = inside;
+  if (now - rule.lastAlertAt < ALERT_COOLDOWN_MS) return null;
+
+  let message: string | null = null;
+  switch (fence.ruleType as GeofenceRuleType) {
+    case 'leave_area':
+      if (!inside) message = `${name} left ${fence.name}`;
+      break;
+    case 'enter_area':
+      if (inside) message = `${name} entered ${fence.name}`;
+      break;
+    case 'member_distance':
+      if (inside) message = `${name} is ${formatDistance(distance!)} from the group`;
+      break;
+    case 'reach_poi':
+      if (inside) message = `${name} reached ${state.pois.get(fence.poiId!)!.name}`;
+      break;
+  }
+  if (!message) return null;
+
+  rule.lastAlertAt = now;
+  return { fence, userId, point, message, distanceMeters: distance !== undefined ? Math.round(distance) : undefined };
+}
+
+// ========================================
+// Delivery
+// ========================================
+
+async function deliverAlert(wsState: WebSocketState, sessionId: number, state: SessionState, alert: Alert) {
+  const { userId, point } = alert;
+  const username = state.names.get(userId) ?? 'Unknown';
+
+  wsState.broadcastToSession(sessionId, {
+    type: 'geofence:alert',
+    data: {
+      geofenceId: alert.fence.id,
+      name: alert.fence.name,
+      ruleType: alert.fence.ruleType,
+      userId,
+      username,
+      message: alert.message,
+      longitude: point[0],
+      latitude: point[1],
+      distanceMeters: alert.distanceMeters ?? null,
+      timestamp: Date.now(),
+    }
+  });
+
+  await dbStorage.createLiveMapMessage({
+    sessionId,
+    userId,
+    body: `⚠️ ${alert.message}`,
+    messageType: 'system'
+  });
+
+  // Members who have the map open see the alert live; everyone else gets a push
+  const { sendPushNotification } = await import('./pushNotifications');
+  const members = await dbStorage.getLiveMapMembers(sessionId);
+  for (const member of members) {
+    if (member.userId === userId || wsState.isInSession(sessionId, member.userId)) continue;
+
+    const tokens = await dbStorage.getActiveDeviceTokensByUser(member.userId);
+    for (const token of tokens) {
+      if (token.platform !== 'web') continue;
+      const sent = await sendPushNotification(token.token, {
+        title: `⚠️ ${state.sessionName}`,
+        body: alert.message,
+        data: {
+          type: 'geofence_alert',
+          sessionId,
+          geofenceId: alert.fence.id,
+          url: `/live-map/${sessionId}`,
+        }
+      });
+      if (!sent) {
+        await dbStorage.deactivateDeviceToken(token.token);
+      }
+    }
+  }
+}
+
+/**
+ * Check a member's new position against the session's rules and send any
+ * alerts. Never throws; failures are logged so location updates carry on.
+ */
+export function checkGeofences(wsState: WebSocketState, sessionId: number, userId: number, lng: number, lat: number): void {
+  const now = Date.now();
+  getSession(sessionId)
+    .then(async state => {
+      if (!state) return;
+      state.lastUpdateAt = now;
+      const point: Point = [lng, lat];
+      // Someone who joined since the last load; pick up their name next time
+      if (!state.names.has(userId)) state.loadedAt = 0;
+
+      state.positions.set(userId, { point, at: now });
+
+      // Distance rules are re-checked for everyone, since the group moving away
+      // from a member who stands still should alert as well
+      const alerts: (Alert | null)[] = [];
+      for (const fence of state.fences) {
+        if (fence.ruleType !== 'member_distance') {
+          alerts.push(evaluate(state, fence, userId, point, now));
+          continue;
+        }
+        Array.from(state.positions.entries())
+          .filter(([id, pos]) => id === userId || now - pos.at < POSITION_FRESH_MS)
+          .forEach(([id, pos]) => alerts.push(evaluate(state, fence, id, pos.point, now)));
+      }
+
+      for (const alert of alerts) {
+        if (alert) await deliverAlert(wsState, sessionId, state, alert);
+      }
+      sweepIdleSessions(now);
+    })
+    .catch(err => console.error(`[Geofence] Failed to check session ${sessionId}:`, err));
+}
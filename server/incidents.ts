@@ -0,0 +1,215 @@
+import { storage as dbStorage } from './storage';
+import type { LiveMapIncident } from '@shared/schema';
+import type { WebSocketState } from './routes/utils';
+
+/**
+ * SOS calls and overdue check-ins for live team maps. A member can raise an
+ * SOS with their last fix, and a monitor opens an "overdue" incident for any
+ * member whose last location update is older than the session's
+ * `checkInMinutes`. Both are broadcast as `incident:raised`, posted to the
+ * session chat and pushed to members who do not have the map open.
+ *
+ * Incidents stay open until a member acknowledges and then resolves them. An
+ * overdue incident also resolves itself as soon as the member reports a
+ * location again, including through the native background-location endpoint.
+ */
+
+// How often the overdue scan runs
+const MONITOR_INTERVAL_MS = 60 * 1000;
+
+// `${sessionId}:${userId}` of members with an unresolved overdue incident, refreshed on every scan
+const overdueMembers = new Set<string>();
+
+export type IncidentAction = 'acknowledge' | 'resolve';
+
+export interface IncidentFix {
+  latitude: number;
+  longitude: number;
+  accuracy?: number | null;
+}
+
+async function displayName(userId: number): Promise<string> {
+  const user = await dbStorage.getUser(userId);
+  return user?.fullName || user?.username || 'A member';
+}
+
+function minutesSince(date: Date | null): number | null {
+  return date ? Math.max(0, Math.round((Date.now() - new Date(date).getTime()) / 60000)) : null;
+}
+
+async function pushToOfflineMembers(
+  wsState: WebSocketState,
+  sessionId: number,
+  skipUserId: number,
+  payload: { title: string; body: string; data: Record<string, unknown> }
+) {
+  const { sendPushNotification } = await import('./pushNotifications');
+  const members = await dbStorage.getLiveMapMembers(sessionId);
+  for (const member of members) {
+    if (member.userId === skipUserId || wsState.isInSession(sessionId, member.userId)) continue;
+
+    const tokens = await dbStorage.getActiveDeviceTokensByUser(member.userId);
+    for (const token of tokens) {
+      if (token.platform !== 'web') continue;
+      const sent = await sendPushNotification(token.token, payload, { urgency: 'high' });
+      if (!sent) {
+        await dbStorage.deactivateDeviceToken(token.token);
+      }
+    }
+  }
+}
+
+async function announce(wsState: WebSocketState, incident: LiveMapIncident, username: string, body: string) {
+  const { sessionId, userId } = incident;
+  const session = await dbStorage.getLiveMapSession(sessionId);
+
+  wsState.broadcastToSession(sessionId, { type: 'incident:raised', data: { ...incident, username } });
+
+  await dbStorage.createLiveMapMessage({ sessionId, userId, body, messageType: 'system' });
+
+  await pushToOfflineMembers(wsState, sessionId, userId, {
+    title: `${incident.type === 'sos' ? '🆘' : '⏰'} ${session?.name || 'Team Map'}`,
+    body,
+    data: {
+      type: incident.type === 'sos' ? 'sos' : 'check_in_overdue',
+      sessionId,
+      incidentId: incident.id,
+      url: `/live-map/${sessionId}`,
+    }
+  });
+}
+
+// ========================================
+// SOS
+// ========================================
+
+/**
+ * Raise an SOS for a member. Without a fix the member's last reported
+ * position is used. Pressing SOS again while one is unresolved re-opens and
+ * re-sends it with the newer fix instead of starting a second incident.
+ */
+export async function raiseSos(
+  wsState: WebSocketState,
+  sessionId: number,
+  userId: number,
+  fix: IncidentFix | null,
+  note: string | null
+): Promise<LiveMapIncident> {
+  const member = fix ? undefined : (await dbStorage.getLiveMapMembers(sessionId)).find(m => m.userId === userId);
+  const position = fix
+    ? {
+        latitude: String(fix.latitude),
+        longitude: String(fix.longitude),
+        accuracy: fix.accuracy != null ? String(fix.accuracy) : null,
+        lastFixAt: new Date(),
+      }
+    : {
+        latitude: member?.latitude ?? null,
+        longitude: member?.longitude ?? null,
+        accuracy: member?.accuracy ?? null,
+        lastFixAt: member?.lastActive ?? null,
+      };
+
+  const existing = await dbStorage.getUnresolvedLiveMapIncident(sessionId, userId, 'sos');
+  const incident = existing
+    ? (await dbStorage.updateLiveMapIncident(existing.id, { ...position, status: 'open', note: note ?? existing.note }))!
+    : await dbStorage.createLiveMapIncident({ sessionId, userId, type: 'sos', note, ...position });
+
+  const username = await displayName(userId);
+  await announce(wsState, incident, username, `🆘 ${username} sent an SOS${incident.note ? `: ${incident.note}` : ''}`);
+  return incident;
+}
+
+// ========================================
+// Acknowledge / resolve
+// ========================================
+
+export async function updateIncident(
+  wsState: WebSocketState,
+  incident: LiveMapIncident,
+  action: IncidentAction,
+  byUserId: number
+): Promise<LiveMapIncident> {
+  if (incident.status === 'resolved' || (action === 'acknowledge' && incident.status === 'acknowledged')) {
+    return incident;
+  }
+
+  const now = new Date();
+  const updated = (await dbStorage.updateLiveMapIncident(incident.id, action === 'acknowledge'
+    ? { status: 'acknowledged', acknowledgedBy: byUserId, acknowledgedAt: now }
+    : { status: 'resolved', resolvedBy: byUserId, resolvedAt: now }))!;
+  if (updated.type === 'overdue' && updated.status === 'resolved') {
+    overdueMembers.delete(`${updated.sessionId}:${updated.userId}`);
+  }
+
+  wsState.broadcastToSession(updated.sessionId, { type: 'incident:updated', data: updated });
+
+  const [byName, memberName] = await Promise.all([displayName(byUserId), displayName(updated.userId)]);
+  const what = updated.type === 'sos' ? 'SOS' : 'overdue check-in';
+  const whose = byUserId === updated.userId ? 'their' : `${memberName}'s`;
+  await dbStorage.createLiveMapMessage({
+    sessionId: updated.sessionId,
+    userId: byUserId,
+    body: `${action === 'acknowledge' ? '👀' : '✅'} ${byName} ${action === 'acknowledge' ? 'acknowledged' : 'resolved'} ${whose} ${what}`,
+    messageType: 'system'
+  });
+  return updated;
+}
+
+// ========================================
+// Overdue check-ins
+// ========================================
+
+/**
+ * A member reported a location. Resolves their overdue incident if they have
+ * one; cheap otherwise. Never throws.
+ */
+export function noteCheckIn(wsState: WebSocketState, sessionId: number, userId: number): void {
+  const key = `${sessionId}:${userId}`;
+  if (!overdueMembers.has(key)) return;
+  overdueMembers.delete(key);
+
+  (async () => {
+    const resolved = await dbStorage.resolveOverdueLiveMapIncidents(sessionId, userId);
+    if (resolved.length === 0) return;
+
+    resolved.forEach(incident => wsState.broadcastToSession(sessionId, { type: 'incident:updated', data: incident }));
+    await dbStorage.createLiveMapMessage({
+      sessionId,
+      userId,
+      body: `✅ ${await displayName(userId)} checked in`,
+      messageType: 'system'
+    });
+  })().catch(err => console.error(`[Incidents] Failed to resolve check-in for user ${userId} in session ${sessionId}:`, err));
+}
+
+async function scanOverdueMembers(wsState: WebSocketState) {
+  const opened = await dbStorage.createOverdueLiveMapIncidents();
+  for (const incident of opened) {
+    const username = await displayName(incident.userId);
+    const minutes = minutesSince(incident.lastFixAt);
+    const since = minutes !== null ? ` (last update ${minutes} min ago)` : '';
+    await announce(wsState, incident, username, `⏰ ${username} is overdue to check in${since}`);
+  }
+
+  // Other instances may have opened or resolved incidents since the last scan
+  const unresolved = await dbStorage.getUnresolvedOverdueLiveMapIncidents();
+  overdueMembers.clear();
+  unresolved.forEach(incident => overdueMembers.add(`${incident.sessionId}:${incident.userId}`));
+}
+
+/** Start the periodic overdue scan. Returns a function that stops it. */
+export function startIncidentMonitor(wsState: WebSocketState): () => void {
+  let running = false;
+  const tick = () => {
+    if (running) return;
+    running = true;
+    scanOverdueMembers(wsState)
+      .catch(err => console.error('[Incidents] Overdue scan failed:', err))
+      .finally(() => { running = false; });
+  };
+
+  const timer = setInterval(tick, MONITOR_INTERVAL_MS);
+  tick();
+  return () => clearInterval(timer);
+}
@@ -75,27 +75,16 @@ app.use((req, res, next) => {
     serveStatic(app);
   }
 
+  // Background jobs: re-queue work interrupted by the last restart, then start workers
   (async () => {
     try {
-      const { db } = await import('./db');
-      const { cesium3dTilesets } = await import('@shared/schema');
-      const { like } = await import('drizzle-orm');
-      const localTilesets = await db.select().from(cesium3dTilesets).where(like(cesium3dTilesets.storagePath, 'local:%'));
-      if (localTilesets.length > 0) {
-        const { syncTilesetToObjectStorage } = await import('./cesiumStorageSync');
-        for (const ts of localTilesets) {
-          const localDir = ts.storagePath!.replace('local:', '');
-          const fs = await import('fs');
-          if (fs.existsSync(localDir)) {
-            console.log(`[Startup] Syncing tileset ${ts.id} to Object Storage...`);
-            syncTilesetToObjectStorage(ts.id, localDir).catch(err => {
-              console.error(`[Startup] Sync failed for tileset ${ts.id}:`, err);
-            });
-          }
-        }
-      }
+      const { registerProcessingJobHandlers, enqueueUntrackedWork } = await import('./jobHandlers');
+      const { startJobQueue } = await import('./jobQueue');
+      registerProcessingJobHandlers();
+      await startJobQueue();
+      await enqueueUntrackedWork();
     } catch (e) {
-      console.error('[Startup] Error checking for unsynced tilesets:', e);
+      console.error('[Startup] Error starting job queue:', e);
     }
   })();
 
@@ -0,0 +1,231 @@
+import fs from "fs";
+import path from "path";
+import { inArray, like } from "drizzle-orm";
+import { db } from "./db";
+import { cesium3dTilesets, droneImages } from "@shared/schema";
+import { storage as dbStorage } from "./storage";
+import { generateTilesFromImage, generateElevationProducts, deleteTiles, type ImageBounds } from "./tileGenerator";
+import { createCogFromImage, deleteCog, closeCogReader } from "./cogTiles";
+import { invalidateDemIndex } from "./demElevation";
+import { clearCachedTiles } from "./tileCache";
+import { syncTilesetToObjectStorage } from "./cesiumStorageSync";
+import { seedTrailRegionFromPbf } from "./trailRouting";
+import { getTrailRegion, updateTrailRegion, TRAIL_EXTRACTS_DIR } from "./trailGraphStore";
+import { registerJobHandler, enqueueJob, getActiveJob, PermanentJobError, type JobStatus } from "./jobQueue";
+
+// Job status -> drone_images.processing_status ('complete' is written by the job itself)
+const DRONE_PROCESSING_STATUS: Partial<Record<JobStatus, string>> = {
+  queued: 'queued',
+  running: 'generating_tiles',
+  failed: 'failed',
+  cancelled: 'cancelled',
+};
+
+// Job status -> trail_regions.status ('ready' is written by the job itself)
+const TRAIL_REGION_STATUS: Partial<Record<JobStatus, string>> = {
+  queued: 'queued',
+  running: 'seeding',
+  failed: 'failed',
+  cancelled: 'cancelled',
+};
+
+export function registerProcessingJobHandlers(): void {
+  registerJobHandler('drone_tiles', {
+    // GDAL warps and gdal2tiles are CPU and memory heavy; run one at a time
+    concurrency: 1,
+    run: async ({ job, payload, signal, progress }) => {
+      const image = await dbStorage.getDroneImage(job.targetId);
+      if (!image) throw new PermanentJobError('Drone image no longer exists');
+      if (!fs.existsSync(image.filePath)) throw new PermanentJobError('Original image file not found on disk');
+
+      const sourceSrs = payload.sourceSrs ?? null;
+      // Old tiles for this image are stale whichever path produces the new ones
+      clearCachedTiles(image.id);
+
+      if (image.rasterType === 'dem' || image.rasterType === 'dsm') {
+        const products = await generateElevationProducts(
+          image.filePath,
+          image.id,
+          (percent, message) => progress(Math.round(percent * 0.5), message),
+          { sourceSrs, signal }
+        );
+        closeCogReader(products.elevationPath);
+
+        try {
+          // The color relief stands in for the imagery; the hillshade is an optional overlay
+          const relief = await createCogFromImage(products.reliefFile, image.id, {
+            sourceSrs,
+            signal,
+            onProgress: (percent, message) => progress(50 + Math.round(percent * 0.3), `Color relief: ${message}`),
+          });
+          const hillshade = await createCogFromImage(products.hillshadeFile, image.id, {
+            variant: 'hillshade',
+            sourceSrs,
+            signal,
+            onProgress: (percent, message) => progress(80 + Math.round(percent * 0.2), `Hillshade: ${message}`),
+          });
+
+          await dbStorage.updateDroneImage(image.id, {
+            hasTiles: true,
+            tileMode: 'cog',
+            cogPath: relief.cogPath,
+            hillshadePath: hillshade.cogPath,
+            elevationPath: products.elevationPath,
+            contoursPath: products.contoursPath,
+            contourInterval: String(products.contourInterval),
+            minElevation: String(products.minElevation),
+            maxElevation: String(products.maxElevation),
+            tileMinZoom: relief.minZoom,
+            tileMaxZoom: relief.maxZoom,
+            tileStoragePath: null,
+            processingStatus: 'complete'
+          });
+        } finally {
+          fs.rmSync(products.reliefFile, { force: true });
+          fs.rmSync(products.hillshadeFile, { force: true });
+        }
+        invalidateDemIndex();
+        if (image.tileStoragePath) await deleteTiles(image.id);
+        return;
+      }
+
+      if (image.tileMode === 'cog') {
+        const cog = await createCogFromImage(image.filePath, image.id, { sourceSrs, signal, onProgress: progress });
+        await dbStorage.updateDroneImage(image.id, {
+          hasTiles: true,
+          cogPath: cog.cogPath,
+          tileMinZoom: cog.minZoom,
+          tileMaxZoom: cog.maxZoom,
+          tileStoragePath: null,
+          processingStatus: 'complete'
+        });
+        if (image.tileStoragePath) await deleteTiles(image.id);
+        return;
+      }
+
+      const bounds: ImageBounds = {
+        north: parseFloat(image.northEastLat),
+        south: parseFloat(image.southWestLat),
+        east: parseFloat(image.northEastLng),
+        west: parseFloat(image.southWestLng)
+      };
+
+      const tileResult = await generateTilesFromImage(
+        image.filePath,
+        bounds,
+        image.id,
+        progress,
+        { sourceSrs, signal }
+      );
+
+      await dbStorage.updateDroneImage(image.id, {
+        hasTiles: true,
+        tileMinZoom: tileResult.minZoom,
+        tileMaxZoom: tileResult.maxZoom,
+        tileStoragePath: tileResult.storagePath,
+        cogPath: null,
+        processingStatus: 'complete'
+      });
+      if (image.cogPath) deleteCog(image.cogPath);
+    },
+    onStatusChange: async (job, status) => {
+      const processingStatus = DRONE_PROCESSING_STATUS[status];
+      if (processingStatus) {
+        await dbStorage.updateDroneImage(job.targetId, { processingStatus });
+      }
+    },
+  });
+
+  registerJobHandler('cesium_sync', {
+    concurrency: 1,
+    run: async ({ job, signal, progress, log }) => {
+      const tileset = await dbStorage.getCesium3dTileset(job.targetId);
+      if (!tileset) throw new PermanentJobError('Tileset no longer exists');
+      if (!tileset.storagePath?.startsWith('local:')) {
+        log('Tileset already synced to Object Storage');
+        return;
+      }
+
+      const localDir = tileset.storagePath.replace('local:', '');
+      if (!fs.existsSync(localDir)) throw new PermanentJobError(`Local directory not found: ${localDir}`);
+
+      const result = await syncTilesetToObjectStorage(tileset.id, localDir, { onProgress: progress, signal });
+      log(`${result.uploaded} uploaded, ${result.skipped} already stored, ${result.failed} failed`);
+      // Files already in the bucket are skipped, so a retry only re-sends the failures
+      if (result.failed > 0) throw new Error(`${result.failed} files failed to upload`);
+    },
+  });
+
+  registerJobHandler('trail_region_seed', {
+    // Holds every trail way and node of the extract in memory while it runs
+    concurrency: 1,
+    run: async ({ job, signal, progress, log }) => {
+      const region = await getTrailRegion(job.targetId);
+      if (!region) throw new PermanentJobError('Trail region no longer exists');
+      const filePath = path.join(TRAIL_EXTRACTS_DIR, path.basename(region.sourceFile));
+      if (!fs.existsSync(filePath)) throw new PermanentJobError(`Extract not found: ${region.sourceFile}`);
+
+      const clip = region.south && region.west && region.north && region.east
+        ? { minLat: parseFloat(region.south), minLon: parseFloat(region.west), maxLat: parseFloat(region.north), maxLon: parseFloat(region.east) }
+        : null;
+      const result = await seedTrailRegionFromPbf(region.id, filePath, clip, { signal, onProgress: progress });
+      log(`Stored ${result.cellCount} trail cells`);
+
+      await updateTrailRegion(region.id, {
+        status: 'ready',
+        cellCount: result.cellCount,
+        error: null,
+        seededAt: new Date(),
+        ...(result.bounds && !clip ? {
+          south: result.bounds.minLat.toFixed(6),
+          west: result.bounds.minLon.toFixed(6),
+          north: result.bounds.maxLat.toFixed(6),
+          east: result.bounds.maxLon.toFixed(6),
+        } : {}),
+      });
+    },
+    onStatusChange: async (job, status) => {
+      const regionStatus = TRAIL_REGION_STATUS[status];
+      if (regionStatus) {
+        await updateTrailRegion(job.targetId, {
+          status: regionStatus,
+          ...(status === 'failed' ? { error: job.error } : {}),
+        });
+      }
+    },
+  });
+}
+
+export function enqueueDroneTileJob(imageId: number, sourceSrs?: string | null) {
+  return enqueueJob('drone_tiles', imageId, { sourceSrs: sourceSrs ?? null });
+}
+
+export function enqueueCesiumSyncJob(tilesetId: number) {
+  return enqueueJob('cesium_sync', tilesetId);
+}
+
+export function enqueueTrailRegionSeedJob(regionId: number) {
+  return enqueueJob('trail_region_seed', regionId);
+}
+
+/**
+ * Queue work that was never tracked as a job: tilesets still stored locally
+ * and drone images left mid-tiling by a restart before the queue existed.
+ */
+export async function enqueueUntrackedWork(): Promise<void> {
+  const localTilesets = await db.select().from(cesium3dTilesets).where(like(cesium3dTilesets.storagePath, 'local:%'));
+  for (const ts of localTilesets) {
+    if (fs.existsSync(ts.storagePath.replace('local:', '')) && !(await getActiveJob('cesium_sync', ts.id))) {
+      console.log(`[Startup] Queueing sync of tileset ${ts.id} to Object Storage`);
+      await enqueueCesiumSyncJob(ts.id);
+    }
+  }
+
+  const stuckImages = await db.select().from(droneImages).where(inArray(droneImages.processingStatus, ['generating_tiles', 'queued']));
+  for (const image of stuckImages) {
+    if (!(await getActiveJob('drone_tiles', image.id))) {
+      console.log(`[Startup] Queueing tile generation for drone image ${image.id}`);
+      await enqueueDroneTileJob(image.id, image.crsSource !== 'gdal' ? image.crsCode : null);
+    }
+  }
+}
@@ -0,0 +1,445 @@
+import { and, eq, inArray, desc, sql } from "drizzle-orm";
+import { db } from "./db";
+import { processingJobs, type ProcessingJob } from "@shared/schema";
+
+/**
+ * Persisted background job queue.
+ *
+ * Jobs live in the `processing_jobs` table so progress, logs and failures
+ * survive a restart. Each job type registers a handler with its own
+ * concurrency limit; a poll loop claims queued jobs with
+ * `FOR UPDATE SKIP LOCKED`, runs them with an AbortSignal for cancellation
+ * and re-queues failures with exponential backoff until `maxAttempts`.
+ * A running job holds a lease (`lockedUntil`) that its process renews while
+ * it works; jobs whose lease ran out belong to a dead process and are
+ * re-queued, so peers never pick up each other's live jobs.
+ */
+
+export type JobType = 'drone_tiles' | 'cesium_sync' | 'trail_region_seed';
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export const ACTIVE_JOB_STATUSES: JobStatus[] = ['queued', 'running'];
+
+export interface JobLogEntry {
+  at: string;
+  message: string;
+}
+
+export interface JobContext {
+  job: ProcessingJob;
+  payload: Record<string, any>;
+  signal: AbortSignal;
+  progress: (percent: number, step?: string) => void;
+  log: (message: string) => void;
+}
+
+export interface JobHandler {
+  concurrency: number;
+  run: (ctx: JobContext) => Promise<void>;
+  // Mirrors job state onto the row the job works on (e.g. drone_images.processing_status)
+  onStatusChange?: (job: ProcessingJob, status: JobStatus) => Promise<void>;
+}
+
+// Thrown by handlers for failures another attempt cannot fix (missing file, deleted record)
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentJobError";
+    Object.setPrototypeOf(this, PermanentJobError.prototype);
+  }
+}
+
+const POLL_INTERVAL_MS = 5000;
+const PROGRESS_FLUSH_MS = 2000;
+const LEASE_MS = 2 * 60 * 1000;
+// How often running jobs renew their lease and expired leases are recovered
+const LEASE_RENEW_MS = 30000;
+const RETRY_BASE_DELAY_MS = 30000;
+const MAX_LOG_ENTRIES = 200;
+const MAX_CONCURRENT_JOBS = Math.max(1, parseInt(process.env.JOB_CONCURRENCY || '2', 10) || 2);
+
+const handlers = new Map<JobType, JobHandler>();
+const runningJobs = new Map<number, { type: JobType; controller: AbortController }>();
+let pollTimer: NodeJS.Timeout | null = null;
+let polling = false;
+let started = false;
+let lastLeaseRenewal = 0;
+
+export function registerJobHandler(type: JobType, handler: JobHandler): void {
+  handlers.set(type, handler);
+}
+
+function logEntry(message: string): JobLogEntry {
+  return { at: new Date().toISOString(), message };
+}
+
+function parseLogs(logs: string | null): JobLogEntry[] {
+  if (!logs) return [];
+  try {
+    const parsed = JSON.parse(logs);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function serializeLogs(entries: JobLogEntry[]): string {
+  return JSON.stringify(entries.slice(-MAX_LOG_ENTRIES));
+}
+
+function parsePayload(payload: string | null): Record<string, any> {
+  if (!payload) return {};
+  try {
+    return JSON.parse(payload) ?? {};
+  } catch {
+    return {};
+  }
+}
+
+export function serializeJob(job: ProcessingJob) {
+  return {
+    ...job,
+    payload: parsePayload(job.payload),
+    logs: parseLogs(job.logs),
+  };
+}
+
+async function updateJob(id: number, updates: Partial<ProcessingJob>, message?: string): Promise<ProcessingJob | undefined> {
+  const set: Partial<ProcessingJob> = { ...updates, updatedAt: new Date() };
+  if (message) {
+    const [current] = await db.select({ logs: processingJobs.logs }).from(processingJobs).where(eq(processingJobs.id, id));
+    set.logs = serializeLogs([...parseLogs(current?.logs ?? null), logEntry(message)]);
+  }
+  const [job] = await db.update(processingJobs).set(set).where(eq(processingJobs.id, id)).returning();
+  return job;
+}
+
+async function notifyStatus(job: ProcessingJob, status: JobStatus): Promise<void> {
+  const handler = handlers.get(job.type as JobType);
+  if (!handler?.onStatusChange) return;
+  try {
+    await handler.onStatusChange(job, status);
+  } catch (err) {
+    console.error(`[Jobs] Status hook failed for job ${job.id} (${job.type}):`, err);
+  }
+}
+
+export async function getJob(id: number): Promise<ProcessingJob | undefined> {
+  const [job] = await db.select().from(processingJobs).where(eq(processingJobs.id, id));
+  return job;
+}
+
+export async function getActiveJob(type: JobType, targetId: number): Promise<ProcessingJob | undefined> {
+  const [job] = await db.select().from(processingJobs).where(and(
+    eq(processingJobs.type, type),
+    eq(processingJobs.targetId, targetId),
+    inArray(processingJobs.status, ACTIVE_JOB_STATUSES)
+  ));
+  return job;
+}
+
+export async function listJobs(options: { statuses?: JobStatus[]; type?: JobType; limit?: number } = {}): Promise<ProcessingJob[]> {
+  const conditions = [];
+  if (options.statuses && options.statuses.length > 0) conditions.push(inArray(processingJobs.status, options.statuses));
+  if (options.type) conditions.push(eq(processingJobs.type, options.type));
+
+  return db.select().from(processingJobs)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(processingJobs.createdAt))
+    .limit(options.limit ?? 100);
+}
+
+/**
+ * Queue a job. An already queued or running job for the same target is
+ * returned instead of creating a duplicate.
+ */
+export async function enqueueJob(
+  type: JobType,
+  targetId: number,
+  payload: Record<string, any> = {},
+  options: { maxAttempts?: number } = {}
+): Promise<ProcessingJob> {
+  const existing = await getActiveJob(type, targetId);
+  if (existing) return existing;
+
+  // The partial unique index on (type, target_id) turns a concurrent enqueue into a no-op
+  const [job] = await db.insert(processingJobs).values({
+    type,
+    targetId,
+    payload: JSON.stringify(payload),
+    status: 'queued',
+    maxAttempts: options.maxAttempts ?? 3,
+    logs: serializeLogs([logEntry('Queued')]),
+  }).onConflictDoNothing().returning();
+  if (!job) {
+    // Lost the race; the winner's job may already have finished, in which case try again
+    return (await getActiveJob(type, targetId)) ?? enqueueJob(type, targetId, payload, options);
+  }
+
+  await notifyStatus(job, 'queued');
+  schedulePoll(0);
+  return job;
+}
+
+export async function cancelJob(id: number): Promise<ProcessingJob | undefined> {
+  const job = await getJob(id);
+  if (!job) return undefined;
+
+  if (job.status === 'queued') {
+    const cancelled = await updateJob(id, { status: 'cancelled', finishedAt: new Date() }, 'Cancelled before it started');
+    if (cancelled) await notifyStatus(cancelled, 'cancelled');
+    return cancelled;
+  }
+
+  if (job.status === 'running') {
+    const updated = await updateJob(id, { cancelRequested: true }, 'Cancellation requested');
+    runningJobs.get(id)?.controller.abort();
+    return updated;
+  }
+
+  return job;
+}
+
+export async function retryJob(id: number): Promise<ProcessingJob | undefined> {
+  const job = await getJob(id);
+  if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) return job;
+  // A newer job for the same target is already queued or running
+  const active = await getActiveJob(job.type as JobType, job.targetId);
+  if (active) return active;
+
+  const requeued = await updateJob(id, {
+    status: 'queued',
+    attempts: 0,
+    progress: 0,
+    step: null,
+    error: null,
+    cancelRequested: false,
+    runAfter: new Date(),
+    startedAt: null,
+    finishedAt: null,
+  }, 'Retry requested');
+  if (requeued) await notifyStatus(requeued, 'queued');
+  schedulePoll(0);
+  return requeued;
+}
+
+// Atomically move the oldest due job of this type from queued to running
+async function claimNextJob(type: JobType): Promise<ProcessingJob | undefined> {
+  const now = new Date();
+  const [job] = await db.update(processingJobs)
+    .set({
+      status: 'running',
+      startedAt: now,
+      lockedUntil: new Date(now.getTime() + LEASE_MS),
+      updatedAt: now,
+      attempts: sql`${processingJobs.attempts} + 1`,
+    })
+    .where(sql`${processingJobs.id} = (
+      SELECT id FROM processing_jobs
+      WHERE status = 'queued' AND type = ${type} AND run_after <= now()
+      ORDER BY created_at
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )`)
+    .returning();
+  return job;
+}
+
+async function runJob(job: ProcessingJob, handler: JobHandler): Promise<void> {
+  const controller = new AbortController();
+  runningJobs.set(job.id, { type: job.type as JobType, controller });
+
+  const logs = parseLogs(job.logs);
+  let progress = job.progress;
+  let step = job.step;
+  let lastFlush = 0;
+  let flushing: Promise<void> = Promise.resolve();
+
+  const flush = () => {
+    lastFlush = Date.now();
+    const snapshot = { progress, step, logs: serializeLogs(logs) };
+    flushing = flushing
+      .then(async () => { await db.update(processingJobs).set({ ...snapshot, updatedAt: new Date() }).where(eq(processingJobs.id, job.id)); })
+      .catch(err => console.error(`[Jobs] Failed to save progress for job ${job.id}:`, err?.message));
+  };
+
+  const ctx: JobContext = {
+    job,
+    payload: parsePayload(job.payload),
+    signal: controller.signal,
+    progress: (percent, nextStep) => {
+      progress = Math.max(0, Math.min(100, Math.round(percent)));
+      if (nextStep && nextStep !== step) {
+        step = nextStep;
+        logs.push(logEntry(nextStep));
+      }
+      if (Date.now() - lastFlush >= PROGRESS_FLUSH_MS) flush();
+    },
+    log: (message) => {
+      logs.push(logEntry(message));
+      if (Date.now() - lastFlush >= PROGRESS_FLUSH_MS) flush();
+    },
+  };
+
+  console.log(`[Jobs] Running job ${job.id} (${job.type} #${job.targetId}), attempt ${job.attempts}/${job.maxAttempts}`);
+  logs.push(logEntry(`Attempt ${job.attempts} of ${job.maxAttempts} started`));
+  flush();
+  await notifyStatus(job, 'running');
+
+  let finalStatus: JobStatus;
+  const updates: Partial<ProcessingJob> = {};
+
+  try {
+    await handler.run(ctx);
+    controller.signal.throwIfAborted();
+    finalStatus = 'completed';
+    progress = 100;
+    logs.push(logEntry('Completed'));
+  } catch (err: any) {
+    const message = err?.message || String(err);
+    if (controller.signal.aborted) {
+      finalStatus = 'cancelled';
+      logs.push(logEntry('Cancelled'));
+    } else if (!(err instanceof PermanentJobError) && job.attempts < job.maxAttempts) {
+      const delayMs = RETRY_BASE_DELAY_MS * Math.pow(2, job.attempts - 1);
+      finalStatus = 'queued';
+      updates.runAfter = new Date(Date.now() + delayMs);
+      updates.error = message;
+      logs.push(logEntry(`Failed: ${message}. Retrying in ${Math.round(delayMs / 1000)}s`));
+    } else {
+      finalStatus = 'failed';
+      updates.error = message;
+      logs.push(logEntry(`Failed: ${message}`));
+    }
+    console.error(`[Jobs] Job ${job.id} (${job.type} #${job.targetId}) ${finalStatus}:`, message);
+  } finally {
+    runningJobs.delete(job.id);
+  }
+
+  await flushing;
+  try {
+    const [updated] = await db.update(processingJobs).set({
+      ...updates,
+      status: finalStatus,
+      progress,
+      step,
+      logs: serializeLogs(logs),
+      cancelRequested: false,
+      finishedAt: finalStatus === 'queued' ? null : new Date(),
+      lockedUntil: null,
+      updatedAt: new Date(),
+    }).where(eq(processingJobs.id, job.id)).returning();
+    if (updated && finalStatus !== 'completed') await notifyStatus(updated, finalStatus);
+  } catch (err) {
+    console.error(`[Jobs] Failed to record result for job ${job.id}:`, err);
+  }
+
+  schedulePoll(finalStatus === 'queued' ? POLL_INTERVAL_MS : 0);
+}
+
+async function poll(): Promise<void> {
+  if (polling) return;
+  polling = true;
+  try {
+    // Cancellation may have been requested through another server process
+    if (runningJobs.size > 0) {
+      const cancelled = await db.select({ id: processingJobs.id }).from(processingJobs).where(and(
+        inArray(processingJobs.id, Array.from(runningJobs.keys())),
+        eq(processingJobs.cancelRequested, true)
+      ));
+      for (const { id } of cancelled) runningJobs.get(id)?.controller.abort();
+    }
+
+    if (Date.now() - lastLeaseRenewal >= LEASE_RENEW_MS) {
+      lastLeaseRenewal = Date.now();
+      await renewLeases();
+      await recoverInterruptedJobs();
+    }
+
+    const handlerEntries = Array.from(handlers.entries());
+    for (const [type, handler] of handlerEntries) {
+      while (runningJobs.size < MAX_CONCURRENT_JOBS) {
+        const runningOfType = Array.from(runningJobs.values()).filter(j => j.type === type).length;
+        if (runningOfType >= handler.concurrency) break;
+
+        const job = await claimNextJob(type);
+        if (!job) break;
+        runJob(job, handler).catch(err => {
+          console.error(`[Jobs] Unhandled error in job ${job.id}:`, err);
+        });
+      }
+    }
+  } catch (err) {
+    console.error('[Jobs] Poll error:', err);
+  } finally {
+    polling = false;
+  }
+}
+
+function schedulePoll(delayMs: number = POLL_INTERVAL_MS): void {
+  if (!started) return;
+  if (pollTimer) clearTimeout(pollTimer);
+  pollTimer = setTimeout(async () => {
+    pollTimer = null;
+    await poll();
+    if (!pollTimer) schedulePoll();
+  }, delayMs);
+}
+
+// Extend the lease on every job this process is running
+async function renewLeases(): Promise<void> {
+  if (runningJobs.size === 0) return;
+  await db.update(processingJobs)
+    .set({ lockedUntil: new Date(Date.now() + LEASE_MS) })
+    .where(and(
+      inArray(processingJobs.id, Array.from(runningJobs.keys())),
+      eq(processingJobs.status, 'running')
+    ));
+}
+
+/**
+ * Jobs still marked running after their lease ran out belong to a process
+ * that died mid-job (deploy restart, crash). Put them back in the queue, or
+ * fail them if they have used up their attempts. Jobs with a live lease are
+ * running in another server process and are left alone.
+ */
+async function recoverInterruptedJobs(): Promise<void> {
+  const leaseExpired = sql`(${processingJobs.lockedUntil} IS NULL OR ${processingJobs.lockedUntil} < now())`;
+  const interrupted = await db.select().from(processingJobs)
+    .where(and(eq(processingJobs.status, 'running'), leaseExpired));
+  let recovered = 0;
+  for (const job of interrupted) {
+    if (runningJobs.has(job.id)) continue;
+
+    // Take the job over only if no process renewed its lease in the meantime
+    const [claimed] = await db.update(processingJobs)
+      .set({ lockedUntil: null })
+      .where(and(eq(processingJobs.id, job.id), eq(processingJobs.status, 'running'), leaseExpired))
+      .returning({ id: processingJobs.id });
+    if (!claimed) continue;
+
+    const canRetry = job.attempts < job.maxAttempts && !job.cancelRequested;
+    const status: JobStatus = job.cancelRequested ? 'cancelled' : canRetry ? 'queued' : 'failed';
+    const updated = await updateJob(job.id, {
+      status,
+      cancelRequested: false,
+      runAfter: new Date(),
+      error: status === 'failed' ? 'Interrupted by a server restart' : job.error,
+      finishedAt: status === 'queued' ? null : new Date(),
+    }, status === 'queued' ? 'Server restarted while this job was running; re-queued' : 'Server restarted while this job was running');
+    if (updated) await notifyStatus(updated, status);
+    recovered++;
+  }
+  if (recovered > 0) {
+    console.log(`[Jobs] Recovered ${recovered} interrupted job(s)`);
+  }
+}
+
+export async function startJobQueue(): Promise<void> {
+  if (started) return;
+  await recoverInterruptedJobs();
+  lastLeaseRenewal = Date.now();
+  started = true;
+  schedulePoll(0);
+  console.log(`[Jobs] Queue started (max ${MAX_CONCURRENT_JOBS} concurrent jobs)`);
+}
@@ -0,0 +1,281 @@
+import fs from 'fs';
+import zlib from 'zlib';
+
+/**
+ * Minimal streaming reader for OpenStreetMap `.osm.pbf` extracts, enough to
+ * pull trail ways and their node coordinates out of a regional download
+ * (e.g. from Geofabrik) without Overpass. Blobs are read and inflated one at
+ * a time, so memory stays proportional to what the callbacks keep.
+ *
+ * Ways come after nodes in a PBF file, so callers that need the coordinates
+ * of selected ways scan twice: once collecting ways, once collecting nodes.
+ *
+ * Format: https://wiki.openstreetmap.org/wiki/PBF_Format
+ */
+
+const MAX_HEADER_BYTES = 64 * 1024;
+const MAX_BLOB_BYTES = 32 * 1024 * 1024;
+
+export interface OsmPbfScan {
+  onWay?: (id: number, tags: Record<string, string>, refs: number[]) => void;
+  onNode?: (id: number, lat: number, lon: number) => void;
+}
+
+export interface OsmPbfScanOptions {
+  signal?: AbortSignal;
+  // Fraction of the file read so far, 0-1
+  onProgress?: (fraction: number) => void;
+}
+
+export class OsmPbfError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OsmPbfError';
+    Object.setPrototypeOf(this, OsmPbfError.prototype);
+  }
+}
+
+// ========================================
+// Protobuf decoding
+// ========================================
+
+class ProtoReader {
+  pos = 0;
+
+  constructor(private buf: Buffer) {}
+
+  get done(): boolean {
+    return this.pos >= this.buf.length;
+  }
+
+  // Unsigned varint; exact up to 2^53, which covers every OSM id
+  varint(): number {
+    let result = 0;
+    let multiplier = 1;
+    let byte: number;
+    do {
+      if (this.pos >= this.buf.length) throw new OsmPbfError('Truncated varint');
+      byte = this.buf[this.pos++];
+      result += (byte & 0x7f) * multiplier;
+      multiplier *= 128;
+    } while (byte & 0x80);
+    return result;
+  }
+
+  svarint(): number {
+    const value = this.varint();
+    return value % 2 === 1 ? -(value + 1) / 2 : value / 2;
+  }
+
+  bytes(): Buffer {
+    const length = this.varint();
+    const start = this.pos;
+    this.pos += length;
+    if (this.pos > this.buf.length) throw new OsmPbfError('Truncated field');
+    return this.buf.subarray(start, this.pos);
+  }
+
+  // Field number and wire type of the next key
+  key(): { field: number; type: number } {
+    const key = this.varint();
+    return { field: Math.floor(key / 8), type: key % 8 };
+  }
+
+  skip(type: number): void {
+    if (type === 0) this.varint();
+    else if (type === 1) this.pos += 8;
+    else if (type === 2) this.bytes();
+    else if (type === 5) this.pos += 4;
+    else throw new OsmPbfError(`Unsupported wire type ${type}`);
+  }
+
+  packed(read: (reader: ProtoReader) => number): number[] {
+    const reader = new ProtoReader(this.bytes());
+    const values: number[] = [];
+    while (!reader.done) values.push(read(reader));
+    return values;
+  }
+}
+
+const readVarint = (reader: ProtoReader) => reader.varint();
+const readSvarint = (reader: ProtoReader) => reader.svarint();
+
+// ========================================
+// Primitive blocks
+// ========================================
+
+interface BlockContext {
+  strings: string[];
+  granularity: number;
+  latOffset: number;
+  lonOffset: number;
+}
+
+function coordinate(offset: number, granularity: number, value: number): number {
+  return (offset + granularity * value) / 1e9;
+}
+
+function readWay(buf: Buffer, ctx: BlockContext, scan: OsmPbfScan): void {
+  const reader = new ProtoReader(buf);
+  let id = 0;
+  let keys: number[] = [];
+  let vals: number[] = [];
+  let refs: number[] = [];
+  while (!reader.done) {
+    const { field, type } = reader.key();
+    if (field === 1 && type === 0) id = reader.varint();
+    else if (field === 2 && type === 2) keys = reader.packed(readVarint);
+    else if (field === 3 && type === 2) vals = reader.packed(readVarint);
+    else if (field === 8 && type === 2) refs = reader.packed(readSvarint);
+    else reader.skip(type);
+  }
+
+  // Refs are delta coded
+  for (let i = 1; i < refs.length; i++) refs[i] += refs[i - 1];
+  const tags: Record<string, string> = {};
+  keys.forEach((key, i) => { tags[ctx.strings[key]] = ctx.strings[vals[i]]; });
+  scan.onWay!(id, tags, refs);
+}
+
+function readNode(buf: Buffer, ctx: BlockContext, scan: OsmPbfScan): void {
+  const reader = new ProtoReader(buf);
+  let id = 0;
+  let lat = 0;
+  let lon = 0;
+  while (!reader.done) {
+    const { field, type } = reader.key();
+    if (field === 1 && type === 0) id = reader.svarint();
+    else if (field === 8 && type === 0) lat = reader.svarint();
+    else if (field === 9 && type === 0) lon = reader.svarint();
+    else reader.skip(type);
+  }
+  scan.onNode!(id, coordinate(ctx.latOffset, ctx.granularity, lat), coordinate(ctx.lonOffset, ctx.granularity, lon));
+}
+
+function readDenseNodes(buf: Buffer, ctx: BlockContext, scan: OsmPbfScan): void {
+  const reader = new ProtoReader(buf);
+  let ids: number[] = [];
+  let lats: number[] = [];
+  let lons: number[] = [];
+  while (!reader.done) {
+    const { field, type } = reader.key();
+    if (field === 1 && type === 2) ids = reader.packed(readSvarint);
+    else if (field === 8 && type === 2) lats = reader.packed(readSvarint);
+    else if (field === 9 && type === 2) lons = reader.packed(readSvarint);
+    else reader.skip(type);
+  }
+
+  let id = 0;
+  let lat = 0;
+  let lon = 0;
+  for (let i = 0; i < ids.length; i++) {
+    id += ids[i];
+    lat += lats[i];
+    lon += lons[i];
+    scan.onNode!(id, coordinate(ctx.latOffset, ctx.granularity, lat), coordinate(ctx.lonOffset, ctx.granularity, lon));
+  }
+}
+
+function readPrimitiveBlock(buf: Buffer, scan: OsmPbfScan): void {
+  const reader = new ProtoReader(buf);
+  const ctx: BlockContext = { strings: [], granularity: 100, latOffset: 0, lonOffset: 0 };
+  const groups: Buffer[] = [];
+  while (!reader.done) {
+    const { field, type } = reader.key();
+    if (field === 1 && type === 2) {
+      const table = new ProtoReader(reader.bytes());
+      while (!table.done) {
+        const entry = table.key();
+        if (entry.field === 1 && entry.type === 2) ctx.strings.push(table.bytes().toString('utf8'));
+        else table.skip(entry.type);
+      }
+    } else if (field === 2 && type === 2) {
+      groups.push(reader.bytes());
+    } else if (field === 17 && type === 0) {
+      ctx.granularity = reader.varint();
+    } else if (field === 19 && type === 0) {
+      ctx.latOffset = reader.varint();
+    } else if (field === 20 && type === 0) {
+      ctx.lonOffset = reader.varint();
+    } else {
+      reader.skip(type);
+    }
+  }
+
+  // Offsets and granularity can follow the groups, so decode the groups last
+  for (const group of groups) {
+    const groupReader = new ProtoReader(group);
+    while (!groupReader.done) {
+      const { field, type } = groupReader.key();
+      if (field === 1 && type === 2 && scan.onNode) readNode(groupReader.bytes(), ctx, scan);
+      else if (field === 2 && type === 2 && scan.onNode) readDenseNodes(groupReader.bytes(), ctx, scan);
+      else if (field === 3 && type === 2 && scan.onWay) readWay(groupReader.bytes(), ctx, scan);
+      else groupReader.skip(type);
+    }
+  }
+}
+
+// ========================================
+// File blobs
+// ========================================
+
+function blobData(buf: Buffer): Buffer {
+  const reader = new ProtoReader(buf);
+  while (!reader.done) {
+    const { field, type } = reader.key();
+    if (field === 1 && type === 2) return Buffer.from(reader.bytes());
+    if (field === 3 && type === 2) return zlib.inflateSync(reader.bytes());
+    if (field === 4 || field === 6 || field === 7) throw new OsmPbfError('Only raw and zlib compressed PBF blobs are supported');
+    reader.skip(type);
+  }
+  throw new OsmPbfError('Empty PBF blob');
+}
+
+async function readExactly(file: fs.promises.FileHandle, length: number, position: number): Promise<Buffer> {
+  const buf = Buffer.alloc(length);
+  const { bytesRead } = await file.read(buf, 0, length, position);
+  if (bytesRead !== length) throw new OsmPbfError('Unexpected end of file');
+  return buf;
+}
+
+/** Stream every primitive block in a `.osm.pbf` file through the callbacks. */
+export async function scanOsmPbf(filePath: string, scan: OsmPbfScan, options: OsmPbfScanOptions = {}): Promise<void> {
+  const file = await fs.promises.open(filePath, 'r');
+  try {
+    const { size } = await file.stat();
+    let position = 0;
+    let sawHeader = false;
+
+    while (position < size) {
+      if (options.signal?.aborted) throw new Error('Cancelled');
+
+      const headerLength = (await readExactly(file, 4, position)).readUInt32BE(0);
+      if (headerLength > MAX_HEADER_BYTES) throw new OsmPbfError('Not an OSM PBF file (blob header too large)');
+      const header = new ProtoReader(await readExactly(file, headerLength, position + 4));
+      let blobType = '';
+      let blobSize = 0;
+      while (!header.done) {
+        const { field, type } = header.key();
+        if (field === 1 && type === 2) blobType = header.bytes().toString('utf8');
+        else if (field === 3 && type === 0) blobSize = header.varint();
+        else header.skip(type);
+      }
+      if (blobSize > MAX_BLOB_BYTES) throw new OsmPbfError('Not an OSM PBF file (blob too large)');
+
+      const blobStart = position + 4 + headerLength;
+      if (blobType === 'OSMHeader') {
+        sawHeader = true;
+      } else if (blobType === 'OSMData') {
+        if (!sawHeader) throw new OsmPbfError('Not an OSM PBF file (missing OSMHeader)');
+        readPrimitiveBlock(blobData(await readExactly(file, blobSize, blobStart)), scan);
+      }
+
+      position = blobStart + blobSize;
+      options.onProgress?.(position / size);
+      // Let requests through between blocks; a region can take minutes
+      await new Promise(resolve => setImmediate(resolve));
+    }
+  } finally {
+    await file.close();
+  }
+}
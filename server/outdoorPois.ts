@@ -0,0 +1,155 @@
+/**
+ * Campsites, huts, shelters, water, trailheads and guideposts from
+ * OpenStreetMap, for the map's outdoor POI layer and the AI route assistant.
+ * Results are cached per bounding box for a day.
+ */
+
+// ========================================
+// Cache and query
+// ========================================
+
+const outdoorPoiCache = new Map<string, { data: any; timestamp: number }>();
+const POI_CACHE_TTL = 24 * 60 * 60 * 1000;
+const POI_CACHE_MAX = 200;
+
+function evictOldestCacheEntries() {
+  if (outdoorPoiCache.size <= POI_CACHE_MAX) return;
+  const entries = Array.from(outdoorPoiCache.entries()).sort((a, b) => a[1].timestamp - b[1].timestamp);
+  const toRemove = entries.slice(0, entries.length - POI_CACHE_MAX);
+  for (const [key] of toRemove) {
+    outdoorPoiCache.delete(key);
+  }
+}
+
+function buildOverpassQuery(south: number, west: number, north: number, east: number): string {
+  const bbox = `${south},${west},${north},${east}`;
+  return `[out:json][timeout:30];
+(
+  node["tourism"="camp_site"](${bbox});
+  way["tourism"="camp_site"](${bbox});
+  node["tourism"="camp_pitch"]["name"](${bbox});
+  node["tourism"="alpine_hut"](${bbox});
+  way["tourism"="alpine_hut"](${bbox});
+  node["tourism"="wilderness_hut"](${bbox});
+  way["tourism"="wilderness_hut"](${bbox});
+  node["amenity"="shelter"](${bbox});
+  way["amenity"="shelter"](${bbox});
+  node["amenity"="drinking_water"](${bbox});
+  node["natural"="spring"]["name"](${bbox});
+  node["highway"="trailhead"](${bbox});
+  node["information"="guidepost"]["name"](${bbox});
+  node["backcountry"="yes"](${bbox});
+);
+out center;`;
+}
+
+function classifyPoi(tags: Record<string, string>): { category: string; type: string } {
+  if (tags.tourism === 'camp_site' || tags.tourism === 'camp_pitch') {
+    if (tags.backcountry === 'yes' || tags.tents === 'yes') {
+      return { category: 'campsite', type: 'backcountry' };
+    }
+    return { category: 'campsite', type: tags.tourism === 'camp_pitch' ? 'camp_pitch' : 'camp_site' };
+  }
+  if (tags.tourism === 'alpine_hut') return { category: 'shelter', type: 'alpine_hut' };
+  if (tags.tourism === 'wilderness_hut') return { category: 'shelter', type: 'wilderness_hut' };
+  if (tags.amenity === 'shelter') return { category: 'shelter', type: 'shelter' };
+  if (tags.amenity === 'drinking_water') return { category: 'water', type: 'drinking_water' };
+  if (tags.natural === 'spring') return { category: 'water', type: 'spring' };
+  if (tags.highway === 'trailhead') return { category: 'trailhead', type: 'trailhead' };
+  if (tags.information === 'guidepost') return { category: 'guidepost', type: 'guidepost' };
+  if (tags.backcountry === 'yes') return { category: 'campsite', type: 'backcountry' };
+  return { category: 'other', type: 'unknown' };
+}
+
+function transformOsmElement(el: any): any {
+  const tags = el.tags || {};
+  const { category, type } = classifyPoi(tags);
+  const lat = el.lat ?? el.center?.lat;
+  const lon = el.lon ?? el.center?.lon;
+  if (lat == null || lon == null) return null;
+
+  return {
+    id: el.id,
+    lat,
+    lon,
+    category,
+    type,
+    name: tags.name || null,
+    elevation: tags.ele ? parseFloat(tags.ele) : null,
+    capacity: tags.capacity ? parseInt(tags.capacity, 10) : null,
+    operator: tags.operator || null,
+    fee: tags.fee === 'yes' ? true : tags.fee === 'no' ? false : null,
+    amenities: [
+      tags.drinking_water === 'yes' && 'drinking_water',
+      tags.toilets === 'yes' && 'toilets',
+      tags.shower === 'yes' && 'shower',
+      tags.fireplace === 'yes' && 'fireplace',
+      tags.bbq === 'yes' && 'bbq',
+      tags.picnic_table === 'yes' && 'picnic_table',
+      tags.internet_access === 'yes' && 'internet',
+    ].filter(Boolean),
+    website: tags.website || tags['contact:website'] || null,
+    phone: tags.phone || tags['contact:phone'] || null,
+    description: tags.description || null,
+    openingHours: tags.opening_hours || null,
+    access: tags.access || null,
+  };
+}
+
+// ========================================
+// Overpass
+// ========================================
+
+async function fetchOverpass(query: string): Promise<any> {
+  const endpoints = [
+    'https://overpass-api.de/api/interpreter',
+    'https://overpass.kumi.systems/api/interpreter',
+  ];
+
+  const fetchFromEndpoint = async (url: string): Promise<any> => {
+    const resp = await fetch(url, {
+      method: 'POST',
+      body: `data=${encodeURIComponent(query)}`,
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      signal: AbortSignal.timeout(20000),
+    });
+    if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
+    return await resp.json();
+  };
+
+  try {
+    return await Promise.any(endpoints.map(fetchFromEndpoint));
+  } catch {
+    throw new Error('All Overpass API endpoints failed');
+  }
+}
+
+// ========================================
+// Lookup
+// ========================================
+
+/**
+ * Outdoor POIs inside a bounding box. Callers are expected to have validated
+ * the box; Overpass is only queried on a cache miss.
+ */
+export async function fetchOutdoorPois(south: number, west: number, north: number, east: number): Promise<{ pois: any[]; count: number }> {
+  const cacheKey = `${south.toFixed(3)},${west.toFixed(3)},${north.toFixed(3)},${east.toFixed(3)}`;
+  const cached = outdoorPoiCache.get(cacheKey);
+  if (cached && Date.now() - cached.timestamp < POI_CACHE_TTL) {
+    return cached.data;
+  }
+
+  const query = buildOverpassQuery(south, west, north, east);
+  const osmData = await fetchOverpass(query);
+
+  const pois = (osmData.elements || [])
+    .map(transformOsmElement)
+    .filter((p: any) => p !== null);
+
+  const result = { pois, count: pois.length };
+
+  outdoorPoiCache.set(cacheKey, { data: result, timestamp: Date.now() });
+  evictOldestCacheEntries();
+
+  return result;
+}
@@ -0,0 +1,150 @@
+import { Client } from '@neondatabase/serverless';
+import crypto from 'crypto';
+import { pool } from './db';
+
+/**
+ * Message bus that carries real-time events between server instances.
+ *
+ * `memory` (the default) is for a single instance: events never leave the
+ * process. `postgres` uses LISTEN/NOTIFY on the app database, so several
+ * instances behind a load balancer share one channel without new
+ * infrastructure. Select it with `WS_PUBSUB=postgres`; LISTEN needs a
+ * direct (non-pooled) connection, set as `PUBSUB_DATABASE_URL` when
+ * `DATABASE_URL` points at a connection pooler.
+ *
+ * An instance delivers to its own sockets directly and uses the bus only
+ * to reach the others, so subscribers must skip messages they published.
+ */
+
+export interface PubSubAdapter {
+  readonly name: string;
+  publish(message: string): Promise<void>;
+  subscribe(handler: (message: string) => void): Promise<void>;
+  close(): Promise<void>;
+}
+
+export function createMemoryPubSub(): PubSubAdapter {
+  return {
+    name: 'memory',
+    publish: async () => {},
+    subscribe: async () => {},
+    close: async () => {},
+  };
+}
+
+const PG_CHANNEL = 'ws_events';
+// NOTIFY payloads are capped at 8000 bytes; larger messages are split
+const PG_MAX_PAYLOAD_BYTES = 7800;
+const PG_CHUNK_CHARS = 6000;
+const PG_RECONNECT_MS = 5000;
+// Partial messages whose remaining chunks never arrive are dropped after this
+const PG_CHUNK_TTL_MS = 30000;
+
+export function createPostgresPubSub(connectionString: string): PubSubAdapter {
+  // Frames are "<messageId>:<index>:<count>:<data>"; unsplit messages use "-:0:1:"
+  const origin = crypto.randomUUID().slice(0, 8);
+  const partial = new Map<string, { chunks: string[]; received: number; startedAt: number }>();
+  let handler: ((message: string) => void) | null = null;
+  let client: Client | null = null;
+  let reconnectTimer: NodeJS.Timeout | null = null;
+  let closed = false;
+
+  const onFrame = (payload: string) => {
+    const [id, indexText, countText] = payload.split(':', 3);
+    const data = payload.slice(id.length + indexText.length + countText.length + 3);
+    const count = parseInt(countText, 10);
+    if (count === 1) {
+      handler?.(data);
+      return;
+    }
+
+    const now = Date.now();
+    Array.from(partial.entries())
+      .filter(([, entry]) => now - entry.startedAt > PG_CHUNK_TTL_MS)
+      .forEach(([key]) => partial.delete(key));
+
+    const entry = partial.get(id) ?? { chunks: new Array(count), received: 0, startedAt: now };
+    entry.chunks[parseInt(indexText, 10)] = data;
+    entry.received++;
+    partial.set(id, entry);
+    if (entry.received === count) {
+      partial.delete(id);
+      handler?.(Buffer.from(entry.chunks.join(''), 'base64').toString('utf8'));
+    }
+  };
+
+  const connect = async () => {
+    if (closed) return;
+    const next = new Client({ connectionString });
+    next.on('notification', (msg) => {
+      if (msg.channel === PG_CHANNEL && msg.payload) onFrame(msg.payload);
+    });
+    const retry = (err?: Error) => {
+      if (err) console.error('[PubSub] Postgres listener error:', err.message);
+      if (client !== next || closed) return;
+      client = null;
+      next.end().catch(() => {});
+      reconnectTimer = setTimeout(() => {
+        reconnectTimer = null;
+        // A failed attempt has already scheduled the next one
+        connect().catch(() => {});
+      }, PG_RECONNECT_MS);
+    };
+    next.on('error', retry);
+    next.on('end', () => retry());
+
+    client = next;
+    try {
+      await next.connect();
+      await next.query(`LISTEN ${PG_CHANNEL}`);
+    } catch (err) {
+      retry(err as Error);
+      throw err;
+    }
+    console.log('[PubSub] Listening for real-time events on Postgres');
+  };
+
+  return {
+    name: 'postgres',
+
+    async publish(message: string) {
+      let frames: string[];
+      if (Buffer.byteLength(message) <= PG_MAX_PAYLOAD_BYTES) {
+        frames = [`-:0:1:${message}`];
+      } else {
+        const encoded = Buffer.from(message, 'utf8').toString('base64');
+        const id = `${origin}${crypto.randomBytes(4).toString('hex')}`;
+        const count = Math.ceil(encoded.length / PG_CHUNK_CHARS);
+        frames = Array.from({ length: count }, (_, i) =>
+          `${id}:${i}:${count}:${encoded.slice(i * PG_CHUNK_CHARS, (i + 1) * PG_CHUNK_CHARS)}`);
+      }
+      // One statement, so the chunks are delivered together and in order
+      const calls = frames.map((_, i) => `pg_notify('${PG_CHANNEL}', $${i + 1})`).join(', ');
+      await pool.query(`SELECT ${calls}`, frames);
+    },
+
+    async subscribe(nextHandler: (message: string) => void) {
+      handler = nextHandler;
+      await connect();
+    },
+
+    async close() {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      const current = client;
+      client = null;
+      await current?.end();
+    },
+  };
+}
+
+export function createPubSubAdapter(): PubSubAdapter {
+  const kind = (process.env.WS_PUBSUB || 'memory').toLowerCase();
+  if (kind === 'postgres') {
+    return createPostgresPubSub(process.env.PUBSUB_DATABASE_URL || process.env.DATABASE_URL!);
+  }
+  if (kind !== 'memory') {
+    console.warn(`[PubSub] Unknown WS_PUBSUB "${kind}", using in-memory delivery`);
+  }
+  return createMemoryPubSub();
+}
@@ -10,7 +10,8 @@ if (vapidPublicKey && vapidPrivateKey) {
 
 export async function sendPushNotification(
   subscriptionToken: string,
-  payload: { title: string; body: string; data?: any }
+  payload: { title: string; body: string; data?: any },
+  options: { urgency?: webPush.Urgency } = {}
 ): Promise<boolean> {
   if (!vapidPublicKey || !vapidPrivateKey) return false;
 
@@ -18,7 +19,7 @@ export async function sendPushNotification(
     // The token stored in device_tokens for 'web' platform is a JSON-stringified
     // PushSubscription object containing endpoint, keys.p256dh, keys.auth
     const subscription = JSON.parse(subscriptionToken);
-    await webPush.sendNotification(subscription, JSON.stringify(payload));
+    await webPush.sendNotification(subscription, JSON.stringify(payload), options);
     return true;
   } catch (error: any) {
     // If subscription is expired/invalid, return false so caller can clean up
@@ -0,0 +1,249 @@
+import crypto from 'crypto';
+import { WebSocket } from 'ws';
+import { serverMessageSchema, type ServerMessage, type SessionEvent } from '@shared/realtime';
+import type { PubSubAdapter } from './pubsub';
+import type { WebSocketState } from './routes/utils';
+
+/**
+ * Socket bookkeeping for the /ws endpoint. A user may hold several sockets
+ * (tabs, phone and laptop) and every one of them receives their messages.
+ * Each instance only knows its own sockets; broadcasts are delivered locally
+ * and published on the pub/sub bus for the other instances, which also
+ * exchange presence snapshots so "is this member online in the session"
+ * holds across the cluster.
+ */
+
+export interface RealtimeHub extends WebSocketState {
+  readonly instanceId: string;
+  addSocket(userId: number, ws: WebSocket): void;
+  removeSocket(userId: number, ws: WebSocket): void;
+  joinSession(userId: number, ws: WebSocket, sessionId: number): void;
+  leaveSession(userId: number, ws: WebSocket): void;
+  currentSession(ws: WebSocket): number | null;
+  send(ws: WebSocket, message: ServerMessage): void;
+  close(): Promise<void>;
+}
+
+type HubEvent =
+  | { type: 'session'; sessionId: number; payload: string; excludeUserId?: number }
+  | { type: 'users'; userIds: number[]; payload: string }
+  | { type: 'presence'; rooms: [number, number[]][] }
+  | { type: 'touch'; sessionId: number; userId: number };
+
+// How long a member whose last socket dropped stays "in" the session before others hear they left
+const DISCONNECT_GRACE_MS = 30000;
+const PRESENCE_INTERVAL_MS = 20000;
+// An instance that stops sending presence (crashed, partitioned) is forgotten after this
+const PRESENCE_TTL_MS = 60000;
+const PRESENCE_DEBOUNCE_MS = 500;
+
+/**
+ * Check an outbound message against the protocol and serialize it. A message
+ * that does not match is a server bug; it is logged and dropped rather than
+ * sent to clients that would reject it.
+ */
+export function encodeServerMessage(message: ServerMessage): string | null {
+  const result = serverMessageSchema.safeParse(message);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    console.error(`[Realtime] Dropped invalid '${(message as any)?.type}' message at ${issue.path.join('.')}: ${issue.message}`);
+    return null;
+  }
+  return JSON.stringify(message);
+}
+
+export function createRealtimeHub(adapter: PubSubAdapter): RealtimeHub {
+  const instanceId = crypto.randomUUID();
+  const userSockets = new Map<number, Set<WebSocket>>();
+  // sessionId -> userId -> sockets joined to that session on this instance
+  const localRooms = new Map<number, Map<number, Set<WebSocket>>>();
+  const socketSessions = new Map<WebSocket, number>();
+  const remotePresence = new Map<string, { seenAt: number; rooms: Map<number, Set<number>> }>();
+  const disconnectTimers = new Map<string, NodeJS.Timeout>();
+  let presenceTimer: NodeJS.Timeout | null = null;
+
+  const sendRaw = (ws: WebSocket, payload: string) => {
+    if (ws.readyState === WebSocket.OPEN) ws.send(payload);
+  };
+
+  const publish = (event: HubEvent) => {
+    adapter.publish(JSON.stringify({ origin: instanceId, event }))
+      .catch(err => console.error(`[Realtime] ${adapter.name} publish failed:`, err.message));
+  };
+
+  const deliverToSession = (sessionId: number, payload: string, excludeUserId?: number) => {
+    localRooms.get(sessionId)?.forEach((sockets, userId) => {
+      if (userId !== excludeUserId) sockets.forEach(ws => sendRaw(ws, payload));
+    });
+  };
+
+  const deliverToUsers = (userIds: number[], payload: string) => {
+    userIds.forEach(userId => userSockets.get(userId)?.forEach(ws => sendRaw(ws, payload)));
+  };
+
+  const publishPresence = () => {
+    const rooms = Array.from(localRooms.entries()).map(([sessionId, members]) =>
+      [sessionId, Array.from(members.keys())] as [number, number[]]);
+    publish({ type: 'presence', rooms });
+  };
+
+  const schedulePresence = () => {
+    if (presenceTimer) return;
+    presenceTimer = setTimeout(() => {
+      presenceTimer = null;
+      publishPresence();
+    }, PRESENCE_DEBOUNCE_MS);
+  };
+
+  const cancelDisconnect = (sessionId: number, userId: number) => {
+    const key = `${sessionId}:${userId}`;
+    const timer = disconnectTimers.get(key);
+    if (timer) {
+      clearTimeout(timer);
+      disconnectTimers.delete(key);
+    }
+  };
+
+  const isInSession = (sessionId: number, userId: number): boolean => {
+    if ((localRooms.get(sessionId)?.get(userId)?.size ?? 0) > 0) return true;
+    const now = Date.now();
+    return Array.from(remotePresence.values()).some(instance =>
+      now - instance.seenAt < PRESENCE_TTL_MS && !!instance.rooms.get(sessionId)?.has(userId));
+  };
+
+  const broadcastToSession = (sessionId: number, message: SessionEvent, options: { excludeUserId?: number } = {}) => {
+    const payload = encodeServerMessage({ ...message, sessionId } as ServerMessage);
+    if (!payload) return;
+    deliverToSession(sessionId, payload, options.excludeUserId);
+    publish({ type: 'session', sessionId, payload, excludeUserId: options.excludeUserId });
+  };
+
+  // Drop a socket from its session room. Returns the session if that was the user's last socket in it.
+  const detachFromSession = (userId: number, ws: WebSocket): number | null => {
+    const sessionId = socketSessions.get(ws);
+    if (sessionId === undefined) return null;
+    socketSessions.delete(ws);
+
+    const room = localRooms.get(sessionId);
+    const sockets = room?.get(userId);
+    sockets?.delete(ws);
+    if (sockets && sockets.size === 0) room!.delete(userId);
+    if (room && room.size === 0) localRooms.delete(sessionId);
+    schedulePresence();
+    return room?.has(userId) ? null : sessionId;
+  };
+
+  const heartbeat = setInterval(() => {
+    publishPresence();
+    const now = Date.now();
+    Array.from(remotePresence.entries())
+      .filter(([, instance]) => now - instance.seenAt >= PRESENCE_TTL_MS)
+      .forEach(([id]) => remotePresence.delete(id));
+  }, PRESENCE_INTERVAL_MS);
+  heartbeat.unref();
+
+  adapter.subscribe((raw) => {
+    let envelope: { origin: string; event: HubEvent };
+    try {
+      envelope = JSON.parse(raw);
+    } catch {
+      return;
+    }
+    if (envelope.origin === instanceId) return;
+
+    const event = envelope.event;
+    switch (event.type) {
+      case 'session':
+        deliverToSession(event.sessionId, event.payload, event.excludeUserId);
+        break;
+      case 'users':
+        deliverToUsers(event.userIds, event.payload);
+        break;
+      case 'presence':
+        remotePresence.set(envelope.origin, {
+          seenAt: Date.now(),
+          rooms: new Map(event.rooms.map(([sessionId, userIds]) => [sessionId, new Set(userIds)])),
+        });
+        break;
+      case 'touch':
+        cancelDisconnect(event.sessionId, event.userId);
+        break;
+    }
+  }).then(() => publishPresence())
+    .catch(err => console.error(`[Realtime] ${adapter.name} subscribe failed:`, err.message));
+
+  return {
+    instanceId,
+    broadcastToSession,
+    isInSession,
+
+    sendToUsers(userIds: number[], message: ServerMessage) {
+      const payload = encodeServerMessage(message);
+      if (!payload) return;
+      deliverToUsers(userIds, payload);
+      publish({ type: 'users', userIds, payload });
+    },
+
+    touchSessionMember(sessionId: number, userId: number) {
+      cancelDisconnect(sessionId, userId);
+      publish({ type: 'touch', sessionId, userId });
+    },
+
+    addSocket(userId: number, ws: WebSocket) {
+      if (!userSockets.has(userId)) userSockets.set(userId, new Set());
+      userSockets.get(userId)!.add(ws);
+    },
+
+    removeSocket(userId: number, ws: WebSocket) {
+      const sockets = userSockets.get(userId);
+      sockets?.delete(ws);
+      if (sockets && sockets.size === 0) userSockets.delete(userId);
+
+      const sessionId = detachFromSession(userId, ws);
+      if (sessionId === null) return;
+
+      // Give a dropped connection time to come back before telling the others
+      const key = `${sessionId}:${userId}`;
+      cancelDisconnect(sessionId, userId);
+      disconnectTimers.set(key, setTimeout(() => {
+        disconnectTimers.delete(key);
+        if (!isInSession(sessionId, userId)) {
+          broadcastToSession(sessionId, { type: 'member:disconnected', data: { userId } });
+        }
+      }, DISCONNECT_GRACE_MS));
+    },
+
+    joinSession(userId: number, ws: WebSocket, sessionId: number) {
+      detachFromSession(userId, ws);
+      if (!localRooms.has(sessionId)) localRooms.set(sessionId, new Map());
+      const room = localRooms.get(sessionId)!;
+      if (!room.has(userId)) room.set(userId, new Set());
+      room.get(userId)!.add(ws);
+      socketSessions.set(ws, sessionId);
+
+      cancelDisconnect(sessionId, userId);
+      publish({ type: 'touch', sessionId, userId });
+      schedulePresence();
+    },
+
+    leaveSession(userId: number, ws: WebSocket) {
+      detachFromSession(userId, ws);
+    },
+
+    currentSession(ws: WebSocket) {
+      return socketSessions.get(ws) ?? null;
+    },
+
+    send(ws: WebSocket, message: ServerMessage) {
+      const payload = encodeServerMessage(message);
+      if (payload) sendRaw(ws, payload);
+    },
+
+    async close() {
+      clearInterval(heartbeat);
+      if (presenceTimer) clearTimeout(presenceTimer);
+      disconnectTimers.forEach(timer => clearTimeout(timer));
+      await adapter.close();
+    },
+  };
+}
@@ -2,8 +2,18 @@ import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage as dbStorage } from "./storage";
 import { setupAuth, sessionMiddleware } from "./auth";
+import { recordMemberPosition } from "./sessionArchive";
+import { checkGeofences } from "./geofences";
+import { noteCheckIn, startIncidentMonitor } from "./incidents";
+import { createPubSubAdapter } from "./pubsub";
+import { createRealtimeHub } from "./realtimeHub";
 import { WebSocketServer, WebSocket } from "ws";
-import { locationShareSchema } from "@shared/schema";
+import {
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+  UNSUPPORTED_VERSION_CLOSE_CODE,
+  parseClientMessage,
+} from "@shared/realtime";
 import { registerObjectStorageRoutes } from "./replit_integrations/object_storage";
 
 // Route modules
@@ -17,11 +27,15 @@ import { registerSocialRoutes } from "./routes/social";
 import { registerMessagingRoutes } from "./routes/messaging";
 import { registerLiveMapRoutes } from "./routes/liveMaps";
 import { registerActivityRoutes } from "./routes/activities";
+import { registerSegmentRoutes } from "./routes/segments";
 import { registerMiscRoutes } from "./routes/misc";
 import { registerEnterpriseRoutes } from "./routes/enterprise";
+import { registerImportRoutes } from "./routes/imports";
+import { registerJobRoutes } from "./routes/jobs";
+import { registerTerrainRoutes } from "./routes/terrain";
+import { registerGeofenceRoutes } from "./routes/geofences";
 
 // Shared utilities
-import { validateRequest, parseId } from "./routes/utils";
 import type { WebSocketState } from "./routes/utils";
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -77,30 +91,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
-  // WebSocket state shared with route modules
-  const clients: Map<number, WebSocket> = new Map();
-  const sessionRooms: Map<number, Set<number>> = new Map();
-  const disconnectTimers: Map<string, NodeJS.Timeout> = new Map();
-
-  function broadcastToSession(sessionId: number, message: any) {
-    const room = sessionRooms.get(sessionId);
-    if (!room) return;
-
-    const messageStr = JSON.stringify({ ...message, sessionId });
-    room.forEach(userId => {
-      const client = clients.get(userId);
-      if (client && client.readyState === WebSocket.OPEN) {
-        client.send(messageStr);
-      }
-    });
-  }
-
-  const wsState: WebSocketState = { clients, sessionRooms, disconnectTimers, broadcastToSession };
+  // Socket bookkeeping and cross-instance fan-out, shared with route modules
+  const hub = createRealtimeHub(createPubSubAdapter());
+  const wsState: WebSocketState = hub;
+  const { broadcastToSession } = hub;
+  const stopIncidentMonitor = startIncidentMonitor(wsState);
 
   // WebSocket connection handler
   wss.on('connection', (ws: WebSocket) => {
     const userId: number = (ws as any).authenticatedUserId;
-    let currentSessionId: number | null = null;
 
     (ws as any).isAlive = true;
 
@@ -108,204 +107,161 @@ export async function registerRoutes(app: Express): Promise<Server> {
       (ws as any).isAlive = true;
     });
 
-    clients.set(userId, ws);
+    hub.addSocket(userId, ws);
 
-    ws.send(JSON.stringify({
+    hub.send(ws, {
       type: 'auth',
       status: 'success',
       userId: userId,
-      message: 'Connected to location sharing service'
-    }));
+      message: 'Connected to location sharing service',
+      protocolVersion: PROTOCOL_VERSION,
+      minProtocolVersion: MIN_PROTOCOL_VERSION
+    });
 
-    ws.on('message', async (message: string) => {
-      try {
-        const data = JSON.parse(message);
+    const reject = (message: string, id?: string, code?: string) => {
+      hub.send(ws, { type: 'error', id, code, message });
+    };
+    const ack = (id?: string) => {
+      if (id) hub.send(ws, { type: 'ack', id });
+    };
 
-        (ws as any).isAlive = true;
+    ws.on('message', async (raw: Buffer) => {
+      (ws as any).isAlive = true;
 
-        if (data.type === 'auth') return;
+      const parsed = parseClientMessage(raw.toString());
+      if (!parsed.success) {
+        reject(parsed.error, parsed.id, 'invalid_message');
+        return;
+      }
 
-        if (data.type === 'ping') {
-          ws.send(JSON.stringify({ type: 'pong' }));
-          return;
-        }
+      const data = parsed.message;
+      const currentSessionId = hub.currentSession(ws);
 
-        if (data.type === 'session:join' && userId) {
-          const sessionId = parseId(String(data.sessionId));
-          if (!sessionId) {
-            ws.send(JSON.stringify({ type: 'error', message: 'Invalid session ID' }));
+      try {
+        switch (data.type) {
+          case 'auth': {
+            // Clients from before the handshake send no version and speak v1
+            const version = data.version ?? MIN_PROTOCOL_VERSION;
+            if (version < MIN_PROTOCOL_VERSION || version > PROTOCOL_VERSION) {
+              reject(`Protocol version ${version} is not supported (server speaks ${MIN_PROTOCOL_VERSION}-${PROTOCOL_VERSION})`, data.id, 'unsupported_version');
+              ws.close(UNSUPPORTED_VERSION_CLOSE_CODE, 'Unsupported protocol version');
+              return;
+            }
+            ack(data.id);
             return;
           }
 
-          try {
-            const session = await dbStorage.getLiveMapSession(sessionId);
-            if (!session || !session.isActive) {
-              ws.send(JSON.stringify({ type: 'error', message: 'Session not found or ended' }));
-              return;
-            }
+          case 'ping':
+            hub.send(ws, { type: 'pong' });
+            ack(data.id);
+            return;
 
-            const members = await dbStorage.getLiveMapMembers(sessionId);
-            const isMember = members.some((m: any) => m.userId === userId) || session.ownerId === userId;
+          case 'session:join': {
+            const sessionId = data.sessionId;
 
-            if (!isMember) {
-              ws.send(JSON.stringify({ type: 'error', message: 'Not a member of this session' }));
-              return;
-            }
-          } catch (err) {
-            console.error('Error verifying session membership:', err);
-          }
+            try {
+              const session = await dbStorage.getLiveMapSession(sessionId);
+              if (!session || !session.isActive) {
+                reject('Session not found or ended', data.id, 'session_not_found');
+                return;
+              }
 
-          currentSessionId = sessionId;
+              const members = await dbStorage.getLiveMapMembers(sessionId);
+              const isMember = members.some((m: any) => m.userId === userId) || session.ownerId === userId;
 
-          const timerKey = `${sessionId}:${userId}`;
-          const existingTimer = disconnectTimers.get(timerKey);
-          if (existingTimer) {
-            clearTimeout(existingTimer);
-            disconnectTimers.delete(timerKey);
-          }
+              if (!isMember) {
+                reject('Not a member of this session', data.id, 'forbidden');
+                return;
+              }
+            } catch (err) {
+              console.error('Error verifying session membership:', err);
+            }
 
-          if (!sessionRooms.has(sessionId)) {
-            sessionRooms.set(sessionId, new Set());
+            hub.joinSession(userId, ws, sessionId);
+
+            hub.send(ws, { type: 'session:joined', sessionId });
+            ack(data.id);
+            return;
           }
-          sessionRooms.get(sessionId)!.add(userId);
 
-          ws.send(JSON.stringify({ type: 'session:joined', sessionId }));
-        }
+          case 'session:leave':
+            if (currentSessionId) hub.leaveSession(userId, ws);
+            ack(data.id);
+            return;
 
-        if (data.type === 'session:leave' && userId && currentSessionId) {
-          const room = sessionRooms.get(currentSessionId);
-          if (room) {
-            room.delete(userId);
-            if (room.size === 0) {
-              sessionRooms.delete(currentSessionId);
+          case 'session:location': {
+            if (!currentSessionId) {
+              reject('Join a session before sending locations', data.id, 'not_in_session');
+              return;
             }
+            const { latitude, longitude, accuracy, heading } = data;
+
+            await dbStorage.updateLiveMapMemberLocation(
+              currentSessionId,
+              userId,
+              String(latitude),
+              String(longitude),
+              accuracy != null ? String(accuracy) : undefined,
+              heading != null ? String(heading) : undefined
+            );
+            recordMemberPosition(currentSessionId, userId, longitude, latitude);
+            checkGeofences(wsState, currentSessionId, userId, longitude, latitude);
+            noteCheckIn(wsState, currentSessionId, userId);
+
+            broadcastToSession(currentSessionId, {
+              type: 'member:locationUpdate',
+              data: { userId, latitude, longitude, accuracy, heading }
+            });
+            ack(data.id);
+            return;
           }
-          currentSessionId = null;
-        }
-
-        if (data.type === 'session:location' && userId && currentSessionId) {
-          const { latitude, longitude, accuracy, heading } = data;
-
-          await dbStorage.updateLiveMapMemberLocation(
-            currentSessionId,
-            userId,
-            String(latitude),
-            String(longitude),
-            accuracy ? String(accuracy) : undefined,
-            heading ? String(heading) : undefined
-          );
-
-          broadcastToSession(currentSessionId, {
-            type: 'member:locationUpdate',
-            data: { userId, latitude, longitude, accuracy, heading }
-          });
-        }
 
-        // Voice talking indicator
-        if (data.type === 'voice:talking' && userId && currentSessionId) {
-          broadcastToSession(currentSessionId, {
-            type: 'voice:talking',
-            data: { userId, isTalking: data.isTalking }
-          });
-        }
-
-        if (data.type === 'location' && userId) {
-          const validation = validateRequest(locationShareSchema, data.location);
-          if (!validation.success) {
-            ws.send(JSON.stringify({ type: 'error', message: validation.error }));
+          // Voice talking indicator
+          case 'voice:talking':
+            if (!currentSessionId) {
+              reject('Join a session before talking', data.id, 'not_in_session');
+              return;
+            }
+            broadcastToSession(currentSessionId, {
+              type: 'voice:talking',
+              data: { userId, isTalking: data.isTalking }
+            });
+            ack(data.id);
             return;
-          }
 
-          try {
+          case 'location': {
             const sender = await dbStorage.getUser(userId);
-            if (!sender || !sender.locationSharingEnabled) return;
+            if (!sender || !sender.locationSharingEnabled) {
+              reject('Location sharing is disabled', data.id, 'forbidden');
+              return;
+            }
 
             const friendIds = await dbStorage.getFriendIdsForLocationBroadcast(userId);
 
-            friendIds.forEach((friendId: number) => {
-              const friendClient = clients.get(friendId);
-              if (friendClient && friendClient.readyState === WebSocket.OPEN) {
-                friendClient.send(JSON.stringify({
-                  type: 'location',
-                  userId,
-                  location: validation.data
-                }));
-              }
+            hub.sendToUsers(friendIds, {
+              type: 'location',
+              userId,
+              location: data.location
             });
-          } catch (err) {
-            console.error('Error broadcasting location:', err);
+            ack(data.id);
+            return;
           }
         }
-      } catch (error) {
-        ws.send(JSON.stringify({ type: 'error', message: 'Invalid message format' }));
+      } catch (err) {
+        console.error(`Error handling '${data.type}' message:`, err);
+        reject('Failed to process message', data.id, 'server_error');
       }
     });
 
     ws.on('close', () => {
-      clients.delete(userId);
-
-      if (currentSessionId) {
-        const sessionIdForTimer = currentSessionId;
-        const timerKey = `${sessionIdForTimer}:${userId}`;
-
-        const existing = disconnectTimers.get(timerKey);
-        if (existing) clearTimeout(existing);
-
-        const timer = setTimeout(() => {
-          disconnectTimers.delete(timerKey);
-          const room = sessionRooms.get(sessionIdForTimer);
-          if (room) {
-            room.delete(userId);
-            if (room.size === 0) {
-              sessionRooms.delete(sessionIdForTimer);
-            } else {
-              broadcastToSession(sessionIdForTimer, {
-                type: 'member:disconnected',
-                data: { userId }
-              });
-            }
-          }
-        }, 30000);
-
-        disconnectTimers.set(timerKey, timer);
-      }
+      hub.removeSocket(userId, ws);
     });
   });
 
+  // Sockets that miss a ping are terminated; their 'close' handler does the cleanup
   const heartbeatInterval = setInterval(() => {
     wss.clients.forEach((ws: any) => {
       if (ws.isAlive === false) {
-        const deadUserId = ws.authenticatedUserId;
-        if (deadUserId) {
-          clients.delete(deadUserId);
-
-          sessionRooms.forEach((room, sessionId) => {
-            if (room.has(deadUserId)) {
-              const timerKey = `${sessionId}:${deadUserId}`;
-              const existingTimer = disconnectTimers.get(timerKey);
-              if (existingTimer) clearTimeout(existingTimer);
-
-              const timer = setTimeout(() => {
-                disconnectTimers.delete(timerKey);
-                const currentRoom = sessionRooms.get(sessionId);
-                if (currentRoom && currentRoom.has(deadUserId)) {
-                  currentRoom.delete(deadUserId);
-                  if (currentRoom.size === 0) {
-                    sessionRooms.delete(sessionId);
-                  } else {
-                    broadcastToSession(sessionId, {
-                      type: 'member:disconnected',
-                      data: { userId: deadUserId }
-                    });
-                  }
-                }
-              }, 30000);
-
-              disconnectTimers.set(timerKey, timer);
-            }
-          });
-        }
-
         ws.terminate();
         return;
       }
@@ -317,21 +273,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   wss.on('close', () => {
     clearInterval(heartbeatInterval);
+    stopIncidentMonitor();
+    hub.close().catch(() => {});
   });
 
   // --- Register all route modules ---
   registerAuthRoutes(app);
   registerDroneRoutes(app);
   registerCesiumRoutes(app);
-  registerLocationRoutes(app, clients);
+  registerLocationRoutes(app, wsState);
   await registerRoutingRoutes(app);
   registerTripRoutes(app);
   registerSocialRoutes(app);
   registerMessagingRoutes(app, wsState);
   registerLiveMapRoutes(app, wsState);
   registerActivityRoutes(app);
+  registerSegmentRoutes(app);
   registerMiscRoutes(app);
   registerEnterpriseRoutes(app);
+  registerImportRoutes(app);
+  registerJobRoutes(app);
+  registerTerrainRoutes(app);
+  registerGeofenceRoutes(app, wsState);
 
   return httpServer;
 }
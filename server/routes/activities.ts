@@ -3,6 +3,10 @@ import { storage as dbStorage } from "../storage";
 import { isAuthenticated } from "./middleware";
 import { validateRequest, parseId } from "./utils";
 import { insertActivitySchema, insertRouteSchema } from "@shared/schema";
+import { buildExport, activityToExportDocument, exportFilename, EXPORT_FORMATS, EXPORT_CONTENT_TYPES, type ExportFormat } from "../geoExport";
+import { processActivity, ActivityProcessingError } from "../activityProcessing";
+import { computeActivitySplits, SPLIT_UNITS, type SplitUnit } from "../activitySplits";
+import { matchActivitySegments } from "../segments";
 
 export function registerActivityRoutes(app: Express) {
   app.post("/api/activities", isAuthenticated, async (req: Request, res: Response) => {
@@ -15,7 +19,21 @@ export function registerActivityRoutes(app: Express) {
         return res.status(400).json({ error: validation.error || "Invalid data" });
       }
 
-      const activity = await dbStorage.createActivity(validation.data);
+      let activity = await dbStorage.createActivity(validation.data);
+
+      // Clean the track and recompute totals; the recorded values stand if that fails
+      try {
+        activity = await processActivity(activity);
+      } catch (error) {
+        console.error(`Post-processing activity ${activity.id} failed:`, error);
+      }
+
+      try {
+        await matchActivitySegments(activity);
+      } catch (error) {
+        console.error(`Matching segments for activity ${activity.id} failed:`, error);
+      }
+
       res.status(201).json(activity);
     } catch (error) {
       console.error('Error creating activity:', error);
@@ -74,6 +92,79 @@ export function registerActivityRoutes(app: Express) {
     }
   });
 
+  // Export activity as GPX, KML or GeoJSON
+  app.get("/api/activities/:id/export", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const user = req.user as any;
+      const activityId = parseId(req.params.id);
+
+      if (!activityId) {
+        return res.status(400).json({ error: "Invalid activity ID" });
+      }
+
+      const format = String(req.query.format || 'gpx').toLowerCase() as ExportFormat;
+      if (!EXPORT_FORMATS.includes(format)) {
+        return res.status(400).json({ error: `Invalid format. Allowed: ${EXPORT_FORMATS.join(', ')}` });
+      }
+
+      const activity = await dbStorage.getActivity(activityId);
+
+      if (!activity) {
+        return res.status(404).json({ error: "Activity not found" });
+      }
+
+      if (activity.userId !== user.id && !activity.isPublic) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const body = buildExport(activityToExportDocument(activity), format);
+
+      res.setHeader('Content-Type', `${EXPORT_CONTENT_TYPES[format]}; charset=utf-8`);
+      res.setHeader('Content-Disposition', `attachment; filename="${exportFilename(activity.name, format)}"`);
+      res.send(body);
+    } catch (error) {
+      console.error('Error exporting activity:', error);
+      res.status(500).json({ error: "Failed to export activity" });
+    }
+  });
+
+  // Per-km/mile splits, manual laps and pace zones
+  app.get("/api/activities/:id/splits", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const user = req.user as any;
+      const activityId = parseId(req.params.id);
+
+      if (!activityId) {
+        return res.status(400).json({ error: "Invalid activity ID" });
+      }
+
+      const unit = String(req.query.unit || 'mi').toLowerCase() as SplitUnit;
+      if (!SPLIT_UNITS.includes(unit)) {
+        return res.status(400).json({ error: `Invalid unit. Allowed: ${SPLIT_UNITS.join(', ')}` });
+      }
+
+      const activity = await dbStorage.getActivity(activityId);
+
+      if (!activity) {
+        return res.status(404).json({ error: "Activity not found" });
+      }
+
+      if (activity.userId !== user.id && !activity.isPublic) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const splits = computeActivitySplits(activity, unit);
+      if (!splits) {
+        return res.status(422).json({ error: "This activity has too few track points for splits" });
+      }
+
+      res.json(splits);
+    } catch (error) {
+      console.error('Error computing activity splits:', error);
+      res.status(500).json({ error: "Failed to compute splits" });
+    }
+  });
+
   // Update activity
   app.patch("/api/activities/:id", isAuthenticated, async (req: Request, res: Response) => {
     try {
@@ -102,6 +193,16 @@ export function registerActivityRoutes(app: Express) {
       if (activityType !== undefined) updateData.activityType = activityType;
 
       const updatedActivity = await dbStorage.updateActivity(activityId, updateData);
+
+      // Segments can be limited to one activity type
+      if (updatedActivity && activityType !== undefined && activityType !== activity.activityType) {
+        try {
+          await matchActivitySegments(updatedActivity);
+        } catch (error) {
+          console.error(`Matching segments for activity ${activityId} failed:`, error);
+        }
+      }
+
       res.json(updatedActivity);
     } catch (error) {
       console.error('Error updating activity:', error);
@@ -109,6 +210,42 @@ export function registerActivityRoutes(app: Express) {
     }
   });
 
+  // Re-run track cleaning and DEM elevation on an activity
+  app.post("/api/activities/:id/recalculate", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const user = req.user as any;
+      const activityId = parseId(req.params.id);
+
+      if (!activityId) {
+        return res.status(400).json({ error: "Invalid activity ID" });
+      }
+
+      const activity = await dbStorage.getActivity(activityId);
+
+      if (!activity) {
+        return res.status(404).json({ error: "Activity not found" });
+      }
+
+      if (activity.userId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to recalculate this activity" });
+      }
+
+      const processed = await processActivity(activity);
+      try {
+        await matchActivitySegments(processed);
+      } catch (error) {
+        console.error(`Matching segments for activity ${activityId} failed:`, error);
+      }
+      res.json(processed);
+    } catch (error) {
+      if (error instanceof ActivityProcessingError) {
+        return res.status(422).json({ error: error.message });
+      }
+      console.error('Error recalculating activity:', error);
+      res.status(500).json({ error: "Failed to recalculate activity" });
+    }
+  });
+
   // Delete activity
   app.delete("/api/activities/:id", isAuthenticated, async (req: Request, res: Response) => {
     try {
@@ -2,6 +2,7 @@ import { Express } from "express";
 import { storage as dbStorage } from "../storage";
 import { isAuthenticated, isAdmin, extendTimeout, tilesetUpload, tilesetUploadDir } from "./middleware";
 import { parseId } from "./utils";
+import { enqueueCesiumSyncJob } from "../jobHandlers";
 import path from "path";
 import fs from "fs";
 
@@ -171,10 +172,8 @@ export function registerCesiumRoutes(app: Express) {
       const updatedTileset = await dbStorage.getCesium3dTileset(tilesetRecord.id);
       console.log(`Cesium tileset ${tilesetRecord.id} stored locally at ${tilesetRootDir} with ${allFiles.length} files`);
 
-      import('../cesiumStorageSync').then(({ syncTilesetToObjectStorage }) => {
-        syncTilesetToObjectStorage(tilesetRecord.id, tilesetRootDir).catch(err => {
-          console.error(`[CesiumSync] Background sync failed for tileset ${tilesetRecord.id}:`, err);
-        });
+      enqueueCesiumSyncJob(tilesetRecord.id).catch(err => {
+        console.error(`[CesiumSync] Failed to queue sync for tileset ${tilesetRecord.id}:`, err);
       });
 
       return res.status(201).json(updatedTileset);
@@ -288,11 +287,8 @@ export function registerCesiumRoutes(app: Express) {
       if (!fs.existsSync(localDir)) {
         return res.status(400).json({ message: "Local directory not found" });
       }
-      const { syncTilesetToObjectStorage } = await import('../cesiumStorageSync');
-      syncTilesetToObjectStorage(tilesetId, localDir).catch(err => {
-        console.error(`[CesiumSync] Sync failed for tileset ${tilesetId}:`, err);
-      });
-      return res.json({ message: "Sync started in background", tilesetId });
+      const job = await enqueueCesiumSyncJob(tilesetId);
+      return res.json({ message: "Sync queued", tilesetId, jobId: job.id });
     } catch (error) {
       return res.status(500).json({ message: "Error starting sync" });
     }
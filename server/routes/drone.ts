@@ -1,14 +1,50 @@
 import type { Express, Request, Response } from "express";
 import { storage as dbStorage } from "../storage";
 import { isAuthenticated, isAdmin, extendTimeout, upload, modelUpload, modelMultiUpload, uploadDir, modelUploadDir } from "./middleware";
-import { parseId, safePath, EPSG_DEFINITIONS, validateRequest } from "./utils";
+import { parseId, safePath, validateRequest } from "./utils";
 import { insertDroneImageSchema } from "@shared/schema";
 import sharp from "sharp";
-import * as GeoTIFF from "geotiff";
-import proj4 from "proj4";
 import path from "path";
 import fs from "fs";
-import { generateTilesFromImage, serveTile, getTileMetadata, deleteTiles, type ImageBounds } from "../tileGenerator";
+import { serveTile, getTileMetadata, deleteTiles } from "../tileGenerator";
+import { enqueueDroneTileJob } from "../jobHandlers";
+import { renderCogTile, transcodeTile, emptyTile, deleteCog, TILE_FORMATS, TILE_CONTENT_TYPES } from "../cogTiles";
+import { getCachedTile, putCachedTile, clearCachedTiles, tileCacheKey } from "../tileCache";
+import { placeGeoTiff, gdalSourceSrs, type CrsStatus } from "../crs";
+import { deleteElevationProducts } from "../demElevation";
+import * as GeoTIFF from "geotiff";
+
+// 'cog' renders tiles on request from a Cloud-Optimized GeoTIFF; 'pyramid' pre-renders PNGs
+function resolveTileMode(requested: unknown): 'cog' | 'pyramid' {
+  if (requested === 'cog' || requested === 'pyramid') return requested;
+  return process.env.DRONE_TILE_MODE === 'cog' ? 'cog' : 'pyramid';
+}
+
+const RASTER_TYPES = ['orthomosaic', 'dem', 'dsm'] as const;
+type RasterType = typeof RASTER_TYPES[number];
+
+// Elevation exports are single-band float or 16-bit GeoTIFFs. When the uploader
+// doesn't say which kind it is, treat it as a surface model unless the file
+// name marks it as bare earth (Pix4D "dtm", "dem")
+async function resolveRasterType(requested: unknown, filePath: string, originalName: string): Promise<RasterType> {
+  if (RASTER_TYPES.includes(requested as RasterType)) return requested as RasterType;
+  if (!/\.tiff?$/i.test(filePath)) return 'orthomosaic';
+
+  try {
+    const tiff = await GeoTIFF.fromFile(filePath);
+    try {
+      const image = await tiff.getImage();
+      const singleBand = image.getSamplesPerPixel() === 1;
+      const isFloat = image.getSampleFormat(0) === 3;
+      if (!singleBand || (!isFloat && image.getBitsPerSample(0) < 16)) return 'orthomosaic';
+    } finally {
+      tiff.close();
+    }
+  } catch {
+    return 'orthomosaic';
+  }
+  return /(^|[^a-z])(dtm|dem)([^a-z]|$)/i.test(originalName) ? 'dem' : 'dsm';
+}
 
 export function registerDroneRoutes(app: Express) {
   // Public drone images
@@ -48,9 +84,28 @@ export function registerDroneRoutes(app: Express) {
         northEastLng,
         southWestLat,
         southWestLng,
-        capturedAt
+        capturedAt,
+        epsgCode,
+        tileMode,
+        rasterType
       } = req.body;
 
+      // Optional explicit CRS, e.g. "2773" or "EPSG:2773", for files whose
+      // embedded georeferencing is missing or wrong
+      const epsgOverride = epsgCode ? parseInt(String(epsgCode).replace(/^EPSG:/i, ''), 10) : null;
+      if (epsgCode && !Number.isFinite(epsgOverride)) {
+        files.forEach(file => fs.unlink(file.path, () => {}));
+        return res.status(400).json({ message: "Invalid EPSG code" });
+      }
+      if (rasterType && !RASTER_TYPES.includes(rasterType)) {
+        files.forEach(file => fs.unlink(file.path, () => {}));
+        return res.status(400).json({ message: "rasterType must be one of: " + RASTER_TYPES.join(', ') });
+      }
+      const hasManualBounds = !!(northEastLat && northEastLng && southWestLat && southWestLng);
+      const resolvedRasterType = await resolveRasterType(rasterType, files[0].path, files[0].originalname);
+      // Elevation products are always rendered on request from COGs
+      const resolvedTileMode = resolvedRasterType === 'orthomosaic' ? resolveTileMode(tileMode) : 'cog';
+
       // Calculate total file size
       const totalSizeBytes = files.reduce((total, file) => total + file.size, 0);
       const totalSizeMB = Math.round(totalSizeBytes / (1024 * 1024));
@@ -58,7 +113,6 @@ export function registerDroneRoutes(app: Express) {
       const filePath = files[0].path;
       const fileExt = filePath.toLowerCase();
 
-      // Extract GPS coordinates from GeoTIFF using geotiff.js library
       let extractedCoords = {
         northEastLat: northEastLat || "43.7904",
         northEastLng: northEastLng || "-110.6818",
@@ -66,70 +120,71 @@ export function registerDroneRoutes(app: Express) {
         southWestLng: southWestLng || "-110.7818"
       };
       let cornerCoordinates: string | null = null;
+      let sourceSrs: string | null = null;
+      let crsInfo: {
+        crsCode: string | null;
+        crsName: string | null;
+        crsSource: string | null;
+        crsStatus: CrsStatus | null;
+        crsWarnings: string | null;
+      } = { crsCode: null, crsName: null, crsSource: null, crsStatus: null, crsWarnings: null };
 
       if (fileExt.endsWith('.tif') || fileExt.endsWith('.tiff')) {
-        try {
-
-          const tiff = await GeoTIFF.fromFile(filePath);
-          const image = await tiff.getImage();
-          const bbox = image.getBoundingBox();
-          const geoKeys = image.getGeoKeys();
-
-          if (bbox && bbox.length === 4) {
-            // bbox is [minX, minY, maxX, maxY] which is [west, south, east, north]
-            let [west, south, east, north] = bbox;
-
-            // Check if coordinates need reprojection (not in WGS84 range)
-            const needsReprojection = Math.abs(north) > 90 || Math.abs(south) > 90 ||
-                                       Math.abs(east) > 180 || Math.abs(west) > 180;
-
-            if (needsReprojection && geoKeys?.ProjectedCSTypeGeoKey) {
-              const epsgCode = geoKeys.ProjectedCSTypeGeoKey;
-              if (EPSG_DEFINITIONS[epsgCode]) {
-                proj4.defs(`EPSG:${epsgCode}`, EPSG_DEFINITIONS[epsgCode]);
-
-                // Convert corners to WGS84
-                const swWgs84 = proj4(`EPSG:${epsgCode}`, 'EPSG:4326', [west, south]);
-                const neWgs84 = proj4(`EPSG:${epsgCode}`, 'EPSG:4326', [east, north]);
-                const nwWgs84 = proj4(`EPSG:${epsgCode}`, 'EPSG:4326', [west, north]);
-                const seWgs84 = proj4(`EPSG:${epsgCode}`, 'EPSG:4326', [east, south]);
-
-                // Update bounding box with reprojected values
-                west = swWgs84[0];
-                south = swWgs84[1];
-                east = neWgs84[0];
-                north = neWgs84[1];
-
-                // Create corner coordinates in WGS84 [lng, lat] format
-                // Order: top-left (NW), top-right (NE), bottom-right (SE), bottom-left (SW)
-                const corners = [nwWgs84, neWgs84, seWgs84, swWgs84];
-                cornerCoordinates = JSON.stringify(corners);
-
-              } else {
-                console.warn(`Unknown EPSG code ${epsgCode}, coordinates may be incorrect`);
-              }
-            } else {
-              // Create corner coordinates in the format [lng, lat]
-              // Order: top-left (UL), top-right (UR), bottom-right (LR), bottom-left (LL)
-              const corners = [
-                [west, north],   // UL
-                [east, north],   // UR
-                [east, south],   // LR
-                [west, south]    // LL
-              ];
-              cornerCoordinates = JSON.stringify(corners);
-            }
+        let warnings: string[] = [];
+        let placed = false;
 
+        try {
+          const placement = await placeGeoTiff(filePath, { epsgOverride });
+          warnings = placement.warnings;
+          crsInfo = {
+            crsCode: placement.crs?.code ?? null,
+            crsName: placement.crs?.name ?? null,
+            crsSource: placement.crs?.source ?? null,
+            crsStatus: placement.status,
+            crsWarnings: null,
+          };
+
+          if (placement.bounds && placement.corners) {
             extractedCoords = {
-              southWestLat: south.toString(),
-              southWestLng: west.toString(),
-              northEastLat: north.toString(),
-              northEastLng: east.toString()
+              southWestLat: placement.bounds.south.toString(),
+              southWestLng: placement.bounds.west.toString(),
+              northEastLat: placement.bounds.north.toString(),
+              northEastLng: placement.bounds.east.toString()
             };
-
+            cornerCoordinates = JSON.stringify(placement.corners);
+            sourceSrs = gdalSourceSrs(placement.crs);
+            placed = true;
           }
         } catch (geotiffError) {
-          console.error('GeoTIFF coordinate extraction failed, using provided/default coordinates:', geotiffError);
+          console.error('GeoTIFF georeferencing could not be read:', geotiffError);
+          warnings = ['GeoTIFF georeferencing could not be read'];
+          crsInfo.crsStatus = 'unresolved';
+        }
+
+        // Never drop an image at a default location: without a CRS we need
+        // bounds from the uploader, otherwise the upload is refused. An EPSG
+        // code that could not be used is refused too, even with bounds.
+        if (!placed) {
+          if (epsgOverride) {
+            files.forEach(file => fs.unlink(file.path, () => {}));
+            return res.status(422).json({
+              message: `Could not place this GeoTIFF using EPSG:${epsgOverride}. Check the code and upload again.`,
+              warnings
+            });
+          }
+          if (!hasManualBounds) {
+            files.forEach(file => fs.unlink(file.path, () => {}));
+            return res.status(422).json({
+              message: "Could not determine where this GeoTIFF belongs. Provide an EPSG code or the image bounds and upload again.",
+              warnings
+            });
+          }
+          warnings.push('Placed using bounds supplied with the upload');
+        }
+
+        if (warnings.length > 0) {
+          crsInfo.crsWarnings = JSON.stringify(warnings);
+          console.warn(`Drone upload "${name}" CRS ${crsInfo.crsStatus}: ${warnings.join('; ')}`);
         }
       }
 
@@ -149,58 +204,25 @@ export function registerDroneRoutes(app: Express) {
         userId: 1,
         filePath: filePath,
         sizeInMB: totalSizeMB,
-        isActive: true
+        isActive: true,
+        tileMode: resolvedTileMode,
+        rasterType: resolvedRasterType,
+        ...crsInfo
       };
 
       const newDroneImage = await dbStorage.createDroneImage(droneImageData);
+      const job = await enqueueDroneTileJob(newDroneImage.id, sourceSrs);
 
-      res.status(201).json({
+      return res.status(201).json({
         ...newDroneImage,
+        processingStatus: 'queued',
+        jobId: job.id,
         uploadedFiles: files.length,
         totalSizeMB,
-        message: "Drone imagery uploaded successfully. Tile generation starting in background."
+        message: resolvedRasterType === 'orthomosaic'
+          ? "Drone imagery uploaded successfully. Tile generation queued."
+          : `Elevation model (${resolvedRasterType.toUpperCase()}) uploaded successfully. Hillshade, relief and contour generation queued.`
       });
-
-      const bounds: ImageBounds = {
-        north: parseFloat(extractedCoords.northEastLat),
-        south: parseFloat(extractedCoords.southWestLat),
-        east: parseFloat(extractedCoords.northEastLng),
-        west: parseFloat(extractedCoords.southWestLng)
-      };
-
-      // Run tile generation in background with full error protection
-      // Response already sent above - any errors here must not crash the process
-      (async () => {
-        try {
-          await dbStorage.updateDroneImage(newDroneImage.id, { processingStatus: 'generating_tiles' });
-
-          const tileResult = await generateTilesFromImage(
-            filePath,
-            bounds,
-            newDroneImage.id,
-            () => {}
-          );
-
-          await dbStorage.updateDroneImage(newDroneImage.id, {
-            hasTiles: true,
-            tileMinZoom: tileResult.minZoom,
-            tileMaxZoom: tileResult.maxZoom,
-            tileStoragePath: tileResult.storagePath,
-            processingStatus: 'complete'
-          });
-        } catch (tileError) {
-          console.error(`Tile generation failed for image ${newDroneImage.id}:`, tileError);
-          try {
-            await dbStorage.updateDroneImage(newDroneImage.id, { processingStatus: 'failed' });
-          } catch (updateError) {
-            console.error(`Failed to update processing status for image ${newDroneImage.id}:`, updateError);
-          }
-        }
-      })().catch(err => {
-        console.error(`Unhandled error in background tile generation for image ${newDroneImage.id}:`, err);
-      });
-
-      return;
     } catch (error) {
       console.error("Drone imagery upload error:", error);
       if (files) {
@@ -241,6 +263,9 @@ export function registerDroneRoutes(app: Express) {
 
       const deleted = await dbStorage.deleteDroneImage(droneImageId);
       if (deleted) {
+        clearCachedTiles(droneImage.id);
+        if (droneImage.cogPath) deleteCog(droneImage.cogPath);
+        deleteElevationProducts(droneImage);
         return res.status(200).json({ message: "Drone image deleted successfully" });
       } else {
         return res.status(500).json({ message: "Error deleting drone image" });
@@ -872,33 +897,77 @@ export function registerDroneRoutes(app: Express) {
     }
   });
 
-  app.get('/api/drone-images/:id/tiles/:z/:x/:y.png', async (req: Request, res: Response) => {
+  // Tiles come from the pre-rendered PNG pyramid in Object Storage or are cut
+  // on request from the image's COG; either way they go through the disk cache.
+  // The extension picks the output format: .png, .webp or .jpg. Elevation
+  // models serve their color relief as 'tiles' and a separate 'hillshade' layer.
+  const sendDroneTile = async (req: Request, res: Response, layer: 'tiles' | 'hillshade') => {
     try {
-      const { id, z, x, y } = req.params;
-      const imageId = parseInt(id);
-      const zoom = parseInt(z);
-      const tileX = parseInt(x);
-      const tileY = parseInt(y);
+      const imageId = parseId(req.params.id);
+      const zoom = parseInt(req.params.z, 10);
+      const tileX = parseInt(req.params.x, 10);
+      const tileY = parseInt(req.params.y, 10);
+      const format = TILE_FORMATS[req.params.ext.toLowerCase()];
+
+      if (!imageId || !format || [zoom, tileX, tileY].some(n => isNaN(n) || n < 0) || zoom > 24) {
+        return res.status(400).json({ message: 'Invalid tile request' });
+      }
 
-      const tileBuffer = await serveTile(imageId, zoom, tileX, tileY);
+      const cacheKey = tileCacheKey(imageId, zoom, tileX, tileY, req.params.ext.toLowerCase(), layer);
+      let tileBuffer = await getCachedTile(cacheKey);
 
       if (!tileBuffer) {
-        const emptyTile = await sharp(Buffer.alloc(512 * 512 * 4, 0), {
-          raw: { width: 512, height: 512, channels: 4 }
-        }).png().toBuffer();
+        const droneImage = await dbStorage.getDroneImage(imageId);
+        if (layer === 'hillshade') {
+          if (droneImage?.hillshadePath && fs.existsSync(droneImage.hillshadePath)) {
+            tileBuffer = await renderCogTile(droneImage.hillshadePath, zoom, tileX, tileY, format);
+          }
+        } else if (droneImage?.tileMode === 'cog' && droneImage.cogPath && fs.existsSync(droneImage.cogPath)) {
+          tileBuffer = await renderCogTile(droneImage.cogPath, zoom, tileX, tileY, format);
+        } else if (droneImage) {
+          const png = await serveTile(imageId, zoom, tileX, tileY);
+          tileBuffer = png ? await transcodeTile(png, format) : null;
+        }
+        if (tileBuffer) await putCachedTile(cacheKey, tileBuffer);
+      }
 
-        res.setHeader('Content-Type', 'image/png');
+      res.setHeader('Content-Type', TILE_CONTENT_TYPES[format]);
+      if (!tileBuffer) {
         res.setHeader('Cache-Control', 'public, max-age=86400');
-        return res.send(emptyTile);
+        return res.send(await emptyTile(format));
       }
 
-      res.setHeader('Content-Type', 'image/png');
       res.setHeader('Cache-Control', 'public, max-age=31536000');
       res.send(tileBuffer);
     } catch (error) {
       console.error('Error serving tile:', error);
       res.status(500).json({ message: 'Error serving tile' });
     }
+  };
+
+  app.get('/api/drone-images/:id/tiles/:z/:x/:y.:ext', (req: Request, res: Response) => sendDroneTile(req, res, 'tiles'));
+  app.get('/api/drone-images/:id/hillshade/:z/:x/:y.:ext', (req: Request, res: Response) => sendDroneTile(req, res, 'hillshade'));
+
+  // Contour lines traced from an uploaded DEM/DSM, elevation in metres
+  app.get('/api/drone-images/:id/contours', async (req: Request, res: Response) => {
+    try {
+      const imageId = parseId(req.params.id);
+      if (!imageId) {
+        return res.status(400).json({ message: 'Invalid drone image ID' });
+      }
+
+      const droneImage = await dbStorage.getDroneImage(imageId);
+      if (!droneImage?.contoursPath || !fs.existsSync(droneImage.contoursPath)) {
+        return res.status(404).json({ message: 'No contours for this drone image' });
+      }
+
+      res.setHeader('Content-Type', 'application/geo+json');
+      res.setHeader('Cache-Control', 'public, max-age=3600');
+      fs.createReadStream(droneImage.contoursPath).pipe(res);
+    } catch (error) {
+      console.error('Error serving contours:', error);
+      res.status(500).json({ message: 'Error serving contours' });
+    }
   });
 
   app.get('/api/drone-images/:id/tile-info', async (req: Request, res: Response) => {
@@ -917,6 +986,11 @@ export function registerDroneRoutes(app: Express) {
         tileMinZoom: droneImage.tileMinZoom,
         tileMaxZoom: droneImage.tileMaxZoom,
         processingStatus: droneImage.processingStatus,
+        tileMode: droneImage.tileMode,
+        rasterType: droneImage.rasterType,
+        minElevation: droneImage.minElevation,
+        maxElevation: droneImage.maxElevation,
+        contourInterval: droneImage.contourInterval,
         metadata
       });
     } catch (error) {
@@ -924,8 +998,11 @@ export function registerDroneRoutes(app: Express) {
     }
   });
 
-  app.post('/api/admin/drone-images/:id/generate-tiles', isAdmin, extendTimeout, async (req: Request, res: Response) => {
+  app.post('/api/admin/drone-images/:id/generate-tiles', isAdmin, async (req: Request, res: Response) => {
     const imageId = parseId(req.params.id);
+    if (!imageId) {
+      return res.status(400).json({ message: 'Invalid drone image ID' });
+    }
 
     try {
       const droneImage = await dbStorage.getDroneImage(imageId);
@@ -937,36 +1014,15 @@ export function registerDroneRoutes(app: Express) {
         return res.status(404).json({ message: 'Original image file not found on disk' });
       }
 
-      const bounds: ImageBounds = {
-        north: parseFloat(droneImage.northEastLat),
-        south: parseFloat(droneImage.southWestLat),
-        east: parseFloat(droneImage.northEastLng),
-        west: parseFloat(droneImage.southWestLng)
-      };
-
-      await dbStorage.updateDroneImage(imageId, { processingStatus: 'generating_tiles' });
-
-      res.json({ message: 'Tile generation started', imageId });
-
-      try {
-        const tileResult = await generateTilesFromImage(
-          droneImage.filePath,
-          bounds,
-          imageId,
-          () => {}
-        );
-
-        await dbStorage.updateDroneImage(imageId, {
-          hasTiles: true,
-          tileMinZoom: tileResult.minZoom,
-          tileMaxZoom: tileResult.maxZoom,
-          tileStoragePath: tileResult.storagePath,
-          processingStatus: 'complete'
-        });
-      } catch (tileError) {
-        console.error(`Tile generation failed for image ${imageId}:`, tileError);
-        await dbStorage.updateDroneImage(imageId, { processingStatus: 'failed' });
+      // Optionally switch between the PNG pyramid and COG paths when re-tiling;
+      // elevation models only have the COG path
+      const isElevationModel = droneImage.rasterType === 'dem' || droneImage.rasterType === 'dsm';
+      if (req.body?.tileMode && !isElevationModel && resolveTileMode(req.body.tileMode) !== droneImage.tileMode) {
+        await dbStorage.updateDroneImage(imageId, { tileMode: resolveTileMode(req.body.tileMode) });
       }
+
+      const job = await enqueueDroneTileJob(imageId, droneImage.crsSource !== 'gdal' ? droneImage.crsCode : null);
+      res.json({ message: 'Tile generation queued', imageId, jobId: job.id });
     } catch (error) {
       console.error('Error starting tile generation:', error);
       res.status(500).json({ message: 'Error starting tile generation' });
@@ -0,0 +1,193 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { storage as dbStorage } from "../storage";
+import { isAuthenticated } from "./middleware";
+import { parseId, validateRequest, type WebSocketState } from "./utils";
+import { insertLiveMapGeofenceSchema } from "@shared/schema";
+import { invalidateGeofences } from "../geofences";
+
+const lngLat = z.tuple([z.number().finite().min(-180).max(180), z.number().finite().min(-90).max(90)]);
+
+const createGeofenceSchema = insertLiveMapGeofenceSchema
+  .omit({ sessionId: true, createdBy: true, polygon: true })
+  .extend({
+    name: z.string().trim().min(1, "Name is required").max(100),
+    polygon: z.array(lngLat).min(3, "An area needs at least 3 points").max(500).optional().nullable(),
+    targetUserId: z.number().int().positive().optional().nullable(),
+    poiId: z.number().int().positive().optional().nullable(),
+    // Group distance or POI arrival radius, as a number or numeric string
+    distanceMeters: z.union([z.number(), z.string()])
+      .pipe(z.coerce.number({ invalid_type_error: "Distance must be a number" })
+        .finite("Distance must be a number")
+        .positive("Distance must be greater than 0"))
+      .transform(String)
+      .optional()
+      .nullable(),
+  })
+  .superRefine((data, ctx) => {
+    const isArea = data.ruleType === 'leave_area' || data.ruleType === 'enter_area';
+    if (isArea && !data.polygon) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['polygon'], message: "Draw the area for this rule" });
+    }
+    if (data.ruleType === 'reach_poi' && !data.poiId) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['poiId'], message: "Choose a waypoint for this rule" });
+    }
+    if (data.ruleType === 'member_distance' && !data.distanceMeters) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['distanceMeters'], message: "Distance must be greater than 0" });
+    }
+  });
+
+const updateGeofenceSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  isActive: z.boolean().optional(),
+  distanceMeters: z.number().positive().optional(),
+});
+
+export function registerGeofenceRoutes(app: Express, wsState: WebSocketState) {
+  // List a session's geofence rules
+  app.get("/api/live-maps/:id/geofences", isAuthenticated, async (req: Request, res: Response) => {
+    const sessionId = parseId(req.params.id);
+    if (!sessionId) {
+      return res.status(400).json({ message: "Invalid ID" });
+    }
+
+    try {
+      const session = await dbStorage.getLiveMapSession(sessionId);
+      const isMember = await dbStorage.isLiveMapMember(sessionId, req.user!.id);
+      if (!session || (!isMember && session.ownerId !== req.user!.id)) {
+        return res.status(403).json({ error: "Not authorized" });
+      }
+
+      res.json(await dbStorage.getLiveMapGeofences(sessionId));
+    } catch (error) {
+      console.error('Error fetching geofences:', error);
+      res.status(500).json({ error: "Failed to fetch geofences" });
+    }
+  });
+
+  // Add a geofence rule (owner only)
+  app.post("/api/live-maps/:id/geofences", isAuthenticated, async (req: Request, res: Response) => {
+    const sessionId = parseId(req.params.id);
+    if (!sessionId) {
+      return res.status(400).json({ message: "Invalid ID" });
+    }
+
+    const validation = validateRequest(createGeofenceSchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error });
+    }
+    const data = validation.data!;
+
+    try {
+      const session = await dbStorage.getLiveMapSession(sessionId);
+      if (!session || session.ownerId !== req.user!.id) {
+        return res.status(403).json({ error: "Only the session owner can add geofences" });
+      }
+      if (!session.isActive) {
+        return res.status(400).json({ error: "Session has ended" });
+      }
+
+      if (data.targetUserId && !(await dbStorage.isLiveMapMember(sessionId, data.targetUserId)) && data.targetUserId !== session.ownerId) {
+        return res.status(400).json({ error: "That member is not in this session" });
+      }
+      if (data.ruleType === 'reach_poi') {
+        const pois = await dbStorage.getLiveMapPois(sessionId);
+        if (!pois.some(p => p.id === data.poiId)) {
+          return res.status(400).json({ error: "That waypoint is not on this map" });
+        }
+      }
+
+      const isArea = data.ruleType === 'leave_area' || data.ruleType === 'enter_area';
+      const geofence = await dbStorage.createLiveMapGeofence({
+        sessionId,
+        createdBy: req.user!.id,
+        name: data.name,
+        ruleType: data.ruleType,
+        polygon: isArea ? JSON.stringify(data.polygon) : null,
+        targetUserId: data.targetUserId ?? null,
+        poiId: data.ruleType === 'reach_poi' ? data.poiId : null,
+        distanceMeters: isArea ? null : data.distanceMeters ?? null,
+      });
+
+      invalidateGeofences(sessionId);
+      wsState.broadcastToSession(sessionId, { type: 'geofence:created', data: geofence });
+
+      res.status(201).json(geofence);
+    } catch (error) {
+      console.error('Error creating geofence:', error);
+      res.status(500).json({ error: "Failed to create geofence" });
+    }
+  });
+
+  // Rename, pause/resume or change the distance of a geofence rule (owner only)
+  app.patch("/api/live-maps/:sessionId/geofences/:geofenceId", isAuthenticated, async (req: Request, res: Response) => {
+    const sessionId = parseId(req.params.sessionId);
+    const geofenceId = parseId(req.params.geofenceId);
+    if (!sessionId || !geofenceId) {
+      return res.status(400).json({ message: "Invalid ID" });
+    }
+
+    const validation = validateRequest(updateGeofenceSchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error });
+    }
+    const { name, isActive, distanceMeters } = validation.data!;
+
+    try {
+      const session = await dbStorage.getLiveMapSession(sessionId);
+      if (!session || session.ownerId !== req.user!.id) {
+        return res.status(403).json({ error: "Only the session owner can change geofences" });
+      }
+
+      const geofence = await dbStorage.getLiveMapGeofence(geofenceId);
+      if (!geofence || geofence.sessionId !== sessionId) {
+        return res.status(404).json({ error: "Geofence not found" });
+      }
+
+      const updated = await dbStorage.updateLiveMapGeofence(geofenceId, {
+        ...(name !== undefined && { name }),
+        ...(isActive !== undefined && { isActive }),
+        ...(distanceMeters !== undefined && { distanceMeters: String(distanceMeters) }),
+      });
+
+      invalidateGeofences(sessionId);
+      wsState.broadcastToSession(sessionId, { type: 'geofence:updated', data: updated! });
+
+      res.json(updated);
+    } catch (error) {
+      console.error('Error updating geofence:', error);
+      res.status(500).json({ error: "Failed to update geofence" });
+    }
+  });
+
+  // Delete a geofence rule (owner only)
+  app.delete("/api/live-maps/:sessionId/geofences/:geofenceId", isAuthenticated, async (req: Request, res: Response) => {
+    const sessionId = parseId(req.params.sessionId);
+    const geofenceId = parseId(req.params.geofenceId);
+    if (!sessionId || !geofenceId) {
+      return res.status(400).json({ message: "Invalid ID" });
+    }
+
+    try {
+      const session = await dbStorage.getLiveMapSession(sessionId);
+      if (!session || session.ownerId !== req.user!.id) {
+        return res.status(403).json({ error: "Only the session owner can delete geofences" });
+      }
+
+      const geofence = await dbStorage.getLiveMapGeofence(geofenceId);
+      if (!geofence || geofence.sessionId !== sessionId) {
+        return res.status(404).json({ error: "Geofence not found" });
+      }
+
+      await dbStorage.deleteLiveMapGeofence(geofenceId);
+
+      invalidateGeofences(sessionId);
+      wsState.broadcastToSession(sessionId, { type: 'geofence:deleted', data: { geofenceId } });
+
+      res.json({ message: "Geofence deleted" });
+    } catch (error) {
+      console.error('Error deleting geofence:', error);
+      res.status(500).json({ error: "Failed to delete geofence" });
+    }
+  });
+}
@@ -0,0 +1,160 @@
+import type { Express, Request, Response } from "express";
+import { storage as dbStorage } from "../storage";
+import { isAuthenticated, trackImportUpload } from "./middleware";
+import { validateRequest } from "./utils";
+import { insertActivitySchema, insertRouteSchema } from "@shared/schema";
+import { parseTrackFile, computeTrackStats, inferActivityType, TrackImportError, type ImportedTrack } from "../geoImport";
+import { haversineMeters } from "../geo";
+import { fetchElevationForCoordinates } from "../trailRouting";
+import { matchActivitySegments } from "../segments";
+
+const ACTIVITY_TYPES = ['run', 'ski', 'hike', 'bike'] as const;
+const IMPORT_TARGETS = ['route', 'activity'] as const;
+
+function defaultImportName(track: ImportedTrack, filename: string): string {
+  return track.name || filename.replace(/\.[^.]+$/, '') || 'Imported track';
+}
+
+export function registerImportRoutes(app: Express) {
+  // Import a GPX/KML/KMZ/GeoJSON/FIT file as a planned route or a recorded activity
+  app.post("/api/import", isAuthenticated, (req, res, next) => {
+    trackImportUpload.single('file')(req, res, (err) => {
+      if (err) {
+        return res.status(400).json({ error: err.message || "Error uploading file" });
+      }
+      next();
+    });
+  }, async (req: Request, res: Response) => {
+    try {
+      const user = req.user as any;
+      const file = req.file;
+
+      if (!file) {
+        return res.status(400).json({ error: "No file uploaded" });
+      }
+
+      const target = String(req.body.target || 'route') as typeof IMPORT_TARGETS[number];
+      if (!IMPORT_TARGETS.includes(target)) {
+        return res.status(400).json({ error: `Invalid target. Allowed: ${IMPORT_TARGETS.join(', ')}` });
+      }
+
+      const track = parseTrackFile(file.buffer, file.originalname);
+      const stats = computeTrackStats(track.points);
+      const name = (typeof req.body.name === 'string' && req.body.name.trim()) || defaultImportName(track, file.originalname);
+      const isPublic = req.body.isPublic === 'true' || req.body.isPublic === true;
+      const pathCoordinates = track.points.map(p => [p.lng, p.lat]);
+
+      if (target === 'route') {
+        let elevationGain = stats.elevationGainMeters;
+        let elevationLoss = stats.elevationLossMeters;
+        if (!stats.hasElevation) {
+          const elevation = await fetchElevationForCoordinates(pathCoordinates as [number, number][]);
+          elevationGain = elevation.elevationGain;
+          elevationLoss = elevation.elevationLoss;
+        }
+
+        const first = track.points[0];
+        const last = track.points[track.points.length - 1];
+        const waypoints = track.waypoints.length > 0
+          ? track.waypoints.map(wp => ({ name: wp.name, lngLat: [wp.lng, wp.lat], elevation: wp.elevation }))
+          : [
+              { name: 'Start', lngLat: [first.lng, first.lat], elevation: first.elevation },
+              { name: 'End', lngLat: [last.lng, last.lat], elevation: last.elevation },
+            ];
+
+        const routeData = {
+          userId: user.id,
+          name,
+          description: `Imported from ${file.originalname}`,
+          waypointIds: JSON.stringify([]),
+          pathCoordinates: JSON.stringify(pathCoordinates),
+          waypointCoordinates: JSON.stringify(waypoints),
+          totalDistance: stats.distanceMeters.toFixed(2),
+          elevationGain: (elevationGain ?? 0).toFixed(2),
+          elevationLoss: (elevationLoss ?? 0).toFixed(2),
+          estimatedTime: stats.hasTimestamps ? Math.round(stats.elapsedTimeSeconds / 60) : 0,
+          routingMode: "direct" as const,
+          isPublic,
+        };
+
+        const validation = validateRequest(insertRouteSchema, routeData);
+        if (!validation.success || !validation.data) {
+          return res.status(400).json({ error: validation.error || "Invalid route data" });
+        }
+
+        const route = await dbStorage.createRoute(validation.data);
+        return res.status(201).json({ type: 'route', route });
+      }
+
+      if (!stats.hasTimestamps) {
+        return res.status(400).json({ error: "File has no timestamps, so it can only be imported as a route" });
+      }
+
+      const requestedType = typeof req.body.activityType === 'string' ? req.body.activityType : '';
+      const activityType = (ACTIVITY_TYPES as readonly string[]).includes(requestedType)
+        ? requestedType
+        : inferActivityType(track.sport) || 'hike';
+
+      // Same track point shape the recorder stores, so ActivityDetail and export read it unchanged
+      const trackPoints = track.points.map((p, i) => {
+        let speed: number | null = null;
+        if (i > 0) {
+          const prev = track.points[i - 1];
+          const dt = (p.time!.getTime() - prev.time!.getTime()) / 1000;
+          speed = dt > 0 ? haversineMeters(prev, p) / dt : null;
+        }
+        return {
+          latitude: p.lat,
+          longitude: p.lng,
+          altitude: p.elevation,
+          accuracy: null,
+          timestamp: p.time!.getTime(),
+          speed,
+        };
+      });
+
+      const activityData = {
+        userId: user.id,
+        name,
+        activityType,
+        startTime: track.points[0].time!,
+        endTime: track.points[track.points.length - 1].time!,
+        elapsedTimeSeconds: stats.elapsedTimeSeconds,
+        movingTimeSeconds: stats.movingTimeSeconds,
+        distanceMeters: stats.distanceMeters.toFixed(2),
+        avgSpeedMps: stats.avgSpeedMps.toFixed(4),
+        maxSpeedMps: stats.maxSpeedMps.toFixed(4),
+        paceSecondsPerMile: stats.avgSpeedMps > 0 ? Math.round(1609.34 / stats.avgSpeedMps) : null,
+        elevationGainMeters: stats.elevationGainMeters !== null ? stats.elevationGainMeters.toFixed(2) : null,
+        elevationLossMeters: stats.elevationLossMeters !== null ? stats.elevationLossMeters.toFixed(2) : null,
+        minElevationMeters: stats.minElevationMeters !== null ? stats.minElevationMeters.toFixed(2) : null,
+        maxElevationMeters: stats.maxElevationMeters !== null ? stats.maxElevationMeters.toFixed(2) : null,
+        pathCoordinates: JSON.stringify(pathCoordinates),
+        trackPoints: JSON.stringify(trackPoints),
+        isPublic,
+        notes: `Imported from ${file.originalname}`,
+      };
+
+      const validation = validateRequest(insertActivitySchema, activityData);
+      if (!validation.success || !validation.data) {
+        return res.status(400).json({ error: validation.error || "Invalid activity data" });
+      }
+
+      const activity = await dbStorage.createActivity(validation.data);
+
+      try {
+        await matchActivitySegments(activity);
+      } catch (error) {
+        console.error(`Matching segments for activity ${activity.id} failed:`, error);
+      }
+
+      res.status(201).json({ type: 'activity', activity });
+    } catch (error) {
+      if (error instanceof TrackImportError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Error importing track file:', error);
+      res.status(500).json({ error: "Failed to import file" });
+    }
+  });
+}
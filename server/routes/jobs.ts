@@ -0,0 +1,70 @@
+import type { Express } from "express";
+import { isAdmin } from "./middleware";
+import { parseId } from "./utils";
+import { listJobs, getJob, cancelJob, retryJob, serializeJob, type JobStatus, type JobType } from "../jobQueue";
+
+const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'completed', 'failed', 'cancelled'];
+const JOB_TYPES: JobType[] = ['drone_tiles', 'cesium_sync', 'trail_region_seed'];
+
+export function registerJobRoutes(app: Express) {
+  // ?status=running,failed&type=drone_tiles&limit=50
+  app.get("/api/admin/jobs", isAdmin, async (req, res) => {
+    try {
+      const statuses = typeof req.query.status === 'string'
+        ? req.query.status.split(',').filter((s): s is JobStatus => JOB_STATUSES.includes(s as JobStatus))
+        : undefined;
+      const type = JOB_TYPES.includes(req.query.type as JobType) ? req.query.type as JobType : undefined;
+      const limit = Math.min(parseInt(req.query.limit as string, 10) || 100, 500);
+
+      const jobs = await listJobs({ statuses, type, limit });
+      return res.json(jobs.map(serializeJob));
+    } catch (error) {
+      console.error("Error fetching jobs:", error);
+      return res.status(500).json({ message: "Error fetching jobs" });
+    }
+  });
+
+  app.get("/api/admin/jobs/:id", isAdmin, async (req, res) => {
+    try {
+      const jobId = parseId(req.params.id);
+      if (!jobId) return res.status(400).json({ message: "Invalid job ID" });
+
+      const job = await getJob(jobId);
+      if (!job) return res.status(404).json({ message: "Job not found" });
+      return res.json(serializeJob(job));
+    } catch (error) {
+      return res.status(500).json({ message: "Error fetching job" });
+    }
+  });
+
+  app.post("/api/admin/jobs/:id/cancel", isAdmin, async (req, res) => {
+    try {
+      const jobId = parseId(req.params.id);
+      if (!jobId) return res.status(400).json({ message: "Invalid job ID" });
+
+      const job = await cancelJob(jobId);
+      if (!job) return res.status(404).json({ message: "Job not found" });
+      return res.json(serializeJob(job));
+    } catch (error) {
+      console.error("Error cancelling job:", error);
+      return res.status(500).json({ message: "Error cancelling job" });
+    }
+  });
+
+  app.post("/api/admin/jobs/:id/retry", isAdmin, async (req, res) => {
+    try {
+      const jobId = parseId(req.params.id);
+      if (!jobId) return res.status(400).json({ message: "Invalid job ID" });
+
+      const job = await retryJob(jobId);
+      if (!job) return res.status(404).json({ message: "Job not found" });
+      if (job.status !== 'queued') {
+        return res.status(409).json({ message: "Only failed or cancelled jobs can be retried" });
+      }
+      return res.json(serializeJob(job));
+    } catch (error) {
+      console.error("Error retrying job:", error);
+      return res.status(500).json({ message: "Error retrying job" });
+    }
+  });
+}
@@ -1,9 +1,13 @@
 import type { Express, Request, Response } from "express";
 import { storage as dbStorage } from "../storage";
 import { isAuthenticated } from "./middleware";
-import { parseId, type WebSocketState } from "./utils";
-import { WebSocket } from "ws";
+import { parseId, validateRequest, type WebSocketState } from "./utils";
+import { memberPositionSchema } from "@shared/realtime";
 import crypto from "crypto";
+import { z } from "zod";
+import { forgetGeofenceSession, checkGeofences, invalidateGeofences } from "../geofences";
+import { buildSessionDebrief, closeSessionRecording, recordMemberPosition, VOICE_ARCHIVE_DAYS } from "../sessionArchive";
+import { noteCheckIn, raiseSos, updateIncident, type IncidentAction } from "../incidents";
 
 function generateShareCode(): string {
   const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
@@ -14,6 +18,43 @@ function generateShareCode(): string {
   return code;
 }
 
+const sosSchema = z.object({
+  latitude: z.number().finite().min(-90).max(90).optional(),
+  longitude: z.number().finite().min(-180).max(180).optional(),
+  accuracy: z.number().finite().nonnegative().nullish(),
+  note: z.string().trim().max(280).nullish(),
+}).refine(data => (data.latitude === undefined) === (data.longitude === undefined), {
+  message: "Send both latitude and longitude, or neither",
+});
+
+const checkInSchema = z.object({
+  checkInMinutes: z.number().int().min(5).max(24 * 60).nullable(),
+});
+
+// The native background HTTP client may not carry session cookies, so background
+// requests authenticate with the token from /background-token instead. Sends the
+// error response and returns null when the token is missing or invalid.
+async function authenticateBackgroundToken(req: Request, res: Response, sessionId: number): Promise<number | null> {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    res.status(401).json({ error: "Missing authorization token" });
+    return null;
+  }
+
+  const tokenRecord = await dbStorage.getBackgroundLocationToken(authHeader.slice(7));
+  if (!tokenRecord || tokenRecord.sessionId !== sessionId) {
+    res.status(401).json({ error: "Invalid token" });
+    return null;
+  }
+
+  if (new Date(tokenRecord.expiresAt) < new Date()) {
+    res.status(401).json({ error: "Token expired" });
+    return null;
+  }
+
+  return tokenRecord.userId;
+}
+
 export function registerLiveMapRoutes(app: Express, wsState: WebSocketState) {
   // Create a new live map session
   app.post("/api/live-maps", isAuthenticated, async (req: Request, res: Response) => {
@@ -84,6 +125,8 @@ export function registerLiveMapRoutes(app: Express, wsState: WebSocketState) {
       const pois = await dbStorage.getLiveMapPois(id);
       const routes = await dbStorage.getLiveMapRoutes(id);
       const messages = await dbStorage.getLiveMapMessages(id);
+      const geofences = await dbStorage.getLiveMapGeofences(session.id);
+      const incidents = await dbStorage.getLiveMapIncidents(session.id, true);
 
       // Remove passwords from member users
       const safeMembers = members.map(m => ({
@@ -96,7 +139,9 @@ export function registerLiveMapRoutes(app: Express, wsState: WebSocketState) {
         members: safeMembers,
         pois,
         routes,
-        messages
+        messages,
+        geofences,
+        incidents
       });
     } catch (error) {
       console.error('Error fetching live map session:', error);
@@ -216,7 +261,8 @@ export function registerLiveMapRoutes(app: Express, wsState: WebSocketState) {
     }
   });
 
-  // End a live map session (owner only) - saves all data as immutable route
+  // End a live map session (owner only). Everything recorded stays attached to
+  // the session and is reviewed on its debrief page.
   app.delete("/api/live-maps/:id", isAuthenticated, async (req: Request, res: Response) => {
     const id = parseId(req.params.id);
 
@@ -234,100 +280,22 @@ export function registerLiveMapRoutes(app: Express, wsState: WebSocketState) {
         return res.status(400).json({ error: "Session has already ended" });
       }
 
-      // Gather all session data
-      const [members, pois, routes, messages, gpsTracks] = await Promise.all([
-        dbStorage.getLiveMapMembers(id),
-        dbStorage.getLiveMapPois(id),
-        dbStorage.getLiveMapRoutes(id),
-        dbStorage.getLiveMapMessages(id),
-        dbStorage.getLiveMapGpsTracks(id)
-      ]);
-
-      // Build combined path coordinates from all GPS tracks
-      const allPathCoordinates: [number, number][] = [];
-      const memberTracks: { userId: number; username: string; coordinates: [number, number][] }[] = [];
-
-      for (const track of gpsTracks) {
-        const member = members.find(m => m.userId === track.userId);
-        const memberUser = member ? await dbStorage.getUser(member.userId) : null;
-        try {
-          const coords = JSON.parse(track.coordinates) as [number, number][];
-          if (coords.length > 0) {
-            memberTracks.push({
-              userId: track.userId,
-              username: memberUser?.username || `User ${track.userId}`,
-              coordinates: coords
-            });
-            allPathCoordinates.push(...coords);
-          }
-        } catch {}
-      }
-
-      // Build waypoints from POIs
-      const waypointCoordinates = pois.map(poi => ({
-        name: poi.name,
-        lngLat: [parseFloat(poi.longitude as string), parseFloat(poi.latitude as string)] as [number, number],
-        note: poi.note
-      }));
+      await closeSessionRecording(id);
+      forgetGeofenceSession(session.id);
+      await dbStorage.endLiveMapSession(id);
+      await dbStorage.retainVoiceMessages(id, new Date(Date.now() + VOICE_ARCHIVE_DAYS * 24 * 60 * 60 * 1000));
 
-      // Build session notes from messages
-      const messageLog = messages.map(m => {
-        const msgUser = m.user;
-        const timestamp = new Date(m.createdAt!).toLocaleString();
-        return `[${timestamp}] ${msgUser?.username || 'Unknown'}: ${m.body}`;
-      }).join('\n');
-
-      // Calculate total distance from all tracks
-      let totalDistance = 0;
-      gpsTracks.forEach(track => {
-        if (track.totalDistance) {
-          totalDistance += parseFloat(track.totalDistance as string);
-        }
-      });
-
-      // Create session summary data
-      const sessionData = {
-        members: memberTracks.map(m => ({ userId: m.userId, username: m.username })),
-        pois: waypointCoordinates,
-        routes: routes.map(r => {
-          let parsedCoords = [];
-          try {
-            parsedCoords = typeof r.pathCoordinates === 'string' ? JSON.parse(r.pathCoordinates) : r.pathCoordinates;
-          } catch {}
-          return { name: r.name, pathCoordinates: parsedCoords };
-        }),
-        messageCount: messages.length
-      };
-
-      // Create a saved route for the session
-      const savedRoute = await dbStorage.createRoute({
-        userId: session.ownerId,
-        name: `${session.name} (Live Session)`,
-        description: `Live session ended on ${new Date().toLocaleDateString()}. Participants: ${memberTracks.map(m => m.username).join(', ')}`,
-        notes: `Session Chat Log:\n${messageLog}\n\n---\nSession Data:\n${JSON.stringify(sessionData, null, 2)}`,
-        waypointIds: JSON.stringify([]),
-        pathCoordinates: JSON.stringify(allPathCoordinates.length > 0 ? allPathCoordinates : [[0, 0]]),
-        waypointCoordinates: JSON.stringify(waypointCoordinates),
-        totalDistance: totalDistance.toString(),
-        elevationGain: "0",
-        elevationLoss: "0",
-        estimatedTime: 0,
-        routingMode: 'live_session',
-        isPublic: false
-      });
-
-      // End the session (mark as inactive, link to saved route)
-      await dbStorage.endLiveMapSession(id, savedRoute.id);
+      const debriefUrl = `/live-map/${id}/debrief`;
 
       // Notify members before ending
       wsState.broadcastToSession(id, {
         type: 'session:ended',
-        data: { savedRouteId: savedRoute.id }
+        data: { sessionId: id, debriefUrl }
       });
 
       res.json({
         message: "Session ended successfully",
-        savedRouteId: savedRoute.id
+        debriefUrl
       });
     } catch (error) {
       console.error('Error ending live map session:', error);
@@ -335,6 +303,33 @@ export function registerLiveMapRoutes(app: Express, wsState: WebSocketState) {
     }
   });
 
+  // Timeline of a session: every member's track plus POIs, routes, chat and radio
+  app.get("/api/live-maps/:id/debrief", isAuthenticated, async (req: Request, res: Response) => {
+    const id = parseId(req.params.id);
+    if (!id) {
+      return res.status(400).json({ message: "Invalid ID" });
+    }
+
+    try {
+      const session = await dbStorage.getLiveMapSession(id);
+      if (!session) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+
+      // Members who left before the end keep access to the session they were part of
+      const isMember = await dbStorage.isLiveMapMember(id, req.user!.id);
+      const hasTrack = !!(await dbStorage.getLiveMapGpsTrackByUser(id, req.user!.id));
+      if (!isMember && !hasTrack && session.ownerId !== req.user!.id) {
+        return res.status(403).json({ error: "You are not a member of this session" });
+      }
+
+      res.json(await buildSessionDebrief(session));
+    } catch (error) {
+      console.error('Error building session debrief:', error);
+      res.status(500).json({ error: "Failed to load session debrief" });
+    }
+  });
+
   // Record GPS track point during a live session
   app.post("/api/live-maps/:id/gps-track", isAuthenticated, async (req: Request, res: Response) => {
     const sessionId = parseId(req.params.id);
@@ -464,30 +459,20 @@ export function registerLiveMapRoutes(app: Express, wsState: WebSocketState) {
       return res.status(400).json({ message: "Invalid ID" });
     }
 
-    // Authenticate via Bearer token (native background HTTP client may not have session cookies)
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({ error: "Missing authorization token" });
-    }
-
-    const token = authHeader.slice(7);
-
     try {
-      const tokenRecord = await dbStorage.getBackgroundLocationToken(token);
-      if (!tokenRecord || tokenRecord.sessionId !== sessionId) {
-        return res.status(401).json({ error: "Invalid token" });
-      }
-
-      if (new Date(tokenRecord.expiresAt) < new Date()) {
-        return res.status(401).json({ error: "Token expired" });
-      }
-
-      const { latitude, longitude, accuracy, heading } = req.body;
-      if (latitude == null || longitude == null) {
-        return res.status(400).json({ error: "latitude and longitude are required" });
+      const userId = await authenticateBackgroundToken(req, res, sessionId);
+      if (userId === null) return;
+
+      // The native plugin reports an unknown heading as -1
+      const body = req.body ?? {};
+      const validation = validateRequest(memberPositionSchema, {
+        ...body,
+        heading: typeof body.heading === 'number' && body.heading < 0 ? null : body.heading,
+      });
+      if (!validation.success) {
+        return res.status(400).json({ error: validation.error });
       }
-
-      const userId = tokenRecord.userId;
+      const { latitude, longitude, accuracy, heading } = validation.data!;
 
       // Update member location in DB (same as WebSocket handler)
       await dbStorage.updateLiveMapMemberLocation(
@@ -499,6 +484,10 @@ export function registerLiveMapRoutes(app: Express, wsState: WebSocketState) {
         heading != null ? String(heading) : undefined
       );
 
+      recordMemberPosition(sessionId, userId, longitude, latitude);
+      checkGeofences(wsState, sessionId, userId, longitude, latitude);
+      noteCheckIn(wsState, sessionId, userId);
+
       // Broadcast to all connected WebSocket clients in the session
       wsState.broadcastToSession(sessionId, {
         type: 'member:locationUpdate',
@@ -506,12 +495,7 @@ export function registerLiveMapRoutes(app: Express, wsState: WebSocketState) {
       });
 
       // Clear any pending disconnect timer for this user
-      const timerKey = `${sessionId}:${userId}`;
-      const existingTimer = wsState.disconnectTimers.get(timerKey);
-      if (existingTimer) {
-        clearTimeout(existingTimer);
-        wsState.disconnectTimers.delete(timerKey);
-      }
+      wsState.touchSessionMember(sessionId, userId);
 
       res.json({ ok: true });
     } catch (error) {
@@ -520,6 +504,139 @@ export function registerLiveMapRoutes(app: Express, wsState: WebSocketState) {
     }
   });
 
+  // Raise an SOS with the member's current or last known fix. Accepts the
+  // session cookie or a background token, so it also works from the background.
+  app.post("/api/live-maps/:id/sos", async (req: Request, res: Response) => {
+    const sessionId = parseId(req.params.id);
+    if (!sessionId) {
+      return res.status(400).json({ message: "Invalid ID" });
+    }
+
+    const validation = validateRequest(sosSchema, req.body ?? {});
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error });
+    }
+    const { latitude, longitude, accuracy, note } = validation.data!;
+
+    try {
+      let userId: number | null;
+      if (req.isAuthenticated()) {
+        userId = req.user!.id;
+      } else {
+        userId = await authenticateBackgroundToken(req, res, sessionId);
+        if (userId === null) return;
+      }
+
+      const session = await dbStorage.getLiveMapSession(sessionId);
+      const isMember = await dbStorage.isLiveMapMember(sessionId, userId);
+      if (!session || (!isMember && session.ownerId !== userId)) {
+        return res.status(403).json({ error: "Not authorized" });
+      }
+      if (!session.isActive) {
+        return res.status(400).json({ error: "Session has ended" });
+      }
+
+      const fix = latitude !== undefined && longitude !== undefined ? { latitude, longitude, accuracy } : null;
+      if (fix) {
+        // An SOS fix is also the member's latest position
+        await dbStorage.updateLiveMapMemberLocation(
+          sessionId,
+          userId,
+          String(latitude),
+          String(longitude),
+          accuracy != null ? String(accuracy) : undefined
+        );
+        recordMemberPosition(sessionId, userId, fix.longitude, fix.latitude);
+        wsState.broadcastToSession(sessionId, {
+          type: 'member:locationUpdate',
+          data: { userId, latitude: fix.latitude, longitude: fix.longitude, accuracy, heading: null }
+        });
+        noteCheckIn(wsState, sessionId, userId);
+      }
+
+      const incident = await raiseSos(wsState, sessionId, userId, fix, note || null);
+      res.status(201).json(incident);
+    } catch (error) {
+      console.error('Error raising SOS:', error);
+      res.status(500).json({ error: "Failed to send SOS" });
+    }
+  });
+
+  // List a session's SOS and overdue incidents, newest first
+  app.get("/api/live-maps/:id/incidents", isAuthenticated, async (req: Request, res: Response) => {
+    const sessionId = parseId(req.params.id);
+    if (!sessionId) {
+      return res.status(400).json({ message: "Invalid ID" });
+    }
+
+    try {
+      const session = await dbStorage.getLiveMapSession(sessionId);
+      const isMember = await dbStorage.isLiveMapMember(sessionId, req.user!.id);
+      if (!session || (!isMember && session.ownerId !== req.user!.id)) {
+        return res.status(403).json({ error: "Not authorized" });
+      }
+
+      res.json(await dbStorage.getLiveMapIncidents(sessionId));
+    } catch (error) {
+      console.error('Error fetching incidents:', error);
+      res.status(500).json({ error: "Failed to fetch incidents" });
+    }
+  });
+
+  // Acknowledge ("I'm on it") or resolve an incident; any member may do either
+  app.post("/api/live-maps/:sessionId/incidents/:incidentId/:action(acknowledge|resolve)", isAuthenticated, async (req: Request, res: Response) => {
+    const sessionId = parseId(req.params.sessionId);
+    const incidentId = parseId(req.params.incidentId);
+    if (!sessionId || !incidentId) {
+      return res.status(400).json({ message: "Invalid ID" });
+    }
+
+    try {
+      const session = await dbStorage.getLiveMapSession(sessionId);
+      const isMember = await dbStorage.isLiveMapMember(sessionId, req.user!.id);
+      if (!session || (!isMember && session.ownerId !== req.user!.id)) {
+        return res.status(403).json({ error: "Not authorized" });
+      }
+
+      const incident = await dbStorage.getLiveMapIncident(incidentId);
+      if (!incident || incident.sessionId !== sessionId) {
+        return res.status(404).json({ error: "Incident not found" });
+      }
+
+      const updated = await updateIncident(wsState, incident, req.params.action as IncidentAction, req.user!.id);
+      res.json(updated);
+    } catch (error) {
+      console.error('Error updating incident:', error);
+      res.status(500).json({ error: "Failed to update incident" });
+    }
+  });
+
+  // Set how long a member may go without a location update before they are overdue (owner only)
+  app.patch("/api/live-maps/:id/check-in", isAuthenticated, async (req: Request, res: Response) => {
+    const sessionId = parseId(req.params.id);
+    if (!sessionId) {
+      return res.status(400).json({ message: "Invalid ID" });
+    }
+
+    const validation = validateRequest(checkInSchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: validation.error });
+    }
+
+    try {
+      const session = await dbStorage.getLiveMapSession(sessionId);
+      if (!session || session.ownerId !== req.user!.id) {
+        return res.status(403).json({ error: "Only the session owner can change check-in alerts" });
+      }
+
+      const updated = await dbStorage.updateLiveMapSession(sessionId, { checkInMinutes: validation.data!.checkInMinutes });
+      res.json(updated);
+    } catch (error) {
+      console.error('Error updating check-in threshold:', error);
+      res.status(500).json({ error: "Failed to update check-in alerts" });
+    }
+  });
+
   // Update drone layers for a session
   app.patch("/api/live-maps/:id/drone-layers", isAuthenticated, async (req: Request, res: Response) => {
     const id = parseId(req.params.id);
@@ -580,6 +697,9 @@ export function registerLiveMapRoutes(app: Express, wsState: WebSocketState) {
         longitude
       });
 
+      // Reach-waypoint rules need the new POI
+      invalidateGeofences(sessionId);
+
       // Broadcast to all members
       wsState.broadcastToSession(sessionId, {
         type: 'poi:created',
@@ -610,6 +730,7 @@ export function registerLiveMapRoutes(app: Express, wsState: WebSocketState) {
       }
 
       await dbStorage.deleteLiveMapPoi(poiId);
+      invalidateGeofences(sessionId);
 
       // Broadcast to all members
       wsState.broadcastToSession(sessionId, {
@@ -963,36 +1084,20 @@ export function registerLiveMapRoutes(app: Express, wsState: WebSocketState) {
       });
 
       // Broadcast small metadata-only notification via WebSocket (no audio payload)
-      const { clients, sessionRooms } = wsState;
-      const room = sessionRooms.get(sessionId);
-      const onlineUserIds = room ? new Set(room) : new Set<number>();
+      const sender = await dbStorage.getUser(userId);
+      const senderName = username || sender?.fullName || sender?.username || 'Unknown';
 
-      if (room) {
-        const sender = await dbStorage.getUser(userId);
-        const senderName = username || sender?.fullName || sender?.username || 'Unknown';
-
-        const notificationStr = JSON.stringify({
-          type: 'voice:message',
-          sessionId,
-          data: {
-            id: voiceMsg.id,
-            userId,
-            username: senderName,
-            mimeType: mimeType || 'audio/webm',
-            duration: duration || 0,
-            timestamp: msgTimestamp,
-          }
-        });
-
-        room.forEach(memberId => {
-          if (memberId !== userId) {
-            const client = clients.get(memberId);
-            if (client && client.readyState === WebSocket.OPEN) {
-              client.send(notificationStr);
-            }
-          }
-        });
-      }
+      wsState.broadcastToSession(sessionId, {
+        type: 'voice:message',
+        data: {
+          id: voiceMsg.id,
+          userId,
+          username: senderName,
+          mimeType: mimeType || 'audio/webm',
+          duration: duration || 0,
+          timestamp: msgTimestamp,
+        }
+      }, { excludeUserId: userId });
 
       // Send push notifications to offline session members (best-effort)
       try {
@@ -1004,7 +1109,7 @@ export function registerLiveMapRoutes(app: Express, wsState: WebSocketState) {
 
         for (const member of members) {
           if (member.userId === userId) continue;
-          if (onlineUserIds.has(member.userId)) continue;
+          if (wsState.isInSession(sessionId, member.userId)) continue;
 
           const tokens = await dbStorage.getActiveDeviceTokensByUser(member.userId);
           for (const token of tokens) {
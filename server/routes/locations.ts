@@ -1,8 +1,7 @@
 import { Express, Request, Response } from "express";
-import { WebSocket } from "ws";
 import { storage as dbStorage } from "../storage";
 import { isAuthenticated } from "./middleware";
-import { validateRequest, parseId } from "./utils";
+import { validateRequest, parseId, type WebSocketState } from "./utils";
 import {
   insertLocationSchema,
   insertOfflineMapAreaSchema,
@@ -11,7 +10,7 @@ import {
   locationShareSchema,
 } from "@shared/schema";
 
-export function registerLocationRoutes(app: Express, clients: Map<number, WebSocket>) {
+export function registerLocationRoutes(app: Express, wsState: WebSocketState) {
   // Location routes
   app.post("/api/locations", isAuthenticated, async (req, res) => {
     const user = req.user as any;
@@ -439,7 +438,7 @@ export function registerLocationRoutes(app: Express, clients: Map<number, WebSoc
 
       // Broadcast location update via WebSocket
       const locationData = {
-        type: 'location-update',
+        type: 'location-update' as const,
         userId: user.id,
         username: user.username,
         latitude: parseFloat(userLocation.latitude),
@@ -450,19 +449,13 @@ export function registerLocationRoutes(app: Express, clients: Map<number, WebSoc
         lastUpdated: userLocation.lastUpdated
       };
 
-      // Send to all connected clients who have accepted location shares
+      // Send to every friend who has accepted a location share
       const acceptedShares = await dbStorage.getLocationSharesByUser(user.id);
-      const connectedFriends = acceptedShares
+      const friendIds: number[] = acceptedShares
         .filter((share: any) => share.status === 'accepted')
-        .map((share: any) => share.fromUserId === user.id ? share.toUserId : share.fromUserId)
-        .filter((friendId: any) => clients.has(friendId));
-
-      connectedFriends.forEach(friendId => {
-        const friendWs = clients.get(friendId);
-        if (friendWs && friendWs.readyState === WebSocket.OPEN) {
-          friendWs.send(JSON.stringify(locationData));
-        }
-      });
+        .map((share: any) => share.fromUserId === user.id ? share.toUserId : share.fromUserId);
+
+      wsState.sendToUsers(friendIds, locationData);
 
       return res.status(200).json(userLocation);
     } catch (error) {
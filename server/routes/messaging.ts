@@ -4,7 +4,6 @@ import { isAuthenticated } from "./middleware";
 import { parseId, type WebSocketState } from "./utils";
 
 export function registerMessagingRoutes(app: Express, wsState: WebSocketState) {
-  const { clients } = wsState;
 
   app.get("/api/messages/conversations", isAuthenticated, async (req: Request, res: Response) => {
     try {
@@ -66,20 +65,17 @@ export function registerMessagingRoutes(app: Express, wsState: WebSocketState) {
         body: body.trim(),
       });
 
-      const receiverWs = clients.get(receiverId);
-      if (receiverWs && receiverWs.readyState === 1) {
-        receiverWs.send(JSON.stringify({
-          type: 'dm:new',
-          data: {
-            ...message,
-            sender: {
-              id: req.user!.id,
-              username: req.user!.username,
-              fullName: req.user!.fullName
-            }
+      wsState.sendToUsers([receiverId], {
+        type: 'dm:new',
+        data: {
+          ...message,
+          sender: {
+            id: req.user!.id,
+            username: req.user!.username,
+            fullName: req.user!.fullName
           }
-        }));
-      }
+        }
+      });
 
       res.status(201).json(message);
     } catch (error) {
@@ -172,5 +172,20 @@ export const tilesetUpload = multer({
   limits: { fileSize: Infinity },
 });
 
+// GPS track files are small and parsed in-process, so keep them in memory
+export const trackImportUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 50 * 1024 * 1024 },
+  fileFilter: (_req, file, cb) => {
+    const allowedTypes = ['.gpx', '.kml', '.kmz', '.geojson', '.json', '.fit'];
+    const fileExt = path.extname(file.originalname).toLowerCase();
+    if (allowedTypes.includes(fileExt)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Supported: GPX, KML, KMZ, GeoJSON, FIT.'));
+    }
+  }
+});
+
 // Re-export directory paths for route files that need them
 export { waypointPhotoDir, routePhotoDir, tilesetUploadDir };
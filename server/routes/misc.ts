@@ -2,122 +2,8 @@ import type { Express, Request, Response } from "express";
 import { storage as dbStorage } from "../storage";
 import { isAuthenticated } from "./middleware";
 import { parseId } from "./utils";
-
-// ========================================
-// Outdoor POI caching logic
-// ========================================
-
-const outdoorPoiCache = new Map<string, { data: any; timestamp: number }>();
-const POI_CACHE_TTL = 24 * 60 * 60 * 1000;
-const POI_CACHE_MAX = 200;
-
-function evictOldestCacheEntries() {
-  if (outdoorPoiCache.size <= POI_CACHE_MAX) return;
-  const entries = Array.from(outdoorPoiCache.entries()).sort((a, b) => a[1].timestamp - b[1].timestamp);
-  const toRemove = entries.slice(0, entries.length - POI_CACHE_MAX);
-  for (const [key] of toRemove) {
-    outdoorPoiCache.delete(key);
-  }
-}
-
-function buildOverpassQuery(south: number, west: number, north: number, east: number): string {
-  const bbox = `${south},${west},${north},${east}`;
-  return `[out:json][timeout:30];
-(
-  node["tourism"="camp_site"](${bbox});
-  way["tourism"="camp_site"](${bbox});
-  node["tourism"="camp_pitch"]["name"](${bbox});
-  node["tourism"="alpine_hut"](${bbox});
-  way["tourism"="alpine_hut"](${bbox});
-  node["tourism"="wilderness_hut"](${bbox});
-  way["tourism"="wilderness_hut"](${bbox});
-  node["amenity"="shelter"](${bbox});
-  way["amenity"="shelter"](${bbox});
-  node["amenity"="drinking_water"](${bbox});
-  node["natural"="spring"]["name"](${bbox});
-  node["highway"="trailhead"](${bbox});
-  node["information"="guidepost"]["name"](${bbox});
-  node["backcountry"="yes"](${bbox});
-);
-out center;`;
-}
-
-function classifyPoi(tags: Record<string, string>): { category: string; type: string } {
-  if (tags.tourism === 'camp_site' || tags.tourism === 'camp_pitch') {
-    if (tags.backcountry === 'yes' || tags.tents === 'yes') {
-      return { category: 'campsite', type: 'backcountry' };
-    }
-    return { category: 'campsite', type: tags.tourism === 'camp_pitch' ? 'camp_pitch' : 'camp_site' };
-  }
-  if (tags.tourism === 'alpine_hut') return { category: 'shelter', type: 'alpine_hut' };
-  if (tags.tourism === 'wilderness_hut') return { category: 'shelter', type: 'wilderness_hut' };
-  if (tags.amenity === 'shelter') return { category: 'shelter', type: 'shelter' };
-  if (tags.amenity === 'drinking_water') return { category: 'water', type: 'drinking_water' };
-  if (tags.natural === 'spring') return { category: 'water', type: 'spring' };
-  if (tags.highway === 'trailhead') return { category: 'trailhead', type: 'trailhead' };
-  if (tags.information === 'guidepost') return { category: 'guidepost', type: 'guidepost' };
-  if (tags.backcountry === 'yes') return { category: 'campsite', type: 'backcountry' };
-  return { category: 'other', type: 'unknown' };
-}
-
-function transformOsmElement(el: any): any {
-  const tags = el.tags || {};
-  const { category, type } = classifyPoi(tags);
-  const lat = el.lat ?? el.center?.lat;
-  const lon = el.lon ?? el.center?.lon;
-  if (lat == null || lon == null) return null;
-
-  return {
-    id: el.id,
-    lat,
-    lon,
-    category,
-    type,
-    name: tags.name || null,
-    elevation: tags.ele ? parseFloat(tags.ele) : null,
-    capacity: tags.capacity ? parseInt(tags.capacity, 10) : null,
-    operator: tags.operator || null,
-    fee: tags.fee === 'yes' ? true : tags.fee === 'no' ? false : null,
-    amenities: [
-      tags.drinking_water === 'yes' && 'drinking_water',
-      tags.toilets === 'yes' && 'toilets',
-      tags.shower === 'yes' && 'shower',
-      tags.fireplace === 'yes' && 'fireplace',
-      tags.bbq === 'yes' && 'bbq',
-      tags.picnic_table === 'yes' && 'picnic_table',
-      tags.internet_access === 'yes' && 'internet',
-    ].filter(Boolean),
-    website: tags.website || tags['contact:website'] || null,
-    phone: tags.phone || tags['contact:phone'] || null,
-    description: tags.description || null,
-    openingHours: tags.opening_hours || null,
-    access: tags.access || null,
-  };
-}
-
-async function fetchOverpass(query: string): Promise<any> {
-  const endpoints = [
-    'https://overpass-api.de/api/interpreter',
-    'https://overpass.kumi.systems/api/interpreter',
-  ];
-
-  const fetchFromEndpoint = async (url: string): Promise<any> => {
-    const resp = await fetch(url, {
-      method: 'POST',
-      body: `data=${encodeURIComponent(query)}`,
-      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-      signal: AbortSignal.timeout(20000),
-    });
-    if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
-    return await resp.json();
-  };
-
-  try {
-    return await Promise.any(endpoints.map(fetchFromEndpoint));
-  } catch {
-    throw new Error('All Overpass API endpoints failed');
-  }
-}
+import { getDemElevations, lookupElevations, ElevationServiceError } from "../demElevation";
+import { fetchOutdoorPois } from "../outdoorPois";
 
 // ========================================
 // Register misc routes
@@ -207,7 +93,7 @@ export function registerMiscRoutes(app: Express) {
     }
 
     try {
-      const { message, activityType, mapCenter, mapZoom, conversationHistory, existingRoute } = req.body;
+      const { message, activityType, mapCenter, mapZoom, conversationId, conversationHistory, existingRoute } = req.body;
 
       if (!message || typeof message !== 'string' || message.trim().length === 0) {
         return res.status(400).json({ message: "Message is required" });
@@ -217,18 +103,31 @@ export function registerMiscRoutes(app: Express) {
         return res.status(400).json({ message: "Map center coordinates required" });
       }
 
-      const { processRouteAssistRequest } = await import('../aiRouteAssist');
-
-      const result = await processRouteAssistRequest({
-        message: message.trim(),
-        activityType: activityType || 'general',
-        mapCenter,
-        mapZoom: mapZoom || 12,
-        conversationHistory: conversationHistory || [],
-        existingRoute: existingRoute || undefined,
-      }, dbStorage);
+      if (conversationId !== undefined && conversationId !== null && !parseId(String(conversationId))) {
+        return res.status(400).json({ message: "Invalid conversation ID" });
+      }
 
-      return res.json(result);
+      const { processRouteAssistRequest, ConversationNotFoundError } = await import('../aiRouteAssist');
+
+      try {
+        const result = await processRouteAssistRequest({
+          message: message.trim(),
+          activityType: activityType || 'general',
+          mapCenter,
+          mapZoom: mapZoom || 12,
+          conversationId: conversationId ? Number(conversationId) : undefined,
+          conversationHistory: Array.isArray(conversationHistory) ? conversationHistory : [],
+          existingRoute: existingRoute || undefined,
+          userId: (req.user as any)?.id,
+        }, dbStorage);
+
+        return res.json(result);
+      } catch (error) {
+        if (error instanceof ConversationNotFoundError) {
+          return res.status(404).json({ message: "Conversation not found" });
+        }
+        throw error;
+      }
     } catch (error) {
       console.error('AI route assist error:', error);
       return res.status(500).json({
@@ -237,6 +136,55 @@ export function registerMiscRoutes(app: Express) {
     }
   });
 
+  // List the user's stored assistant conversations, newest first
+  app.get("/api/ai/conversations", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const conversations = await dbStorage.getAiConversationsByUser(req.user!.id);
+      res.json(conversations.map(({ messages, ...conversation }) => conversation));
+    } catch (error) {
+      console.error('Error fetching AI conversations:', error);
+      res.status(500).json({ error: "Failed to fetch conversations" });
+    }
+  });
+
+  app.get("/api/ai/conversations/:id", isAuthenticated, async (req: Request, res: Response) => {
+    const conversationId = parseId(req.params.id);
+    if (!conversationId) {
+      return res.status(400).json({ message: "Invalid ID" });
+    }
+
+    try {
+      const { getRouteAssistConversation } = await import('../aiRouteAssist');
+      const conversation = await getRouteAssistConversation(dbStorage, conversationId, req.user!.id);
+      if (!conversation) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+      res.json(conversation);
+    } catch (error) {
+      console.error('Error fetching AI conversation:', error);
+      res.status(500).json({ error: "Failed to fetch conversation" });
+    }
+  });
+
+  app.delete("/api/ai/conversations/:id", isAuthenticated, async (req: Request, res: Response) => {
+    const conversationId = parseId(req.params.id);
+    if (!conversationId) {
+      return res.status(400).json({ message: "Invalid ID" });
+    }
+
+    try {
+      const conversation = await dbStorage.getAiConversation(conversationId);
+      if (!conversation || conversation.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Conversation not found" });
+      }
+      await dbStorage.deleteAiConversation(conversationId);
+      res.json({ message: "Conversation deleted" });
+    } catch (error) {
+      console.error('Error deleting AI conversation:', error);
+      res.status(500).json({ error: "Failed to delete conversation" });
+    }
+  });
+
   // ========================================
   // Proxy Routes
   // ========================================
@@ -262,6 +210,15 @@ export function registerMiscRoutes(app: Express) {
     try {
       const { latitude, longitude } = req.query;
       if (!latitude || !longitude) return res.status(400).json({ error: "Missing latitude/longitude" });
+
+      // Uploaded survey DEMs beat the global dataset wherever they have coverage
+      const lat = Number(latitude);
+      const lng = Number(longitude);
+      if (Number.isFinite(lat) && Number.isFinite(lng)) {
+        const [demElevation] = await getDemElevations([[lng, lat]], (req.user as any)?.id);
+        if (demElevation !== null) return res.json({ elevation: [demElevation], source: 'drone-dem' });
+      }
+
       const response = await fetch(
         `https://api.open-meteo.com/v1/elevation?latitude=${latitude}&longitude=${longitude}`
       );
@@ -273,7 +230,7 @@ export function registerMiscRoutes(app: Express) {
     }
   });
 
-  // Batch elevation lookup using Open-Meteo DEM data (much more accurate than Mapbox contour tilequery)
+  // Batch elevation lookup using uploaded drone DEMs and Open-Meteo DEM data (much more accurate than Mapbox contour tilequery)
   app.post("/api/proxy/elevation/batch", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const { coordinates } = req.body;
@@ -281,29 +238,13 @@ export function registerMiscRoutes(app: Express) {
         return res.status(400).json({ error: "Missing or empty coordinates array" });
       }
 
-      // Open-Meteo supports up to 100 points per request
-      const maxPerRequest = 100;
-      const allElevations: number[] = [];
-
-      for (let i = 0; i < coordinates.length; i += maxPerRequest) {
-        const batch = coordinates.slice(i, i + maxPerRequest);
-        const latitudes = batch.map((c: [number, number]) => c[1].toFixed(6)).join(',');
-        const longitudes = batch.map((c: [number, number]) => c[0].toFixed(6)).join(',');
-
-        const response = await fetch(
-          `https://api.open-meteo.com/v1/elevation?latitude=${latitudes}&longitude=${longitudes}`
-        );
-
-        if (!response.ok) {
-          return res.status(502).json({ error: `Open-Meteo API error: ${response.status}` });
-        }
-
-        const data = await response.json();
-        allElevations.push(...(data.elevation || []));
-      }
-
-      res.json({ elevation: allElevations });
+      // Points inside an uploaded DEM are answered locally; only the rest go to Open-Meteo
+      const { elevations, source } = await lookupElevations(coordinates, (req.user as any)?.id);
+      res.json({ elevation: elevations, source });
     } catch (error) {
+      if (error instanceof ElevationServiceError) {
+        return res.status(502).json({ error: error.message });
+      }
       console.error('Batch elevation proxy error:', error);
       res.status(500).json({ error: "Failed to fetch batch elevation data" });
     }
@@ -333,25 +274,7 @@ export function registerMiscRoutes(app: Express) {
         return res.status(400).json({ error: "Query area too large. Max ~0.5 degrees (~50km) per side." });
       }
 
-      const cacheKey = `${south.toFixed(3)},${west.toFixed(3)},${north.toFixed(3)},${east.toFixed(3)}`;
-      const cached = outdoorPoiCache.get(cacheKey);
-      if (cached && Date.now() - cached.timestamp < POI_CACHE_TTL) {
-        return res.json(cached.data);
-      }
-
-      const query = buildOverpassQuery(south, west, north, east);
-      const osmData = await fetchOverpass(query);
-
-      const pois = (osmData.elements || [])
-        .map(transformOsmElement)
-        .filter((p: any) => p !== null);
-
-      const result = { pois, count: pois.length };
-
-      outdoorPoiCache.set(cacheKey, { data: result, timestamp: Date.now() });
-      evictOldestCacheEntries();
-
-      return res.json(result);
+      return res.json(await fetchOutdoorPois(south, west, north, east));
     } catch (error) {
       console.error('Outdoor POI fetch error:', error);
       return res.status(500).json({ error: "Failed to fetch outdoor POIs" });
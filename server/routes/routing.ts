@@ -1,11 +1,55 @@
 import type { Express, Request, Response } from "express";
+import { z } from "zod";
 import { storage as dbStorage } from "../storage";
-import { isAuthenticated, waypointPhotoUpload, routePhotoUpload, waypointPhotoDir, routePhotoDir } from "./middleware";
+import { isAuthenticated, isAdmin, waypointPhotoUpload, routePhotoUpload, waypointPhotoDir, routePhotoDir } from "./middleware";
 import { validateRequest, parseId, safePath } from "./utils";
 import { insertRouteSchema } from "@shared/schema";
+import { buildExport, routeToExportDocument, exportFilename, EXPORT_FORMATS, EXPORT_CONTENT_TYPES, type ExportFormat } from "../geoExport";
+import { estimateTravelTime, parsePath, parseWaypoints, TRAVEL_MODES, type TravelMode } from "../travelTime";
+import { ElevationServiceError } from "../demElevation";
+import { checkRouteSlopes } from "../terrainAnalysis";
+import { costProfileOverridesSchema } from "../trailCostProfiles";
+import { getTrailGraphCacheStats, listTrailRegions, getTrailRegion, createTrailRegion, deleteTrailRegion, TRAIL_EXTRACTS_DIR } from "../trailGraphStore";
+import { enqueueTrailRegionSeedJob } from "../jobHandlers";
+import { getActiveJob, cancelJob } from "../jobQueue";
 import path from "path";
 import fs from "fs";
 
+const trailRegionSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  sourceFile: z.string().trim().regex(/\.osm\.pbf$/, "Choose an .osm.pbf extract"),
+  bounds: z.object({
+    south: z.number().finite().min(-90).max(90),
+    west: z.number().finite().min(-180).max(180),
+    north: z.number().finite().min(-90).max(90),
+    east: z.number().finite().min(-180).max(180),
+  }).refine(b => b.north > b.south && b.east > b.west, { message: "North and east must be greater than south and west" })
+    .nullish(),
+});
+
+const loopRouteSchema = z.object({
+  start: z.tuple([z.number().finite().min(-180).max(180), z.number().finite().min(-90).max(90)]),
+  profile: z.string().default('foot-hiking'),
+  targetDistance: z.number().finite().min(500).max(50000).optional(),
+  targetClimb: z.number().finite().min(10).max(3000).optional(),
+  shapes: z.array(z.enum(['loop', 'out_and_back'])).max(2).optional(),
+  count: z.number().int().min(1).max(10).optional(),
+  costProfile: costProfileOverridesSchema.optional(),
+}).refine(body => body.targetDistance !== undefined || body.targetClimb !== undefined, {
+  message: "Give a targetDistance (meters), a targetClimb (meters), or both",
+});
+
+// .osm.pbf files admins can seed regions from
+function listTrailExtracts(): { file: string; sizeInMB: number }[] {
+  try {
+    return fs.readdirSync(TRAIL_EXTRACTS_DIR)
+      .filter(file => file.endsWith('.osm.pbf'))
+      .map(file => ({ file, sizeInMB: Math.round(fs.statSync(path.join(TRAIL_EXTRACTS_DIR, file)).size / 1024 / 1024) }));
+  } catch {
+    return [];
+  }
+}
+
 export async function registerRoutingRoutes(app: Express) {
   // Create a new route
   app.post("/api/routes", isAuthenticated, async (req, res) => {
@@ -285,6 +329,129 @@ export async function registerRoutingRoutes(app: Express) {
     }
   });
 
+  // Export a route as GPX, KML or GeoJSON
+  app.get("/api/routes/:id/export", isAuthenticated, async (req, res) => {
+    const routeId = parseId(req.params.id);
+    if (!routeId) {
+      return res.status(400).json({ message: "Invalid ID" });
+    }
+    const user = req.user as any;
+
+    const format = String(req.query.format || 'gpx').toLowerCase() as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ message: `Invalid format. Allowed: ${EXPORT_FORMATS.join(', ')}` });
+    }
+
+    try {
+      const route = await dbStorage.getRoute(routeId);
+      if (!route) {
+        return res.status(404).json({ message: "Route not found" });
+      }
+
+      const isOwner = route.userId === user.id;
+      const isShared = await dbStorage.isRouteSharedWithUser(routeId, user.id);
+
+      if (!isOwner && !isShared && !route.isPublic) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+
+      const pois = await dbStorage.getRoutePointsOfInterest(routeId);
+      const body = buildExport(routeToExportDocument(route, pois), format);
+
+      res.setHeader('Content-Type', `${EXPORT_CONTENT_TYPES[format]}; charset=utf-8`);
+      res.setHeader('Content-Disposition', `attachment; filename="${exportFilename(route.name, format)}"`);
+      return res.status(200).send(body);
+    } catch (error) {
+      console.error('Error exporting route:', error);
+      return res.status(500).json({ message: "Error exporting route" });
+    }
+  });
+
+  // Terrain-aware travel time with per-leg splits between waypoints
+  app.get("/api/routes/:id/travel-time", isAuthenticated, async (req, res) => {
+    const routeId = parseId(req.params.id);
+    if (!routeId) {
+      return res.status(400).json({ message: "Invalid ID" });
+    }
+    const user = req.user as any;
+
+    const mode = String(req.query.mode || 'hiking') as TravelMode;
+    if (!TRAVEL_MODES.includes(mode)) {
+      return res.status(400).json({ message: `Invalid mode. Allowed: ${TRAVEL_MODES.join(', ')}` });
+    }
+
+    try {
+      const route = await dbStorage.getRoute(routeId);
+      if (!route) {
+        return res.status(404).json({ message: "Route not found" });
+      }
+
+      const isOwner = route.userId === user.id;
+      const isShared = await dbStorage.isRouteSharedWithUser(routeId, user.id);
+
+      if (!isOwner && !isShared && !route.isPublic) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+
+      const estimate = await estimateTravelTime({
+        path: parsePath(route.pathCoordinates),
+        waypoints: parseWaypoints(route.waypointCoordinates),
+        mode,
+        userId: user.id,
+        calibrate: req.query.calibrate !== 'false',
+      });
+      if (!estimate) {
+        return res.status(422).json({ message: "Route path is too short to estimate" });
+      }
+
+      return res.status(200).json(estimate);
+    } catch (error) {
+      if (error instanceof ElevationServiceError) {
+        return res.status(502).json({ message: error.message });
+      }
+      console.error('Error estimating travel time:', error);
+      return res.status(500).json({ message: "Error estimating travel time" });
+    }
+  });
+
+  // Stretches of the route crossing avalanche-angle terrain (30°+ by default)
+  app.get("/api/routes/:id/slope-check", isAuthenticated, async (req, res) => {
+    const routeId = parseId(req.params.id);
+    if (!routeId) {
+      return res.status(400).json({ message: "Invalid ID" });
+    }
+    const user = req.user as any;
+
+    const threshold = req.query.threshold !== undefined ? Number(req.query.threshold) : 30;
+    if (!Number.isFinite(threshold) || threshold < 20 || threshold > 60) {
+      return res.status(400).json({ message: "threshold must be between 20 and 60 degrees" });
+    }
+
+    try {
+      const route = await dbStorage.getRoute(routeId);
+      if (!route) {
+        return res.status(404).json({ message: "Route not found" });
+      }
+
+      const isOwner = route.userId === user.id;
+      const isShared = await dbStorage.isRouteSharedWithUser(routeId, user.id);
+
+      if (!isOwner && !isShared && !route.isPublic) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+
+      const path = parsePath(route.pathCoordinates).map(p => [p.lng, p.lat] as [number, number]);
+      if (path.length < 2) {
+        return res.status(422).json({ message: "Route path is too short to check" });
+      }
+
+      return res.status(200).json(await checkRouteSlopes(path, threshold));
+    } catch (error) {
+      console.error('Error checking route slopes:', error);
+      return res.status(502).json({ message: "Error checking route slopes" });
+    }
+  });
+
   app.delete("/api/routes/:id", isAuthenticated, async (req, res) => {
     const routeId = parseId(req.params.id);
     if (!routeId) {
@@ -939,7 +1106,7 @@ export async function registerRoutingRoutes(app: Express) {
   });
 
   // Trail routing endpoints
-  const { calculateTrailRoute, getTrailStats, ALLOWED_PROFILES } = await import('../trailRouting');
+  const { calculateTrailRoute, generateLoopRoutes, getTrailStats, ALLOWED_PROFILES } = await import('../trailRouting');
   type ActivityProfile = typeof ALLOWED_PROFILES[number];
 
   app.post("/api/ors/hiking-route", isAuthenticated, async (req: Request, res: Response) => {
@@ -1164,10 +1331,26 @@ export async function registerRoutingRoutes(app: Express) {
     }
   });
 
-  // Calculate shortest path route on trails
+  // Calculate the least-effort route on trails, optionally with alternatives
   app.post("/api/trails/route", async (req, res) => {
     try {
-      const { waypoints } = req.body;
+      const { waypoints, profile = 'foot-hiking', costProfile, alternatives } = req.body;
+
+      if (!ALLOWED_PROFILES.includes(profile)) {
+        return res.status(400).json({
+          success: false,
+          message: `Invalid profile. Allowed: ${ALLOWED_PROFILES.join(', ')}`
+        });
+      }
+
+      const costValidation = validateRequest(costProfileOverridesSchema, costProfile ?? {});
+      if (!costValidation.success) {
+        return res.status(400).json({ success: false, message: `Invalid costProfile: ${costValidation.error}` });
+      }
+
+      if (alternatives !== undefined && (!Number.isInteger(alternatives) || alternatives < 0 || alternatives > 3)) {
+        return res.status(400).json({ success: false, message: "alternatives must be an integer from 0 to 3" });
+      }
 
       if (!waypoints || !Array.isArray(waypoints) || waypoints.length < 2) {
         return res.status(400).json({
@@ -1187,9 +1370,9 @@ export async function registerRoutingRoutes(app: Express) {
         }
       }
 
-      const result = await calculateTrailRoute(waypoints);
+      const result = await calculateTrailRoute(waypoints, profile, { cost: costValidation.data, alternatives });
 
-      return res.json(result);
+      return res.json({ ...result, profile });
     } catch (error) {
       console.error('Trail routing error:', error);
       return res.status(500).json({
@@ -1199,6 +1382,42 @@ export async function registerRoutingRoutes(app: Express) {
     }
   });
 
+  // Propose loops and out-and-backs from a start point for a target distance and/or climb
+  app.post("/api/trails/loops", isAuthenticated, async (req, res) => {
+    try {
+      const validation = validateRequest(loopRouteSchema, req.body);
+      if (!validation.success) {
+        return res.status(400).json({ success: false, message: validation.error });
+      }
+      const { start, profile, targetDistance, targetClimb, shapes, count, costProfile } = validation.data!;
+
+      if (!ALLOWED_PROFILES.includes(profile as ActivityProfile)) {
+        return res.status(400).json({
+          success: false,
+          message: `Invalid profile. Allowed: ${ALLOWED_PROFILES.join(', ')}`
+        });
+      }
+
+      const result = await generateLoopRoutes({
+        start,
+        profile: profile as ActivityProfile,
+        targetDistance,
+        targetClimb,
+        shapes,
+        count,
+        cost: costProfile
+      });
+
+      return res.json({ ...result, profile });
+    } catch (error) {
+      console.error('Loop generation error:', error);
+      return res.status(500).json({
+        success: false,
+        message: `Loop generation error: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+    }
+  });
+
   // Get trail statistics for an area
   app.get("/api/trails/stats", async (req, res) => {
     try {
@@ -1228,6 +1447,97 @@ export async function registerRoutingRoutes(app: Express) {
     }
   });
 
+  // Shared trail graph cache: cached cells, seeded regions and hit rates
+  app.get("/api/trails/cache-stats", isAuthenticated, async (req, res) => {
+    try {
+      const stats = await getTrailGraphCacheStats();
+      return res.json({ success: true, ...stats });
+    } catch (error) {
+      console.error('Trail cache stats error:', error);
+      return res.status(500).json({ success: false, message: "Failed to get trail cache stats" });
+    }
+  });
+
+  // ============================================
+  // Trail regions seeded from local .osm.pbf extracts
+  // ============================================
+  app.get("/api/admin/trails/regions", isAdmin, async (req, res) => {
+    try {
+      const regions = await listTrailRegions();
+      return res.json({ regions, extracts: listTrailExtracts(), extractsDir: TRAIL_EXTRACTS_DIR });
+    } catch (error) {
+      console.error('Error listing trail regions:', error);
+      return res.status(500).json({ message: "Error listing trail regions" });
+    }
+  });
+
+  app.post("/api/admin/trails/regions", isAdmin, async (req, res) => {
+    const validation = validateRequest(trailRegionSchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json({ message: validation.error });
+    }
+
+    const { name, sourceFile, bounds } = validation.data!;
+    const filePath = safePath(TRAIL_EXTRACTS_DIR, sourceFile);
+    if (!filePath || !fs.existsSync(filePath)) {
+      return res.status(400).json({ message: `Extract not found in ${TRAIL_EXTRACTS_DIR}` });
+    }
+
+    try {
+      const user = req.user as any;
+      const region = await createTrailRegion({
+        name,
+        sourceFile: path.basename(filePath),
+        south: bounds ? String(bounds.south) : null,
+        west: bounds ? String(bounds.west) : null,
+        north: bounds ? String(bounds.north) : null,
+        east: bounds ? String(bounds.east) : null,
+        createdBy: user.id,
+      });
+      const job = await enqueueTrailRegionSeedJob(region.id);
+      return res.status(201).json({ region, jobId: job.id });
+    } catch (error) {
+      console.error('Error creating trail region:', error);
+      return res.status(500).json({ message: "Error creating trail region" });
+    }
+  });
+
+  // Re-read a region's extract, e.g. after replacing the file with a newer download
+  app.post("/api/admin/trails/regions/:id/seed", isAdmin, async (req, res) => {
+    const regionId = parseId(req.params.id);
+    if (!regionId) {
+      return res.status(400).json({ message: "Invalid ID" });
+    }
+
+    try {
+      const region = await getTrailRegion(regionId);
+      if (!region) return res.status(404).json({ message: "Trail region not found" });
+      const job = await enqueueTrailRegionSeedJob(region.id);
+      return res.json({ message: "Seeding queued", regionId: region.id, jobId: job.id });
+    } catch (error) {
+      console.error('Error queueing trail region seed:', error);
+      return res.status(500).json({ message: "Error queueing trail region seed" });
+    }
+  });
+
+  app.delete("/api/admin/trails/regions/:id", isAdmin, async (req, res) => {
+    const regionId = parseId(req.params.id);
+    if (!regionId) {
+      return res.status(400).json({ message: "Invalid ID" });
+    }
+
+    try {
+      const activeJob = await getActiveJob('trail_region_seed', regionId);
+      if (activeJob) await cancelJob(activeJob.id);
+      const deleted = await deleteTrailRegion(regionId);
+      if (!deleted) return res.status(404).json({ message: "Trail region not found" });
+      return res.json({ message: "Trail region deleted" });
+    } catch (error) {
+      console.error('Error deleting trail region:', error);
+      return res.status(500).json({ message: "Error deleting trail region" });
+    }
+  });
+
   // ============================================
   // Fetch real hiking trail data for an area
   // Used to give AI knowledge of actual trails
@@ -0,0 +1,258 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { storage as dbStorage } from "../storage";
+import { isAuthenticated } from "./middleware";
+import { validateRequest, parseId } from "./utils";
+import {
+  backfillSegment,
+  buildLeaderboard,
+  canViewEffort,
+  canViewSegment,
+  personalRank,
+  segmentMeasurements,
+  segmentViewer,
+  MAX_SEGMENT_METERS,
+  MIN_SEGMENT_METERS,
+} from "../segments";
+
+const coordinate = z
+  .tuple([z.number().finite().min(-180).max(180), z.number().finite().min(-90).max(90)])
+  .rest(z.number().finite());
+
+const createSegmentSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  activityType: z.enum(['run', 'ski', 'hike', 'bike']).optional().nullable(),
+  coordinates: z.array(coordinate).min(2, "A segment needs at least 2 points").max(5000),
+  sourceActivityId: z.number().int().positive().optional().nullable(),
+  sourceRouteId: z.number().int().positive().optional().nullable(),
+});
+
+export function registerSegmentRoutes(app: Express) {
+  // Create a segment from part of a route or activity, then time existing activities on it
+  app.post("/api/segments", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const user = req.user as any;
+
+      const validation = validateRequest(createSegmentSchema, req.body);
+      if (!validation.success || !validation.data) {
+        return res.status(400).json({ error: validation.error || "Invalid data" });
+      }
+      const data = validation.data;
+
+      // The source must be one the user can see
+      if (data.sourceActivityId) {
+        const activity = await dbStorage.getActivity(data.sourceActivityId);
+        if (!activity) {
+          return res.status(404).json({ error: "Activity not found" });
+        }
+        if (activity.userId !== user.id && !activity.isPublic) {
+          return res.status(403).json({ error: "Access denied" });
+        }
+      }
+      if (data.sourceRouteId) {
+        const route = await dbStorage.getRoute(data.sourceRouteId);
+        if (!route) {
+          return res.status(404).json({ error: "Route not found" });
+        }
+        if (route.userId !== user.id && !route.isPublic) {
+          return res.status(403).json({ error: "Access denied" });
+        }
+      }
+
+      const { distanceMeters, elevationGainMeters } = segmentMeasurements(data.coordinates);
+      if (distanceMeters < MIN_SEGMENT_METERS || distanceMeters > MAX_SEGMENT_METERS) {
+        return res.status(400).json({
+          error: `A segment must be between ${MIN_SEGMENT_METERS} m and ${MAX_SEGMENT_METERS / 1000} km long`,
+        });
+      }
+
+      const segment = await dbStorage.createSegment({
+        userId: user.id,
+        name: data.name,
+        activityType: data.activityType ?? null,
+        pathCoordinates: JSON.stringify(data.coordinates),
+        distanceMeters: distanceMeters.toFixed(2),
+        elevationGainMeters: elevationGainMeters !== null ? elevationGainMeters.toFixed(2) : null,
+        sourceActivityId: data.sourceActivityId ?? null,
+        sourceRouteId: data.sourceRouteId ?? null,
+      });
+
+      // The segment stands even if matching older activities fails
+      let effortCount = 0;
+      try {
+        effortCount = await backfillSegment(segment);
+      } catch (error) {
+        console.error(`Matching activities to segment ${segment.id} failed:`, error);
+      }
+
+      res.status(201).json({ ...segment, effortCount });
+    } catch (error) {
+      console.error('Error creating segment:', error);
+      res.status(500).json({ error: "Failed to create segment" });
+    }
+  });
+
+  // A segment with the viewer's friend leaderboard and their own effort history
+  app.get("/api/segments/:id", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const user = req.user as any;
+      const segmentId = parseId(req.params.id);
+
+      if (!segmentId) {
+        return res.status(400).json({ error: "Invalid segment ID" });
+      }
+
+      const segment = await dbStorage.getSegment(segmentId);
+
+      if (!segment) {
+        return res.status(404).json({ error: "Segment not found" });
+      }
+
+      const viewer = await segmentViewer(user.id);
+      if (!canViewSegment(viewer, segment)) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const efforts = (await dbStorage.getSegmentEffortsBySegment(segmentId)).filter(e => canViewEffort(viewer, e));
+      const history = efforts
+        .filter(e => e.userId === user.id)
+        .map(e => ({ ...e, personalRank: personalRank(e, efforts) }))
+        .sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime());
+
+      res.json({
+        segment: { ...segment, isOwner: segment.userId === user.id },
+        leaderboard: buildLeaderboard(efforts),
+        efforts: history,
+      });
+    } catch (error) {
+      console.error('Error fetching segment:', error);
+      res.status(500).json({ error: "Failed to fetch segment" });
+    }
+  });
+
+  // Delete a segment and its efforts (creator only)
+  app.delete("/api/segments/:id", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const user = req.user as any;
+      const segmentId = parseId(req.params.id);
+
+      if (!segmentId) {
+        return res.status(400).json({ error: "Invalid segment ID" });
+      }
+
+      const segment = await dbStorage.getSegment(segmentId);
+
+      if (!segment) {
+        return res.status(404).json({ error: "Segment not found" });
+      }
+
+      if (segment.userId !== user.id) {
+        return res.status(403).json({ error: "Not authorized to delete this segment" });
+      }
+
+      await dbStorage.deleteSegment(segmentId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting segment:', error);
+      res.status(500).json({ error: "Failed to delete segment" });
+    }
+  });
+
+  // Segment efforts in an activity, with personal and leaderboard ranks
+  app.get("/api/activities/:id/segments", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const user = req.user as any;
+      const activityId = parseId(req.params.id);
+
+      if (!activityId) {
+        return res.status(400).json({ error: "Invalid activity ID" });
+      }
+
+      const activity = await dbStorage.getActivity(activityId);
+
+      if (!activity) {
+        return res.status(404).json({ error: "Activity not found" });
+      }
+
+      if (activity.userId !== user.id && !activity.isPublic) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const viewer = await segmentViewer(user.id);
+      const efforts = (await dbStorage.getSegmentEffortsByActivity(activityId)).filter(e => canViewEffort(viewer, e));
+      const segments = (await dbStorage.getSegmentsByIds(Array.from(new Set(efforts.map(e => e.segmentId)))))
+        .filter(s => canViewSegment(viewer, s));
+
+      const results = [];
+      for (const segment of segments) {
+        const segmentEfforts = (await dbStorage.getSegmentEffortsBySegment(segment.id)).filter(e => canViewEffort(viewer, e));
+        const leaderboard = buildLeaderboard(segmentEfforts);
+        for (const effort of efforts.filter(e => e.segmentId === segment.id)) {
+          const rank = personalRank(effort, segmentEfforts);
+          results.push({
+            effort,
+            segment,
+            personalRank: rank,
+            personalEffortCount: segmentEfforts.filter(e => e.userId === effort.userId).length,
+            isPersonalRecord: rank === 1,
+            // Only an athlete's best effort holds their place on the leaderboard
+            leaderboardRank: leaderboard.find(entry => entry.effortId === effort.id)?.rank ?? null,
+            leaderboardSize: leaderboard.length,
+          });
+        }
+      }
+      results.sort((a, b) => new Date(a.effort.startTime).getTime() - new Date(b.effort.startTime).getTime());
+
+      res.json(results);
+    } catch (error) {
+      console.error('Error fetching activity segments:', error);
+      res.status(500).json({ error: "Failed to fetch activity segments" });
+    }
+  });
+
+  // Personal records on a profile, following the same friend rules as the profile itself
+  app.get("/api/profiles/:username/segment-records", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const user = req.user as any;
+      const profileUser = await dbStorage.getUserByUsername(req.params.username);
+
+      if (!profileUser) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const viewer = await segmentViewer(user.id);
+      const isOwner = profileUser.id === user.id;
+      if (!isOwner && !viewer.friendIds.has(profileUser.id)) {
+        return res.json([]);
+      }
+
+      const efforts = (await dbStorage.getSegmentEffortsByUser(profileUser.id)).filter(e => canViewEffort(viewer, e));
+      const ownSegments = isOwner ? await dbStorage.getSegmentsByUsers([profileUser.id]) : [];
+      const segmentIds = Array.from(new Set([...efforts.map(e => e.segmentId), ...ownSegments.map(s => s.id)]));
+      const segments = (await dbStorage.getSegmentsByIds(segmentIds)).filter(s => canViewSegment(viewer, s));
+
+      const records = [];
+      for (const segment of segments) {
+        const mine = efforts.filter(e => e.segmentId === segment.id);
+        const segmentEfforts = mine.length > 0
+          ? (await dbStorage.getSegmentEffortsBySegment(segment.id)).filter(e => canViewEffort(viewer, e))
+          : [];
+        const entry = buildLeaderboard(segmentEfforts).find(e => e.userId === profileUser.id);
+        records.push({
+          segment,
+          best: mine[0] ?? null, // efforts come fastest first
+          effortCount: mine.length,
+          leaderboardRank: entry?.rank ?? null,
+          leaderboardSize: new Set(segmentEfforts.map(e => e.userId)).size,
+          isCreator: segment.userId === profileUser.id,
+        });
+      }
+      records.sort((a, b) => a.segment.name.localeCompare(b.segment.name));
+
+      res.json(records);
+    } catch (error) {
+      console.error('Error fetching segment records:', error);
+      res.status(500).json({ error: "Failed to fetch segment records" });
+    }
+  });
+}
@@ -0,0 +1,38 @@
+import type { Express, Request, Response } from "express";
+import { isAuthenticated } from "./middleware";
+import { renderTerrainTile, TERRAIN_LAYERS, TERRAIN_MIN_ZOOM, TERRAIN_MAX_ZOOM, type TerrainLayer } from "../terrainAnalysis";
+import { emptyTile } from "../cogTiles";
+import { getCachedTile, putCachedTile, terrainTileCacheKey } from "../tileCache";
+
+export function registerTerrainRoutes(app: Express) {
+  // Slope-angle and aspect shading for avalanche terrain, as 256px PNG tiles
+  app.get("/api/terrain/:layer/:z/:x/:y.png", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const layer = req.params.layer as TerrainLayer;
+      const zoom = parseInt(req.params.z, 10);
+      const tileX = parseInt(req.params.x, 10);
+      const tileY = parseInt(req.params.y, 10);
+
+      if (!TERRAIN_LAYERS.includes(layer) || [zoom, tileX, tileY].some(n => isNaN(n) || n < 0)) {
+        return res.status(400).json({ message: "Invalid tile request" });
+      }
+      if (zoom < TERRAIN_MIN_ZOOM || zoom > TERRAIN_MAX_ZOOM || tileX >= 2 ** zoom || tileY >= 2 ** zoom) {
+        return res.status(400).json({ message: `Terrain tiles are available from z${TERRAIN_MIN_ZOOM} to z${TERRAIN_MAX_ZOOM}` });
+      }
+
+      const cacheKey = terrainTileCacheKey(layer, zoom, tileX, tileY);
+      let tileBuffer = await getCachedTile(cacheKey);
+      if (!tileBuffer) {
+        tileBuffer = await renderTerrainTile(layer, zoom, tileX, tileY);
+        if (tileBuffer) await putCachedTile(cacheKey, tileBuffer);
+      }
+
+      res.setHeader('Content-Type', 'image/png');
+      res.setHeader('Cache-Control', 'public, max-age=604800');
+      res.send(tileBuffer ?? await emptyTile('png'));
+    } catch (error) {
+      console.error('Error rendering terrain tile:', error);
+      res.status(502).json({ message: "Error rendering terrain tile" });
+    }
+  });
+}
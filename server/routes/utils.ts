@@ -1,8 +1,8 @@
 import { ZodError, type ZodSchema, type z } from "zod";
+import type { ServerMessage, SessionEvent } from "@shared/realtime";
 import { scrypt, randomBytes } from "crypto";
 import { promisify } from "util";
 import path from "path";
-import type { WebSocket } from "ws";
 
 const scryptAsync = promisify(scrypt);
 
@@ -41,21 +41,12 @@ export function safePath(baseDir: string, filename: string): string | null {
   return resolved;
 }
 
-// Define common projected CRS definitions for reprojection to WGS84
-export const EPSG_DEFINITIONS: Record<number, string> = {
-  6451: '+proj=tmerc +lat_0=41.66666666666666 +lon_0=-112.1666666666667 +k=0.9999473679999999 +x_0=200000.0001016002 +y_0=0 +ellps=GRS80 +units=us-ft +no_defs',
-  2241: '+proj=tmerc +lat_0=41.66666666666666 +lon_0=-112.1666666666667 +k=0.9999473679999999 +x_0=200000.0001016002 +y_0=0 +datum=NAD83 +units=us-ft +no_defs',
-  32612: '+proj=utm +zone=12 +datum=WGS84 +units=m +no_defs',
-  32613: '+proj=utm +zone=13 +datum=WGS84 +units=m +no_defs',
-  32155: '+proj=tmerc +lat_0=40.5 +lon_0=-105.1666666666667 +k=0.9999375 +x_0=200000 +y_0=0 +datum=NAD83 +units=m +no_defs',
-  6616: '+proj=tmerc +lat_0=40.5 +lon_0=-110.083333333333 +k=0.9999375 +x_0=800000.00001016 +y_0=100000.00001016 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=us-ft +no_defs',
-  6615: '+proj=tmerc +lat_0=40.5 +lon_0=-110.083333333333 +k=0.9999375 +x_0=800000 +y_0=100000 +ellps=GRS80 +units=m +no_defs',
-};
-
-// WebSocket state types for sharing between route files
+// WebSocket delivery shared between route files. Implemented by the realtime
+// hub, so these reach sockets on every server instance.
 export interface WebSocketState {
-  clients: Map<number, WebSocket>;
-  sessionRooms: Map<number, Set<number>>;
-  disconnectTimers: Map<string, NodeJS.Timeout>;
-  broadcastToSession: (sessionId: number, message: any) => void;
+  broadcastToSession: (sessionId: number, message: SessionEvent, options?: { excludeUserId?: number }) => void;
+  sendToUsers: (userIds: number[], message: ServerMessage) => void;
+  isInSession: (sessionId: number, userId: number) => boolean;
+  // Cancels a pending member:disconnected for a member still reporting in (e.g. background location)
+  touchSessionMember: (sessionId: number, userId: number) => void;
 }
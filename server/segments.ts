@@ -0,0 +1,387 @@
+import { cleanTrack, elevationChange } from './activityProcessing';
+import { haversineMeters } from './geo';
+import { storage as dbStorage, type SegmentEffortDetail } from './storage';
+import type { Activity, InsertSegmentEffort, Segment } from '@shared/schema';
+
+/**
+ * Segments: named stretches of trail, cut from a route or an activity, that
+ * every activity passing over them is timed on. An activity matches when it
+ * goes through a gate at the segment's start, then one at its end, covering
+ * about the segment's length and staying within a corridor of its path in
+ * between. Each pass becomes an effort; laps of a loop are separate efforts.
+ *
+ * Visibility follows the friendship rules of profiles: a segment is seen by
+ * its creator and the creator's friends, and an effort by its athlete and,
+ * when its activity is public, the athlete's friends. Leaderboards are
+ * therefore the viewer and their friends. Activities are matched against
+ * the segments of their owner and the owner's friends when saved, and a new
+ * segment is matched against the creator's and their friends' activities.
+ */
+
+export type LngLat = [number, number];
+
+export interface SegmentMatch {
+  startTime: number; // unix ms at the start gate
+  elapsedSeconds: number;
+  distanceMeters: number; // along the activity, gate to gate
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  userId: number;
+  username: string;
+  fullName: string | null;
+  effortId: number;
+  activityId: number;
+  activityName: string;
+  elapsedSeconds: number;
+  startTime: Date;
+  effortCount: number;
+}
+
+export interface SegmentViewer {
+  userId: number;
+  friendIds: Set<number>;
+}
+
+// A pass within this distance of the start or end point goes through its gate
+const GATE_RADIUS_METERS = 30;
+// Every stretch of the segment must have the activity within this distance
+const CORRIDOR_METERS = 35;
+// Share of the segment, sampled every SAMPLE_SPACING_METERS, that must be followed
+const MIN_COVERAGE = 0.9;
+const SAMPLE_SPACING_METERS = 20;
+// How far along the activity the next sample is looked for
+const SEARCH_AHEAD_METERS = 250;
+// Gate to gate distance relative to the segment; outside this it took another way
+const MIN_LENGTH_RATIO = 0.8;
+const MAX_LENGTH_RATIO = 1.5;
+
+export const MIN_SEGMENT_METERS = 100;
+export const MAX_SEGMENT_METERS = 50000;
+
+function cumulativeMeters(coords: LngLat[]): number[] {
+  const cumulative = [0];
+  for (let i = 1; i < coords.length; i++) {
+    const [lng1, lat1] = coords[i - 1];
+    const [lng2, lat2] = coords[i];
+    cumulative.push(cumulative[i - 1] + haversineMeters({ lat: lat1, lng: lng1 }, { lat: lat2, lng: lng2 }));
+  }
+  return cumulative;
+}
+
+function valueAt(values: number[], position: number): number {
+  const i = Math.floor(position);
+  if (i >= values.length - 1) return values[values.length - 1];
+  return values[i] + (values[i + 1] - values[i]) * (position - i);
+}
+
+// ========================================
+// Geometry
+// ========================================
+
+type XY = [number, number]; // meters east, north of an origin
+
+// Equirectangular projection around an origin; plenty for a few tens of km
+function projector(origin: LngLat): (c: LngLat) => XY {
+  const metersPerDegLat = 111320;
+  const metersPerDegLng = 111320 * Math.cos(origin[1] * Math.PI / 180);
+  return ([lng, lat]) => [(lng - origin[0]) * metersPerDegLng, (lat - origin[1]) * metersPerDegLat];
+}
+
+// Closest point on edge a-b to p: fraction along the edge and distance
+function projectOnEdge(p: XY, a: XY, b: XY): { t: number; distance: number } {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lengthSq)) : 0;
+  return { t, distance: Math.hypot(a[0] + t * dx - p[0], a[1] + t * dy - p[1]) };
+}
+
+// Points every `spacing` meters along a projected path, ends included
+function resample(path: XY[], spacing: number): XY[] {
+  const samples: XY[] = [path[0]];
+  let carried = 0;
+  for (let i = 1; i < path.length; i++) {
+    const length = Math.hypot(path[i][0] - path[i - 1][0], path[i][1] - path[i - 1][1]);
+    let along = spacing - carried;
+    while (along < length) {
+      const t = along / length;
+      samples.push([path[i - 1][0] + t * (path[i][0] - path[i - 1][0]), path[i - 1][1] + t * (path[i][1] - path[i - 1][1])]);
+      along += spacing;
+    }
+    carried = (carried + length) % spacing;
+  }
+  samples.push(path[path.length - 1]);
+  return samples;
+}
+
+/**
+ * Fractional positions where the path passes closest to a gate, one per pass
+ * through its radius.
+ */
+function gatePasses(points: XY[], gate: XY): number[] {
+  const passes: number[] = [];
+  let best: { position: number; distance: number } | null = null;
+  for (let i = 0; i < points.length - 1; i++) {
+    const { t, distance } = projectOnEdge(gate, points[i], points[i + 1]);
+    if (distance <= GATE_RADIUS_METERS) {
+      if (!best || distance < best.distance) best = { position: i + t, distance };
+    } else if (best) {
+      passes.push(best.position);
+      best = null;
+    }
+  }
+  if (best) passes.push(best.position);
+  return passes;
+}
+
+// Share of segment samples the activity passes within the corridor of, in order
+function coverage(points: XY[], cumulative: number[], from: number, to: number, samples: XY[]): number {
+  const last = Math.min(Math.ceil(to), points.length - 1);
+  let cursor = Math.floor(from);
+  let hits = 0;
+  for (const sample of samples) {
+    let bestDistance = Infinity;
+    let bestEdge = cursor;
+    for (let j = cursor; j < last; j++) {
+      if (cumulative[j] - cumulative[cursor] > SEARCH_AHEAD_METERS) break;
+      const { distance } = projectOnEdge(sample, points[j], points[j + 1]);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        bestEdge = j;
+      }
+    }
+    if (bestDistance <= CORRIDOR_METERS) {
+      hits++;
+      cursor = bestEdge;
+    }
+  }
+  return hits / samples.length;
+}
+
+/** Parse stored [[lng, lat(, ele)], ...] coordinates, dropping malformed entries. */
+export function parseSegmentPath(raw: string): number[][] {
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed)
+      ? parsed.filter((c): c is number[] => Array.isArray(c) && typeof c[0] === 'number' && typeof c[1] === 'number')
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Length and climb of a segment path; climb needs an elevation on every point. */
+export function segmentMeasurements(path: number[][]): { distanceMeters: number; elevationGainMeters: number | null } {
+  const distanceMeters = cumulativeMeters(path.map(c => [c[0], c[1]] as LngLat)).pop() ?? 0;
+  const elevations = path.map(c => c[2]);
+  const hasElevation = elevations.length >= 2 && elevations.every(e => typeof e === 'number' && Number.isFinite(e));
+  return {
+    distanceMeters,
+    // Segment paths come from elevation profiles, which use looked-up elevations
+    elevationGainMeters: hasElevation ? elevationChange(elevations, 'open-meteo').gain : null,
+  };
+}
+
+// ========================================
+// Matching
+// ========================================
+
+interface TimedTrack {
+  coords: LngLat[];
+  times: number[];
+  cumulative: number[];
+}
+
+/**
+ * An activity's path with a time on every point. The processed
+ * `pathCoordinates` line up with the cleaned track points; an activity that
+ * was never processed is matched on the cleaned points themselves.
+ */
+function timedTrack(activity: Activity): TimedTrack | null {
+  const { points } = cleanTrack(activity.trackPoints, activity.activityType);
+  if (points.length < 2) return null;
+
+  const path = parseSegmentPath(activity.pathCoordinates);
+  const coords: LngLat[] = path.length === points.length
+    ? path.map(c => [c[0], c[1]])
+    : points.map(p => [p.lng, p.lat]);
+  return { coords, times: points.map(p => p.time), cumulative: cumulativeMeters(coords) };
+}
+
+function boundsOverlap(a: LngLat[], b: LngLat[], marginMeters: number): boolean {
+  const bounds = (coords: LngLat[]) => coords.reduce(
+    (box, [lng, lat]) => [Math.min(box[0], lng), Math.min(box[1], lat), Math.max(box[2], lng), Math.max(box[3], lat)],
+    [Infinity, Infinity, -Infinity, -Infinity]
+  );
+  const [aw, as, ae, an] = bounds(a);
+  const [bw, bs, be, bn] = bounds(b);
+  const marginLat = marginMeters / 111320;
+  const marginLng = marginMeters / (111320 * Math.cos(((as + an) / 2) * Math.PI / 180));
+  return aw - marginLng <= be && bw <= ae + marginLng && as - marginLat <= bn && bs <= an + marginLat;
+}
+
+/**
+ * Every pass of a timed track over a segment path, in order. Passes do not
+ * overlap: after an effort the next one must start past its end gate.
+ */
+function findEfforts(track: TimedTrack, segmentPath: LngLat[]): SegmentMatch[] {
+  if (segmentPath.length < 2 || !boundsOverlap(track.coords, segmentPath, GATE_RADIUS_METERS)) return [];
+
+  const project = projector(segmentPath[0]);
+  const segmentXY = segmentPath.map(project);
+  const segmentLength = cumulativeMeters(segmentPath).pop() ?? 0;
+  if (segmentLength <= 0) return [];
+
+  const points = track.coords.map(project);
+  const samples = resample(segmentXY, SAMPLE_SPACING_METERS);
+  const starts = gatePasses(points, segmentXY[0]);
+  const ends = gatePasses(points, segmentXY[segmentXY.length - 1]);
+
+  const efforts: SegmentMatch[] = [];
+  let after = -1;
+  for (const start of starts) {
+    if (start < after) continue;
+    const startDistance = valueAt(track.cumulative, start);
+    for (const end of ends) {
+      if (end <= start) continue;
+      const distance = valueAt(track.cumulative, end) - startDistance;
+      if (distance < segmentLength * MIN_LENGTH_RATIO) continue;
+      if (distance > segmentLength * MAX_LENGTH_RATIO) break;
+      if (coverage(points, track.cumulative, start, end, samples) < MIN_COVERAGE) continue;
+
+      const startTime = valueAt(track.times, start);
+      efforts.push({
+        startTime,
+        elapsedSeconds: Math.round((valueAt(track.times, end) - startTime) / 1000),
+        distanceMeters: distance,
+      });
+      after = end;
+      break;
+    }
+  }
+  return efforts;
+}
+
+function segmentLngLats(segment: Segment): LngLat[] {
+  return parseSegmentPath(segment.pathCoordinates).map(c => [c[0], c[1]]);
+}
+
+function toInsertEffort(segment: Segment, activity: Activity, match: SegmentMatch): InsertSegmentEffort {
+  return {
+    segmentId: segment.id,
+    activityId: activity.id,
+    userId: activity.userId,
+    startTime: new Date(match.startTime),
+    elapsedSeconds: match.elapsedSeconds,
+    distanceMeters: match.distanceMeters.toFixed(2),
+    avgSpeedMps: match.elapsedSeconds > 0 ? (match.distanceMeters / match.elapsedSeconds).toFixed(4) : null,
+  };
+}
+
+function appliesTo(segment: Segment, activity: Activity): boolean {
+  return !segment.activityType || segment.activityType === activity.activityType;
+}
+
+async function friendIdsOf(userId: number): Promise<number[]> {
+  const friendships = await dbStorage.getFriendships(userId);
+  return friendships.map(f => f.friend.id);
+}
+
+/**
+ * Time an activity on the segments of its owner and the owner's friends,
+ * replacing any efforts it had before. Returns the number of efforts found.
+ */
+export async function matchActivitySegments(activity: Activity): Promise<number> {
+  const track = timedTrack(activity);
+  const candidates = track
+    ? (await dbStorage.getSegmentsByUsers([activity.userId, ...await friendIdsOf(activity.userId)])).filter(s => appliesTo(s, activity))
+    : [];
+
+  const efforts = candidates.flatMap(segment =>
+    findEfforts(track!, segmentLngLats(segment)).map(match => toInsertEffort(segment, activity, match))
+  );
+  await dbStorage.replaceActivitySegmentEfforts(activity.id, efforts);
+  return efforts.length;
+}
+
+/**
+ * Time a new segment on the existing activities of its creator and their
+ * friends. Activities are checked against the segment's bounds before their
+ * tracks are cleaned. Returns the number of efforts found.
+ */
+export async function backfillSegment(segment: Segment): Promise<number> {
+  const segmentPath = segmentLngLats(segment);
+  const activities = await dbStorage.getActivitiesByUsers([segment.userId, ...await friendIdsOf(segment.userId)]);
+
+  const efforts: InsertSegmentEffort[] = [];
+  for (const activity of activities) {
+    if (!appliesTo(segment, activity)) continue;
+    const path = parseSegmentPath(activity.pathCoordinates).map(c => [c[0], c[1]] as LngLat);
+    if (path.length < 2 || !boundsOverlap(path, segmentPath, GATE_RADIUS_METERS)) continue;
+
+    const track = timedTrack(activity);
+    if (!track) continue;
+    for (const match of findEfforts(track, segmentPath)) {
+      efforts.push(toInsertEffort(segment, activity, match));
+    }
+  }
+  await dbStorage.createSegmentEfforts(efforts);
+  return efforts.length;
+}
+
+// ========================================
+// Visibility and leaderboards
+// ========================================
+
+export async function segmentViewer(userId: number): Promise<SegmentViewer> {
+  return { userId, friendIds: new Set(await friendIdsOf(userId)) };
+}
+
+export function canViewSegment(viewer: SegmentViewer, segment: Segment): boolean {
+  return segment.userId === viewer.userId || viewer.friendIds.has(segment.userId);
+}
+
+export function canViewEffort(viewer: SegmentViewer, effort: SegmentEffortDetail): boolean {
+  return effort.userId === viewer.userId || (viewer.friendIds.has(effort.userId) && effort.activityIsPublic);
+}
+
+// Fastest first; ties go to whoever did it first
+function compareEfforts(a: SegmentEffortDetail, b: SegmentEffortDetail): number {
+  return a.elapsedSeconds - b.elapsedSeconds || new Date(a.startTime).getTime() - new Date(b.startTime).getTime();
+}
+
+/** Each athlete's best of the given efforts, ranked. */
+export function buildLeaderboard(efforts: SegmentEffortDetail[]): LeaderboardEntry[] {
+  const best = new Map<number, { effort: SegmentEffortDetail; count: number }>();
+  for (const effort of efforts) {
+    const current = best.get(effort.userId);
+    if (!current) {
+      best.set(effort.userId, { effort, count: 1 });
+    } else {
+      current.count++;
+      if (compareEfforts(effort, current.effort) < 0) current.effort = effort;
+    }
+  }
+
+  return Array.from(best.values())
+    .sort((a, b) => compareEfforts(a.effort, b.effort))
+    .map(({ effort, count }, i) => ({
+      rank: i + 1,
+      userId: effort.userId,
+      username: effort.username,
+      fullName: effort.fullName,
+      effortId: effort.id,
+      activityId: effort.activityId,
+      activityName: effort.activityName,
+      elapsedSeconds: effort.elapsedSeconds,
+      startTime: effort.startTime,
+      effortCount: count,
+    }));
+}
+
+/** 1-based rank of an effort among one athlete's efforts. */
+export function personalRank(effort: SegmentEffortDetail, efforts: SegmentEffortDetail[]): number {
+  return efforts.filter(e => e.userId === effort.userId && compareEfforts(e, effort) < 0).length + 1;
+}
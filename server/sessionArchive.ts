@@ -0,0 +1,357 @@
+import { lookupElevations } from './demElevation';
+import { lngLatMeters } from './geo';
+import { storage as dbStorage } from './storage';
+import type { LiveMapGpsTrack, LiveMapSession } from '@shared/schema';
+
+/**
+ * Archive of a live team map session. Member positions are recorded into
+ * live_map_gps_tracks as [lng, lat, timestamp] points while the session runs,
+ * and the debrief puts those tracks on one timeline with the POIs, routes,
+ * chat and radio traffic so the session can be replayed afterwards.
+ */
+
+export type TrackPoint = [number, number, number]; // lng, lat, unix ms
+
+export interface MemberStats {
+  distance: number; // meters
+  movingSeconds: number;
+  elapsedSeconds: number;
+  elevationGain: number | null; // meters, null when elevations were unavailable
+  elevationLoss: number | null;
+}
+
+export interface DebriefMember {
+  userId: number;
+  username: string;
+  fullName: string | null;
+  role: string;
+  track: TrackPoint[];
+  stats: MemberStats;
+}
+
+export interface SessionDebrief {
+  session: Pick<LiveMapSession, 'id' | 'name' | 'ownerId' | 'isActive'> & { createdAt: number; endedAt: number | null };
+  startTime: number;
+  endTime: number;
+  members: DebriefMember[];
+  pois: { id: number; name: string; note: string | null; lng: number; lat: number; userId: number; username: string; timestamp: number }[];
+  routes: { id: number; name: string; coordinates: [number, number][]; userId: number; username: string; timestamp: number }[];
+  messages: { id: number; userId: number; username: string; body: string; messageType: string; timestamp: number }[];
+  voiceMessages: { id: number; userId: number; username: string; durationSeconds: number; mimeType: string; audioUrl: string; timestamp: number }[];
+}
+
+// Radio messages normally expire after an hour; an ended session keeps them this long
+export const VOICE_ARCHIVE_DAYS = 30;
+
+// A new point is stored once the member has moved this far...
+const RECORD_MIN_METERS = 5;
+// ...or this long has passed, so stops still show up on the timeline
+const RECORD_MAX_INTERVAL_MS = 60 * 1000;
+const FLUSH_INTERVAL_MS = 30 * 1000;
+
+// Slower than this between two points counts as stopped
+const MIN_MOVING_SPEED = 0.3; // m/s
+// Longer silences are signal loss; the time is not counted as moving
+const MAX_MOVING_GAP_MS = 10 * 60 * 1000;
+
+const ELEVATION_SPACING_METERS = 25;
+const ELEVATION_MAX_SAMPLES = 200;
+
+const MESSAGE_LIMIT = 10000;
+
+function trackDistance(points: [number, number][]): number {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += lngLatMeters(points[i - 1], points[i]);
+  }
+  return total;
+}
+
+// ========================================
+// Recording
+// ========================================
+
+// Points waiting to be written, keyed "<sessionId>:<userId>"
+const pendingPoints = new Map<string, { sessionId: number; userId: number; points: TrackPoint[] }>();
+const lastRecorded = new Map<string, TrackPoint>();
+let flushTimer: NodeJS.Timeout | null = null;
+let flushing: Promise<void> = Promise.resolve();
+
+/**
+ * Note a member's position for the session archive. Points are thinned and
+ * buffered in memory, then appended to the member's track every 30 seconds
+ * so a busy session doesn't rewrite every track on every GPS fix.
+ */
+export function recordMemberPosition(sessionId: number, userId: number, lng: number, lat: number, timestamp = Date.now()): void {
+  if (!Number.isFinite(lng) || !Number.isFinite(lat)) return;
+
+  const key = `${sessionId}:${userId}`;
+  const last = lastRecorded.get(key);
+  if (last && lngLatMeters([last[0], last[1]], [lng, lat]) < RECORD_MIN_METERS && timestamp - last[2] < RECORD_MAX_INTERVAL_MS) {
+    return;
+  }
+
+  const point: TrackPoint = [lng, lat, timestamp];
+  lastRecorded.set(key, point);
+  const pending = pendingPoints.get(key);
+  if (pending) {
+    pending.points.push(point);
+  } else {
+    pendingPoints.set(key, { sessionId, userId, points: [point] });
+  }
+
+  if (!flushTimer) {
+    flushTimer = setInterval(() => {
+      flushSessionTracks().catch(err => console.error('[SessionArchive] Track flush failed:', err));
+    }, FLUSH_INTERVAL_MS);
+    flushTimer.unref();
+  }
+}
+
+async function appendToTrack(sessionId: number, userId: number, points: TrackPoint[]): Promise<void> {
+  const track = await dbStorage.getLiveMapGpsTrackByUser(sessionId, userId);
+  if (!track) {
+    await dbStorage.createLiveMapGpsTrack({
+      sessionId,
+      userId,
+      coordinates: JSON.stringify(points),
+      totalDistance: trackDistance(points.map(p => [p[0], p[1]])).toFixed(2),
+    });
+    return;
+  }
+
+  let existing: TrackPoint[] = [];
+  try {
+    existing = JSON.parse(track.coordinates);
+  } catch {}
+  const joined = existing.length > 0 ? [existing[existing.length - 1], ...points] : points;
+  const added = trackDistance(joined.map(p => [p[0], p[1]]));
+
+  await dbStorage.updateLiveMapGpsTrack(track.id, {
+    coordinates: JSON.stringify([...existing, ...points]),
+    totalDistance: (parseFloat(track.totalDistance as string || '0') + added).toFixed(2),
+  });
+}
+
+/** Write buffered points to the database, for one session or all of them. */
+export function flushSessionTracks(sessionId?: number): Promise<void> {
+  // Chained so two flushes never read-modify-write the same track at once
+  flushing = flushing.then(async () => {
+    const batches = Array.from(pendingPoints.entries())
+      .filter(([, batch]) => sessionId === undefined || batch.sessionId === sessionId);
+    for (const [key, batch] of batches) {
+      pendingPoints.delete(key);
+      try {
+        await appendToTrack(batch.sessionId, batch.userId, batch.points);
+      } catch (err) {
+        // Put the points back for the next flush rather than losing them
+        const newer = pendingPoints.get(key);
+        pendingPoints.set(key, { ...batch, points: [...batch.points, ...(newer?.points ?? [])] });
+        throw err;
+      }
+    }
+  });
+  return flushing;
+}
+
+/** Flush a session's remaining points and stop tracking its members. */
+export async function closeSessionRecording(sessionId: number): Promise<void> {
+  await flushSessionTracks(sessionId);
+  Array.from(lastRecorded.keys())
+    .filter(key => key.startsWith(`${sessionId}:`))
+    .forEach(key => lastRecorded.delete(key));
+}
+
+// ========================================
+// Debrief
+// ========================================
+
+/**
+ * Track points with timestamps. Tracks posted before positions were recorded
+ * server-side hold bare [lng, lat] pairs; those are spread evenly over the
+ * track's lifetime, which places them roughly but keeps them replayable.
+ */
+function parseTrack(track: LiveMapGpsTrack, fallbackEnd: number): TrackPoint[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(track.coordinates);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(raw)) return [];
+
+  const coords = raw.filter((c): c is number[] =>
+    Array.isArray(c) && typeof c[0] === 'number' && typeof c[1] === 'number');
+  if (coords.every(c => typeof c[2] === 'number' && c[2] > 1e12)) {
+    return coords.map(c => [c[0], c[1], c[2]] as TrackPoint).sort((a, b) => a[2] - b[2]);
+  }
+
+  const start = track.startedAt ? new Date(track.startedAt).getTime() : fallbackEnd;
+  const end = track.endedAt ? new Date(track.endedAt).getTime() : fallbackEnd;
+  const step = coords.length > 1 ? Math.max(0, end - start) / (coords.length - 1) : 0;
+  return coords.map((c, i) => [c[0], c[1], Math.round(start + step * i)] as TrackPoint);
+}
+
+function resampleForElevation(track: TrackPoint[]): [number, number][] {
+  const distance = trackDistance(track.map(p => [p[0], p[1]]));
+  const spacing = Math.max(ELEVATION_SPACING_METERS, distance / ELEVATION_MAX_SAMPLES);
+  const samples: [number, number][] = [[track[0][0], track[0][1]]];
+  let sinceLast = 0;
+  for (let i = 1; i < track.length; i++) {
+    sinceLast += lngLatMeters([track[i - 1][0], track[i - 1][1]], [track[i][0], track[i][1]]);
+    if (sinceLast >= spacing || i === track.length - 1) {
+      samples.push([track[i][0], track[i][1]]);
+      sinceLast = 0;
+    }
+  }
+  return samples;
+}
+
+async function memberStats(track: TrackPoint[], elevationUserId: number): Promise<MemberStats> {
+  let distance = 0;
+  let movingMs = 0;
+  for (let i = 1; i < track.length; i++) {
+    const d = lngLatMeters([track[i - 1][0], track[i - 1][1]], [track[i][0], track[i][1]]);
+    const dt = track[i][2] - track[i - 1][2];
+    distance += d;
+    if (dt > 0 && dt <= MAX_MOVING_GAP_MS && d / (dt / 1000) >= MIN_MOVING_SPEED) {
+      movingMs += dt;
+    }
+  }
+
+  let elevationGain: number | null = null;
+  let elevationLoss: number | null = null;
+  if (track.length >= 2) {
+    try {
+      const { elevations } = await lookupElevations(resampleForElevation(track), elevationUserId);
+      const known = elevations.filter((e): e is number => e !== null);
+      // Three-sample moving average keeps DEM steps from inflating the totals
+      const smoothed = known.map((_, i) => {
+        const window = known.slice(Math.max(0, i - 1), i + 2);
+        return window.reduce((sum, e) => sum + e, 0) / window.length;
+      });
+      elevationGain = 0;
+      elevationLoss = 0;
+      for (let i = 1; i < smoothed.length; i++) {
+        const diff = smoothed[i] - smoothed[i - 1];
+        if (diff > 0) elevationGain += diff;
+        else elevationLoss -= diff;
+      }
+      elevationGain = Math.round(elevationGain);
+      elevationLoss = Math.round(elevationLoss);
+    } catch (err) {
+      console.error('[SessionArchive] Elevation lookup failed:', err);
+    }
+  }
+
+  return {
+    distance: Math.round(distance),
+    movingSeconds: Math.round(movingMs / 1000),
+    elapsedSeconds: track.length >= 2 ? Math.round((track[track.length - 1][2] - track[0][2]) / 1000) : 0,
+    elevationGain,
+    elevationLoss,
+  };
+}
+
+// Ended sessions never change, so their debriefs (and elevation lookups) are kept
+const DEBRIEF_CACHE_SIZE = 20;
+const debriefCache = new Map<number, SessionDebrief>();
+
+export async function buildSessionDebrief(session: LiveMapSession): Promise<SessionDebrief> {
+  const cached = debriefCache.get(session.id);
+  if (cached && !session.isActive) return cached;
+
+  if (session.isActive) {
+    await flushSessionTracks(session.id);
+  }
+
+  const [members, tracks, pois, routes, messages, voice] = await Promise.all([
+    dbStorage.getLiveMapMembers(session.id),
+    dbStorage.getLiveMapGpsTracks(session.id),
+    dbStorage.getLiveMapPois(session.id),
+    dbStorage.getLiveMapRoutes(session.id),
+    dbStorage.getLiveMapMessages(session.id, MESSAGE_LIMIT),
+    dbStorage.getVoiceMessagesBySession(session.id),
+  ]);
+
+  const createdAt = session.createdAt ? new Date(session.createdAt).getTime() : Date.now();
+  const endedAt = session.endedAt ? new Date(session.endedAt).getTime() : null;
+  const sessionEnd = endedAt ?? Date.now();
+
+  const debriefMembers: DebriefMember[] = [];
+  for (const track of tracks) {
+    const points = parseTrack(track, sessionEnd);
+    if (points.length === 0) continue;
+    // Members who left are no longer in the member list but their tracks stay
+    const member = members.find(m => m.userId === track.userId);
+    const user = member?.user ?? await dbStorage.getUser(track.userId);
+    debriefMembers.push({
+      userId: track.userId,
+      username: user?.username || `User ${track.userId}`,
+      fullName: user?.fullName ?? null,
+      role: member?.role ?? (track.userId === session.ownerId ? 'owner' : 'participant'),
+      track: points,
+      stats: await memberStats(points, session.ownerId),
+    });
+  }
+
+  const timestamp = (value: Date | string | null) => value ? new Date(value).getTime() : createdAt;
+  const firstPoint = Math.min(...debriefMembers.map(m => m.track[0][2]), createdAt);
+  const lastPoint = Math.max(...debriefMembers.map(m => m.track[m.track.length - 1][2]), endedAt ?? 0);
+
+  const debrief: SessionDebrief = {
+    session: { id: session.id, name: session.name, ownerId: session.ownerId, isActive: session.isActive, createdAt, endedAt },
+    startTime: firstPoint,
+    endTime: endedAt ?? Math.max(lastPoint, Date.now()),
+    members: debriefMembers,
+    pois: pois.map(poi => ({
+      id: poi.id,
+      name: poi.name,
+      note: poi.note,
+      lng: parseFloat(poi.longitude as string),
+      lat: parseFloat(poi.latitude as string),
+      userId: poi.createdBy,
+      username: poi.createdByUser?.username || 'Unknown',
+      timestamp: timestamp(poi.createdAt),
+    })),
+    routes: routes.map(route => {
+      let coordinates: [number, number][] = [];
+      try {
+        coordinates = JSON.parse(route.pathCoordinates);
+      } catch {}
+      return {
+        id: route.id,
+        name: route.name,
+        coordinates,
+        userId: route.createdBy,
+        username: route.createdByUser?.username || 'Unknown',
+        timestamp: timestamp(route.createdAt),
+      };
+    }),
+    messages: messages.map(m => ({
+      id: m.id,
+      userId: m.userId,
+      username: m.user?.username || 'Unknown',
+      body: m.body,
+      messageType: m.messageType,
+      timestamp: timestamp(m.createdAt),
+    })),
+    voiceMessages: voice.map(v => ({
+      id: v.id,
+      userId: v.userId,
+      username: v.user?.fullName || v.user?.username || 'Unknown',
+      durationSeconds: v.durationSeconds,
+      mimeType: v.mimeType,
+      audioUrl: `/api/voice-messages/${v.id}/audio`,
+      timestamp: timestamp(v.createdAt),
+    })),
+  };
+
+  if (!session.isActive) {
+    debriefCache.set(session.id, debrief);
+    while (debriefCache.size > DEBRIEF_CACHE_SIZE) {
+      debriefCache.delete(debriefCache.keys().next().value!);
+    }
+  }
+  return debrief;
+}
@@ -0,0 +1,329 @@
+import { haversineMeters } from './geo';
+
+/**
+ * Splits a ski day into lift rides, skinning climbs and descents. Each point
+ * gets a vertical rate over a one-minute window; rising, falling and level
+ * stretches are grouped, short blips are folded into their neighbours, and
+ * climbs become lift rides when they rise as fast as a lift or follow an
+ * OpenStreetMap `aerialway` line (which also gives the lift its name).
+ * Slower climbs are skinning, so backcountry tours come out as skin and
+ * descent laps. Level stretches (queues, lodge breaks, traverses) are not
+ * reported as segments.
+ */
+
+export type SkiSegmentType = 'lift' | 'skin' | 'descent';
+
+export interface SkiSegment {
+  type: SkiSegmentType;
+  name: string | null; // lift name from OpenStreetMap
+  startIndex: number; // into the activity's pathCoordinates
+  endIndex: number;
+  startTime: number; // unix ms
+  endTime: number;
+  durationSeconds: number;
+  distanceMeters: number;
+  verticalMeters: number; // climbed for lifts and skins, dropped for descents
+  avgSpeedMps: number;
+  maxSpeedMps: number;
+}
+
+export interface SkiDaySummary {
+  runs: number;
+  liftRides: number;
+  skinClimbs: number;
+  skiVerticalMeters: number;
+  liftVerticalMeters: number;
+  skinVerticalMeters: number;
+  skiTimeSeconds: number;
+  liftTimeSeconds: number;
+  skinTimeSeconds: number;
+  maxSpeedMps: number;
+}
+
+export interface SkiDay {
+  segments: SkiSegment[];
+  summary: SkiDaySummary;
+}
+
+export interface SkiTrackPoint {
+  lat: number;
+  lng: number;
+  time: number; // unix ms
+  elevation: number | null;
+}
+
+interface Aerialway {
+  name: string | null;
+  coords: { lat: number; lng: number }[];
+}
+
+type Trend = 'up' | 'down' | 'level';
+
+interface RawSegment {
+  trend: Trend;
+  start: number; // point index, inclusive
+  end: number; // point index, inclusive
+}
+
+// Vertical rate is measured over this window centred on each point
+const RATE_WINDOW_MS = 60 * 1000;
+// Rising faster than this is climbing, falling faster than DESCENT_RATE is skiing
+const CLIMB_RATE = 0.08; // m/s
+const DESCENT_RATE = 0.15; // m/s
+// Stretches shorter than this, or with less vertical, are folded into a neighbour
+const MIN_SEGMENT_MS = 60 * 1000;
+const MIN_SEGMENT_VERTICAL = 20; // meters
+// Climbs rising at least this fast are lifts even without a mapped aerialway;
+// skinning rarely beats 0.2 m/s, surface lifts manage about 0.5
+const LIFT_MIN_VERTICAL_RATE = 0.4; // m/s
+// A climb within this distance of an aerialway for most of its points rode it
+const LIFT_MATCH_METERS = 40;
+const LIFT_MATCH_FRACTION = 0.7;
+// Max speed is measured over at least this long so one jittery fix cannot set it
+const MAX_SPEED_WINDOW_MS = 5 * 1000;
+// Tracks spanning more than this are not ski days worth querying lifts for
+const MAX_AERIALWAY_BBOX_DEG = 0.5;
+
+// ========================================
+// OpenStreetMap lifts
+// ========================================
+
+async function fetchOverpass(query: string): Promise<any> {
+  const endpoints = [
+    'https://overpass-api.de/api/interpreter',
+    'https://overpass.kumi.systems/api/interpreter',
+  ];
+
+  const fetchFromEndpoint = async (url: string): Promise<any> => {
+    const resp = await fetch(url, {
+      method: 'POST',
+      body: `data=${encodeURIComponent(query)}`,
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      signal: AbortSignal.timeout(15000),
+    });
+    if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
+    return await resp.json();
+  };
+
+  try {
+    return await Promise.any(endpoints.map(fetchFromEndpoint));
+  } catch {
+    throw new Error('All Overpass API endpoints failed');
+  }
+}
+
+async function fetchAerialways(points: SkiTrackPoint[]): Promise<Aerialway[]> {
+  const lats = points.map(p => p.lat);
+  const lngs = points.map(p => p.lng);
+  const pad = 0.005;
+  const south = Math.min(...lats) - pad, north = Math.max(...lats) + pad;
+  const west = Math.min(...lngs) - pad, east = Math.max(...lngs) + pad;
+  if (north - south > MAX_AERIALWAY_BBOX_DEG || east - west > MAX_AERIALWAY_BBOX_DEG) return [];
+
+  const data = await fetchOverpass(`[out:json][timeout:15];
+way["aerialway"](${south},${west},${north},${east});
+out tags geom;`);
+
+  return (data.elements || [])
+    .filter((el: any) => el.type === 'way' && Array.isArray(el.geometry) && el.geometry.length >= 2
+      && !['pylon', 'station', 'goods', 'zip_line'].includes(el.tags?.aerialway))
+    .map((el: any) => ({
+      name: el.tags?.name || el.tags?.ref || null,
+      coords: el.geometry.map((g: any) => ({ lat: g.lat, lng: g.lon })),
+    }));
+}
+
+// Distance from a point to a polyline, on a local flat projection
+function distanceToLine(point: { lat: number; lng: number }, line: { lat: number; lng: number }[]): number {
+  const cosLat = Math.cos(point.lat * Math.PI / 180);
+  const toXY = (p: { lat: number; lng: number }) => [(p.lng - point.lng) * 111320 * cosLat, (p.lat - point.lat) * 111320];
+  let best = Infinity;
+  for (let i = 1; i < line.length; i++) {
+    const [ax, ay] = toXY(line[i - 1]);
+    const [bx, by] = toXY(line[i]);
+    const dx = bx - ax, dy = by - ay;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq)) : 0;
+    best = Math.min(best, Math.hypot(ax + t * dx, ay + t * dy));
+  }
+  return best;
+}
+
+function matchAerialway(points: SkiTrackPoint[], aerialways: Aerialway[]): Aerialway | null {
+  let best: { lift: Aerialway; fraction: number } | null = null;
+  for (const lift of aerialways) {
+    const near = points.filter(p => distanceToLine(p, lift.coords) <= LIFT_MATCH_METERS).length;
+    const fraction = near / points.length;
+    if (fraction >= LIFT_MATCH_FRACTION && (!best || fraction > best.fraction)) {
+      best = { lift, fraction };
+    }
+  }
+  return best?.lift ?? null;
+}
+
+// ========================================
+// Segmentation
+// ========================================
+
+// Fill elevation gaps from the nearest earlier (or, at the start, later) value
+function fillElevations(points: SkiTrackPoint[]): number[] | null {
+  const firstKnown = points.find(p => p.elevation !== null)?.elevation;
+  if (firstKnown === undefined || firstKnown === null) return null;
+  let last = firstKnown;
+  return points.map(p => {
+    if (p.elevation !== null) last = p.elevation;
+    return last;
+  });
+}
+
+function trendAt(points: SkiTrackPoint[], elevations: number[]): Trend[] {
+  const trends: Trend[] = [];
+  let lo = 0;
+  let hi = 0;
+  for (let i = 0; i < points.length; i++) {
+    while (points[i].time - points[lo].time > RATE_WINDOW_MS / 2) lo++;
+    while (hi < points.length - 1 && points[hi + 1].time - points[i].time <= RATE_WINDOW_MS / 2) hi++;
+    const seconds = (points[hi].time - points[lo].time) / 1000;
+    const rate = seconds > 0 ? (elevations[hi] - elevations[lo]) / seconds : 0;
+    trends.push(rate > CLIMB_RATE ? 'up' : rate < -DESCENT_RATE ? 'down' : 'level');
+  }
+  return trends;
+}
+
+function isMinor(segment: RawSegment, points: SkiTrackPoint[], elevations: number[]): boolean {
+  const duration = points[segment.end].time - points[segment.start].time;
+  const vertical = Math.abs(elevations[segment.end] - elevations[segment.start]);
+  return duration < MIN_SEGMENT_MS || (segment.trend !== 'level' && vertical < MIN_SEGMENT_VERTICAL);
+}
+
+/**
+ * Group points by trend, then repeatedly fold the shortest minor stretch into
+ * its longer neighbour and join neighbours that now share a trend.
+ */
+function groupTrends(points: SkiTrackPoint[], elevations: number[], trends: Trend[]): RawSegment[] {
+  let segments: RawSegment[] = [];
+  for (let i = 0; i < trends.length; i++) {
+    const last = segments[segments.length - 1];
+    if (last && last.trend === trends[i]) last.end = i;
+    else segments.push({ trend: trends[i], start: last ? last.end : i, end: i });
+  }
+
+  const duration = (s: RawSegment) => points[s.end].time - points[s.start].time;
+  while (segments.length > 1) {
+    let shortest = -1;
+    for (let i = 0; i < segments.length; i++) {
+      if (isMinor(segments[i], points, elevations) && (shortest === -1 || duration(segments[i]) < duration(segments[shortest]))) {
+        shortest = i;
+      }
+    }
+    if (shortest === -1) break;
+
+    const prev = segments[shortest - 1];
+    const next = segments[shortest + 1];
+    const into = !next || (prev && duration(prev) >= duration(next)) ? shortest - 1 : shortest + 1;
+    const target = segments[into];
+    target.start = Math.min(target.start, segments[shortest].start);
+    target.end = Math.max(target.end, segments[shortest].end);
+    segments.splice(shortest, 1);
+
+    const merged: RawSegment[] = [];
+    for (const segment of segments) {
+      const last = merged[merged.length - 1];
+      if (last && last.trend === segment.trend) last.end = segment.end;
+      else merged.push(segment);
+    }
+    segments = merged;
+  }
+  return segments;
+}
+
+function segmentStats(points: SkiTrackPoint[], elevations: number[], start: number, end: number) {
+  let distance = 0;
+  const cumulative = [0];
+  for (let i = start + 1; i <= end; i++) {
+    distance += haversineMeters(points[i - 1], points[i]);
+    cumulative.push(distance);
+  }
+
+  let maxSpeed = 0;
+  for (let i = start, j = start; i <= end; i++) {
+    while (j < end && points[j].time - points[i].time < MAX_SPEED_WINDOW_MS) j++;
+    const seconds = (points[j].time - points[i].time) / 1000;
+    if (seconds * 1000 < MAX_SPEED_WINDOW_MS) break;
+    maxSpeed = Math.max(maxSpeed, (cumulative[j - start] - cumulative[i - start]) / seconds);
+  }
+
+  const durationSeconds = Math.round((points[end].time - points[start].time) / 1000);
+  return {
+    durationSeconds,
+    distanceMeters: Math.round(distance),
+    verticalMeters: Math.round(Math.abs(elevations[end] - elevations[start])),
+    avgSpeedMps: durationSeconds > 0 ? Math.round(distance / durationSeconds * 100) / 100 : 0,
+    maxSpeedMps: Math.round(maxSpeed * 100) / 100,
+  };
+}
+
+/**
+ * Segment a ski track. Points must be in time order with the same indexes
+ * as the stored path. Returns null when no elevation is known. Lift names
+ * are looked up on OpenStreetMap; if that fails, lifts are still found from
+ * their climbing rate, just without names.
+ */
+export async function segmentSkiDay(points: SkiTrackPoint[]): Promise<SkiDay | null> {
+  const elevations = points.length >= 2 ? fillElevations(points) : null;
+  if (!elevations) return null;
+
+  let aerialways: Aerialway[] = [];
+  try {
+    aerialways = await fetchAerialways(points);
+  } catch (err) {
+    console.error('[SkiSegmentation] Aerialway lookup failed:', err);
+  }
+
+  const segments: SkiSegment[] = [];
+  for (const raw of groupTrends(points, elevations, trendAt(points, elevations))) {
+    if (raw.trend === 'level' || isMinor(raw, points, elevations)) continue;
+    const stats = segmentStats(points, elevations, raw.start, raw.end);
+
+    let type: SkiSegmentType = 'descent';
+    let name: string | null = null;
+    if (raw.trend === 'up') {
+      const lift = matchAerialway(points.slice(raw.start, raw.end + 1), aerialways);
+      const rate = stats.durationSeconds > 0 ? stats.verticalMeters / stats.durationSeconds : 0;
+      type = lift || rate >= LIFT_MIN_VERTICAL_RATE ? 'lift' : 'skin';
+      name = lift?.name ?? null;
+    }
+
+    segments.push({
+      type,
+      name,
+      startIndex: raw.start,
+      endIndex: raw.end,
+      startTime: points[raw.start].time,
+      endTime: points[raw.end].time,
+      ...stats,
+    });
+  }
+
+  const ofType = (type: SkiSegmentType) => segments.filter(s => s.type === type);
+  const sum = (list: SkiSegment[], key: 'verticalMeters' | 'durationSeconds') => list.reduce((total, s) => total + s[key], 0);
+  const descents = ofType('descent');
+  const lifts = ofType('lift');
+  const skins = ofType('skin');
+
+  return {
+    segments,
+    summary: {
+      runs: descents.length,
+      liftRides: lifts.length,
+      skinClimbs: skins.length,
+      skiVerticalMeters: sum(descents, 'verticalMeters'),
+      liftVerticalMeters: sum(lifts, 'verticalMeters'),
+      skinVerticalMeters: sum(skins, 'verticalMeters'),
+      skiTimeSeconds: sum(descents, 'durationSeconds'),
+      liftTimeSeconds: sum(lifts, 'durationSeconds'),
+      skinTimeSeconds: sum(skins, 'durationSeconds'),
+      maxSpeedMps: Math.max(0, ...descents.map(s => s.maxSpeedMps)),
+    },
+  };
+}
@@ -13,6 +13,7 @@ import {
   RouteShare, InsertRouteShare,
   RoutePointOfInterest, InsertRoutePointOfInterest,
   RouteNote, InsertRouteNote,
+  AiConversation, InsertAiConversation,
   Trip, InsertTrip,
   CalendarEvent, InsertCalendarEvent,
   FriendRequest, InsertFriendRequest,
@@ -21,6 +22,8 @@ import {
   LiveMapMember, InsertLiveMapMember,
   LiveMapPoi, InsertLiveMapPoi,
   LiveMapRoute, InsertLiveMapRoute,
+  LiveMapGeofence, InsertLiveMapGeofence,
+  LiveMapIncident, InsertLiveMapIncident, IncidentType,
   LiveMapMessage, InsertLiveMapMessage,
   VoiceMessage, InsertVoiceMessage,
   LiveMapInvite, InsertLiveMapInvite,
@@ -28,6 +31,8 @@ import {
   PasswordResetToken,
   BackgroundLocationToken,
   Activity, InsertActivity,
+  Segment, InsertSegment,
+  SegmentEffort, InsertSegmentEffort,
   Cesium3dTileset, InsertCesium3dTileset,
   DirectMessage, InsertDirectMessage,
   Enterprise, InsertEnterprise,
@@ -37,6 +42,14 @@ import {
   EnterpriseInvite, InsertEnterpriseInvite,
 } from "@shared/schema";
 
+// An effort with who rode it and whether its activity is public, for leaderboards
+export type SegmentEffortDetail = SegmentEffort & {
+  username: string;
+  fullName: string | null;
+  activityName: string;
+  activityIsPublic: boolean;
+};
+
 // Modify the interface with any CRUD methods
 // you might need
 export interface IStorage {
@@ -146,6 +159,13 @@ export interface IStorage {
   getRoutePointOfInterest(id: number): Promise<RoutePointOfInterest | undefined>;
   updateRoutePointOfInterest(id: number, updateData: Partial<RoutePointOfInterest>): Promise<RoutePointOfInterest | undefined>;
   deleteRoutePointOfInterest(id: number): Promise<boolean>;
+
+  // AI route assistant conversation operations
+  createAiConversation(conversation: InsertAiConversation): Promise<AiConversation>;
+  getAiConversation(id: number): Promise<AiConversation | undefined>;
+  getAiConversationsByUser(userId: number): Promise<AiConversation[]>;
+  updateAiConversation(id: number, updateData: Partial<Pick<AiConversation, 'title' | 'activityType' | 'messages'>>): Promise<AiConversation | undefined>;
+  deleteAiConversation(id: number): Promise<boolean>;
   
   getSharedLocations(userId: number): Promise<(UserLocation & { user: User })[]>;
   deleteUserLocation(userId: number): Promise<boolean>;
@@ -216,6 +236,23 @@ export interface IStorage {
   updateLiveMapRoute(routeId: number, data: { name?: string; pathCoordinates: string; totalDistance?: string }): Promise<LiveMapRoute | undefined>;
   deleteLiveMapRoute(id: number): Promise<boolean>;
   
+  // Live Map Geofence operations
+  createLiveMapGeofence(geofence: InsertLiveMapGeofence): Promise<LiveMapGeofence>;
+  getLiveMapGeofences(sessionId: number): Promise<LiveMapGeofence[]>;
+  getLiveMapGeofence(id: number): Promise<LiveMapGeofence | undefined>;
+  updateLiveMapGeofence(id: number, data: Partial<Pick<LiveMapGeofence, 'name' | 'isActive' | 'distanceMeters'>>): Promise<LiveMapGeofence | undefined>;
+  deleteLiveMapGeofence(id: number): Promise<boolean>;
+  
+  // Live Map Incident operations
+  createLiveMapIncident(incident: InsertLiveMapIncident): Promise<LiveMapIncident>;
+  getLiveMapIncidents(sessionId: number, unresolvedOnly?: boolean): Promise<LiveMapIncident[]>;
+  getLiveMapIncident(id: number): Promise<LiveMapIncident | undefined>;
+  getUnresolvedLiveMapIncident(sessionId: number, userId: number, type: IncidentType): Promise<LiveMapIncident | undefined>;
+  getUnresolvedOverdueLiveMapIncidents(): Promise<LiveMapIncident[]>;
+  updateLiveMapIncident(id: number, data: Partial<Omit<LiveMapIncident, 'id' | 'sessionId' | 'userId' | 'type' | 'createdAt'>>): Promise<LiveMapIncident | undefined>;
+  createOverdueLiveMapIncidents(): Promise<LiveMapIncident[]>;
+  resolveOverdueLiveMapIncidents(sessionId: number, userId: number): Promise<LiveMapIncident[]>;
+  
   // Live Map Message operations
   createLiveMapMessage(message: InsertLiveMapMessage): Promise<LiveMapMessage>;
   getLiveMapMessages(sessionId: number, limit?: number): Promise<(LiveMapMessage & { user: User })[]>;
@@ -226,6 +263,7 @@ export interface IStorage {
   getVoiceMessage(id: number): Promise<VoiceMessage | undefined>;
   getExpiredVoiceMessages(): Promise<VoiceMessage[]>;
   deleteExpiredVoiceMessages(): Promise<number>;
+  retainVoiceMessages(sessionId: number, until: Date): Promise<number>;
 
   // Live Map Invite operations
   createLiveMapInvite(invite: InsertLiveMapInvite): Promise<LiveMapInvite>;
@@ -250,9 +288,22 @@ export interface IStorage {
   createActivity(activity: InsertActivity): Promise<Activity>;
   getActivity(id: number): Promise<Activity | undefined>;
   getActivitiesByUser(userId: number): Promise<Activity[]>;
-  updateActivity(id: number, updates: Partial<InsertActivity>): Promise<Activity | undefined>;
+  updateActivity(id: number, updates: Partial<Omit<Activity, 'id' | 'userId' | 'createdAt' | 'updatedAt'>>): Promise<Activity | undefined>;
   deleteActivity(id: number): Promise<boolean>;
   getPublicActivities(): Promise<Activity[]>;
+  getActivitiesByUsers(userIds: number[]): Promise<Activity[]>;
+
+  // Segment operations
+  createSegment(segment: InsertSegment): Promise<Segment>;
+  getSegment(id: number): Promise<Segment | undefined>;
+  getSegmentsByIds(ids: number[]): Promise<Segment[]>;
+  getSegmentsByUsers(userIds: number[]): Promise<Segment[]>;
+  deleteSegment(id: number): Promise<boolean>;
+  createSegmentEfforts(efforts: InsertSegmentEffort[]): Promise<SegmentEffort[]>;
+  replaceActivitySegmentEfforts(activityId: number, efforts: InsertSegmentEffort[]): Promise<SegmentEffort[]>;
+  getSegmentEffortsBySegment(segmentId: number): Promise<SegmentEffortDetail[]>;
+  getSegmentEffortsByActivity(activityId: number): Promise<SegmentEffortDetail[]>;
+  getSegmentEffortsByUser(userId: number): Promise<SegmentEffortDetail[]>;
 
   sendDirectMessage(data: InsertDirectMessage): Promise<DirectMessage>;
   getConversationMessages(userAId: number, userBId: number, limit?: number, before?: number): Promise<DirectMessage[]>;
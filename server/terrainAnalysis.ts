@@ -0,0 +1,322 @@
+import sharp from 'sharp';
+import { lngLatMeters } from './geo';
+
+/**
+ * Slope angle and aspect derived from global DEM tiles, for avalanche
+ * terrain planning. Elevation comes from Mapbox Terrain-RGB when a token is
+ * configured and from the open AWS Terrarium tiles otherwise; both stop at
+ * z15, so the map overzooms the rendered tiles beyond that.
+ */
+
+export type TerrainLayer = 'slope' | 'aspect';
+
+export const TERRAIN_LAYERS: TerrainLayer[] = ['slope', 'aspect'];
+export const TERRAIN_MIN_ZOOM = 8;
+export const TERRAIN_MAX_ZOOM = 15;
+
+const TILE_SIZE = 256;
+const EARTH_CIRCUMFERENCE = 40075016.686;
+
+// Lower bound in degrees -> RGB. Anything under the first band stays transparent.
+export const SLOPE_BANDS: { min: number; color: [number, number, number]; label: string }[] = [
+  { min: 27, color: [250, 204, 21], label: '27–30°' },
+  { min: 30, color: [249, 115, 22], label: '30–35°' },
+  { min: 35, color: [220, 38, 38], label: '35–45°' },
+  { min: 45, color: [124, 58, 237], label: '45°+' },
+];
+
+// Eight compass sectors starting at north, clockwise
+const ASPECT_COLORS: [number, number, number][] = [
+  [37, 99, 235], [14, 165, 233], [16, 185, 129], [132, 204, 22],
+  [250, 204, 21], [249, 115, 22], [239, 68, 68], [168, 85, 247],
+];
+// Gentler ground has no aspect worth planning around and would wash the map out
+const ASPECT_MIN_SLOPE = 20;
+
+// ========================================
+// DEM tiles
+// ========================================
+
+const DEM_CACHE_SIZE = 96;
+// Insertion order doubles as recency order, oldest first
+const demCache = new Map<string, Promise<Float32Array | null>>();
+
+function demTileUrl(z: number, x: number, y: number): { url: string; encoding: 'mapbox' | 'terrarium' } {
+  const token = process.env.MAPBOX_ACCESS_TOKEN || process.env.VITE_MAPBOX_ACCESS_TOKEN;
+  if (token) {
+    return { url: `https://api.mapbox.com/v4/mapbox.terrain-rgb/${z}/${x}/${y}.pngraw?access_token=${token}`, encoding: 'mapbox' };
+  }
+  return { url: `https://s3.amazonaws.com/elevation-tiles-prod/terrarium/${z}/${x}/${y}.png`, encoding: 'terrarium' };
+}
+
+async function fetchDemTile(z: number, x: number, y: number): Promise<Float32Array | null> {
+  const { url, encoding } = demTileUrl(z, x, y);
+  const response = await fetch(url, { signal: AbortSignal.timeout(15000) });
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error(`DEM tile ${z}/${x}/${y} failed: ${response.status}`);
+
+  const { data, info } = await sharp(Buffer.from(await response.arrayBuffer()))
+    .resize(TILE_SIZE, TILE_SIZE, { kernel: 'nearest' })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const heights = new Float32Array(TILE_SIZE * TILE_SIZE);
+  for (let i = 0; i < heights.length; i++) {
+    const r = data[i * info.channels];
+    const g = data[i * info.channels + 1];
+    const b = data[i * info.channels + 2];
+    heights[i] = encoding === 'mapbox'
+      ? -10000 + (r * 65536 + g * 256 + b) * 0.1
+      : r * 256 + g + b / 256 - 32768;
+  }
+  return heights;
+}
+
+/** Elevations in metres for one XYZ tile, row-major, or null where the source has no tile. */
+export function getDemTile(z: number, x: number, y: number): Promise<Float32Array | null> {
+  const key = `${z}/${x}/${y}`;
+  const cached = demCache.get(key);
+  if (cached) {
+    demCache.delete(key);
+    demCache.set(key, cached);
+    return cached;
+  }
+
+  const loading = fetchDemTile(z, x, y);
+  loading.catch(() => demCache.delete(key));
+  demCache.set(key, loading);
+  while (demCache.size > DEM_CACHE_SIZE) {
+    demCache.delete(demCache.keys().next().value!);
+  }
+  return loading;
+}
+
+/**
+ * Elevation in metres at each [lng, lat], interpolated from the DEM tiles at
+ * `zoom`, or null where the source has no tile or it fails to load. Points
+ * are grouped by tile so each tile is fetched once.
+ */
+export async function sampleElevations(points: [number, number][], zoom = 12): Promise<(number | null)[]> {
+  const scale = Math.pow(2, zoom);
+  const byTile = new Map<string, { x: number; y: number; indexes: number[]; px: number[]; py: number[] }>();
+
+  points.forEach(([lng, lat], index) => {
+    const latRad = lat * Math.PI / 180;
+    const tx = (lng + 180) / 360 * scale;
+    const ty = (1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2 * scale;
+    const x = Math.floor(tx);
+    const y = Math.floor(ty);
+    const key = `${x}/${y}`;
+    let tile = byTile.get(key);
+    if (!tile) {
+      tile = { x, y, indexes: [], px: [], py: [] };
+      byTile.set(key, tile);
+    }
+    tile.indexes.push(index);
+    tile.px.push((tx - x) * TILE_SIZE - 0.5);
+    tile.py.push((ty - y) * TILE_SIZE - 0.5);
+  });
+
+  const elevations: (number | null)[] = points.map(() => null);
+  for (const tile of Array.from(byTile.values())) {
+    const heights = await getDemTile(zoom, tile.x, tile.y).catch(() => null);
+    if (!heights) continue;
+
+    const at = (col: number, row: number) =>
+      heights[Math.min(Math.max(row, 0), TILE_SIZE - 1) * TILE_SIZE + Math.min(Math.max(col, 0), TILE_SIZE - 1)];
+    tile.indexes.forEach((index, i) => {
+      const col = Math.floor(tile.px[i]);
+      const row = Math.floor(tile.py[i]);
+      const fx = tile.px[i] - col;
+      const fy = tile.py[i] - row;
+      const top = at(col, row) * (1 - fx) + at(col + 1, row) * fx;
+      const bottom = at(col, row + 1) * (1 - fx) + at(col + 1, row + 1) * fx;
+      elevations[index] = Math.round((top * (1 - fy) + bottom * fy) * 10) / 10;
+    });
+  }
+  return elevations;
+}
+
+// ========================================
+// Slope and aspect
+// ========================================
+
+function tileRowLatitude(z: number, y: number, row: number): number {
+  const n = Math.PI * (1 - 2 * (y + (row + 0.5) / TILE_SIZE) / Math.pow(2, z));
+  return Math.atan(Math.sinh(n)) * 180 / Math.PI;
+}
+
+/**
+ * Slope (degrees) and aspect (degrees clockwise from north, the direction
+ * the slope faces) at one pixel using Horn's 3x3 kernel. Neighbours past the
+ * tile edge are clamped, which slightly flattens the outermost pixel ring.
+ */
+function slopeAt(heights: Float32Array, col: number, row: number, cellSize: number): { slope: number; aspect: number } {
+  const at = (dc: number, dr: number) => {
+    const c = Math.min(Math.max(col + dc, 0), TILE_SIZE - 1);
+    const r = Math.min(Math.max(row + dr, 0), TILE_SIZE - 1);
+    return heights[r * TILE_SIZE + c];
+  };
+  const a = at(-1, -1), b = at(0, -1), c = at(1, -1);
+  const d = at(-1, 0), f = at(1, 0);
+  const g = at(-1, 1), h = at(0, 1), i = at(1, 1);
+
+  const dzdx = ((c + 2 * f + i) - (a + 2 * d + g)) / (8 * cellSize);
+  // Rows run north to south, so this is the change going south
+  const dzdy = ((g + 2 * h + i) - (a + 2 * b + c)) / (8 * cellSize);
+
+  const slope = Math.atan(Math.sqrt(dzdx * dzdx + dzdy * dzdy)) * 180 / Math.PI;
+  // Downslope points against the gradient: east component -dzdx, north component dzdy
+  const aspect = (Math.atan2(-dzdx, dzdy) * 180 / Math.PI + 360) % 360;
+  return { slope, aspect };
+}
+
+function cellSizeFor(z: number, y: number, row: number): number {
+  const lat = tileRowLatitude(z, y, row);
+  return EARTH_CIRCUMFERENCE * Math.cos(lat * Math.PI / 180) / (TILE_SIZE * Math.pow(2, z));
+}
+
+/** Render a slope-angle or aspect tile as PNG, or null where there is no elevation data. */
+export async function renderTerrainTile(layer: TerrainLayer, z: number, x: number, y: number): Promise<Buffer | null> {
+  const heights = await getDemTile(z, x, y);
+  if (!heights) return null;
+
+  const rgba = Buffer.alloc(TILE_SIZE * TILE_SIZE * 4, 0);
+  for (let row = 0; row < TILE_SIZE; row++) {
+    const cellSize = cellSizeFor(z, y, row);
+    for (let col = 0; col < TILE_SIZE; col++) {
+      const { slope, aspect } = slopeAt(heights, col, row, cellSize);
+      let color: [number, number, number] | null = null;
+
+      if (layer === 'slope') {
+        for (const band of SLOPE_BANDS) {
+          if (slope >= band.min) color = band.color;
+        }
+      } else if (slope >= ASPECT_MIN_SLOPE) {
+        color = ASPECT_COLORS[Math.round(aspect / 45) % 8];
+      }
+
+      if (color) {
+        const offset = (row * TILE_SIZE + col) * 4;
+        rgba[offset] = color[0];
+        rgba[offset + 1] = color[1];
+        rgba[offset + 2] = color[2];
+        rgba[offset + 3] = 255;
+      }
+    }
+  }
+
+  return sharp(rgba, { raw: { width: TILE_SIZE, height: TILE_SIZE, channels: 4 } }).png().toBuffer();
+}
+
+// ========================================
+// Route check
+// ========================================
+
+const CHECK_ZOOM = 14;
+const CHECK_SPACING_METERS = 10;
+// Steep stretches closer together than this are reported as one
+const CHECK_MERGE_METERS = 30;
+
+export interface SteepSegment {
+  startDistance: number; // meters along the route
+  endDistance: number;
+  length: number;
+  maxSlope: number; // degrees
+  band: string;
+  coordinates: [number, number][];
+}
+
+export interface SlopeCheckResult {
+  thresholdDegrees: number;
+  checkedDistance: number;
+  maxSlope: number;
+  steepDistance: number;
+  segments: SteepSegment[];
+}
+
+async function slopeAtPoint(lng: number, lat: number): Promise<number | null> {
+  const scale = Math.pow(2, CHECK_ZOOM);
+  const latRad = lat * Math.PI / 180;
+  const tx = (lng + 180) / 360 * scale;
+  const ty = (1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2 * scale;
+  const x = Math.floor(tx);
+  const y = Math.floor(ty);
+
+  const heights = await getDemTile(CHECK_ZOOM, x, y);
+  if (!heights) return null;
+  const col = Math.min(Math.floor((tx - x) * TILE_SIZE), TILE_SIZE - 1);
+  const row = Math.min(Math.floor((ty - y) * TILE_SIZE), TILE_SIZE - 1);
+  return slopeAt(heights, col, row, cellSizeFor(CHECK_ZOOM, y, row)).slope;
+}
+
+function bandFor(slope: number): string {
+  let label = `< ${SLOPE_BANDS[0].min}°`;
+  for (const band of SLOPE_BANDS) {
+    if (slope >= band.min) label = band.label;
+  }
+  return label;
+}
+
+/**
+ * Walk a route and report the stretches where the ground under it is at or
+ * above `thresholdDegrees`. This is the terrain slope, not the route's own
+ * grade: a traverse across a 35° face is flagged even if it stays level.
+ */
+export async function checkRouteSlopes(path: [number, number][], thresholdDegrees = 30): Promise<SlopeCheckResult> {
+  const samples: { distance: number; point: [number, number] }[] = [];
+  let travelled = 0;
+  for (let i = 0; i < path.length; i++) {
+    if (i === 0) {
+      samples.push({ distance: 0, point: path[0] });
+      continue;
+    }
+    const length = lngLatMeters(path[i - 1], path[i]);
+    const steps = Math.max(1, Math.ceil(length / CHECK_SPACING_METERS));
+    for (let s = 1; s <= steps; s++) {
+      const t = s / steps;
+      samples.push({
+        distance: travelled + length * t,
+        point: [path[i - 1][0] + (path[i][0] - path[i - 1][0]) * t, path[i - 1][1] + (path[i][1] - path[i - 1][1]) * t],
+      });
+    }
+    travelled += length;
+  }
+
+  const segments: SteepSegment[] = [];
+  let current: SteepSegment | null = null;
+  let maxSlope = 0;
+
+  for (const sample of samples) {
+    const slope = await slopeAtPoint(sample.point[0], sample.point[1]);
+    if (slope === null) continue;
+    maxSlope = Math.max(maxSlope, slope);
+    if (slope < thresholdDegrees) continue;
+
+    if (current && sample.distance - current.endDistance <= CHECK_MERGE_METERS) {
+      current.endDistance = sample.distance;
+      current.maxSlope = Math.max(current.maxSlope, slope);
+      current.coordinates.push(sample.point);
+    } else {
+      current = { startDistance: sample.distance, endDistance: sample.distance, length: 0, maxSlope: slope, band: '', coordinates: [sample.point] };
+      segments.push(current);
+    }
+  }
+
+  for (const segment of segments) {
+    segment.length = Math.round(segment.endDistance - segment.startDistance);
+    segment.startDistance = Math.round(segment.startDistance);
+    segment.endDistance = Math.round(segment.endDistance);
+    segment.maxSlope = Math.round(segment.maxSlope * 10) / 10;
+    segment.band = bandFor(segment.maxSlope);
+  }
+
+  return {
+    thresholdDegrees,
+    checkedDistance: Math.round(travelled),
+    maxSlope: Math.round(maxSlope * 10) / 10,
+    steepDistance: segments.reduce((sum, s) => sum + s.length, 0),
+    segments,
+  };
+}
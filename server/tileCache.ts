@@ -0,0 +1,124 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+
+/**
+ * Size-bounded disk cache for rendered map tiles, evicted least recently
+ * used first. The index lives in memory and is rebuilt from file mtimes on
+ * first use, so the cache survives restarts without a separate manifest.
+ */
+
+const CACHE_DIR = process.env.TILE_CACHE_DIR || path.join(os.tmpdir(), 'drone-tile-cache');
+const MAX_CACHE_BYTES = (parseInt(process.env.TILE_CACHE_MAX_MB || '1024', 10) || 1024) * 1024 * 1024;
+
+// Map iteration order doubles as recency order: oldest first
+const index = new Map<string, number>();
+let totalBytes = 0;
+let loaded = false;
+
+function walk(dir: string, prefix: string, out: { key: string; size: number; mtimeMs: number }[]) {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return;
+  }
+  for (const entry of entries) {
+    const key = prefix ? `${prefix}/${entry.name}` : entry.name;
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      walk(fullPath, key, out);
+    } else if (!entry.name.endsWith('.tmp')) {
+      try {
+        const stat = fs.statSync(fullPath);
+        out.push({ key, size: stat.size, mtimeMs: stat.mtimeMs });
+      } catch {}
+    }
+  }
+}
+
+function ensureLoaded() {
+  if (loaded) return;
+  loaded = true;
+  const files: { key: string; size: number; mtimeMs: number }[] = [];
+  walk(CACHE_DIR, '', files);
+  files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+  for (const file of files) {
+    index.set(file.key, file.size);
+    totalBytes += file.size;
+  }
+  if (files.length > 0) {
+    console.log(`[TileCache] Indexed ${files.length} cached tiles (${Math.round(totalBytes / 1024 / 1024)} MB)`);
+  }
+}
+
+function evict() {
+  const keys = index.keys();
+  while (totalBytes > MAX_CACHE_BYTES) {
+    const next = keys.next();
+    if (next.done) break;
+    const key = next.value;
+    totalBytes -= index.get(key) ?? 0;
+    index.delete(key);
+    fs.rm(path.join(CACHE_DIR, key), { force: true }, () => {});
+  }
+}
+
+export function tileCacheKey(imageId: number, z: number, x: number, y: number, ext: string, layer = 'tiles'): string {
+  return `${imageId}/${layer}/${z}/${x}/${y}.${ext}`;
+}
+
+// Tiles derived from global data rather than an upload, e.g. slope shading
+export function terrainTileCacheKey(layer: string, z: number, x: number, y: number): string {
+  return `terrain/${layer}/${z}/${x}/${y}.png`;
+}
+
+export async function getCachedTile(key: string): Promise<Buffer | null> {
+  ensureLoaded();
+  if (!index.has(key)) return null;
+  try {
+    const buffer = await fs.promises.readFile(path.join(CACHE_DIR, key));
+    const size = index.get(key)!;
+    index.delete(key);
+    index.set(key, size);
+    return buffer;
+  } catch {
+    totalBytes -= index.get(key) ?? 0;
+    index.delete(key);
+    return null;
+  }
+}
+
+export async function putCachedTile(key: string, buffer: Buffer): Promise<void> {
+  ensureLoaded();
+  const filePath = path.join(CACHE_DIR, key);
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  try {
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(tmpPath, buffer);
+    await fs.promises.rename(tmpPath, filePath);
+  } catch (err: any) {
+    fs.rm(tmpPath, { force: true }, () => {});
+    console.error(`[TileCache] Failed to write ${key}: ${err?.message}`);
+    return;
+  }
+  totalBytes -= index.get(key) ?? 0;
+  index.delete(key);
+  index.set(key, buffer.length);
+  totalBytes += buffer.length;
+  evict();
+}
+
+// Drop every cached tile for an image, e.g. after it is re-tiled or deleted
+export function clearCachedTiles(imageId: number): void {
+  ensureLoaded();
+  const prefix = `${imageId}/`;
+  const keys = Array.from(index.keys());
+  for (const key of keys) {
+    if (key.startsWith(prefix)) {
+      totalBytes -= index.get(key) ?? 0;
+      index.delete(key);
+    }
+  }
+  fs.rm(path.join(CACHE_DIR, String(imageId)), { recursive: true, force: true }, () => {});
+}
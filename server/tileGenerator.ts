@@ -1,11 +1,16 @@
 import fs from 'fs';
 import path from 'path';
-import { execSync } from 'child_process';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
 import { objectStorageClient } from './replit_integrations/object_storage';
 
 const TILE_SIZE = 512;
 const TEMP_DIR = '/tmp/tile-temp';
 
+function gdal2tilesArgs(zoom: string): string[] {
+  return ['--profile=mercator', `--zoom=${zoom}`, '--tilesize=512', '--processes=1', '--xyz', '--resampling=bilinear', '--no-kml'];
+}
+
 export interface ImageBounds {
   north: number;
   south: number;
@@ -13,6 +18,13 @@ export interface ImageBounds {
   west: number;
 }
 
+export interface TileGenerationOptions {
+  // Definition to hand gdalwarp when the CRS was resolved outside GDAL
+  sourceSrs?: string | null;
+  // Aborting kills the running GDAL process and stops the tile upload
+  signal?: AbortSignal;
+}
+
 export interface TileGenerationResult {
   minZoom: number;
   maxZoom: number;
@@ -20,6 +32,23 @@ export interface TileGenerationResult {
   storagePath: string;
 }
 
+const execFileAsync = promisify(execFile);
+
+async function runGdal(command: string, args: string[], timeout: number, signal?: AbortSignal): Promise<string> {
+  const { stdout } = await execFileAsync(command, args, { timeout, signal, maxBuffer: 64 * 1024 * 1024 });
+  return stdout.toString();
+}
+
+async function isGeographicSource(imagePath: string, sourceSrs: string | null | undefined, signal?: AbortSignal): Promise<boolean> {
+  // CRS was resolved outside GDAL (GeoTIFF keys, EPSG database or an
+  // uploader override) so the file itself can't be trusted to describe it
+  if (sourceSrs) {
+    return sourceSrs === 'EPSG:4326' || sourceSrs.includes('+proj=longlat') || /^\s*GEOG(CS|CRS)\[/.test(sourceSrs);
+  }
+  const projInfo = await runGdal('gdalsrsinfo', ['-o', 'proj4', imagePath], 10000, signal);
+  return projInfo.includes('+proj=longlat') || projInfo.includes('EPSG:4326');
+}
+
 function getBucketId(): string {
   const bucketId = process.env.DEFAULT_OBJECT_STORAGE_BUCKET_ID;
   if (!bucketId) {
@@ -32,8 +61,10 @@ export async function generateTilesFromImage(
   imagePath: string,
   bounds: ImageBounds,
   imageId: number,
-  onProgress?: (percent: number, message: string) => void
+  onProgress?: (percent: number, message: string) => void,
+  options: TileGenerationOptions = {}
 ): Promise<TileGenerationResult> {
+  const { sourceSrs, signal } = options;
   const bucketId = getBucketId();
   const bucket = objectStorageClient.bucket(bucketId);
   const basePath = `public/drone-tiles/${imageId}`;
@@ -43,22 +74,36 @@ export async function generateTilesFromImage(
   fs.rmSync(tileDir, { recursive: true, force: true });
   fs.mkdirSync(tileDir, { recursive: true });
 
+  const wgs84File = `${TEMP_DIR}/drone_${imageId}_wgs84.tif`;
+  const abortIfRequested = () => {
+    if (!signal?.aborted) return;
+    fs.rmSync(wgs84File, { force: true });
+    fs.rmSync(tileDir, { recursive: true, force: true });
+    signal.throwIfAborted();
+  };
+
   onProgress?.(5, 'Reprojecting to WGS84...');
 
-  const wgs84File = `${TEMP_DIR}/drone_${imageId}_wgs84.tif`;
   let needsReproject = true;
   try {
-    const projInfo = execSync(`gdalsrsinfo -o proj4 "${imagePath}"`, { timeout: 10000 }).toString();
-    if (projInfo.includes('+proj=longlat') || projInfo.includes('EPSG:4326')) {
+    if (await isGeographicSource(imagePath, sourceSrs, signal)) {
       needsReproject = false;
       console.log(`Image ${imageId} is already in WGS84, skipping reprojection`);
     }
-  } catch {}
+  } catch {
+    abortIfRequested();
+  }
 
   if (needsReproject) {
     try {
-      execSync(`gdalwarp -t_srs EPSG:4326 -of GTiff -co TILED=YES -co COMPRESS=LZW -co BLOCKXSIZE=512 -co BLOCKYSIZE=512 -wm 512 "${imagePath}" "${wgs84File}"`, { timeout: 1200000 });
+      await runGdal('gdalwarp', [
+        ...(sourceSrs ? ['-s_srs', sourceSrs] : []),
+        '-t_srs', 'EPSG:4326', '-of', 'GTiff',
+        '-co', 'TILED=YES', '-co', 'COMPRESS=LZW', '-co', 'BLOCKXSIZE=512', '-co', 'BLOCKYSIZE=512',
+        '-wm', '512', imagePath, wgs84File
+      ], 1200000, signal);
     } catch (err: any) {
+      abortIfRequested();
       console.error('Reprojection failed:', err.message?.substring(0, 200));
       throw new Error('Failed to reproject GeoTIFF to WGS84');
     }
@@ -68,8 +113,9 @@ export async function generateTilesFromImage(
 
   let imgInfo: string;
   try {
-    imgInfo = execSync(`gdalinfo "${sourceFile}" -json`, { timeout: 30000 }).toString();
+    imgInfo = await runGdal('gdalinfo', [sourceFile, '-json'], 30000, signal);
   } catch {
+    abortIfRequested();
     imgInfo = '{}';
   }
   const info = JSON.parse(imgInfo);
@@ -85,36 +131,39 @@ export async function generateTilesFromImage(
 
   const smallFile = `${TEMP_DIR}/drone_${imageId}_small.tif`;
   try {
-    execSync(`gdal_translate -of GTiff -outsize 4096 0 -co TILED=YES "${sourceFile}" "${smallFile}"`, { timeout: 60000 });
-    execSync(`gdal2tiles.py --profile=mercator --zoom=${minZoom}-${Math.min(17, maxZoom)} --tilesize=512 --processes=1 --xyz --resampling=bilinear --no-kml "${smallFile}" "${tileDir}"`, { timeout: 120000 });
+    await runGdal('gdal_translate', ['-of', 'GTiff', '-outsize', '4096', '0', '-co', 'TILED=YES', sourceFile, smallFile], 60000, signal);
+    await runGdal('gdal2tiles.py', [...gdal2tilesArgs(`${minZoom}-${Math.min(17, maxZoom)}`), smallFile, tileDir], 120000, signal);
   } catch (err: any) {
     console.error('Low zoom tile generation error:', err.message?.substring(0, 200));
   } finally {
     fs.rmSync(smallFile, { force: true });
   }
+  abortIfRequested();
 
   onProgress?.(40, 'Generating medium zoom tiles...');
 
   if (maxZoom >= 18) {
     const medFile = `${TEMP_DIR}/drone_${imageId}_medium.tif`;
     try {
-      execSync(`gdal_translate -of GTiff -outsize 12000 0 -co TILED=YES "${sourceFile}" "${medFile}"`, { timeout: 60000 });
-      execSync(`gdal2tiles.py --profile=mercator --zoom=18-${Math.min(19, maxZoom)} --tilesize=512 --processes=1 --xyz --resampling=bilinear --no-kml "${medFile}" "${tileDir}"`, { timeout: 120000 });
+      await runGdal('gdal_translate', ['-of', 'GTiff', '-outsize', '12000', '0', '-co', 'TILED=YES', sourceFile, medFile], 60000, signal);
+      await runGdal('gdal2tiles.py', [...gdal2tilesArgs(`18-${Math.min(19, maxZoom)}`), medFile, tileDir], 120000, signal);
     } catch (err: any) {
       console.error('Medium zoom tile generation error:', err.message?.substring(0, 200));
     } finally {
       fs.rmSync(medFile, { force: true });
     }
+    abortIfRequested();
   }
 
   onProgress?.(60, 'Generating high zoom tiles...');
 
   if (maxZoom >= 20) {
     try {
-      execSync(`gdal2tiles.py --profile=mercator --zoom=20 --tilesize=512 --processes=1 --xyz --resampling=bilinear --no-kml "${sourceFile}" "${tileDir}"`, { timeout: 300000 });
+      await runGdal('gdal2tiles.py', [...gdal2tilesArgs('20'), sourceFile, tileDir], 300000, signal);
     } catch (err: any) {
       console.error('High zoom tile generation error:', err.message?.substring(0, 200));
     }
+    abortIfRequested();
   }
 
   fs.rmSync(wgs84File, { force: true });
@@ -140,6 +189,7 @@ export async function generateTilesFromImage(
 
   const BATCH_SIZE = 20;
   for (let i = 0; i < allTiles.length; i += BATCH_SIZE) {
+    abortIfRequested();
     const batch = allTiles.slice(i, i + BATCH_SIZE);
     await Promise.all(batch.map(async (tilePath) => {
       const relative = path.relative(tileDir, tilePath);
@@ -182,6 +232,141 @@ export async function generateTilesFromImage(
   };
 }
 
+// ==========================================
+// Elevation models (DEM / DSM)
+// ==========================================
+
+export const ELEVATION_DIR = process.env.DRONE_ELEVATION_DIR || path.join(process.cwd(), 'uploads', 'drone-elevation');
+
+// Contours are traced from a downsampled copy; survey-resolution DEMs would
+// produce lines far denser than anyone can read on a map
+const CONTOUR_SOURCE_MAX_SIZE = 2048;
+const CONTOUR_TARGET_LINES = 25;
+
+// Hypsometric ramp from valley green through tan and brown to snow. gdaldem
+// stretches the percentages over each model's own elevation range.
+const COLOR_RELIEF_RAMP = [
+  'nv 0 0 0 0',
+  '0% 46 125 70',
+  '20% 120 170 90',
+  '40% 222 214 140',
+  '60% 196 150 96',
+  '80% 140 100 80',
+  '100% 245 245 245',
+].join('\n');
+
+export interface ElevationProducts {
+  // WGS84 Float32 copy of the model, sampled by the elevation proxy
+  elevationPath: string;
+  // Rendered rasters in the source CRS, left in the temp dir for COG conversion
+  hillshadeFile: string;
+  reliefFile: string;
+  contoursPath: string;
+  contourInterval: number;
+  minElevation: number;
+  maxElevation: number;
+}
+
+// 1, 2 or 5 times a power of ten, so labels stay round numbers
+function contourIntervalFor(range: number): number {
+  const rough = Math.max(range / CONTOUR_TARGET_LINES, 0.1);
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const step = [1, 2, 5, 10].find(s => s * magnitude >= rough) ?? 10;
+  return Number((step * magnitude).toPrecision(2));
+}
+
+export function elevationPathsFor(imageId: number) {
+  return {
+    elevationPath: path.join(ELEVATION_DIR, `drone_${imageId}_dem.tif`),
+    contoursPath: path.join(ELEVATION_DIR, `drone_${imageId}_contours.geojson`),
+  };
+}
+
+/**
+ * Derive the map products for a single-band elevation GeoTIFF: a WGS84
+ * sampling copy, hillshade and color-relief rasters, and GeoJSON contours.
+ */
+export async function generateElevationProducts(
+  demPath: string,
+  imageId: number,
+  onProgress?: (percent: number, message: string) => void,
+  options: TileGenerationOptions = {}
+): Promise<ElevationProducts> {
+  const { sourceSrs, signal } = options;
+  fs.mkdirSync(ELEVATION_DIR, { recursive: true });
+  fs.mkdirSync(TEMP_DIR, { recursive: true });
+
+  const { elevationPath, contoursPath } = elevationPathsFor(imageId);
+  const partialElevation = `${elevationPath}.partial`;
+  const partialContours = `${contoursPath}.partial`;
+  const hillshadeFile = `${TEMP_DIR}/drone_${imageId}_hillshade.tif`;
+  const reliefFile = `${TEMP_DIR}/drone_${imageId}_relief.tif`;
+  const rampFile = `${TEMP_DIR}/drone_${imageId}_ramp.txt`;
+  const contourSource = `${TEMP_DIR}/drone_${imageId}_contour_src.tif`;
+  const gtiffOptions = ['-of', 'GTiff', '-co', 'TILED=YES', '-co', 'COMPRESS=DEFLATE', '-co', 'BIGTIFF=IF_SAFER'];
+
+  try {
+    onProgress?.(5, 'Reprojecting elevation model to WGS84...');
+    fs.rmSync(partialElevation, { force: true });
+    await runGdal('gdalwarp', [
+      ...(sourceSrs ? ['-s_srs', sourceSrs] : []),
+      '-t_srs', 'EPSG:4326', '-r', 'bilinear', '-ot', 'Float32', '-dstnodata', '-32768',
+      ...gtiffOptions, '-co', 'PREDICTOR=3',
+      '-wm', '512', demPath, partialElevation
+    ], 1200000, signal);
+    fs.renameSync(partialElevation, elevationPath);
+
+    const info = JSON.parse(await runGdal('gdalinfo', ['-json', '-mm', elevationPath], 300000, signal));
+    const band = info?.bands?.[0];
+    const minElevation = Number(band?.computedMin);
+    const maxElevation = Number(band?.computedMax);
+    if (!Number.isFinite(minElevation) || !Number.isFinite(maxElevation)) {
+      throw new Error('Elevation model contains no valid elevation values');
+    }
+
+    onProgress?.(25, 'Computing hillshade...');
+    // gdaldem needs metres per degree when the model is stored in lat/lng
+    const geographic = await isGeographicSource(demPath, sourceSrs, signal).catch(() => false);
+    await runGdal('gdaldem', [
+      'hillshade', '-multidirectional', '-compute_edges',
+      ...(geographic ? ['-s', '111120'] : []),
+      ...gtiffOptions, demPath, hillshadeFile
+    ], 1200000, signal);
+
+    onProgress?.(45, 'Computing color relief...');
+    fs.writeFileSync(rampFile, COLOR_RELIEF_RAMP);
+    await runGdal('gdaldem', ['color-relief', '-alpha', ...gtiffOptions, demPath, rampFile, reliefFile], 1200000, signal);
+
+    onProgress?.(65, 'Tracing contour lines...');
+    const contourInterval = contourIntervalFor(maxElevation - minElevation);
+    let contourInput = elevationPath;
+    if ((info?.size?.[0] || 0) > CONTOUR_SOURCE_MAX_SIZE || (info?.size?.[1] || 0) > CONTOUR_SOURCE_MAX_SIZE) {
+      const landscape = (info.size[0] || 0) >= (info.size[1] || 0);
+      await runGdal('gdal_translate', [
+        '-of', 'GTiff', '-r', 'average',
+        '-outsize', landscape ? String(CONTOUR_SOURCE_MAX_SIZE) : '0', landscape ? '0' : String(CONTOUR_SOURCE_MAX_SIZE),
+        elevationPath, contourSource
+      ], 300000, signal);
+      contourInput = contourSource;
+    }
+    fs.rmSync(partialContours, { force: true });
+    await runGdal('gdal_contour', ['-a', 'elevation', '-i', String(contourInterval), '-f', 'GeoJSON', contourInput, partialContours], 600000, signal);
+    fs.renameSync(partialContours, contoursPath);
+
+    onProgress?.(100, `Elevation products ready (${minElevation.toFixed(1)}–${maxElevation.toFixed(1)} m, ${contourInterval} m contours)`);
+    return { elevationPath, hillshadeFile, reliefFile, contoursPath, contourInterval, minElevation, maxElevation };
+  } catch (err) {
+    fs.rmSync(hillshadeFile, { force: true });
+    fs.rmSync(reliefFile, { force: true });
+    fs.rmSync(partialContours, { force: true });
+    throw err;
+  } finally {
+    fs.rmSync(partialElevation, { force: true });
+    fs.rmSync(rampFile, { force: true });
+    fs.rmSync(contourSource, { force: true });
+  }
+}
+
 export async function serveTile(
   imageId: number,
   z: number,
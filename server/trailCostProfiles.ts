@@ -0,0 +1,129 @@
+import { z } from 'zod';
+import type { ActivityProfile } from './trailRouting';
+
+/**
+ * Edge costs for the built-in trail router. A cost is metres of "effort":
+ * the edge length, scaled by what the way is (roads, unpaved surfaces, named
+ * trails), plus a penalty per metre climbed and descended. Ways harder than
+ * the profile allows by OSM `sac_scale` or `trail_visibility` cannot be used.
+ *
+ * Every ActivityProfile has defaults; a request can override any field.
+ */
+
+export interface CostProfile {
+  // Extra effort per metre climbed, in metres of flat travel (Naismith is about 8)
+  climbPenalty: number;
+  // Extra effort per metre descended
+  descentPenalty: number;
+  // Hardest sac_scale allowed: 1 hiking ... 6 difficult_alpine_hiking
+  maxSacScale: number;
+  // Faintest trail_visibility allowed: 1 excellent ... 6 no
+  maxVisibility: number;
+  // Make ways open to traffic three times as costly
+  avoidRoads: boolean;
+  // Make ways with a name or ref slightly cheaper than unnamed paths
+  preferNamedTrails: boolean;
+  // Multiplier on unpaved ways
+  unpavedFactor: number;
+}
+
+export interface TrailEdgeTags {
+  [key: string]: string;
+}
+
+// OSM tags kept on each cached edge for costing
+export const ROUTING_TAGS = ['highway', 'name', 'ref', 'sac_scale', 'trail_visibility', 'surface', 'route'];
+
+const AVOID_ROADS_FACTOR = 3;
+const NAMED_TRAIL_FACTOR = 0.85;
+
+const SAC_SCALE: Record<string, number> = {
+  hiking: 1,
+  mountain_hiking: 2,
+  demanding_mountain_hiking: 3,
+  alpine_hiking: 4,
+  demanding_alpine_hiking: 5,
+  difficult_alpine_hiking: 6,
+};
+
+const TRAIL_VISIBILITY: Record<string, number> = {
+  excellent: 1,
+  good: 2,
+  intermediate: 3,
+  bad: 4,
+  horrible: 5,
+  no: 6,
+};
+
+const ROAD_HIGHWAYS = ['trunk', 'primary', 'secondary', 'tertiary', 'unclassified', 'residential', 'service', 'living_street'];
+const PAVED_SURFACES = ['paved', 'asphalt', 'concrete', 'concrete:plates', 'concrete:lanes', 'paving_stones', 'sett', 'chipseal', 'metal', 'wood'];
+// Ways assumed unpaved when they carry no surface tag
+const UNPAVED_HIGHWAYS = ['path', 'track', 'bridleway'];
+
+export const DEFAULT_COST_PROFILES: Record<ActivityProfile, CostProfile> = {
+  'foot-hiking': { climbPenalty: 8, descentPenalty: 1, maxSacScale: 4, maxVisibility: 5, avoidRoads: true, preferNamedTrails: true, unpavedFactor: 1 },
+  'foot-walking': { climbPenalty: 8, descentPenalty: 1, maxSacScale: 2, maxVisibility: 3, avoidRoads: false, preferNamedTrails: false, unpavedFactor: 1 },
+  'cycling-regular': { climbPenalty: 12, descentPenalty: 0, maxSacScale: 1, maxVisibility: 3, avoidRoads: false, preferNamedTrails: false, unpavedFactor: 1.3 },
+  'cycling-mountain': { climbPenalty: 10, descentPenalty: 0, maxSacScale: 3, maxVisibility: 4, avoidRoads: true, preferNamedTrails: true, unpavedFactor: 1 },
+  'cycling-road': { climbPenalty: 12, descentPenalty: 0, maxSacScale: 1, maxVisibility: 2, avoidRoads: false, preferNamedTrails: false, unpavedFactor: 4 },
+  'cycling-electric': { climbPenalty: 4, descentPenalty: 0, maxSacScale: 1, maxVisibility: 3, avoidRoads: false, preferNamedTrails: false, unpavedFactor: 1.3 },
+};
+
+// Request overrides; anything left out keeps the activity default
+export const costProfileOverridesSchema = z.object({
+  climbPenalty: z.number().finite().min(0).max(100),
+  descentPenalty: z.number().finite().min(0).max(100),
+  maxSacScale: z.number().int().min(1).max(6),
+  maxVisibility: z.number().int().min(1).max(6),
+  avoidRoads: z.boolean(),
+  preferNamedTrails: z.boolean(),
+  unpavedFactor: z.number().finite().min(1).max(20),
+}).partial().strict();
+
+export type CostProfileOverrides = z.infer<typeof costProfileOverridesSchema>;
+
+export function resolveCostProfile(profile: ActivityProfile, overrides: CostProfileOverrides = {}): CostProfile {
+  return { ...DEFAULT_COST_PROFILES[profile], ...overrides };
+}
+
+/** Lowest possible effort per metre of distance, for an admissible A* heuristic. */
+export function minCostPerMeter(cost: CostProfile): number {
+  return cost.preferNamedTrails ? NAMED_TRAIL_FACTOR : 1;
+}
+
+/** Whether a way may be used at all under the profile's difficulty limits. */
+export function isPassable(cost: CostProfile, tags: TrailEdgeTags | null): boolean {
+  if (!tags) return true;
+  const sac = SAC_SCALE[tags.sac_scale];
+  if (sac !== undefined && sac > cost.maxSacScale) return false;
+  const visibility = TRAIL_VISIBILITY[tags.trail_visibility];
+  if (visibility !== undefined && visibility > cost.maxVisibility) return false;
+  return true;
+}
+
+function isUnpaved(tags: TrailEdgeTags): boolean {
+  if (tags.surface) return !PAVED_SURFACES.includes(tags.surface);
+  return UNPAVED_HIGHWAYS.includes(tags.highway);
+}
+
+/**
+ * Effort to travel an edge of `distance` metres that rises `rise` metres
+ * (negative going down; null when elevation is unknown). Infinity when the
+ * way is impassable.
+ */
+export function edgeCost(cost: CostProfile, distance: number, rise: number | null, tags: TrailEdgeTags | null): number {
+  if (!isPassable(cost, tags)) return Infinity;
+
+  let factor = 1;
+  if (tags) {
+    if (cost.avoidRoads && ROAD_HIGHWAYS.includes(tags.highway)) factor *= AVOID_ROADS_FACTOR;
+    if (cost.unpavedFactor !== 1 && isUnpaved(tags)) factor *= cost.unpavedFactor;
+    if (cost.preferNamedTrails && (tags.name || tags.ref)) factor *= NAMED_TRAIL_FACTOR;
+  }
+
+  let climb = 0;
+  if (rise !== null) {
+    climb = rise > 0 ? rise * cost.climbPenalty : -rise * cost.descentPenalty;
+  }
+  return distance * factor + climb;
+}
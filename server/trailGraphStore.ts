@@ -0,0 +1,413 @@
+import path from 'path';
+import zlib from 'zlib';
+import { and, asc, desc, eq, inArray, isNull, lt, sql } from 'drizzle-orm';
+import { db } from './db';
+import { trailGraphCells, trailRegions, type TrailRegion } from '@shared/schema';
+
+/**
+ * Persistent trail graph cache shared by every server instance.
+ *
+ * Graphs are stored per 0.1° cell and routing profile in `trail_graph_cells`,
+ * together with the raw OSM extract they were built from, so a cell fetched
+ * once from Overpass serves every overlapping route request afterwards and
+ * survives restarts. A small in-memory LRU sits in front of the table and
+ * re-reads it every few minutes so instances see each other's writes.
+ *
+ * Overpass cells expire after TRAIL_GRAPH_TTL_DAYS but are kept as a stale
+ * fallback for when Overpass is down, until they are twice that old or the
+ * table outgrows TRAIL_GRAPH_CACHE_MAX_MB (least recently used go first).
+ * Cells seeded from a local .osm.pbf extract belong to a `trail_regions` row,
+ * never expire and are never evicted; deleting the region deletes them.
+ */
+
+// Admins drop .osm.pbf extracts here to seed regions from
+export const TRAIL_EXTRACTS_DIR = process.env.TRAIL_EXTRACTS_DIR || path.join(process.cwd(), 'data', 'osm');
+
+const CELL_SIZE = 0.1;
+const TTL_MS = (parseFloat(process.env.TRAIL_GRAPH_TTL_DAYS || '7') || 7) * 24 * 60 * 60 * 1000;
+const MAX_CACHE_BYTES = (parseInt(process.env.TRAIL_GRAPH_CACHE_MAX_MB || '512', 10) || 512) * 1024 * 1024;
+const MAX_MEMORY_CELLS = parseInt(process.env.TRAIL_GRAPH_MEMORY_CELLS || '256', 10) || 256;
+// Memory entries are re-read after this so other instances' writes show up
+const MEMORY_REFRESH_MS = 10 * 60 * 1000;
+const EVICTION_INTERVAL_MS = 10 * 60 * 1000;
+const SAVE_BATCH_SIZE = 50;
+
+export type TrailProfileKey = 'hiking' | 'cycling';
+export type TrailCellSource = 'overpass' | 'pbf';
+
+export interface TrailCell {
+  key: string;
+  profileKey: TrailProfileKey;
+  latIndex: number;
+  lonIndex: number;
+}
+
+// Node ids, interleaved lat/lon, node elevations and index pairs with the
+// routing tags of the way each edge belongs to; distances are recomputed on load
+export interface CompactTrailGraph {
+  ids: number[];
+  coords: number[];
+  elevations?: (number | null)[];
+  edges: number[];
+  edgeWays?: number[];
+  ways?: Record<string, string>[];
+}
+
+// Overpass JSON shape, also produced by the .osm.pbf reader
+export interface OsmExtract {
+  elements: any[];
+}
+
+export interface StoredTrailCell {
+  cell: TrailCell;
+  graph: CompactTrailGraph;
+  source: TrailCellSource;
+  fetchedAt: Date;
+  fresh: boolean;
+}
+
+export interface TrailCellData {
+  cell: TrailCell;
+  osmData: OsmExtract;
+  graph: CompactTrailGraph;
+}
+
+interface MemoryCell {
+  stored: Omit<StoredTrailCell, 'fresh'>;
+  expiresAt: Date | null;
+  loadedAt: number;
+}
+
+// Map iteration order doubles as recency order: oldest first
+const memory = new Map<string, MemoryCell>();
+let lastEviction = 0;
+
+const counters = {
+  memoryHits: 0,
+  databaseHits: 0,
+  misses: 0,
+  overpassFetches: 0,
+  overpassFailures: 0,
+  staleFallbacks: 0,
+};
+
+// ========================================
+// Cells
+// ========================================
+
+export function trailCell(profileKey: TrailProfileKey, latIndex: number, lonIndex: number): TrailCell {
+  return { key: `${profileKey}_${latIndex}_${lonIndex}`, profileKey, latIndex, lonIndex };
+}
+
+export function cellIndex(degrees: number): number {
+  return Math.floor(degrees / CELL_SIZE + 1e-9);
+}
+
+/** The cells covering a bounding box, row by row from the south-west corner. */
+export function cellsForBounds(profileKey: TrailProfileKey, minLat: number, minLon: number, maxLat: number, maxLon: number): TrailCell[] {
+  const cells: TrailCell[] = [];
+  const latEnd = Math.max(cellIndex(minLat), Math.ceil(maxLat / CELL_SIZE - 1e-9) - 1);
+  const lonEnd = Math.max(cellIndex(minLon), Math.ceil(maxLon / CELL_SIZE - 1e-9) - 1);
+  for (let latIndex = cellIndex(minLat); latIndex <= latEnd; latIndex++) {
+    for (let lonIndex = cellIndex(minLon); lonIndex <= lonEnd; lonIndex++) {
+      cells.push(trailCell(profileKey, latIndex, lonIndex));
+    }
+  }
+  return cells;
+}
+
+/** Bounding box of a set of cells. */
+export function cellsBounds(cells: TrailCell[]): { minLat: number; minLon: number; maxLat: number; maxLon: number } {
+  const latIndexes = cells.map(c => c.latIndex);
+  const lonIndexes = cells.map(c => c.lonIndex);
+  const round = (value: number) => Math.round(value * 1e6) / 1e6;
+  return {
+    minLat: round(Math.min(...latIndexes) * CELL_SIZE),
+    minLon: round(Math.min(...lonIndexes) * CELL_SIZE),
+    maxLat: round((Math.max(...latIndexes) + 1) * CELL_SIZE),
+    maxLon: round((Math.max(...lonIndexes) + 1) * CELL_SIZE),
+  };
+}
+
+function encode(value: unknown): string {
+  return zlib.gzipSync(JSON.stringify(value)).toString('base64');
+}
+
+function decode<T>(value: string): T {
+  return JSON.parse(zlib.gunzipSync(Buffer.from(value, 'base64')).toString('utf8'));
+}
+
+function remember(key: string, entry: MemoryCell) {
+  memory.delete(key);
+  memory.set(key, entry);
+  while (memory.size > MAX_MEMORY_CELLS) {
+    memory.delete(memory.keys().next().value!);
+  }
+}
+
+function isFresh(expiresAt: Date | null): boolean {
+  return !expiresAt || expiresAt.getTime() > Date.now();
+}
+
+// ========================================
+// Load / save
+// ========================================
+
+/**
+ * Stored graphs for the given cells, fresh or stale. Cells with nothing
+ * stored are absent from the result.
+ */
+export async function loadTrailCells(cells: TrailCell[]): Promise<Map<string, StoredTrailCell>> {
+  const found = new Map<string, StoredTrailCell>();
+  const toRead = new Set<string>();
+
+  for (const cell of cells) {
+    const entry = memory.get(cell.key);
+    if (entry && Date.now() - entry.loadedAt < MEMORY_REFRESH_MS) {
+      remember(cell.key, entry);
+      const fresh = isFresh(entry.expiresAt);
+      found.set(cell.key, { ...entry.stored, fresh });
+      if (fresh) counters.memoryHits++;
+      else counters.misses++;
+    } else {
+      toRead.add(cell.key);
+    }
+  }
+
+  if (toRead.size > 0) {
+    const rows = await db.select({
+      cellKey: trailGraphCells.cellKey,
+      source: trailGraphCells.source,
+      graphData: trailGraphCells.graphData,
+      fetchedAt: trailGraphCells.fetchedAt,
+      expiresAt: trailGraphCells.expiresAt,
+    }).from(trailGraphCells).where(inArray(trailGraphCells.cellKey, Array.from(toRead)));
+
+    const byKey = new Map(rows.map(row => [row.cellKey, row]));
+    for (const cell of cells) {
+      if (!toRead.has(cell.key)) continue;
+      const row = byKey.get(cell.key);
+      if (!row) {
+        memory.delete(cell.key);
+        counters.misses++;
+        continue;
+      }
+
+      const stored = {
+        cell,
+        graph: decode<CompactTrailGraph>(row.graphData),
+        source: row.source as TrailCellSource,
+        fetchedAt: row.fetchedAt ?? new Date(),
+      };
+      remember(cell.key, { stored, expiresAt: row.expiresAt, loadedAt: Date.now() });
+      const fresh = isFresh(row.expiresAt);
+      found.set(cell.key, { ...stored, fresh });
+      if (fresh) counters.databaseHits++;
+      else counters.misses++;
+    }
+
+    if (rows.length > 0) {
+      await db.update(trailGraphCells)
+        .set({ lastUsedAt: new Date() })
+        .where(inArray(trailGraphCells.cellKey, rows.map(row => row.cellKey)));
+    }
+  }
+
+  return found;
+}
+
+function countEdges(graph: CompactTrailGraph): number {
+  return graph.edges.length / 2;
+}
+
+/**
+ * Store freshly built cells. Overpass results never replace seeded cells;
+ * seeded cells replace whatever was there.
+ */
+export async function saveTrailCells(
+  data: TrailCellData[],
+  options: { source: TrailCellSource; regionId?: number | null }
+): Promise<void> {
+  const now = new Date();
+  const expiresAt = options.source === 'pbf' ? null : new Date(now.getTime() + TTL_MS);
+
+  for (let i = 0; i < data.length; i += SAVE_BATCH_SIZE) {
+    const values = data.slice(i, i + SAVE_BATCH_SIZE).map(({ cell, osmData, graph }) => {
+      const graphData = encode(graph);
+      const osm = encode(osmData);
+      return {
+        cellKey: cell.key,
+        profileKey: cell.profileKey,
+        regionId: options.regionId ?? null,
+        source: options.source,
+        nodeCount: graph.ids.length,
+        edgeCount: countEdges(graph),
+        graphData,
+        osmData: osm,
+        byteSize: graphData.length + osm.length,
+        fetchedAt: now,
+        lastUsedAt: now,
+        expiresAt,
+      };
+    });
+
+    await db.insert(trailGraphCells).values(values).onConflictDoUpdate({
+      target: trailGraphCells.cellKey,
+      set: {
+        regionId: sql`excluded.region_id`,
+        source: sql`excluded.source`,
+        nodeCount: sql`excluded.node_count`,
+        edgeCount: sql`excluded.edge_count`,
+        graphData: sql`excluded.graph_data`,
+        osmData: sql`excluded.osm_data`,
+        byteSize: sql`excluded.byte_size`,
+        fetchedAt: sql`excluded.fetched_at`,
+        lastUsedAt: sql`excluded.last_used_at`,
+        expiresAt: sql`excluded.expires_at`,
+      },
+      setWhere: options.source === 'pbf' ? undefined : isNull(trailGraphCells.regionId),
+    });
+  }
+
+  for (const { cell, graph } of data) {
+    const existing = memory.get(cell.key);
+    if (options.source === 'overpass' && existing?.stored.source === 'pbf') continue;
+    remember(cell.key, { stored: { cell, graph, source: options.source, fetchedAt: now }, expiresAt, loadedAt: Date.now() });
+  }
+
+  if (options.source === 'overpass' && Date.now() - lastEviction > EVICTION_INTERVAL_MS) {
+    lastEviction = Date.now();
+    evictTrailCells().catch(err => console.error('[TrailGraphStore] Eviction failed:', err));
+  }
+}
+
+/**
+ * Drop Overpass cells older than twice the TTL, then the least recently used
+ * ones (expired first) until the table fits the size budget.
+ */
+export async function evictTrailCells(): Promise<number> {
+  const expired = await db.delete(trailGraphCells)
+    .where(and(isNull(trailGraphCells.regionId), lt(trailGraphCells.expiresAt, new Date(Date.now() - TTL_MS))))
+    .returning({ cellKey: trailGraphCells.cellKey });
+
+  const [{ total }] = await db.select({ total: sql<number>`coalesce(sum(${trailGraphCells.byteSize}), 0)::bigint` })
+    .from(trailGraphCells)
+    .where(isNull(trailGraphCells.regionId));
+  let excess = Number(total) - MAX_CACHE_BYTES;
+  const evicted = expired.map(row => row.cellKey);
+
+  if (excess > 0) {
+    const candidates = await db.select({ cellKey: trailGraphCells.cellKey, byteSize: trailGraphCells.byteSize })
+      .from(trailGraphCells)
+      .where(isNull(trailGraphCells.regionId))
+      .orderBy(desc(sql`${trailGraphCells.expiresAt} < now()`), asc(trailGraphCells.lastUsedAt));
+
+    const victims: string[] = [];
+    for (const candidate of candidates) {
+      if (excess <= 0) break;
+      victims.push(candidate.cellKey);
+      excess -= candidate.byteSize;
+    }
+    for (let i = 0; i < victims.length; i += 500) {
+      await db.delete(trailGraphCells).where(inArray(trailGraphCells.cellKey, victims.slice(i, i + 500)));
+    }
+    evicted.push(...victims);
+  }
+
+  evicted.forEach(key => memory.delete(key));
+  if (evicted.length > 0) {
+    console.log(`[TrailGraphStore] Evicted ${evicted.length} cached trail cells`);
+  }
+  return evicted.length;
+}
+
+export function noteOverpassFetch(ok: boolean): void {
+  if (ok) counters.overpassFetches++;
+  else counters.overpassFailures++;
+}
+
+export function noteStaleFallback(): void {
+  counters.staleFallbacks++;
+}
+
+// ========================================
+// Seeded regions
+// ========================================
+
+export async function listTrailRegions(): Promise<TrailRegion[]> {
+  return db.select().from(trailRegions).orderBy(desc(trailRegions.createdAt));
+}
+
+export async function getTrailRegion(id: number): Promise<TrailRegion | undefined> {
+  const [region] = await db.select().from(trailRegions).where(eq(trailRegions.id, id));
+  return region;
+}
+
+export async function createTrailRegion(values: typeof trailRegions.$inferInsert): Promise<TrailRegion> {
+  const [region] = await db.insert(trailRegions).values(values).returning();
+  return region;
+}
+
+export async function updateTrailRegion(id: number, updates: Partial<typeof trailRegions.$inferInsert>): Promise<TrailRegion | undefined> {
+  const [region] = await db.update(trailRegions).set(updates).where(eq(trailRegions.id, id)).returning();
+  return region;
+}
+
+/** Remove a region's cells, e.g. before seeding it again. */
+export async function clearTrailRegionCells(regionId: number): Promise<void> {
+  await db.delete(trailGraphCells).where(eq(trailGraphCells.regionId, regionId));
+  memory.clear();
+}
+
+export async function deleteTrailRegion(id: number): Promise<boolean> {
+  const deleted = await db.delete(trailRegions).where(eq(trailRegions.id, id)).returning({ id: trailRegions.id });
+  memory.clear();
+  return deleted.length > 0;
+}
+
+// ========================================
+// Stats
+// ========================================
+
+export async function getTrailGraphCacheStats() {
+  const rows = await db.select({
+    source: trailGraphCells.source,
+    profileKey: trailGraphCells.profileKey,
+    cells: sql<number>`count(*)::int`,
+    expired: sql<number>`count(*) filter (where ${trailGraphCells.expiresAt} < now())::int`,
+    nodes: sql<number>`coalesce(sum(${trailGraphCells.nodeCount}), 0)::bigint`,
+    bytes: sql<number>`coalesce(sum(${trailGraphCells.byteSize}), 0)::bigint`,
+  }).from(trailGraphCells).groupBy(trailGraphCells.source, trailGraphCells.profileKey);
+
+  const regions = await db.select({ status: trailRegions.status, count: sql<number>`count(*)::int` })
+    .from(trailRegions)
+    .groupBy(trailRegions.status);
+
+  const sum = (source: TrailCellSource, field: 'cells' | 'expired' | 'nodes' | 'bytes') =>
+    rows.filter(row => row.source === source).reduce((total, row) => total + Number(row[field]), 0);
+
+  return {
+    ttlDays: TTL_MS / (24 * 60 * 60 * 1000),
+    memory: { cells: memory.size, maxCells: MAX_MEMORY_CELLS },
+    overpass: {
+      cells: sum('overpass', 'cells'),
+      expiredCells: sum('overpass', 'expired'),
+      nodes: sum('overpass', 'nodes'),
+      bytes: sum('overpass', 'bytes'),
+      maxBytes: MAX_CACHE_BYTES,
+    },
+    seeded: {
+      cells: sum('pbf', 'cells'),
+      nodes: sum('pbf', 'nodes'),
+      bytes: sum('pbf', 'bytes'),
+      regions: Object.fromEntries(regions.map(row => [row.status, row.count])),
+    },
+    byProfile: rows.map(row => ({
+      profile: row.profileKey,
+      source: row.source,
+      cells: row.cells,
+      nodes: Number(row.nodes),
+    })),
+    counters: { ...counters },
+  };
+}
@@ -1,11 +1,45 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { scanOsmPbf } from './osmPbf';
+import { sampleElevations } from './terrainAnalysis';
+import {
+  edgeCost,
+  isPassable,
+  minCostPerMeter,
+  resolveCostProfile,
+  ROUTING_TAGS,
+  type CostProfile,
+  type CostProfileOverrides,
+  type TrailEdgeTags,
+} from './trailCostProfiles';
+import {
+  cellIndex,
+  cellsBounds,
+  cellsForBounds,
+  clearTrailRegionCells,
+  loadTrailCells,
+  noteOverpassFetch,
+  noteStaleFallback,
+  saveTrailCells,
+  trailCell,
+  type CompactTrailGraph,
+  type StoredTrailCell,
+  type TrailCell,
+  type TrailCellData,
+  type TrailProfileKey,
+} from './trailGraphStore';
+
+interface TrailEdge {
+  distance: number; // meters
+  tags: TrailEdgeTags | null; // Routing tags of the OSM way
+}
 
 interface TrailNode {
   id: string;
   lat: number;
   lon: number;
-  neighbors: Map<string, number>; // nodeId -> distance in meters
+  elevation: number | null; // meters, from DEM tiles
+  neighbors: Map<string, TrailEdge>; // nodeId -> edge
 }
 
 interface TrailGraph {
@@ -14,17 +48,68 @@ interface TrailGraph {
   lastUpdated: Date;
 }
 
-interface RouteResult {
+export interface RouteResult {
   coordinates: [number, number][]; // [lng, lat] pairs
   distance: number; // meters
   success: boolean;
   message?: string;
   elevationGain?: number; // meters
   elevationLoss?: number; // meters
+  cost?: number; // effort under the cost profile, in meters of flat travel
+  alternatives?: RouteAlternative[];
+}
+
+export interface RouteAlternative {
+  coordinates: [number, number][]; // [lng, lat] pairs
+  distance: number; // meters
+  cost: number;
+  elevationGain?: number; // meters
+  elevationLoss?: number; // meters
+}
+
+export interface TrailRouteOptions {
+  cost?: CostProfileOverrides;
+  // Extra routes to look for besides the best one
+  alternatives?: number;
+}
+
+export type LoopShape = 'loop' | 'out_and_back';
+
+export interface LoopRouteRequest {
+  start: [number, number]; // [lng, lat]
+  profile?: ActivityProfile;
+  targetDistance?: number; // meters
+  targetClimb?: number; // meters of elevation gain
+  shapes?: LoopShape[]; // default both
+  count?: number; // routes to return, default 5
+  cost?: CostProfileOverrides;
+}
+
+export interface GeneratedRoute {
+  shape: LoopShape;
+  coordinates: [number, number][]; // [lng, lat] pairs, starting and ending at the start point
+  waypoints: [number, number][]; // start, via points or turnaround, finish
+  distance: number; // meters
+  cost: number;
+  elevationGain?: number; // meters
+  elevationLoss?: number; // meters
+  repeatedDistance: number; // meters travelled more than once
+  score: number; // lower is better: relative miss of each target plus the repeated fraction
 }
 
-// In-memory cache for trail graphs by region
-const trailGraphCache = new Map<string, TrailGraph>();
+export interface LoopRouteResult {
+  success: boolean;
+  message?: string;
+  routes: GeneratedRoute[];
+}
+
+interface OsmWay {
+  id: number;
+  nodes: number[];
+  tags?: Record<string, string>;
+}
+
+type Bounds = { minLat: number; minLon: number; maxLat: number; maxLon: number };
 
 // Calculate distance between two coordinates using Haversine formula
 function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
@@ -96,6 +181,24 @@ function buildOverpassQuery(minLat: number, minLon: number, maxLat: number, maxL
   `;
 }
 
+function trailProfileKey(profile: ActivityProfile): TrailProfileKey {
+  return profile.startsWith('cycling') ? 'cycling' : 'hiking';
+}
+
+const CYCLING_HIGHWAYS = ['cycleway', 'residential', 'unclassified', 'tertiary', 'secondary', 'service'];
+const HIKING_HIGHWAYS = ['path', 'footway', 'track', 'bridleway'];
+
+// Same selection as buildOverpassQuery, for ways read from a local extract
+function wayMatchesProfile(tags: Record<string, string>, profileKey: TrailProfileKey): boolean {
+  if (profileKey === 'cycling') {
+    return CYCLING_HIGHWAYS.includes(tags.highway)
+      || ((tags.highway === 'path' || tags.highway === 'track') && tags.bicycle !== 'no')
+      || tags.route === 'bicycle'
+      || tags.cycleway !== undefined;
+  }
+  return HIKING_HIGHWAYS.includes(tags.highway) || tags.route === 'hiking' || tags.sac_scale !== undefined;
+}
+
 // Fetch trail data from OpenStreetMap Overpass API with retry logic
 async function fetchOSMTrails(minLat: number, minLon: number, maxLat: number, maxLon: number, profile: ActivityProfile = 'foot-hiking'): Promise<any> {
   const query = buildOverpassQuery(minLat, minLon, maxLat, maxLon, profile);
@@ -143,70 +246,166 @@ async function fetchOSMTrails(minLat: number, minLon: number, maxLat: number, ma
   throw lastError || new Error('All Overpass API endpoints failed');
 }
 
-// Build a graph from OSM data
-function buildGraphFromOSM(osmData: any, bounds: { minLat: number; maxLat: number; minLon: number; maxLon: number }): TrailGraph {
-  const nodes = new Map<string, TrailNode>();
-  const nodeCoords = new Map<number, { lat: number; lon: number }>();
+// ========================================
+// Cached cells
+// ========================================
 
-  // First pass: extract all node coordinates
-  for (const element of osmData.elements) {
-    if (element.type === 'node') {
-      nodeCoords.set(element.id, { lat: element.lat, lon: element.lon });
+function routingTags(tags: Record<string, string> | undefined): Record<string, string> {
+  const kept: Record<string, string> = {};
+  for (const key of ROUTING_TAGS) {
+    if (tags?.[key] !== undefined) kept[key] = tags[key];
+  }
+  return kept;
+}
+
+// Compact graph of the ways in a cell; ways crossing the edge keep all their nodes
+function compactGraphFromWays(ways: OsmWay[], nodeCoords: Map<number, { lat: number; lon: number }>): CompactTrailGraph {
+  const graph: CompactTrailGraph = { ids: [], coords: [], edges: [], edgeWays: [], ways: [] };
+  const indexes = new Map<number, number>();
+  const seenEdges = new Set<string>();
+
+  const indexOf = (id: number, coords: { lat: number; lon: number }) => {
+    let index = indexes.get(id);
+    if (index === undefined) {
+      index = graph.ids.length;
+      indexes.set(id, index);
+      graph.ids.push(id);
+      graph.coords.push(coords.lat, coords.lon);
     }
+    return index;
+  };
+
+  for (const way of ways) {
+    const wayIndex = graph.ways!.length;
+    let used = false;
+    for (let i = 0; i < way.nodes.length - 1; i++) {
+      const coordsA = nodeCoords.get(way.nodes[i]);
+      const coordsB = nodeCoords.get(way.nodes[i + 1]);
+      if (!coordsA || !coordsB || way.nodes[i] === way.nodes[i + 1]) continue;
+
+      const a = indexOf(way.nodes[i], coordsA);
+      const b = indexOf(way.nodes[i + 1], coordsB);
+      const edgeKey = a < b ? `${a}_${b}` : `${b}_${a}`;
+      if (seenEdges.has(edgeKey)) continue;
+      seenEdges.add(edgeKey);
+      graph.edges.push(a, b);
+      graph.edgeWays!.push(wayIndex);
+      used = true;
+    }
+    if (used) graph.ways!.push(routingTags(way.tags));
   }
 
-  // Second pass: build edges from ways
-  for (const element of osmData.elements) {
-    if (element.type === 'way' && element.nodes && element.nodes.length >= 2) {
-      const wayNodes = element.nodes;
-      
-      for (let i = 0; i < wayNodes.length - 1; i++) {
-        const nodeIdA = wayNodes[i];
-        const nodeIdB = wayNodes[i + 1];
-        const coordsA = nodeCoords.get(nodeIdA);
-        const coordsB = nodeCoords.get(nodeIdB);
-
-        if (!coordsA || !coordsB) continue;
-
-        const nodeKeyA = `${nodeIdA}`;
-        const nodeKeyB = `${nodeIdB}`;
-
-        // Create or get node A
-        if (!nodes.has(nodeKeyA)) {
-          nodes.set(nodeKeyA, {
-            id: nodeKeyA,
-            lat: coordsA.lat,
-            lon: coordsA.lon,
-            neighbors: new Map()
-          });
-        }
+  return graph;
+}
 
-        // Create or get node B
-        if (!nodes.has(nodeKeyB)) {
-          nodes.set(nodeKeyB, {
-            id: nodeKeyB,
-            lat: coordsB.lat,
-            lon: coordsB.lon,
-            neighbors: new Map()
-          });
-        }
+// Sample node elevations from DEM tiles; nodes stay null where there is no data
+async function attachElevations(cells: TrailCellData[]): Promise<void> {
+  for (const { graph } of cells) {
+    const points = graph.ids.map((_, i) => [graph.coords[i * 2 + 1], graph.coords[i * 2]] as [number, number]);
+    graph.elevations = points.length > 0 ? await sampleElevations(points) : [];
+  }
+}
+
+/**
+ * Group ways into the cells their nodes fall in, keeping only accepted
+ * cells. Every cell in `emptyCells` is returned even if no way touches it, so
+ * empty areas are cached too.
+ */
+function splitWaysIntoCells(
+  profileKey: TrailProfileKey,
+  ways: OsmWay[],
+  nodeCoords: Map<number, { lat: number; lon: number }>,
+  accept: (cell: TrailCell) => boolean,
+  emptyCells: TrailCell[] = []
+): TrailCellData[] {
+  const buckets = new Map<string, { cell: TrailCell; ways: OsmWay[] }>();
+  emptyCells.forEach(cell => buckets.set(cell.key, { cell, ways: [] }));
+
+  for (const way of ways) {
+    const touched = new Set<string>();
+    for (const id of way.nodes) {
+      const coords = nodeCoords.get(id);
+      if (!coords) continue;
+      const cell = trailCell(profileKey, cellIndex(coords.lat), cellIndex(coords.lon));
+      if (touched.has(cell.key)) continue;
+      touched.add(cell.key);
+
+      let bucket = buckets.get(cell.key);
+      if (!bucket) {
+        if (!accept(cell)) continue;
+        bucket = { cell, ways: [] };
+        buckets.set(cell.key, bucket);
+      }
+      bucket.ways.push(way);
+    }
+  }
+
+  return Array.from(buckets.values()).map(({ cell, ways: cellWays }) => {
+    const nodeIds = new Set<number>();
+    cellWays.forEach(way => way.nodes.forEach(id => nodeIds.add(id)));
+    const nodes = Array.from(nodeIds)
+      .filter(id => nodeCoords.has(id))
+      .map(id => ({ type: 'node', id, ...nodeCoords.get(id)! }));
+    const osmWays = cellWays.map(way => ({ type: 'way', id: way.id, nodes: way.nodes, tags: way.tags }));
+    return {
+      cell,
+      osmData: { elements: [...nodes, ...osmWays] },
+      graph: compactGraphFromWays(cellWays, nodeCoords),
+    };
+  });
+}
 
-        // Calculate distance
-        const distance = haversineDistance(coordsA.lat, coordsA.lon, coordsB.lat, coordsB.lon);
+// Split an Overpass response into the requested cells
+function splitOverpassIntoCells(profileKey: TrailProfileKey, osmData: any, cells: TrailCell[]): TrailCellData[] {
+  const nodeCoords = new Map<number, { lat: number; lon: number }>();
+  const ways: OsmWay[] = [];
+  for (const element of osmData.elements || []) {
+    if (element.type === 'node') {
+      nodeCoords.set(element.id, { lat: element.lat, lon: element.lon });
+    } else if (element.type === 'way' && element.nodes && element.nodes.length >= 2) {
+      ways.push({ id: element.id, nodes: element.nodes, tags: element.tags });
+    }
+  }
+  return splitWaysIntoCells(profileKey, ways, nodeCoords, () => false, cells);
+}
+
+// Join cell graphs into one routable graph; shared OSM node ids stitch the cells together
+function graphFromCells(cells: StoredTrailCell[], bounds: Bounds): TrailGraph {
+  const nodes = new Map<string, TrailNode>();
 
-        // Add bidirectional edges
-        nodes.get(nodeKeyA)!.neighbors.set(nodeKeyB, distance);
-        nodes.get(nodeKeyB)!.neighbors.set(nodeKeyA, distance);
+  for (const { graph } of cells) {
+    const keys = graph.ids.map((id, i) => {
+      const key = `${id}`;
+      const elevation = graph.elevations?.[i] ?? null;
+      const existing = nodes.get(key);
+      if (!existing) {
+        nodes.set(key, { id: key, lat: graph.coords[i * 2], lon: graph.coords[i * 2 + 1], elevation, neighbors: new Map() });
+      } else if (existing.elevation === null) {
+        existing.elevation = elevation;
       }
+      return key;
+    });
+
+    for (let i = 0; i < graph.edges.length; i += 2) {
+      const nodeA = nodes.get(keys[graph.edges[i]])!;
+      const nodeB = nodes.get(keys[graph.edges[i + 1]])!;
+      const wayIndex = graph.edgeWays?.[i / 2];
+      const edge: TrailEdge = {
+        distance: haversineDistance(nodeA.lat, nodeA.lon, nodeB.lat, nodeB.lon),
+        tags: wayIndex !== undefined ? graph.ways?.[wayIndex] ?? null : null,
+      };
+      nodeA.neighbors.set(nodeB.id, edge);
+      nodeB.neighbors.set(nodeA.id, edge);
     }
   }
 
-  console.log(`Built trail graph with ${nodes.size} nodes`);
+  console.log(`Built trail graph with ${nodes.size} nodes from ${cells.length} cells`);
 
+  const fetchedTimes = cells.map(cell => cell.fetchedAt.getTime());
   return {
     nodes,
-    bounds,
-    lastUpdated: new Date()
+    bounds: { minLat: bounds.minLat, maxLat: bounds.maxLat, minLon: bounds.minLon, maxLon: bounds.maxLon },
+    lastUpdated: new Date(fetchedTimes.length > 0 ? Math.min(...fetchedTimes) : Date.now())
   };
 }
 
@@ -257,11 +456,13 @@ function findNearestEdgeAndSnap(
   lat: number, 
   lon: number, 
   maxDistance: number = 500,
-  snapId: string
+  snapId: string,
+  canUse: (edge: TrailEdge) => boolean = () => true
 ): EdgeSnapResult | null {
   let bestResult: { 
     nodeA: TrailNode; 
     nodeB: TrailNode; 
+    edge: TrailEdge;
     projLat: number; 
     projLon: number;
     t: number;
@@ -272,11 +473,13 @@ function findNearestEdgeAndSnap(
   const visited = new Set<string>();
   
   for (const nodeA of Array.from(graph.nodes.values())) {
-    for (const [neighborId, _] of Array.from(nodeA.neighbors.entries())) {
+    for (const [neighborId, edge] of Array.from(nodeA.neighbors.entries())) {
       // Create a unique edge key to avoid checking the same edge twice
       const edgeKey = nodeA.id < neighborId ? `${nodeA.id}-${neighborId}` : `${neighborId}-${nodeA.id}`;
       if (visited.has(edgeKey)) continue;
       visited.add(edgeKey);
+      // Don't snap onto ways the route may not use
+      if (!canUse(edge)) continue;
       
       const nodeB = graph.nodes.get(neighborId);
       if (!nodeB) continue;
@@ -291,6 +494,7 @@ function findNearestEdgeAndSnap(
         bestResult = {
           nodeA,
           nodeB,
+          edge,
           projLat: result.lat,
           projLon: result.lon,
           t: result.t,
@@ -313,24 +517,28 @@ function findNearestEdgeAndSnap(
   }
   
   // Create a new node at the projection point and splice it into the graph
+  const { nodeA, nodeB, t } = bestResult;
   const newNode: TrailNode = {
     id: snapId,
     lat: bestResult.projLat,
     lon: bestResult.projLon,
+    elevation: nodeA.elevation !== null && nodeB.elevation !== null
+      ? nodeA.elevation + (nodeB.elevation - nodeA.elevation) * t
+      : null,
     neighbors: new Map()
   };
   
-  // Calculate distances from new node to both endpoints
-  const distToA = haversineDistance(newNode.lat, newNode.lon, bestResult.nodeA.lat, bestResult.nodeA.lon);
-  const distToB = haversineDistance(newNode.lat, newNode.lon, bestResult.nodeB.lat, bestResult.nodeB.lon);
+  // Both halves keep the tags of the way they split
+  const edgeToA: TrailEdge = { distance: haversineDistance(newNode.lat, newNode.lon, nodeA.lat, nodeA.lon), tags: bestResult.edge.tags };
+  const edgeToB: TrailEdge = { distance: haversineDistance(newNode.lat, newNode.lon, nodeB.lat, nodeB.lon), tags: bestResult.edge.tags };
   
   // Connect new node to both endpoints
-  newNode.neighbors.set(bestResult.nodeA.id, distToA);
-  newNode.neighbors.set(bestResult.nodeB.id, distToB);
+  newNode.neighbors.set(nodeA.id, edgeToA);
+  newNode.neighbors.set(nodeB.id, edgeToB);
   
   // Update the existing nodes to connect to the new node
-  bestResult.nodeA.neighbors.set(newNode.id, distToA);
-  bestResult.nodeB.neighbors.set(newNode.id, distToB);
+  nodeA.neighbors.set(newNode.id, edgeToA);
+  nodeB.neighbors.set(newNode.id, edgeToB);
   
   // Remove the direct edge between A and B (traffic now goes through new node)
   bestResult.nodeA.neighbors.delete(bestResult.nodeB.id);
@@ -359,7 +567,7 @@ function findNearestNode(graph: TrailGraph, lat: number, lon: number, maxDistanc
   return nearest;
 }
 
-// Simple priority queue implementation for Dijkstra
+// Simple priority queue implementation for A*
 class PriorityQueue {
   private heap: { id: string; priority: number }[] = [];
 
@@ -411,62 +619,83 @@ class PriorityQueue {
   }
 }
 
-// Dijkstra's algorithm for shortest path with priority queue for O(E log V) performance
-function dijkstra(graph: TrailGraph, startId: string, endId: string): { path: string[]; distance: number } | null {
-  // Check if start and end nodes exist
-  if (!graph.nodes.has(startId) || !graph.nodes.has(endId)) {
+function edgeKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+function edgeRise(from: TrailNode, to: TrailNode): number | null {
+  return from.elevation !== null && to.elevation !== null ? to.elevation - from.elevation : null;
+}
+
+/**
+ * A* over edge costs from the cost profile. The heuristic is the straight-line
+ * distance times the cheapest possible cost per metre, so it never
+ * overestimates. `penalties` multiplies the cost of listed edges, which is how
+ * alternatives are pushed off the routes already found.
+ */
+function aStar(
+  graph: TrailGraph,
+  startId: string,
+  endId: string,
+  cost: CostProfile,
+  penalties?: Map<string, number>
+): { path: string[]; distance: number; cost: number } | null {
+  const start = graph.nodes.get(startId);
+  const end = graph.nodes.get(endId);
+  if (!start || !end) {
     return null;
   }
 
+  const minFactor = minCostPerMeter(cost);
+  const heuristic = (node: TrailNode) => haversineDistance(node.lat, node.lon, end.lat, end.lon) * minFactor;
+
+  const costs = new Map<string, number>();
   const distances = new Map<string, number>();
   const previous = new Map<string, string>();
   const visited = new Set<string>();
   const pq = new PriorityQueue();
 
-  // Initialize
+  costs.set(startId, 0);
   distances.set(startId, 0);
-  pq.push(startId, 0);
+  pq.push(startId, heuristic(start));
 
   while (!pq.isEmpty()) {
     const current = pq.pop();
     if (!current) break;
 
-    const { id: currentId, priority: currentDist } = current;
-
-    // Skip if already visited
+    const currentId = current.id;
     if (visited.has(currentId)) continue;
     visited.add(currentId);
 
-    // Early exit if we reached destination
     if (currentId === endId) {
-      // Reconstruct path
       const path: string[] = [];
       let node: string | undefined = endId;
       while (node) {
         path.unshift(node);
         node = previous.get(node);
       }
-      return { path, distance: distances.get(endId)! };
+      return { path, distance: distances.get(endId)!, cost: costs.get(endId)! };
     }
 
-    // Skip if we've found a shorter path since this was queued
-    if (currentDist > (distances.get(currentId) ?? Infinity)) continue;
-
-    // Update neighbors
     const currentNode = graph.nodes.get(currentId);
     if (!currentNode) continue;
+    const currentCost = costs.get(currentId)!;
 
-    const neighbors = Array.from(currentNode.neighbors.entries());
-    for (const [neighborId, edgeDistance] of neighbors) {
+    for (const [neighborId, edge] of Array.from(currentNode.neighbors.entries())) {
       if (visited.has(neighborId)) continue;
+      const neighbor = graph.nodes.get(neighborId);
+      if (!neighbor) continue;
 
-      const newDist = currentDist + edgeDistance;
-      const oldDist = distances.get(neighborId) ?? Infinity;
-      
-      if (newDist < oldDist) {
-        distances.set(neighborId, newDist);
+      let stepCost = edgeCost(cost, edge.distance, edgeRise(currentNode, neighbor), edge.tags);
+      if (stepCost === Infinity) continue;
+      stepCost *= penalties?.get(edgeKey(currentId, neighborId)) ?? 1;
+
+      const newCost = currentCost + stepCost;
+      if (newCost < (costs.get(neighborId) ?? Infinity)) {
+        costs.set(neighborId, newCost);
+        distances.set(neighborId, distances.get(currentId)! + edge.distance);
         previous.set(neighborId, currentId);
-        pq.push(neighborId, newDist);
+        pq.push(neighborId, newCost + heuristic(neighbor));
       }
     }
   }
@@ -474,7 +703,19 @@ function dijkstra(graph: TrailGraph, startId: string, endId: string): { path: st
   return null;
 }
 
-async function fetchElevationForCoordinates(coordinates: [number, number][]): Promise<{ elevationGain: number; elevationLoss: number }> {
+// Unpenalized cost of a node path
+function pathCost(graph: TrailGraph, path: string[], cost: CostProfile): number {
+  let total = 0;
+  for (let i = 1; i < path.length; i++) {
+    const from = graph.nodes.get(path[i - 1])!;
+    const to = graph.nodes.get(path[i])!;
+    const edge = from.neighbors.get(to.id)!;
+    total += edgeCost(cost, edge.distance, edgeRise(from, to), edge.tags);
+  }
+  return total;
+}
+
+export async function fetchElevationForCoordinates(coordinates: [number, number][]): Promise<{ elevationGain: number; elevationLoss: number }> {
   if (coordinates.length < 2) {
     return { elevationGain: 0, elevationLoss: 0 };
   }
@@ -537,31 +778,254 @@ async function fetchElevationForCoordinates(coordinates: [number, number][]): Pr
   }
 }
 
-// Get or create trail graph for a region
+/**
+ * Get the trail graph for a region. Cells come from the shared cache; any
+ * missing or expired ones are fetched from Overpass in one query and stored.
+ * If Overpass is down, whatever is cached (stale or seeded) is used instead.
+ */
 export async function getTrailGraph(minLat: number, minLon: number, maxLat: number, maxLon: number, profile: ActivityProfile = 'foot-hiking'): Promise<TrailGraph> {
-  const profileKey = profile.startsWith('cycling') ? 'cycling' : 'hiking';
-  const cacheKey = `${profileKey}_${Math.floor(minLat * 10)}_${Math.floor(minLon * 10)}_${Math.ceil(maxLat * 10)}_${Math.ceil(maxLon * 10)}`;
-  
-  const cached = trailGraphCache.get(cacheKey);
-  if (cached) {
-    const age = Date.now() - cached.lastUpdated.getTime();
-    if (age < 24 * 60 * 60 * 1000) {
-      console.log(`Using cached trail graph (${profileKey}): ${cached.nodes.size} nodes`);
-      return cached;
+  const profileKey = trailProfileKey(profile);
+  const cells = cellsForBounds(profileKey, minLat, minLon, maxLat, maxLon);
+
+  let stored = new Map<string, StoredTrailCell>();
+  try {
+    stored = await loadTrailCells(cells);
+  } catch (error) {
+    console.error('Trail graph cache unavailable:', error);
+  }
+
+  const missing = cells.filter(cell => !stored.get(cell.key)?.fresh);
+  if (missing.length === 0) {
+    console.log(`Using cached trail graph (${profileKey}): ${cells.length} cells`);
+  } else {
+    // Fetch whole cells so each stored cell is complete
+    const fetchBounds = cellsBounds(missing);
+    console.log(`Fetching fresh trail data from OpenStreetMap for profile: ${profile} (${missing.length} of ${cells.length} cells)...`);
+
+    let osmData: any = null;
+    try {
+      osmData = await fetchOSMTrails(fetchBounds.minLat, fetchBounds.minLon, fetchBounds.maxLat, fetchBounds.maxLon, profile);
+      noteOverpassFetch(true);
+    } catch (error) {
+      noteOverpassFetch(false);
+      if (stored.size === 0) throw error;
+      noteStaleFallback();
+      console.warn(`Overpass unavailable, routing on ${stored.size} of ${cells.length} cached cells: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (osmData) {
+      const fetched = splitOverpassIntoCells(profileKey, osmData, missing);
+      await attachElevations(fetched);
+      const fetchedAt = new Date();
+      fetched.forEach(({ cell, graph }) => stored.set(cell.key, { cell, graph, source: 'overpass', fetchedAt, fresh: true }));
+      try {
+        await saveTrailCells(fetched, { source: 'overpass' });
+      } catch (error) {
+        console.error('Failed to cache trail cells:', error);
+      }
     }
   }
 
-  console.log(`Fetching fresh trail data from OpenStreetMap for profile: ${profile}...`);
-  const osmData = await fetchOSMTrails(minLat, minLon, maxLat, maxLon, profile);
-  const graph = buildGraphFromOSM(osmData, { minLat, maxLat, minLon, maxLon });
-  
-  trailGraphCache.set(cacheKey, graph);
-  
-  return graph;
+  return graphFromCells(Array.from(stored.values()), { minLat, minLon, maxLat, maxLon });
+}
+
+/**
+ * Seed a region's cells from a local .osm.pbf extract so routing there never
+ * needs Overpass. Reads the file twice (ways, then the nodes they use) and
+ * replaces any cells the region had before. Without a clip box the whole
+ * extract is seeded. Returns the number of cells stored and their extent.
+ */
+export async function seedTrailRegionFromPbf(
+  regionId: number,
+  filePath: string,
+  clip: Bounds | null,
+  options: { signal?: AbortSignal; onProgress?: (percent: number, step: string) => void } = {}
+): Promise<{ cellCount: number; bounds: Bounds | null }> {
+  const { signal, onProgress } = options;
+  const profileKeys: TrailProfileKey[] = ['hiking', 'cycling'];
+  const waysByProfile = new Map<TrailProfileKey, OsmWay[]>(profileKeys.map(key => [key, []]));
+  const wantedNodes = new Set<number>();
+
+  await scanOsmPbf(filePath, {
+    onWay: (id, tags, refs) => {
+      if (refs.length < 2) return;
+      const matches = profileKeys.filter(key => wayMatchesProfile(tags, key));
+      if (matches.length === 0) return;
+      const way = { id, nodes: refs, tags };
+      matches.forEach(key => waysByProfile.get(key)!.push(way));
+      refs.forEach(ref => wantedNodes.add(ref));
+    },
+  }, { signal, onProgress: fraction => onProgress?.(Math.round(fraction * 45), 'Reading trail ways') });
+
+  const nodeCoords = new Map<number, { lat: number; lon: number }>();
+  await scanOsmPbf(filePath, {
+    onNode: (id, lat, lon) => {
+      if (wantedNodes.has(id)) nodeCoords.set(id, { lat, lon });
+    },
+  }, { signal, onProgress: fraction => onProgress?.(45 + Math.round(fraction * 45), 'Reading trail nodes') });
+  wantedNodes.clear();
+
+  let bounds = clip;
+  if (!bounds && nodeCoords.size > 0) {
+    bounds = { minLat: 90, minLon: 180, maxLat: -90, maxLon: -180 };
+    for (const { lat, lon } of Array.from(nodeCoords.values())) {
+      bounds.minLat = Math.min(bounds.minLat, lat);
+      bounds.minLon = Math.min(bounds.minLon, lon);
+      bounds.maxLat = Math.max(bounds.maxLat, lat);
+      bounds.maxLon = Math.max(bounds.maxLon, lon);
+    }
+  }
+
+  await clearTrailRegionCells(regionId);
+  if (!bounds) return { cellCount: 0, bounds: null };
+
+  let cellCount = 0;
+  for (const profileKey of profileKeys) {
+    if (signal?.aborted) throw new Error('Cancelled');
+    // Every cell in the region is stored, trails or not, so none of them falls back to Overpass
+    const regionCells = cellsForBounds(profileKey, bounds.minLat, bounds.minLon, bounds.maxLat, bounds.maxLon);
+    const inRegion = new Set(regionCells.map(cell => cell.key));
+    const cells = splitWaysIntoCells(profileKey, waysByProfile.get(profileKey)!, nodeCoords, cell => inRegion.has(cell.key), regionCells);
+    onProgress?.(profileKey === 'hiking' ? 91 : 95, `Sampling elevations for ${cells.length} ${profileKey} cells`);
+    await attachElevations(cells);
+    onProgress?.(profileKey === 'hiking' ? 93 : 97, `Storing ${cells.length} ${profileKey} cells`);
+    await saveTrailCells(cells, { source: 'pbf', regionId });
+    cellCount += cells.length;
+  }
+
+  return { cellCount, bounds };
+}
+
+const MAX_ALTERNATIVES = 3;
+// Cost multiplier on edges of routes already found, to push the next search elsewhere
+const ALTERNATIVE_PENALTY = 2;
+// Alternatives may cost at most this much more than the best route...
+const MAX_ALTERNATIVE_COST_RATIO = 1.5;
+// ...and share at most this fraction of their length with an earlier route
+const MAX_ALTERNATIVE_OVERLAP = 0.7;
+
+interface LegRoute {
+  legs: string[][]; // node ids per leg between consecutive waypoints
+  distance: number;
+  cost: number;
+}
+
+// Working copy of a graph that snap nodes can be spliced into without
+// touching the cached version
+function cloneGraph(graph: TrailGraph): TrailGraph {
+  const copy: TrailGraph = {
+    nodes: new Map(),
+    bounds: graph.bounds,
+    lastUpdated: graph.lastUpdated
+  };
+  for (const [id, node] of Array.from(graph.nodes.entries())) {
+    copy.nodes.set(id, {
+      id: node.id,
+      lat: node.lat,
+      lon: node.lon,
+      elevation: node.elevation,
+      neighbors: new Map(node.neighbors)
+    });
+  }
+  return copy;
 }
 
-// Calculate shortest path between waypoints on trails
-export async function calculateTrailRoute(waypoints: [number, number][], profile: ActivityProfile = 'foot-hiking'): Promise<RouteResult> {
+function routeLegs(graph: TrailGraph, stops: TrailNode[], cost: CostProfile, penalties?: Map<string, number>): LegRoute | { failedLeg: number } {
+  const route: LegRoute = { legs: [], distance: 0, cost: 0 };
+  for (let i = 0; i < stops.length - 1; i++) {
+    const result = aStar(graph, stops[i].id, stops[i + 1].id, cost, penalties);
+    if (!result) return { failedLeg: i };
+    route.legs.push(result.path);
+    route.distance += result.distance;
+    route.cost += penalties ? pathCost(graph, result.path, cost) : result.cost;
+  }
+  return route;
+}
+
+// Path coordinates from the first waypoint to the last, without repeated points
+function legsToCoordinates(graph: TrailGraph, route: LegRoute, waypoints: [number, number][]): [number, number][] {
+  const fullPath: [number, number][] = [waypoints[0]];
+  const samePoint = (a: [number, number], b: [number, number]) =>
+    Math.abs(a[0] - b[0]) < 0.000001 && Math.abs(a[1] - b[1]) < 0.000001;
+
+  for (const leg of route.legs) {
+    for (const nodeId of leg) {
+      const node = graph.nodes.get(nodeId)!;
+      const coord: [number, number] = [node.lon, node.lat];
+      if (!samePoint(fullPath[fullPath.length - 1], coord)) {
+        fullPath.push(coord);
+      }
+    }
+  }
+
+  const endWaypoint = waypoints[waypoints.length - 1];
+  if (!samePoint(fullPath[fullPath.length - 1], endWaypoint)) {
+    fullPath.push(endWaypoint);
+  }
+  return fullPath;
+}
+
+// Edge key -> length for every edge a route uses
+function routeEdges(graph: TrailGraph, route: LegRoute): Map<string, number> {
+  const edges = new Map<string, number>();
+  for (const leg of route.legs) {
+    for (let i = 1; i < leg.length; i++) {
+      edges.set(edgeKey(leg[i - 1], leg[i]), graph.nodes.get(leg[i - 1])!.neighbors.get(leg[i])!.distance);
+    }
+  }
+  return edges;
+}
+
+/**
+ * Look for routes that differ meaningfully from the best one by making the
+ * edges of every route found so far more costly and searching again.
+ */
+function findAlternativeRoutes(graph: TrailGraph, stops: TrailNode[], cost: CostProfile, best: LegRoute, count: number): LegRoute[] {
+  const penalties = new Map<string, number>();
+  const penalize = (edges: Map<string, number>) => {
+    for (const key of Array.from(edges.keys())) {
+      penalties.set(key, (penalties.get(key) ?? 1) * ALTERNATIVE_PENALTY);
+    }
+  };
+
+  const found: Map<string, number>[] = [routeEdges(graph, best)];
+  penalize(found[0]);
+  const alternatives: LegRoute[] = [];
+
+  for (let attempt = 0; attempt < count * 3 && alternatives.length < count; attempt++) {
+    const candidate = routeLegs(graph, stops, cost, penalties);
+    if ('failedLeg' in candidate || candidate.cost > best.cost * MAX_ALTERNATIVE_COST_RATIO) break;
+
+    const edges = routeEdges(graph, candidate);
+    penalize(edges);
+
+    const overlap = Math.max(...found.map(other => {
+      let shared = 0;
+      for (const [key, length] of Array.from(edges.entries())) {
+        if (other.has(key)) shared += length;
+      }
+      return candidate.distance > 0 ? shared / candidate.distance : 1;
+    }));
+    if (overlap > MAX_ALTERNATIVE_OVERLAP) continue;
+
+    found.push(edges);
+    alternatives.push(candidate);
+  }
+
+  return alternatives;
+}
+
+/**
+ * Calculate the least-effort path between waypoints on trails. Edge costs
+ * come from the activity's cost profile (see trailCostProfiles.ts), with any
+ * overrides from `options.cost`. Pass `options.alternatives` to also get up
+ * to three noticeably different routes.
+ */
+export async function calculateTrailRoute(
+  waypoints: [number, number][],
+  profile: ActivityProfile = 'foot-hiking',
+  options: TrailRouteOptions = {}
+): Promise<RouteResult> {
   if (waypoints.length < 2) {
     return { coordinates: [], distance: 0, success: false, message: 'Need at least 2 waypoints' };
   }
@@ -595,114 +1059,72 @@ export async function calculateTrailRoute(waypoints: [number, number][], profile
       };
     }
 
-    // Create a working copy of the graph that we can modify with snap nodes
-    // We'll clone the graph to avoid modifying the cached version
-    const workingGraph: TrailGraph = {
-      nodes: new Map(),
-      bounds: graph.bounds,
-      lastUpdated: graph.lastUpdated
-    };
-    
-    // Deep copy nodes
-    for (const [id, node] of Array.from(graph.nodes.entries())) {
-      workingGraph.nodes.set(id, {
-        id: node.id,
-        lat: node.lat,
-        lon: node.lon,
-        neighbors: new Map(node.neighbors)
-      });
-    }
-
-    const fullPath: [number, number][] = [];
-    let totalDistance = 0;
+    const cost = resolveCostProfile(profile, options.cost);
+    const workingGraph = cloneGraph(graph);
 
-    // Snap all waypoints to the nearest edge in the graph
+    // Snap all waypoints to the nearest edge this activity may use
     const snappedNodes: TrailNode[] = [];
-    const createdSnapNodes: string[] = [];
     
     for (let i = 0; i < waypoints.length; i++) {
       const wp = waypoints[i];
       const snapId = `snap_wp_${i}_${Date.now()}`;
       
       // Use edge-based snapping for accurate positioning
-      const snapResult = findNearestEdgeAndSnap(workingGraph, wp[1], wp[0], 1000, snapId);
+      const snapResult = findNearestEdgeAndSnap(workingGraph, wp[1], wp[0], 1000, snapId, edge => isPassable(cost, edge.tags));
       
       if (!snapResult) {
         return { 
           coordinates: [], 
           distance: 0, 
           success: false, 
-          message: `Waypoint ${i + 1} is too far from any trail (>1km). Move it closer to a trail.` 
+          message: `Waypoint ${i + 1} is too far from any trail this activity can use (>1km). Move it closer to a trail.` 
         };
       }
       
       snappedNodes.push(snapResult.node);
-      if (snapResult.isNewNode) {
-        createdSnapNodes.push(snapResult.node.id);
-      }
       
       console.log(`Waypoint ${i + 1} snapped to node ${snapResult.node.id} (${snapResult.distance.toFixed(0)}m away, new=${snapResult.isNewNode})`);
     }
 
-    // Route between each consecutive pair of waypoints
-    for (let i = 0; i < waypoints.length - 1; i++) {
-      const startWaypoint = waypoints[i];
-      const endWaypoint = waypoints[i + 1];
-      const startNode = snappedNodes[i];
-      const endNode = snappedNodes[i + 1];
-
-      // Add the original waypoint coordinate at the start
-      if (i === 0) {
-        fullPath.push(startWaypoint);
-      }
-
-      // Calculate shortest path on trail network
-      const result = dijkstra(workingGraph, startNode.id, endNode.id);
-      
-      if (!result) {
-        return { 
-          coordinates: [], 
-          distance: 0, 
-          success: false, 
-          message: `No trail path found between waypoints ${i + 1} and ${i + 2}. The trails may not be connected.` 
-        };
-      }
-
-      // Add path nodes to result
-      for (const nodeId of result.path) {
-        const node = workingGraph.nodes.get(nodeId)!;
-        const coord: [number, number] = [node.lon, node.lat];
-        
-        // Skip if this coordinate is essentially the same as the last one
-        if (fullPath.length > 0) {
-          const lastCoord = fullPath[fullPath.length - 1];
-          if (Math.abs(lastCoord[0] - coord[0]) < 0.000001 && Math.abs(lastCoord[1] - coord[1]) < 0.000001) {
-            continue;
-          }
-        }
-        fullPath.push(coord);
-      }
-      totalDistance += result.distance;
-
-      // Add the final waypoint coordinate at the end
-      if (i === waypoints.length - 2) {
-        const lastCoord = fullPath[fullPath.length - 1];
-        if (Math.abs(lastCoord[0] - endWaypoint[0]) > 0.000001 || Math.abs(lastCoord[1] - endWaypoint[1]) > 0.000001) {
-          fullPath.push(endWaypoint);
-        }
-      }
+    const best = routeLegs(workingGraph, snappedNodes, cost);
+    if ('failedLeg' in best) {
+      return { 
+        coordinates: [], 
+        distance: 0, 
+        success: false, 
+        message: `No trail path found between waypoints ${best.failedLeg + 1} and ${best.failedLeg + 2}. The trails may not be connected or may be too difficult for this activity.` 
+      };
     }
 
-    const elevation = await fetchElevationForCoordinates(fullPath);
-
-    return {
-      coordinates: fullPath,
-      distance: totalDistance,
+    const coordinates = legsToCoordinates(workingGraph, best, waypoints);
+    const elevation = await fetchElevationForCoordinates(coordinates);
+    const result: RouteResult = {
+      coordinates,
+      distance: best.distance,
       success: true,
       elevationGain: elevation.elevationGain,
-      elevationLoss: elevation.elevationLoss
+      elevationLoss: elevation.elevationLoss,
+      cost: Math.round(best.cost)
     };
 
+    const alternativeCount = Math.min(Math.max(0, Math.floor(options.alternatives ?? 0)), MAX_ALTERNATIVES);
+    if (alternativeCount > 0) {
+      result.alternatives = [];
+      for (const alternative of findAlternativeRoutes(workingGraph, snappedNodes, cost, best, alternativeCount)) {
+        const alternativeCoordinates = legsToCoordinates(workingGraph, alternative, waypoints);
+        const alternativeElevation = await fetchElevationForCoordinates(alternativeCoordinates);
+        result.alternatives.push({
+          coordinates: alternativeCoordinates,
+          distance: alternative.distance,
+          cost: Math.round(alternative.cost),
+          elevationGain: alternativeElevation.elevationGain,
+          elevationLoss: alternativeElevation.elevationLoss
+        });
+      }
+    }
+
+    return result;
+
   } catch (error) {
     console.error('Trail routing error:', error);
     return { 
@@ -714,6 +1136,415 @@ export async function calculateTrailRoute(waypoints: [number, number][], profile
   }
 }
 
+// ========================================
+// Loop and out-and-back generation
+// ========================================
+
+const MAX_GENERATED_ROUTES = 10;
+const DEFAULT_GENERATED_ROUTES = 5;
+// Directions tried from the start, evenly spaced
+const LOOP_BEARINGS = 8;
+// Trail distance over straight-line distance, for sizing the first attempt
+const TRAIL_TORTUOSITY = 1.3;
+// Triangle sides (meters) to try when only a climbing target is given
+const CLIMB_ONLY_SIDES = [600, 1200, 2500, 5000];
+// Loops within this fraction of the target distance are not resized
+const LOOP_DISTANCE_TOLERANCE = 0.1;
+// Out-and-backs are only considered within this fraction of the target distance
+const OUT_AND_BACK_TOLERANCE = 0.3;
+// Cost multiplier on edges a loop has already used, so later legs come back another way
+const LOOP_REPEAT_PENALTY = 4;
+// A generated route may share at most this fraction of its length with a better-ranked one
+const MAX_GENERATED_OVERLAP = 0.6;
+// Climbing misses are measured against at least this many meters, so small targets aren't over-weighted
+const MIN_CLIMB_SCALE = 100;
+
+interface LoopTargets {
+  distance?: number;
+  climb?: number;
+}
+
+interface LoopCandidate {
+  shape: LoopShape;
+  stops: TrailNode[];
+  route: LegRoute;
+  gain: number;
+  loss: number;
+  edges: Map<string, number>;
+  repeated: number;
+  score: number;
+}
+
+// Least-effort tree from the start to every node the profile can reach
+interface ReachTree {
+  previous: Map<string, string>;
+  distance: Map<string, number>;
+  gain: Map<string, number>;
+  loss: Map<string, number>;
+}
+
+// Point `distance` meters from lat/lon along a compass bearing (flat-earth, fine at trail scale)
+function offsetPoint(lat: number, lon: number, bearing: number, distance: number): { lat: number; lon: number } {
+  const rad = bearing * Math.PI / 180;
+  return {
+    lat: lat + distance * Math.cos(rad) / 111320,
+    lon: lon + distance * Math.sin(rad) / (111320 * Math.cos(lat * Math.PI / 180))
+  };
+}
+
+function bearingBetween(from: TrailNode, to: TrailNode): number {
+  const dLon = (to.lon - from.lon) * Math.cos(from.lat * Math.PI / 180);
+  const degrees = Math.atan2(dLon, to.lat - from.lat) * 180 / Math.PI;
+  return (degrees + 360) % 360;
+}
+
+// Dijkstra over edge costs, stopping at nodes more than maxDistance meters of trail away
+function reachableTree(graph: TrailGraph, startId: string, cost: CostProfile, maxDistance: number): ReachTree {
+  const tree: ReachTree = { previous: new Map(), distance: new Map(), gain: new Map(), loss: new Map() };
+  const costs = new Map<string, number>();
+  const visited = new Set<string>();
+  const pq = new PriorityQueue();
+
+  costs.set(startId, 0);
+  tree.distance.set(startId, 0);
+  tree.gain.set(startId, 0);
+  tree.loss.set(startId, 0);
+  pq.push(startId, 0);
+
+  while (!pq.isEmpty()) {
+    const current = pq.pop();
+    if (!current) break;
+    const currentId = current.id;
+    if (visited.has(currentId)) continue;
+    visited.add(currentId);
+
+    const currentNode = graph.nodes.get(currentId);
+    if (!currentNode) continue;
+    const currentCost = costs.get(currentId)!;
+    const currentDistance = tree.distance.get(currentId)!;
+
+    for (const [neighborId, edge] of Array.from(currentNode.neighbors.entries())) {
+      if (visited.has(neighborId)) continue;
+      const neighbor = graph.nodes.get(neighborId);
+      if (!neighbor || currentDistance + edge.distance > maxDistance) continue;
+
+      const rise = edgeRise(currentNode, neighbor);
+      const stepCost = edgeCost(cost, edge.distance, rise, edge.tags);
+      if (stepCost === Infinity) continue;
+
+      const newCost = currentCost + stepCost;
+      if (newCost < (costs.get(neighborId) ?? Infinity)) {
+        costs.set(neighborId, newCost);
+        tree.previous.set(neighborId, currentId);
+        tree.distance.set(neighborId, currentDistance + edge.distance);
+        tree.gain.set(neighborId, tree.gain.get(currentId)! + Math.max(0, rise ?? 0));
+        tree.loss.set(neighborId, tree.loss.get(currentId)! + Math.max(0, -(rise ?? 0)));
+        pq.push(neighborId, newCost);
+      }
+    }
+  }
+
+  return tree;
+}
+
+function treePath(tree: ReachTree, endId: string): string[] {
+  const path: string[] = [];
+  let node: string | undefined = endId;
+  while (node) {
+    path.unshift(node);
+    node = tree.previous.get(node);
+  }
+  return path;
+}
+
+// Reachable node closest to a point, so via points never strand a loop
+function nearestReachableNode(graph: TrailGraph, tree: ReachTree, lat: number, lon: number, maxDistance: number): TrailNode | null {
+  let nearest: TrailNode | null = null;
+  let nearestDist = maxDistance;
+  for (const id of Array.from(tree.distance.keys())) {
+    const node = graph.nodes.get(id)!;
+    const dist = haversineDistance(lat, lon, node.lat, node.lon);
+    if (dist <= nearestDist) {
+      nearestDist = dist;
+      nearest = node;
+    }
+  }
+  return nearest;
+}
+
+/**
+ * Route start -> vias -> start, making each edge already walked more costly
+ * so the way back differs from the way out wherever the network allows.
+ */
+function routeLoop(graph: TrailGraph, start: TrailNode, vias: TrailNode[], cost: CostProfile): LegRoute | null {
+  const penalties = new Map<string, number>();
+  const stops = [start, ...vias, start];
+  const route: LegRoute = { legs: [], distance: 0, cost: 0 };
+
+  for (let i = 0; i < stops.length - 1; i++) {
+    const result = aStar(graph, stops[i].id, stops[i + 1].id, cost, penalties);
+    if (!result) return null;
+    route.legs.push(result.path);
+    route.distance += result.distance;
+    route.cost += pathCost(graph, result.path, cost);
+    for (let j = 1; j < result.path.length; j++) {
+      penalties.set(edgeKey(result.path[j - 1], result.path[j]), LOOP_REPEAT_PENALTY);
+    }
+  }
+  return route;
+}
+
+function scoreLoop(distance: number, gain: number, repeated: number, targets: LoopTargets): number {
+  let score = distance > 0 ? repeated / distance : 1;
+  if (targets.distance) score += Math.abs(distance - targets.distance) / targets.distance;
+  if (targets.climb) score += Math.abs(gain - targets.climb) / Math.max(targets.climb, MIN_CLIMB_SCALE);
+  return score;
+}
+
+function loopCandidate(graph: TrailGraph, shape: LoopShape, stops: TrailNode[], route: LegRoute, targets: LoopTargets): LoopCandidate {
+  const edges = new Map<string, number>();
+  let repeated = 0;
+  let gain = 0;
+  let loss = 0;
+  for (const leg of route.legs) {
+    for (let i = 1; i < leg.length; i++) {
+      const from = graph.nodes.get(leg[i - 1])!;
+      const to = graph.nodes.get(leg[i])!;
+      const key = edgeKey(from.id, to.id);
+      const length = from.neighbors.get(to.id)!.distance;
+      if (edges.has(key)) repeated += length;
+      else edges.set(key, length);
+
+      const rise = edgeRise(from, to) ?? 0;
+      if (rise > 0) gain += rise;
+      else loss -= rise;
+    }
+  }
+  return { shape, stops, route, gain, loss, edges, repeated, score: scoreLoop(route.distance, gain, repeated, targets) };
+}
+
+// Triangles of start and two via points, sized from the target and resized once if they miss
+function findLoops(graph: TrailGraph, tree: ReachTree, start: TrailNode, cost: CostProfile, targets: LoopTargets): LoopCandidate[] {
+  const candidates: LoopCandidate[] = [];
+  const sides = targets.distance ? [targets.distance / (3 * TRAIL_TORTUOSITY)] : CLIMB_ONLY_SIDES;
+
+  for (const initialSide of sides) {
+    for (let b = 0; b < LOOP_BEARINGS; b++) {
+      const bearing = b * 360 / LOOP_BEARINGS;
+      let side = initialSide;
+
+      for (let attempt = 0; attempt < 2; attempt++) {
+        const vias = [bearing, bearing + 60].map(viaBearing => {
+          const point = offsetPoint(start.lat, start.lon, viaBearing, side);
+          return nearestReachableNode(graph, tree, point.lat, point.lon, side / 2);
+        });
+        if (!vias[0] || !vias[1] || vias[0] === vias[1] || vias.includes(start)) break;
+
+        const route = routeLoop(graph, start, vias as TrailNode[], cost);
+        if (!route) break;
+        candidates.push(loopCandidate(graph, 'loop', [start, ...vias as TrailNode[], start], route, targets));
+
+        if (!targets.distance) break;
+        const ratio = targets.distance / route.distance;
+        if (Math.abs(1 - ratio) <= LOOP_DISTANCE_TOLERANCE) break;
+        side *= Math.min(2, Math.max(0.5, ratio));
+      }
+    }
+  }
+  return candidates;
+}
+
+// Best turnaround point in each direction, there and back on the same path
+function findOutAndBacks(graph: TrailGraph, tree: ReachTree, start: TrailNode, cost: CostProfile, targets: LoopTargets): LoopCandidate[] {
+  const best = new Map<number, { id: string; score: number }>();
+
+  for (const [id, oneWay] of Array.from(tree.distance.entries())) {
+    if (id === start.id) continue;
+    if (targets.distance && Math.abs(oneWay * 2 - targets.distance) > targets.distance * OUT_AND_BACK_TOLERANCE) continue;
+
+    // Going out climbs the gain, coming back climbs the loss
+    const gain = tree.gain.get(id)! + tree.loss.get(id)!;
+    const score = scoreLoop(oneWay * 2, gain, oneWay, targets);
+    const sector = Math.floor(bearingBetween(start, graph.nodes.get(id)!) / (360 / LOOP_BEARINGS)) % LOOP_BEARINGS;
+    if (score < (best.get(sector)?.score ?? Infinity)) {
+      best.set(sector, { id, score });
+    }
+  }
+
+  return Array.from(best.values()).map(({ id }) => {
+    const path = treePath(tree, id);
+    const route: LegRoute = {
+      legs: [path, path.slice().reverse()],
+      distance: tree.distance.get(id)! * 2,
+      cost: pathCost(graph, path, cost) + pathCost(graph, path.slice().reverse(), cost)
+    };
+    return loopCandidate(graph, 'out_and_back', [start, graph.nodes.get(id)!, start], route, targets);
+  });
+}
+
+/**
+ * Propose loops and out-and-backs from a start point that come close to a
+ * target distance and/or amount of climbing. Loops are triangles through two
+ * via points in each of eight directions, routed so they repeat as little
+ * trail as possible; out-and-backs turn around at the best point in each
+ * direction. Routes are ranked by how far they miss the targets plus the
+ * fraction of distance travelled twice, and near-duplicates are dropped.
+ */
+export async function generateLoopRoutes(request: LoopRouteRequest): Promise<LoopRouteResult> {
+  const { start, profile = 'foot-hiking', targetDistance, targetClimb } = request;
+  const shapes = request.shapes?.length ? request.shapes : ['loop', 'out_and_back'] as LoopShape[];
+  const count = Math.min(Math.max(1, Math.floor(request.count ?? DEFAULT_GENERATED_ROUTES)), MAX_GENERATED_ROUTES);
+
+  if (!targetDistance && !targetClimb) {
+    return { success: false, message: 'Give a target distance, a target climb, or both', routes: [] };
+  }
+  const targets: LoopTargets = { distance: targetDistance, climb: targetClimb };
+
+  // Far enough for the largest triangle or turnaround the targets allow, plus padding
+  const reach = (targetDistance ? targetDistance * 0.4 : Math.max(...CLIMB_ONLY_SIDES) * 1.2) + 1000;
+  const [lng, lat] = start;
+  const corner = offsetPoint(lat, lng, 45, reach * Math.SQRT2);
+  const minLat = 2 * lat - corner.lat, maxLat = corner.lat;
+  const minLon = 2 * lng - corner.lon, maxLon = corner.lon;
+
+  try {
+    const graph = await getTrailGraph(minLat, minLon, maxLat, maxLon, profile);
+    if (graph.nodes.size === 0) {
+      return { success: false, message: 'No trails found in this area. Try a different start point.', routes: [] };
+    }
+
+    const hasElevation = Array.from(graph.nodes.values()).some(node => node.elevation !== null);
+    if (targetClimb && !hasElevation) {
+      return { success: false, message: 'Elevation data is unavailable here, so routes cannot be matched to a climbing target. Try a distance target instead.', routes: [] };
+    }
+
+    const cost = resolveCostProfile(profile, request.cost);
+    const workingGraph = cloneGraph(graph);
+    const snap = findNearestEdgeAndSnap(workingGraph, lat, lng, 1000, `snap_loop_${Date.now()}`, edge => isPassable(cost, edge.tags));
+    if (!snap) {
+      return { success: false, message: 'The start point is too far from any trail this activity can use (>1km). Move it closer to a trail.', routes: [] };
+    }
+
+    const tree = reachableTree(workingGraph, snap.node.id, cost, targetDistance ? targetDistance * (1 + OUT_AND_BACK_TOLERANCE) / 2 : Infinity);
+    const candidates: LoopCandidate[] = [];
+    if (shapes.includes('loop')) candidates.push(...findLoops(workingGraph, tree, snap.node, cost, targets));
+    if (shapes.includes('out_and_back')) candidates.push(...findOutAndBacks(workingGraph, tree, snap.node, cost, targets));
+    candidates.sort((a, b) => a.score - b.score);
+
+    const picked: LoopCandidate[] = [];
+    for (const candidate of candidates) {
+      if (picked.length >= count) break;
+      const overlap = Math.max(0, ...picked.map(other => {
+        let shared = 0;
+        for (const [key, length] of Array.from(candidate.edges.entries())) {
+          if (other.edges.has(key)) shared += length;
+        }
+        return candidate.route.distance > 0 ? shared / candidate.route.distance : 1;
+      }));
+      if (overlap <= MAX_GENERATED_OVERLAP) picked.push(candidate);
+    }
+
+    if (picked.length === 0) {
+      return { success: false, message: 'No loop or out-and-back found from here. The trail network may be too small for this target.', routes: [] };
+    }
+
+    const routes: GeneratedRoute[] = [];
+    for (const candidate of picked) {
+      const coordinates = legsToCoordinates(workingGraph, candidate.route, [start, start]);
+      const elevation = hasElevation
+        ? { elevationGain: candidate.gain, elevationLoss: candidate.loss }
+        : await fetchElevationForCoordinates(coordinates);
+      routes.push({
+        shape: candidate.shape,
+        coordinates,
+        waypoints: [start, ...candidate.stops.slice(1, -1).map(node => [node.lon, node.lat] as [number, number]), start],
+        distance: Math.round(candidate.route.distance),
+        cost: Math.round(candidate.route.cost),
+        elevationGain: Math.round(elevation.elevationGain),
+        elevationLoss: Math.round(elevation.elevationLoss),
+        repeatedDistance: Math.round(candidate.repeated),
+        score: Math.round(candidate.score * 1000) / 1000
+      });
+    }
+
+    return { success: true, routes };
+  } catch (error) {
+    console.error('Loop generation error:', error);
+    return {
+      success: false,
+      message: `Loop generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      routes: []
+    };
+  }
+}
+
+export type RouteSource = 'openrouteservice' | 'trail_router';
+
+// Route with OpenRouteService when ORS_API_KEY is set, falling back to the
+// trail router above when ORS is rate limited, down or unreachable
+export async function calculatePreferredRoute(
+  waypoints: [number, number][],
+  profile: ActivityProfile = 'foot-hiking'
+): Promise<RouteResult & { source: RouteSource }> {
+  const orsApiKey = process.env.ORS_API_KEY;
+  if (orsApiKey) {
+    try {
+      const orsResponse = await fetch(`https://api.openrouteservice.org/v2/directions/${profile}/geojson`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': orsApiKey
+        },
+        body: JSON.stringify({
+          coordinates: waypoints,
+          elevation: true,
+          instructions: false,
+          preference: 'recommended'
+        })
+      });
+
+      if (orsResponse.ok) {
+        const feature = (await orsResponse.json()).features?.[0];
+        if (!feature) {
+          return { coordinates: [], distance: 0, success: false, message: 'No route found between these waypoints', source: 'openrouteservice' };
+        }
+
+        const coordinates: number[][] = feature.geometry.coordinates;
+        let elevationGain = 0;
+        let elevationLoss = 0;
+        for (let i = 1; i < coordinates.length; i++) {
+          if (coordinates[i].length >= 3 && coordinates[i - 1].length >= 3) {
+            const diff = coordinates[i][2] - coordinates[i - 1][2];
+            if (diff > 0) elevationGain += diff;
+            else elevationLoss += Math.abs(diff);
+          }
+        }
+
+        return {
+          coordinates: coordinates.map(c => [c[0], c[1]] as [number, number]),
+          distance: feature.properties.summary.distance,
+          success: true,
+          elevationGain: Math.round(elevationGain * 10) / 10,
+          elevationLoss: Math.round(elevationLoss * 10) / 10,
+          source: 'openrouteservice'
+        };
+      }
+
+      // A 4xx means ORS understood the request and could not route it (e.g. a point far from any way)
+      if (orsResponse.status !== 429 && orsResponse.status < 500) {
+        const errorText = await orsResponse.text();
+        return { coordinates: [], distance: 0, success: false, message: `Route calculation failed: ${errorText}`, source: 'openrouteservice' };
+      }
+      console.log(`ORS unavailable (${orsResponse.status}), falling back to custom trail router (profile: ${profile})`);
+    } catch (error) {
+      console.error('ORS route error, falling back to custom trail router:', error);
+    }
+  }
+
+  const result = await calculateTrailRoute(waypoints, profile);
+  return { ...result, source: 'trail_router' };
+}
+
 // Get trail statistics for an area
 export async function getTrailStats(minLat: number, minLon: number, maxLat: number, maxLon: number): Promise<{ nodeCount: number; edgeCount: number }> {
   const graph = await getTrailGraph(minLat, minLon, maxLat, maxLon);
@@ -0,0 +1,442 @@
+import { lookupElevations } from './demElevation';
+import { haversineMeters } from './geo';
+import { storage as dbStorage } from './storage';
+import type { Activity } from '@shared/schema';
+
+/**
+ * Terrain-aware travel time. A path is resampled at an even spacing, each
+ * sample-to-sample segment is timed with a per-activity speed model that
+ * depends on its grade, and the segments are summed into legs between the
+ * route's waypoints. A personal factor learned from the user's recorded
+ * activities scales the model to how fast they actually move.
+ */
+
+export const TRAVEL_MODES = ['hiking', 'trail_running', 'mtb', 'skinning', 'downhill_ski', 'nordic'] as const;
+export type TravelMode = typeof TRAVEL_MODES[number];
+
+export interface TravelLeg {
+  from: string;
+  to: string;
+  distance: number; // meters
+  gain: number; // meters
+  loss: number; // meters
+  seconds: number;
+  cumulativeSeconds: number;
+}
+
+export interface TravelCalibration {
+  factor: number; // > 1 means slower than the base model
+  activityCount: number;
+}
+
+export interface TravelEstimate {
+  mode: TravelMode;
+  totalSeconds: number;
+  estimatedTime: number; // minutes, same unit as routes.estimatedTime
+  distance: number;
+  gain: number;
+  loss: number;
+  legs: TravelLeg[];
+  calibration: TravelCalibration | null;
+  elevationSource: 'recorded' | 'open-meteo' | 'drone-dem' | 'mixed';
+}
+
+interface PathPoint {
+  lng: number;
+  lat: number;
+  elevation: number | null;
+}
+
+interface NamedPoint {
+  name: string;
+  lng: number;
+  lat: number;
+}
+
+const MIN_SPACING_METERS = 25;
+const MAX_SAMPLES = 300;
+// Moving average over this many samples keeps DEM steps and GPS jitter out of the grades
+const SMOOTHING_SAMPLES = 5;
+
+// ========================================
+// Speed models
+// ========================================
+
+// Tobler's hiking function: km/h for a given rise/run, fastest on a slight descent
+function tobler(grade: number, flatSpeedKmh: number): number {
+  return flatSpeedKmh * Math.exp(-3.5 * Math.abs(grade + 0.05)) / Math.exp(-3.5 * 0.05);
+}
+
+// Munter method: 1 unit = 1 km horizontal or 100 m of climb (or descent on skis)
+function munterSeconds(distance: number, rise: number, unitsPerHour: number): number {
+  const units = distance / 1000 + Math.abs(rise) / 100;
+  return (units / unitsPerHour) * 3600;
+}
+
+function mtbSpeed(grade: number): number {
+  if (grade > 0) {
+    // Power-limited climbing: 180 W rider, 90 kg with bike, dirt rolling resistance
+    const climbing = 180 / (90 * 9.81 * (grade + 0.02));
+    // Past ~25% most riders push; walking the bike sets the floor
+    return Math.max(Math.min(climbing, 5.5), 0.8);
+  }
+  // Descents are limited by the trail, not gravity; steep ones get slower again
+  const steepness = Math.abs(grade);
+  if (steepness <= 0.15) return 5.5 + steepness * 10;
+  return Math.max(7 - (steepness - 0.15) * 20, 2);
+}
+
+/** Seconds to cover a segment of `distance` meters (horizontal) climbing `rise` meters. */
+export function segmentSeconds(mode: TravelMode, distance: number, rise: number): number {
+  if (distance <= 0) return 0;
+  const grade = rise / distance;
+
+  switch (mode) {
+    case 'hiking':
+      return distance / (Math.max(tobler(grade, 5), 0.5) / 3.6);
+    case 'trail_running':
+      // Runners power-hike the steep climbs, which the same curve captures
+      return distance / (Math.max(tobler(grade, 10), 0.8) / 3.6);
+    case 'nordic':
+      return distance / (Math.max(tobler(grade, 12), 1) / 3.6);
+    case 'mtb':
+      return distance / mtbSpeed(grade);
+    case 'skinning':
+      // Touring: 4 units/h going up, 10 units/h skiing back down
+      return munterSeconds(distance, rise, rise >= 0 ? 4 : 10);
+    case 'downhill_ski': {
+      // Any climbing here is sidestepping or a short bootpack
+      if (grade > 0.03) return munterSeconds(distance, rise, 4);
+      // Cat tracks and run-outs are slow, steep pitches mean more turning
+      const steepness = Math.abs(grade);
+      const speedKmh = steepness < 0.05 ? 12 : steepness > 0.6 ? 12 : 20;
+      return distance / (speedKmh / 3.6);
+    }
+  }
+}
+
+// ========================================
+// Path handling
+// ========================================
+
+// Accepts [lng, lat(, ele)] arrays, {lng, lat} objects and activity track points
+export function parsePath(raw: string | null | undefined): PathPoint[] {
+  if (!raw) return [];
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(parsed)) return [];
+
+  const points: PathPoint[] = [];
+  for (const coord of parsed) {
+    if (Array.isArray(coord)) {
+      const [lng, lat, elevation] = coord;
+      if (typeof lng !== 'number' || typeof lat !== 'number') continue;
+      // Live tracks store [lng, lat, timestamp]; only small third values are elevations
+      const hasElevation = typeof elevation === 'number' && Math.abs(elevation) < 10000;
+      points.push({ lng, lat, elevation: hasElevation ? elevation : null });
+    } else if (coord && typeof coord === 'object') {
+      const lng = coord.lng ?? coord.longitude;
+      const lat = coord.lat ?? coord.latitude;
+      if (typeof lng !== 'number' || typeof lat !== 'number') continue;
+      const elevation = coord.elevation ?? coord.altitude ?? null;
+      points.push({ lng, lat, elevation: typeof elevation === 'number' ? elevation : null });
+    }
+  }
+  return points;
+}
+
+// Accepts the stored waypoint formats: [{name, lngLat}], [{name?, lng, lat}] and [[lng, lat]]
+export function parseWaypoints(raw: string | null | undefined): NamedPoint[] {
+  if (!raw) return [];
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(parsed)) return [];
+
+  const waypoints: NamedPoint[] = [];
+  parsed.forEach((wp: any, index) => {
+    const fallbackName = `Waypoint ${index + 1}`;
+    if (Array.isArray(wp) && typeof wp[0] === 'number' && typeof wp[1] === 'number') {
+      waypoints.push({ name: fallbackName, lng: wp[0], lat: wp[1] });
+    } else if (wp && Array.isArray(wp.lngLat)) {
+      waypoints.push({ name: wp.name || fallbackName, lng: wp.lngLat[0], lat: wp.lngLat[1] });
+    } else if (wp && typeof wp.lng === 'number' && typeof wp.lat === 'number') {
+      waypoints.push({ name: wp.name || fallbackName, lng: wp.lng, lat: wp.lat });
+    }
+  });
+  return waypoints;
+}
+
+function resample(points: PathPoint[]): { distance: number; point: PathPoint }[] {
+  if (points.length < 2) return [];
+
+  const cumulative = [0];
+  for (let i = 1; i < points.length; i++) {
+    cumulative.push(cumulative[i - 1] + haversineMeters(points[i - 1], points[i]));
+  }
+  const total = cumulative[cumulative.length - 1];
+  if (total === 0) return [];
+
+  const spacing = Math.max(total / (MAX_SAMPLES - 1), MIN_SPACING_METERS);
+  const samples: { distance: number; point: PathPoint }[] = [];
+  let segment = 1;
+
+  for (let d = 0; d < total; d += spacing) {
+    while (segment < points.length - 1 && cumulative[segment] < d) segment++;
+    const a = points[segment - 1];
+    const b = points[segment];
+    const span = cumulative[segment] - cumulative[segment - 1];
+    const t = span > 0 ? Math.min(Math.max((d - cumulative[segment - 1]) / span, 0), 1) : 0;
+    const elevation = a.elevation !== null && b.elevation !== null
+      ? a.elevation + (b.elevation - a.elevation) * t
+      : null;
+    samples.push({
+      distance: d,
+      point: { lng: a.lng + (b.lng - a.lng) * t, lat: a.lat + (b.lat - a.lat) * t, elevation },
+    });
+  }
+  samples.push({ distance: total, point: points[points.length - 1] });
+  return samples;
+}
+
+function smooth(values: number[]): number[] {
+  const half = Math.floor(SMOOTHING_SAMPLES / 2);
+  return values.map((_, i) => {
+    const from = Math.max(0, i - half);
+    const to = Math.min(values.length - 1, i + half);
+    let sum = 0;
+    for (let j = from; j <= to; j++) sum += values[j];
+    return sum / (to - from + 1);
+  });
+}
+
+// Sample index for each waypoint, walking forward so loops and out-and-backs
+// attach each waypoint to the right pass
+function locateWaypoints(samples: { point: PathPoint }[], waypoints: NamedPoint[]): number[] {
+  const last = samples.length - 1;
+  const indexes: number[] = [];
+  let from = 0;
+
+  waypoints.forEach((wp, k) => {
+    if (k === 0) {
+      indexes.push(0);
+      return;
+    }
+    if (k === waypoints.length - 1) {
+      indexes.push(last);
+      return;
+    }
+    const distances = samples.map((s, i) => i < from ? Infinity : haversineMeters(s.point, wp));
+    const nearest = Math.min(...distances);
+    // Earliest pass that is about as close as the closest one
+    const index = distances.findIndex(d => d <= nearest + 30);
+    indexes.push(index);
+    from = index;
+  });
+  return indexes;
+}
+
+// ========================================
+// Personal calibration
+// ========================================
+
+// Which recorded activities say something about each mode, and which of their
+// segments to compare: lift rides must not count as skinning, nor skinning as skiing
+const CALIBRATION_SOURCES: Record<TravelMode, { activityType: string; useSegment: (rise: number, seconds: number) => boolean } | null> = {
+  hiking: { activityType: 'hike', useSegment: () => true },
+  trail_running: { activityType: 'run', useSegment: () => true },
+  mtb: { activityType: 'bike', useSegment: () => true },
+  skinning: { activityType: 'ski', useSegment: (rise, seconds) => rise > 0 && rise / seconds < 0.6 },
+  downhill_ski: { activityType: 'ski', useSegment: (rise) => rise < 0 },
+  nordic: null,
+};
+
+const CALIBRATION_ACTIVITY_LIMIT = 20;
+const CALIBRATION_CHUNK_METERS = 50;
+const CALIBRATION_TTL_MS = 10 * 60 * 1000;
+// Pairs of fixes further apart than this, or slower than a shuffle, are stops or gaps
+const MAX_MOVING_GAP_SECONDS = 60;
+const MIN_MOVING_SPEED = 0.2;
+
+const calibrationCache = new Map<string, { value: TravelCalibration | null; expiresAt: number }>();
+
+// Ratio of actual moving time to modelled time over one recorded activity
+function activityRatio(activity: Activity, mode: TravelMode): number | null {
+  const source = CALIBRATION_SOURCES[mode];
+  if (!source || !activity.trackPoints) return null;
+
+  let points: any[];
+  try {
+    points = JSON.parse(activity.trackPoints);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(points) || points.length < 10) return null;
+
+  let actual = 0;
+  let predicted = 0;
+  let chunkStart = 0;
+  let chunkDistance = 0;
+  let chunkSeconds = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    const curr = points[i];
+    if (typeof curr.timestamp !== 'number' || typeof prev.timestamp !== 'number') return null;
+
+    const step = haversineMeters({ lng: prev.longitude, lat: prev.latitude }, { lng: curr.longitude, lat: curr.latitude });
+    const dt = (curr.timestamp - prev.timestamp) / 1000;
+    if (dt > 0 && dt <= MAX_MOVING_GAP_SECONDS && step / dt >= MIN_MOVING_SPEED) {
+      chunkDistance += step;
+      chunkSeconds += dt;
+    }
+
+    if (chunkDistance >= CALIBRATION_CHUNK_METERS) {
+      const startAltitude = points[chunkStart].altitude;
+      const endAltitude = curr.altitude;
+      if (typeof startAltitude === 'number' && typeof endAltitude === 'number') {
+        const rise = endAltitude - startAltitude;
+        if (source.useSegment(rise, chunkSeconds)) {
+          actual += chunkSeconds;
+          predicted += segmentSeconds(mode, chunkDistance, rise);
+        }
+      }
+      chunkStart = i;
+      chunkDistance = 0;
+      chunkSeconds = 0;
+    }
+  }
+
+  // Too little comparable movement to say anything
+  if (predicted < 10 * 60 || actual < 10 * 60) return null;
+  return actual / predicted;
+}
+
+/**
+ * Personal speed factor for a mode from the user's most recent matching
+ * activities, or null when nothing usable has been recorded.
+ */
+export async function getTravelCalibration(userId: number, mode: TravelMode): Promise<TravelCalibration | null> {
+  const source = CALIBRATION_SOURCES[mode];
+  if (!source) return null;
+
+  const cacheKey = `${userId}:${mode}`;
+  const cached = calibrationCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) return cached.value;
+
+  const activities = (await dbStorage.getActivitiesByUser(userId))
+    .filter(a => a.activityType === source.activityType)
+    .slice(0, CALIBRATION_ACTIVITY_LIMIT);
+
+  const ratios = activities
+    .map(a => activityRatio(a, mode))
+    .filter((r): r is number => r !== null && Number.isFinite(r))
+    .sort((a, b) => a - b);
+
+  let value: TravelCalibration | null = null;
+  if (ratios.length > 0) {
+    const median = ratios[Math.floor(ratios.length / 2)];
+    // Shrink toward the base model until there are a few activities to go on
+    const weight = ratios.length / (ratios.length + 2);
+    const factor = Math.exp(Math.log(Math.min(Math.max(median, 0.4), 2.5)) * weight);
+    value = { factor: Math.round(factor * 100) / 100, activityCount: ratios.length };
+  }
+
+  calibrationCache.set(cacheKey, { value, expiresAt: Date.now() + CALIBRATION_TTL_MS });
+  return value;
+}
+
+// ========================================
+// Estimation
+// ========================================
+
+/**
+ * Estimate travel time along a path, split into legs between waypoints.
+ * Elevations recorded in the path are used when every point has one;
+ * otherwise they are looked up (uploaded DEMs first, then Open-Meteo).
+ */
+export async function estimateTravelTime(options: {
+  path: PathPoint[];
+  waypoints?: NamedPoint[];
+  mode: TravelMode;
+  userId?: number;
+  calibrate?: boolean;
+}): Promise<TravelEstimate | null> {
+  const { path, mode, userId } = options;
+  const samples = resample(path);
+  if (samples.length < 2) return null;
+
+  let elevationSource: TravelEstimate['elevationSource'] = 'recorded';
+  let elevations: number[];
+  if (samples.every(s => s.point.elevation !== null)) {
+    elevations = samples.map(s => s.point.elevation!);
+  } else {
+    const lookup = await lookupElevations(samples.map(s => [s.point.lng, s.point.lat] as [number, number]), userId);
+    elevationSource = lookup.source;
+    // Carry the previous value over holes so a missing point reads as flat
+    let previous = lookup.elevations.find((e): e is number => e !== null) ?? 0;
+    elevations = lookup.elevations.map(e => (previous = e ?? previous));
+  }
+  elevations = smooth(elevations);
+
+  const calibration = options.calibrate !== false && userId
+    ? await getTravelCalibration(userId, mode)
+    : null;
+  const factor = calibration?.factor ?? 1;
+
+  // Without at least two waypoints the whole path is a single leg
+  let waypoints = options.waypoints ?? [];
+  if (waypoints.length < 2) {
+    waypoints = [
+      { name: 'Start', ...samples[0].point },
+      { name: 'Finish', ...samples[samples.length - 1].point },
+    ];
+  }
+  const boundaries = locateWaypoints(samples, waypoints);
+
+  const legs: TravelLeg[] = [];
+  let cumulativeSeconds = 0;
+  for (let k = 1; k < boundaries.length; k++) {
+    let distance = 0;
+    let gain = 0;
+    let loss = 0;
+    let seconds = 0;
+    for (let i = boundaries[k - 1] + 1; i <= boundaries[k]; i++) {
+      const run = samples[i].distance - samples[i - 1].distance;
+      const rise = elevations[i] - elevations[i - 1];
+      distance += run;
+      if (rise > 0) gain += rise;
+      else loss -= rise;
+      seconds += segmentSeconds(mode, run, rise) * factor;
+    }
+    cumulativeSeconds += seconds;
+    legs.push({
+      from: waypoints[k - 1].name,
+      to: waypoints[k].name,
+      distance: Math.round(distance),
+      gain: Math.round(gain),
+      loss: Math.round(loss),
+      seconds: Math.round(seconds),
+      cumulativeSeconds: Math.round(cumulativeSeconds),
+    });
+  }
+
+  return {
+    mode,
+    totalSeconds: Math.round(cumulativeSeconds),
+    estimatedTime: Math.round(cumulativeSeconds / 60),
+    distance: legs.reduce((sum, leg) => sum + leg.distance, 0),
+    gain: legs.reduce((sum, leg) => sum + leg.gain, 0),
+    loss: legs.reduce((sum, leg) => sum + leg.loss, 0),
+    legs,
+    calibration,
+    elevationSource,
+  };
+}
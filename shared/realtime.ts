@@ -0,0 +1,174 @@
+import { z } from "zod";
+
+/**
+ * Wire protocol for the /ws endpoint, shared by the server and the client SDK.
+ *
+ * Every frame is a JSON object with a `type`. Client messages may carry an
+ * `id`; the server answers those with an `ack` (or an `error`) that echoes it,
+ * so callers can wait for confirmation. The server greets each socket with
+ * the protocol versions it speaks and the client names its version in `auth`.
+ * Clients that send no version are treated as version 1, which is the same
+ * format without acks.
+ */
+
+export const PROTOCOL_VERSION = 2;
+export const MIN_PROTOCOL_VERSION = 1;
+
+// Close code sent to clients whose protocol version this server cannot speak
+export const UNSUPPORTED_VERSION_CLOSE_CODE = 4400;
+
+const requestId = z.string().min(1).max(64).optional();
+
+// ========================================
+// Shared payloads
+// ========================================
+
+export const memberPositionSchema = z.object({
+  latitude: z.number().finite().min(-90).max(90),
+  longitude: z.number().finite().min(-180).max(180),
+  accuracy: z.number().finite().nonnegative().nullish(),
+  heading: z.number().finite().min(0).max(360).nullish(),
+});
+
+export const sharedLocationSchema = z.object({
+  latitude: z.number().finite().min(-90).max(90),
+  longitude: z.number().finite().min(-180).max(180),
+  altitude: z.number().finite().nullish(),
+});
+
+// Database rows are forwarded as-is; only the fields clients key on are checked
+const row = z.object({ id: z.number() }).passthrough();
+const createdBy = z.object({ id: z.number(), username: z.string() });
+
+export type MemberPosition = z.infer<typeof memberPositionSchema>;
+export type SharedLocation = z.infer<typeof sharedLocationSchema>;
+
+// ========================================
+// Client -> server
+// ========================================
+
+export const clientMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("auth"), id: requestId, version: z.number().int().positive().optional(), userId: z.number().optional() }),
+  z.object({ type: z.literal("ping"), id: requestId }),
+  z.object({ type: z.literal("session:join"), id: requestId, sessionId: z.coerce.number().int().positive() }),
+  z.object({ type: z.literal("session:leave"), id: requestId }),
+  memberPositionSchema.extend({ type: z.literal("session:location"), id: requestId }),
+  z.object({ type: z.literal("voice:talking"), id: requestId, isTalking: z.boolean() }),
+  z.object({ type: z.literal("location"), id: requestId, location: sharedLocationSchema }),
+]);
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+export type ClientMessageType = ClientMessage["type"];
+
+// ========================================
+// Server -> client
+// ========================================
+
+function sessionEvent<T extends string, D extends z.ZodTypeAny>(type: T, data: D) {
+  return z.object({ type: z.literal(type), sessionId: z.number(), data });
+}
+
+const sessionEventSchemas = [
+  sessionEvent("member:locationUpdate", memberPositionSchema.extend({ userId: z.number() })),
+  sessionEvent("member:joined", z.object({ userId: z.number(), username: z.string() })),
+  sessionEvent("member:left", z.object({ userId: z.number() })),
+  sessionEvent("member:disconnected", z.object({ userId: z.number() })),
+  sessionEvent("session:ended", z.object({ sessionId: z.number(), debriefUrl: z.string() })),
+  sessionEvent("gpsTrack:updated", z.object({
+    userId: z.number(),
+    username: z.string(),
+    coordinates: z.array(z.array(z.number())),
+    totalDistance: z.number().nullish(),
+  })),
+  sessionEvent("droneLayers:updated", z.object({ activeDroneLayers: z.array(z.number()), updatedBy: z.number() })),
+  sessionEvent("poi:created", row.extend({ createdByUser: createdBy })),
+  sessionEvent("poi:deleted", z.object({ poiId: z.number() })),
+  sessionEvent("route:created", row.extend({ createdByUser: createdBy })),
+  sessionEvent("route:updated", row.extend({ createdByUser: createdBy })),
+  sessionEvent("route:deleted", z.object({ routeId: z.number() })),
+  sessionEvent("message:new", row.extend({ user: createdBy.extend({ fullName: z.string().nullish() }) })),
+  sessionEvent("voice:message", z.object({
+    id: z.number(),
+    userId: z.number(),
+    username: z.string(),
+    mimeType: z.string(),
+    duration: z.number(),
+    timestamp: z.number(),
+  })),
+  sessionEvent("voice:talking", z.object({ userId: z.number(), isTalking: z.boolean() })),
+  sessionEvent("geofence:created", row),
+  sessionEvent("geofence:updated", row),
+  sessionEvent("geofence:deleted", z.object({ geofenceId: z.number() })),
+  sessionEvent("geofence:alert", z.object({
+    geofenceId: z.number(),
+    name: z.string(),
+    ruleType: z.string(),
+    userId: z.number(),
+    username: z.string(),
+    message: z.string(),
+    latitude: z.number(),
+    longitude: z.number(),
+    distanceMeters: z.number().nullable(),
+    timestamp: z.number(),
+  })),
+  sessionEvent("incident:raised", row.extend({ userId: z.number(), type: z.string(), username: z.string() })),
+  sessionEvent("incident:updated", row.extend({ userId: z.number(), status: z.string() })),
+] as const;
+
+export const serverMessageSchema = z.discriminatedUnion("type", [
+  ...sessionEventSchemas,
+  z.object({
+    type: z.literal("auth"),
+    status: z.literal("success"),
+    userId: z.number(),
+    message: z.string(),
+    protocolVersion: z.number(),
+    minProtocolVersion: z.number(),
+  }),
+  z.object({ type: z.literal("pong") }),
+  z.object({ type: z.literal("ack"), id: z.string() }),
+  z.object({ type: z.literal("error"), id: z.string().optional(), code: z.string().optional(), message: z.string() }),
+  z.object({ type: z.literal("session:joined"), sessionId: z.number() }),
+  z.object({ type: z.literal("location"), userId: z.number(), location: sharedLocationSchema }),
+  z.object({
+    type: z.literal("location-update"),
+    userId: z.number(),
+    username: z.string(),
+    latitude: z.number(),
+    longitude: z.number(),
+    accuracy: z.number().nullable(),
+    heading: z.number().nullable(),
+    speed: z.number().nullable(),
+    lastUpdated: z.coerce.date().nullable(),
+  }),
+  z.object({
+    type: z.literal("dm:new"),
+    data: row.extend({ sender: createdBy.extend({ fullName: z.string().nullish() }) }),
+  }),
+]);
+
+export type ServerMessage = z.infer<typeof serverMessageSchema>;
+export type ServerMessageType = ServerMessage["type"];
+export type ServerMessageOf<T extends ServerMessageType> = Extract<ServerMessage, { type: T }>;
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/** A session broadcast before the hub stamps it with its session id. */
+export type SessionEvent = DistributiveOmit<z.infer<(typeof sessionEventSchemas)[number]>, "sessionId">;
+
+/** Parse one inbound frame, returning the message or a readable reason it was rejected. */
+export function parseClientMessage(raw: string): { success: true; message: ClientMessage } | { success: false; error: string; id?: string } {
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    return { success: false, error: "Invalid message format" };
+  }
+  const result = clientMessageSchema.safeParse(json);
+  if (result.success) return { success: true, message: result.data };
+
+  const id = typeof (json as any)?.id === "string" ? (json as any).id : undefined;
+  const issue = result.error.issues[0];
+  const path = issue.path.length ? `${issue.path.join(".")}: ` : "";
+  return { success: false, error: `${path}${issue.message}`, id };
+}
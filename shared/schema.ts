@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp, decimal } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, decimal, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -39,6 +40,20 @@ export const droneImages = pgTable("drone_images", {
   tileMaxZoom: integer("tile_max_zoom"),
   tileStoragePath: text("tile_storage_path"),
   processingStatus: text("processing_status").default("pending"),
+  tileMode: text("tile_mode").default("pyramid"), // 'pyramid' (pre-rendered PNGs) or 'cog' (rendered on request)
+  cogPath: text("cog_path"), // Local Cloud-Optimized GeoTIFF used when tileMode is 'cog'
+  crsCode: text("crs_code"), // e.g. 'EPSG:2773'
+  crsName: text("crs_name"),
+  crsSource: text("crs_source"), // 'manual', 'gdal', 'geotiff', 'local', 'epsg-index'
+  crsStatus: text("crs_status"), // 'resolved', 'flagged', 'unresolved'
+  crsWarnings: text("crs_warnings"), // JSON array of placement warnings
+  rasterType: text("raster_type").default("orthomosaic"), // 'orthomosaic', 'dem' (bare earth) or 'dsm' (surface)
+  elevationPath: text("elevation_path"), // WGS84 Float32 GeoTIFF sampled by the elevation proxy
+  hillshadePath: text("hillshade_path"), // Hillshade COG; the color relief is served as the main cogPath
+  contoursPath: text("contours_path"), // GeoJSON contour lines
+  contourInterval: decimal("contour_interval"),
+  minElevation: decimal("min_elevation"),
+  maxElevation: decimal("max_elevation"),
 });
 
 // 3D Drone models table (linked to drone images)
@@ -75,6 +90,69 @@ export const cesium3dTilesets = pgTable("cesium_3d_tilesets", {
   userId: integer("user_id").notNull().references(() => users.id),
 });
 
+// Background processing jobs (drone tile generation, Cesium storage sync, trail region seeding)
+export const processingJobs = pgTable("processing_jobs", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull(), // 'drone_tiles', 'cesium_sync', 'trail_region_seed'
+  targetId: integer("target_id").notNull(), // drone image, Cesium tileset or trail region id
+  payload: text("payload"), // JSON string of job-specific options
+  status: text("status").notNull().default("queued"), // 'queued', 'running', 'completed', 'failed', 'cancelled'
+  progress: integer("progress").notNull().default(0), // 0-100
+  step: text("step"), // Human readable description of the current step
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  cancelRequested: boolean("cancel_requested").default(false),
+  error: text("error"),
+  logs: text("logs"), // JSON array of { at, message } entries
+  runAfter: timestamp("run_after").defaultNow(), // Retry backoff
+  createdAt: timestamp("created_at").defaultNow(),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+  lockedUntil: timestamp("locked_until"), // Lease held by the process running the job, renewed while it runs
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  // At most one queued or running job per target, so concurrent enqueues cannot double up
+  uniqueIndex("processing_jobs_active_target_idx")
+    .on(table.type, table.targetId)
+    .where(sql`${table.status} IN ('queued', 'running')`),
+  index("processing_jobs_status_run_after_idx").on(table.status, table.runAfter),
+]);
+
+// Regions whose trails were seeded from a local .osm.pbf extract instead of Overpass
+export const trailRegions = pgTable("trail_regions", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  sourceFile: text("source_file").notNull(), // File name inside TRAIL_EXTRACTS_DIR
+  // Optional clip box; null seeds everything in the extract
+  south: decimal("south", { precision: 10, scale: 6 }),
+  west: decimal("west", { precision: 10, scale: 6 }),
+  north: decimal("north", { precision: 10, scale: 6 }),
+  east: decimal("east", { precision: 10, scale: 6 }),
+  status: text("status").notNull().default("queued"), // 'queued', 'seeding', 'ready', 'failed', 'cancelled'
+  cellCount: integer("cell_count").notNull().default(0),
+  error: text("error"),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow(),
+  seededAt: timestamp("seeded_at"),
+});
+
+// Trail graphs and the raw OSM they were built from, one row per 0.1° cell and routing profile
+export const trailGraphCells = pgTable("trail_graph_cells", {
+  id: serial("id").primaryKey(),
+  cellKey: text("cell_key").notNull().unique(), // `${profileKey}_${latIndex}_${lonIndex}`
+  profileKey: text("profile_key").notNull(), // 'hiking' or 'cycling'
+  regionId: integer("region_id").references(() => trailRegions.id, { onDelete: 'cascade' }), // Set for seeded cells
+  source: text("source").notNull(), // 'overpass' or 'pbf'
+  nodeCount: integer("node_count").notNull().default(0),
+  edgeCount: integer("edge_count").notNull().default(0),
+  graphData: text("graph_data").notNull(), // gzip + base64 compact graph JSON
+  osmData: text("osm_data").notNull(), // gzip + base64 Overpass-style elements
+  byteSize: integer("byte_size").notNull().default(0),
+  fetchedAt: timestamp("fetched_at").defaultNow(),
+  lastUsedAt: timestamp("last_used_at").defaultNow(),
+  expiresAt: timestamp("expires_at"), // Null for seeded cells, which live as long as their region
+});
+
 // Saved locations
 export const locations = pgTable("locations", {
   id: serial("id").primaryKey(),
@@ -98,6 +176,10 @@ export const offlineMapAreas = pgTable("offline_map_areas", {
   southWestLng: decimal("sw_lng").notNull(),
   includesDroneData: boolean("includes_drone_data").default(true),
   sizeInMB: integer("size_in_mb").notNull(),
+  // Zoom range and tile count of the pack cached on the device
+  minZoom: integer("min_zoom"),
+  maxZoom: integer("max_zoom"),
+  tileCount: integer("tile_count"),
   downloadedAt: timestamp("downloaded_at").defaultNow(),
 });
 
@@ -192,6 +274,17 @@ export const routePointsOfInterest = pgTable("route_points_of_interest", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// AI route assistant conversations, so follow-ups survive a page reload
+export const aiConversations = pgTable("ai_conversations", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  title: text("title").notNull(),
+  activityType: text("activity_type").notNull().default('hiking'),
+  messages: text("messages").notNull().default('[]'), // JSON array of { role, content, routeOptions?, createdAt }
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Location sharing requests and connections
 export const locationShares = pgTable("location_shares", {
   id: serial("id").primaryKey(),
@@ -286,6 +379,7 @@ export const liveMapSessions = pgTable("live_map_sessions", {
   endedAt: timestamp("ended_at"), // When session was ended
   savedRouteId: integer("saved_route_id"), // Reference to the saved route when session ends
   expiresAt: timestamp("expires_at"), // Optional expiration
+  checkInMinutes: integer("check_in_minutes"), // Raise an overdue incident after this long without a location update; null = off
 });
 
 // Live Map Session Members
@@ -326,6 +420,40 @@ export const liveMapRoutes = pgTable("live_map_routes", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Live Map Geofences - alert rules checked against each member location update
+export const liveMapGeofences = pgTable("live_map_geofences", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull().references(() => liveMapSessions.id, { onDelete: 'cascade' }),
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  ruleType: text("rule_type").notNull(), // 'leave_area', 'enter_area', 'member_distance' or 'reach_poi'
+  polygon: text("polygon"), // JSON ring of [lng, lat] for area rules
+  targetUserId: integer("target_user_id").references(() => users.id), // Member the rule watches; null = everyone
+  poiId: integer("poi_id").references(() => liveMapPois.id, { onDelete: 'cascade' }),
+  distanceMeters: decimal("distance_meters", { precision: 10, scale: 2 }), // Group distance or POI arrival radius
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Live Map Incidents - SOS calls and overdue check-ins, acknowledged and resolved by the team
+export const liveMapIncidents = pgTable("live_map_incidents", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull().references(() => liveMapSessions.id, { onDelete: 'cascade' }),
+  userId: integer("user_id").notNull().references(() => users.id), // Member the incident is about
+  type: text("type").notNull(), // 'sos' or 'overdue'
+  status: text("status").notNull().default("open"), // 'open', 'acknowledged' or 'resolved'
+  note: text("note"),
+  latitude: decimal("latitude", { precision: 10, scale: 6 }), // Member's last known fix
+  longitude: decimal("longitude", { precision: 10, scale: 6 }),
+  accuracy: decimal("accuracy", { precision: 10, scale: 2 }),
+  lastFixAt: timestamp("last_fix_at"),
+  acknowledgedBy: integer("acknowledged_by").references(() => users.id),
+  acknowledgedAt: timestamp("acknowledged_at"),
+  resolvedBy: integer("resolved_by").references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Live Map Chat Messages
 export const liveMapMessages = pgTable("live_map_messages", {
   id: serial("id").primaryKey(),
@@ -407,14 +535,49 @@ export const activities = pgTable("activities", {
   elevationLossMeters: decimal("elevation_loss_meters", { precision: 10, scale: 2 }),
   minElevationMeters: decimal("min_elevation_meters", { precision: 10, scale: 2 }),
   maxElevationMeters: decimal("max_elevation_meters", { precision: 10, scale: 2 }),
-  pathCoordinates: text("path_coordinates").notNull(), // GeoJSON LineString coordinates [[lng, lat], ...]
-  trackPoints: text("track_points"), // JSON array of detailed track points with timestamp, accuracy, etc.
+  pathCoordinates: text("path_coordinates").notNull(), // GeoJSON LineString coordinates [[lng, lat(, ele)], ...]; cleaned track once processed
+  trackPoints: text("track_points"), // JSON array of detailed track points with timestamp, accuracy, etc. Never modified
+  lapMarkers: text("lap_markers"), // JSON array of unix ms times the recorder marked a lap
+  recordingProfile: text("recording_profile"), // JSON RecordingProfile the activity was recorded with
+  // Server post-processing (server/activityProcessing.ts)
+  rawStats: text("raw_stats"), // JSON of the totals as recorded on the device
+  elevationSource: text("elevation_source"), // 'drone-dem' | 'open-meteo' | 'mixed' | 'gps'
+  droppedPoints: integer("dropped_points"), // fixes removed as inaccurate, spikes or impossible speeds
+  skiSegments: text("ski_segments"), // JSON SkiDay: lift rides, skin climbs and runs (ski activities only)
+  processedAt: timestamp("processed_at"),
   isPublic: boolean("is_public").default(false),
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Named stretches of trail that activities are timed on (server/segments.ts)
+export const segments = pgTable("segments", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+  activityType: text("activity_type"), // only match this type of activity; null for any
+  pathCoordinates: text("path_coordinates").notNull(), // JSON [[lng, lat(, ele)], ...]
+  distanceMeters: decimal("distance_meters", { precision: 10, scale: 2 }).notNull(),
+  elevationGainMeters: decimal("elevation_gain_meters", { precision: 10, scale: 2 }),
+  sourceActivityId: integer("source_activity_id").references(() => activities.id, { onDelete: 'set null' }),
+  sourceRouteId: integer("source_route_id").references(() => routes.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One timed pass of an activity over a segment
+export const segmentEfforts = pgTable("segment_efforts", {
+  id: serial("id").primaryKey(),
+  segmentId: integer("segment_id").notNull().references(() => segments.id, { onDelete: 'cascade' }),
+  activityId: integer("activity_id").notNull().references(() => activities.id, { onDelete: 'cascade' }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  startTime: timestamp("start_time").notNull(),
+  elapsedSeconds: integer("elapsed_seconds").notNull(),
+  distanceMeters: decimal("distance_meters", { precision: 10, scale: 2 }).notNull(),
+  avgSpeedMps: decimal("avg_speed_mps", { precision: 8, scale: 4 }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const directMessages = pgTable("direct_messages", {
   id: serial("id").primaryKey(),
   senderId: integer("sender_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
@@ -449,6 +612,13 @@ export const insertDroneImageSchema = createInsertSchema(droneImages).pick({
   southWestLng: true,
   sizeInMB: true,
   isActive: true,
+  tileMode: true,
+  crsCode: true,
+  crsName: true,
+  crsSource: true,
+  crsStatus: true,
+  crsWarnings: true,
+  rasterType: true,
 });
 
 export const insertDroneModelSchema = createInsertSchema(droneModels).pick({
@@ -495,6 +665,9 @@ export const insertOfflineMapAreaSchema = createInsertSchema(offlineMapAreas).pi
   southWestLng: true,
   includesDroneData: true,
   sizeInMB: true,
+  minZoom: true,
+  maxZoom: true,
+  tileCount: true,
 });
 
 export const insertWaypointSchema = createInsertSchema(waypoints).pick({
@@ -566,6 +739,13 @@ export const insertRoutePointOfInterestSchema = createInsertSchema(routePointsOf
   photos: true,
 });
 
+export const insertAiConversationSchema = createInsertSchema(aiConversations).pick({
+  userId: true,
+  title: true,
+  activityType: true,
+  messages: true,
+});
+
 export const insertLocationShareSchema = createInsertSchema(locationShares).pick({
   fromUserId: true,
   toUserId: true,
@@ -661,6 +841,38 @@ export const insertLiveMapRouteSchema = createInsertSchema(liveMapRoutes).pick({
   totalDistance: z.union([z.string(), z.number()]).transform(val => String(val)).optional().nullable(),
 });
 
+export const GEOFENCE_RULE_TYPES = ['leave_area', 'enter_area', 'member_distance', 'reach_poi'] as const;
+
+export const insertLiveMapGeofenceSchema = createInsertSchema(liveMapGeofences).pick({
+  sessionId: true,
+  createdBy: true,
+  name: true,
+  ruleType: true,
+  polygon: true,
+  targetUserId: true,
+  poiId: true,
+  distanceMeters: true,
+}).extend({
+  ruleType: z.enum(GEOFENCE_RULE_TYPES),
+  distanceMeters: z.union([z.string(), z.number()]).transform(val => String(val)).optional().nullable(),
+});
+
+export const INCIDENT_TYPES = ['sos', 'overdue'] as const;
+export const INCIDENT_STATUSES = ['open', 'acknowledged', 'resolved'] as const;
+
+export const insertLiveMapIncidentSchema = createInsertSchema(liveMapIncidents).pick({
+  sessionId: true,
+  userId: true,
+  type: true,
+  note: true,
+  latitude: true,
+  longitude: true,
+  accuracy: true,
+  lastFixAt: true,
+}).extend({
+  type: z.enum(INCIDENT_TYPES),
+});
+
 export const insertLiveMapMessageSchema = createInsertSchema(liveMapMessages).pick({
   sessionId: true,
   userId: true,
@@ -702,6 +914,8 @@ export const insertActivitySchema = createInsertSchema(activities).pick({
   maxElevationMeters: true,
   pathCoordinates: true,
   trackPoints: true,
+  lapMarkers: true,
+  recordingProfile: true,
   isPublic: true,
   notes: true,
 }).extend({
@@ -716,6 +930,30 @@ export const insertActivitySchema = createInsertSchema(activities).pick({
   maxElevationMeters: z.union([z.string(), z.number()]).transform(val => String(val)).optional().nullable(),
 });
 
+export const insertSegmentSchema = createInsertSchema(segments).pick({
+  userId: true,
+  name: true,
+  activityType: true,
+  pathCoordinates: true,
+  distanceMeters: true,
+  elevationGainMeters: true,
+  sourceActivityId: true,
+  sourceRouteId: true,
+}).extend({
+  distanceMeters: z.union([z.string(), z.number()]).transform(val => String(val)),
+  elevationGainMeters: z.union([z.string(), z.number()]).transform(val => String(val)).optional().nullable(),
+});
+
+export const insertSegmentEffortSchema = createInsertSchema(segmentEfforts).pick({
+  segmentId: true,
+  activityId: true,
+  userId: true,
+  startTime: true,
+  elapsedSeconds: true,
+  distanceMeters: true,
+  avgSpeedMps: true,
+});
+
 export const insertLiveMapGpsTrackSchema = createInsertSchema(liveMapGpsTracks).pick({
   sessionId: true,
   userId: true,
@@ -831,6 +1069,18 @@ export const locationShareSchema = z.object({
   altitude: z.number().optional(),
 });
 
+// Per-activity-type recording settings; the one used is saved with each
+// activity so its moving time can be recomputed the same way
+export const recordingProfileSchema = z.object({
+  sampleIntervalSeconds: z.number().min(1).max(60), // minimum time between stored fixes
+  accuracyThresholdMeters: z.number().min(5).max(200), // fixes reporting worse accuracy are ignored
+  autoPause: z.boolean(),
+  autoPauseSpeedMps: z.number().min(0).max(10), // slower than this counts as stopped
+  autoPauseDelaySeconds: z.number().min(0).max(600), // stopped this long pauses the clock
+  batterySaver: z.boolean(), // coarser, less frequent fixes
+  audioCues: z.boolean(), // tones on auto-pause and auto-resume
+});
+
 // Subscription schema
 export const subscriptionSchema = z.object({
   userId: z.number(),
@@ -864,6 +1114,8 @@ export type InsertRouteShare = z.infer<typeof insertRouteShareSchema>;
 export type RouteShare = typeof routeShares.$inferSelect;
 export type InsertRoutePointOfInterest = z.infer<typeof insertRoutePointOfInterestSchema>;
 export type RoutePointOfInterest = typeof routePointsOfInterest.$inferSelect;
+export type InsertAiConversation = z.infer<typeof insertAiConversationSchema>;
+export type AiConversation = typeof aiConversations.$inferSelect;
 export type InsertLocationShare = z.infer<typeof insertLocationShareSchema>;
 export type LocationShare = typeof locationShares.$inferSelect;
 export type InsertUserLocation = z.infer<typeof insertUserLocationSchema>;
@@ -884,6 +1136,13 @@ export type InsertLiveMapPoi = z.infer<typeof insertLiveMapPoiSchema>;
 export type LiveMapPoi = typeof liveMapPois.$inferSelect;
 export type InsertLiveMapRoute = z.infer<typeof insertLiveMapRouteSchema>;
 export type LiveMapRoute = typeof liveMapRoutes.$inferSelect;
+export type InsertLiveMapGeofence = z.infer<typeof insertLiveMapGeofenceSchema>;
+export type LiveMapGeofence = typeof liveMapGeofences.$inferSelect;
+export type GeofenceRuleType = typeof GEOFENCE_RULE_TYPES[number];
+export type InsertLiveMapIncident = z.infer<typeof insertLiveMapIncidentSchema>;
+export type LiveMapIncident = typeof liveMapIncidents.$inferSelect;
+export type IncidentType = typeof INCIDENT_TYPES[number];
+export type IncidentStatus = typeof INCIDENT_STATUSES[number];
 export type InsertLiveMapMessage = z.infer<typeof insertLiveMapMessageSchema>;
 export type LiveMapMessage = typeof liveMapMessages.$inferSelect;
 export type InsertVoiceMessage = z.infer<typeof insertVoiceMessageSchema>;
@@ -898,12 +1157,17 @@ export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
 export type BackgroundLocationToken = typeof backgroundLocationTokens.$inferSelect;
 export type InsertActivity = z.infer<typeof insertActivitySchema>;
 export type Activity = typeof activities.$inferSelect;
+export type InsertSegment = z.infer<typeof insertSegmentSchema>;
+export type Segment = typeof segments.$inferSelect;
+export type InsertSegmentEffort = z.infer<typeof insertSegmentEffortSchema>;
+export type SegmentEffort = typeof segmentEfforts.$inferSelect;
 export type InsertDirectMessage = z.infer<typeof insertDirectMessageSchema>;
 export type DirectMessage = typeof directMessages.$inferSelect;
 export type LoginData = z.infer<typeof loginSchema>;
 export type RegisterData = z.infer<typeof registerSchema>;
 export type LocationShareData = z.infer<typeof locationShareSchema>;
 export type SubscriptionData = z.infer<typeof subscriptionSchema>;
+export type RecordingProfile = z.infer<typeof recordingProfileSchema>;
 
 // Password reset schemas
 export const forgotPasswordSchema = z.object({
@@ -971,3 +1235,6 @@ export type EnterpriseCesiumTileset = typeof enterpriseCesiumTilesets.$inferSele
 export type InsertEnterpriseCesiumTileset = z.infer<typeof insertEnterpriseCesiumTilesetSchema>;
 export type EnterpriseInvite = typeof enterpriseInvites.$inferSelect;
 export type InsertEnterpriseInvite = z.infer<typeof insertEnterpriseInviteSchema>;
+export type ProcessingJob = typeof processingJobs.$inferSelect;
+export type TrailRegion = typeof trailRegions.$inferSelect;
+export type TrailGraphCell = typeof trailGraphCells.$inferSelect;